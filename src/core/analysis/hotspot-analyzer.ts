@@ -0,0 +1,256 @@
+/**
+ * 熱點分析器
+ * 結合 git 變更頻率與認知複雜度找出最常修改又最難理解的檔案與函式，並找出經常一起修改卻沒有 import 關係的檔案
+ */
+
+import type { GitClient } from '../../infrastructure/git/git-client.js';
+import type { GitCommit, GitFileRevision, GitLogOptions } from '../../infrastructure/git/types.js';
+import type { ComplexityMetrics, FunctionComplexityMetrics } from '../../infrastructure/parser/analysis-types.js';
+import type { DependencyGraph } from '../dependency/dependency-graph.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 熱點分析選項
+export interface HotspotAnalysisOptions extends GitLogOptions {
+  /** 計算函式層級變更次數的檔案數（依分數排序取前 N 個） */
+  functionTop?: number;
+  /** 依賴圖，用於排除有 import 關係的共同變更 */
+  graph?: DependencyGraph;
+  /** 共同變更最少的提交數 */
+  minSharedCommits?: number;
+  /** 共同變更最低的耦合度（共同提交數 / 兩檔案平均提交數） */
+  minCouplingDegree?: number;
+  /** 單一提交修改超過此檔案數時不列入共同變更（大量格式化或搬移） */
+  maxFilesPerCommit?: number;
+}
+
+// 函式熱點
+export interface FunctionHotspot {
+  name: string;
+  startLine: number;
+  endLine: number;
+  revisions: number;
+  cognitiveComplexity: number;
+  score: number;
+}
+
+// 檔案熱點
+export interface FileHotspot {
+  filePath: string;
+  /** 修改過此檔案的提交數 */
+  revisions: number;
+  linesAdded: number;
+  linesDeleted: number;
+  /** 作者數（依 email 區分） */
+  authors: number;
+  /** 距離第一次修改的天數 */
+  ageDays: number;
+  /** 距離最後一次修改的天數 */
+  lastChangeDays: number;
+  cognitiveComplexity: number;
+  cyclomaticComplexity: number;
+  /** 變更次數 × 認知複雜度 */
+  score: number;
+  functions: FunctionHotspot[];
+}
+
+// 共同變更（change coupling）
+export interface ChangeCoupling {
+  fileA: string;
+  fileB: string;
+  sharedCommits: number;
+  degree: number;
+}
+
+// 熱點分析結果
+export interface HotspotAnalysisResult {
+  totalCommits: number;
+  hotspots: FileHotspot[];
+  couplings: ChangeCoupling[];
+}
+
+/**
+ * 熱點分析器
+ */
+export class HotspotAnalyzer {
+  constructor(private readonly git: GitClient) {}
+
+  /**
+   * 分析熱點
+   * @param complexities 各檔案（絕對路徑）的複雜度，只有列在其中的檔案會被排名
+   * @param options 分析選項
+   */
+  async analyze(
+    complexities: ReadonlyMap<string, ComplexityMetrics>,
+    options: HotspotAnalysisOptions = {}
+  ): Promise<HotspotAnalysisResult> {
+    const logOptions = { since: options.since, maxCount: options.maxCount };
+    const commits = await this.git.getCommits(logOptions);
+
+    const hotspots = this.rankFiles(commits, complexities);
+    for (const hotspot of hotspots.slice(0, options.functionTop ?? 10)) {
+      const functions = complexities.get(hotspot.filePath)?.functions ?? [];
+      if (hotspot.score > 0 && functions.length > 0) {
+        // 只讀取統計範圍內的修訂
+        const revisions = await this.git.getFileRevisions(hotspot.filePath, { since: options.since, maxCount: hotspot.revisions });
+        hotspot.functions = this.rankFunctions(functions, revisions);
+      }
+    }
+
+    return {
+      totalCommits: commits.length,
+      hotspots,
+      couplings: this.findCouplings(commits, new Set(complexities.keys()), options)
+    };
+  }
+
+  /**
+   * 統計每個檔案的變更並依變更次數 × 認知複雜度排序
+   */
+  private rankFiles(commits: readonly GitCommit[], complexities: ReadonlyMap<string, ComplexityMetrics>): FileHotspot[] {
+    const now = Date.now();
+    const stats = new Map<string, { revisions: number; added: number; deleted: number; authors: Set<string>; first: number; last: number }>();
+
+    for (const commit of commits) {
+      const time = commit.date.getTime();
+      for (const change of commit.files) {
+        if (!complexities.has(change.filePath)) {
+          continue;
+        }
+        const stat = stats.get(change.filePath) ?? { revisions: 0, added: 0, deleted: 0, authors: new Set(), first: time, last: time };
+        stat.revisions++;
+        stat.added += change.added;
+        stat.deleted += change.deleted;
+        stat.authors.add(commit.email.toLowerCase());
+        stat.first = Math.min(stat.first, time);
+        stat.last = Math.max(stat.last, time);
+        stats.set(change.filePath, stat);
+      }
+    }
+
+    return [...stats.entries()].map(([filePath, stat]) => {
+      const metrics = complexities.get(filePath)!;
+      return {
+        filePath,
+        revisions: stat.revisions,
+        linesAdded: stat.added,
+        linesDeleted: stat.deleted,
+        authors: stat.authors.size,
+        ageDays: Math.floor((now - stat.first) / DAY_MS),
+        lastChangeDays: Math.floor((now - stat.last) / DAY_MS),
+        cognitiveComplexity: metrics.cognitiveComplexity,
+        cyclomaticComplexity: metrics.cyclomaticComplexity,
+        score: stat.revisions * metrics.cognitiveComplexity,
+        functions: []
+      };
+    }).sort((a, b) => b.score - a.score || b.revisions - a.revisions || a.filePath.localeCompare(b.filePath));
+  }
+
+  /**
+   * 計算每個函式被修改的次數
+   * 由新到舊逐一套用 diff 區塊，將函式目前的行號範圍換算回每個提交之後的行號
+   */
+  private rankFunctions(functions: readonly FunctionComplexityMetrics[], revisions: readonly GitFileRevision[]): FunctionHotspot[] {
+    return functions.map(fn => {
+      let range: [number, number] | null = [fn.startLine, fn.endLine];
+      let count = 0;
+
+      for (const revision of revisions) {
+        if (!range) {
+          break;
+        }
+        const [start, end] = range;
+        const touched = revision.hunks.some(hunk => hunk.newLines > 0
+          ? hunk.newStart <= end && hunk.newStart + hunk.newLines - 1 >= start
+          : hunk.newStart >= start && hunk.newStart < end);
+        if (touched) {
+          count++;
+        }
+
+        const oldStart = this.toOldLine(start, revision, 'start');
+        const oldEnd = this.toOldLine(end, revision, 'end');
+        // 函式在此提交中新增時，之前的版本沒有對應的行
+        range = oldStart <= oldEnd ? [oldStart, oldEnd] : null;
+      }
+
+      return {
+        name: fn.name,
+        startLine: fn.startLine,
+        endLine: fn.endLine,
+        revisions: count,
+        cognitiveComplexity: fn.cognitiveComplexity,
+        score: count * Math.max(1, fn.cognitiveComplexity)
+      };
+    })
+      .filter(fn => fn.revisions > 0)
+      .sort((a, b) => b.score - a.score || b.revisions - a.revisions || a.startLine - b.startLine);
+  }
+
+  /**
+   * 將提交之後的行號換算為提交之前的行號（位於修改區塊內的行對應到區塊的邊界）
+   */
+  private toOldLine(line: number, revision: GitFileRevision, edge: 'start' | 'end'): number {
+    let offset = 0;
+    for (const hunk of revision.hunks) {
+      const newEnd = hunk.newStart + hunk.newLines - 1;
+      if (hunk.newLines > 0 && line >= hunk.newStart && line <= newEnd) {
+        // 純新增的區塊（oldLines 為 0）位於舊版第 oldStart 行之後
+        if (hunk.oldLines === 0) {
+          return edge === 'start' ? hunk.oldStart + 1 : hunk.oldStart;
+        }
+        return edge === 'start' ? hunk.oldStart : hunk.oldStart + hunk.oldLines - 1;
+      }
+      const endsBefore = hunk.newLines > 0 ? newEnd < line : hunk.newStart < line;
+      if (endsBefore) {
+        offset += hunk.oldLines - hunk.newLines;
+      }
+    }
+    return line + offset;
+  }
+
+  /**
+   * 找出經常一起修改但彼此沒有 import 關係的檔案
+   */
+  private findCouplings(
+    commits: readonly GitCommit[],
+    files: ReadonlySet<string>,
+    options: HotspotAnalysisOptions
+  ): ChangeCoupling[] {
+    const minShared = options.minSharedCommits ?? 3;
+    const minDegree = options.minCouplingDegree ?? 0.5;
+    const maxFiles = options.maxFilesPerCommit ?? 50;
+
+    const revisions = new Map<string, number>();
+    const shared = new Map<string, number>();
+    for (const commit of commits) {
+      const changed = [...new Set(commit.files.map(change => change.filePath))].filter(file => files.has(file)).sort();
+      for (const file of changed) {
+        revisions.set(file, (revisions.get(file) ?? 0) + 1);
+      }
+      if (changed.length > maxFiles) {
+        continue;
+      }
+      for (let i = 0; i < changed.length; i++) {
+        for (let j = i + 1; j < changed.length; j++) {
+          const key = `${changed[i]}\u0000${changed[j]}`;
+          shared.set(key, (shared.get(key) ?? 0) + 1);
+        }
+      }
+    }
+
+    const couplings: ChangeCoupling[] = [];
+    for (const [key, count] of shared) {
+      const [fileA, fileB] = key.split('\u0000');
+      const degree = count / ((revisions.get(fileA)! + revisions.get(fileB)!) / 2);
+      if (count < minShared || degree < minDegree) {
+        continue;
+      }
+      if (options.graph && (options.graph.hasDependency(fileA, fileB) || options.graph.hasDependency(fileB, fileA))) {
+        continue;
+      }
+      couplings.push({ fileA, fileB, sharedCommits: count, degree: Math.round(degree * 100) / 100 });
+    }
+
+    return couplings.sort((a, b) => b.sharedCommits - a.sharedCommits || b.degree - a.degree);
+  }
+}
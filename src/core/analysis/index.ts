@@ -11,3 +11,13 @@ export {
   type QualityAssessment,
   type CodeSmell
 } from './quality-metrics.js';
+
+// 熱點分析（git 變更頻率 × 認知複雜度）
+export {
+  HotspotAnalyzer,
+  type HotspotAnalysisOptions,
+  type HotspotAnalysisResult,
+  type FileHotspot,
+  type FunctionHotspot,
+  type ChangeCoupling
+} from './hotspot-analyzer.js';
@@ -0,0 +1,62 @@
+/**
+ * 受影響測試分析器
+ * 從變更檔案沿著被依賴關係找出需要重新執行的測試檔案
+ */
+
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+
+import type { DependencyGraph } from './dependency-graph.js';
+import { DEFAULT_TEST_PATTERNS } from './reachability-analyzer.js';
+import type { AffectedTestSelection } from './types.js';
+
+/**
+ * 受影響測試分析器類別
+ */
+export class AffectedTestsAnalyzer {
+  /**
+   * @param testPatterns 判斷測試檔案的 glob（相對於專案根目錄）
+   */
+  constructor(private readonly testPatterns: readonly string[] = DEFAULT_TEST_PATTERNS) {}
+
+  /**
+   * 挑選受變更影響的測試：變更的測試本身，以及傳遞依賴任一變更檔案的測試
+   * @param graph 專案依賴圖
+   * @param changedFiles 變更檔案（絕對路徑）
+   * @param rootPath 專案根目錄
+   */
+  select(graph: DependencyGraph, changedFiles: readonly string[], rootPath: string): AffectedTestSelection {
+    const root = path.resolve(rootPath);
+    const isTest = (filePath: string) => this.isTestFile(root, filePath);
+
+    const uniqueFiles = [...new Set(changedFiles.map(file => path.resolve(file)))];
+    const trackedFiles = uniqueFiles.filter(file => graph.hasNode(file));
+    const triggers = new Map<string, Set<string>>();
+
+    for (const changedFile of trackedFiles) {
+      for (const file of [changedFile, ...graph.getTransitiveDependents(changedFile)]) {
+        if (isTest(file)) {
+          triggers.set(file, (triggers.get(file) ?? new Set()).add(changedFile));
+        }
+      }
+    }
+
+    return {
+      changedFiles: trackedFiles,
+      ignoredFiles: uniqueFiles.filter(file => !graph.hasNode(file)),
+      affectedTests: [...triggers.entries()]
+        .map(([filePath, triggeredBy]) => ({ filePath, triggeredBy: [...triggeredBy].sort() }))
+        .sort((a, b) => a.filePath.localeCompare(b.filePath)),
+      totalTests: graph.getAllNodes().filter(isTest).length
+    };
+  }
+
+  private isTestFile(root: string, filePath: string): boolean {
+    if (!path.isAbsolute(filePath)) {
+      return false;
+    }
+    const relativePath = path.relative(root, filePath).split(path.sep).join('/');
+    return !relativePath.startsWith('..') &&
+      this.testPatterns.some(pattern => minimatch(relativePath, pattern, { dot: true }));
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * 模組耦合度指標計算器
+ * 以目錄為模組計算 Robert C. Martin 的 Ca、Ce、不穩定度 I、抽象度 A 與主序列距離 D
+ */
+
+import * as path from 'path';
+
+import type { DependencyGraph } from './dependency-graph.js';
+import type { CouplingMetricsOptions, ModuleMetrics, TypeDeclarationCount } from './types.js';
+import type { ParserPlugin } from '../../infrastructure/parser/interface.js';
+import { SymbolType, type Symbol } from '../../shared/types/index.js';
+
+/**
+ * 與主序列距離達到此值的模組視為設計不良
+ */
+export const MAIN_SEQUENCE_DISTANCE_THRESHOLD = 0.7;
+
+/**
+ * 計入抽象度的型別宣告
+ */
+const TYPE_DECLARATIONS = new Set<SymbolType>([
+  SymbolType.Class,
+  SymbolType.Struct,
+  SymbolType.Interface,
+  SymbolType.Protocol,
+  SymbolType.Type,
+  SymbolType.Enum
+]);
+
+const ABSTRACT_TYPES = new Set<SymbolType>([
+  SymbolType.Interface,
+  SymbolType.Protocol,
+  SymbolType.Type
+]);
+
+/**
+ * 模組耦合度指標計算器類別
+ */
+export class CouplingMetricsCalculator {
+  /**
+   * 計算檔案中的抽象與具體型別數量
+   * @param symbols 檔案的符號
+   * @param parser 檔案對應的 parser（以 isAbstractDeclaration 排除變數等實體）
+   */
+  countTypeDeclarations(
+    symbols: readonly Symbol[],
+    parser: Pick<ParserPlugin, 'isAbstractDeclaration'>
+  ): TypeDeclarationCount {
+    const types = symbols.filter(symbol =>
+      TYPE_DECLARATIONS.has(symbol.type) && (parser.isAbstractDeclaration?.(symbol) ?? true)
+    );
+
+    return {
+      abstract: types.filter(symbol =>
+        ABSTRACT_TYPES.has(symbol.type) || symbol.modifiers.includes('abstract')
+      ).length,
+      total: types.length
+    };
+  }
+
+  /**
+   * 計算每個模組的耦合度指標
+   * @param graph 依賴圖
+   * @param options 計算選項
+   * @returns 模組指標，依主序列距離由大到小排序
+   */
+  calculate(graph: DependencyGraph, options: CouplingMetricsOptions): ModuleMetrics[] {
+    const rootPath = path.resolve(options.rootPath);
+    const moduleOf = new Map<string, string>();
+    for (const node of graph.getAllNodes()) {
+      const module = this.getModuleId(node, rootPath, options.depth);
+      if (module) {
+        moduleOf.set(node, module);
+      }
+    }
+
+    const files = new Map<string, string[]>();
+    const afferent = new Map<string, Set<string>>();
+    const efferent = new Map<string, Set<string>>();
+    for (const [file, module] of moduleOf) {
+      files.set(module, [...(files.get(module) ?? []), file]);
+    }
+
+    for (const edge of graph.getAllEdges()) {
+      const fromModule = moduleOf.get(edge.from);
+      const toModule = moduleOf.get(edge.to);
+      if (!fromModule || !toModule || fromModule === toModule) {
+        continue;
+      }
+      afferent.set(toModule, (afferent.get(toModule) ?? new Set()).add(edge.from));
+      efferent.set(fromModule, (efferent.get(fromModule) ?? new Set()).add(edge.from));
+    }
+
+    const metrics = [...files.entries()].map(([module, moduleFiles]): ModuleMetrics => {
+      const ca = afferent.get(module)?.size ?? 0;
+      const ce = efferent.get(module)?.size ?? 0;
+      const counts = moduleFiles.map(file => options.typeCounts?.get(file) ?? { abstract: 0, total: 0 });
+      const abstractTypes = counts.reduce((sum, count) => sum + count.abstract, 0);
+      const totalTypes = counts.reduce((sum, count) => sum + count.total, 0);
+
+      const instability = ca + ce > 0 ? ce / (ca + ce) : 0;
+      const abstractness = totalTypes > 0 ? abstractTypes / totalTypes : 0;
+
+      return {
+        module,
+        files: moduleFiles.sort(),
+        afferentCoupling: ca,
+        efferentCoupling: ce,
+        instability: this.round(instability),
+        abstractness: this.round(abstractness),
+        distance: this.round(Math.abs(abstractness + instability - 1)),
+        abstractTypes,
+        totalTypes
+      };
+    });
+
+    return metrics.sort((a, b) => b.distance - a.distance || a.module.localeCompare(b.module));
+  }
+
+  /**
+   * 偏離主序列且與其他模組有依賴的模組（獨立模組的距離沒有意義）
+   * @param metrics 模組指標
+   */
+  findOffenders(metrics: readonly ModuleMetrics[]): ModuleMetrics[] {
+    return metrics.filter(metric =>
+      metric.distance >= MAIN_SEQUENCE_DISTANCE_THRESHOLD &&
+      metric.afferentCoupling + metric.efferentCoupling > 0
+    );
+  }
+
+  /**
+   * 專案內的檔案以所在目錄（或前幾層目錄）為模組，外部依賴回傳 null
+   */
+  private getModuleId(filePath: string, rootPath: string, depth?: number): string | null {
+    if (!path.isAbsolute(filePath)) {
+      return null;
+    }
+
+    const relativePath = path.relative(rootPath, filePath).split(path.sep).join('/');
+    if (relativePath.startsWith('..')) {
+      return null;
+    }
+
+    const directories = relativePath.split('/').slice(0, -1);
+    if (directories.length === 0) {
+      return './';
+    }
+    return `${(depth === undefined ? directories : directories.slice(0, depth)).join('/')}/`;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -5,8 +5,10 @@
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import * as ts from 'typescript';
 import { DependencyGraph } from './dependency-graph.js';
 import { CycleDetector } from './cycle-detector.js';
+import { ModuleResolver, type ImportKind } from './module-resolver.js';
 import type {
   FileDependencies,
   ProjectDependencies,
@@ -27,6 +29,15 @@ interface CacheEntry {
   lastModified: Date;
 }
 
+/**
+ * 原始碼中的模組參照
+ */
+interface ModuleReference {
+  readonly specifier: string;
+  readonly type: DependencyType;
+  readonly importedSymbols: readonly string[];
+}
+
 /**
  * 依賴關係分析器類別
  */
@@ -35,11 +46,13 @@ export class DependencyAnalyzer {
   private cycleDetector: CycleDetector;
   private cache: Map<string, CacheEntry>;
   private options: ExtendedDependencyAnalysisOptions;
+  private moduleResolver: ModuleResolver;
 
   constructor(options?: Partial<ExtendedDependencyAnalysisOptions>) {
     this.graph = new DependencyGraph();
     this.cycleDetector = new CycleDetector();
     this.cache = new Map();
+    this.moduleResolver = new ModuleResolver();
 
     // 使用預設選項並合併使用者選項
     const defaultOptions = this.createDefaultAnalysisOptions();
@@ -111,6 +124,15 @@ export class DependencyAnalyzer {
     const normalizedProjectPath = path.resolve(projectPath);
     const files = await this.findSourceFiles(normalizedProjectPath);
 
+    // 重用分析器時（如 MCP 工作階段），移除已刪除的檔案與其他專案的快取，依賴圖只包含這次分析的專案
+    const fileSet = new Set(files);
+    for (const cachedPath of this.cache.keys()) {
+      if (!fileSet.has(cachedPath)) {
+        this.cache.delete(cachedPath);
+      }
+    }
+    this.graph.clear();
+
     const fileDependencies: FileDependencies[] = [];
 
     // 並行分析檔案（根據 concurrency 設定）
@@ -123,6 +145,11 @@ export class DependencyAnalyzer {
       fileDependencies.push(...results);
     }
 
+    // 命中快取的檔案不會更新依賴圖，在此重新加入
+    for (const result of fileDependencies) {
+      this.updateDependencyGraph(result);
+    }
+
     const result: ProjectDependencies = {
       projectPath: normalizedProjectPath,
       fileDependencies,
@@ -132,6 +159,14 @@ export class DependencyAnalyzer {
     return result;
   }
 
+  /**
+   * 取得目前的依賴圖
+   * @returns 依賴圖（與分析器共用，分析新檔案時會更新）
+   */
+  getGraph(): DependencyGraph {
+    return this.graph;
+  }
+
   /**
    * 取得檔案的直接依賴
    * @param filePath 檔案路徑
@@ -185,13 +220,14 @@ export class DependencyAnalyzer {
   /**
    * 取得詳細的影響分析結果
    * @param filePath 檔案路徑
+   * @param graph 分析的依賴圖（預設為分析器的依賴圖，模擬變更時傳入複製的圖）
    * @returns 影響分析結果
    */
-  getImpactAnalysis(filePath: string): ImpactAnalysisResult {
+  getImpactAnalysis(filePath: string, graph: DependencyGraph = this.graph): ImpactAnalysisResult {
     const normalizedPath = path.resolve(filePath);
-    const directlyAffected = this.getDependents(normalizedPath);
-    const transitivelyAffected = this.graph.getTransitiveDependents(normalizedPath);
-    const affectedTests = this.getAffectedTests(normalizedPath);
+    const directlyAffected = graph.getDependents(normalizedPath);
+    const transitivelyAffected = graph.getTransitiveDependents(normalizedPath);
+    const affectedTests = this.getAffectedTests(normalizedPath, graph);
 
     // 計算影響分數
     const impactScore = this.calculateImpactScore(
@@ -212,16 +248,17 @@ export class DependencyAnalyzer {
   /**
    * 取得受影響的測試檔案
    * @param filePath 檔案路徑
+   * @param graph 分析的依賴圖
    * @returns 測試檔案列表
    */
-  getAffectedTests(filePath: string): string[] {
+  getAffectedTests(filePath: string, graph: DependencyGraph = this.graph): string[] {
     const normalizedPath = path.resolve(filePath);
-    const allAffected = [normalizedPath, ...this.getImpactedFiles(normalizedPath)];
+    const allAffected = [normalizedPath, ...graph.getTransitiveDependents(normalizedPath)];
     const testFiles: string[] = [];
 
     for (const affectedFile of allAffected) {
       // 找出直接測試此檔案的測試檔案
-      const dependents = this.getDependents(affectedFile);
+      const dependents = graph.getDependents(affectedFile);
       const tests = dependents.filter(dep => this.isTestFile(dep));
       testFiles.push(...tests);
     }
@@ -269,34 +306,35 @@ export class DependencyAnalyzer {
     const fileExt = path.extname(filePath);
 
     try {
-      // 簡單的正則表達式解析（實際應該使用 AST）
-      let importRegex: RegExp;
+      let references: ModuleReference[];
 
       switch (fileExt) {
       case '.ts':
       case '.tsx':
       case '.js':
       case '.jsx':
-        importRegex = /import\s+(?:{[^}]*}|\*\s+as\s+\w+|\w+)?\s*from\s+['"`]([^'"`]+)['"`]/g;
+        references = this.collectModuleReferences(content, filePath);
         break;
       case '.swift':
-        importRegex = /import\s+(\w+)/g;
+        references = [...content.matchAll(/import\s+(\w+)/g)].map(match => ({
+          specifier: match[1],
+          type: DependencyType.Import,
+          importedSymbols: []
+        }));
         break;
       default:
         return dependencies; // 不支援的檔案類型
       }
 
-      let match;
-      while ((match = importRegex.exec(content)) !== null) {
-        const importPath = match[1];
-        const resolvedPath = await this.resolvePath(importPath, filePath);
+      for (const reference of references) {
+        const resolvedPath = await this.resolvePath(reference.specifier, filePath, this.toImportKind(reference.type));
 
         if (resolvedPath && this.shouldIncludeDependency(resolvedPath.resolvedPath)) {
           dependencies.push({
             path: resolvedPath.resolvedPath, // 使用解析後的絕對路徑
-            type: DependencyType.Import,
+            type: reference.type,
             isRelative: resolvedPath.isRelative,
-            importedSymbols: [] // 簡化實作，實際應該解析 import 語句
+            importedSymbols: reference.importedSymbols
           });
         }
       }
@@ -308,6 +346,65 @@ export class DependencyAnalyzer {
     return dependencies;
   }
 
+  /**
+   * 以 AST 收集 import、export ... from、import() 與 require() 的模組參照
+   * @param content 檔案內容
+   * @param filePath 檔案路徑
+   * @returns 模組參照列表（依出現順序）
+   */
+  private collectModuleReferences(content: string, filePath: string): ModuleReference[] {
+    const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, false);
+    const references: ModuleReference[] = [];
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+        const clause = node.importClause;
+        const symbols: string[] = [];
+        if (clause?.name) {
+          symbols.push('default');
+        }
+        if (clause?.namedBindings) {
+          if (ts.isNamespaceImport(clause.namedBindings)) {
+            symbols.push('*');
+          } else {
+            symbols.push(...clause.namedBindings.elements.map(element => (element.propertyName ?? element.name).text));
+          }
+        }
+        references.push({ specifier: node.moduleSpecifier.text, type: DependencyType.Import, importedSymbols: symbols });
+      } else if (ts.isExportDeclaration(node) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+        const symbols = node.exportClause && ts.isNamedExports(node.exportClause)
+          ? node.exportClause.elements.map(element => (element.propertyName ?? element.name).text)
+          : ['*'];
+        references.push({ specifier: node.moduleSpecifier.text, type: DependencyType.ReExport, importedSymbols: symbols });
+      } else if (
+        ts.isImportEqualsDeclaration(node) &&
+        ts.isExternalModuleReference(node.moduleReference) &&
+        ts.isStringLiteral(node.moduleReference.expression)
+      ) {
+        references.push({ specifier: node.moduleReference.expression.text, type: DependencyType.Require, importedSymbols: [] });
+      } else if (ts.isCallExpression(node) && node.arguments.length > 0 && ts.isStringLiteralLike(node.arguments[0])) {
+        const specifier = node.arguments[0].text;
+        if (node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+          references.push({ specifier, type: DependencyType.DynamicImport, importedSymbols: [] });
+        } else if (ts.isIdentifier(node.expression) && node.expression.text === 'require') {
+          references.push({ specifier, type: DependencyType.Require, importedSymbols: [] });
+        }
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return references;
+  }
+
+  private toImportKind(type: DependencyType): ImportKind {
+    if (type === DependencyType.Require) {
+      return 'require';
+    }
+    return type === DependencyType.DynamicImport ? 'dynamic-import' : 'import';
+  }
+
   /**
    * 解析路徑
    * @param importPath 匯入路徑
@@ -316,7 +413,8 @@ export class DependencyAnalyzer {
    */
   private async resolvePath(
     importPath: string,
-    fromFile: string
+    fromFile: string,
+    kind: ImportKind = 'import'
   ): Promise<PathResolutionResult | null> {
     const isRelative = importPath.startsWith('.') || importPath.startsWith('/');
     const fileExt = path.extname(fromFile);
@@ -331,6 +429,19 @@ export class DependencyAnalyzer {
       };
     }
 
+    // 依 TypeScript 模組解析規則處理 index 檔案、.js → .ts、paths 與 baseUrl
+    if (fileExt !== '.swift') {
+      const resolution = this.moduleResolver.resolve(importPath, fromFile, kind);
+      if (resolution && !resolution.isExternal) {
+        return {
+          resolvedPath: resolution.resolvedPath,
+          isRelative,
+          exists: true,
+          extension: path.extname(resolution.resolvedPath)
+        };
+      }
+    }
+
     if (!isRelative && !this.options.includeNodeModules) {
       return null; // 忽略 node_modules
     }
@@ -394,7 +505,7 @@ export class DependencyAnalyzer {
     // 新增新的依賴關係
     for (const dep of dependencies) {
       // dep.path 現在已經是解析後的絕對路徑
-      this.graph.addDependency(filePath, dep.path);
+      this.graph.addDependency(filePath, dep.path, dep.type);
     }
   }
 
@@ -14,7 +14,7 @@ import type {
  */
 export interface SerializedGraph {
   nodes: string[];
-  edges: Array<{ from: string; to: string; weight: number }>;
+  edges: Array<{ from: string; to: string; weight: number; type?: DependencyEdge['dependencyType'] }>;
   metadata?: Record<string, any>;
 }
 
@@ -26,6 +26,8 @@ export class DependencyGraph {
   private adjacencyList: Map<string, Set<string>> = new Map();
   private reverseAdjacencyList: Map<string, Set<string>> = new Map();
   private nodes: Set<string> = new Set();
+  /** 非 import 的邊類型（re-export、動態 import 等），未記錄者視為 import */
+  private edgeTypes: Map<string, DependencyEdge['dependencyType']> = new Map();
 
   /**
    * 建立空的依賴圖
@@ -63,12 +65,14 @@ export class DependencyGraph {
     const dependents = this.reverseAdjacencyList.get(filePath) || new Set();
     for (const dependent of dependents) {
       this.adjacencyList.get(dependent)?.delete(filePath);
+      this.edgeTypes.delete(this.edgeKey(dependent, filePath));
     }
 
     // 移除該節點指向其他節點的邊
     const dependencies = this.adjacencyList.get(filePath) || new Set();
     for (const dependency of dependencies) {
       this.reverseAdjacencyList.get(dependency)?.delete(filePath);
+      this.edgeTypes.delete(this.edgeKey(filePath, dependency));
     }
 
     // 移除節點
@@ -81,12 +85,17 @@ export class DependencyGraph {
    * 新增依賴關係（邊）
    * @param from 依賴源檔案
    * @param to 被依賴檔案
+   * @param type 依賴類型，同一條邊重複新增時保留第一次的類型
    */
-  addDependency(from: string, to: string): void {
+  addDependency(from: string, to: string, type: DependencyEdge['dependencyType'] = 'import'): void {
     // 自動新增不存在的節點
     this.addNode(from);
     this.addNode(to);
 
+    if (!this.hasDependency(from, to) && type !== 'import') {
+      this.edgeTypes.set(this.edgeKey(from, to), type);
+    }
+
     this.adjacencyList.get(from)!.add(to);
     this.reverseAdjacencyList.get(to)!.add(from);
   }
@@ -99,6 +108,7 @@ export class DependencyGraph {
   removeDependency(from: string, to: string): void {
     this.adjacencyList.get(from)?.delete(to);
     this.reverseAdjacencyList.get(to)?.delete(from);
+    this.edgeTypes.delete(this.edgeKey(from, to));
   }
 
   /**
@@ -120,6 +130,19 @@ export class DependencyGraph {
     return this.adjacencyList.get(from)?.has(to) || false;
   }
 
+  /**
+   * 取得依賴關係的類型
+   * @param from 依賴源檔案
+   * @param to 被依賴檔案
+   * @returns 依賴類型，不存在該邊時回傳 undefined
+   */
+  getDependencyType(from: string, to: string): DependencyEdge['dependencyType'] | undefined {
+    if (!this.hasDependency(from, to)) {
+      return undefined;
+    }
+    return this.edgeTypes.get(this.edgeKey(from, to)) ?? 'import';
+  }
+
   /**
    * 取得節點數量
    * @returns 節點總數
@@ -311,7 +334,7 @@ export class DependencyGraph {
           from,
           to,
           weight: 1, // 預設權重
-          dependencyType: 'import' // 預設類型
+          dependencyType: this.edgeTypes.get(this.edgeKey(from, to)) ?? 'import'
         });
       }
     }
@@ -388,7 +411,8 @@ export class DependencyGraph {
       edges: this.getAllEdges().map(edge => ({
         from: edge.from,
         to: edge.to,
-        weight: edge.weight
+        weight: edge.weight,
+        type: edge.dependencyType
       })),
       metadata: {
         nodeCount: this.getNodeCount(),
@@ -421,7 +445,7 @@ export class DependencyGraph {
       if (!edge.from || !edge.to) {
         throw new Error('邊資料格式無效');
       }
-      graph.addDependency(edge.from, edge.to);
+      graph.addDependency(edge.from, edge.to, edge.type);
     }
 
     return graph;
@@ -434,6 +458,7 @@ export class DependencyGraph {
     this.nodes.clear();
     this.adjacencyList.clear();
     this.reverseAdjacencyList.clear();
+    this.edgeTypes.clear();
   }
 
   /**
@@ -444,4 +469,8 @@ export class DependencyGraph {
     const serialized = this.serialize();
     return DependencyGraph.deserialize(serialized);
   }
+
+  private edgeKey(from: string, to: string): string {
+    return `${from}\u0000${to}`;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,223 @@
+/**
+ * 依賴變更模擬器
+ * 在複製的依賴圖上套用假設的 import 或檔案移動，比較變更前後的循環依賴與影響範圍
+ */
+
+import * as path from 'path';
+
+import { CycleDetector } from './cycle-detector.js';
+import { DependencyGraph } from './dependency-graph.js';
+import type { DependencyAnalyzer } from './dependency-analyzer.js';
+import type {
+  CircularDependency,
+  DependencySimulationResult,
+  SimulatedChange,
+  SimulatedImpactChange,
+  StronglyConnectedComponent
+} from './types.js';
+
+/**
+ * 比較循環時使用的檢測選項（列出每個強連通分量中的所有循環）
+ */
+const CYCLE_OPTIONS = {
+  maxCycleLength: 100,
+  reportAllCycles: true,
+  ignoreSelfLoops: true
+};
+
+/**
+ * 依賴變更模擬器類別
+ */
+export class DependencySimulator {
+  private readonly cycleDetector: CycleDetector;
+
+  constructor(
+    private readonly impactAnalyzer: Pick<DependencyAnalyzer, 'getImpactAnalysis'>,
+    cycleDetector?: CycleDetector
+  ) {
+    this.cycleDetector = cycleDetector ?? new CycleDetector();
+  }
+
+  /**
+   * 模擬依賴變更
+   * @param graph 目前的依賴圖（不會被修改）
+   * @param change 假設的變更（絕對路徑）
+   * @returns 變更前後的差異
+   */
+  simulate(graph: DependencyGraph, change: SimulatedChange): DependencySimulationResult {
+    const after = graph.clone();
+    const rename = change.type === 'move'
+      ? this.applyMove(after, change.source, change.target)
+      : this.applyEdge(after, change.from, change.to);
+
+    const beforeCycles = this.cycleDetector.detectCycles(graph, CYCLE_OPTIONS)
+      .map(cycle => ({ ...cycle, cycle: cycle.cycle.map(rename) }));
+    const afterCycles = this.cycleDetector.detectCycles(after, CYCLE_OPTIONS);
+    const beforeCycleKeys = new Set(beforeCycles.map(cycle => this.cycleKey(cycle.cycle)));
+    const afterCycleKeys = new Set(afterCycles.map(cycle => this.cycleKey(cycle.cycle)));
+
+    const beforeComponentKeys = new Set(
+      this.findComponents(graph).map(component => this.componentKey(component.nodes.map(rename)))
+    );
+
+    const beforeModuleCycleKeys = new Set(
+      this.cycleDetector.detectCycles(this.buildModuleGraph(graph), CYCLE_OPTIONS)
+        .map(cycle => this.cycleKey(cycle.cycle))
+    );
+
+    return {
+      change,
+      introducedCycles: afterCycles.filter(cycle => !beforeCycleKeys.has(this.cycleKey(cycle.cycle))),
+      resolvedCycles: beforeCycles.filter(cycle => !afterCycleKeys.has(this.cycleKey(cycle.cycle))),
+      introducedComponents: this.findComponents(after)
+        .filter(component => !beforeComponentKeys.has(this.componentKey(component.nodes))),
+      introducedModuleCycles: this.cycleDetector.detectCycles(this.buildModuleGraph(after), CYCLE_OPTIONS)
+        .filter(cycle => !beforeModuleCycleKeys.has(this.cycleKey(cycle.cycle))),
+      impact: this.diffImpact(graph, after, change, rename)
+    };
+  }
+
+  /**
+   * 將模擬結果整理成警告訊息（沒有變糟時回傳空陣列）
+   * @param result 模擬結果
+   * @param rootPath 顯示相對路徑的根目錄
+   */
+  describe(result: DependencySimulationResult, rootPath: string): string[] {
+    const relative = (file: string) => path.relative(rootPath, file) || '.';
+    const warnings: string[] = [];
+
+    for (const cycle of result.introducedCycles) {
+      warnings.push(`產生新的循環依賴: ${[...cycle.cycle, cycle.cycle[0]].map(relative).join(' → ')}`);
+    }
+    for (const cycle of result.introducedModuleCycles) {
+      warnings.push(`產生新的目錄循環依賴: ${[...cycle.cycle, cycle.cycle[0]].map(relative).join(' → ')}`);
+    }
+    for (const impact of result.impact) {
+      if (impact.addedDependents.length > 0) {
+        warnings.push(`${relative(impact.after.targetFile)} 的影響範圍增加 ${impact.addedDependents.length} 個檔案（${impact.before.transitivelyAffected.length} → ${impact.after.transitivelyAffected.length}）`);
+      }
+    }
+
+    return warnings;
+  }
+
+  /**
+   * 新增一條依賴，回傳路徑對應函式（新增依賴不改變路徑）
+   */
+  private applyEdge(graph: DependencyGraph, from: string, to: string): (file: string) => string {
+    for (const file of [from, to]) {
+      if (!graph.hasNode(file)) {
+        throw new Error(`檔案不在依賴圖中: ${file}`);
+      }
+    }
+    if (graph.hasDependency(from, to)) {
+      throw new Error(`依賴已存在: ${from} → ${to}`);
+    }
+
+    graph.addDependency(from, to);
+    return file => file;
+  }
+
+  /**
+   * 將檔案或目錄底下的節點改名並保留所有邊，回傳舊路徑到新路徑的對應函式
+   */
+  private applyMove(graph: DependencyGraph, source: string, target: string): (file: string) => string {
+    const rename = (file: string) => {
+      if (file === source) {
+        return target;
+      }
+      return file.startsWith(source + path.sep) ? target + file.slice(source.length) : file;
+    };
+
+    const movedNodes = graph.getAllNodes().filter(node => rename(node) !== node);
+    if (movedNodes.length === 0) {
+      throw new Error(`檔案不在依賴圖中: ${source}`);
+    }
+
+    const movedEdges = graph.getAllEdges()
+      .filter(edge => movedNodes.includes(edge.from) || movedNodes.includes(edge.to));
+    for (const node of movedNodes) {
+      graph.removeNode(node);
+    }
+    for (const node of movedNodes) {
+      graph.addNode(rename(node));
+    }
+    for (const edge of movedEdges) {
+      graph.addDependency(rename(edge.from), rename(edge.to), edge.dependencyType);
+    }
+
+    return rename;
+  }
+
+  /**
+   * 比較可能受變更影響之檔案的傳遞被依賴者
+   */
+  private diffImpact(
+    before: DependencyGraph,
+    after: DependencyGraph,
+    change: SimulatedChange,
+    rename: (file: string) => string
+  ): SimulatedImpactChange[] {
+    // 新增 a → b 會讓 b 及其傳遞依賴多出被依賴者；移動只影響被移動的檔案
+    const candidates = change.type === 'add-edge'
+      ? [...new Set([change.to, ...after.getTransitiveDependencies(change.to)])]
+      : before.getAllNodes().filter(node => rename(node) !== node);
+
+    const changes: SimulatedImpactChange[] = [];
+    for (const file of candidates) {
+      if (!before.hasNode(file)) {
+        continue;
+      }
+
+      const beforeImpact = this.impactAnalyzer.getImpactAnalysis(file, before);
+      const afterImpact = this.impactAnalyzer.getImpactAnalysis(rename(file), after);
+      const beforeDependents = new Set(beforeImpact.transitivelyAffected.map(rename));
+      const afterDependents = new Set(afterImpact.transitivelyAffected);
+
+      const addedDependents = [...afterDependents].filter(dependent => !beforeDependents.has(dependent));
+      const removedDependents = [...beforeDependents].filter(dependent => !afterDependents.has(dependent));
+      if (addedDependents.length > 0 || removedDependents.length > 0) {
+        changes.push({ before: beforeImpact, after: afterImpact, addedDependents, removedDependents });
+      }
+    }
+
+    return changes.sort((a, b) => b.addedDependents.length - a.addedDependents.length);
+  }
+
+  /**
+   * 包含循環的強連通分量
+   */
+  private findComponents(graph: DependencyGraph): StronglyConnectedComponent[] {
+    return this.cycleDetector.findStronglyConnectedComponents(graph).filter(component => component.size > 1);
+  }
+
+  /**
+   * 以檔案所在目錄為節點建立依賴圖（外部套件不列入）
+   */
+  private buildModuleGraph(graph: DependencyGraph): DependencyGraph {
+    const moduleGraph = new DependencyGraph();
+    for (const edge of graph.getAllEdges()) {
+      if (!path.isAbsolute(edge.from) || !path.isAbsolute(edge.to)) {
+        continue;
+      }
+      const fromModule = path.dirname(edge.from);
+      const toModule = path.dirname(edge.to);
+      if (fromModule !== toModule) {
+        moduleGraph.addDependency(fromModule, toModule);
+      }
+    }
+    return moduleGraph;
+  }
+
+  /**
+   * 循環的比較鍵（由字典序最小的節點開始旋轉）
+   */
+  private cycleKey(cycle: CircularDependency['cycle']): string {
+    const start = cycle.indexOf([...cycle].sort()[0]);
+    return [...cycle.slice(start), ...cycle.slice(0, start)].join('\u0000');
+  }
+
+  private componentKey(nodes: readonly string[]): string {
+    return [...nodes].sort().join('\u0000');
+  }
+}
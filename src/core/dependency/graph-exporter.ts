@@ -0,0 +1,291 @@
+/**
+ * 依賴圖匯出器
+ * 將 DependencyGraph.serialize() 的結果轉為 DOT、Mermaid、GraphML 或 JSON Graph Format
+ */
+
+import * as path from 'path';
+
+import type { SerializedGraph } from './dependency-graph.js';
+import type { GraphExportFormat, GraphExportOptions } from './types.js';
+
+/**
+ * 支援的匯出格式
+ */
+export const GRAPH_EXPORT_FORMATS: readonly GraphExportFormat[] = ['dot', 'mermaid', 'graphml', 'jgf'];
+
+/**
+ * 匯出用的節點
+ */
+interface ExportNode {
+  readonly id: string;
+  /** 合併進此節點的檔案數 */
+  readonly files: number;
+  readonly cycle: boolean;
+}
+
+/**
+ * 匯出用的邊（合併後 weight 為原始邊數）
+ */
+interface ExportEdge {
+  readonly from: string;
+  readonly to: string;
+  readonly weight: number;
+  readonly cycle: boolean;
+}
+
+/**
+ * 依賴圖匯出器類別
+ */
+export class GraphExporter {
+  /**
+   * 匯出依賴圖
+   * @param graph 序列化的依賴圖
+   * @param options 匯出選項
+   * @returns 指定格式的文字
+   */
+  export(graph: SerializedGraph, options: GraphExportOptions): string {
+    const { nodes, edges } = this.prepare(graph, options);
+
+    switch (options.format) {
+    case 'dot':
+      return this.toDot(nodes, edges);
+    case 'mermaid':
+      return this.toMermaid(nodes, edges);
+    case 'graphml':
+      return this.toGraphML(nodes, edges);
+    case 'jgf':
+      return this.toJsonGraph(nodes, edges);
+    default:
+      throw new Error(`不支援的匯出格式: ${options.format}`);
+    }
+  }
+
+  /**
+   * 依選項篩選鄰近節點、轉為相對路徑並依目錄深度合併
+   */
+  private prepare(graph: SerializedGraph, options: GraphExportOptions): { nodes: ExportNode[]; edges: ExportEdge[] } {
+    let nodeList = graph.nodes;
+    let edgeList = graph.edges;
+
+    if (options.focusFile) {
+      const neighborhood = this.getNeighborhood(graph, options.focusFile);
+      nodeList = nodeList.filter(node => neighborhood.has(node));
+      edgeList = edgeList.filter(edge => neighborhood.has(edge.from) && neighborhood.has(edge.to));
+    }
+
+    const cycleGroup = new Map<string, number>();
+    (options.cycles ?? []).forEach((group, index) => {
+      group.forEach(node => cycleGroup.set(node, index));
+    });
+    const isCycleEdge = (from: string, to: string) =>
+      cycleGroup.has(from) && cycleGroup.get(from) === cycleGroup.get(to);
+
+    const toId = (node: string) => this.toNodeId(node, options.rootPath, options.collapseDepth);
+
+    const nodes = new Map<string, { files: number; cycle: boolean }>();
+    const addNode = (node: string) => {
+      const id = toId(node);
+      const current = nodes.get(id) ?? { files: 0, cycle: false };
+      nodes.set(id, { files: current.files + 1, cycle: current.cycle || cycleGroup.has(node) });
+    };
+    nodeList.forEach(addNode);
+
+    const edges = new Map<string, ExportEdge>();
+    for (const edge of edgeList) {
+      const from = toId(edge.from);
+      const to = toId(edge.to);
+      if (!nodes.has(to)) {
+        // 外部依賴（npm 套件、系統框架）不在節點列表中
+        addNode(edge.to);
+      }
+      if (from === to && options.collapseDepth !== undefined) {
+        continue;
+      }
+
+      const key = `${from}\u0000${to}`;
+      const current = edges.get(key);
+      const cycle = isCycleEdge(edge.from, edge.to);
+      edges.set(key, {
+        from,
+        to,
+        weight: (current?.weight ?? 0) + edge.weight,
+        cycle: (current?.cycle ?? false) || cycle
+      });
+    }
+
+    return {
+      nodes: [...nodes.entries()]
+        .map(([id, info]) => ({ id, ...info }))
+        .sort((a, b) => a.id.localeCompare(b.id)),
+      edges: [...edges.values()]
+        .sort((a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to))
+    };
+  }
+
+  /**
+   * 取得檔案本身、傳遞依賴與傳遞被依賴
+   */
+  private getNeighborhood(graph: SerializedGraph, focusFile: string): Set<string> {
+    const forward = new Map<string, string[]>();
+    const backward = new Map<string, string[]>();
+    for (const edge of graph.edges) {
+      forward.set(edge.from, [...(forward.get(edge.from) ?? []), edge.to]);
+      backward.set(edge.to, [...(backward.get(edge.to) ?? []), edge.from]);
+    }
+
+    const neighborhood = new Set<string>([focusFile]);
+    for (const adjacency of [forward, backward]) {
+      const visited = new Set<string>([focusFile]);
+      const queue = [focusFile];
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        for (const next of adjacency.get(current) ?? []) {
+          if (!visited.has(next)) {
+            visited.add(next);
+            neighborhood.add(next);
+            queue.push(next);
+          }
+        }
+      }
+    }
+
+    return neighborhood;
+  }
+
+  /**
+   * 專案內的檔案轉為相對路徑，指定深度時以前幾層目錄作為節點
+   */
+  private toNodeId(node: string, rootPath: string, collapseDepth?: number): string {
+    if (!path.isAbsolute(node)) {
+      return node;
+    }
+
+    const relativePath = path.relative(rootPath, node).split(path.sep).join('/');
+    if (relativePath.startsWith('..') || collapseDepth === undefined) {
+      return relativePath;
+    }
+
+    const directories = relativePath.split('/').slice(0, -1);
+    if (directories.length === 0) {
+      return relativePath;
+    }
+    return `${directories.slice(0, collapseDepth).join('/')}/`;
+  }
+
+  private toDot(nodes: ExportNode[], edges: ExportEdge[]): string {
+    const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+    const lines = [
+      'digraph dependencies {',
+      '  rankdir=LR;',
+      '  node [shape=box];'
+    ];
+
+    for (const node of nodes) {
+      const attributes = [
+        node.files > 1 ? `label=${quote(`${node.id} (${node.files})`)}` : '',
+        node.cycle ? 'color=red, fontcolor=red' : ''
+      ].filter(Boolean);
+      lines.push(`  ${quote(node.id)}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`);
+    }
+
+    for (const edge of edges) {
+      const attributes = [
+        edge.weight > 1 ? `label="${edge.weight}"` : '',
+        edge.cycle ? 'color=red' : ''
+      ].filter(Boolean);
+      lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`);
+    }
+
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  private toMermaid(nodes: ExportNode[], edges: ExportEdge[]): string {
+    const ids = new Map(nodes.map((node, index) => [node.id, `n${index}`]));
+    const label = (node: ExportNode) => {
+      const text = node.files > 1 ? `${node.id} (${node.files})` : node.id;
+      return text.replace(/"/g, '#quot;');
+    };
+    const lines = ['flowchart LR'];
+
+    for (const node of nodes) {
+      lines.push(`  ${ids.get(node.id)}["${label(node)}"]`);
+    }
+
+    edges.forEach(edge => {
+      const arrow = edge.weight > 1 ? `-->|${edge.weight}|` : '-->';
+      lines.push(`  ${ids.get(edge.from)} ${arrow} ${ids.get(edge.to)}`);
+    });
+
+    const cycleNodes = nodes.filter(node => node.cycle).map(node => ids.get(node.id));
+    if (cycleNodes.length > 0) {
+      lines.push('  classDef cycle stroke:red,color:red');
+      lines.push(`  class ${cycleNodes.join(',')} cycle`);
+    }
+
+    const cycleEdges = edges
+      .map((edge, index) => (edge.cycle ? index : -1))
+      .filter(index => index >= 0);
+    if (cycleEdges.length > 0) {
+      lines.push(`  linkStyle ${cycleEdges.join(',')} stroke:red`);
+    }
+
+    return lines.join('\n');
+  }
+
+  private toGraphML(nodes: ExportNode[], edges: ExportEdge[]): string {
+    const escape = (value: string) => value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+      '  <key id="files" for="node" attr.name="files" attr.type="int"/>',
+      '  <key id="weight" for="edge" attr.name="weight" attr.type="int"/>',
+      '  <key id="cycle" for="all" attr.name="cycle" attr.type="boolean"><default>false</default></key>',
+      '  <graph id="dependencies" edgedefault="directed">'
+    ];
+
+    for (const node of nodes) {
+      lines.push(`    <node id="${escape(node.id)}">`);
+      lines.push(`      <data key="files">${node.files}</data>`);
+      if (node.cycle) {
+        lines.push('      <data key="cycle">true</data>');
+      }
+      lines.push('    </node>');
+    }
+
+    edges.forEach((edge, index) => {
+      lines.push(`    <edge id="e${index}" source="${escape(edge.from)}" target="${escape(edge.to)}">`);
+      lines.push(`      <data key="weight">${edge.weight}</data>`);
+      if (edge.cycle) {
+        lines.push('      <data key="cycle">true</data>');
+      }
+      lines.push('    </edge>');
+    });
+
+    lines.push('  </graph>', '</graphml>');
+    return lines.join('\n');
+  }
+
+  private toJsonGraph(nodes: ExportNode[], edges: ExportEdge[]): string {
+    return JSON.stringify({
+      graph: {
+        directed: true,
+        type: 'dependency',
+        nodes: Object.fromEntries(nodes.map(node => [node.id, {
+          label: node.id,
+          metadata: { files: node.files, cycle: node.cycle }
+        }])),
+        edges: edges.map(edge => ({
+          source: edge.from,
+          target: edge.to,
+          relation: 'imports',
+          metadata: { weight: edge.weight, cycle: edge.cycle }
+        }))
+      }
+    }, null, 2);
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Import 路徑比對工具
+ */
+
+import * as path from 'path';
+
+import type { ModuleResolver } from './module-resolver.js';
+
+const SOURCE_EXTENSION = /\.(d\.ts|[cm]?[tj]sx?|swift)$/;
+
+/**
+ * 判斷 import 路徑是否指向目標檔案（容許省略副檔名、index 檔案與 .js 寫法）
+ * @param importPath import 語句中的模組路徑
+ * @param fromFile 發出 import 的檔案（絕對路徑）
+ * @param target 依賴圖中的目標節點
+ * @param resolver 提供時先依 tsconfig 解析（支援 paths 別名）
+ */
+export function importPathMatches(
+  importPath: string,
+  fromFile: string,
+  target: string,
+  resolver?: ModuleResolver
+): boolean {
+  const resolution = resolver?.resolve(importPath, fromFile);
+  if (resolution && !resolution.isExternal && resolution.resolvedPath === target) {
+    return true;
+  }
+
+  if (!importPath.startsWith('.') && !importPath.startsWith('/')) {
+    return importPath === target;
+  }
+
+  const resolved = path.resolve(path.dirname(fromFile), importPath);
+  const targetBase = target.replace(SOURCE_EXTENSION, '');
+
+  return resolved === target ||
+    resolved.replace(SOURCE_EXTENSION, '') === targetBase ||
+    path.join(resolved, 'index') === targetBase;
+}
@@ -6,6 +6,15 @@
 export { DependencyAnalyzer } from './dependency-analyzer.js';
 export { DependencyGraph } from './dependency-graph.js';
 export { CycleDetector } from './cycle-detector.js';
+export { LayerRuleChecker } from './layer-rule-checker.js';
+export { GraphExporter, GRAPH_EXPORT_FORMATS } from './graph-exporter.js';
+export { ReachabilityAnalyzer, DEFAULT_TEST_PATTERNS, DEFAULT_CONFIG_PATTERNS, DEFAULT_FIXTURE_PATTERNS } from './reachability-analyzer.js';
+export { ModuleResolver } from './module-resolver.js';
+export { PackageAuditor } from './package-auditor.js';
+export { CouplingMetricsCalculator, MAIN_SEQUENCE_DISTANCE_THRESHOLD } from './coupling-metrics.js';
+export { DependencySimulator } from './dependency-simulator.js';
+export { AffectedTestsAnalyzer } from './affected-tests-analyzer.js';
+export type { ModuleResolution, ImportKind } from './module-resolver.js';
 
 // 型別定義
 export type {
@@ -22,7 +31,30 @@ export type {
   DependencyQueryOptions,
   CycleDetectionOptions,
   PathResolutionResult,
-  DependencyAnalyzerConfig
+  DependencyAnalyzerConfig,
+  EntryPoint,
+  EntryPointSource,
+  UnreachableExport,
+  ReachabilityResult,
+  GraphExportFormat,
+  GraphExportOptions,
+  ArchitectureConfig,
+  LayerRule,
+  LayerViolation,
+  PackageDependencyField,
+  PackageImport,
+  UnusedPackage,
+  UndeclaredPackageImport,
+  WorkspacePackageAudit,
+  PackageAuditResult,
+  TypeDeclarationCount,
+  ModuleMetrics,
+  CouplingMetricsOptions,
+  SimulatedChange,
+  SimulatedImpactChange,
+  DependencySimulationResult,
+  AffectedTest,
+  AffectedTestSelection
 } from './types.js';
 
 // 工廠函式和工具函式
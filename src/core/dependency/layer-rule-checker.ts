@@ -0,0 +1,155 @@
+/**
+ * 架構層級規則檢查器
+ * 依 .agent-ide.json 宣告的層級與規則檢查依賴圖中每條邊
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { minimatch } from 'minimatch';
+
+import type { DependencyGraph } from './dependency-graph.js';
+import { importPathMatches } from './import-path.js';
+import { ModuleResolver } from './module-resolver.js';
+import type { ArchitectureConfig, DependencyEdge, LayerRule, LayerViolation } from './types.js';
+
+/**
+ * 架構層級規則檢查器類別
+ */
+export class LayerRuleChecker {
+  private readonly projectPath: string;
+  private readonly moduleResolver = new ModuleResolver();
+
+  constructor(
+    private readonly config: ArchitectureConfig,
+    projectPath: string
+  ) {
+    this.projectPath = path.resolve(projectPath);
+    this.validateConfig();
+  }
+
+  /**
+   * 檢查依賴圖中所有邊
+   * @param graph 依賴圖
+   * @returns 違規列表，依檔案與行號排序
+   */
+  async check(graph: DependencyGraph): Promise<LayerViolation[]> {
+    const violations: LayerViolation[] = [];
+    const importCache = new Map<string, ts.FileReference[]>();
+
+    for (const edge of graph.getAllEdges()) {
+      const fromLayer = this.getLayer(edge.from);
+      const toLayer = this.getLayer(edge.to);
+      if (!fromLayer || !toLayer) {
+        continue;
+      }
+
+      for (const rule of this.config.rules.filter(r => r.from === fromLayer)) {
+        if (!this.isViolation(rule, fromLayer, toLayer)) {
+          continue;
+        }
+
+        const reference = await this.findImport(edge, importCache);
+        violations.push({
+          file: edge.from,
+          line: reference?.line ?? 0,
+          target: edge.to,
+          importPath: reference?.importPath ?? edge.to,
+          fromLayer,
+          toLayer,
+          rule: rule.name,
+          message: rule.message
+        });
+      }
+    }
+
+    return violations.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+  }
+
+  /**
+   * 取得檔案所屬層級（第一個符合的層級），不屬於任何層級時回傳 null
+   */
+  getLayer(filePath: string): string | null {
+    if (!path.isAbsolute(filePath)) {
+      // 外部模組（npm 套件、系統框架）不屬於任何層級
+      return null;
+    }
+
+    const relativePath = path.relative(this.projectPath, filePath).split(path.sep).join('/');
+    if (relativePath.startsWith('..')) {
+      return null;
+    }
+
+    for (const [layer, patterns] of Object.entries(this.config.layers)) {
+      if (patterns.some(pattern => minimatch(relativePath, pattern, { dot: true }))) {
+        return layer;
+      }
+    }
+    return null;
+  }
+
+  private isViolation(rule: LayerRule, fromLayer: string, toLayer: string): boolean {
+    if (rule.forbidden?.includes(toLayer)) {
+      return true;
+    }
+    return rule.allowed !== undefined && toLayer !== fromLayer && !rule.allowed.includes(toLayer);
+  }
+
+  /**
+   * 在來源檔案中找出產生此邊的 import 語句
+   */
+  private async findImport(
+    edge: DependencyEdge,
+    cache: Map<string, ts.FileReference[]>
+  ): Promise<{ line: number; importPath: string } | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(edge.from, 'utf-8');
+    } catch {
+      return null;
+    }
+
+    let references = cache.get(edge.from);
+    if (!references) {
+      references = ts.preProcessFile(content, true, true).importedFiles;
+      cache.set(edge.from, references);
+    }
+
+    const reference = references.find(ref => importPathMatches(ref.fileName, edge.from, edge.to, this.moduleResolver));
+    if (!reference) {
+      return null;
+    }
+
+    return {
+      line: content.slice(0, reference.pos).split('\n').length,
+      importPath: reference.fileName
+    };
+  }
+
+  /**
+   * 規則引用未宣告的層級或沒有任何限制時拋出錯誤
+   */
+  private validateConfig(): void {
+    const layers = new Set(Object.keys(this.config.layers ?? {}));
+    if (layers.size === 0) {
+      throw new Error('architecture.layers 至少需要宣告一個層級');
+    }
+    if (!Array.isArray(this.config.rules) || this.config.rules.length === 0) {
+      throw new Error('architecture.rules 至少需要一條規則');
+    }
+
+    for (const rule of this.config.rules) {
+      if (!rule.name) {
+        throw new Error('architecture.rules 的每條規則都需要 name');
+      }
+      if (!rule.allowed && !rule.forbidden) {
+        throw new Error(`規則 '${rule.name}' 需要 allowed 或 forbidden`);
+      }
+      for (const layer of [rule.from, ...(rule.allowed ?? []), ...(rule.forbidden ?? [])]) {
+        if (!layers.has(layer)) {
+          throw new Error(`規則 '${rule.name}' 引用了未宣告的層級 '${layer}'`);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * 模組解析器
+ * 依最近的 tsconfig.json 以 TypeScript 的模組解析規則（node10 / node16 / bundler、paths、baseUrl）解析 import 路徑
+ */
+
+import * as path from 'path';
+import * as ts from 'typescript';
+
+/**
+ * 模組解析結果
+ */
+export interface ModuleResolution {
+  /** 專案內檔案為絕對路徑；外部套件為原始模組名稱 */
+  readonly resolvedPath: string;
+  /** 是否解析到 node_modules 中的套件 */
+  readonly isExternal: boolean;
+}
+
+/**
+ * import 的種類，影響 node16 / bundler 的解析模式（import 或 require 條件）
+ */
+export type ImportKind = 'import' | 'require' | 'dynamic-import';
+
+/**
+ * 單一 tsconfig 的解析設定
+ */
+interface ResolutionContext {
+  readonly options: ts.CompilerOptions;
+  readonly cache: ts.ModuleResolutionCache;
+}
+
+/**
+ * 找不到 tsconfig.json 時使用的編譯選項
+ */
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  resolveJsonModule: true
+};
+
+/**
+ * 模組解析器類別
+ */
+export class ModuleResolver {
+  private readonly contexts = new Map<string, ResolutionContext>();
+  private readonly configPaths = new Map<string, string | undefined>();
+
+  /**
+   * 解析 import 路徑
+   * @param specifier 模組路徑
+   * @param fromFile 發出 import 的檔案（絕對路徑）
+   * @param kind import 種類
+   * @returns 解析結果，無法解析時回傳 null
+   */
+  resolve(specifier: string, fromFile: string, kind: ImportKind = 'import'): ModuleResolution | null {
+    const context = this.getContext(path.dirname(fromFile));
+    const resolutionMode = kind === 'require'
+      ? ts.ModuleKind.CommonJS
+      : kind === 'dynamic-import'
+        ? ts.ModuleKind.ESNext
+        : ts.getImpliedNodeFormatForFile(
+          fromFile as ts.Path,
+          context.cache.getPackageJsonInfoCache(),
+          ts.sys,
+          context.options
+        );
+
+    // 對應不到原始檔時退回解析編譯輸出本身
+    const sourceSpecifier = this.mapOutputToSource(specifier, fromFile, context.options);
+    const resolveName = (name: string) => ts.resolveModuleName(
+      name,
+      fromFile,
+      context.options,
+      ts.sys,
+      context.cache,
+      undefined,
+      resolutionMode
+    ).resolvedModule;
+    const resolvedModule = resolveName(sourceSpecifier) ?? (sourceSpecifier !== specifier ? resolveName(specifier) : undefined);
+
+    if (!resolvedModule) {
+      return null;
+    }
+
+    if (resolvedModule.isExternalLibraryImport || resolvedModule.resolvedFileName.includes(`${path.sep}node_modules${path.sep}`)) {
+      return { resolvedPath: specifier, isExternal: true };
+    }
+
+    return { resolvedPath: path.resolve(resolvedModule.resolvedFileName), isExternal: false };
+  }
+
+  /**
+   * 相對路徑指向編譯輸出（outDir）時改指 rootDir 下對應的原始檔，
+   * 例如 bin 腳本匯入 ../dist/cli.js 時解析到 src/cli.ts（未建置時同樣適用）
+   */
+  private mapOutputToSource(specifier: string, fromFile: string, options: ts.CompilerOptions): string {
+    if (!options.outDir || !(specifier.startsWith('./') || specifier.startsWith('../'))) {
+      return specifier;
+    }
+
+    const outDir = path.resolve(options.outDir);
+    const target = path.resolve(path.dirname(fromFile), specifier);
+    if (!target.startsWith(outDir + path.sep)) {
+      return specifier;
+    }
+
+    const rootDir = options.rootDir ? path.resolve(options.rootDir) : path.join(path.dirname(outDir), 'src');
+    return path.join(rootDir, path.relative(outDir, target));
+  }
+
+  /**
+   * 取得目錄對應的解析設定（以最近的 tsconfig.json 為準）
+   */
+  private getContext(directory: string): ResolutionContext {
+    const configPath = this.findConfig(directory);
+    const key = configPath ?? '';
+
+    let context = this.contexts.get(key);
+    if (!context) {
+      const options = { ...this.loadCompilerOptions(configPath), allowJs: true };
+      context = {
+        options,
+        cache: ts.createModuleResolutionCache(
+          configPath ? path.dirname(configPath) : directory,
+          fileName => (ts.sys.useCaseSensitiveFileNames ? fileName : fileName.toLowerCase()),
+          options
+        )
+      };
+      this.contexts.set(key, context);
+    }
+
+    return context;
+  }
+
+  private findConfig(directory: string): string | undefined {
+    if (!this.configPaths.has(directory)) {
+      this.configPaths.set(directory, ts.findConfigFile(directory, ts.sys.fileExists));
+    }
+    return this.configPaths.get(directory);
+  }
+
+  /**
+   * 讀取 tsconfig.json 的 compilerOptions（含 extends），不展開 include 的檔案列表
+   */
+  private loadCompilerOptions(configPath: string | undefined): ts.CompilerOptions {
+    if (!configPath) {
+      return DEFAULT_COMPILER_OPTIONS;
+    }
+
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error || !config) {
+      return DEFAULT_COMPILER_OPTIONS;
+    }
+
+    const host: ts.ParseConfigHost = {
+      useCaseSensitiveFileNames: ts.sys.useCaseSensitiveFileNames,
+      fileExists: ts.sys.fileExists,
+      readFile: ts.sys.readFile,
+      readDirectory: () => []
+    };
+    return ts.parseJsonConfigFileContent(config, host, path.dirname(configPath), undefined, configPath).options;
+  }
+}
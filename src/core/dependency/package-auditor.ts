@@ -0,0 +1,513 @@
+/**
+ * 套件依賴稽核器
+ * 比對原始碼中的外部套件 import 與各 workspace 的 package.json，只讀取 package.json 與 lockfile，不需網路
+ */
+
+import * as fs from 'fs/promises';
+import { builtinModules } from 'module';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { glob } from 'glob';
+import { minimatch } from 'minimatch';
+
+import { ModuleResolver } from './module-resolver.js';
+import { DEFAULT_CONFIG_PATTERNS, DEFAULT_TEST_PATTERNS } from './reachability-analyzer.js';
+import type {
+  PackageAuditResult,
+  PackageDependencyField,
+  PackageImport,
+  UndeclaredPackageImport,
+  UnusedPackage,
+  WorkspacePackageAudit
+} from './types.js';
+
+/**
+ * 依賴欄位，宣告在多個欄位時以前面的為準
+ */
+const DEPENDENCY_FIELDS: readonly PackageDependencyField[] = [
+  'dependencies',
+  'peerDependencies',
+  'optionalDependencies',
+  'devDependencies'
+];
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * 以名稱載入套件的工具設定（commitlint、semantic-release、git hooks、CI）
+ */
+const TOOLING_FILE_PATTERNS = [
+  '.*rc',
+  '.*rc.{json,yml,yaml}',
+  '.husky/*',
+  '.github/workflows/*.{yml,yaml}'
+];
+
+/**
+ * 讀取到的 workspace
+ */
+interface Workspace {
+  readonly directory: string;
+  readonly packageJson: any;
+  readonly declared: Map<string, PackageDependencyField>;
+}
+
+/**
+ * lockfile 內容摘要
+ */
+interface LockfileInfo {
+  readonly files: string[];
+  readonly packages: Set<string>;
+  /** 套件名稱 → 執行檔名稱（僅 package-lock.json 記錄） */
+  readonly bins: Map<string, string[]>;
+}
+
+/**
+ * 套件依賴稽核器類別
+ */
+export class PackageAuditor {
+  private readonly moduleResolver = new ModuleResolver();
+  private readonly builtins = new Set(builtinModules);
+
+  /**
+   * 稽核專案（含 workspaces）的外部套件依賴
+   * @param projectPath 專案根目錄（需有 package.json）
+   * @param files 要掃描的原始碼檔案（絕對路徑）
+   * @returns 每個 workspace 的稽核結果
+   */
+  async audit(projectPath: string, files: readonly string[]): Promise<PackageAuditResult> {
+    const root = path.resolve(projectPath);
+    const rootPackageJson = await this.readJson(path.join(root, 'package.json'));
+    if (!rootPackageJson) {
+      throw new Error(`${path.join(root, 'package.json')} 不存在或格式錯誤`);
+    }
+
+    const workspaces = [
+      this.createWorkspace(root, rootPackageJson),
+      ...await this.findWorkspaces(root, rootPackageJson)
+    ];
+    const lockfile = await this.readLockfiles(root);
+
+    const importsByWorkspace = new Map<Workspace, PackageImport[]>(workspaces.map(workspace => [workspace, []]));
+    const builtinUsers = new Set<Workspace>();
+    for (const filePath of files.filter(file => SOURCE_EXTENSIONS.includes(path.extname(file)))) {
+      const owner = this.findOwner(workspaces, filePath);
+      if (!owner) {
+        continue;
+      }
+      try {
+        const content = await fs.readFile(filePath, 'utf-8');
+        const { imports, usesBuiltin } = this.collectPackageImports(filePath, content);
+        importsByWorkspace.get(owner)!.push(...imports);
+        if (usesBuiltin) {
+          builtinUsers.add(owner);
+        }
+      } catch {
+        // 忽略無法讀取的檔案
+      }
+    }
+
+    const workspaceNames = new Set(workspaces.map(workspace => workspace.packageJson.name).filter(Boolean));
+    const audits = [];
+    for (const workspace of workspaces) {
+      audits.push(await this.auditWorkspace(
+        workspace,
+        workspace === workspaces[0] ? undefined : workspaces[0],
+        importsByWorkspace.get(workspace)!,
+        builtinUsers.has(workspace),
+        lockfile,
+        workspaceNames,
+        root
+      ));
+    }
+
+    return {
+      workspaces: audits,
+      lockfiles: lockfile.files
+    };
+  }
+
+  private async auditWorkspace(
+    workspace: Workspace,
+    rootWorkspace: Workspace | undefined,
+    imports: PackageImport[],
+    usesBuiltin: boolean,
+    lockfile: LockfileInfo,
+    workspaceNames: Set<string>,
+    root: string
+  ): Promise<WorkspacePackageAudit> {
+    const { directory, packageJson, declared } = workspace;
+    // workspace 可以使用根目錄宣告的套件（hoist）
+    const fieldOf = (name: string) => declared.get(name) ?? rootWorkspace?.declared.get(name);
+
+    const undeclared: UndeclaredPackageImport[] = [];
+    const devDependenciesAtRuntime: PackageImport[] = [];
+    const usages = new Map<string, PackageImport[]>();
+
+    for (const item of imports) {
+      const field = fieldOf(item.packageName);
+      if (!field) {
+        if (item.packageName === packageJson.name) {
+          continue; // 自我參照
+        }
+        if (!workspaceNames.has(item.packageName) && this.resolvesToProjectFile(item)) {
+          continue; // tsconfig paths 別名
+        }
+        undeclared.push({ ...item, inLockfile: lockfile.packages.has(item.packageName) });
+        continue;
+      }
+
+      usages.set(item.packageName, [...(usages.get(item.packageName) ?? []), item]);
+      if (field === 'devDependencies' && !item.typeOnly && !this.isDevelopmentFile(directory, item.filePath)) {
+        devDependenciesAtRuntime.push(item);
+      }
+    }
+
+    const manifestText = this.getManifestText(packageJson);
+    const toolingText = await this.readToolingText(directory);
+    const unused: UnusedPackage[] = [];
+    for (const [packageName, field] of declared) {
+      if (field === 'peerDependencies' || field === 'optionalDependencies' || usages.has(packageName)) {
+        continue;
+      }
+      if (packageName.startsWith('@types/')) {
+        const target = this.getTypesTarget(packageName);
+        if (usages.has(target) || (target === 'node' && usesBuiltin)) {
+          continue;
+        }
+      }
+      const bins = lockfile.bins.get(packageName) ?? await this.readInstalledBins(root, directory, packageName);
+      if (this.isReferenced(manifestText, [packageJson.scripts ?? {}, toolingText].flatMap(Object.values), packageName, bins)) {
+        continue;
+      }
+      unused.push({ packageName, field });
+    }
+
+    const typeOnlyDependencies = [...usages.entries()]
+      .filter(([packageName, items]) => declared.get(packageName) === 'dependencies' && items.every(item => item.typeOnly))
+      .map(([packageName]) => packageName);
+
+    const byLocation = (a: PackageImport, b: PackageImport) => a.filePath.localeCompare(b.filePath) || a.line - b.line;
+    return {
+      name: packageJson.name ?? (path.relative(root, directory).split(path.sep).join('/') || '.'),
+      directory,
+      unused: unused.sort((a, b) => a.packageName.localeCompare(b.packageName)),
+      undeclared: undeclared.sort(byLocation),
+      devDependenciesAtRuntime: devDependenciesAtRuntime.sort(byLocation),
+      typeOnlyDependencies: typeOnlyDependencies.sort()
+    };
+  }
+
+  /**
+   * 以 AST 收集檔案中的外部套件 import
+   */
+  private collectPackageImports(filePath: string, content: string): { imports: PackageImport[]; usesBuiltin: boolean } {
+    const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true);
+    const isDeclarationFile = filePath.endsWith('.d.ts');
+    const imports: PackageImport[] = [];
+    let usesBuiltin = false;
+
+    const add = (specifier: string, node: ts.Node, typeOnly: boolean) => {
+      usesBuiltin ||= specifier.startsWith('node:') || this.isBuiltin(specifier);
+      const packageName = this.getPackageName(specifier);
+      if (!packageName) {
+        return;
+      }
+      imports.push({
+        packageName,
+        specifier,
+        filePath,
+        line: sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1,
+        typeOnly: typeOnly || isDeclarationFile
+      });
+    };
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+        const clause = node.importClause;
+        const typeOnly = !!clause && (clause.isTypeOnly || (
+          !clause.name &&
+          !!clause.namedBindings &&
+          ts.isNamedImports(clause.namedBindings) &&
+          clause.namedBindings.elements.length > 0 &&
+          clause.namedBindings.elements.every(element => element.isTypeOnly)
+        ));
+        add(node.moduleSpecifier.text, node, typeOnly);
+      } else if (ts.isExportDeclaration(node) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+        const typeOnly = node.isTypeOnly || (
+          !!node.exportClause &&
+          ts.isNamedExports(node.exportClause) &&
+          node.exportClause.elements.length > 0 &&
+          node.exportClause.elements.every(element => element.isTypeOnly)
+        );
+        add(node.moduleSpecifier.text, node, typeOnly);
+      } else if (
+        ts.isImportEqualsDeclaration(node) &&
+        ts.isExternalModuleReference(node.moduleReference) &&
+        ts.isStringLiteral(node.moduleReference.expression)
+      ) {
+        add(node.moduleReference.expression.text, node, node.isTypeOnly);
+      } else if (ts.isImportTypeNode(node) && ts.isLiteralTypeNode(node.argument) && ts.isStringLiteral(node.argument.literal)) {
+        add(node.argument.literal.text, node, true);
+      } else if (ts.isCallExpression(node) && node.arguments.length > 0 && ts.isStringLiteralLike(node.arguments[0])) {
+        const isDynamicImport = node.expression.kind === ts.SyntaxKind.ImportKeyword;
+        const isRequire = ts.isIdentifier(node.expression) && node.expression.text === 'require';
+        if (isDynamicImport || isRequire) {
+          add(node.arguments[0].text, node, false);
+        }
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return { imports, usesBuiltin };
+  }
+
+  /**
+   * 從模組路徑取得套件名稱，相對路徑、內建模組、subpath imports（#）與 URL 回傳 null
+   */
+  private getPackageName(specifier: string): string | null {
+    if (
+      specifier.startsWith('.') ||
+      specifier.startsWith('/') ||
+      specifier.startsWith('#') ||
+      specifier.includes(':') ||
+      this.isBuiltin(specifier)
+    ) {
+      return null;
+    }
+
+    const segments = specifier.split('/');
+    if (specifier.startsWith('@')) {
+      return segments.length >= 2 ? `${segments[0]}/${segments[1]}` : null;
+    }
+    return segments[0];
+  }
+
+  private isBuiltin(specifier: string): boolean {
+    return this.builtins.has(specifier) || this.builtins.has(specifier.split('/')[0]);
+  }
+
+  /**
+   * @types/foo → foo，@types/scope__name → @scope/name
+   */
+  private getTypesTarget(packageName: string): string {
+    const name = packageName.slice('@types/'.length);
+    return name.includes('__') ? `@${name.replace('__', '/')}` : name;
+  }
+
+  private resolvesToProjectFile(item: PackageImport): boolean {
+    const resolution = this.moduleResolver.resolve(item.specifier, item.filePath);
+    return !!resolution && !resolution.isExternal;
+  }
+
+  /**
+   * 測試檔與設定檔可以使用 devDependencies
+   */
+  private isDevelopmentFile(directory: string, filePath: string): boolean {
+    const relativePath = path.relative(directory, filePath).split(path.sep).join('/');
+    return [...DEFAULT_TEST_PATTERNS, ...DEFAULT_CONFIG_PATTERNS]
+      .some(pattern => minimatch(relativePath, pattern, { dot: true }));
+  }
+
+  /**
+   * package.json 中依賴欄位以外的內容（scripts、外掛設定等）
+   */
+  private getManifestText(packageJson: any): string {
+    const rest = { ...packageJson };
+    DEPENDENCY_FIELDS.forEach(field => delete rest[field]);
+    return JSON.stringify(rest);
+  }
+
+  /**
+   * 套件名稱出現在 package.json 其他欄位（如 release.plugins）或工具設定中，或執行檔出現在 scripts 中
+   */
+  private isReferenced(manifestText: string, scripts: string[], packageName: string, bins: string[]): boolean {
+    const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const namePattern = new RegExp(`(^|[^\\w@/.-])${escape(packageName)}($|[^\\w/.-])`, 'm');
+    if ([manifestText, ...scripts].some(text => namePattern.test(text))) {
+      return true;
+    }
+
+    const scriptText = scripts.join('\n');
+    return bins.some(bin => new RegExp(`(^|[\\s;&|(])${escape(bin)}($|[\\s;&|)])`, 'm').test(scriptText));
+  }
+
+  /**
+   * 讀取 workspace 中的工具設定檔內容（檔名 → 內容）
+   */
+  private async readToolingText(directory: string): Promise<Record<string, string>> {
+    const files = await glob(TOOLING_FILE_PATTERNS, { cwd: directory, dot: true, nodir: true });
+    const contents: Record<string, string> = {};
+    for (const file of files.sort()) {
+      try {
+        contents[file] = await fs.readFile(path.join(directory, file), 'utf-8');
+      } catch {
+        // 忽略無法讀取的檔案
+      }
+    }
+    return contents;
+  }
+
+  /**
+   * 從已安裝套件的 package.json 讀取執行檔名稱
+   */
+  private async readInstalledBins(root: string, directory: string, packageName: string): Promise<string[]> {
+    for (const base of [directory, root]) {
+      const installed = await this.readJson(path.join(base, 'node_modules', packageName, 'package.json'));
+      if (installed) {
+        return this.getBinNames(packageName, installed.bin);
+      }
+    }
+    return [];
+  }
+
+  private getBinNames(packageName: string, bin: unknown): string[] {
+    if (typeof bin === 'string') {
+      return [packageName.split('/').pop()!];
+    }
+    if (bin && typeof bin === 'object') {
+      return Object.keys(bin);
+    }
+    return [];
+  }
+
+  /**
+   * 從 package.json workspaces 與 pnpm-workspace.yaml 找出所有 workspace
+   */
+  private async findWorkspaces(root: string, rootPackageJson: any): Promise<Workspace[]> {
+    const declared = rootPackageJson.workspaces;
+    const patterns: string[] = Array.isArray(declared)
+      ? [...declared]
+      : Array.isArray(declared?.packages) ? [...declared.packages] : [];
+
+    try {
+      const yaml = await fs.readFile(path.join(root, 'pnpm-workspace.yaml'), 'utf-8');
+      let inPackages = false;
+      for (const line of yaml.split('\n')) {
+        if (/^\S/.test(line)) {
+          inPackages = line.startsWith('packages:');
+          continue;
+        }
+        const match = inPackages ? line.match(/^\s+-\s*['"]?([^'"#]+?)['"]?\s*(#.*)?$/) : null;
+        if (match) {
+          patterns.push(match[1]);
+        }
+      }
+    } catch {
+      // 沒有 pnpm-workspace.yaml
+    }
+
+    if (patterns.length === 0) {
+      return [];
+    }
+
+    const manifests = await glob(
+      patterns.filter(pattern => !pattern.startsWith('!')).map(pattern => `${pattern.replace(/\/$/, '')}/package.json`),
+      {
+        cwd: root,
+        absolute: true,
+        ignore: ['**/node_modules/**', ...patterns.filter(pattern => pattern.startsWith('!')).map(pattern => `${pattern.slice(1)}/package.json`)]
+      }
+    );
+
+    const workspaces: Workspace[] = [];
+    for (const manifest of manifests.sort()) {
+      const directory = path.dirname(manifest);
+      const packageJson = await this.readJson(manifest);
+      if (packageJson && directory !== root) {
+        workspaces.push(this.createWorkspace(directory, packageJson));
+      }
+    }
+    return workspaces;
+  }
+
+  private createWorkspace(directory: string, packageJson: any): Workspace {
+    const declared = new Map<string, PackageDependencyField>();
+    for (const field of DEPENDENCY_FIELDS) {
+      for (const name of Object.keys(packageJson[field] ?? {})) {
+        if (!declared.has(name)) {
+          declared.set(name, field);
+        }
+      }
+    }
+    return { directory, packageJson, declared };
+  }
+
+  /**
+   * 檔案歸屬最深層的 workspace
+   */
+  private findOwner(workspaces: Workspace[], filePath: string): Workspace | undefined {
+    return workspaces
+      .filter(workspace => {
+        const relativePath = path.relative(workspace.directory, filePath);
+        return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+      })
+      .sort((a, b) => b.directory.length - a.directory.length)[0];
+  }
+
+  /**
+   * 讀取 package-lock.json、pnpm-lock.yaml 與 yarn.lock 中的套件名稱
+   */
+  private async readLockfiles(root: string): Promise<LockfileInfo> {
+    const info: LockfileInfo = { files: [], packages: new Set(), bins: new Map() };
+
+    const packageLock = await this.readJson(path.join(root, 'package-lock.json'));
+    if (packageLock) {
+      info.files.push('package-lock.json');
+      for (const [key, entry] of Object.entries<any>(packageLock.packages ?? {})) {
+        const index = key.lastIndexOf('node_modules/');
+        if (index === -1) {
+          continue;
+        }
+        const name = key.slice(index + 'node_modules/'.length);
+        info.packages.add(name);
+        const bins = this.getBinNames(name, entry?.bin);
+        if (bins.length > 0 && !info.bins.has(name)) {
+          info.bins.set(name, bins);
+        }
+      }
+      // lockfileVersion 1
+      const collect = (dependencies: Record<string, any> | undefined) => {
+        for (const [name, entry] of Object.entries(dependencies ?? {})) {
+          info.packages.add(name);
+          collect(entry?.dependencies);
+        }
+      };
+      collect(packageLock.dependencies);
+    }
+
+    const textLockfiles: Array<[string, RegExp]> = [
+      // v6: /name@1.0.0:、v9: name@1.0.0:、'@scope/name@1.0.0':
+      ['pnpm-lock.yaml', /^ {2}['"]?\/?((?:@[^/@\s'"]+\/)?[^@\s'"/]+)@/],
+      // "name@^1.0.0", name@^1.0.0:
+      ['yarn.lock', /^"?((?:@[^/@\s"]+\/)?[^@\s",]+)@/]
+    ];
+    for (const [fileName, pattern] of textLockfiles) {
+      try {
+        const content = await fs.readFile(path.join(root, fileName), 'utf-8');
+        info.files.push(fileName);
+        for (const line of content.split('\n')) {
+          const match = line.match(pattern);
+          if (match) {
+            info.packages.add(match[1]);
+          }
+        }
+      } catch {
+        // lockfile 不存在
+      }
+    }
+
+    return info;
+  }
+
+  private async readJson(filePath: string): Promise<any> {
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      return JSON.parse(content);
+    } catch {
+      return null;
+    }
+  }
+}
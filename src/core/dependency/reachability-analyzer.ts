@@ -0,0 +1,407 @@
+/**
+ * 可達性分析器
+ * 從 package.json、tsconfig.json、測試與設定檔推導進入點，找出無法到達的檔案與未被使用的匯出
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { minimatch } from 'minimatch';
+
+import type { DependencyGraph } from './dependency-graph.js';
+import { importPathMatches } from './import-path.js';
+import { ModuleResolver } from './module-resolver.js';
+import type {
+  EntryPoint,
+  EntryPointSource,
+  ReachabilityResult,
+  UnreachableExport
+} from './types.js';
+
+/**
+ * 預設視為進入點的測試檔案 glob
+ */
+export const DEFAULT_TEST_PATTERNS = [
+  '**/*.test.*',
+  '**/*.spec.*',
+  '**/__tests__/**',
+  'tests/**',
+  'test/**'
+];
+
+/**
+ * 測試用的範例專案目錄：不是進入點，也不回報為孤立檔案
+ */
+export const DEFAULT_FIXTURE_PATTERNS = [
+  '**/fixtures/**',
+  '**/__fixtures__/**'
+];
+
+/**
+ * 預設視為進入點的設定檔 glob
+ */
+export const DEFAULT_CONFIG_PATTERNS = [
+  '**/*.config.{ts,mts,cts,js,mjs,cjs}'
+];
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * 檔案中的匯出符號
+ */
+interface ExportedSymbol {
+  readonly name: string;
+  readonly line: number;
+}
+
+/**
+ * 可達性分析器類別
+ */
+export class ReachabilityAnalyzer {
+  private readonly moduleResolver = new ModuleResolver();
+
+  /**
+   * 找出專案的進入點
+   * @param projectPath 專案根目錄
+   * @param files 依賴圖中的檔案（絕對路徑）
+   * @param patterns 額外的進入點 glob（.agent-ide.json 的 entryPoints）
+   * @returns 進入點列表（同一檔案只保留第一個來源）
+   */
+  async findEntryPoints(
+    projectPath: string,
+    files: readonly string[],
+    patterns: readonly string[] = []
+  ): Promise<EntryPoint[]> {
+    const root = path.resolve(projectPath);
+    const fileSet = new Set(files);
+    const entryPoints = new Map<string, EntryPointSource>();
+    const add = (filePath: string | null, source: EntryPointSource) => {
+      if (filePath && !entryPoints.has(filePath)) {
+        entryPoints.set(filePath, source);
+      }
+    };
+
+    // tsconfig.json 允許註解，使用 TypeScript 的解析器讀取
+    const tsconfig = ts.readConfigFile(path.join(root, 'tsconfig.json'), ts.sys.readFile).config;
+    const outDir = typeof tsconfig?.compilerOptions?.outDir === 'string' ? tsconfig.compilerOptions.outDir : undefined;
+    const rootDir = typeof tsconfig?.compilerOptions?.rootDir === 'string' ? tsconfig.compilerOptions.rootDir : 'src';
+    const resolve = (target: string) => this.resolveEntryFile(root, target, fileSet, outDir, rootDir);
+
+    const packageJson = await this.readJson(path.join(root, 'package.json'));
+    if (packageJson) {
+      for (const field of ['main', 'module']) {
+        if (typeof packageJson[field] === 'string') {
+          add(resolve(packageJson[field]), 'package-main');
+        }
+      }
+      for (const target of this.collectStrings(packageJson.bin)) {
+        add(resolve(target), 'package-bin');
+      }
+      for (const target of this.collectStrings(packageJson.exports)) {
+        add(resolve(target), 'package-exports');
+      }
+    }
+
+    if (Array.isArray(tsconfig?.files)) {
+      for (const target of tsconfig.files.filter((file: unknown) => typeof file === 'string')) {
+        add(resolve(target), 'tsconfig-files');
+      }
+    }
+
+    const patternSources: Array<[readonly string[], EntryPointSource]> = [
+      [patterns, 'configured'],
+      [DEFAULT_TEST_PATTERNS, 'test'],
+      [DEFAULT_CONFIG_PATTERNS, 'config-file']
+    ];
+    for (const [globs, source] of patternSources) {
+      for (const filePath of files) {
+        const relativePath = this.toRelativePath(root, filePath);
+        // 依賴圖中無法解析的匯入也是節點，只有實際存在的檔案才是進入點
+        if (relativePath && globs.some(pattern => minimatch(relativePath, pattern, { dot: true })) && await this.isFile(filePath)) {
+          add(filePath, source);
+        }
+      }
+    }
+
+    return [...entryPoints.entries()].map(([filePath, source]) => ({ filePath, source }));
+  }
+
+  /**
+   * 從進入點走訪依賴圖，計算無法到達的檔案與未被使用的匯出
+   * @param graph 依賴圖
+   * @param projectPath 專案根目錄
+   * @param patterns 額外的進入點 glob
+   * @returns 可達性分析結果
+   */
+  async analyze(
+    graph: DependencyGraph,
+    projectPath: string,
+    patterns: readonly string[] = []
+  ): Promise<ReachabilityResult> {
+    const root = path.resolve(projectPath);
+    const files = graph.getAllNodes().filter(node => {
+      const relativePath = this.toRelativePath(root, node);
+      return relativePath !== null && !DEFAULT_FIXTURE_PATTERNS.some(pattern => minimatch(relativePath, pattern, { dot: true }));
+    });
+    const entryPoints = await this.findEntryPoints(root, files, patterns);
+
+    if (entryPoints.length === 0) {
+      // 沒有任何進入點時退回以被依賴數判斷
+      return {
+        entryPoints,
+        reachableFiles: files.filter(file => graph.getDependents(file).length > 0),
+        unreachableFiles: files.filter(file => graph.getDependents(file).length === 0),
+        unreachableExports: []
+      };
+    }
+
+    const reachable = new Set(entryPoints.map(entry => entry.filePath));
+    const queue = [...reachable];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const dependency of graph.getDependencies(current)) {
+        if (!reachable.has(dependency)) {
+          reachable.add(dependency);
+          queue.push(dependency);
+        }
+      }
+    }
+
+    const reachableFiles = files.filter(file => reachable.has(file));
+    const entrySet = new Set(entryPoints.map(entry => entry.filePath));
+
+    return {
+      entryPoints,
+      reachableFiles,
+      unreachableFiles: files.filter(file => !reachable.has(file)),
+      unreachableExports: await this.findUnreachableExports(graph, reachableFiles, entrySet)
+    };
+  }
+
+  /**
+   * 找出可達檔案中沒有被任何可達檔案匯入的匯出（進入點的匯出視為公開 API）
+   */
+  private async findUnreachableExports(
+    graph: DependencyGraph,
+    reachableFiles: readonly string[],
+    entryPoints: ReadonlySet<string>
+  ): Promise<UnreachableExport[]> {
+    const sourceFiles = new Map<string, ts.SourceFile>();
+    for (const filePath of reachableFiles.filter(file => this.isSourceFile(file))) {
+      try {
+        const content = await fs.readFile(filePath, 'utf-8');
+        sourceFiles.set(filePath, ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true));
+      } catch {
+        // 忽略無法讀取的檔案
+      }
+    }
+
+    // 被匯入的名稱；'*' 表示所有匯出都可能被使用（namespace import、export *、動態 import）
+    const usedNames = new Map<string, Set<string>>();
+    for (const [filePath, sourceFile] of sourceFiles) {
+      const dependencies = graph.getDependencies(filePath);
+      for (const { specifier, names } of this.collectImports(sourceFile)) {
+        const target = dependencies.find(dependency => importPathMatches(specifier, filePath, dependency, this.moduleResolver));
+        if (!target) {
+          continue;
+        }
+        const used = usedNames.get(target) ?? new Set<string>();
+        names.forEach(name => used.add(name));
+        usedNames.set(target, used);
+      }
+    }
+
+    const unreachableExports: UnreachableExport[] = [];
+    for (const [filePath, sourceFile] of sourceFiles) {
+      const used = usedNames.get(filePath) ?? new Set<string>();
+      if (entryPoints.has(filePath) || used.has('*')) {
+        continue;
+      }
+      for (const symbol of this.collectExports(sourceFile)) {
+        if (!used.has(symbol.name)) {
+          unreachableExports.push({ filePath, symbol: symbol.name, line: symbol.line });
+        }
+      }
+    }
+
+    return unreachableExports;
+  }
+
+  /**
+   * 收集檔案中的 import、re-export 與動態 import
+   */
+  private collectImports(sourceFile: ts.SourceFile): Array<{ specifier: string; names: string[] }> {
+    const imports: Array<{ specifier: string; names: string[] }> = [];
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+        const names: string[] = [];
+        const clause = node.importClause;
+        if (clause?.name) {
+          names.push('default');
+        }
+        if (clause?.namedBindings) {
+          if (ts.isNamespaceImport(clause.namedBindings)) {
+            names.push('*');
+          } else {
+            clause.namedBindings.elements.forEach(element => names.push((element.propertyName ?? element.name).text));
+          }
+        }
+        imports.push({ specifier: node.moduleSpecifier.text, names });
+      } else if (ts.isExportDeclaration(node) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+        const names = node.exportClause && ts.isNamedExports(node.exportClause)
+          ? node.exportClause.elements.map(element => (element.propertyName ?? element.name).text)
+          : ['*'];
+        imports.push({ specifier: node.moduleSpecifier.text, names });
+      } else if (ts.isImportEqualsDeclaration(node) &&
+        ts.isExternalModuleReference(node.moduleReference) &&
+        ts.isStringLiteral(node.moduleReference.expression)) {
+        imports.push({ specifier: node.moduleReference.expression.text, names: ['*'] });
+      } else if (ts.isCallExpression(node) &&
+        (node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+          (ts.isIdentifier(node.expression) && node.expression.text === 'require')) &&
+        node.arguments.length > 0 &&
+        ts.isStringLiteralLike(node.arguments[0])) {
+        imports.push({ specifier: node.arguments[0].text, names: ['*'] });
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return imports;
+  }
+
+  /**
+   * 收集檔案的匯出符號（不含 export * 轉出的符號）
+   */
+  private collectExports(sourceFile: ts.SourceFile): ExportedSymbol[] {
+    const exports: ExportedSymbol[] = [];
+    const add = (name: string, node: ts.Node) => {
+      const line = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+      exports.push({ name, line });
+    };
+
+    for (const statement of sourceFile.statements) {
+      if (ts.isExportDeclaration(statement)) {
+        if (statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+          statement.exportClause.elements.forEach(element => add(element.name.text, element));
+        }
+        continue;
+      }
+      if (ts.isExportAssignment(statement)) {
+        if (!statement.isExportEquals) {
+          add('default', statement);
+        }
+        continue;
+      }
+
+      const modifiers = ts.canHaveModifiers(statement) ? ts.getModifiers(statement) : undefined;
+      if (!modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword)) {
+        continue;
+      }
+      if (modifiers.some(modifier => modifier.kind === ts.SyntaxKind.DefaultKeyword)) {
+        add('default', statement);
+      } else if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          if (ts.isIdentifier(declaration.name)) {
+            add(declaration.name.text, declaration.name);
+          }
+        }
+      } else if ((ts.isFunctionDeclaration(statement) ||
+        ts.isClassDeclaration(statement) ||
+        ts.isInterfaceDeclaration(statement) ||
+        ts.isTypeAliasDeclaration(statement) ||
+        ts.isEnumDeclaration(statement) ||
+        ts.isModuleDeclaration(statement)) && statement.name && ts.isIdentifier(statement.name)) {
+        add(statement.name.text, statement.name);
+      }
+    }
+
+    return exports;
+  }
+
+  /**
+   * 將 package.json / tsconfig.json 中的路徑對應到依賴圖中的原始檔
+   * 指向編譯輸出（outDir）時改找 rootDir 下對應的原始檔
+   */
+  private resolveEntryFile(
+    root: string,
+    target: string,
+    files: ReadonlySet<string>,
+    outDir: string | undefined,
+    rootDir: string
+  ): string | null {
+    const absolutePath = path.resolve(root, target);
+    const candidates = [absolutePath];
+
+    if (outDir) {
+      const outPath = path.resolve(root, outDir);
+      if (absolutePath === outPath || absolutePath.startsWith(outPath + path.sep)) {
+        candidates.push(path.join(path.resolve(root, rootDir), path.relative(outPath, absolutePath)));
+      }
+    }
+
+    for (const candidate of candidates) {
+      const base = candidate.replace(/\.(d\.ts|[cm]?[tj]sx?)$/, '');
+      const options = [
+        candidate,
+        ...SOURCE_EXTENSIONS.map(ext => base + ext),
+        ...SOURCE_EXTENSIONS.map(ext => path.join(candidate, `index${ext}`))
+      ];
+      const found = options.find(option => files.has(option));
+      if (found) {
+        return found;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 收集 bin / exports 欄位中的所有路徑（支援巢狀條件匯出）
+   */
+  private collectStrings(value: unknown): string[] {
+    if (typeof value === 'string') {
+      return [value];
+    }
+    if (Array.isArray(value)) {
+      return value.flatMap(item => this.collectStrings(item));
+    }
+    if (value && typeof value === 'object') {
+      return Object.values(value).flatMap(item => this.collectStrings(item));
+    }
+    return [];
+  }
+
+  private async readJson(filePath: string): Promise<any> {
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      return JSON.parse(content);
+    } catch {
+      return null;
+    }
+  }
+
+  private async isFile(filePath: string): Promise<boolean> {
+    try {
+      return (await fs.stat(filePath)).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  private isSourceFile(filePath: string): boolean {
+    return SOURCE_EXTENSIONS.includes(path.extname(filePath));
+  }
+
+  /**
+   * 轉為相對於專案根目錄的路徑，不在專案內（含外部模組）時回傳 null
+   */
+  private toRelativePath(root: string, filePath: string): string | null {
+    if (!path.isAbsolute(filePath)) {
+      return null;
+    }
+    const relativePath = path.relative(root, filePath).split(path.sep).join('/');
+    return relativePath.startsWith('..') ? null : relativePath;
+  }
+}
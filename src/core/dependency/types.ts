@@ -59,7 +59,7 @@ export interface DependencyEdge {
   readonly from: string;
   readonly to: string;
   readonly weight: number;
-  readonly dependencyType: 'import' | 'require' | 'include';
+  readonly dependencyType: 'import' | 'require' | 'include' | 're-export' | 'dynamic-import';
 }
 
 /**
@@ -150,6 +150,266 @@ export interface ExtendedDependencyAnalysisOptions extends DependencyAnalysisOpt
   readonly concurrency?: number;
 }
 
+/**
+ * 進入點來源
+ */
+export type EntryPointSource =
+  | 'package-main'
+  | 'package-bin'
+  | 'package-exports'
+  | 'tsconfig-files'
+  | 'test'
+  | 'config-file'
+  | 'configured';
+
+/**
+ * 進入點
+ */
+export interface EntryPoint {
+  readonly filePath: string;
+  readonly source: EntryPointSource;
+}
+
+/**
+ * 沒有被任何可達檔案匯入的匯出符號
+ */
+export interface UnreachableExport {
+  readonly filePath: string;
+  readonly symbol: string;
+  /** 宣告所在行（1-based） */
+  readonly line: number;
+}
+
+/**
+ * 可達性分析結果
+ */
+export interface ReachabilityResult {
+  readonly entryPoints: readonly EntryPoint[];
+  readonly reachableFiles: readonly string[];
+  /** 無法從任何進入點到達的檔案；找不到進入點時為沒有被依賴的檔案 */
+  readonly unreachableFiles: readonly string[];
+  readonly unreachableExports: readonly UnreachableExport[];
+}
+
+/**
+ * package.json 的依賴欄位
+ */
+export type PackageDependencyField = 'dependencies' | 'devDependencies' | 'peerDependencies' | 'optionalDependencies';
+
+/**
+ * 原始碼中對外部套件的 import
+ */
+export interface PackageImport {
+  /** 套件名稱（子路徑 import 如 lodash/fp 歸屬 lodash） */
+  readonly packageName: string;
+  readonly specifier: string;
+  readonly filePath: string;
+  /** import 所在行（1-based） */
+  readonly line: number;
+  /** import type、export type 或型別位置的 import('x') */
+  readonly typeOnly: boolean;
+}
+
+/**
+ * 宣告了但沒有被使用的套件
+ */
+export interface UnusedPackage {
+  readonly packageName: string;
+  readonly field: PackageDependencyField;
+}
+
+/**
+ * 匯入未宣告套件的 import
+ */
+export interface UndeclaredPackageImport extends PackageImport {
+  /** lockfile 中有此套件（通常是其他套件的間接依賴） */
+  readonly inLockfile: boolean;
+}
+
+/**
+ * 單一 workspace 的套件稽核結果
+ */
+export interface WorkspacePackageAudit {
+  /** package.json 的 name，未設定時為相對路徑 */
+  readonly name: string;
+  /** workspace 目錄（絕對路徑） */
+  readonly directory: string;
+  readonly unused: readonly UnusedPackage[];
+  readonly undeclared: readonly UndeclaredPackageImport[];
+  /** 非測試、非設定檔在執行期 import 的 devDependencies */
+  readonly devDependenciesAtRuntime: readonly PackageImport[];
+  /** dependencies 中只被型別 import 使用、可移到 devDependencies 的套件 */
+  readonly typeOnlyDependencies: readonly string[];
+}
+
+/**
+ * 套件稽核結果
+ */
+export interface PackageAuditResult {
+  readonly workspaces: readonly WorkspacePackageAudit[];
+  /** 讀取到的 lockfile（相對於專案根目錄） */
+  readonly lockfiles: readonly string[];
+}
+
+/**
+ * 檔案中的型別宣告數量（計算抽象度用）
+ */
+export interface TypeDeclarationCount {
+  /** interface、protocol、type alias 與 abstract class */
+  readonly abstract: number;
+  /** 所有型別宣告（含具體的 class、struct、enum） */
+  readonly total: number;
+}
+
+/**
+ * 模組（目錄）的耦合度指標
+ */
+export interface ModuleMetrics {
+  /** 模組路徑（相對於專案根目錄，以 / 結尾；根目錄為 ./） */
+  readonly module: string;
+  /** 模組內的檔案（絕對路徑） */
+  readonly files: readonly string[];
+  /** Ca：模組外依賴此模組的檔案數 */
+  readonly afferentCoupling: number;
+  /** Ce：模組內依賴其他模組的檔案數 */
+  readonly efferentCoupling: number;
+  /** I = Ce / (Ca + Ce) */
+  readonly instability: number;
+  /** A = 抽象型別數 / 型別總數 */
+  readonly abstractness: number;
+  /** D = |A + I - 1|，與主序列的距離 */
+  readonly distance: number;
+  readonly abstractTypes: number;
+  readonly totalTypes: number;
+}
+
+/**
+ * 耦合度指標計算選項
+ */
+export interface CouplingMetricsOptions {
+  readonly rootPath: string;
+  /** 依目錄深度合併模組（如 2 表示 src/core/），未指定時以檔案所在目錄為模組 */
+  readonly depth?: number;
+  /** 各檔案的型別宣告數量（絕對路徑），未提供的檔案視為沒有型別 */
+  readonly typeCounts?: ReadonlyMap<string, TypeDeclarationCount>;
+}
+
+/**
+ * 模擬的依賴變更：新增一條 import，或移動檔案/目錄
+ */
+export type SimulatedChange =
+  | { readonly type: 'add-edge'; readonly from: string; readonly to: string }
+  | { readonly type: 'move'; readonly source: string; readonly target: string };
+
+/**
+ * 單一檔案在變更前後的影響範圍
+ */
+export interface SimulatedImpactChange {
+  readonly before: ImpactAnalysisResult;
+  readonly after: ImpactAnalysisResult;
+  /** 變更後才會受影響的檔案 */
+  readonly addedDependents: readonly string[];
+  /** 變更後不再受影響的檔案 */
+  readonly removedDependents: readonly string[];
+}
+
+/**
+ * 依賴變更模擬結果（路徑皆為變更後的絕對路徑）
+ */
+export interface DependencySimulationResult {
+  readonly change: SimulatedChange;
+  readonly introducedCycles: readonly CircularDependency[];
+  readonly resolvedCycles: readonly CircularDependency[];
+  /** 變更後新出現或擴大的強連通分量 */
+  readonly introducedComponents: readonly StronglyConnectedComponent[];
+  /** 以檔案所在目錄為節點時新出現的循環 */
+  readonly introducedModuleCycles: readonly CircularDependency[];
+  /** 影響範圍有變化的檔案 */
+  readonly impact: readonly SimulatedImpactChange[];
+}
+
+/**
+ * 受變更影響的測試檔案
+ */
+export interface AffectedTest {
+  readonly filePath: string;
+  /** 讓此測試受影響的變更檔案 */
+  readonly triggeredBy: readonly string[];
+}
+
+/**
+ * 依變更檔案挑選測試的結果
+ */
+export interface AffectedTestSelection {
+  /** 在依賴圖中的變更檔案 */
+  readonly changedFiles: readonly string[];
+  /** 不在依賴圖中的變更檔案（文件、設定檔、已刪除的檔案等） */
+  readonly ignoredFiles: readonly string[];
+  readonly affectedTests: readonly AffectedTest[];
+  /** 專案中的測試檔案總數 */
+  readonly totalTests: number;
+}
+
+/**
+ * 依賴圖匯出格式（jgf 為 JSON Graph Format v2）
+ */
+export type GraphExportFormat = 'dot' | 'mermaid' | 'graphml' | 'jgf';
+
+/**
+ * 依賴圖匯出選項
+ */
+export interface GraphExportOptions {
+  readonly format: GraphExportFormat;
+  /** 節點標籤相對於此路徑 */
+  readonly rootPath: string;
+  /** 依目錄深度合併節點（如 2 表示 src/core），未指定時不合併 */
+  readonly collapseDepth?: number;
+  /** 循環依賴的節點群組，群組內的邊以紅色標示 */
+  readonly cycles?: readonly (readonly string[])[];
+  /** 只輸出此檔案的傳遞依賴與傳遞被依賴（絕對路徑） */
+  readonly focusFile?: string;
+}
+
+/**
+ * 架構層級規則
+ * `allowed` 列出可依賴的其他層級，`forbidden` 列出禁止依賴的層級；同層依賴預設允許
+ */
+export interface LayerRule {
+  readonly name: string;
+  /** 規則適用的來源層級 */
+  readonly from: string;
+  readonly allowed?: readonly string[];
+  readonly forbidden?: readonly string[];
+  /** 違規時附加的說明 */
+  readonly message?: string;
+}
+
+/**
+ * 架構規則配置（.agent-ide.json 的 architecture 區段）
+ */
+export interface ArchitectureConfig {
+  /** 層級名稱 → glob 模式（相對於專案根目錄），檔案歸屬第一個符合的層級 */
+  readonly layers: Readonly<Record<string, readonly string[]>>;
+  readonly rules: readonly LayerRule[];
+}
+
+/**
+ * 違反架構規則的 import
+ */
+export interface LayerViolation {
+  /** 發出 import 的檔案（絕對路徑） */
+  readonly file: string;
+  /** import 所在行（1-based），找不到語句時為 0 */
+  readonly line: number;
+  /** 被匯入的檔案（絕對路徑） */
+  readonly target: string;
+  readonly importPath: string;
+  readonly fromLayer: string;
+  readonly toLayer: string;
+  readonly rule: string;
+  readonly message?: string;
+}
+
 /**
  * 建立預設依賴分析選項
  */
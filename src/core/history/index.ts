@@ -0,0 +1,17 @@
+/**
+ * History 模組匯出
+ * 跨行程的操作日誌、復原與重做
+ */
+
+export { OperationJournal, DEFAULT_HISTORY_PATH, MAX_HISTORY_ENTRIES } from './operation-journal.js';
+
+export { HistoryError, HistoryErrorCode } from './types.js';
+
+export type {
+  OperationType,
+  OperationStatus,
+  FileState,
+  JournalFileChange,
+  JournalEntry,
+  RecordOperationInput
+} from './types.js';
@@ -0,0 +1,297 @@
+/**
+ * 操作日誌實作
+ * 將每次操作前後的檔案內容寫入 `.agent-ide/history/`，讓不同 CLI 行程之間也能復原與重做
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+import {
+  HistoryError,
+  HistoryErrorCode,
+  type FileState,
+  type JournalEntry,
+  type JournalFileChange,
+  type RecordOperationInput
+} from './types.js';
+
+/**
+ * 預設歷史記錄目錄（相對於工作區）
+ */
+export const DEFAULT_HISTORY_PATH = path.join('.agent-ide', 'history');
+
+/**
+ * 保留的歷史記錄數量上限，超過時刪除最舊的項目
+ */
+export const MAX_HISTORY_ENTRIES = 50;
+
+/**
+ * 操作日誌
+ * 復原與重做前會比對檔案目前的 hash，檔案在操作後被修改時拒絕執行
+ */
+export class OperationJournal {
+  private readonly workspacePath: string;
+  private readonly historyPath: string;
+
+  constructor(workspacePath: string, historyPath?: string) {
+    this.workspacePath = path.resolve(workspacePath);
+    this.historyPath = historyPath ?? path.join(this.workspacePath, DEFAULT_HISTORY_PATH);
+  }
+
+  /**
+   * 讀取檔案目前的內容，作為操作前的狀態
+   */
+  async capture(filePaths: readonly string[]): Promise<Map<string, string | null>> {
+    const snapshot = new Map<string, string | null>();
+    for (const filePath of filePaths) {
+      const absolutePath = path.resolve(filePath);
+      if (!snapshot.has(absolutePath)) {
+        snapshot.set(absolutePath, await this.readOptional(absolutePath));
+      }
+    }
+    return snapshot;
+  }
+
+  /**
+   * 記錄操作
+   * 只保存實際變更的檔案，沒有任何變更時不建立項目並回傳 null
+   */
+  async record(input: RecordOperationInput): Promise<JournalEntry | null> {
+    const before = new Map<string, string | null>();
+    for (const [filePath, content] of input.before) {
+      before.set(path.resolve(filePath), content);
+    }
+    for (const filePath of input.createdFiles ?? []) {
+      const absolutePath = path.resolve(filePath);
+      if (!before.has(absolutePath)) {
+        before.set(absolutePath, null);
+      }
+    }
+
+    const files: JournalFileChange[] = [];
+    for (const [absolutePath, beforeContent] of before) {
+      const afterContent = await this.readOptional(absolutePath);
+      if (afterContent === beforeContent) {
+        continue;
+      }
+      files.push({
+        path: this.toRelativePath(absolutePath),
+        before: this.createState(beforeContent),
+        after: this.createState(afterContent)
+      });
+    }
+
+    if (files.length === 0) {
+      return null;
+    }
+
+    // 新操作會讓已復原的項目無法再重做
+    const entries = await this.list();
+    for (const entry of entries.filter(e => e.status === 'undone')) {
+      await this.deleteEntry(entry.id);
+    }
+
+    const lastId = entries.reduce((max, entry) => Math.max(max, Number(entry.id)), 0);
+    const entry: JournalEntry = {
+      id: String(lastId + 1),
+      type: input.type,
+      description: input.description,
+      timestamp: new Date().toISOString(),
+      status: 'applied',
+      files
+    };
+    await this.saveEntry(entry);
+
+    const applied = entries.filter(e => e.status === 'applied');
+    for (const stale of applied.slice(MAX_HISTORY_ENTRIES - 1)) {
+      await this.deleteEntry(stale.id);
+    }
+
+    return entry;
+  }
+
+  /**
+   * 列出所有項目（最新的在前）
+   */
+  async list(): Promise<JournalEntry[]> {
+    let fileNames: string[];
+    try {
+      fileNames = await fs.readdir(this.historyPath);
+    } catch {
+      return [];
+    }
+
+    const entries: JournalEntry[] = [];
+    for (const fileName of fileNames.filter(name => /^\d+\.json$/.test(name))) {
+      try {
+        entries.push(JSON.parse(await fs.readFile(path.join(this.historyPath, fileName), 'utf-8')) as JournalEntry);
+      } catch {
+        // 略過損毀的項目
+      }
+    }
+
+    return entries.sort((a, b) => Number(b.id) - Number(a.id));
+  }
+
+  /**
+   * 取得指定項目
+   */
+  async get(id: string): Promise<JournalEntry | null> {
+    return (await this.list()).find(entry => entry.id === id) ?? null;
+  }
+
+  /**
+   * 復原操作，未指定 id 時復原最近一次尚未復原的操作
+   */
+  async undo(id?: string): Promise<JournalEntry> {
+    const entries = await this.list();
+    const entry = id
+      ? entries.find(e => e.id === id)
+      : entries.find(e => e.status === 'applied');
+
+    if (!entry) {
+      throw id
+        ? new HistoryError(`找不到操作 ${id}`, HistoryErrorCode.ENTRY_NOT_FOUND)
+        : new HistoryError('沒有可復原的操作', HistoryErrorCode.NOTHING_TO_UNDO);
+    }
+    if (entry.status !== 'applied') {
+      throw new HistoryError(`操作 ${entry.id} 已經復原`, HistoryErrorCode.INVALID_STATUS);
+    }
+
+    await this.restore(entry, 'after', 'before');
+
+    const undone: JournalEntry = { ...entry, status: 'undone', undoneAt: new Date().toISOString() };
+    await this.saveEntry(undone);
+    return undone;
+  }
+
+  /**
+   * 重做最近一次復原的操作
+   */
+  async redo(): Promise<JournalEntry> {
+    const entry = (await this.list())
+      .filter(e => e.status === 'undone')
+      .sort((a, b) => (b.undoneAt ?? '').localeCompare(a.undoneAt ?? ''))[0];
+
+    if (!entry) {
+      throw new HistoryError('沒有可重做的操作', HistoryErrorCode.NOTHING_TO_REDO);
+    }
+
+    await this.restore(entry, 'before', 'after');
+
+    const redone: JournalEntry = { ...entry, status: 'applied', undoneAt: undefined };
+    await this.saveEntry(redone);
+    return redone;
+  }
+
+  /**
+   * 將檔案從 expected 狀態還原為 target 狀態
+   * 寫入前確認所有檔案仍為 expected 狀態，寫入失敗時還原已寫入的檔案
+   */
+  private async restore(entry: JournalEntry, expected: 'before' | 'after', target: 'before' | 'after'): Promise<void> {
+    const current = new Map<string, string | null>();
+    const changedFiles: string[] = [];
+
+    for (const file of entry.files) {
+      const content = await this.readOptional(this.toAbsolutePath(file.path));
+      current.set(file.path, content);
+      if (this.hash(content) !== file[expected].hash) {
+        changedFiles.push(file.path);
+      }
+    }
+
+    if (changedFiles.length > 0) {
+      throw new HistoryError(
+        `以下檔案在操作 ${entry.id} 之後已被修改: ${changedFiles.join(', ')}`,
+        HistoryErrorCode.FILES_CHANGED,
+        changedFiles
+      );
+    }
+
+    const written: JournalFileChange[] = [];
+    try {
+      for (const file of entry.files) {
+        await this.writeState(file.path, file[target]);
+        written.push(file);
+      }
+    } catch (error) {
+      for (const file of written) {
+        try {
+          await this.writeState(file.path, this.createState(current.get(file.path) ?? null));
+        } catch {
+          // 盡力還原，繼續處理其他檔案
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 寫入檔案狀態，狀態為不存在時刪除檔案並移除留下的空目錄
+   */
+  private async writeState(relativePath: string, state: FileState): Promise<void> {
+    const absolutePath = this.toAbsolutePath(relativePath);
+
+    if (state.exists) {
+      await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+      await fs.writeFile(absolutePath, state.content ?? '', 'utf-8');
+      return;
+    }
+
+    await fs.rm(absolutePath, { force: true });
+
+    let directory = path.dirname(absolutePath);
+    while (directory.startsWith(this.workspacePath + path.sep)) {
+      try {
+        await fs.rmdir(directory);
+      } catch {
+        break;
+      }
+      directory = path.dirname(directory);
+    }
+  }
+
+  private createState(content: string | null): FileState {
+    return {
+      exists: content !== null,
+      hash: this.hash(content),
+      content
+    };
+  }
+
+  private hash(content: string | null): string | null {
+    return content === null ? null : createHash('sha256').update(content).digest('hex');
+  }
+
+  private async readOptional(filePath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(filePath, 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+
+  private toRelativePath(absolutePath: string): string {
+    return path.relative(this.workspacePath, absolutePath).split(path.sep).join('/');
+  }
+
+  private toAbsolutePath(relativePath: string): string {
+    return path.resolve(this.workspacePath, relativePath);
+  }
+
+  /**
+   * 寫入項目（先寫暫存檔再改名，避免留下不完整的檔案）
+   */
+  private async saveEntry(entry: JournalEntry): Promise<void> {
+    await fs.mkdir(this.historyPath, { recursive: true });
+    const entryPath = path.join(this.historyPath, `${entry.id}.json`);
+    const tempPath = `${entryPath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(entry, null, 2), 'utf-8');
+    await fs.rename(tempPath, entryPath);
+  }
+
+  private async deleteEntry(id: string): Promise<void> {
+    await fs.rm(path.join(this.historyPath, `${id}.json`), { force: true });
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * History 模組型別定義
+ * 記錄重新命名、移動與重構對檔案造成的變更，供跨行程的復原與重做使用
+ */
+
+/**
+ * 操作類型
+ */
+export type OperationType = 'rename' | 'move' | 'refactor' | 'rewrite';
+
+/**
+ * 操作狀態
+ */
+export type OperationStatus = 'applied' | 'undone';
+
+/**
+ * 檔案在某個時間點的狀態
+ */
+export interface FileState {
+  readonly exists: boolean;
+  /** 內容的 SHA-256，檔案不存在時為 null */
+  readonly hash: string | null;
+  readonly content: string | null;
+}
+
+/**
+ * 單一檔案的變更
+ */
+export interface JournalFileChange {
+  /** 相對於工作區的路徑（以 / 分隔） */
+  readonly path: string;
+  readonly before: FileState;
+  readonly after: FileState;
+}
+
+/**
+ * 日誌項目
+ */
+export interface JournalEntry {
+  /** 遞增的操作編號 */
+  readonly id: string;
+  readonly type: OperationType;
+  readonly description: string;
+  /** 執行時間（ISO 8601） */
+  readonly timestamp: string;
+  readonly status: OperationStatus;
+  /** 最近一次復原的時間（ISO 8601） */
+  readonly undoneAt?: string;
+  readonly files: readonly JournalFileChange[];
+}
+
+/**
+ * 記錄操作的參數
+ */
+export interface RecordOperationInput {
+  readonly type: OperationType;
+  readonly description: string;
+  /** 操作前的檔案內容（絕對路徑 → 內容，null 表示檔案不存在） */
+  readonly before: ReadonlyMap<string, string | null>;
+  /** 操作前不存在、由操作建立的檔案（如移動的目標） */
+  readonly createdFiles?: readonly string[];
+}
+
+/**
+ * 歷史記錄錯誤
+ */
+export class HistoryError extends Error {
+  constructor(
+    message: string,
+    public readonly code: HistoryErrorCode,
+    public readonly changedFiles: readonly string[] = []
+  ) {
+    super(message);
+    this.name = 'HistoryError';
+  }
+}
+
+/**
+ * 歷史記錄錯誤代碼
+ */
+export enum HistoryErrorCode {
+  ENTRY_NOT_FOUND = 'ENTRY_NOT_FOUND',
+  NOTHING_TO_UNDO = 'NOTHING_TO_UNDO',
+  NOTHING_TO_REDO = 'NOTHING_TO_REDO',
+  INVALID_STATUS = 'INVALID_STATUS',
+  FILES_CHANGED = 'FILES_CHANGED'
+}
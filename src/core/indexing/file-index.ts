@@ -51,6 +51,14 @@ export class FileIndex {
     });
   }
 
+  /**
+   * 還原已持久化的檔案索引項目
+   */
+  async restoreEntry(entry: FileIndexEntry): Promise<void> {
+    this.fileEntries.set(entry.fileInfo.filePath, entry);
+    this.lastUpdated = new Date();
+  }
+
   /**
    * 移除檔案從索引
    */
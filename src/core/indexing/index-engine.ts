@@ -17,7 +17,8 @@ import type {
   SymbolSearchResult,
   SearchOptions,
   IndexProgress,
-  BatchIndexOptions
+  BatchIndexOptions,
+  SymbolIndexEntry
 } from './types.js';
 import {
   createFileInfo,
@@ -28,6 +29,7 @@ import {
 
 import { FileIndex } from './file-index.js';
 import { SymbolIndex } from './symbol-index.js';
+import { FileIndexStorage, DEFAULT_INDEX_STORAGE_PATH, INDEX_STORAGE_VERSION } from './index-storage.js';
 import { ParserRegistry } from '../../infrastructure/parser/index.js';
 import { TypeScriptParser } from '../../plugins/typescript/parser.js';
 import { JavaScriptParser } from '../../plugins/javascript/parser.js';
@@ -42,8 +44,11 @@ export class IndexEngine {
   private readonly fileIndex: FileIndex;
   private readonly symbolIndex: SymbolIndex;
   private readonly parserRegistry: ParserRegistry;
+  private readonly storage: FileIndexStorage | null;
   private _disposed = false;
   private _indexed = false;
+  private persistenceLoaded = false;
+  private dirty = false;
 
   constructor(config: IndexConfig) {
     // 驗證配置
@@ -52,6 +57,9 @@ export class IndexEngine {
     this.config = config;
     this.fileIndex = new FileIndex(config);
     this.symbolIndex = new SymbolIndex();
+    this.storage = config.enablePersistence
+      ? new FileIndexStorage(path.resolve(config.workspacePath, config.persistencePath ?? DEFAULT_INDEX_STORAGE_PATH))
+      : null;
 
     // 檢查 ParserRegistry 是否已被清理，如果是則重新建立實例
     const registry = ParserRegistry.getInstance();
@@ -152,8 +160,139 @@ export class IndexEngine {
       throw error;
     }
 
+    // 載入持久化索引後只重新解析變更的檔案
+    await this.loadPersistedIndex();
     await this.indexDirectory(workspacePath);
     this._indexed = true;
+    await this.persistIndex();
+  }
+
+  /**
+   * 清除持久化的索引檔案，下次索引時完整重建
+   */
+  async clearPersistedIndex(): Promise<void> {
+    if (this.storage) {
+      await this.storage.clear();
+    }
+  }
+
+  /**
+   * 取得索引檔案路徑，未啟用持久化時回傳 null
+   */
+  getStoragePath(): string | null {
+    return this.storage ? this.storage.getStoragePath() : null;
+  }
+
+  /**
+   * 從持久化儲存載入索引
+   * 只在記憶體索引為空時載入，且索引檔的配置必須與目前配置相符
+   */
+  private async loadPersistedIndex(): Promise<void> {
+    if (!this.storage || this.persistenceLoaded) {
+      return;
+    }
+    this.persistenceLoaded = true;
+
+    if (this.fileIndex.getTotalFiles() > 0) {
+      return;
+    }
+
+    let data;
+    try {
+      data = await this.storage.load();
+    } catch {
+      data = null;
+    }
+
+    if (!data || !this.isCompatibleConfig(data.config)) {
+      return;
+    }
+
+    for (const entry of data.fileIndex.values()) {
+      await this.fileIndex.restoreEntry(entry);
+      if (entry.isIndexed) {
+        await this.symbolIndex.addSymbols(entry.symbols, entry.fileInfo);
+      }
+    }
+  }
+
+  /**
+   * 將索引寫入持久化儲存（設定 persistChanges 且有變更時才寫入）
+   */
+  private async persistIndex(): Promise<void> {
+    if (!this.storage || !this.config.persistChanges || !this.dirty) {
+      return;
+    }
+
+    const fileIndex = new Map(this.fileIndex.getAllEntries());
+    const symbolIndex = new Map<string, SymbolIndexEntry[]>();
+    for (const entry of fileIndex.values()) {
+      for (const symbol of entry.symbols) {
+        const entries = symbolIndex.get(symbol.name) ?? [];
+        entries.push({ symbol, fileInfo: entry.fileInfo, dependencies: [] });
+        symbolIndex.set(symbol.name, entries);
+      }
+    }
+
+    try {
+      await this.storage.save({
+        version: INDEX_STORAGE_VERSION,
+        config: this.config,
+        stats: await this.getStats(),
+        fileIndex,
+        symbolIndex,
+        lastUpdated: new Date()
+      });
+      this.dirty = false;
+    } catch (error) {
+      // 持久化失敗不影響記憶體中的索引
+      console.warn(`索引持久化失敗: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * 檢查持久化索引的配置是否與目前配置相符（副檔名與排除模式不論順序）
+   */
+  private isCompatibleConfig(config: IndexConfig): boolean {
+    const sameSet = (a: readonly string[], b: readonly string[]): boolean => [...a].sort().join(',') === [...b].sort().join(',');
+    return (
+      path.resolve(config.workspacePath) === path.resolve(this.config.workspacePath) &&
+      sameSet(config.includeExtensions, this.config.includeExtensions) &&
+      sameSet(config.excludePatterns, this.config.excludePatterns) &&
+      config.maxFileSize === this.config.maxFileSize
+    );
+  }
+
+  /**
+   * 檢查檔案內容是否與索引不同
+   * 修改時間或大小變動時，以 checksum 確認內容是否真的改變
+   */
+  private async hasFileChanged(filePath: string): Promise<boolean> {
+    const entry = this.fileIndex.getFileEntry(filePath);
+    if (!entry || !entry.isIndexed) {
+      return true;
+    }
+
+    let stat: Stats;
+    try {
+      stat = await fs.stat(filePath);
+    } catch {
+      return true;
+    }
+
+    if (stat.mtime.getTime() === entry.fileInfo.lastModified.getTime() && stat.size === entry.fileInfo.size) {
+      return false;
+    }
+
+    const fileInfo = await this.createFileInfoFromStat(filePath, stat);
+    if (fileInfo.checksum !== entry.fileInfo.checksum) {
+      return true;
+    }
+
+    // 內容未變（如 touch、git checkout），只更新檔案資訊
+    await this.fileIndex.updateFileInfo(filePath, fileInfo);
+    this.dirty = true;
+    return false;
   }
 
   /**
@@ -223,8 +362,19 @@ export class IndexEngine {
       shouldIndexFile(file, this.config)
     );
 
+    // 已索引且未變更的檔案沿用既有索引，只處理新增或變更的檔案
+    const changedFiles: string[] = [];
+    for (const file of filesToIndex) {
+      if (await this.hasFileChanged(file)) {
+        changedFiles.push(file);
+      }
+    }
+    if (changedFiles.length > 0) {
+      this.dirty = true;
+    }
+
     // 批次索引檔案
-    await this.batchIndexFiles(filesToIndex, {
+    await this.batchIndexFiles(changedFiles, {
       concurrency: this.config.maxConcurrency,
       batchSize: 10,
       progressCallback: (progress) => {
@@ -252,6 +402,10 @@ export class IndexEngine {
       .map(fileInfo => fileInfo.filePath)
       .filter(filePath => !currentFilesSet.has(filePath));
 
+    if (staleFiles.length > 0) {
+      this.dirty = true;
+    }
+
     // 從索引中移除這些過期的檔案
     for (const stalePath of staleFiles) {
       // 先從符號索引中移除該檔案的符號
@@ -347,6 +501,8 @@ export class IndexEngine {
    * 移除檔案索引
    */
   async removeFile(filePath: string): Promise<void> {
+    this.dirty = true;
+
     // 從符號索引中移除
     await this.symbolIndex.removeFileSymbols(filePath);
 
@@ -485,6 +641,10 @@ export class IndexEngine {
       // 並行處理當前批次
       const promises = batch.map(async (file) => {
         try {
+          // 重新索引前先移除舊的符號，避免重複
+          if (this.fileIndex.hasFile(file)) {
+            await this.removeFile(file);
+          }
           await this.indexFile(file);
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : '未知錯誤';
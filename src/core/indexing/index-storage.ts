@@ -0,0 +1,274 @@
+/**
+ * 檔案型索引儲存實作
+ * 將索引資料序列化為 JSON 檔案，載入時驗證版本與內容 checksum
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+import type { Symbol, Scope, Dependency } from '../../shared/types/index.js';
+import type {
+  FileIndexEntry,
+  FileInfo,
+  IndexConfig,
+  IndexData,
+  IndexStats,
+  IndexStorage,
+  StorageStats,
+  SymbolIndexEntry
+} from './types.js';
+
+/**
+ * 索引檔案格式版本
+ * 序列化結構變更時需遞增，舊版本的索引檔會被忽略並重建
+ */
+export const INDEX_STORAGE_VERSION = '1';
+
+/**
+ * 預設索引檔案位置（相對於工作區）
+ */
+export const DEFAULT_INDEX_STORAGE_PATH = path.join('.agent-ide', 'index.json');
+
+interface SerializedFileInfo {
+  filePath: string;
+  lastModified: string;
+  size: number;
+  extension: string;
+  language: string | undefined;
+  checksum: string;
+}
+
+interface SerializedFileEntry {
+  fileInfo: SerializedFileInfo;
+  symbols: Symbol[];
+  dependencies: Dependency[];
+  isIndexed: boolean;
+  lastIndexed: string | null;
+  parseErrors: string[];
+}
+
+interface SerializedPayload {
+  config: IndexConfig;
+  stats: Omit<IndexStats, 'lastUpdated'> & { lastUpdated: string };
+  lastUpdated: string;
+  files: SerializedFileEntry[];
+}
+
+interface SerializedIndex {
+  version: string;
+  checksum: string;
+  payload: SerializedPayload;
+}
+
+/**
+ * 檔案型索引儲存
+ */
+export class FileIndexStorage implements IndexStorage {
+  constructor(private readonly storagePath: string) {}
+
+  /**
+   * 取得索引檔案路徑
+   */
+  getStoragePath(): string {
+    return this.storagePath;
+  }
+
+  /**
+   * 載入索引資料
+   * 檔案不存在、版本不符或 checksum 驗證失敗時回傳 null
+   */
+  async load(): Promise<IndexData | null> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.storagePath, 'utf-8');
+    } catch {
+      return null;
+    }
+
+    let serialized: SerializedIndex;
+    try {
+      serialized = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+
+    if (!serialized || serialized.version !== INDEX_STORAGE_VERSION || !serialized.payload) {
+      return null;
+    }
+
+    if (computeChecksum(JSON.stringify(serialized.payload)) !== serialized.checksum) {
+      return null;
+    }
+
+    return deserializePayload(serialized.payload);
+  }
+
+  /**
+   * 儲存索引資料（先寫入暫存檔再替換，避免中斷時留下損毀的索引）
+   */
+  async save(data: IndexData): Promise<void> {
+    const payload = serializePayload(data);
+    const payloadJson = JSON.stringify(payload);
+    const serialized: SerializedIndex = {
+      version: INDEX_STORAGE_VERSION,
+      checksum: computeChecksum(payloadJson),
+      payload
+    };
+
+    await fs.mkdir(path.dirname(this.storagePath), { recursive: true });
+    const tempPath = `${this.storagePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(serialized), 'utf-8');
+    await fs.rename(tempPath, this.storagePath);
+  }
+
+  /**
+   * 清除索引檔案
+   */
+  async clear(): Promise<void> {
+    await fs.rm(this.storagePath, { force: true });
+  }
+
+  /**
+   * 檢查索引檔案是否存在
+   */
+  async exists(): Promise<boolean> {
+    try {
+      await fs.access(this.storagePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 取得儲存統計資訊
+   */
+  async getStats(): Promise<StorageStats> {
+    try {
+      const stat = await fs.stat(this.storagePath);
+      return {
+        size: stat.size,
+        lastModified: stat.mtime,
+        compressionRatio: undefined
+      };
+    } catch {
+      return {
+        size: 0,
+        lastModified: new Date(0),
+        compressionRatio: undefined
+      };
+    }
+  }
+}
+
+/**
+ * 計算內容 checksum
+ */
+function computeChecksum(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * 序列化索引資料
+ * 符號只保留共用欄位，去除 Parser 專屬的 AST 節點引用
+ */
+function serializePayload(data: IndexData): SerializedPayload {
+  const files: SerializedFileEntry[] = [];
+
+  for (const entry of data.fileIndex.values()) {
+    files.push({
+      fileInfo: {
+        ...entry.fileInfo,
+        lastModified: entry.fileInfo.lastModified.toISOString()
+      },
+      symbols: entry.symbols.map(serializeSymbol),
+      dependencies: entry.dependencies.map(dependency => ({
+        path: dependency.path,
+        type: dependency.type,
+        isRelative: dependency.isRelative,
+        importedSymbols: [...dependency.importedSymbols]
+      })),
+      isIndexed: entry.isIndexed,
+      lastIndexed: entry.lastIndexed ? entry.lastIndexed.toISOString() : null,
+      parseErrors: [...entry.parseErrors]
+    });
+  }
+
+  return {
+    config: { ...data.config },
+    stats: { ...data.stats, lastUpdated: data.stats.lastUpdated.toISOString() },
+    lastUpdated: data.lastUpdated.toISOString(),
+    files
+  };
+}
+
+function serializeSymbol(symbol: Symbol): Symbol {
+  return {
+    name: symbol.name,
+    type: symbol.type,
+    location: {
+      filePath: symbol.location.filePath,
+      range: {
+        start: { ...symbol.location.range.start },
+        end: { ...symbol.location.range.end }
+      }
+    },
+    scope: serializeScope(symbol.scope),
+    modifiers: [...symbol.modifiers],
+    ...(symbol.attributes && { attributes: [...symbol.attributes] }),
+    ...(symbol.superclass && { superclass: symbol.superclass }),
+    ...(symbol.implements && { implements: [...symbol.implements] })
+  };
+}
+
+function serializeScope(scope: Scope | undefined): Scope | undefined {
+  if (!scope) {
+    return undefined;
+  }
+
+  return {
+    type: scope.type,
+    name: scope.name,
+    parent: serializeScope(scope.parent)
+  };
+}
+
+/**
+ * 反序列化索引資料，並由檔案項目重建符號索引
+ */
+function deserializePayload(payload: SerializedPayload): IndexData {
+  const fileIndex = new Map<string, FileIndexEntry>();
+  const symbolIndex = new Map<string, SymbolIndexEntry[]>();
+
+  for (const file of payload.files) {
+    const fileInfo: FileInfo = {
+      ...file.fileInfo,
+      lastModified: new Date(file.fileInfo.lastModified)
+    };
+
+    fileIndex.set(fileInfo.filePath, {
+      fileInfo,
+      symbols: file.symbols,
+      dependencies: file.dependencies,
+      isIndexed: file.isIndexed,
+      lastIndexed: file.lastIndexed ? new Date(file.lastIndexed) : undefined,
+      parseErrors: file.parseErrors
+    });
+
+    for (const symbol of file.symbols) {
+      const entries = symbolIndex.get(symbol.name) ?? [];
+      entries.push({ symbol, fileInfo, dependencies: [] });
+      symbolIndex.set(symbol.name, entries);
+    }
+  }
+
+  return {
+    version: INDEX_STORAGE_VERSION,
+    config: payload.config,
+    stats: { ...payload.stats, lastUpdated: new Date(payload.stats.lastUpdated) },
+    fileIndex,
+    symbolIndex,
+    lastUpdated: new Date(payload.lastUpdated)
+  };
+}
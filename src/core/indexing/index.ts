@@ -8,6 +8,7 @@ export { IndexEngine } from './index-engine.js';
 export { FileIndex } from './file-index.js';
 export { SymbolIndex } from './symbol-index.js';
 export { FileWatcher } from './file-watcher.js';
+export { FileIndexStorage, INDEX_STORAGE_VERSION, DEFAULT_INDEX_STORAGE_PATH } from './index-storage.js';
 
 // 型別定義
 export type {
@@ -59,6 +59,8 @@ export interface IndexConfig {
   readonly includeExtensions: readonly string[];
   readonly maxFileSize: number;
   readonly enablePersistence: boolean;
+  /** 索引變更後寫回索引檔；為 false 時只載入既有的索引檔 */
+  readonly persistChanges: boolean;
   readonly persistencePath: string | undefined;
   readonly maxConcurrency: number;
 }
@@ -263,7 +265,8 @@ export function createIndexConfig(
     excludePatterns: options?.excludePatterns || ['node_modules/**', '.git/**', 'dist/**'],
     includeExtensions: options?.includeExtensions || ['.ts', '.js', '.tsx', '.jsx'],
     maxFileSize: options?.maxFileSize || 1024 * 1024, // 1MB
-    enablePersistence: options?.enablePersistence || true,
+    enablePersistence: options?.enablePersistence ?? true,
+    persistChanges: options?.persistChanges ?? false,
     persistencePath: options?.persistencePath,
     maxConcurrency: options?.maxConcurrency || 4
   };
@@ -321,6 +324,7 @@ export function isIndexConfig(value: unknown): value is IndexConfig {
     typeof obj.maxFileSize === 'number' &&
     obj.maxFileSize > 0 &&
     typeof obj.enablePersistence === 'boolean' &&
+    typeof obj.persistChanges === 'boolean' &&
     (obj.persistencePath === undefined || typeof obj.persistencePath === 'string') &&
     typeof obj.maxConcurrency === 'number' &&
     obj.maxConcurrency > 0
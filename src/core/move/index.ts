@@ -6,6 +6,7 @@
 // 核心服務
 export { MoveService } from './move-service.js';
 export { ImportResolver } from './import-resolver.js';
+export { SymbolMoveService } from './symbol-move-service.js';
 
 // 型別定義
 export type {
@@ -15,6 +16,11 @@ export type {
   MoveResult,
   PathUpdate,
 
+  // 符號移動
+  SymbolMoveOperation,
+  SymbolMovePreview,
+  SymbolMoveResult,
+
   // 完整移動操作
   FullMoveOperation,
 
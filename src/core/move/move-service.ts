@@ -5,6 +5,8 @@
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { DependencyAnalyzer } from '../dependency/dependency-analyzer.js';
+import { DependencySimulator } from '../dependency/dependency-simulator.js';
 import { ImportResolver } from './import-resolver.js';
 import { MoveOperation, MoveOptions, MoveResult, PathUpdate, ImportResolverConfig } from './types.js';
 
@@ -29,7 +31,7 @@ export class MoveService {
    */
   async moveFile(operation: MoveOperation, options: MoveOptions = {}): Promise<MoveResult> {
     const { source, target, updateImports = true } = operation;
-    const { preview = false, projectRoot = process.cwd() } = options;
+    const { preview = false, projectRoot = process.cwd(), dependencyRoot = projectRoot } = options;
     let fileMoved = false;
 
     try {
@@ -61,6 +63,7 @@ export class MoveService {
           target,
           moved: false,
           pathUpdates,
+          warnings: await this.simulateDependencies(source, target, dependencyRoot),
           message: `預覽：將移動 ${source} → ${target}，影響 ${pathUpdates.length} 個 import`
         };
       }
@@ -159,6 +162,26 @@ export class MoveService {
     }
   }
 
+  /**
+   * 在依賴圖上模擬移動，回傳新的循環依賴與擴大影響範圍的警告
+   */
+  private async simulateDependencies(source: string, target: string, projectRoot: string): Promise<string[]> {
+    try {
+      const analyzer = new DependencyAnalyzer();
+      await analyzer.analyzeProject(projectRoot);
+      const simulator = new DependencySimulator(analyzer);
+      const result = simulator.simulate(analyzer.getGraph(), {
+        type: 'move',
+        source: path.resolve(source),
+        target: path.resolve(target)
+      });
+      return simulator.describe(result, projectRoot);
+    } catch {
+      // 被移動的檔案不在依賴圖中（如非程式碼檔案）時沒有可模擬的依賴
+      return [];
+    }
+  }
+
   /**
    * 執行實際的檔案移動
    */
@@ -0,0 +1,1306 @@
+/**
+ * 符號移動服務
+ * 將頂層函式、類別或常數移到另一個檔案，一併搬移只被它使用的私有 helper，並重寫所有引用者的 import
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { DependencyAnalyzer } from '../dependency/dependency-analyzer.js';
+import { ImportResolver } from './import-resolver.js';
+import {
+  MoveOperationType,
+  createFullMoveOperation,
+  type ImportResolverConfig,
+  type ImportUpdatePreview,
+  type MoveOptions,
+  type PathConflict,
+  type SymbolMoveOperation,
+  type SymbolMovePreview,
+  type SymbolMoveResult
+} from './types.js';
+
+/**
+ * 支援移動符號的副檔名
+ */
+const SUPPORTED_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * 頂層宣告
+ */
+interface TopLevelDeclaration {
+  readonly statement: ts.Statement;
+  readonly names: readonly string[];
+  readonly exported: boolean;
+  readonly isDefault: boolean;
+}
+
+/**
+ * import 綁定
+ */
+interface ImportBinding {
+  readonly declaration: ts.ImportDeclaration;
+  readonly localName: string;
+  /** 被匯入的名稱，預設匯入為 default，命名空間匯入為 * */
+  readonly importedName: string;
+  /** 原始 specifier 文字（如 `a as b`、`type A`） */
+  readonly text: string;
+}
+
+/**
+ * 陳述式引用的頂層宣告（宣告 → 使用的名稱）與 import（本地名稱 → 綁定）
+ */
+interface StatementReferences {
+  readonly declarations: Map<ts.Statement, Set<string>>;
+  readonly imports: Map<string, ImportBinding>;
+}
+
+/**
+ * import 子句的組成
+ */
+interface ImportParts {
+  defaultName?: string;
+  namespaceName?: string;
+  named: string[];
+  typeOnly: boolean;
+}
+
+/**
+ * 文字編輯（以字元位移表示）
+ */
+interface TextEdit {
+  readonly start: number;
+  readonly end: number;
+  readonly newText: string;
+}
+
+/**
+ * 檔案的 import 寫法（引號、分號、副檔名）
+ */
+interface ImportStyle {
+  readonly quote: string;
+  readonly semicolon: boolean;
+  readonly sampleSpecifier?: string;
+}
+
+/**
+ * 移動計畫
+ */
+interface SymbolMovePlan {
+  readonly movedDeclarations: string[];
+  /** 檔案 → 變更後內容 */
+  readonly contents: Map<string, string>;
+  /** 檔案 → 變更前內容（null 表示檔案原本不存在） */
+  readonly originals: Map<string, string | null>;
+  readonly importUpdates: ImportUpdatePreview[];
+  readonly conflicts: PathConflict[];
+  readonly warnings: string[];
+  readonly potentialBreaking: boolean;
+}
+
+export class SymbolMoveService {
+  private readonly importResolver: ImportResolver;
+  private readonly dependencyAnalyzer: DependencyAnalyzer;
+
+  constructor(config?: ImportResolverConfig, dependencyAnalyzer?: DependencyAnalyzer) {
+    this.importResolver = new ImportResolver({
+      pathAliases: {},
+      ...config,
+      supportedExtensions: [...new Set([...(config?.supportedExtensions ?? []), ...SUPPORTED_EXTENSIONS])]
+    });
+    this.dependencyAnalyzer = dependencyAnalyzer ?? new DependencyAnalyzer();
+  }
+
+  /**
+   * 預覽符號移動
+   */
+  async preview(operation: SymbolMoveOperation, options: MoveOptions = {}): Promise<SymbolMovePreview> {
+    const plan = await this.createPlan(operation, options.projectRoot ?? process.cwd());
+    const affectedFiles = [...plan.contents.keys()];
+
+    return {
+      operation: createFullMoveOperation(MoveOperationType.SYMBOL, path.resolve(operation.source), path.resolve(operation.target)),
+      impact: {
+        filesAffected: affectedFiles.length,
+        importsToUpdate: plan.importUpdates.length,
+        potentialBreaking: plan.potentialBreaking,
+        estimatedTime: affectedFiles.length * 10 // 預估每個檔案 10ms
+      },
+      conflicts: plan.conflicts,
+      affectedFiles,
+      importUpdates: plan.importUpdates,
+      movedDeclarations: plan.movedDeclarations,
+      warnings: plan.warnings
+    };
+  }
+
+  /**
+   * 移動符號
+   * 任一檔案寫入失敗時還原所有已寫入的檔案
+   */
+  async moveSymbol(operation: SymbolMoveOperation, options: MoveOptions = {}): Promise<SymbolMoveResult> {
+    const { symbol, source, target } = operation;
+
+    try {
+      const plan = await this.createPlan(operation, options.projectRoot ?? process.cwd());
+      if (plan.conflicts.length > 0) {
+        throw new Error(plan.conflicts.map(conflict => conflict.description).join('; '));
+      }
+
+      if (!options.preview) {
+        await this.writeContents(plan.contents, plan.originals);
+      }
+
+      return {
+        success: true,
+        symbol,
+        source,
+        target,
+        moved: !options.preview,
+        movedDeclarations: plan.movedDeclarations,
+        importUpdates: plan.importUpdates,
+        changedFiles: [...plan.contents.keys()],
+        warnings: plan.warnings,
+        message: options.preview
+          ? `預覽：將移動 ${symbol}（${source} → ${target}），影響 ${plan.contents.size} 個檔案`
+          : `成功移動 ${symbol}（${source} → ${target}），更新了 ${plan.importUpdates.length} 個 import`
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        success: false,
+        symbol,
+        source,
+        target,
+        moved: false,
+        movedDeclarations: [],
+        importUpdates: [],
+        changedFiles: [],
+        warnings: [],
+        error: message,
+        message: `移動失敗: ${message}`
+      };
+    }
+  }
+
+  /**
+   * 計算移動後所有檔案的內容
+   */
+  private async createPlan(operation: SymbolMoveOperation, projectRoot: string): Promise<SymbolMovePlan> {
+    const { symbol } = operation;
+    const source = path.resolve(operation.source);
+    const target = path.resolve(operation.target);
+    this.validateOperation(source, target);
+
+    const sourceText = await this.readOptional(source);
+    if (sourceText === null) {
+      throw new Error(`來源檔案不存在: ${operation.source}`);
+    }
+    const targetText = await this.readOptional(target);
+
+    const { sourceFile, checker } = this.createChecker(source, sourceText);
+    const declarations = this.collectTopLevelDeclarations(sourceFile);
+    const declarationMap = new Map(declarations.map(declaration => [declaration.statement, declaration]));
+
+    const symbolDeclarations = declarations.filter(declaration => declaration.names.includes(symbol));
+    if (symbolDeclarations.length === 0) {
+      throw new Error(`在 ${path.basename(source)} 中找不到頂層宣告 '${symbol}'`);
+    }
+    if (symbolDeclarations.some(declaration => declaration.isDefault)) {
+      throw new Error(`不支援移動 default export '${symbol}'`);
+    }
+    if (symbolDeclarations.some(declaration => declaration.names.length > 1)) {
+      throw new Error(`'${symbol}' 與其他變數宣告在同一個陳述式中，請先拆開宣告`);
+    }
+
+    const references = new Map<ts.Statement, StatementReferences>();
+    for (const statement of sourceFile.statements) {
+      references.set(statement, this.collectReferences(statement, sourceFile, checker, declarationMap));
+    }
+
+    const symbolStatements = new Set(symbolDeclarations.map(declaration => declaration.statement));
+    const moved = this.resolveMovedStatements(sourceFile, symbolStatements, references, declarationMap);
+    const movedStatements = sourceFile.statements.filter(statement => moved.has(statement));
+    const remainingStatements = sourceFile.statements.filter(statement => !moved.has(statement));
+    const movedDeclarations = [
+      symbol,
+      ...movedStatements
+        .filter(statement => !symbolStatements.has(statement))
+        .flatMap(statement => declarationMap.get(statement)!.names)
+    ];
+
+    const warnings: string[] = [];
+    const conflicts: PathConflict[] = [];
+    const importUpdates: ImportUpdatePreview[] = [];
+    const contents = new Map<string, string>();
+    const originals = new Map<string, string | null>();
+    let potentialBreaking = false;
+
+    const sourceStyle = this.detectImportStyle(sourceFile);
+    const relativeSource = path.relative(projectRoot, source);
+    const relativeTarget = path.relative(projectRoot, target);
+
+    // 1. 移動的程式碼需要的 import 與留在原檔案的宣告
+    const movedImports = new Map<string, ImportBinding>();
+    const sharedDeclarations = new Map<ts.Statement, Set<string>>();
+    for (const statement of movedStatements) {
+      const statementReferences = references.get(statement)!;
+      statementReferences.imports.forEach((binding, localName) => movedImports.set(localName, binding));
+      statementReferences.declarations.forEach((names, declaration) => {
+        if (!moved.has(declaration)) {
+          const shared = sharedDeclarations.get(declaration) ?? new Set<string>();
+          names.forEach(name => shared.add(name));
+          sharedDeclarations.set(declaration, shared);
+        }
+      });
+    }
+
+    const remainingImportNames = new Set<string>();
+    let remainingUsesSymbol = false;
+    for (const statement of remainingStatements) {
+      const statementReferences = references.get(statement)!;
+      statementReferences.imports.forEach((_, localName) => remainingImportNames.add(localName));
+      if (!this.isLocalExportList(statement) && [...statementReferences.declarations.keys()].some(d => symbolStatements.has(d))) {
+        remainingUsesSymbol = true;
+      }
+    }
+
+    // 2. 來源檔案：移除宣告、清理 import、補上 export 與對目標檔案的 import
+    const sourceEdits: TextEdit[] = [];
+    const removedStatements = new Set<ts.Statement>(movedStatements);
+
+    for (const statement of remainingStatements) {
+      if (this.isLocalExportList(statement)) {
+        const exportDeclaration = statement as ts.ExportDeclaration;
+        const elements = (exportDeclaration.exportClause as ts.NamedExports).elements;
+        const kept = elements.filter(element => (element.propertyName ?? element.name).text !== symbol);
+        if (kept.length !== elements.length) {
+          if (kept.length === 0) {
+            removedStatements.add(statement);
+          } else {
+            sourceEdits.push({
+              start: statement.getStart(sourceFile),
+              end: statement.end,
+              newText: `export ${exportDeclaration.isTypeOnly ? 'type ' : ''}{ ${kept.map(e => e.getText(sourceFile)).join(', ')} }${sourceStyle.semicolon ? ';' : ''}`
+            });
+          }
+        }
+      }
+    }
+
+    for (const [declaration, names] of sharedDeclarations) {
+      if (!declarationMap.get(declaration)!.exported) {
+        sourceEdits.push({ start: this.exportInsertPosition(sourceFile, declaration), end: this.exportInsertPosition(sourceFile, declaration), newText: 'export ' });
+        warnings.push(`${[...names].join(', ')} 仍被 ${path.basename(source)} 使用，已加上 export 供 ${path.basename(target)} 匯入`);
+      }
+    }
+
+    const unusedImports = new Set([...movedImports.keys()].filter(name => !remainingImportNames.has(name)));
+    for (const statement of remainingStatements) {
+      if (!ts.isImportDeclaration(statement)) {
+        continue;
+      }
+      const parts = this.getImportParts(statement, sourceFile);
+      if (!parts) {
+        continue;
+      }
+      const remaining = this.removeImportNames(statement, sourceFile, parts, unusedImports);
+      if (remaining === parts) {
+        continue;
+      }
+      if (this.isEmptyImport(remaining)) {
+        removedStatements.add(statement);
+      } else {
+        sourceEdits.push({
+          start: statement.getStart(sourceFile),
+          end: statement.end,
+          newText: this.formatImport(remaining, statement.moduleSpecifier.getText(sourceFile), sourceStyle.semicolon)
+        });
+      }
+    }
+
+    for (const range of this.mergeRanges(sourceText, [...removedStatements].map(statement => this.removalRange(sourceFile, statement)))) {
+      sourceEdits.push({ start: range.start, end: range.end, newText: '' });
+    }
+
+    if (remainingUsesSymbol) {
+      const specifier = this.toSpecifier(source, target, sourceStyle.sampleSpecifier);
+      const importText = this.formatImport({ named: [symbol], typeOnly: false }, this.quote(specifier, sourceStyle), sourceStyle.semicolon);
+      sourceEdits.push(this.importInsertion(sourceFile, importText, removedStatements));
+      importUpdates.push({ filePath: source, line: this.importInsertionLine(sourceFile, removedStatements), oldImport: '', newImport: importText });
+      if (sharedDeclarations.size > 0) {
+        warnings.push(`${relativeSource} 與 ${relativeTarget} 將互相 import（循環依賴）`);
+        potentialBreaking = true;
+      }
+    }
+
+    originals.set(source, sourceText);
+    contents.set(source, this.applyEdits(sourceText, sourceEdits));
+
+    // 3. 目標檔案：加入 import 與移動的宣告
+    const requirements = new Map<string, { specifier: string; parts: ImportParts; localNames: Set<string> }>();
+    const addRequirement = (specifier: string, typeOnly: boolean, binding: { localName: string; importedName: string; text: string }): void => {
+      const key = `${typeOnly ? 'type:' : ''}${specifier}`;
+      const requirement = requirements.get(key) ?? { specifier, parts: { named: [], typeOnly }, localNames: new Set<string>() };
+      if (binding.importedName === 'default') {
+        requirement.parts.defaultName = binding.localName;
+      } else if (binding.importedName === '*') {
+        requirement.parts.namespaceName = binding.localName;
+      } else if (!requirement.localNames.has(binding.localName)) {
+        requirement.parts.named.push(binding.text);
+      }
+      requirement.localNames.add(binding.localName);
+      requirements.set(key, requirement);
+    };
+
+    for (const binding of movedImports.values()) {
+      const specifier = (binding.declaration.moduleSpecifier as ts.StringLiteral).text;
+      const rebased = this.rebaseSpecifier(specifier, source, target);
+      if (this.moduleKey(rebased, target) === this.removeExtension(target)) {
+        continue;
+      }
+      addRequirement(rebased, binding.declaration.importClause?.isTypeOnly ?? false, binding);
+    }
+
+    const targetStyleSample = targetText !== null
+      ? this.detectImportStyle(ts.createSourceFile(target, targetText, ts.ScriptTarget.Latest, true, this.getScriptKind(target)))
+      : sourceStyle;
+    for (const names of sharedDeclarations.values()) {
+      const specifier = this.toSpecifier(target, source, targetStyleSample.sampleSpecifier ?? sourceStyle.sampleSpecifier);
+      names.forEach(name => addRequirement(specifier, false, { localName: name, importedName: name, text: name }));
+    }
+
+    const movedTexts = movedStatements.map(statement => this.extractStatementText(sourceFile, statement, symbolStatements.has(statement)));
+    const targetResult = this.buildTargetContent(
+      target, targetText, [...requirements.values()], movedTexts, new Set(movedDeclarations), symbol, source, sourceStyle
+    );
+    conflicts.push(...targetResult.conflicts);
+    warnings.push(...targetResult.warnings);
+    importUpdates.push(...targetResult.importUpdates);
+    originals.set(target, targetText);
+    contents.set(target, targetResult.content);
+
+    // 4. 引用者：將對符號的 import 改指向目標檔案
+    await this.dependencyAnalyzer.analyzeProject(projectRoot);
+    const dependents = this.dependencyAnalyzer.getDependents(source)
+      .map(file => path.resolve(file))
+      .filter(file => file !== source && file !== target);
+
+    for (const dependent of dependents) {
+      const dependentText = await this.readOptional(dependent);
+      if (dependentText === null) {
+        continue;
+      }
+
+      const result = this.rewriteImporter(dependent, dependentText, symbol, source, target, symbolDeclarations, projectRoot);
+      warnings.push(...result.warnings);
+      potentialBreaking = potentialBreaking || result.potentialBreaking;
+      if (result.edits.length > 0) {
+        importUpdates.push(...result.importUpdates);
+        originals.set(dependent, dependentText);
+        contents.set(dependent, this.applyEdits(dependentText, result.edits));
+      }
+    }
+
+    return { movedDeclarations, contents, originals, importUpdates, conflicts, warnings, potentialBreaking };
+  }
+
+  /**
+   * 驗證來源與目標路徑
+   */
+  private validateOperation(source: string, target: string): void {
+    for (const filePath of [source, target]) {
+      if (!SUPPORTED_EXTENSIONS.includes(path.extname(filePath))) {
+        throw new Error(`只支援 TypeScript / JavaScript 檔案: ${filePath}`);
+      }
+    }
+    if (source === target) {
+      throw new Error('來源與目標檔案相同');
+    }
+  }
+
+  /**
+   * 決定要移動的陳述式：符號本身加上只被移動程式碼使用的私有 helper
+   */
+  private resolveMovedStatements(
+    sourceFile: ts.SourceFile,
+    symbolStatements: ReadonlySet<ts.Statement>,
+    references: ReadonlyMap<ts.Statement, StatementReferences>,
+    declarationMap: ReadonlyMap<ts.Statement, TopLevelDeclaration>
+  ): Set<ts.Statement> {
+    const moved = new Set<ts.Statement>(symbolStatements);
+    const queue = [...symbolStatements];
+
+    while (queue.length > 0) {
+      const statement = queue.pop()!;
+      for (const dependency of references.get(statement)!.declarations.keys()) {
+        if (!moved.has(dependency) && !declarationMap.get(dependency)!.exported) {
+          moved.add(dependency);
+          queue.push(dependency);
+        }
+      }
+    }
+
+    // 仍被留在原檔案的程式碼使用的 helper 不移動
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const statement of moved) {
+        if (symbolStatements.has(statement)) {
+          continue;
+        }
+        const usedOutside = sourceFile.statements.some(other =>
+          !moved.has(other) && references.get(other)!.declarations.has(statement)
+        );
+        if (usedOutside) {
+          moved.delete(statement);
+          changed = true;
+        }
+      }
+    }
+
+    return moved;
+  }
+
+  /**
+   * 建立目標檔案內容
+   */
+  private buildTargetContent(
+    target: string,
+    targetText: string | null,
+    requirements: ReadonlyArray<{ specifier: string; parts: ImportParts; localNames: Set<string> }>,
+    movedTexts: readonly string[],
+    movedNames: ReadonlySet<string>,
+    symbol: string,
+    source: string,
+    sourceStyle: ImportStyle
+  ): { content: string; conflicts: PathConflict[]; warnings: string[]; importUpdates: ImportUpdatePreview[] } {
+    const conflicts: PathConflict[] = [];
+    const warnings: string[] = [];
+    const importUpdates: ImportUpdatePreview[] = [];
+    const body = movedTexts.join('\n\n');
+
+    if (targetText === null) {
+      const importLines = requirements.map(requirement =>
+        this.formatImport(requirement.parts, this.quote(requirement.specifier, sourceStyle), sourceStyle.semicolon)
+      );
+      importLines.forEach((line, index) => importUpdates.push({ filePath: target, line: index + 1, oldImport: '', newImport: line }));
+      return {
+        content: `${importLines.length > 0 ? `${importLines.join('\n')}\n\n` : ''}${body}\n`,
+        conflicts,
+        warnings,
+        importUpdates
+      };
+    }
+
+    const targetFile = ts.createSourceFile(target, targetText, ts.ScriptTarget.Latest, true, this.getScriptKind(target));
+    const style = this.detectImportStyle(targetFile, sourceStyle.quote);
+    const sourceKeys = this.moduleKeysOf(source);
+    const edits: TextEdit[] = [];
+
+    for (const declaration of this.collectTopLevelDeclarations(targetFile)) {
+      for (const name of declaration.names.filter(n => movedNames.has(n))) {
+        conflicts.push({ type: 'symbol_exists', path: target, description: `${path.basename(target)} 已宣告 '${name}'` });
+      }
+    }
+
+    // 目標檔案原本的 import：本地名稱 → 模組
+    const boundNames = new Map<string, string>();
+    const importDeclarations = targetFile.statements.filter(ts.isImportDeclaration);
+    const originalParts = new Map<ts.ImportDeclaration, ImportParts>();
+    const pendingParts = new Map<ts.ImportDeclaration, ImportParts>();
+
+    for (const declaration of importDeclarations) {
+      const parts = this.getImportParts(declaration, targetFile);
+      if (!parts) {
+        continue;
+      }
+      const specifier = (declaration.moduleSpecifier as ts.StringLiteral).text;
+      const key = this.moduleKey(specifier, target);
+      let updated = parts;
+
+      // 目標檔案原本從來源檔案匯入的符號改為使用本地宣告
+      if (sourceKeys.includes(key)) {
+        const bindings = declaration.importClause?.namedBindings;
+        if (bindings && ts.isNamedImports(bindings)) {
+          const removed = bindings.elements.filter(element => movedNames.has((element.propertyName ?? element.name).text));
+          removed
+            .filter(element => element.propertyName && element.name.text !== element.propertyName.text)
+            .forEach(element => warnings.push(`${path.basename(target)} 以別名 ${element.name.text} 匯入 ${symbol}，需要手動改為 ${symbol}`));
+          updated = this.removeImportNames(declaration, targetFile, parts, new Set(removed.map(element => element.name.text)));
+        } else if (bindings && ts.isNamespaceImport(bindings)) {
+          warnings.push(`${path.basename(target)} 透過命名空間 ${bindings.name.text} 使用來源檔案，需要手動確認 ${symbol} 的引用`);
+        }
+      }
+
+      for (const localName of this.boundLocalNames(updated)) {
+        boundNames.set(localName, key);
+      }
+      originalParts.set(declaration, parts);
+      pendingParts.set(declaration, updated);
+    }
+
+    // 合併需要的 import
+    const newImports: string[] = [];
+    for (const requirement of requirements) {
+      const key = this.moduleKey(requirement.specifier, target);
+      const missing = [...requirement.localNames].filter(localName => {
+        const boundTo = boundNames.get(localName);
+        if (boundTo === undefined) {
+          return true;
+        }
+        if (boundTo !== key) {
+          conflicts.push({ type: 'symbol_exists', path: target, description: `${path.basename(target)} 已從其他模組匯入 '${localName}'` });
+        }
+        return false;
+      });
+      if (missing.length === 0) {
+        continue;
+      }
+
+      const parts = this.filterImportParts(requirement.parts, new Set(missing));
+      const existing = parts.defaultName || parts.namespaceName ? undefined : importDeclarations.find(declaration => {
+        const pending = pendingParts.get(declaration);
+        return pending !== undefined &&
+          !pending.namespaceName &&
+          pending.typeOnly === parts.typeOnly &&
+          this.moduleKey((declaration.moduleSpecifier as ts.StringLiteral).text, target) === key;
+      });
+
+      if (existing) {
+        const pending = pendingParts.get(existing)!;
+        pendingParts.set(existing, { ...pending, named: [...pending.named, ...parts.named] });
+      } else {
+        newImports.push(this.formatImport(parts, this.quote(requirement.specifier, style), style.semicolon));
+      }
+      missing.forEach(localName => boundNames.set(localName, key));
+    }
+
+    for (const declaration of importDeclarations) {
+      const updated = pendingParts.get(declaration);
+      if (!updated || updated === originalParts.get(declaration)) {
+        continue;
+      }
+      const oldImport = declaration.getText(targetFile);
+      const newImport = this.isEmptyImport(updated)
+        ? ''
+        : this.formatImport(updated, declaration.moduleSpecifier.getText(targetFile), style.semicolon);
+      edits.push(newImport
+        ? { start: declaration.getStart(targetFile), end: declaration.end, newText: newImport }
+        : { ...this.removalRange(targetFile, declaration), newText: '' });
+      importUpdates.push({ filePath: target, line: this.lineOf(targetFile, declaration), oldImport, newImport });
+    }
+
+    if (newImports.length > 0) {
+      edits.push(this.importInsertion(targetFile, newImports.join('\n')));
+      newImports.forEach(newImport => importUpdates.push({ filePath: target, line: this.importInsertionLine(targetFile), oldImport: '', newImport }));
+    }
+
+    const content = this.applyEdits(targetText, edits).trimEnd();
+    return {
+      content: `${content.length > 0 ? `${content}\n\n` : ''}${body}\n`,
+      conflicts,
+      warnings,
+      importUpdates
+    };
+  }
+
+  /**
+   * 重寫引用者對符號的 import 與 re-export
+   */
+  private rewriteImporter(
+    filePath: string,
+    text: string,
+    symbol: string,
+    source: string,
+    target: string,
+    symbolDeclarations: readonly TopLevelDeclaration[],
+    projectRoot: string
+  ): { edits: TextEdit[]; importUpdates: ImportUpdatePreview[]; warnings: string[]; potentialBreaking: boolean } {
+    const sourceFile = ts.createSourceFile(filePath, text, ts.ScriptTarget.Latest, true, this.getScriptKind(filePath));
+    const style = this.detectImportStyle(sourceFile);
+    const sourceKeys = this.moduleKeysOf(source);
+    const targetKey = this.removeExtension(target);
+    const relativePath = path.relative(projectRoot, filePath);
+    const isTypeSymbol = symbolDeclarations.every(declaration =>
+      ts.isInterfaceDeclaration(declaration.statement) || ts.isTypeAliasDeclaration(declaration.statement)
+    );
+
+    const edits: TextEdit[] = [];
+    const importUpdates: ImportUpdatePreview[] = [];
+    const warnings: string[] = [];
+    let potentialBreaking = false;
+
+    const specifierOf = (statement: ts.ImportDeclaration | ts.ExportDeclaration): string | undefined =>
+      statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier) ? statement.moduleSpecifier.text : undefined;
+    const reexportsTarget = sourceFile.statements.some(statement =>
+      ts.isExportDeclaration(statement) && !statement.exportClause && specifierOf(statement) !== undefined &&
+      this.moduleKey(specifierOf(statement)!, filePath) === targetKey
+    );
+    const targetImport = sourceFile.statements.find((statement): statement is ts.ImportDeclaration => {
+      if (!ts.isImportDeclaration(statement) || specifierOf(statement) === undefined) {
+        return false;
+      }
+      const bindings = statement.importClause?.namedBindings;
+      return this.moduleKey(specifierOf(statement)!, filePath) === targetKey && bindings !== undefined && ts.isNamedImports(bindings);
+    });
+    const addedToTargetImport: string[] = [];
+
+    for (const statement of sourceFile.statements) {
+      if (!ts.isImportDeclaration(statement) && !ts.isExportDeclaration(statement)) {
+        continue;
+      }
+      const specifier = specifierOf(statement);
+      if (specifier === undefined || !sourceKeys.includes(this.moduleKey(specifier, filePath))) {
+        continue;
+      }
+
+      const newSpecifier = this.toSpecifier(filePath, target, specifier);
+      const newModuleText = this.quote(newSpecifier, style);
+      const line = this.lineOf(sourceFile, statement);
+      const oldText = statement.getText(sourceFile);
+
+      if (ts.isImportDeclaration(statement)) {
+        const bindings = statement.importClause?.namedBindings;
+        if (bindings && ts.isNamespaceImport(bindings)) {
+          if (new RegExp(`\\b${this.escapeRegex(bindings.name.text)}\\.${this.escapeRegex(symbol)}\\b`).test(text)) {
+            warnings.push(`${relativePath}: 透過命名空間 ${bindings.name.text} 使用 ${symbol}，需要手動更新`);
+            potentialBreaking = true;
+          }
+          continue;
+        }
+        if (!bindings || !ts.isNamedImports(bindings)) {
+          continue;
+        }
+
+        const moving = bindings.elements.filter(element => (element.propertyName ?? element.name).text === symbol);
+        if (moving.length === 0) {
+          continue;
+        }
+        const parts = this.getImportParts(statement, sourceFile)!;
+        const remaining = this.removeImportNames(statement, sourceFile, parts, new Set(moving.map(element => element.name.text)));
+        const movingTexts = moving.map(element => element.getText(sourceFile));
+
+        if (targetImport && targetImport !== statement && targetImport.importClause?.isTypeOnly === parts.typeOnly) {
+          // 併入既有的目標檔案 import
+          addedToTargetImport.push(...movingTexts);
+          const newText = this.isEmptyImport(remaining) ? '' : this.formatImport(remaining, statement.moduleSpecifier.getText(sourceFile), style.semicolon);
+          edits.push(newText
+            ? { start: statement.getStart(sourceFile), end: statement.end, newText }
+            : { ...this.removalRange(sourceFile, statement), newText: '' });
+          importUpdates.push({ filePath, line, oldImport: oldText, newImport: newText });
+        } else if (this.isEmptyImport(remaining)) {
+          // 只匯入此符號：直接改路徑，保留原本的排版
+          const start = statement.moduleSpecifier.getStart(sourceFile);
+          edits.push({ start, end: statement.moduleSpecifier.end, newText: newModuleText });
+          importUpdates.push({
+            filePath,
+            line,
+            oldImport: oldText,
+            newImport: oldText.slice(0, start - statement.getStart(sourceFile)) + newModuleText + oldText.slice(statement.moduleSpecifier.end - statement.getStart(sourceFile))
+          });
+        } else {
+          const newText = [
+            this.formatImport(remaining, statement.moduleSpecifier.getText(sourceFile), style.semicolon),
+            this.formatImport({ named: movingTexts, typeOnly: parts.typeOnly }, newModuleText, style.semicolon)
+          ].join('\n');
+          edits.push({ start: statement.getStart(sourceFile), end: statement.end, newText });
+          importUpdates.push({ filePath, line, oldImport: oldText, newImport: newText });
+        }
+        continue;
+      }
+
+      // export ... from 來源檔案
+      if (!statement.exportClause) {
+        if (!reexportsTarget) {
+          const exportText = `export ${isTypeSymbol ? 'type ' : ''}{ ${symbol} } from ${newModuleText}${style.semicolon ? ';' : ''}`;
+          edits.push({ start: statement.end, end: statement.end, newText: `\n${exportText}` });
+          importUpdates.push({ filePath, line: line + 1, oldImport: '', newImport: exportText });
+        }
+        continue;
+      }
+      if (ts.isNamespaceExport(statement.exportClause)) {
+        warnings.push(`${relativePath}: 以 export * as ${statement.exportClause.name.text} 重新匯出來源檔案，${symbol} 需要手動更新`);
+        potentialBreaking = true;
+        continue;
+      }
+
+      const elements = statement.exportClause.elements;
+      const moving = elements.filter(element => (element.propertyName ?? element.name).text === symbol);
+      if (moving.length === 0) {
+        continue;
+      }
+      const kept = elements.filter(element => !moving.includes(element));
+      const typePrefix = statement.isTypeOnly ? 'type ' : '';
+      const semicolon = style.semicolon ? ';' : '';
+      const newText = [
+        ...(kept.length > 0 ? [`export ${typePrefix}{ ${kept.map(e => e.getText(sourceFile)).join(', ')} } from ${statement.moduleSpecifier!.getText(sourceFile)}${semicolon}`] : []),
+        `export ${typePrefix}{ ${moving.map(e => e.getText(sourceFile)).join(', ')} } from ${newModuleText}${semicolon}`
+      ].join('\n');
+      edits.push({ start: statement.getStart(sourceFile), end: statement.end, newText });
+      importUpdates.push({ filePath, line, oldImport: oldText, newImport: newText });
+    }
+
+    if (targetImport && addedToTargetImport.length > 0) {
+      const parts = this.getImportParts(targetImport, sourceFile)!;
+      const newText = this.formatImport(
+        { ...parts, named: [...parts.named, ...addedToTargetImport] },
+        targetImport.moduleSpecifier.getText(sourceFile),
+        style.semicolon
+      );
+      edits.push({ start: targetImport.getStart(sourceFile), end: targetImport.end, newText });
+      importUpdates.push({ filePath, line: this.lineOf(sourceFile, targetImport), oldImport: targetImport.getText(sourceFile), newImport: newText });
+    }
+
+    return { edits, importUpdates, warnings, potentialBreaking };
+  }
+
+  /**
+   * 收集頂層宣告
+   */
+  private collectTopLevelDeclarations(sourceFile: ts.SourceFile): TopLevelDeclaration[] {
+    const locallyExported = new Set<string>();
+    for (const statement of sourceFile.statements) {
+      if (this.isLocalExportList(statement)) {
+        ((statement as ts.ExportDeclaration).exportClause as ts.NamedExports).elements
+          .forEach(element => locallyExported.add((element.propertyName ?? element.name).text));
+      }
+    }
+
+    const declarations: TopLevelDeclaration[] = [];
+    for (const statement of sourceFile.statements) {
+      const names = this.getDeclaredNames(statement);
+      if (names.length === 0) {
+        continue;
+      }
+      const modifiers = ts.canHaveModifiers(statement) ? ts.getModifiers(statement) ?? [] : [];
+      const hasExportModifier = modifiers.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+      declarations.push({
+        statement,
+        names,
+        exported: hasExportModifier || names.some(name => locallyExported.has(name)),
+        isDefault: modifiers.some(modifier => modifier.kind === ts.SyntaxKind.DefaultKeyword)
+      });
+    }
+
+    for (const statement of sourceFile.statements) {
+      if (ts.isExportAssignment(statement) && ts.isIdentifier(statement.expression)) {
+        const name = statement.expression.text;
+        const index = declarations.findIndex(declaration => declaration.names.includes(name));
+        if (index >= 0) {
+          declarations[index] = { ...declarations[index], exported: true, isDefault: true };
+        }
+      }
+    }
+
+    return declarations;
+  }
+
+  /**
+   * 取得陳述式宣告的名稱
+   */
+  private getDeclaredNames(statement: ts.Statement): string[] {
+    if (
+      (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement) || ts.isInterfaceDeclaration(statement) ||
+        ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement)) &&
+      statement.name
+    ) {
+      return [statement.name.text];
+    }
+
+    if (ts.isVariableStatement(statement)) {
+      const names: string[] = [];
+      const collect = (name: ts.BindingName): void => {
+        if (ts.isIdentifier(name)) {
+          names.push(name.text);
+        } else {
+          name.elements.forEach(element => {
+            if (!ts.isOmittedExpression(element)) {
+              collect(element.name);
+            }
+          });
+        }
+      };
+      statement.declarationList.declarations.forEach(declaration => collect(declaration.name));
+      return names;
+    }
+
+    return [];
+  }
+
+  /**
+   * 收集陳述式引用的頂層宣告與 import
+   */
+  private collectReferences(
+    statement: ts.Statement,
+    sourceFile: ts.SourceFile,
+    checker: ts.TypeChecker,
+    declarationMap: ReadonlyMap<ts.Statement, TopLevelDeclaration>
+  ): StatementReferences {
+    const references: StatementReferences = { declarations: new Map(), imports: new Map() };
+    if (ts.isImportDeclaration(statement) || (ts.isExportDeclaration(statement) && statement.moduleSpecifier)) {
+      return references;
+    }
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isIdentifier(node)) {
+        for (const declaration of this.resolveSymbol(node, checker)?.declarations ?? []) {
+          const topLevel = this.findTopLevelStatement(declaration, sourceFile);
+          if (!topLevel || topLevel === statement) {
+            continue;
+          }
+          if (ts.isImportDeclaration(topLevel)) {
+            const binding = this.createImportBinding(declaration, topLevel, sourceFile);
+            if (binding) {
+              references.imports.set(binding.localName, binding);
+            }
+          } else if (declarationMap.has(topLevel) && this.isTopLevelDeclarationNode(declaration, topLevel)) {
+            const names = references.declarations.get(topLevel) ?? new Set<string>();
+            names.add(node.text);
+            references.declarations.set(topLevel, names);
+          }
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(statement);
+
+    return references;
+  }
+
+  private resolveSymbol(identifier: ts.Identifier, checker: ts.TypeChecker): ts.Symbol | undefined {
+    const parent = identifier.parent;
+    if (ts.isShorthandPropertyAssignment(parent) && parent.name === identifier) {
+      return checker.getShorthandAssignmentValueSymbol(parent);
+    }
+    if (ts.isExportSpecifier(parent)) {
+      return checker.getExportSpecifierLocalTargetSymbol(parent);
+    }
+    return checker.getSymbolAtLocation(identifier);
+  }
+
+  private findTopLevelStatement(node: ts.Node, sourceFile: ts.SourceFile): ts.Statement | undefined {
+    let current: ts.Node = node;
+    while (current.parent && current.parent !== sourceFile) {
+      current = current.parent;
+    }
+    return current.parent === sourceFile ? current as ts.Statement : undefined;
+  }
+
+  /**
+   * 確認宣告節點是頂層宣告本身（排除類別成員等內部宣告）
+   */
+  private isTopLevelDeclarationNode(declaration: ts.Node, statement: ts.Statement): boolean {
+    if (declaration === statement) {
+      return true;
+    }
+    let current: ts.Node = declaration;
+    while (current !== statement) {
+      if (!ts.isVariableDeclaration(current) && !ts.isBindingElement(current) && !ts.isVariableDeclarationList(current) &&
+        !ts.isObjectBindingPattern(current) && !ts.isArrayBindingPattern(current)) {
+        return false;
+      }
+      current = current.parent;
+    }
+    return true;
+  }
+
+  private createImportBinding(declaration: ts.Node, importDeclaration: ts.ImportDeclaration, sourceFile: ts.SourceFile): ImportBinding | null {
+    if (ts.isImportSpecifier(declaration)) {
+      return {
+        declaration: importDeclaration,
+        localName: declaration.name.text,
+        importedName: (declaration.propertyName ?? declaration.name).text,
+        text: declaration.getText(sourceFile)
+      };
+    }
+    if (ts.isImportClause(declaration) && declaration.name) {
+      return { declaration: importDeclaration, localName: declaration.name.text, importedName: 'default', text: declaration.name.text };
+    }
+    if (ts.isNamespaceImport(declaration)) {
+      return { declaration: importDeclaration, localName: declaration.name.text, importedName: '*', text: declaration.name.text };
+    }
+    return null;
+  }
+
+  /**
+   * 建立只包含單一檔案的 TypeChecker，用於判斷識別字實際指向的宣告
+   */
+  private createChecker(filePath: string, content: string): { sourceFile: ts.SourceFile; checker: ts.TypeChecker } {
+    const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, this.getScriptKind(filePath));
+    const program = ts.createProgram([filePath], { allowJs: true, noLib: true, noResolve: true, types: [] }, {
+      getSourceFile: (fileName) => fileName === filePath ? sourceFile : undefined,
+      writeFile: () => {},
+      getCurrentDirectory: () => path.dirname(filePath),
+      getDirectories: () => [],
+      fileExists: (fileName) => fileName === filePath,
+      readFile: () => content,
+      getCanonicalFileName: (fileName) => fileName,
+      useCaseSensitiveFileNames: () => true,
+      getNewLine: () => '\n',
+      getDefaultLibFileName: (options) => ts.getDefaultLibFilePath(options)
+    });
+    return { sourceFile, checker: program.getTypeChecker() };
+  }
+
+  /**
+   * 取得移動的陳述式文字（包含相鄰的註解），符號本身補上 export
+   */
+  private extractStatementText(sourceFile: ts.SourceFile, statement: ts.Statement, ensureExport: boolean): string {
+    const start = this.attachedStart(sourceFile, statement);
+    const text = sourceFile.text.slice(start, statement.end);
+    const modifiers = ts.canHaveModifiers(statement) ? ts.getModifiers(statement) ?? [] : [];
+    if (!ensureExport || modifiers.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword)) {
+      return text;
+    }
+    const insertAt = this.exportInsertPosition(sourceFile, statement) - start;
+    return `${text.slice(0, insertAt)}export ${text.slice(insertAt)}`;
+  }
+
+  /**
+   * export 關鍵字的插入位置（在 decorator 之後、其他修飾字之前）
+   */
+  private exportInsertPosition(sourceFile: ts.SourceFile, statement: ts.Statement): number {
+    const modifiers = ts.canHaveModifiers(statement) ? ts.getModifiers(statement) ?? [] : [];
+    if (modifiers.length > 0) {
+      return modifiers[0].getStart(sourceFile);
+    }
+    const decorators = ts.canHaveDecorators(statement) ? ts.getDecorators(statement) ?? [] : [];
+    if (decorators.length > 0) {
+      const afterDecorators = decorators[decorators.length - 1].end;
+      return afterDecorators + (/^\s*/.exec(sourceFile.text.slice(afterDecorators))?.[0].length ?? 0);
+    }
+    return statement.getStart(sourceFile);
+  }
+
+  /**
+   * 陳述式開始的位置，包含緊鄰的前置註解（以空行分隔的註解不包含）
+   */
+  private attachedStart(sourceFile: ts.SourceFile, statement: ts.Statement): number {
+    const text = sourceFile.text;
+    const comments = ts.getLeadingCommentRanges(text, statement.pos) ?? [];
+    let start = statement.getStart(sourceFile);
+
+    for (let i = comments.length - 1; i >= 0; i--) {
+      const between = text.slice(comments[i].end, start);
+      if ((between.match(/\n/g) ?? []).length > 1) {
+        break;
+      }
+      start = comments[i].pos;
+    }
+    return start;
+  }
+
+  /**
+   * 刪除陳述式的範圍，包含整行與一側的空行
+   */
+  private removalRange(sourceFile: ts.SourceFile, statement: ts.Statement): { start: number; end: number } {
+    const text = sourceFile.text;
+    const attached = this.attachedStart(sourceFile, statement);
+    let start = text.lastIndexOf('\n', attached - 1) + 1;
+    if (text.slice(start, attached).trim() !== '') {
+      start = attached;
+    }
+
+    let end = statement.end;
+    const lineEnd = text.indexOf('\n', end);
+    const restOfLine = text.slice(end, lineEnd === -1 ? text.length : lineEnd);
+    if (/^[ \t]*(\/\/.*)?\r?$/.test(restOfLine)) {
+      end = lineEnd === -1 ? text.length : lineEnd + 1;
+    }
+
+    const following = /^(?:[ \t]*\r?\n)+/.exec(text.slice(end));
+    if (following) {
+      end += following[0].length;
+    }
+
+    return this.trimTrailingBlankLines(text, { start, end });
+  }
+
+  /**
+   * 刪除範圍到達檔案結尾時，一併移除前面的空行，避免留下結尾空行
+   */
+  private trimTrailingBlankLines(text: string, range: { start: number; end: number }): { start: number; end: number } {
+    if (text.slice(range.end).trim() !== '') {
+      return range;
+    }
+    const preceding = /\n(?:[ \t]*\r?\n)+$/.exec(text.slice(0, range.start));
+    return preceding ? { start: range.start - preceding[0].length + 1, end: range.end } : range;
+  }
+
+  /**
+   * 合併重疊的刪除範圍
+   */
+  private mergeRanges(text: string, ranges: ReadonlyArray<{ start: number; end: number }>): Array<{ start: number; end: number }> {
+    const merged: Array<{ start: number; end: number }> = [];
+    for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.start = Math.min(last.start, range.start);
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+    }
+    return merged.map(range => this.trimTrailingBlankLines(text, range));
+  }
+
+  /**
+   * 在最後一個 import 之後（沒有 import 時在第一個陳述式之前）插入 import，略過將被刪除的陳述式
+   */
+  private importInsertion(sourceFile: ts.SourceFile, importText: string, removed: ReadonlySet<ts.Statement> = new Set()): TextEdit {
+    const imports = sourceFile.statements.filter(statement => ts.isImportDeclaration(statement) && !removed.has(statement));
+    if (imports.length > 0) {
+      const position = imports[imports.length - 1].end;
+      return { start: position, end: position, newText: `\n${importText}` };
+    }
+
+    const first = sourceFile.statements.find(statement => !removed.has(statement));
+    if (!first) {
+      return { start: sourceFile.text.length, end: sourceFile.text.length, newText: `${importText}\n` };
+    }
+    const position = this.attachedStart(sourceFile, first);
+    return { start: position, end: position, newText: `${importText}\n\n` };
+  }
+
+  private importInsertionLine(sourceFile: ts.SourceFile, removed: ReadonlySet<ts.Statement> = new Set()): number {
+    const imports = sourceFile.statements.filter(statement => ts.isImportDeclaration(statement) && !removed.has(statement));
+    return imports.length > 0 ? this.lineOf(sourceFile, imports[imports.length - 1]) + 1 : 1;
+  }
+
+  private lineOf(sourceFile: ts.SourceFile, node: ts.Node): number {
+    return sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+  }
+
+  private getImportParts(declaration: ts.ImportDeclaration, sourceFile: ts.SourceFile): ImportParts | null {
+    const clause = declaration.importClause;
+    if (!clause) {
+      return null;
+    }
+    const bindings = clause.namedBindings;
+    return {
+      defaultName: clause.name?.text,
+      namespaceName: bindings && ts.isNamespaceImport(bindings) ? bindings.name.text : undefined,
+      named: bindings && ts.isNamedImports(bindings) ? bindings.elements.map(element => element.getText(sourceFile)) : [],
+      typeOnly: clause.isTypeOnly
+    };
+  }
+
+  /**
+   * 移除指定本地名稱的 import，沒有變更時回傳原物件
+   */
+  private removeImportNames(
+    declaration: ts.ImportDeclaration,
+    sourceFile: ts.SourceFile,
+    parts: ImportParts,
+    localNames: ReadonlySet<string>
+  ): ImportParts {
+    const bindings = declaration.importClause?.namedBindings;
+    const named = bindings && ts.isNamedImports(bindings)
+      ? bindings.elements.filter(element => !localNames.has(element.name.text)).map(element => element.getText(sourceFile))
+      : parts.named;
+    const removeDefault = parts.defaultName !== undefined && localNames.has(parts.defaultName);
+    const removeNamespace = parts.namespaceName !== undefined && localNames.has(parts.namespaceName);
+
+    if (named.length === parts.named.length && !removeDefault && !removeNamespace) {
+      return parts;
+    }
+    return {
+      defaultName: removeDefault ? undefined : parts.defaultName,
+      namespaceName: removeNamespace ? undefined : parts.namespaceName,
+      named,
+      typeOnly: parts.typeOnly
+    };
+  }
+
+  private filterImportParts(parts: ImportParts, localNames: ReadonlySet<string>): ImportParts {
+    return {
+      defaultName: parts.defaultName && localNames.has(parts.defaultName) ? parts.defaultName : undefined,
+      namespaceName: parts.namespaceName && localNames.has(parts.namespaceName) ? parts.namespaceName : undefined,
+      named: parts.named.filter(text => localNames.has(this.localNameOf(text))),
+      typeOnly: parts.typeOnly
+    };
+  }
+
+  private boundLocalNames(parts: ImportParts): string[] {
+    return [
+      ...(parts.defaultName ? [parts.defaultName] : []),
+      ...(parts.namespaceName ? [parts.namespaceName] : []),
+      ...parts.named.map(text => this.localNameOf(text))
+    ];
+  }
+
+  /**
+   * 從 specifier 文字（如 `type a as b`）取得本地名稱
+   */
+  private localNameOf(specifierText: string): string {
+    const words = specifierText.trim().split(/\s+/);
+    return words[words.length - 1];
+  }
+
+  private isEmptyImport(parts: ImportParts): boolean {
+    return !parts.defaultName && !parts.namespaceName && parts.named.length === 0;
+  }
+
+  private formatImport(parts: ImportParts, moduleText: string, semicolon: boolean): string {
+    const clauses: string[] = [];
+    if (parts.defaultName) {
+      clauses.push(parts.defaultName);
+    }
+    if (parts.namespaceName) {
+      clauses.push(`* as ${parts.namespaceName}`);
+    }
+    if (parts.named.length > 0) {
+      clauses.push(`{ ${parts.named.join(', ')} }`);
+    }
+    return `import ${parts.typeOnly ? 'type ' : ''}${clauses.join(', ')} from ${moduleText}${semicolon ? ';' : ''}`;
+  }
+
+  private isLocalExportList(statement: ts.Statement): boolean {
+    return ts.isExportDeclaration(statement) &&
+      !statement.moduleSpecifier &&
+      statement.exportClause !== undefined &&
+      ts.isNamedExports(statement.exportClause);
+  }
+
+  /**
+   * 偵測檔案的 import 寫法
+   */
+  private detectImportStyle(sourceFile: ts.SourceFile, defaultQuote = '\''): ImportStyle {
+    const imports = sourceFile.statements.filter(
+      (statement): statement is ts.ImportDeclaration | ts.ExportDeclaration =>
+        (ts.isImportDeclaration(statement) || ts.isExportDeclaration(statement)) &&
+        statement.moduleSpecifier !== undefined && ts.isStringLiteral(statement.moduleSpecifier)
+    );
+    const first = imports[0];
+    const relative = imports
+      .map(statement => (statement.moduleSpecifier as ts.StringLiteral).text)
+      .find(specifier => specifier.startsWith('.'));
+
+    return {
+      quote: first ? first.moduleSpecifier!.getText(sourceFile)[0] : defaultQuote,
+      semicolon: first ? first.getText(sourceFile).trimEnd().endsWith(';') : true,
+      sampleSpecifier: relative
+    };
+  }
+
+  private quote(specifier: string, style: ImportStyle): string {
+    return `${style.quote}${specifier}${style.quote}`;
+  }
+
+  /**
+   * 計算 fromFile 引用 toFile 的模組路徑，沿用既有路徑的副檔名寫法（如 ESM 的 .js）
+   */
+  private toSpecifier(fromFile: string, toFile: string, styleSpecifier?: string): string {
+    const relativePath = this.importResolver.calculateRelativePath(fromFile, toFile);
+    const styleExtension = styleSpecifier ? path.extname(styleSpecifier) : '';
+    return SUPPORTED_EXTENSIONS.includes(styleExtension) ? `${relativePath}${styleExtension}` : relativePath;
+  }
+
+  /**
+   * 將來源檔案中的相對路徑改為從目標檔案出發
+   */
+  private rebaseSpecifier(specifier: string, fromFile: string, toFile: string): string {
+    if (!specifier.startsWith('.')) {
+      return specifier;
+    }
+    const resolved = path.resolve(path.dirname(fromFile), specifier);
+    const relativePath = path.relative(path.dirname(toFile), resolved).split(path.sep).join('/');
+    return relativePath.startsWith('.') ? relativePath : `./${relativePath}`;
+  }
+
+  /**
+   * 模組識別鍵：相對路徑解析為不含副檔名的絕對路徑，其餘保留原字串
+   */
+  private moduleKey(specifier: string, fromFile: string): string {
+    if (!specifier.startsWith('.')) {
+      return specifier;
+    }
+    return this.removeExtension(path.resolve(path.dirname(fromFile), specifier));
+  }
+
+  /**
+   * 指向檔案的所有模組識別鍵（index 檔案也可以用目錄引用）
+   */
+  private moduleKeysOf(filePath: string): string[] {
+    const key = this.removeExtension(filePath);
+    return path.basename(key) === 'index' ? [key, path.dirname(key)] : [key];
+  }
+
+  private removeExtension(filePath: string): string {
+    const extension = path.extname(filePath);
+    return SUPPORTED_EXTENSIONS.includes(extension) ? filePath.slice(0, -extension.length) : filePath;
+  }
+
+  private getScriptKind(filePath: string): ts.ScriptKind {
+    switch (path.extname(filePath)) {
+    case '.tsx':
+      return ts.ScriptKind.TSX;
+    case '.jsx':
+      return ts.ScriptKind.JSX;
+    case '.js':
+    case '.mjs':
+    case '.cjs':
+      return ts.ScriptKind.JS;
+    default:
+      return ts.ScriptKind.TS;
+    }
+  }
+
+  /**
+   * 套用文字編輯（由後往前，避免位移）
+   */
+  private applyEdits(text: string, edits: readonly TextEdit[]): string {
+    const sorted = [...edits].sort((a, b) => b.start - a.start || b.end - a.end);
+    let result = text;
+    let previousStart = Infinity;
+    for (const edit of sorted) {
+      if (edit.end > previousStart) {
+        throw new Error('內部錯誤：重疊的文字編輯');
+      }
+      result = result.slice(0, edit.start) + edit.newText + result.slice(edit.end);
+      previousStart = edit.start;
+    }
+    return result;
+  }
+
+  /**
+   * 寫入所有檔案，失敗時還原已寫入的檔案
+   */
+  private async writeContents(contents: ReadonlyMap<string, string>, originals: ReadonlyMap<string, string | null>): Promise<void> {
+    const written: string[] = [];
+    try {
+      for (const [filePath, content] of contents) {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, content, 'utf-8');
+        written.push(filePath);
+      }
+    } catch (error) {
+      for (const filePath of written) {
+        const original = originals.get(filePath);
+        try {
+          if (original === null || original === undefined) {
+            await fs.rm(filePath, { force: true });
+          } else {
+            await fs.writeFile(filePath, original, 'utf-8');
+          }
+        } catch {
+          // 盡力還原，繼續處理其他檔案
+        }
+      }
+      throw new Error(`寫入檔案失敗: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private async readOptional(filePath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(filePath, 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+
+  private escapeRegex(str: string): string {
+    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
@@ -9,7 +9,8 @@ import { Position, Range, Location } from '../../shared/types/core.js';
  */
 export enum MoveOperationType {
   FILE = 'file',
-  DIRECTORY = 'directory'
+  DIRECTORY = 'directory',
+  SYMBOL = 'symbol'
 }
 
 /**
@@ -81,7 +82,7 @@ export interface MoveImpact {
  * 路徑衝突
  */
 export interface PathConflict {
-  readonly type: 'file_exists' | 'directory_exists' | 'permission_denied';
+  readonly type: 'file_exists' | 'directory_exists' | 'permission_denied' | 'symbol_exists';
   readonly path: string;
   readonly description: string;
 }
@@ -246,6 +247,8 @@ export interface MoveOperation {
 export interface MoveOptions {
   readonly preview?: boolean;
   readonly projectRoot?: string;
+  /** 預覽時模擬依賴變更的專案根目錄，預設為 projectRoot */
+  readonly dependencyRoot?: string;
 }
 
 /**
@@ -257,6 +260,8 @@ export interface MoveResult {
   readonly target: string;
   readonly moved: boolean;
   readonly pathUpdates: PathUpdate[];
+  /** 預覽時模擬移動後依賴圖得到的警告（新的循環依賴、擴大的影響範圍） */
+  readonly warnings?: readonly string[];
   readonly error?: string;
   readonly message: string;
 }
@@ -271,6 +276,41 @@ export interface PathUpdate {
   readonly newImport: string;
 }
 
+/**
+ * 符號移動操作
+ */
+export interface SymbolMoveOperation {
+  readonly symbol: string;
+  readonly source: string;
+  readonly target: string;
+}
+
+/**
+ * 符號移動預覽（MovePreview 加上一併移動的宣告與警告）
+ */
+export interface SymbolMovePreview extends MovePreview {
+  /** 一併移動的宣告，第一個為符號本身，其餘為只被它使用的私有 helper */
+  readonly movedDeclarations: readonly string[];
+  readonly warnings: readonly string[];
+}
+
+/**
+ * 符號移動結果
+ */
+export interface SymbolMoveResult {
+  readonly success: boolean;
+  readonly symbol: string;
+  readonly source: string;
+  readonly target: string;
+  readonly moved: boolean;
+  readonly movedDeclarations: readonly string[];
+  readonly importUpdates: readonly ImportUpdatePreview[];
+  readonly changedFiles: readonly string[];
+  readonly warnings: readonly string[];
+  readonly error?: string;
+  readonly message: string;
+}
+
 /**
  * 建立完整 MoveOperation 的工廠函式
  */
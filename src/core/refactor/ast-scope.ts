@@ -0,0 +1,180 @@
+/**
+ * 重構共用的 TypeScript AST 作用域工具
+ * 判斷識別字的讀寫位置與各作用域宣告的名稱
+ */
+
+import * as ts from 'typescript';
+import type { Range } from './extract-function.js';
+
+/**
+ * 依副檔名判斷語法
+ */
+export function getScriptKind(fileName: string): ts.ScriptKind {
+  if (fileName.endsWith('.tsx')) {
+    return ts.ScriptKind.TSX;
+  }
+  if (fileName.endsWith('.jsx')) {
+    return ts.ScriptKind.JSX;
+  }
+  return /\.[cm]?js$/.test(fileName) ? ts.ScriptKind.JS : ts.ScriptKind.TS;
+}
+
+/**
+ * 行列位置（line 1-based、column 0-based）轉偏移量，超出檔案時回傳 undefined
+ */
+export function toOffset(sourceFile: ts.SourceFile, position: Range['start']): number | undefined {
+  const lineStarts = sourceFile.getLineStarts();
+  const lineStart = lineStarts[position.line - 1];
+  if (lineStart === undefined || position.column < 0) {
+    return undefined;
+  }
+  const lineEnd = position.line < lineStarts.length ? lineStarts[position.line] : sourceFile.text.length;
+  return Math.min(lineStart + position.column, lineEnd);
+}
+
+/**
+ * 偏移量範圍轉行列範圍
+ */
+export function toRange(sourceFile: ts.SourceFile, start: number, end: number): Range {
+  const from = sourceFile.getLineAndCharacterOfPosition(start);
+  const to = sourceFile.getLineAndCharacterOfPosition(end);
+  return {
+    start: { line: from.line + 1, column: from.character },
+    end: { line: to.line + 1, column: to.character }
+  };
+}
+
+/**
+ * 取得可以直接放置敘述的節點（區塊、檔案、模組、case）的敘述列表
+ */
+export function getStatements(node: ts.Node): readonly ts.Statement[] | undefined {
+  if (ts.isBlock(node) || ts.isSourceFile(node) || ts.isModuleBlock(node) || ts.isCaseClause(node) || ts.isDefaultClause(node)) {
+    return node.statements;
+  }
+  return undefined;
+}
+
+/**
+ * 判斷運算式是否為寫入的目標（賦值左側、++/--、delete、for-in/of 的迴圈變數、解構賦值的元素）
+ */
+export function isAssignmentTarget(expression: ts.Node): boolean {
+  const parent = expression.parent;
+  if (ts.isPrefixUnaryExpression(parent) || ts.isPostfixUnaryExpression(parent)) {
+    return parent.operator === ts.SyntaxKind.PlusPlusToken || parent.operator === ts.SyntaxKind.MinusMinusToken;
+  }
+  if (ts.isDeleteExpression(parent)) {
+    return true;
+  }
+
+  // 解構賦值：[a, b] = ... 或 ({ a, b: c } = ...)
+  let target: ts.Node = expression;
+  while (ts.isArrayLiteralExpression(target.parent) || ts.isObjectLiteralExpression(target.parent)
+    || ts.isSpreadElement(target.parent) || ts.isSpreadAssignment(target.parent) || ts.isParenthesizedExpression(target.parent)
+    || ts.isShorthandPropertyAssignment(target.parent) && target.parent.name === target
+    || ts.isPropertyAssignment(target.parent) && target.parent.initializer === target) {
+    target = target.parent;
+  }
+  const container = target.parent;
+  if (ts.isBinaryExpression(container)) {
+    const operator = container.operatorToken.kind;
+    return container.left === target && operator >= ts.SyntaxKind.FirstAssignment && operator <= ts.SyntaxKind.LastAssignment;
+  }
+  if (ts.isForInStatement(container) || ts.isForOfStatement(container)) {
+    return container.initializer === target;
+  }
+  return false;
+}
+
+/**
+ * 找出運算式中的副作用（函式呼叫、賦值、await/yield），不含巢狀函式與類別的本體
+ */
+export function findSideEffect(expression: ts.Expression): string | undefined {
+  let found: string | undefined;
+  const visit = (node: ts.Node): void => {
+    if (found || ts.isFunctionLike(node) || ts.isClassLike(node)) {
+      return;
+    }
+    if (ts.isCallExpression(node) || ts.isNewExpression(node) || ts.isTaggedTemplateExpression(node)) {
+      found = '函式呼叫';
+    } else if (ts.isAwaitExpression(node) || ts.isYieldExpression(node)) {
+      found = ts.isAwaitExpression(node) ? 'await' : 'yield';
+    } else if (ts.isBinaryExpression(node) && node.operatorToken.kind >= ts.SyntaxKind.FirstAssignment
+      && node.operatorToken.kind <= ts.SyntaxKind.LastAssignment
+      || (ts.isPrefixUnaryExpression(node) || ts.isPostfixUnaryExpression(node))
+        && (node.operator === ts.SyntaxKind.PlusPlusToken || node.operator === ts.SyntaxKind.MinusMinusToken)
+      || ts.isDeleteExpression(node)) {
+      found = '賦值';
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(expression);
+  return found;
+}
+
+/**
+ * 判斷識別字是否為值的引用（排除屬性名稱、宣告名稱、型別與內建 JSX 標籤）
+ */
+export function isValueReference(identifier: ts.Identifier): boolean {
+  const parent = identifier.parent;
+  if (ts.isShorthandPropertyAssignment(parent)) {
+    return parent.name === identifier;
+  }
+  if ((parent as { name?: ts.Node }).name === identifier || (parent as { propertyName?: ts.Node }).propertyName === identifier
+    || (parent as { label?: ts.Node }).label === identifier || ts.isPartOfTypeNode(identifier)) {
+    return false;
+  }
+  if ((ts.isJsxOpeningElement(parent) || ts.isJsxSelfClosingElement(parent) || ts.isJsxClosingElement(parent))
+    && parent.tagName === identifier) {
+    return !/^[a-z]/.test(identifier.text);
+  }
+  return true;
+}
+
+/**
+ * 收集單一作用域節點直接宣告的名稱（參數、區塊內的宣告、for 與 catch 的變數）
+ */
+export function collectScopeDeclarations(scope: ts.Node, names: Set<string>): void {
+  if (ts.isFunctionLike(scope)) {
+    scope.parameters.forEach(parameter => collectBindingNames(parameter.name, names));
+    if (ts.isFunctionExpression(scope) && scope.name) {
+      names.add(scope.name.text);
+    }
+  }
+  if (ts.isClassExpression(scope) && scope.name) {
+    names.add(scope.name.text);
+  }
+  getStatements(scope)?.forEach(statement => collectStatementDeclarations(statement, names));
+  if ((ts.isForStatement(scope) || ts.isForInStatement(scope) || ts.isForOfStatement(scope))
+    && scope.initializer && ts.isVariableDeclarationList(scope.initializer)) {
+    scope.initializer.declarations.forEach(declaration => collectBindingNames(declaration.name, names));
+  }
+  if (ts.isCatchClause(scope) && scope.variableDeclaration) {
+    collectBindingNames(scope.variableDeclaration.name, names);
+  }
+}
+
+/**
+ * 收集敘述宣告的名稱（變數、函式、類別、列舉）
+ */
+export function collectStatementDeclarations(statement: ts.Statement, names: Set<string>): void {
+  if (ts.isVariableStatement(statement)) {
+    statement.declarationList.declarations.forEach(declaration => collectBindingNames(declaration.name, names));
+  } else if ((ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement) || ts.isEnumDeclaration(statement)) && statement.name) {
+    names.add(statement.name.text);
+  }
+}
+
+/**
+ * 收集綁定名稱（含解構）
+ */
+export function collectBindingNames(name: ts.BindingName, names: Set<string>): void {
+  if (ts.isIdentifier(name)) {
+    names.add(name.text);
+    return;
+  }
+  for (const element of name.elements) {
+    if (!ts.isOmittedExpression(element)) {
+      collectBindingNames(element.name, names);
+    }
+  }
+}
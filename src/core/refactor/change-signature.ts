@@ -0,0 +1,315 @@
+/**
+ * 變更函式簽名重構器
+ * 依參數規格重寫函式宣告（含介面宣告、覆寫方法與多載）並更新所有呼叫處的引數
+ */
+
+import * as ts from 'typescript';
+import type { TypeScriptParser } from '../../plugins/typescript/parser.js';
+import type { TypeScriptAST } from '../../plugins/typescript/types.js';
+import type { CodeEdit } from './extract-function.js';
+import { collectBindingNames, findSideEffect, getScriptKind, isValueReference, toRange } from './ast-scope.js';
+import {
+  collectSignatureReferences,
+  findSignatureTarget,
+  getSignatureParameters,
+  hasBody,
+  isThisParameter,
+  lineOf,
+  pushEdit,
+  textWithEdits,
+  type OffsetEdit
+} from './signature-references.js';
+
+// 參數規格中的單一參數
+export interface ParameterSpec {
+  name: string;
+  optional: boolean;
+  rest: boolean;
+  type?: string;
+  defaultValue?: string;
+  /** 對應原本的參數位置，新參數為 undefined */
+  oldIndex?: number;
+}
+
+// 變更簽名選項
+export interface ChangeSignatureOptions {
+  filePath: string;
+  /** 函式名稱，方法可用 Class.method 指定 */
+  functionName: string;
+  /** 新的參數列表，如 "b, a, c: number = 0" */
+  params: string;
+  /** 專案內的原始檔案，用於跨檔案查找呼叫處 */
+  files: ReadonlyArray<{ filePath: string; content: string }>;
+}
+
+// 單一檔案的編輯
+export interface SignatureFileEdits {
+  filePath: string;
+  /** 由檔案尾端往前排序，依序套用即可 */
+  edits: CodeEdit[];
+}
+
+// 變更簽名結果
+export interface ChangeSignatureResult {
+  success: boolean;
+  signature: string;
+  files: SignatureFileEdits[];
+  updatedDeclarations: number;
+  updatedCalls: number;
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * 函式簽名變更器
+ */
+export class SignatureChanger {
+  constructor(private readonly parser: TypeScriptParser) {}
+
+  /**
+   * 變更函式簽名並更新所有呼叫處
+   */
+  async change(options: ChangeSignatureOptions): Promise<ChangeSignatureResult> {
+    const result: ChangeSignatureResult = {
+      success: false,
+      signature: '',
+      files: [],
+      updatedDeclarations: 0,
+      updatedCalls: 0,
+      errors: [],
+      warnings: []
+    };
+    const fail = (message: string): ChangeSignatureResult => {
+      result.errors.push(message);
+      return result;
+    };
+
+    const contents = new Map(options.files.map(file => [file.filePath, file.content]));
+    const code = contents.get(options.filePath);
+    if (code === undefined) {
+      return fail(`找不到檔案: ${options.filePath}`);
+    }
+
+    const ast = await this.parser.parse(code, options.filePath) as TypeScriptAST;
+    const target = findSignatureTarget(ast.tsSourceFile, options.functionName);
+    if (typeof target === 'string') {
+      return fail(target);
+    }
+
+    const oldParameters = getSignatureParameters(target.declaration);
+    const specs = this.parseSpec(options.params, oldParameters, getScriptKind(options.filePath));
+    if (typeof specs === 'string') {
+      return fail(specs);
+    }
+    const removedIndexes = oldParameters.map((_, index) => index).filter(index => !specs.some(spec => spec.oldIndex === index));
+
+    const references = await collectSignatureReferences(this.parser, ast, target, options.files, result.warnings);
+
+    // 移除的參數若仍被任一宣告（含覆寫方法）的本體使用，移除後程式無法編譯
+    for (const { filePath, sourceFile, declarations } of references) {
+      for (const declaration of declarations) {
+        const parameters = getSignatureParameters(declaration);
+        for (const index of removedIndexes) {
+          const parameter = parameters[index];
+          if (parameter && this.isUsedInBody(declaration, parameter)) {
+            return fail(`無法移除參數 ${parameter.name.getText()}：${filePath}:${lineOf(sourceFile, declaration)} 的函式本體仍在使用`);
+          }
+        }
+      }
+    }
+
+    const restIndex = oldParameters.findIndex(parameter => parameter.dotDotDotToken !== undefined);
+    // 引數在新參數列表中的位置，其餘參數的引數共用同一個位置，移除的引數為 -1
+    const newPosition = (index: number): number =>
+      specs.findIndex(spec => spec.oldIndex === (restIndex >= 0 && index >= restIndex ? restIndex : index));
+    for (const { filePath, content, sourceFile, declarations, calls } of references) {
+      const edits: OffsetEdit[] = [];
+      for (const call of calls) {
+        const location = `${filePath}:${lineOf(sourceFile, call)}`;
+        const args = call.arguments;
+        if (!args) {
+          continue;
+        }
+        if (args.some(ts.isSpreadElement)) {
+          result.warnings.push(`${location} 的呼叫使用展開引數，未更新`);
+          continue;
+        }
+        args.forEach((arg, index) => {
+          const position = newPosition(index);
+          // 與其他引數調換順序時求值順序跟著改變
+          const moved = position >= 0 && args.some((_, other) => {
+            const otherPosition = newPosition(other);
+            return otherPosition >= 0 && (other < index && otherPosition > position || other > index && otherPosition < position);
+          });
+          const sideEffect = position < 0 || moved ? findSideEffect(arg) : undefined;
+          if (sideEffect && position < 0) {
+            result.warnings.push(`${location} 移除的引數 ${arg.getText()} 有副作用（${sideEffect}）`);
+          } else if (sideEffect) {
+            result.warnings.push(`${location} 調換順序的引數 ${arg.getText()} 有副作用（${sideEffect}），求值順序會改變`);
+          }
+        });
+
+        const argText = (arg: ts.Expression): string => textWithEdits(content, arg.getStart(sourceFile), arg.getEnd(), edits);
+        const newArgs: (string | undefined)[] = specs.map(spec => {
+          if (spec.oldIndex === undefined) {
+            return spec.defaultValue;
+          }
+          if (spec.oldIndex === restIndex) {
+            return args.slice(restIndex).map(argText).join(', ') || undefined;
+          }
+          const arg = args[spec.oldIndex];
+          return arg ? argText(arg) : undefined;
+        });
+        while (newArgs.length > 0 && newArgs[newArgs.length - 1] === undefined) {
+          newArgs.pop();
+        }
+        pushEdit(edits, { start: args.pos, end: args.end, newText: newArgs.map(arg => arg ?? 'undefined').join(', ') });
+        result.updatedCalls++;
+      }
+
+      const isJavaScript = [ts.ScriptKind.JS, ts.ScriptKind.JSX].includes(getScriptKind(filePath));
+      for (const declaration of declarations) {
+        pushEdit(edits, this.rewriteDeclaration(declaration, target.declaration, specs, sourceFile, isJavaScript));
+        result.updatedDeclarations++;
+      }
+
+      if (edits.length > 0) {
+        edits.sort((a, b) => b.start - a.start);
+        result.files.push({
+          filePath,
+          edits: edits.map(edit => ({ range: toRange(sourceFile, edit.start, edit.end), newText: edit.newText, type: 'replace' }))
+        });
+      }
+    }
+
+    result.success = true;
+    const isJavaScript = [ts.ScriptKind.JS, ts.ScriptKind.JSX].includes(getScriptKind(options.filePath));
+    const parameters = this.renderParameters(target.declaration, target.declaration, specs, hasBody(target.declaration), isJavaScript);
+    result.signature = `${options.functionName}(${parameters})`;
+    return result;
+  }
+
+  /**
+   * 解析參數規格，規格中的每一項為 name[?][: type][= default] 或 ...name
+   */
+  private parseSpec(params: string, oldParameters: readonly ts.ParameterDeclaration[], scriptKind: ts.ScriptKind): ParameterSpec[] | string {
+    const text = `function __signature(${params}) {}`;
+    const sourceFile = ts.createSourceFile('signature.ts', text, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+    const statement = sourceFile.statements[0];
+    if (sourceFile.statements.length !== 1 || !statement || !ts.isFunctionDeclaration(statement)
+      || statement.getEnd() !== text.length || statement.body?.statements.length !== 0) {
+      return `無法解析參數規格: ${params}`;
+    }
+
+    const oldNames = oldParameters.map(parameter => parameter.name.getText());
+    const specs: ParameterSpec[] = [];
+    for (const [index, parameter] of statement.parameters.entries()) {
+      if (!ts.isIdentifier(parameter.name)) {
+        return `參數規格不支援解構: ${parameter.getText()}`;
+      }
+      const name = parameter.name.text;
+      if (specs.some(spec => spec.name === name)) {
+        return `參數 ${name} 重複`;
+      }
+      const spec: ParameterSpec = {
+        name,
+        optional: parameter.questionToken !== undefined,
+        rest: parameter.dotDotDotToken !== undefined,
+        type: parameter.type?.getText(),
+        defaultValue: parameter.initializer?.getText()
+      };
+      const oldIndex = oldNames.indexOf(name);
+      if (oldIndex >= 0) {
+        const isRest = oldParameters[oldIndex].dotDotDotToken !== undefined;
+        if (spec.optional || spec.rest && !isRest || spec.type || spec.defaultValue) {
+          return `既有參數 ${name} 只能以名稱指定，會保留原本的型別與預設值`;
+        }
+        spec.oldIndex = oldIndex;
+        spec.rest = isRest;
+      } else {
+        if (spec.rest) {
+          return `不能新增其餘參數 ${name}`;
+        }
+        if (spec.defaultValue === undefined && !spec.optional) {
+          return `新參數 ${name} 需要指定預設值（如 ${name} = value）或標示為選用（${name}?）`;
+        }
+        if (spec.type && (scriptKind === ts.ScriptKind.JS || scriptKind === ts.ScriptKind.JSX)) {
+          return `JavaScript 檔案的參數不能指定型別: ${name}`;
+        }
+      }
+      if (spec.rest && index !== statement.parameters.length - 1) {
+        return `其餘參數 ${name} 必須是最後一個參數`;
+      }
+      specs.push(spec);
+    }
+    return specs;
+  }
+
+  /**
+   * 重寫宣告的參數列表，沒有括號的單一參數箭頭函式會補上括號
+   */
+  private rewriteDeclaration(
+    declaration: ts.SignatureDeclaration,
+    primary: ts.SignatureDeclaration,
+    specs: readonly ParameterSpec[],
+    sourceFile: ts.SourceFile,
+    isJavaScript: boolean
+  ): OffsetEdit {
+    const newText = this.renderParameters(declaration, primary, specs, hasBody(declaration), isJavaScript);
+    const parameters = declaration.parameters;
+    if (ts.isArrowFunction(declaration) && !sourceFile.text.slice(declaration.getStart(sourceFile), parameters.pos).includes('(')) {
+      return { start: parameters[0].getStart(sourceFile), end: parameters.end, newText: `(${newText})` };
+    }
+    return { start: parameters.pos, end: parameters.end, newText };
+  }
+
+  /**
+   * 依規格產生參數列表；既有參數保留各宣告原本的文字，新參數在沒有本體的宣告中改為選用
+   */
+  private renderParameters(
+    declaration: ts.SignatureDeclaration,
+    primary: ts.SignatureDeclaration,
+    specs: readonly ParameterSpec[],
+    withBody: boolean,
+    isJavaScript: boolean
+  ): string {
+    const own = getSignatureParameters(declaration);
+    const fallback = getSignatureParameters(primary);
+    const texts = specs.map(spec => {
+      if (spec.oldIndex !== undefined) {
+        return (own[spec.oldIndex] ?? fallback[spec.oldIndex]).getText();
+      }
+      const type = spec.type && !isJavaScript ? `: ${spec.type}` : '';
+      if (withBody && spec.defaultValue !== undefined) {
+        return `${spec.name}${type} = ${spec.defaultValue}`;
+      }
+      const optional = !isJavaScript && (spec.optional || spec.defaultValue !== undefined) ? '?' : '';
+      return `${spec.name}${optional}${type}`;
+    });
+    const thisParameter = declaration.parameters.find(isThisParameter);
+    return [...thisParameter ? [thisParameter.getText()] : [], ...texts].join(', ');
+  }
+
+  /**
+   * 判斷參數是否在函式本體中被使用
+   */
+  private isUsedInBody(declaration: ts.SignatureDeclaration, parameter: ts.ParameterDeclaration): boolean {
+    const body = (declaration as { body?: ts.Node }).body;
+    if (!body) {
+      return false;
+    }
+    const names = new Set<string>();
+    collectBindingNames(parameter.name, names);
+    let used = false;
+    const visit = (node: ts.Node): void => {
+      if (ts.isIdentifier(node) && names.has(node.text) && isValueReference(node)) {
+        used = true;
+      }
+      if (!used) {
+        ts.forEachChild(node, visit);
+      }
+    };
+    visit(body);
+    return used;
+  }
+}
@@ -0,0 +1,492 @@
+/**
+ * 提取介面重構器
+ * 由類別的公開成員產生介面（沒有型別註記的成員以型別檢查器推斷），讓類別 implements 該介面，
+ * 並可將參數與變數型別註記中的類別改為介面
+ */
+
+import * as ts from 'typescript';
+import type { TypeScriptParser } from '../../plugins/typescript/parser.js';
+import type { TypeScriptAST, TypeScriptSymbol } from '../../plugins/typescript/types.js';
+import { SymbolType } from '../../shared/types/index.js';
+import { getScriptKind, toRange } from './ast-scope.js';
+import type { SignatureFileEdits } from './change-signature.js';
+import { findIdentifierAt, isThisParameter, type OffsetEdit } from './signature-references.js';
+import { createTypeImport, getInsertPosition, getTopLevelNames, isExported } from './type-declarations.js';
+
+// 提取介面選項
+export interface ExtractInterfaceOptions {
+  filePath: string;
+  className: string;
+  /** 介面名稱，省略時為「I + 類別名稱」 */
+  interfaceName?: string;
+  /** 是否將參數與變數型別註記中的類別改為介面 */
+  replaceUsages?: boolean;
+  /** 專案內的原始檔案，用於型別推斷與跨檔案替換 */
+  files: ReadonlyArray<{ filePath: string; content: string }>;
+}
+
+// 提取介面結果
+export interface ExtractInterfaceResult {
+  success: boolean;
+  interfaceName: string;
+  interfaceDeclaration: string;
+  members: string[];
+  files: SignatureFileEdits[];
+  replacedUsages: number;
+  errors: string[];
+  warnings: string[];
+}
+
+// 介面成員
+interface InterfaceMember {
+  name: string;
+  text: string;
+}
+
+// 型別註記可替換為介面的宣告
+type AnnotatedDeclaration = ts.ParameterDeclaration | ts.VariableDeclaration;
+
+const TYPE_FORMAT_FLAGS = ts.TypeFormatFlags.NoTruncation
+  | ts.TypeFormatFlags.UseAliasDefinedOutsideCurrentScope
+  | ts.TypeFormatFlags.UseSingleQuotesForStringLiteralType;
+
+/**
+ * 介面提取器
+ */
+export class InterfaceExtractor {
+  constructor(private readonly parser: TypeScriptParser) {}
+
+  /**
+   * 由類別產生介面並讓類別實作它
+   */
+  async extract(options: ExtractInterfaceOptions): Promise<ExtractInterfaceResult> {
+    const result: ExtractInterfaceResult = {
+      success: false,
+      interfaceName: '',
+      interfaceDeclaration: '',
+      members: [],
+      files: [],
+      replacedUsages: 0,
+      errors: [],
+      warnings: []
+    };
+    const fail = (message: string): ExtractInterfaceResult => {
+      result.errors.push(message);
+      return result;
+    };
+
+    const code = options.files.find(file => file.filePath === options.filePath)?.content;
+    if (code === undefined) {
+      return fail(`找不到檔案: ${options.filePath}`);
+    }
+    if (this.isJavaScript(options.filePath)) {
+      return fail('提取介面需要 TypeScript 檔案，JavaScript 無法宣告介面');
+    }
+
+    this.parser.registerFiles(options.files);
+    const ast = await this.parser.parse(code, options.filePath) as TypeScriptAST;
+    const program = this.parser.getProgram(ast);
+    const sourceFile = program?.getSourceFile(options.filePath);
+    if (!program || !sourceFile) {
+      return fail(`無法取得 ${options.filePath} 的型別資訊`);
+    }
+    const checker = program.getTypeChecker();
+
+    const declaration = sourceFile.statements.find((statement): statement is ts.ClassDeclaration =>
+      ts.isClassDeclaration(statement) && statement.name?.text === options.className);
+    if (!declaration?.name) {
+      return fail(`找不到頂層類別 ${options.className}`);
+    }
+
+    const interfaceName = options.interfaceName ?? `I${options.className}`;
+    if (!/^[A-Za-z_$][\w$]*$/.test(interfaceName)) {
+      return fail(`無效的介面名稱: ${interfaceName}`);
+    }
+    if (getTopLevelNames(sourceFile).has(interfaceName)) {
+      return fail(`名稱 ${interfaceName} 已存在於檔案中`);
+    }
+
+    const members = this.collectMembers(declaration, checker, sourceFile, result.warnings);
+    if (members.length === 0) {
+      return fail(`類別 ${options.className} 沒有可提取的公開成員`);
+    }
+
+    const typeParameters = declaration.typeParameters;
+    const typeArguments = typeParameters ? `<${typeParameters.map(parameter => parameter.name.text).join(', ')}>` : '';
+    const editsByFile = new Map<string, { sourceFile: ts.SourceFile; edits: OffsetEdit[] }>();
+    editsByFile.set(options.filePath, {
+      sourceFile,
+      edits: [this.createImplementsEdit(declaration, `${interfaceName}${typeArguments}`, sourceFile)]
+    });
+
+    const importers = options.replaceUsages
+      ? await this.replaceUsages(ast, program, declaration, interfaceName, options, editsByFile, result)
+      : new Set<string>();
+    for (const filePath of importers) {
+      const entry = editsByFile.get(filePath)!;
+      if (getTopLevelNames(entry.sourceFile).has(interfaceName)) {
+        result.warnings.push(`${filePath} 已有名稱 ${interfaceName}，未加入匯入`);
+        continue;
+      }
+      entry.edits.push(createTypeImport(entry.sourceFile, filePath, options.filePath, interfaceName));
+    }
+
+    const exported = importers.size > 0 || isExported(declaration);
+    const typeParameterText = typeParameters ? `<${typeParameters.map(parameter => parameter.getText(sourceFile)).join(', ')}>` : '';
+    result.interfaceDeclaration = `${exported ? 'export ' : ''}interface ${interfaceName}${typeParameterText} {\n${members.map(member => member.text).join('\n')}\n}`;
+    const insertAt = getInsertPosition(sourceFile, declaration);
+    editsByFile.get(options.filePath)!.edits.push({ start: insertAt, end: insertAt, newText: `${result.interfaceDeclaration}\n\n` });
+
+    for (const [filePath, { sourceFile: file, edits }] of editsByFile) {
+      if (edits.length === 0) {
+        continue;
+      }
+      edits.sort((a, b) => b.start - a.start);
+      result.files.push({
+        filePath,
+        edits: edits.map(edit => ({
+          range: toRange(file, edit.start, edit.end),
+          newText: edit.newText,
+          type: edit.start === edit.end ? 'insert' : 'replace'
+        }))
+      });
+    }
+
+    result.success = true;
+    result.interfaceName = interfaceName;
+    result.members = [...new Set(members.map(member => member.name))];
+    return result;
+  }
+
+  /**
+   * 收集公開的實例成員：方法（多載只取多載簽名）、屬性、存取子與建構子參數屬性
+   */
+  private collectMembers(
+    declaration: ts.ClassDeclaration,
+    checker: ts.TypeChecker,
+    sourceFile: ts.SourceFile,
+    warnings: string[]
+  ): InterfaceMember[] {
+    const typeText = (node: ts.Node): string => checker.typeToString(checker.getTypeAtLocation(node), declaration, TYPE_FORMAT_FLAGS);
+    const members: InterfaceMember[] = [];
+    const accessorNames = new Set<string>();
+
+    for (const member of declaration.members) {
+      if (ts.isConstructorDeclaration(member)) {
+        for (const parameter of member.parameters) {
+          if (ts.isParameterPropertyDeclaration(parameter, member) && this.isPublic(parameter) && ts.isIdentifier(parameter.name)) {
+            const readonly = this.hasModifier(parameter, ts.SyntaxKind.ReadonlyKeyword) ? 'readonly ' : '';
+            const optional = parameter.questionToken ? '?' : '';
+            const type = parameter.type?.getText(sourceFile) ?? typeText(parameter.name);
+            members.push({ name: parameter.name.text, text: `  ${readonly}${parameter.name.text}${optional}: ${type};` });
+          }
+        }
+        continue;
+      }
+      if (!member.name || !this.isPublic(member) || this.hasModifier(member, ts.SyntaxKind.StaticKeyword)) {
+        continue;
+      }
+      if (ts.isComputedPropertyName(member.name)) {
+        warnings.push(`成員 ${member.name.getText(sourceFile)} 使用計算屬性名稱，未提取`);
+        continue;
+      }
+
+      const name = member.name.getText(sourceFile);
+      const doc = this.getDocComment(member, sourceFile);
+      if (ts.isMethodDeclaration(member)) {
+        const overloaded = declaration.members.some(other =>
+          other !== member && ts.isMethodDeclaration(other) && !other.body && other.name.getText(sourceFile) === name);
+        if (member.body && overloaded) {
+          continue;
+        }
+        const optional = member.questionToken ? '?' : '';
+        const typeParameters = member.typeParameters ? `<${member.typeParameters.map(parameter => parameter.getText(sourceFile)).join(', ')}>` : '';
+        const parameters = member.parameters.map((parameter, index) => this.renderParameter(parameter, index, typeText, sourceFile));
+        const signature = checker.getSignatureFromDeclaration(member);
+        const returnType = member.type?.getText(sourceFile)
+          ?? (signature ? checker.typeToString(checker.getReturnTypeOfSignature(signature), declaration, TYPE_FORMAT_FLAGS) : 'unknown');
+        members.push({ name, text: `${doc}  ${name}${optional}${typeParameters}(${parameters.join(', ')}): ${returnType};` });
+      } else if (ts.isPropertyDeclaration(member)) {
+        const readonly = this.hasModifier(member, ts.SyntaxKind.ReadonlyKeyword) ? 'readonly ' : '';
+        const optional = member.questionToken ? '?' : '';
+        members.push({ name, text: `${doc}  ${readonly}${name}${optional}: ${member.type?.getText(sourceFile) ?? typeText(member.name)};` });
+      } else if ((ts.isGetAccessorDeclaration(member) || ts.isSetAccessorDeclaration(member)) && !accessorNames.has(name)) {
+        accessorNames.add(name);
+        const isAccessor = (other: ts.ClassElement, kind: ts.SyntaxKind): boolean =>
+          other.kind === kind && other.name?.getText(sourceFile) === name && !this.hasModifier(other, ts.SyntaxKind.StaticKeyword);
+        const getter = declaration.members.find(other => isAccessor(other, ts.SyntaxKind.GetAccessor)) as ts.GetAccessorDeclaration | undefined;
+        const setter = declaration.members.find(other => isAccessor(other, ts.SyntaxKind.SetAccessor)) as ts.SetAccessorDeclaration | undefined;
+        const type = getter?.type?.getText(sourceFile) ?? setter?.parameters[0]?.type?.getText(sourceFile) ?? typeText(member.name);
+        members.push({ name, text: `${doc}  ${setter ? '' : 'readonly '}${name}: ${type};` });
+      }
+    }
+    return members;
+  }
+
+  /**
+   * 產生介面方法的參數：預設值改為選用，解構參數改以 argN 命名
+   */
+  private renderParameter(
+    parameter: ts.ParameterDeclaration,
+    index: number,
+    typeText: (node: ts.Node) => string,
+    sourceFile: ts.SourceFile
+  ): string {
+    if (isThisParameter(parameter)) {
+      return parameter.type ? `this: ${parameter.type.getText(sourceFile)}` : 'this';
+    }
+    const name = ts.isIdentifier(parameter.name) ? parameter.name.text : `arg${index}`;
+    const rest = parameter.dotDotDotToken ? '...' : '';
+    const optional = !rest && (parameter.questionToken || parameter.initializer) ? '?' : '';
+    const type = parameter.type?.getText(sourceFile) ?? typeText(ts.isIdentifier(parameter.name) ? parameter.name : parameter);
+    return `${rest}${name}${optional}: ${type}`;
+  }
+
+  /**
+   * 在類別宣告加入 implements，已有 implements 子句時附加在最後
+   */
+  private createImplementsEdit(declaration: ts.ClassDeclaration, typeText: string, sourceFile: ts.SourceFile): OffsetEdit {
+    const clauses = declaration.heritageClauses ?? [];
+    const implementsClause = clauses.find(clause => clause.token === ts.SyntaxKind.ImplementsKeyword);
+    if (implementsClause) {
+      return { start: implementsClause.end, end: implementsClause.end, newText: `, ${typeText}` };
+    }
+    let end: number;
+    if (clauses.length > 0) {
+      end = clauses[clauses.length - 1].end;
+    } else if (declaration.typeParameters) {
+      end = sourceFile.text.indexOf('>', declaration.typeParameters.end) + 1;
+    } else {
+      end = declaration.name!.end;
+    }
+    return { start: end, end, newText: ` implements ${typeText}` };
+  }
+
+  /**
+   * 將參數與變數型別註記中的類別改為介面（類別本身的宣告內不替換），回傳需要匯入介面的檔案
+   */
+  private async replaceUsages(
+    ast: TypeScriptAST,
+    program: ts.Program,
+    declaration: ts.ClassDeclaration,
+    interfaceName: string,
+    options: ExtractInterfaceOptions,
+    editsByFile: Map<string, { sourceFile: ts.SourceFile; edits: OffsetEdit[] }>,
+    result: ExtractInterfaceResult
+  ): Promise<Set<string>> {
+    const className = declaration.name!;
+    const symbol: TypeScriptSymbol = {
+      name: className.text,
+      type: SymbolType.Class,
+      location: {
+        filePath: options.filePath,
+        range: {
+          start: { line: 0, column: 0, offset: className.getStart() },
+          end: { line: 0, column: 0, offset: className.getEnd() }
+        }
+      },
+      scope: undefined,
+      modifiers: [],
+      tsNode: className
+    };
+    const references = await this.parser.findReferences(ast, symbol);
+    const classSymbol = program.getTypeChecker().getSymbolAtLocation(className);
+    const projectFiles = new Set(options.files.map(file => file.filePath));
+    const importers = new Set<string>();
+    const remaining = new Map<string, number>();
+
+    const candidates: Array<{ filePath: string; sourceFile: ts.SourceFile; identifier: ts.Identifier; annotated: AnnotatedDeclaration }> = [];
+    for (const reference of references) {
+      const filePath = reference.location.filePath;
+      const offset = reference.location.range.start.offset;
+      const sourceFile = program.getSourceFile(filePath);
+      if (offset === undefined || !sourceFile || !projectFiles.has(filePath) || this.isJavaScript(filePath)) {
+        continue;
+      }
+      const identifier = findIdentifierAt(sourceFile, offset);
+      if (!identifier || ts.isImportSpecifier(identifier.parent) || ts.isImportClause(identifier.parent)) {
+        continue;
+      }
+      const insideClass = filePath === options.filePath && offset >= declaration.pos && offset < declaration.end;
+      const annotated = insideClass ? undefined : this.getAnnotatedDeclaration(identifier);
+      if (!annotated) {
+        remaining.set(filePath, (remaining.get(filePath) ?? 0) + 1);
+        continue;
+      }
+      candidates.push({ filePath, sourceFile, identifier, annotated });
+    }
+
+    // 值傳到需要類別型別的位置時保留註記；保留的註記又可能擋下傳值給它的其他註記，重複檢查直到穩定
+    const annotatedDeclarations = new Set<ts.Node>(candidates.map(candidate => candidate.annotated));
+    const blocked = new Map<ts.Node, ts.Node>();
+    const isReplaced = (receiver: ts.Node): boolean => annotatedDeclarations.has(receiver) && !blocked.has(receiver);
+    for (let changed = true; changed;) {
+      changed = false;
+      for (const { annotated } of candidates) {
+        const flow = blocked.has(annotated) ? undefined : this.findClassTypedUsage(annotated, classSymbol, program, isReplaced);
+        if (flow) {
+          blocked.set(annotated, flow);
+          changed = true;
+        }
+      }
+    }
+
+    for (const { filePath, sourceFile, identifier, annotated } of candidates) {
+      const flow = blocked.get(annotated);
+      if (flow) {
+        const flowFile = flow.getSourceFile();
+        const flowLine = flowFile.getLineAndCharacterOfPosition(flow.getStart(flowFile)).line + 1;
+        const line = sourceFile.getLineAndCharacterOfPosition(identifier.getStart(sourceFile)).line + 1;
+        result.warnings.push(`${filePath}:${line} 的 ${annotated.name.getText(sourceFile)} 會傳到需要 ${className.text} 的位置（${flowFile.fileName}:${flowLine}），未替換型別註記`);
+        remaining.set(filePath, (remaining.get(filePath) ?? 0) + 1);
+        continue;
+      }
+
+      const entry = editsByFile.get(filePath) ?? editsByFile.set(filePath, { sourceFile, edits: [] }).get(filePath)!;
+      entry.edits.push({ start: identifier.getStart(sourceFile), end: identifier.getEnd(), newText: interfaceName });
+      result.replacedUsages++;
+      if (filePath !== options.filePath) {
+        importers.add(filePath);
+      }
+    }
+
+    for (const filePath of importers) {
+      if (!remaining.has(filePath)) {
+        result.warnings.push(`${filePath} 已不再使用 ${className.text}，可移除其匯入`);
+      }
+    }
+    return importers;
+  }
+
+  /**
+   * 識別字為參數或變數的型別註記（含陣列、聯合與泛型引數中的型別）時，回傳被註記的宣告
+   */
+  private getAnnotatedDeclaration(identifier: ts.Identifier): AnnotatedDeclaration | undefined {
+    if (!ts.isTypeReferenceNode(identifier.parent) || identifier.parent.typeName !== identifier) {
+      return undefined;
+    }
+    let typeNode: ts.Node = identifier.parent;
+    while (ts.isTypeNode(typeNode.parent)) {
+      typeNode = typeNode.parent;
+    }
+    const owner = typeNode.parent;
+    return (ts.isParameter(owner) || ts.isVariableDeclaration(owner)) && owner.type === typeNode ? owner : undefined;
+  }
+
+  /**
+   * 找出參數或變數的值被傳到需要類別型別的位置（回傳值、有註記的變數、賦值或引數），
+   * 這類註記改為介面後無法再指派回類別型別；接收端的註記也會被替換時不算
+   */
+  private findClassTypedUsage(
+    annotated: AnnotatedDeclaration,
+    classSymbol: ts.Symbol | undefined,
+    program: ts.Program,
+    isReplaced: (receiver: ts.Node) => boolean
+  ): ts.Node | undefined {
+    if (!classSymbol || !ts.isIdentifier(annotated.name)) {
+      return undefined;
+    }
+    const checker = program.getTypeChecker();
+    const variable = checker.getSymbolAtLocation(annotated.name);
+    if (!variable) {
+      return undefined;
+    }
+
+    // 匯出的頂層變數可能在其他檔案使用
+    const statement = ts.isVariableDeclaration(annotated) ? annotated.parent.parent : undefined;
+    const sourceFiles = statement && ts.isVariableStatement(statement) && ts.isSourceFile(statement.parent) && isExported(statement)
+      ? program.getSourceFiles().filter(file => !file.isDeclarationFile)
+      : [annotated.getSourceFile()];
+
+    let found: ts.Node | undefined;
+    const visit = (node: ts.Node): void => {
+      if (found) {
+        return;
+      }
+      if (ts.isIdentifier(node) && node !== annotated.name && checker.getSymbolAtLocation(node) === variable) {
+        const contextualType = checker.getContextualType(node);
+        if (contextualType && this.referencesClass(contextualType, classSymbol, checker, new Set())) {
+          const receiver = this.getReceivingDeclaration(node, checker);
+          if (!receiver || !isReplaced(receiver)) {
+            found = node;
+            return;
+          }
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    sourceFiles.forEach(visit);
+    return found;
+  }
+
+  /**
+   * 取得接收值的變數或參數宣告：變數初始值、賦值右側或呼叫引數
+   */
+  private getReceivingDeclaration(node: ts.Expression, checker: ts.TypeChecker): ts.Node | undefined {
+    let expression: ts.Expression = node;
+    while (ts.isParenthesizedExpression(expression.parent)) {
+      expression = expression.parent;
+    }
+    const parent = expression.parent;
+    if (ts.isVariableDeclaration(parent) && parent.initializer === expression) {
+      return parent;
+    }
+    if (ts.isBinaryExpression(parent) && parent.right === expression && parent.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+      return checker.getSymbolAtLocation(parent.left)?.valueDeclaration;
+    }
+    if ((ts.isCallExpression(parent) || ts.isNewExpression(parent)) && parent.arguments?.includes(expression)) {
+      const parameter = checker.getResolvedSignature(parent)?.getParameters()[parent.arguments.indexOf(expression)];
+      return parameter?.valueDeclaration;
+    }
+    return undefined;
+  }
+
+  /**
+   * 判斷型別是否為類別本身，或在聯合、交集與泛型引數中包含類別
+   */
+  private referencesClass(type: ts.Type, classSymbol: ts.Symbol, checker: ts.TypeChecker, seen: Set<ts.Type>): boolean {
+    if (seen.has(type)) {
+      return false;
+    }
+    seen.add(type);
+    if (type.getSymbol() === classSymbol) {
+      return true;
+    }
+    if (type.isUnionOrIntersection()) {
+      return type.types.some(member => this.referencesClass(member, classSymbol, checker, seen));
+    }
+    if (type.flags & ts.TypeFlags.Object && (type as ts.ObjectType).objectFlags & ts.ObjectFlags.Reference) {
+      return checker.getTypeArguments(type as ts.TypeReference).some(argument => this.referencesClass(argument, classSymbol, checker, seen));
+    }
+    return false;
+  }
+
+  /**
+   * 取得成員前的 JSDoc 註解，縮排為介面成員的層級
+   */
+  private getDocComment(member: ts.Node, sourceFile: ts.SourceFile): string {
+    const comments = (ts.getLeadingCommentRanges(sourceFile.text, member.getFullStart()) ?? [])
+      .filter(comment => sourceFile.text.startsWith('/**', comment.pos));
+    const comment = comments[comments.length - 1];
+    if (!comment) {
+      return '';
+    }
+    const lines = sourceFile.text.slice(comment.pos, comment.end).split('\n').map(line => line.trim());
+    return `${lines.map(line => `  ${line.startsWith('*') ? ' ' : ''}${line}`).join('\n')}\n`;
+  }
+
+  private isPublic(node: ts.Node): boolean {
+    const name = (node as { name?: ts.Node }).name;
+    return !(name && ts.isPrivateIdentifier(name))
+      && !this.hasModifier(node, ts.SyntaxKind.PrivateKeyword)
+      && !this.hasModifier(node, ts.SyntaxKind.ProtectedKeyword);
+  }
+
+  private hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    return ts.canHaveModifiers(node) && ts.getModifiers(node)?.some(modifier => modifier.kind === kind) === true;
+  }
+
+  private isJavaScript(filePath: string): boolean {
+    return [ts.ScriptKind.JS, ts.ScriptKind.JSX].includes(getScriptKind(filePath));
+  }
+}
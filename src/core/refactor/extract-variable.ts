@@ -0,0 +1,527 @@
+/**
+ * 提取變數／常數重構器
+ * 將選取的運算式提取為所在區塊的 const/let 變數，或提取為模組層級常數
+ */
+
+import * as ts from 'typescript';
+import type { CodeEdit, Range } from './extract-function.js';
+import {
+  collectScopeDeclarations,
+  collectStatementDeclarations,
+  getScriptKind,
+  getStatements,
+  isAssignmentTarget,
+  isValueReference,
+  toOffset,
+  toRange
+} from './ast-scope.js';
+
+// 提取種類：variable 插入最近的區塊，constant 插入模組層級
+export type ExtractVariableKind = 'variable' | 'constant';
+
+// 提取變數配置
+export interface ExtractVariableConfig {
+  kind: ExtractVariableKind;
+  /** 變數名稱，未指定時依運算式產生 */
+  variableName?: string;
+  /** 一併取代作用域內相同的運算式 */
+  replaceAll?: boolean;
+  /** 以 let 宣告（僅適用於 variable） */
+  useLet?: boolean;
+  /** 檔案名稱，用於判斷 JS/JSX/TSX 語法 */
+  fileName?: string;
+}
+
+// 提取變數結果
+export interface ExtractVariableResult {
+  success: boolean;
+  variableName: string;
+  declaration: string;
+  /** 由檔案尾端往前排序，依序套用即可 */
+  edits: CodeEdit[];
+  /** 被取代的運算式位置 */
+  occurrences: Range[];
+  errors: string[];
+  warnings: string[];
+}
+
+// 以偏移量表示的編輯，排序後再轉成行列位置
+interface OffsetEdit {
+  start: number;
+  end: number;
+  newText: string;
+  type: CodeEdit['type'];
+}
+
+/**
+ * 變數提取器
+ */
+export class VariableExtractor {
+  /**
+   * 提取選取的運算式
+   * @param selection 選取範圍（line 為 1-based，column 為 0-based，end 不包含）
+   */
+  extract(code: string, selection: Range, config: ExtractVariableConfig): ExtractVariableResult {
+    const result: ExtractVariableResult = {
+      success: false,
+      variableName: config.variableName ?? '',
+      declaration: '',
+      edits: [],
+      occurrences: [],
+      errors: [],
+      warnings: []
+    };
+    const fail = (message: string): ExtractVariableResult => {
+      result.errors.push(message);
+      return result;
+    };
+
+    const fileName = config.fileName ?? 'extract.ts';
+    const sourceFile = ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true, getScriptKind(fileName));
+    const rawStart = toOffset(sourceFile, selection.start);
+    const rawEnd = toOffset(sourceFile, selection.end);
+    if (rawStart === undefined || rawEnd === undefined) {
+      return fail('選取範圍超出檔案');
+    }
+
+    const [start, end] = this.trimSelection(code, rawStart, rawEnd);
+    if (start >= end) {
+      return fail('選取範圍是空的');
+    }
+
+    const expression = this.findExpression(sourceFile, start, end);
+    if (!expression) {
+      return fail(`選取範圍不是完整的運算式: ${code.slice(start, end)}`);
+    }
+
+    const invalid = this.checkExtractable(expression);
+    if (invalid) {
+      return fail(invalid);
+    }
+
+    const location = this.locate(expression, config.kind, result.warnings);
+    if (typeof location === 'string') {
+      return fail(location);
+    }
+
+    // 收集要取代的運算式
+    const occurrences = config.replaceAll
+      ? this.findOccurrences(expression, location.scope, sourceFile)
+      : [expression];
+    const anchor = this.findAnchor(occurrences[0], location.scope);
+
+    if (config.kind === 'constant') {
+      for (const occurrence of occurrences) {
+        const problem = this.checkConstantReferences(occurrence, anchor, sourceFile);
+        if (problem) {
+          return fail(problem);
+        }
+      }
+    }
+    if (occurrences.length > 1) {
+      this.warnMergedOccurrences(expression, location.scope, result.warnings);
+    }
+
+    // 決定名稱
+    const usedNames = this.collectIdentifiers(location.scope);
+    let variableName = config.variableName;
+    if (variableName) {
+      if (!this.isValidIdentifier(variableName)) {
+        return fail(`無效的變數名稱: ${variableName}`);
+      }
+      if (usedNames.has(variableName)) {
+        return fail(`名稱 ${variableName} 已在作用域中使用`);
+      }
+    } else {
+      variableName = this.uniqueName(this.suggestName(expression, config.kind), usedNames);
+    }
+
+    let initializer = code.slice(start, end);
+    if (ts.isBinaryExpression(expression) && expression.operatorToken.kind === ts.SyntaxKind.CommaToken) {
+      initializer = `(${initializer})`;
+    }
+    const keyword = config.kind === 'variable' && config.useLet ? 'let' : 'const';
+    const declaration = `${keyword} ${variableName} = ${initializer};`;
+
+    const edits: OffsetEdit[] = occurrences.map(occurrence => ({
+      start: occurrence.getStart(sourceFile),
+      end: occurrence.getEnd(),
+      newText: this.replacementFor(occurrence, variableName!),
+      type: 'replace'
+    }));
+    edits.push(this.createDeclarationEdit(code, anchor, sourceFile, declaration, config.kind));
+
+    // 由後往前套用；同一位置先取代再插入，避免插入的文字被取代範圍覆蓋
+    edits.sort((a, b) => b.start - a.start || (a.type === 'replace' ? -1 : 1));
+
+    result.success = true;
+    result.variableName = variableName;
+    result.declaration = declaration;
+    result.edits = edits.map(edit => ({
+      range: toRange(sourceFile, edit.start, edit.end),
+      newText: edit.newText,
+      type: edit.type
+    }));
+    result.occurrences = occurrences.map(occurrence => toRange(sourceFile, occurrence.getStart(sourceFile), occurrence.getEnd()));
+    return result;
+  }
+
+  /**
+   * 去除選取範圍前後的空白與結尾的分號
+   */
+  private trimSelection(code: string, start: number, end: number): [number, number] {
+    while (start < end && /\s/.test(code[start])) {
+      start++;
+    }
+    while (end > start && /[\s;]/.test(code[end - 1])) {
+      end--;
+    }
+    return [start, end];
+  }
+
+  /**
+   * 找出範圍恰好等於選取範圍的最外層運算式
+   */
+  private findExpression(sourceFile: ts.SourceFile, start: number, end: number): ts.Expression | undefined {
+    let found: ts.Expression | undefined;
+    const visit = (node: ts.Node): void => {
+      if (found || node.getStart(sourceFile) > start || node.getEnd() < end) {
+        return;
+      }
+      if (node.getStart(sourceFile) === start && node.getEnd() === end && ts.isExpression(node)) {
+        found = node;
+        return;
+      }
+      ts.forEachChild(node, visit);
+    };
+    ts.forEachChild(sourceFile, visit);
+    return found;
+  }
+
+  /**
+   * 檢查運算式本身是否能以變數取代，回傳錯誤訊息
+   */
+  private checkExtractable(expression: ts.Expression): string | undefined {
+    const parent = expression.parent;
+
+    if (ts.isPartOfTypeNode(expression) || ts.isExpressionWithTypeArguments(expression) || ts.isHeritageClause(parent)) {
+      return '無法提取型別';
+    }
+    if ((parent as { name?: ts.Node }).name === expression || (parent as { propertyName?: ts.Node }).propertyName === expression
+      || (parent as { label?: ts.Node }).label === expression) {
+      return '無法提取宣告或屬性名稱';
+    }
+    if (ts.isImportDeclaration(parent) || ts.isExportDeclaration(parent) || ts.isExternalModuleReference(parent)) {
+      return '無法提取模組路徑';
+    }
+    if (expression.kind === ts.SyntaxKind.SuperKeyword || ts.isSpreadElement(expression) || ts.isOmittedExpression(expression)
+      || ts.isJsxExpression(expression) || ts.isJsxAttributes(expression)) {
+      return `無法提取 ${expression.getText()}`;
+    }
+    if (ts.isExpressionStatement(parent)) {
+      return '選取的是整個敘述，請選取敘述中的運算式';
+    }
+    if (isAssignmentTarget(expression)) {
+      return '無法提取賦值的目標';
+    }
+    if ((ts.isCallExpression(parent) || ts.isTaggedTemplateExpression(parent))
+      && (ts.isCallExpression(parent) ? parent.expression : parent.tag) === expression
+      && (ts.isPropertyAccessExpression(expression) || ts.isElementAccessExpression(expression))) {
+      return '提取方法參考會遺失 this 綁定，請選取整個呼叫';
+    }
+    if (ts.isOptionalChain(expression) && ts.isOptionalChain(parent) && parent.expression === expression
+      && !(parent as ts.PropertyAccessChain).questionDotToken) {
+      return '無法提取 optional chaining 的一部分，請選取整個鏈';
+    }
+    return undefined;
+  }
+
+  /**
+   * 由運算式往上找出宣告要插入的作用域，並檢查移動計算位置是否安全
+   * variable 停在最近的區塊，constant 停在模組層級
+   */
+  private locate(expression: ts.Expression, kind: ExtractVariableKind, warnings: string[]): { scope: ts.Node } | string {
+    let child: ts.Node = expression;
+    let current: ts.Node | undefined = expression.parent;
+
+    while (current) {
+      if (kind === 'variable' ? getStatements(current)?.includes(child as ts.Statement) : ts.isSourceFile(current)) {
+        return { scope: current };
+      }
+
+      if (ts.isConditionalExpression(current) && child !== current.condition
+        || ts.isBinaryExpression(current) && child === current.right && this.isShortCircuit(current.operatorToken.kind)
+        || ts.isIfStatement(current) && child === current.elseStatement && ts.isIfStatement(child)) {
+        this.addWarning(warnings, '運算式原本只在條件成立時計算，提取後會先計算');
+      } else if ((ts.isWhileStatement(current) || ts.isDoStatement(current)) && child === current.expression
+        || ts.isForStatement(current) && (child === current.condition || child === current.incrementor)) {
+        this.addWarning(warnings, '運算式位於迴圈條件中，提取後只會在迴圈開始前計算一次');
+      } else if (kind === 'variable') {
+        if (ts.isIfStatement(current) && (child === current.thenStatement || child === current.elseStatement)
+          || ts.isIterationStatement(current, false) && child === current.statement) {
+          return '運算式位於沒有大括號的 if/迴圈本體中，請先加上大括號';
+        }
+        if (ts.isArrowFunction(current) && child === current.body) {
+          return '運算式位於箭頭函式的運算式本體中，請先改為區塊本體';
+        }
+        if (ts.isFunctionLike(current) || ts.isClassElement(current)) {
+          return '運算式位於參數預設值或類別成員中，請改用 extract-constant';
+        }
+      }
+
+      child = current;
+      current = current.parent;
+    }
+
+    return '找不到可以插入宣告的位置';
+  }
+
+  private isShortCircuit(operator: ts.SyntaxKind): boolean {
+    return operator === ts.SyntaxKind.AmpersandAmpersandToken
+      || operator === ts.SyntaxKind.BarBarToken
+      || operator === ts.SyntaxKind.QuestionQuestionToken;
+  }
+
+  private addWarning(warnings: string[], message: string): void {
+    if (!warnings.includes(message)) {
+      warnings.push(message);
+    }
+  }
+
+  /**
+   * 找出作用域內 token 序列相同且可以取代的運算式（依位置排序）
+   */
+  private findOccurrences(expression: ts.Expression, scope: ts.Node, sourceFile: ts.SourceFile): ts.Expression[] {
+    const key = this.tokenKey(expression, sourceFile);
+    const occurrences: ts.Expression[] = [];
+    const visit = (node: ts.Node): void => {
+      if (node === expression || node.kind === expression.kind && ts.isExpression(node)
+        && this.tokenKey(node, sourceFile) === key && !this.checkExtractable(node)) {
+        occurrences.push(node as ts.Expression);
+        return;
+      }
+      ts.forEachChild(node, visit);
+    };
+    getStatements(scope)?.forEach(visit);
+    return occurrences;
+  }
+
+  /**
+   * 以略過空白與註解的 token 序列比對運算式
+   */
+  private tokenKey(node: ts.Node, sourceFile: ts.SourceFile): string {
+    const scanner = ts.createScanner(ts.ScriptTarget.Latest, true, sourceFile.languageVariant, node.getText(sourceFile));
+    const tokens: string[] = [];
+    while (scanner.scan() !== ts.SyntaxKind.EndOfFileToken) {
+      tokens.push(scanner.getTokenText());
+    }
+    return tokens.join('\u0000');
+  }
+
+  /**
+   * 找出作用域中包含運算式的敘述，宣告插入在此敘述之前
+   */
+  private findAnchor(expression: ts.Node, scope: ts.Node): ts.Statement {
+    let node = expression;
+    while (node.parent !== scope) {
+      node = node.parent;
+    }
+    return node as ts.Statement;
+  }
+
+  /**
+   * 常數只能引用模組層級且在插入位置之前宣告的名稱
+   */
+  private checkConstantReferences(expression: ts.Expression, anchor: ts.Statement, sourceFile: ts.SourceFile): string | undefined {
+    const references = new Set<string>();
+    let problem: string | undefined;
+    const visit = (node: ts.Node): void => {
+      if (node.kind === ts.SyntaxKind.ThisKeyword || node.kind === ts.SyntaxKind.SuperKeyword) {
+        problem = `常數不能引用 ${node.getText(sourceFile)}`;
+      } else if (ts.isAwaitExpression(node) || ts.isYieldExpression(node)) {
+        problem = '常數不能包含 await 或 yield';
+      } else if (ts.isIdentifier(node) && isValueReference(node)) {
+        references.add(node.text);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(expression);
+    if (problem) {
+      return problem;
+    }
+    if (references.has('arguments')) {
+      return '常數不能引用 arguments';
+    }
+
+    const locals = new Set<string>();
+    for (let scope = expression.parent; !ts.isSourceFile(scope); scope = scope.parent) {
+      collectScopeDeclarations(scope, locals);
+    }
+    const local = [...references].find(name => locals.has(name));
+    if (local) {
+      return `常數不能引用區域變數或參數 ${local}`;
+    }
+
+    // 在插入位置之後以 let/const/var/class 宣告的名稱會在常數初始化時尚未就緒
+    const later = new Set<string>();
+    for (const statement of sourceFile.statements.slice(sourceFile.statements.indexOf(anchor))) {
+      if (!ts.isFunctionDeclaration(statement) && !ts.isImportDeclaration(statement)) {
+        collectStatementDeclarations(statement, later);
+      }
+    }
+    const uninitialized = [...references].find(name => later.has(name));
+    return uninitialized ? `常數引用了在插入位置之後宣告的 ${uninitialized}` : undefined;
+  }
+
+  /**
+   * 合併多個出現位置可能改變行為時提出警告
+   */
+  private warnMergedOccurrences(expression: ts.Expression, scope: ts.Node, warnings: string[]): void {
+    let hasCall = false;
+    const references = new Set<string>();
+    const visitExpression = (node: ts.Node): void => {
+      if (ts.isCallExpression(node) || ts.isNewExpression(node) || ts.isTaggedTemplateExpression(node)) {
+        hasCall = true;
+      } else if (ts.isIdentifier(node) && isValueReference(node)) {
+        references.add(node.text);
+      }
+      ts.forEachChild(node, visitExpression);
+    };
+    visitExpression(expression);
+    if (hasCall) {
+      this.addWarning(warnings, '運算式包含函式呼叫，取代多處後只會呼叫一次');
+    }
+
+    const visitScope = (node: ts.Node): void => {
+      if (ts.isIdentifier(node) && references.has(node.text) && isAssignmentTarget(node)) {
+        this.addWarning(warnings, `運算式中的 ${node.text} 在作用域內被重新賦值，取代多處可能改變行為`);
+      }
+      ts.forEachChild(node, visitScope);
+    };
+    visitScope(scope);
+  }
+
+  /**
+   * 收集作用域內出現過的所有識別字，用於避免名稱衝突
+   */
+  private collectIdentifiers(scope: ts.Node): Set<string> {
+    const names = new Set<string>();
+    const visit = (node: ts.Node): void => {
+      if (ts.isIdentifier(node)) {
+        names.add(node.text);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(scope);
+    return names;
+  }
+
+  private isValidIdentifier(name: string): boolean {
+    if (!/^[A-Za-z_$][\w$]*$/.test(name)) {
+      return false;
+    }
+    const keyword = ts.identifierToKeywordKind(ts.factory.createIdentifier(name));
+    return keyword === undefined || keyword > ts.SyntaxKind.LastReservedWord;
+  }
+
+  /**
+   * 依運算式內容產生變數名稱
+   */
+  private suggestName(expression: ts.Expression, kind: ExtractVariableKind): string {
+    let node: ts.Expression = expression;
+    while (ts.isParenthesizedExpression(node) || ts.isAwaitExpression(node) || ts.isNonNullExpression(node)
+      || ts.isAsExpression(node) || ts.isSatisfiesExpression(node)) {
+      node = node.expression;
+    }
+
+    let name = 'value';
+    if (ts.isCallExpression(node)) {
+      const callee = this.memberName(node.expression);
+      name = callee ? this.lowerFirst(callee.replace(/^(get|fetch|load|read|find|create|build|compute|calculate|to)(?=[A-Z])/, '')) : 'result';
+    } else if (ts.isNewExpression(node)) {
+      name = this.lowerFirst(this.memberName(node.expression) ?? 'instance');
+    } else if (ts.isPropertyAccessExpression(node)) {
+      name = node.name.text;
+    } else if (ts.isElementAccessExpression(node)) {
+      name = 'element';
+    } else if (ts.isStringLiteral(node) || ts.isTemplateExpression(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+      name = 'text';
+    } else if (ts.isArrayLiteralExpression(node)) {
+      name = 'items';
+    } else if (ts.isObjectLiteralExpression(node)) {
+      name = 'options';
+    } else if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+      name = 'callback';
+    } else if (ts.isPrefixUnaryExpression(node) && node.operator === ts.SyntaxKind.ExclamationToken
+      || ts.isBinaryExpression(node) && this.isComparison(node.operatorToken.kind)) {
+      name = 'condition';
+    }
+
+    if (!this.isValidIdentifier(name)) {
+      name = 'value';
+    }
+    return kind === 'constant' ? name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase() : name;
+  }
+
+  private memberName(node: ts.Expression): string | undefined {
+    if (ts.isIdentifier(node)) {
+      return node.text;
+    }
+    return ts.isPropertyAccessExpression(node) ? node.name.text : undefined;
+  }
+
+  private isComparison(operator: ts.SyntaxKind): boolean {
+    return operator >= ts.SyntaxKind.LessThanToken && operator <= ts.SyntaxKind.ExclamationEqualsEqualsToken
+      || operator === ts.SyntaxKind.AmpersandAmpersandToken
+      || operator === ts.SyntaxKind.BarBarToken
+      || operator === ts.SyntaxKind.InstanceOfKeyword
+      || operator === ts.SyntaxKind.InKeyword;
+  }
+
+  private lowerFirst(name: string): string {
+    return name.charAt(0).toLowerCase() + name.slice(1);
+  }
+
+  private uniqueName(base: string, usedNames: ReadonlySet<string>): string {
+    let name = base;
+    for (let suffix = 2; usedNames.has(name); suffix++) {
+      name = `${base}${suffix}`;
+    }
+    return name;
+  }
+
+  /**
+   * JSX 子節點與屬性值需要以大括號包住變數
+   */
+  private replacementFor(expression: ts.Expression, name: string): string {
+    const parent = expression.parent;
+    if (ts.isJsxElement(parent) || ts.isJsxFragment(parent) || ts.isJsxAttribute(parent)) {
+      return `{${name}}`;
+    }
+    return name;
+  }
+
+  /**
+   * 在錨點敘述（含其前導註解）之前插入宣告，沿用錨點的縮排
+   */
+  private createDeclarationEdit(
+    code: string,
+    anchor: ts.Statement,
+    sourceFile: ts.SourceFile,
+    declaration: string,
+    kind: ExtractVariableKind
+  ): OffsetEdit {
+    const comments = ts.getLeadingCommentRanges(code, anchor.getFullStart());
+    const position = comments && comments.length > 0 ? comments[0].pos : anchor.getStart(sourceFile);
+    const lineStart = code.lastIndexOf('\n', position - 1) + 1;
+    const indent = code.slice(lineStart, position);
+    const newline = code.includes('\r\n') ? '\r\n' : '\n';
+
+    if (/^[ \t]*$/.test(indent)) {
+      const separator = kind === 'constant' ? newline + newline : newline;
+      return { start: lineStart, end: lineStart, newText: `${indent}${declaration}${separator}`, type: 'insert' };
+    }
+    // 錨點與其他程式碼位於同一行時直接插在敘述前
+    return { start: position, end: position, newText: `${declaration} `, type: 'insert' };
+  }
+}
@@ -1,6 +1,6 @@
 /**
  * Refactor 模組統一匯出
- * 提供程式碼重構功能，包括函式提取、內聯和設計模式應用
+ * 提供程式碼重構功能，包括函式與變數提取、內聯和設計模式應用
  */
 
 // 函式提取重構
@@ -14,16 +14,55 @@ export {
   type CodeEdit
 } from './extract-function.js';
 
+// 變數／常數提取重構
+export {
+  VariableExtractor,
+  type ExtractVariableKind,
+  type ExtractVariableConfig,
+  type ExtractVariableResult
+} from './extract-variable.js';
+
 // 函式內聯重構
 export {
   FunctionInliner,
   InlineAnalyzer,
   type InlineResult,
+  type VariableInlineAnalysis,
   type InlineConfig,
   type FunctionDefinition,
   type FunctionCall
 } from './inline-function.js';
 
+// 變數內聯重構
+export {
+  VariableInliner,
+  type InlineVariableResult,
+  type InlineVariableConfig
+} from './inline-variable.js';
+
+// 變更函式簽名重構
+export {
+  SignatureChanger,
+  type ParameterSpec,
+  type ChangeSignatureOptions,
+  type ChangeSignatureResult,
+  type SignatureFileEdits
+} from './change-signature.js';
+
+// 引入參數物件重構
+export {
+  ParameterObjectIntroducer,
+  type IntroduceParameterObjectOptions,
+  type IntroduceParameterObjectResult
+} from './introduce-parameter-object.js';
+
+// 提取介面重構
+export {
+  InterfaceExtractor,
+  type ExtractInterfaceOptions,
+  type ExtractInterfaceResult
+} from './extract-interface.js';
+
 // 設計模式重構
 export {
   DesignPatternRefactorer,
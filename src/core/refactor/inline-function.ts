@@ -3,6 +3,16 @@
  * 將函式呼叫替換為函式內容
  */
 
+import * as ts from 'typescript';
+import {
+  collectScopeDeclarations,
+  collectStatementDeclarations,
+  findSideEffect,
+  getStatements,
+  isAssignmentTarget,
+  isValueReference
+} from './ast-scope.js';
+
 // 重用來自 extract-function 的介面
 export interface Range {
   start: { line: number; column: number };
@@ -69,9 +79,17 @@ export interface ASTNode {
   arguments?: ASTNode[];
 }
 
+// 變數內聯分析結果
+export interface VariableInlineAnalysis {
+  canInline: boolean;
+  issues: string[];
+  warnings: string[];
+  referencesCount: number;
+}
+
 /**
  * 內聯分析器
- * 分析函式是否適合內聯
+ * 分析函式與變數是否適合內聯
  */
 export class InlineAnalyzer {
   /**
@@ -229,6 +247,263 @@ export class InlineAnalyzer {
     // 簡化實作：實際需要進行詳細的作用域分析
     return conflicts;
   }
+
+  /**
+   * 分析變數的可內聯性
+   * @param declaration 變數宣告
+   * @param references 宣告作用域內指向此變數的識別字（不含宣告名稱）
+   * @param scope 變數的作用域（區塊或函式本體）
+   */
+  analyzeVariable(
+    declaration: ts.VariableDeclaration,
+    references: readonly ts.Identifier[],
+    scope: ts.Node
+  ): VariableInlineAnalysis {
+    const issues: string[] = [];
+    const warnings: string[] = [];
+    const result = (): VariableInlineAnalysis => ({ canInline: issues.length === 0, issues, warnings, referencesCount: references.length });
+
+    const initializer = declaration.initializer;
+    const owner = declaration.parent.parent;
+    if (!ts.isIdentifier(declaration.name)) {
+      issues.push('無法內聯解構宣告');
+    } else if (!initializer) {
+      issues.push('變數沒有初始值');
+    } else if (!ts.isVariableStatement(owner)) {
+      issues.push('無法內聯迴圈或 catch 的變數');
+    } else if (owner.modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword || modifier.kind === ts.SyntaxKind.DeclareKeyword)) {
+      issues.push('變數已匯出，無法內聯');
+    }
+    if (issues.length > 0 || !initializer) {
+      return result();
+    }
+    const name = declaration.name.getText();
+
+    // 檢查變數的使用方式
+    const written = references.find(reference => isAssignmentTarget(reference));
+    if (written) {
+      issues.push(`變數 ${name} 被重新賦值（第 ${this.lineOf(written)} 行）`);
+    }
+    if (references.some(reference => ts.isPartOfTypeNode(reference))) {
+      issues.push(`變數 ${name} 在型別中被引用（typeof ${name}）`);
+    }
+    if (references.some(reference => reference.getStart() >= declaration.getStart() && reference.getEnd() <= declaration.getEnd())) {
+      issues.push(`變數 ${name} 在自己的初始值中被引用`);
+    }
+
+    // 檢查初始值本身
+    const sideEffect = findSideEffect(initializer);
+    if (sideEffect) {
+      issues.push(`初始值有副作用（${sideEffect}），內聯會改變執行次數或順序`);
+    }
+    if (references.length > 1 && this.createsNewValue(initializer)) {
+      issues.push('初始值每次計算都會建立新的物件，內聯多處會改變物件同一性');
+    }
+
+    const freeNames = this.collectFreeNames(initializer);
+    const usesContext = this.usesThis(initializer.getText()) || this.usesArguments(initializer.getText())
+      || this.containsKind(initializer, ts.SyntaxKind.SuperKeyword);
+    this.checkReassignedNames(freeNames, declaration, scope, issues);
+
+    let crossesAwait = false;
+    let stateChange: ts.Node | undefined;
+    let inClosure = false;
+    for (const reference of references) {
+      let insideFunction = false;
+      for (let node: ts.Node = reference.parent; node !== scope && node !== scope.parent; node = node.parent) {
+        const declared = new Set<string>();
+        collectScopeDeclarations(node, declared);
+        const shadowed = [...freeNames].find(freeName => declared.has(freeName));
+        if (shadowed) {
+          this.addIssue(issues, `初始值引用的 ${shadowed} 在第 ${this.lineOf(reference)} 行指向不同的宣告`);
+        }
+        if (ts.isFunctionLike(node)) {
+          insideFunction = true;
+          if (usesContext && !ts.isArrowFunction(node)) {
+            this.addIssue(issues, '初始值使用 this/arguments/super，內聯到巢狀函式中會改變上下文');
+          }
+        }
+      }
+      inClosure = inClosure || insideFunction;
+      if (!insideFunction) {
+        crossesAwait = crossesAwait || this.hasAwaitBetween(scope, declaration.getEnd(), reference.getStart());
+        stateChange ??= this.findStateChangeBetween(scope, declaration.getEnd(), reference.getStart());
+      }
+    }
+
+    // 只讀取常數或不會被重新賦值的區域變數時，初始值不受計算時間點影響
+    const readsState = usesContext || this.containsPropertyAccess(initializer)
+      || [...freeNames].some(freeName => !this.isStableBinding(freeName, declaration));
+    if (readsState && crossesAwait) {
+      issues.push('內聯會讓初始值在 await 之後才計算，改變計算順序');
+    } else if (readsState && stateChange) {
+      issues.push(`內聯會讓初始值在第 ${this.lineOf(stateChange)} 行的 ${stateChange.getText()} 之後才計算，讀到的狀態可能已改變`);
+    }
+    if (readsState && inClosure) {
+      warnings.push('變數在巢狀函式中被引用，內聯後初始值會在函式執行時才計算');
+    }
+    if (declaration.type) {
+      warnings.push(`型別註記 ${declaration.type.getText()} 會被移除`);
+    }
+    if (references.length === 0) {
+      warnings.push('變數沒有被讀取，只會移除宣告');
+    }
+
+    return result();
+  }
+
+  /**
+   * 判斷運算式是否每次計算都產生新的物件
+   */
+  private createsNewValue(expression: ts.Expression): boolean {
+    let node = expression;
+    while (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node) || ts.isNonNullExpression(node)) {
+      node = node.expression;
+    }
+    return ts.isObjectLiteralExpression(node) || ts.isArrayLiteralExpression(node)
+      || ts.isFunctionExpression(node) || ts.isArrowFunction(node) || ts.isClassExpression(node)
+      || ts.isRegularExpressionLiteral(node) || ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxFragment(node);
+  }
+
+  /**
+   * 收集運算式讀取的外部名稱（排除運算式內部宣告的參數）
+   */
+  private collectFreeNames(expression: ts.Expression): Set<string> {
+    const inner = new Set<string>();
+    const names = new Set<string>();
+    const visit = (node: ts.Node): void => {
+      collectScopeDeclarations(node, inner);
+      if (ts.isIdentifier(node) && isValueReference(node)) {
+        names.add(node.text);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(expression);
+    inner.forEach(name => names.delete(name));
+    return names;
+  }
+
+  /**
+   * 初始值讀取的變數在宣告之後被重新賦值時，內聯會讀到不同的值
+   */
+  private checkReassignedNames(names: ReadonlySet<string>, declaration: ts.VariableDeclaration, scope: ts.Node, issues: string[]): void {
+    const visit = (node: ts.Node): void => {
+      if (ts.isIdentifier(node) && names.has(node.text) && node.getStart() > declaration.getEnd() && isAssignmentTarget(node)) {
+        this.addIssue(issues, `初始值引用的 ${node.text} 在宣告之後被重新賦值（第 ${this.lineOf(node)} 行）`);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(scope);
+  }
+
+  /**
+   * 檢查同一函式內兩個位置之間是否有 await / yield
+   */
+  private hasAwaitBetween(scope: ts.Node, start: number, end: number): boolean {
+    let found = false;
+    const visit = (node: ts.Node): void => {
+      if (found || node.getEnd() <= start || node.getStart() >= end || ts.isFunctionLike(node)) {
+        return;
+      }
+      if ((ts.isAwaitExpression(node) || ts.isYieldExpression(node)) && node.getStart() >= start) {
+        found = true;
+        return;
+      }
+      if (ts.isForOfStatement(node) && node.awaitModifier && node.getStart() >= start) {
+        found = true;
+        return;
+      }
+      ts.forEachChild(node, visit);
+    };
+    ts.forEachChild(scope, visit);
+    return found;
+  }
+
+  /**
+   * 找出同一函式內兩個位置之間第一個可能改變狀態的運算：呼叫、賦值、++/-- 或 delete
+   * 包含讀取位置的呼叫（引用是它的引數）在讀取之後才執行，不計入
+   */
+  private findStateChangeBetween(scope: ts.Node, start: number, end: number): ts.Node | undefined {
+    let found: ts.Node | undefined;
+    const visit = (node: ts.Node): void => {
+      if (found || node.getEnd() <= start || node.getStart() >= end || ts.isFunctionLike(node)) {
+        return;
+      }
+      ts.forEachChild(node, visit);
+      if (!found && node.getStart() >= start && node.getEnd() <= end && this.changesState(node)) {
+        found = node;
+      }
+    };
+    ts.forEachChild(scope, visit);
+    return found;
+  }
+
+  private changesState(node: ts.Node): boolean {
+    if (ts.isCallExpression(node) || ts.isNewExpression(node) || ts.isTaggedTemplateExpression(node) || ts.isDeleteExpression(node)) {
+      return true;
+    }
+    if (ts.isBinaryExpression(node)) {
+      const operator = node.operatorToken.kind;
+      return operator >= ts.SyntaxKind.FirstAssignment && operator <= ts.SyntaxKind.LastAssignment;
+    }
+    return (ts.isPrefixUnaryExpression(node) || ts.isPostfixUnaryExpression(node))
+      && (node.operator === ts.SyntaxKind.PlusPlusToken || node.operator === ts.SyntaxKind.MinusMinusToken);
+  }
+
+  /**
+   * 判斷名稱在計算時間點改變時是否仍指向相同的值：
+   * 同一函式內的區域變數與參數（重新賦值已另外檢查），或外層的 const、函式、類別與 import
+   */
+  private isStableBinding(name: string, declaration: ts.VariableDeclaration): boolean {
+    let crossedFunction = false;
+    for (let node: ts.Node | undefined = declaration.parent; node; node = node.parent) {
+      for (const statement of getStatements(node) ?? []) {
+        const declared = new Set<string>();
+        if (ts.isVariableStatement(statement)) {
+          collectStatementDeclarations(statement, declared);
+          if (declared.has(name)) {
+            return !crossedFunction || (statement.declarationList.flags & ts.NodeFlags.Const) !== 0;
+          }
+        } else if (ts.isImportDeclaration(statement)) {
+          const clause = statement.importClause;
+          if (clause?.name?.text === name || clause?.namedBindings && (ts.isNamespaceImport(clause.namedBindings)
+            ? clause.namedBindings.name.text === name
+            : clause.namedBindings.elements.some(element => element.name.text === name))) {
+            return true;
+          }
+        }
+      }
+      const declared = new Set<string>();
+      collectScopeDeclarations(node, declared);
+      if (declared.has(name)) {
+        return !crossedFunction;
+      }
+      crossedFunction = crossedFunction || ts.isFunctionLike(node);
+    }
+    return false;
+  }
+
+  private containsPropertyAccess(node: ts.Node): boolean {
+    if (ts.isFunctionLike(node)) {
+      return false;
+    }
+    return ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node)
+      || ts.forEachChild(node, child => this.containsPropertyAccess(child) || undefined) === true;
+  }
+
+  private containsKind(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    return node.kind === kind || ts.forEachChild(node, child => this.containsKind(child, kind) || undefined) === true;
+  }
+
+  private lineOf(node: ts.Node): number {
+    return node.getSourceFile().getLineAndCharacterOfPosition(node.getStart()).line + 1;
+  }
+
+  private addIssue(issues: string[], issue: string): void {
+    if (!issues.includes(issue)) {
+      issues.push(issue);
+    }
+  }
 }
 
 /**
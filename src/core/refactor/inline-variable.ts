@@ -0,0 +1,268 @@
+/**
+ * 內聯變數重構器
+ * 將只賦值一次的區域變數的讀取替換為初始值，並移除宣告
+ */
+
+import * as ts from 'typescript';
+import type { CodeEdit, Range } from './extract-function.js';
+import { InlineAnalyzer } from './inline-function.js';
+import { collectScopeDeclarations, getScriptKind, getStatements, isValueReference, toOffset, toRange } from './ast-scope.js';
+
+// 內聯變數配置
+export interface InlineVariableConfig {
+  /** 檔案名稱，用於判斷 JS/JSX/TSX 語法 */
+  fileName?: string;
+}
+
+// 內聯變數結果
+export interface InlineVariableResult {
+  success: boolean;
+  variableName: string;
+  initializer: string;
+  /** 由檔案尾端往前排序，依序套用即可 */
+  edits: CodeEdit[];
+  inlinedReferencesCount: number;
+  errors: string[];
+  warnings: string[];
+}
+
+// 以偏移量表示的編輯，排序後再轉成行列位置
+interface OffsetEdit {
+  start: number;
+  end: number;
+  newText: string;
+  type: CodeEdit['type'];
+}
+
+/**
+ * 變數內聯器
+ */
+export class VariableInliner {
+  private analyzer = new InlineAnalyzer();
+
+  /**
+   * 內聯指定位置的變數
+   * @param position 變數宣告或任一引用的位置（line 為 1-based，column 為 0-based）
+   */
+  inline(code: string, position: Range['start'], config: InlineVariableConfig = {}): InlineVariableResult {
+    const result: InlineVariableResult = {
+      success: false,
+      variableName: '',
+      initializer: '',
+      edits: [],
+      inlinedReferencesCount: 0,
+      errors: [],
+      warnings: []
+    };
+    const fail = (message: string): InlineVariableResult => {
+      result.errors.push(message);
+      return result;
+    };
+
+    const fileName = config.fileName ?? 'inline.ts';
+    const sourceFile = ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true, getScriptKind(fileName));
+    const offset = toOffset(sourceFile, position);
+    if (offset === undefined) {
+      return fail('位置超出檔案');
+    }
+
+    const identifier = this.findIdentifierAt(sourceFile, offset);
+    if (!identifier) {
+      return fail('指定位置沒有變數名稱');
+    }
+    result.variableName = identifier.text;
+
+    const declaration = ts.isVariableDeclaration(identifier.parent) && identifier.parent.name === identifier
+      ? identifier.parent
+      : this.findDeclaration(identifier);
+    if (!declaration || !ts.isVariableDeclarationList(declaration.parent)) {
+      return fail(`找不到 ${identifier.text} 的變數宣告，只能內聯以 const/let/var 宣告的變數`);
+    }
+
+    const scope = this.getScope(declaration);
+    const references = this.findReferences(declaration, scope);
+    const analysis = this.analyzer.analyzeVariable(declaration, references, scope);
+    result.warnings.push(...analysis.warnings);
+    if (!analysis.canInline || !declaration.initializer) {
+      result.errors.push(...analysis.issues);
+      return result;
+    }
+
+    const initializer = declaration.initializer.getText(sourceFile);
+    const edits: OffsetEdit[] = references.map(reference => {
+      let text = this.needsParentheses(reference, declaration.initializer!) ? `(${initializer})` : initializer;
+      if (ts.isShorthandPropertyAssignment(reference.parent)) {
+        text = `${reference.text}: ${initializer}`;
+      }
+      return { start: reference.getStart(sourceFile), end: reference.getEnd(), newText: text, type: 'replace' };
+    });
+    edits.push(this.createRemoval(code, declaration, sourceFile));
+    edits.sort((a, b) => b.start - a.start);
+
+    result.success = true;
+    result.initializer = initializer;
+    result.inlinedReferencesCount = references.length;
+    result.edits = edits.map(edit => ({
+      range: toRange(sourceFile, edit.start, edit.end),
+      newText: edit.newText,
+      type: edit.type
+    }));
+    return result;
+  }
+
+  /**
+   * 找出位置上的識別字（游標在名稱結尾也算）
+   */
+  private findIdentifierAt(sourceFile: ts.SourceFile, offset: number): ts.Identifier | undefined {
+    let found: ts.Identifier | undefined;
+    const visit = (node: ts.Node): void => {
+      if (node.getStart(sourceFile) > offset || node.getEnd() < offset) {
+        return;
+      }
+      if (ts.isIdentifier(node)) {
+        found = node;
+        return;
+      }
+      ts.forEachChild(node, visit);
+    };
+    ts.forEachChild(sourceFile, visit);
+    return found;
+  }
+
+  /**
+   * 由引用往外層作用域找出同名的變數宣告，遇到同名的參數或其他宣告時回傳 undefined
+   */
+  private findDeclaration(identifier: ts.Identifier): ts.VariableDeclaration | undefined {
+    if (!isValueReference(identifier) && !ts.isTypeQueryNode(identifier.parent)) {
+      return undefined;
+    }
+    for (let scope: ts.Node | undefined = identifier.parent; scope; scope = scope.parent) {
+      for (const statement of getStatements(scope) ?? []) {
+        if (ts.isVariableStatement(statement)) {
+          const declaration = statement.declarationList.declarations
+            .find(candidate => ts.isIdentifier(candidate.name) && candidate.name.text === identifier.text);
+          if (declaration) {
+            return declaration;
+          }
+        }
+      }
+      const declared = new Set<string>();
+      collectScopeDeclarations(scope, declared);
+      if (declared.has(identifier.text)) {
+        return undefined;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * let/const 的作用域是所在區塊，var 是所在函式
+   */
+  private getScope(declaration: ts.VariableDeclaration): ts.Node {
+    const list = declaration.parent as ts.VariableDeclarationList;
+    let scope: ts.Node = list.parent.parent;
+    if (!(list.flags & ts.NodeFlags.BlockScoped)) {
+      while (!ts.isSourceFile(scope) && !ts.isFunctionLike(scope.parent)) {
+        scope = scope.parent;
+      }
+    }
+    return scope;
+  }
+
+  /**
+   * 找出作用域內指向宣告的識別字，略過重新宣告同名變數的巢狀作用域
+   */
+  private findReferences(declaration: ts.VariableDeclaration, scope: ts.Node): ts.Identifier[] {
+    const name = declaration.name.getText();
+    const references: ts.Identifier[] = [];
+    const visit = (node: ts.Node): void => {
+      if (node !== scope && !(node.pos <= declaration.pos && declaration.end <= node.end)) {
+        const declared = new Set<string>();
+        collectScopeDeclarations(node, declared);
+        if (declared.has(name)) {
+          return;
+        }
+      }
+      if (ts.isIdentifier(node) && node.text === name && node !== declaration.name
+        && (isValueReference(node) || ts.isTypeQueryNode(node.parent))) {
+        references.push(node);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(scope);
+    return references;
+  }
+
+  /**
+   * 初始值放到引用位置時是否需要加上括號
+   */
+  private needsParentheses(reference: ts.Identifier, initializer: ts.Expression): boolean {
+    if (ts.isBinaryExpression(initializer) && initializer.operatorToken.kind === ts.SyntaxKind.CommaToken) {
+      return !ts.isParenthesizedExpression(reference.parent);
+    }
+
+    const parent = reference.parent;
+    if (ts.isNumericLiteral(initializer) && ts.isPropertyAccessExpression(parent) && parent.expression === reference) {
+      return true;
+    }
+    if (ts.isNewExpression(parent) && parent.expression === reference) {
+      return !ts.isIdentifier(initializer) && !ts.isPropertyAccessExpression(initializer);
+    }
+    // 物件字面值、函式與類別位於敘述開頭或箭頭函式本體時會被解析成區塊或宣告
+    const startsStatement = ts.isObjectLiteralExpression(initializer) || ts.isFunctionExpression(initializer) || ts.isClassExpression(initializer);
+    if (startsStatement && (ts.isExpressionStatement(parent) || ts.isArrowFunction(parent) || !this.isSafeSlot(reference))) {
+      return true;
+    }
+
+    const isPrimary = ts.isIdentifier(initializer) || ts.isLiteralExpression(initializer) || ts.isTemplateExpression(initializer)
+      || ts.isPropertyAccessExpression(initializer) || ts.isElementAccessExpression(initializer) || ts.isCallExpression(initializer)
+      || ts.isParenthesizedExpression(initializer) || ts.isArrayLiteralExpression(initializer) || startsStatement
+      || ts.isNewExpression(initializer) && initializer.arguments !== undefined
+      || [ts.SyntaxKind.TrueKeyword, ts.SyntaxKind.FalseKeyword, ts.SyntaxKind.NullKeyword, ts.SyntaxKind.ThisKeyword].includes(initializer.kind);
+    return !isPrimary && !this.isSafeSlot(reference);
+  }
+
+  /**
+   * 引用位於不需要考慮運算子優先順序的位置
+   */
+  private isSafeSlot(reference: ts.Identifier): boolean {
+    const parent = reference.parent;
+    return ts.isParenthesizedExpression(parent)
+      || (ts.isCallExpression(parent) || ts.isNewExpression(parent)) && parent.arguments?.some(argument => argument === reference) === true
+      || ts.isArrayLiteralExpression(parent) || ts.isSpreadElement(parent) || ts.isSpreadAssignment(parent)
+      || ts.isPropertyAssignment(parent) && parent.initializer === reference
+      || ts.isShorthandPropertyAssignment(parent)
+      || ts.isVariableDeclaration(parent) && parent.initializer === reference
+      || ts.isElementAccessExpression(parent) && parent.argumentExpression === reference
+      || ts.isReturnStatement(parent) || ts.isThrowStatement(parent) || ts.isExpressionStatement(parent)
+      || ts.isTemplateSpan(parent) || ts.isJsxExpression(parent)
+      || ts.isIfStatement(parent) || ts.isWhileStatement(parent) || ts.isDoStatement(parent)
+      || ts.isSwitchStatement(parent) || ts.isCaseClause(parent)
+      || ts.isArrowFunction(parent) && parent.body === reference;
+  }
+
+  /**
+   * 移除宣告：只有一個宣告時移除整個敘述（佔滿整行時連同換行），否則只移除該宣告與相鄰的逗號
+   */
+  private createRemoval(code: string, declaration: ts.VariableDeclaration, sourceFile: ts.SourceFile): OffsetEdit {
+    const declarations = (declaration.parent as ts.VariableDeclarationList).declarations;
+    const index = declarations.indexOf(declaration);
+    if (declarations.length > 1) {
+      return index < declarations.length - 1
+        ? { start: declaration.getStart(sourceFile), end: declarations[index + 1].getStart(sourceFile), newText: '', type: 'delete' }
+        : { start: declarations[index - 1].getEnd(), end: declaration.getEnd(), newText: '', type: 'delete' };
+    }
+
+    const statement = declaration.parent.parent;
+    let start = statement.getStart(sourceFile);
+    let end = statement.getEnd();
+    const lineStart = code.lastIndexOf('\n', start - 1) + 1;
+    const lineEnd = code.indexOf('\n', end);
+    const rest = code.slice(end, lineEnd === -1 ? code.length : lineEnd);
+    if (/^[ \t]*$/.test(code.slice(lineStart, start)) && /^\s*$/.test(rest)) {
+      start = lineStart;
+      end = lineEnd === -1 ? code.length : lineEnd + 1;
+    }
+    return { start, end, newText: '', type: 'delete' };
+  }
+}
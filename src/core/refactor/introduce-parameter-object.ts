@@ -0,0 +1,306 @@
+/**
+ * 引入參數物件重構器
+ * 將函式的多個參數合併為一個介面型別的物件參數，函式以解構取得原本的參數，呼叫處改傳物件字面值
+ */
+
+import * as path from 'path';
+import * as ts from 'typescript';
+import type { TypeScriptParser } from '../../plugins/typescript/parser.js';
+import type { TypeScriptAST } from '../../plugins/typescript/types.js';
+import { getScriptKind, toRange } from './ast-scope.js';
+import type { SignatureFileEdits } from './change-signature.js';
+import {
+  collectSignatureReferences,
+  findSignatureTarget,
+  getSignatureParameters,
+  hasBody,
+  lineOf,
+  pushEdit,
+  textWithEdits,
+  type OffsetEdit
+} from './signature-references.js';
+import { createTypeImport, getInsertPosition, getTopLevelNames, getTopLevelStatement, isExported } from './type-declarations.js';
+
+// 引入參數物件選項
+export interface IntroduceParameterObjectOptions {
+  filePath: string;
+  /** 函式名稱，方法可用 Class.method 指定 */
+  functionName: string;
+  /** 要放入參數物件的參數名稱（必須相鄰），省略時為全部參數 */
+  parameters?: string[];
+  /** 介面名稱，省略時為「函式名稱 + Params」 */
+  interfaceName?: string;
+  /** 專案內的原始檔案，用於跨檔案查找呼叫處 */
+  files: ReadonlyArray<{ filePath: string; content: string }>;
+}
+
+// 引入參數物件結果
+export interface IntroduceParameterObjectResult {
+  success: boolean;
+  interfaceName: string;
+  interfaceDeclaration: string;
+  parameters: string[];
+  files: SignatureFileEdits[];
+  updatedDeclarations: number;
+  updatedCalls: number;
+  errors: string[];
+  warnings: string[];
+}
+
+// 參數物件的屬性
+interface ParameterProperty {
+  name: string;
+  type: string;
+  optional: boolean;
+}
+
+/**
+ * 參數物件引入器
+ */
+export class ParameterObjectIntroducer {
+  constructor(private readonly parser: TypeScriptParser) {}
+
+  /**
+   * 將選取的參數合併為參數物件並更新所有宣告與呼叫處
+   */
+  async introduce(options: IntroduceParameterObjectOptions): Promise<IntroduceParameterObjectResult> {
+    const result: IntroduceParameterObjectResult = {
+      success: false,
+      interfaceName: '',
+      interfaceDeclaration: '',
+      parameters: [],
+      files: [],
+      updatedDeclarations: 0,
+      updatedCalls: 0,
+      errors: [],
+      warnings: []
+    };
+    const fail = (message: string): IntroduceParameterObjectResult => {
+      result.errors.push(message);
+      return result;
+    };
+
+    const contents = new Map(options.files.map(file => [file.filePath, file.content]));
+    const code = contents.get(options.filePath);
+    if (code === undefined) {
+      return fail(`找不到檔案: ${options.filePath}`);
+    }
+    if (this.isJavaScript(options.filePath)) {
+      return fail('引入參數物件需要 TypeScript 檔案，JavaScript 無法宣告介面');
+    }
+
+    const ast = await this.parser.parse(code, options.filePath) as TypeScriptAST;
+    const target = findSignatureTarget(ast.tsSourceFile, options.functionName);
+    if (typeof target === 'string') {
+      return fail(target);
+    }
+
+    const parameters = getSignatureParameters(target.declaration);
+    const selected = this.selectParameters(parameters, options.parameters);
+    if (typeof selected === 'string') {
+      return fail(selected);
+    }
+    const properties = this.createProperties(selected.map(index => parameters[index]));
+    if (typeof properties === 'string') {
+      return fail(properties);
+    }
+
+    const interfaceName = options.interfaceName ?? `${target.name.text.charAt(0).toUpperCase()}${target.name.text.slice(1)}Params`;
+    if (!/^[A-Za-z_$][\w$]*$/.test(interfaceName)) {
+      return fail(`無效的介面名稱: ${interfaceName}`);
+    }
+    if (getTopLevelNames(ast.tsSourceFile).has(interfaceName)) {
+      return fail(`名稱 ${interfaceName} 已存在於 ${path.basename(options.filePath)}`);
+    }
+
+    const first = selected[0];
+    const last = selected[selected.length - 1];
+    const allOptional = properties.every(property => property.optional);
+    const references = await collectSignatureReferences(this.parser, ast, target, options.files, result.warnings);
+    // 介面宣告放在目標檔案中第一個使用它的宣告之前
+    let anchorNode: ts.Node = target.declaration;
+    const editsByFile = new Map<string, { sourceFile: ts.SourceFile; edits: OffsetEdit[] }>();
+    const importers = new Set<string>();
+
+    for (const { filePath, content, sourceFile, declarations, calls } of references) {
+      const edits: OffsetEdit[] = [];
+      for (const call of calls) {
+        const args = call.arguments;
+        if (!args || args.length <= first) {
+          continue;
+        }
+        if (args.some(ts.isSpreadElement)) {
+          result.warnings.push(`${filePath}:${lineOf(sourceFile, call)} 的呼叫使用展開引數，未更新`);
+          continue;
+        }
+        const values = selected.filter(index => index < args.length).map(index => {
+          const name = properties[index - first].name;
+          const text = textWithEdits(content, args[index].getStart(sourceFile), args[index].getEnd(), edits);
+          return text === name ? name : `${name}: ${text}`;
+        });
+        pushEdit(edits, {
+          start: args[first].getStart(sourceFile),
+          end: args[Math.min(last, args.length - 1)].getEnd(),
+          newText: `{ ${values.join(', ')} }`
+        });
+        result.updatedCalls++;
+      }
+
+      for (const declaration of declarations) {
+        const own = getSignatureParameters(declaration);
+        if (own.length <= last) {
+          result.warnings.push(`${filePath}:${lineOf(sourceFile, declaration)} 的宣告參數數量不同，未更新`);
+          continue;
+        }
+        pushEdit(edits, this.rewriteDeclaration(declaration, own, first, last, properties, interfaceName, allOptional, sourceFile));
+        result.updatedDeclarations++;
+        if (filePath !== options.filePath) {
+          importers.add(filePath);
+        } else if (declaration.getStart(sourceFile) < anchorNode.getStart(ast.tsSourceFile)) {
+          anchorNode = declaration;
+        }
+      }
+      editsByFile.set(filePath, { sourceFile, edits });
+    }
+
+    // 其他檔案的宣告需要匯入介面
+    for (const filePath of importers) {
+      const entry = editsByFile.get(filePath)!;
+      entry.edits.push(createTypeImport(entry.sourceFile, filePath, options.filePath, interfaceName));
+    }
+
+    const anchor = getTopLevelStatement(anchorNode);
+    const exported = importers.size > 0 || isExported(anchor);
+    const body = properties.map(property => `  ${property.name}${property.optional ? '?' : ''}: ${property.type};`).join('\n');
+    result.interfaceDeclaration = `${exported ? 'export ' : ''}interface ${interfaceName} {\n${body}\n}`;
+    const insertAt = getInsertPosition(ast.tsSourceFile, anchor);
+    const ownEdits = editsByFile.get(options.filePath)
+      ?? editsByFile.set(options.filePath, { sourceFile: ast.tsSourceFile, edits: [] }).get(options.filePath)!;
+    ownEdits.edits.push({ start: insertAt, end: insertAt, newText: `${result.interfaceDeclaration}\n\n` });
+
+    for (const [filePath, { sourceFile, edits }] of editsByFile) {
+      if (edits.length === 0) {
+        continue;
+      }
+      edits.sort((a, b) => b.start - a.start);
+      result.files.push({
+        filePath,
+        edits: edits.map(edit => ({
+          range: toRange(sourceFile, edit.start, edit.end),
+          newText: edit.newText,
+          type: edit.start === edit.end ? 'insert' : 'replace'
+        }))
+      });
+    }
+
+    result.success = true;
+    result.interfaceName = interfaceName;
+    result.parameters = properties.map(property => property.name);
+    return result;
+  }
+
+  /**
+   * 依名稱找出要合併的參數位置，必須相鄰且不能是其餘參數、解構參數或建構子參數屬性
+   */
+  private selectParameters(parameters: readonly ts.ParameterDeclaration[], names: readonly string[] | undefined): number[] | string {
+    const indexes: number[] = [];
+    for (const name of names ?? parameters.map(parameter => parameter.name.getText())) {
+      const index = parameters.findIndex(parameter => parameter.name.getText() === name);
+      if (index < 0) {
+        return `找不到參數 ${name}`;
+      }
+      if (!indexes.includes(index)) {
+        indexes.push(index);
+      }
+    }
+    if (indexes.length === 0) {
+      return '函式沒有可合併的參數';
+    }
+    indexes.sort((a, b) => a - b);
+    if (indexes[indexes.length - 1] - indexes[0] !== indexes.length - 1) {
+      return '要合併的參數必須相鄰';
+    }
+    for (const index of indexes) {
+      const parameter = parameters[index];
+      if (parameter.dotDotDotToken) {
+        return `其餘參數 ${parameter.name.getText()} 無法放入參數物件`;
+      }
+      if (!ts.isIdentifier(parameter.name)) {
+        return `解構參數 ${parameter.name.getText()} 無法放入參數物件`;
+      }
+      if (ts.getModifiers(parameter)?.length) {
+        return `建構子參數屬性 ${parameter.name.text} 無法放入參數物件`;
+      }
+    }
+    return indexes;
+  }
+
+  /**
+   * 由參數產生介面屬性：有預設值或選用的參數成為選用屬性，沒有型別註記時由字面值預設值推斷
+   */
+  private createProperties(parameters: readonly ts.ParameterDeclaration[]): ParameterProperty[] | string {
+    const properties: ParameterProperty[] = [];
+    for (const parameter of parameters) {
+      const name = parameter.name.getText();
+      const type = parameter.type?.getText() ?? this.inferLiteralType(parameter.initializer);
+      if (!type) {
+        return `參數 ${name} 沒有型別註記，無法產生介面屬性`;
+      }
+      properties.push({ name, type, optional: parameter.questionToken !== undefined || parameter.initializer !== undefined });
+    }
+    return properties;
+  }
+
+  private inferLiteralType(initializer: ts.Expression | undefined): string | undefined {
+    if (!initializer) {
+      return undefined;
+    }
+    if (ts.isNumericLiteral(initializer)) {
+      return 'number';
+    }
+    if (ts.isStringLiteral(initializer) || ts.isNoSubstitutionTemplateLiteral(initializer)) {
+      return 'string';
+    }
+    if (initializer.kind === ts.SyntaxKind.TrueKeyword || initializer.kind === ts.SyntaxKind.FalseKeyword) {
+      return 'boolean';
+    }
+    return undefined;
+  }
+
+  /**
+   * 將宣告中被合併的參數改為參數物件：有本體時解構（保留各宣告自己的參數名稱與預設值），否則為具名參數
+   */
+  private rewriteDeclaration(
+    declaration: ts.SignatureDeclaration,
+    own: readonly ts.ParameterDeclaration[],
+    first: number,
+    last: number,
+    properties: readonly ParameterProperty[],
+    interfaceName: string,
+    allOptional: boolean,
+    sourceFile: ts.SourceFile
+  ): OffsetEdit {
+    let newText: string;
+    if (hasBody(declaration)) {
+      const bindings = properties.map((property, offset) => {
+        const parameter = own[first + offset];
+        const binding = parameter.name.getText() === property.name ? property.name : `${property.name}: ${parameter.name.getText()}`;
+        return parameter.initializer ? `${binding} = ${parameter.initializer.getText()}` : binding;
+      });
+      newText = `{ ${bindings.join(', ')} }: ${interfaceName}${allOptional ? ' = {}' : ''}`;
+    } else {
+      newText = `params${allOptional ? '?' : ''}: ${interfaceName}`;
+    }
+
+    const start = own[first].getStart(sourceFile);
+    const end = own[last].getEnd();
+    if (ts.isArrowFunction(declaration) && !sourceFile.text.slice(declaration.getStart(sourceFile), declaration.parameters.pos).includes('(')) {
+      return { start, end, newText: `(${newText})` };
+    }
+    return { start, end, newText };
+  }
+
+  private isJavaScript(filePath: string): boolean {
+    return [ts.ScriptKind.JS, ts.ScriptKind.JSX].includes(getScriptKind(filePath));
+  }
+}
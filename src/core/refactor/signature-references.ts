@@ -0,0 +1,274 @@
+/**
+ * 函式簽名重構共用的宣告與呼叫處查找
+ * 以 TypeScript Language Service 找出函式的所有宣告（介面、覆寫、多載）與呼叫
+ */
+
+import * as ts from 'typescript';
+import type { TypeScriptParser } from '../../plugins/typescript/parser.js';
+import type { TypeScriptAST, TypeScriptSymbol } from '../../plugins/typescript/types.js';
+import { SymbolType } from '../../shared/types/index.js';
+import { getScriptKind } from './ast-scope.js';
+
+// 目標函式
+export interface SignatureTarget {
+  name: ts.Identifier;
+  declaration: ts.SignatureDeclaration;
+}
+
+// 單一檔案中找到的宣告與呼叫
+export interface SignatureFileReferences {
+  filePath: string;
+  content: string;
+  sourceFile: ts.SourceFile;
+  declarations: ts.SignatureDeclaration[];
+  /** 由內層往外層排序，外層呼叫的引數會包含內層的修改 */
+  calls: Array<ts.CallExpression | ts.NewExpression>;
+}
+
+// 以偏移量表示的編輯
+export interface OffsetEdit {
+  start: number;
+  end: number;
+  newText: string;
+}
+
+/**
+ * 找出目標函式：函式宣告、以函式初始化的變數、類別或介面的方法（Class.method）
+ */
+export function findSignatureTarget(sourceFile: ts.SourceFile, functionName: string): SignatureTarget | string {
+  const [owner, member] = functionName.includes('.') ? functionName.split('.', 2) : [undefined, functionName];
+  const candidates: SignatureTarget[] = [];
+  const visit = (node: ts.Node): void => {
+    const name = (node as { name?: ts.Node }).name;
+    if (name && ts.isIdentifier(name) && name.text === member) {
+      const declaration = getSignatureDeclaration(name);
+      if (declaration && (owner === undefined || getOwnerName(node) === owner)) {
+        candidates.push({ name, declaration });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  // 多載只保留實作（沒有實作時取第一個）
+  const owners = new Map<ts.Node, SignatureTarget>();
+  for (const candidate of candidates) {
+    const key = candidate.declaration.parent;
+    const existing = owners.get(key);
+    if (!existing || !hasBody(existing.declaration) && hasBody(candidate.declaration)) {
+      owners.set(key, candidate);
+    }
+  }
+  const targets = [...owners.values()];
+  if (targets.length === 0) {
+    return `找不到函式 ${functionName}`;
+  }
+  if (targets.length > 1) {
+    const names = targets.map(target => {
+      const ownerName = getOwnerName(target.declaration);
+      return ownerName ? `${ownerName}.${member}` : member;
+    });
+    return `找到多個 ${functionName}（${names.join('、')}），請以 Class.method 指定`;
+  }
+  return targets[0];
+}
+
+/**
+ * 取得名稱所屬的函式宣告：函式、方法、以函式初始化的變數或屬性、函式型別的屬性簽名
+ */
+export function getSignatureDeclaration(name: ts.Identifier): ts.SignatureDeclaration | undefined {
+  const parent = name.parent;
+  if ((parent as { name?: ts.Node }).name !== name) {
+    return undefined;
+  }
+  if (ts.isFunctionDeclaration(parent) || ts.isMethodDeclaration(parent) || ts.isMethodSignature(parent)) {
+    return parent;
+  }
+  if ((ts.isVariableDeclaration(parent) || ts.isPropertyDeclaration(parent) || ts.isPropertyAssignment(parent)) && parent.initializer
+    && (ts.isArrowFunction(parent.initializer) || ts.isFunctionExpression(parent.initializer))) {
+    return parent.initializer;
+  }
+  if (ts.isPropertySignature(parent) && parent.type && ts.isFunctionTypeNode(parent.type)) {
+    return parent.type;
+  }
+  return undefined;
+}
+
+/**
+ * 取得參數（排除 this 參數）
+ */
+export function getSignatureParameters(declaration: ts.SignatureDeclaration): ts.ParameterDeclaration[] {
+  return declaration.parameters.filter(parameter => !isThisParameter(parameter));
+}
+
+export function isThisParameter(parameter: ts.ParameterDeclaration): boolean {
+  return ts.isIdentifier(parameter.name) && parameter.name.text === 'this';
+}
+
+export function hasBody(declaration: ts.SignatureDeclaration): boolean {
+  return (declaration as { body?: ts.Node }).body !== undefined;
+}
+
+/**
+ * 以 Language Service 找出目標函式在各檔案的宣告與呼叫，無法更新的引用寫入 warnings
+ */
+export async function collectSignatureReferences(
+  parser: TypeScriptParser,
+  ast: TypeScriptAST,
+  target: SignatureTarget,
+  files: ReadonlyArray<{ filePath: string; content: string }>,
+  warnings: string[]
+): Promise<SignatureFileReferences[]> {
+  parser.registerFiles(files);
+  const symbol: TypeScriptSymbol = {
+    name: target.name.text,
+    type: SymbolType.Function,
+    location: {
+      filePath: ast.tsSourceFile.fileName,
+      range: {
+        start: { line: 0, column: 0, offset: target.name.getStart() },
+        end: { line: 0, column: 0, offset: target.name.getEnd() }
+      }
+    },
+    scope: undefined,
+    modifiers: [],
+    tsNode: target.name
+  };
+  const references = await parser.findReferences(ast, symbol);
+
+  // 依檔案分組引用位置
+  const contents = new Map(files.map(file => [file.filePath, file.content]));
+  const offsetsByFile = new Map<string, number[]>();
+  for (const reference of references) {
+    const offset = reference.location.range.start.offset;
+    if (offset === undefined || !contents.has(reference.location.filePath)) {
+      continue;
+    }
+    offsetsByFile.set(reference.location.filePath, [...offsetsByFile.get(reference.location.filePath) ?? [], offset]);
+  }
+
+  const results: SignatureFileReferences[] = [];
+  for (const [filePath, offsets] of offsetsByFile) {
+    const content = contents.get(filePath)!;
+    const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, getScriptKind(filePath));
+    const declarations = new Set<ts.SignatureDeclaration>();
+    const calls = new Set<ts.CallExpression | ts.NewExpression>();
+
+    for (const offset of offsets) {
+      const identifier = findIdentifierAt(sourceFile, offset);
+      if (!identifier) {
+        continue;
+      }
+      const declaration = getSignatureDeclaration(identifier);
+      if (declaration) {
+        declarations.add(declaration);
+        continue;
+      }
+      const usage = classifyUsage(identifier);
+      if (typeof usage !== 'string') {
+        calls.add(usage);
+      } else if (usage) {
+        warnings.push(`${filePath}:${lineOf(sourceFile, identifier)} ${usage}，未更新`);
+      }
+    }
+
+    results.push({
+      filePath,
+      content,
+      sourceFile,
+      declarations: [...declarations],
+      calls: [...calls].sort((a, b) => (a.getEnd() - a.getStart()) - (b.getEnd() - b.getStart()))
+    });
+  }
+  return results;
+}
+
+/**
+ * 取出範圍內的文字，並套用範圍內已產生的編輯
+ */
+export function textWithEdits(text: string, start: number, end: number, edits: readonly OffsetEdit[]): string {
+  let result = text.slice(start, end);
+  const inner = edits.filter(edit => edit.start >= start && edit.end <= end).sort((a, b) => b.start - a.start);
+  for (const edit of inner) {
+    result = result.slice(0, edit.start - start) + edit.newText + result.slice(edit.end - start);
+  }
+  return result;
+}
+
+/**
+ * 加入編輯並移除被它涵蓋的內層編輯（內層修改已併入新文字）
+ */
+export function pushEdit(edits: OffsetEdit[], edit: OffsetEdit): void {
+  for (let index = edits.length - 1; index >= 0; index--) {
+    if (edits[index].start >= edit.start && edits[index].end <= edit.end) {
+      edits.splice(index, 1);
+    }
+  }
+  edits.push(edit);
+}
+
+export function lineOf(sourceFile: ts.SourceFile, node: ts.Node): number {
+  return sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+}
+
+/**
+ * 取得宣告所屬的類別、介面或物件字面值的變數名稱
+ */
+function getOwnerName(node: ts.Node): string | undefined {
+  for (let current = node.parent; current; current = current.parent) {
+    if ((ts.isClassLike(current) || ts.isInterfaceDeclaration(current)) && current.name) {
+      return current.name.text;
+    }
+    if (ts.isVariableDeclaration(current) && ts.isObjectLiteralExpression(current.initializer ?? current)) {
+      return current.name.getText();
+    }
+    if (ts.isSourceFile(current) || ts.isBlock(current)) {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 判斷引用是否為呼叫，不是時回傳警告訊息（匯入、匯出與型別查詢回傳空字串）
+ */
+function classifyUsage(identifier: ts.Identifier): ts.CallExpression | ts.NewExpression | string {
+  let callee: ts.Node = identifier;
+  if (ts.isPropertyAccessExpression(identifier.parent) && identifier.parent.name === identifier) {
+    callee = identifier.parent;
+  }
+  const parent = callee.parent;
+  if ((ts.isCallExpression(parent) || ts.isNewExpression(parent)) && parent.expression === callee) {
+    return parent;
+  }
+  if (ts.isImportSpecifier(parent) || ts.isExportSpecifier(parent) || ts.isImportClause(parent)
+    || ts.isTypeQueryNode(parent) || ts.isExportAssignment(parent)) {
+    return '';
+  }
+  if (ts.isPropertyAccessExpression(parent) && ['call', 'apply', 'bind'].includes(parent.name.text)) {
+    return `以 .${parent.name.text}() 呼叫 ${identifier.text}`;
+  }
+  if (ts.isTaggedTemplateExpression(parent)) {
+    return `以標籤模板呼叫 ${identifier.text}`;
+  }
+  return `以值的方式引用 ${identifier.text}`;
+}
+
+/**
+ * 找出偏移量上的識別字
+ */
+export function findIdentifierAt(sourceFile: ts.SourceFile, offset: number): ts.Identifier | undefined {
+  let found: ts.Identifier | undefined;
+  const visit = (node: ts.Node): void => {
+    if (node.getStart(sourceFile) > offset || node.getEnd() <= offset) {
+      return;
+    }
+    if (ts.isIdentifier(node)) {
+      found = node;
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(sourceFile, visit);
+  return found;
+}
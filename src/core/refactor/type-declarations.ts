@@ -0,0 +1,78 @@
+/**
+ * 產生型別宣告的重構共用工具
+ * 處理頂層名稱衝突、宣告插入位置與其他檔案的 type import
+ */
+
+import * as path from 'path';
+import * as ts from 'typescript';
+import { collectStatementDeclarations } from './ast-scope.js';
+import type { OffsetEdit } from './signature-references.js';
+
+/**
+ * 收集檔案頂層宣告的名稱（含匯入、介面與型別別名）
+ */
+export function getTopLevelNames(sourceFile: ts.SourceFile): Set<string> {
+  const names = new Set<string>();
+  for (const statement of sourceFile.statements) {
+    collectStatementDeclarations(statement, names);
+    if ((ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)) && statement.name) {
+      names.add(statement.name.text);
+    }
+    if (ts.isImportDeclaration(statement) && statement.importClause) {
+      const { name, namedBindings } = statement.importClause;
+      if (name) {
+        names.add(name.text);
+      }
+      if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+        names.add(namedBindings.name.text);
+      } else if (namedBindings) {
+        namedBindings.elements.forEach(element => names.add(element.name.text));
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * 取得節點所在的頂層敘述
+ */
+export function getTopLevelStatement(node: ts.Node): ts.Statement {
+  let current = node;
+  while (!ts.isSourceFile(current.parent)) {
+    current = current.parent;
+  }
+  return current as ts.Statement;
+}
+
+export function isExported(statement: ts.Statement): boolean {
+  return ts.canHaveModifiers(statement) && ts.getModifiers(statement)?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword) === true;
+}
+
+/**
+ * 插入位置：敘述所在行的開頭，敘述前有註解時放在註解之前
+ */
+export function getInsertPosition(sourceFile: ts.SourceFile, statement: ts.Statement): number {
+  const comments = ts.getLeadingCommentRanges(sourceFile.text, statement.getFullStart()) ?? [];
+  const start = comments.length > 0 ? comments[0].pos : statement.getStart(sourceFile);
+  return sourceFile.text.lastIndexOf('\n', start - 1) + 1;
+}
+
+/**
+ * 在檔案加入型別的 type import，路徑副檔名比照該檔案既有的相對匯入
+ */
+export function createTypeImport(sourceFile: ts.SourceFile, filePath: string, declarationFile: string, typeName: string): OffsetEdit {
+  const imports = sourceFile.statements.filter(ts.isImportDeclaration);
+  const usesJsExtension = imports.some(statement => {
+    const specifier = (statement.moduleSpecifier as ts.StringLiteral).text;
+    return specifier.startsWith('.') && specifier.endsWith('.js');
+  });
+  let specifier = path.relative(path.dirname(filePath), declarationFile).replace(/\\/g, '/').replace(/\.[cm]?tsx?$/, usesJsExtension ? '.js' : '');
+  if (!specifier.startsWith('.')) {
+    specifier = `./${specifier}`;
+  }
+  const statement = `import type { ${typeName} } from '${specifier}';`;
+  const lastImport = imports[imports.length - 1];
+  return lastImport
+    ? { start: lastImport.getEnd(), end: lastImport.getEnd(), newText: `\n${statement}` }
+    : { start: 0, end: 0, newText: `${statement}\n\n` };
+}
@@ -68,6 +68,7 @@ export class ReferenceUpdater {
 
   /**
    * 批次執行重新命名操作
+   * 先計算所有檔案的新內容再寫入，任一檔案寫入失敗時還原已寫入的檔案
    */
   async applyRenameOperations(operations: RenameOperation[]): Promise<UpdateResult> {
     const updatedFiles: UpdatedFile[] = [];
@@ -89,6 +90,8 @@ export class ReferenceUpdater {
         }
       }
 
+      await this.writeUpdatedFiles(updatedFiles);
+
       return {
         success: errors.length === 0,
         updatedFiles,
@@ -397,7 +400,7 @@ export class ReferenceUpdater {
   }
 
   /**
-   * 對檔案應用重新命名操作
+   * 計算檔案套用重新命名操作後的內容（不寫入）
    */
   private async applyFileOperations(
     filePath: string,
@@ -428,9 +431,6 @@ export class ReferenceUpdater {
       changes.push(change);
     }
 
-    // 寫入檔案
-    await this.writeFileContent(filePath, content);
-
     return {
       filePath,
       originalContent,
@@ -439,6 +439,29 @@ export class ReferenceUpdater {
     };
   }
 
+  /**
+   * 寫入所有更新的檔案，失敗時還原已寫入的檔案
+   */
+  private async writeUpdatedFiles(updatedFiles: UpdatedFile[]): Promise<void> {
+    const written: UpdatedFile[] = [];
+
+    try {
+      for (const file of updatedFiles) {
+        await this.writeFileContent(file.filePath, file.newContent);
+        written.push(file);
+      }
+    } catch (error) {
+      for (const file of written.reverse()) {
+        try {
+          await this.writeFileContent(file.filePath, file.originalContent);
+        } catch {
+          // 還原失敗時保留原始錯誤
+        }
+      }
+      throw error;
+    }
+  }
+
   /**
    * 找出包含符號引用的檔案
    */
@@ -3,6 +3,8 @@
  * 負責執行符號重新命名操作
  */
 
+import * as path from 'path';
+
 import {
   RenameOptions,
   RenameResult,
@@ -13,14 +15,35 @@ import {
   ConflictInfo,
   ConflictType,
   RenameSummary,
+  ScopeAnalysisResult,
   createRenameOperation,
   createConflictInfo
 } from './types.js';
-import { createRange, createPosition } from '../../shared/types/core.js';
+import { createLocation } from '../../shared/types/core.js';
+import type { ASTNode } from '../../shared/types/ast.js';
 import { Symbol } from '../../shared/types/symbol.js';
-import { ScopeAnalyzer } from './scope-analyzer.js';
+import { ScopeAnalyzer, IMPORT_MODIFIER } from './scope-analyzer.js';
 import { ReferenceUpdater } from './reference-updater.js';
-import type { ParserRegistry } from '../../infrastructure/parser/registry.js';
+import { ParserRegistry } from '../../infrastructure/parser/registry.js';
+
+/**
+ * 第一個 Identifier 子節點為成員名稱（而非變數引用）的節點類型
+ */
+const MEMBER_NAME_PARENT_TYPES = new Set([
+  'PropertyAssignment',
+  'PropertyDeclaration',
+  'PropertySignature',
+  'MethodDeclaration',
+  'MethodSignature',
+  'GetAccessor',
+  'SetAccessor',
+  'EnumMember',
+  'JsxAttribute',
+  'ObjectProperty',
+  'ObjectMethod',
+  'ClassProperty',
+  'ClassMethod'
+]);
 
 /**
  * 重新命名引擎類別
@@ -37,10 +60,12 @@ export class RenameEngine {
 
   private readonly scopeAnalyzer: ScopeAnalyzer;
   private readonly referenceUpdater: ReferenceUpdater;
+  private readonly parserRegistry?: ParserRegistry;
 
   constructor(parserRegistry?: ParserRegistry) {
     this.scopeAnalyzer = new ScopeAnalyzer();
     this.referenceUpdater = new ReferenceUpdater(parserRegistry);
+    this.parserRegistry = parserRegistry;
   }
 
   /**
@@ -172,25 +197,7 @@ export class RenameEngine {
   async validateRename(options: RenameOptions): Promise<ValidationResult> {
     this.validateOptions(options);
 
-    const conflicts: ConflictInfo[] = [];
-
-    // 檢查是否為保留字
-    if (this.reservedKeywords.has(options.newName)) {
-      conflicts.push(createConflictInfo(
-        ConflictType.ReservedKeyword,
-        `'${options.newName}' 是保留字，不能用作識別符`,
-        options.symbol.location
-      ));
-    }
-
-    // 檢查是否為有效識別符
-    if (!this.isValidIdentifier(options.newName)) {
-      conflicts.push(createConflictInfo(
-        ConflictType.InvalidIdentifier,
-        `'${options.newName}' 不是有效的識別符`,
-        options.symbol.location
-      ));
-    }
+    const conflicts = await this.detectConflicts(options.symbol, options.newName, options.filePaths);
 
     return {
       isValid: conflicts.length === 0,
@@ -397,16 +404,20 @@ export class RenameEngine {
 
   /**
    * 檢測命名衝突
+   * 除了保留字與識別符格式，還會分析每個受影響檔案的作用域：
+   * - 新名稱與同一作用域的既有宣告或匯入名稱相同（NameCollision）
+   * - 內層作用域的同名宣告會攔截重新命名後的引用（ScopeConflict）
+   * - 重新命名後的符號會遮蔽其作用域內使用的外層綁定（ScopeConflict）
    */
-  detectConflicts(newName: string, scope: any): ConflictInfo[] {
+  async detectConflicts(symbol: Symbol, newName: string, filePaths: readonly string[]): Promise<ConflictInfo[]> {
     const conflicts: ConflictInfo[] = [];
 
     // 檢查保留字
     if (this.reservedKeywords.has(newName)) {
       conflicts.push(createConflictInfo(
         ConflictType.ReservedKeyword,
-        `'${newName}' 是保留字`,
-        { filePath: '', range: createRange(createPosition(1, 1), createPosition(1, 1)) }
+        `'${newName}' 是保留字，不能用作識別符`,
+        symbol.location
       ));
     }
 
@@ -415,16 +426,176 @@ export class RenameEngine {
       conflicts.push(createConflictInfo(
         ConflictType.InvalidIdentifier,
         `'${newName}' 不是有效的識別符`,
-        { filePath: '', range: createRange(createPosition(1, 1), createPosition(1, 1)) }
+        symbol.location
       ));
     }
 
-    // TODO: 使用 ScopeAnalyzer 檢查作用域衝突
-    // 這需要 AST 和更多上下文資訊，目前先簡化實作
+    if (conflicts.length > 0 || newName === symbol.name) {
+      return conflicts;
+    }
+
+    const files = new Set(filePaths.map(filePath => path.resolve(filePath)));
+    if (symbol.location?.filePath) {
+      files.add(path.resolve(symbol.location.filePath));
+    }
+
+    const seen = new Set<string>();
+    for (const filePath of files) {
+      for (const conflict of await this.detectScopeConflicts(filePath, symbol.name, newName)) {
+        const { start } = conflict.location.range;
+        const key = `${conflict.type}:${conflict.location.filePath}:${start.line}:${start.column}`;
+        if (!seen.has(key)) {
+          seen.add(key);
+          conflicts.push(conflict);
+        }
+      }
+    }
 
     return conflicts;
   }
 
+  /**
+   * 分析單一檔案中重新命名造成的作用域衝突
+   * 沒有對應 Parser 或解析失敗的檔案略過
+   */
+  private async detectScopeConflicts(filePath: string, oldName: string, newName: string): Promise<ConflictInfo[]> {
+    let content: string;
+    try {
+      const fs = await import('fs/promises');
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    // 檔案中沒有出現舊名稱時不會被修改
+    if (!new RegExp(`\\b${this.escapeRegex(oldName)}\\b`).test(content)) {
+      return [];
+    }
+
+    const registry = this.parserRegistry ?? ParserRegistry.getInstance();
+    const extension = filePath.slice(filePath.lastIndexOf('.'));
+    const parser = registry.getParser(extension);
+    if (!parser) {
+      return [];
+    }
+
+    let root: ASTNode;
+    try {
+      const ast = await parser.parse(content, filePath);
+      await this.scopeAnalyzer.analyzeScopes(ast);
+      root = ast.root;
+    } catch {
+      return [];
+    }
+
+    const conflicts: ConflictInfo[] = [];
+    const identifiers = this.collectIdentifierReferences(root, content);
+
+    // 舊名稱的引用：新名稱在其解析範圍內已可見
+    for (const identifier of identifiers.filter(id => id.properties.name === oldName)) {
+      const scope = await this.scopeAnalyzer.getScopeAtPosition(identifier.range.start);
+      if (!scope) {
+        continue;
+      }
+
+      const existing = this.resolveBinding(newName, scope);
+      if (!existing) {
+        continue;
+      }
+
+      const declaration = this.resolveBinding(oldName, scope);
+      const existingSymbol = existing.scope.symbols.find(s => s.name === newName);
+      if (!declaration || declaration.scope === existing.scope) {
+        const isImport = existingSymbol?.modifiers.includes(IMPORT_MODIFIER);
+        conflicts.push(createConflictInfo(
+          ConflictType.NameCollision,
+          isImport
+            ? `'${newName}' 與檔案中匯入的名稱衝突`
+            : `'${newName}' 與同一作用域中既有的宣告衝突`,
+          existingSymbol?.location ?? createLocation(filePath, identifier.range),
+          existingSymbol
+        ));
+      } else if (existing.depth < declaration.depth) {
+        conflicts.push(createConflictInfo(
+          ConflictType.ScopeConflict,
+          `內層作用域宣告的 '${newName}' 會攔截重新命名後對 '${oldName}' 的引用`,
+          createLocation(filePath, identifier.range),
+          existingSymbol
+        ));
+      }
+    }
+
+    // 新名稱的引用：目前解析到外層綁定，重新命名後會改為解析到被重新命名的符號
+    for (const identifier of identifiers.filter(id => id.properties.name === newName)) {
+      const scope = await this.scopeAnalyzer.getScopeAtPosition(identifier.range.start);
+      if (!scope) {
+        continue;
+      }
+
+      const declaration = this.resolveBinding(oldName, scope);
+      const existing = this.resolveBinding(newName, scope);
+      if (declaration && (!existing || existing.depth > declaration.depth)) {
+        conflicts.push(createConflictInfo(
+          ConflictType.ScopeConflict,
+          `重新命名後的 '${newName}' 會遮蔽此處使用的外層 '${newName}'`,
+          createLocation(filePath, identifier.range),
+          existing?.scope.symbols.find(s => s.name === newName)
+        ));
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * 從作用域往外找出宣告指定名稱的作用域
+   * depth 為往外經過的層數，0 表示宣告在目前作用域
+   */
+  private resolveBinding(
+    name: string,
+    scope: ScopeAnalysisResult
+  ): { scope: ScopeAnalysisResult; depth: number } | null {
+    let current: ScopeAnalysisResult | undefined = scope;
+    let depth = 0;
+    while (current) {
+      if (current.symbols.some(s => s.name === name)) {
+        return { scope: current, depth };
+      }
+      current = current.parent;
+      depth++;
+    }
+    return null;
+  }
+
+  /**
+   * 收集作為變數或型別引用的 Identifier
+   * 排除屬性存取（`obj.name`）與物件、類別成員名稱
+   */
+  private collectIdentifierReferences(root: ASTNode, content: string): ASTNode[] {
+    const identifiers = new Map<string, ASTNode>();
+
+    const visit = (node: ASTNode, parent?: ASTNode): void => {
+      if (node.type === 'Identifier' && typeof node.properties.name === 'string') {
+        const isMemberName = parent !== undefined &&
+          MEMBER_NAME_PARENT_TYPES.has(parent.type) &&
+          parent.children.find(child => child.type === 'Identifier') === node;
+        const offset = node.range.start.offset;
+        const isPropertyAccess = offset !== undefined && /\.\s*$/.test(content.slice(Math.max(0, offset - 20), offset));
+        // TypeScript 的 VariableStatement 會重複產生相同節點
+        const key = `${node.range.start.line}:${node.range.start.column}`;
+        if (!isMemberName && !isPropertyAccess && !identifiers.has(key)) {
+          identifiers.set(key, node);
+        }
+      }
+      for (const child of node.children) {
+        visit(child, node);
+      }
+    };
+
+    visit(root);
+    return [...identifiers.values()];
+  }
+
   /**
    * 執行跨檔案重新命名
    */
@@ -526,6 +697,10 @@ export class RenameEngine {
     return identifierRegex.test(name);
   }
 
+  private escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
   /**
    * 產生重新命名 ID
    */
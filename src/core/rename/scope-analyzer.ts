@@ -9,12 +9,30 @@ import { Symbol, SymbolType, createSymbol } from '../../shared/types/symbol.js';
 import { ScopeAnalysisResult, ShadowedVariable, ShadowInfo } from './types.js';
 import { createLocation, isPositionInRange } from '../../shared/types/core.js';
 
+/**
+ * 匯入綁定的節點類型（TypeScript 與 Babel）
+ */
+const IMPORT_BINDING_TYPES = new Set([
+  'ImportSpecifier',
+  'ImportClause',
+  'NamespaceImport',
+  'ImportEqualsDeclaration',
+  'ImportDefaultSpecifier',
+  'ImportNamespaceSpecifier'
+]);
+
+/**
+ * 匯入綁定符號的 modifier
+ */
+export const IMPORT_MODIFIER = 'import';
+
 /**
  * 作用域分析器類別
  */
 export class ScopeAnalyzer {
   private currentScopes: ScopeAnalysisResult[] = [];
   private symbolTable = new Map<string, Symbol[]>();
+  private filePath = '';
 
   /**
    * 分析 AST 的作用域結構
@@ -22,6 +40,7 @@ export class ScopeAnalyzer {
   async analyzeScopes(ast: AST): Promise<ScopeAnalysisResult[]> {
     this.currentScopes = [];
     this.symbolTable.clear();
+    this.filePath = ast?.sourceFile ?? '';
 
     // 檢查 AST 是否有效
     if (!ast || !ast.root) {
@@ -124,13 +143,12 @@ export class ScopeAnalyzer {
   private async analyzeNode(node: ASTNode, parentScope: ScopeAnalysisResult): Promise<void> {
     let currentScope = parentScope;
 
-    // 函式宣告需要特殊處理：函式名加到父作用域，但參數和內容在新作用域
-    if (node.type === 'FunctionDeclaration') {
+    // 函式與類別宣告需要特殊處理：名稱加到父作用域，但參數和內容在新作用域
+    if (node.type === 'FunctionDeclaration' || node.type === 'ClassDeclaration') {
       // 把函式名加到父作用域
       const symbol = this.createSymbolFromNode(node);
       if (symbol) {
-        (parentScope.symbols as Symbol[]).push(symbol);
-        this.addToSymbolTable(symbol);
+        this.addToScope(parentScope, symbol);
       }
 
       // 建立函式作用域
@@ -144,8 +162,7 @@ export class ScopeAnalyzer {
       // 一般符號定義
       const symbol = this.createSymbolFromNode(node);
       if (symbol) {
-        (currentScope.symbols as Symbol[]).push(symbol);
-        this.addToSymbolTable(symbol);
+        this.addToScope(currentScope, symbol);
       }
     }
 
@@ -163,7 +180,14 @@ export class ScopeAnalyzer {
       'FunctionDeclaration',
       'FunctionExpression',
       'ArrowFunctionExpression',
+      'ArrowFunction',
+      'MethodDeclaration',
+      'Constructor',
+      'GetAccessor',
+      'SetAccessor',
+      'ClassMethod',
       'BlockStatement',
+      'Block',
       'ClassDeclaration'
     ];
     return scopeTypes.includes(node.type);
@@ -193,8 +217,15 @@ export class ScopeAnalyzer {
       'FunctionDeclaration': 'function',
       'FunctionExpression': 'function',
       'ArrowFunctionExpression': 'function',
+      'ArrowFunction': 'function',
+      'MethodDeclaration': 'function',
+      'Constructor': 'function',
+      'GetAccessor': 'function',
+      'SetAccessor': 'function',
+      'ClassMethod': 'function',
       'ClassDeclaration': 'class',
-      'BlockStatement': 'block'
+      'BlockStatement': 'block',
+      'Block': 'block'
     };
 
     return typeMap[nodeType] || 'block';
@@ -206,24 +237,33 @@ export class ScopeAnalyzer {
   private isSymbolDefinition(node: ASTNode): boolean {
     const definitionTypes = [
       'VariableDeclaration',
+      'VariableDeclarator',
       'FunctionDeclaration',
       'ClassDeclaration',
+      'InterfaceDeclaration',
+      'TypeAliasDeclaration',
+      'EnumDeclaration',
       'Parameter'
     ];
-    return definitionTypes.includes(node.type);
+    return definitionTypes.includes(node.type) || IMPORT_BINDING_TYPES.has(node.type);
   }
 
   /**
    * 從 AST 節點建立符號
+   * 匯入綁定以 IMPORT_MODIFIER 標記，Babel 的匯入以最後一個 Identifier（local）為名稱
    */
   private createSymbolFromNode(node: ASTNode): Symbol | null {
-    const name = node.properties.name as string;
+    const isImport = IMPORT_BINDING_TYPES.has(node.type);
+    let name = node.properties.name as string | undefined;
+    if (!name && isImport) {
+      name = [...node.children].reverse().find(child => child.type === 'Identifier')?.properties.name;
+    }
     if (!name) {return null;}
 
     const symbolType = this.getSymbolType(node.type);
-    const location = createLocation('/test/file.ts', node.range); // 暫時使用測試檔案路徑
+    const location = createLocation(this.filePath, node.range);
 
-    return createSymbol(name, symbolType, location);
+    return createSymbol(name, symbolType, location, undefined, isImport ? [IMPORT_MODIFIER] : []);
   }
 
   /**
@@ -232,14 +272,37 @@ export class ScopeAnalyzer {
   private getSymbolType(nodeType: string): SymbolType {
     const typeMap: Record<string, SymbolType> = {
       'VariableDeclaration': SymbolType.Variable,
+      'VariableDeclarator': SymbolType.Variable,
       'FunctionDeclaration': SymbolType.Function,
       'ClassDeclaration': SymbolType.Class,
+      'InterfaceDeclaration': SymbolType.Interface,
+      'TypeAliasDeclaration': SymbolType.Type,
+      'EnumDeclaration': SymbolType.Enum,
       'Parameter': SymbolType.Variable
     };
 
     return typeMap[nodeType] || SymbolType.Variable;
   }
 
+  /**
+   * 添加符號到作用域
+   * TypeScript 的 VariableStatement 會重複產生宣告節點，相同位置的符號只加入一次
+   */
+  private addToScope(scope: ScopeAnalysisResult, symbol: Symbol): void {
+    const start = symbol.location.range.start;
+    const duplicated = scope.symbols.some(existing =>
+      existing.name === symbol.name &&
+      existing.location.range.start.line === start.line &&
+      existing.location.range.start.column === start.column
+    );
+    if (duplicated) {
+      return;
+    }
+
+    (scope.symbols as Symbol[]).push(symbol);
+    this.addToSymbolTable(symbol);
+  }
+
   /**
    * 添加符號到符號表
    */
@@ -0,0 +1,14 @@
+/**
+ * Rewrite 模組匯出
+ * 結構化搜尋取代（codemod）
+ */
+
+export { RewriteEngine } from './rewrite-engine.js';
+
+export type {
+  RewriteOptions,
+  RewriteEdit,
+  RewriteFileChange,
+  RewritePreview,
+  RewriteResult
+} from './types.js';
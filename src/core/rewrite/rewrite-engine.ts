@@ -0,0 +1,218 @@
+/**
+ * 結構化取代引擎實作
+ * 以模式搜尋找出匹配的程式碼，代入 metavariable 後產生取代編輯
+ */
+
+import * as path from 'path';
+
+import { PatternSearchEngine } from '../search/engines/pattern-engine.js';
+import type { PatternMatch } from '../search/types.js';
+import { ReferenceUpdater } from '../rename/reference-updater.js';
+import type { RenameOperation } from '../rename/types.js';
+import { createUnifiedDiff } from '../../shared/utils/diff.js';
+import type {
+  RewriteOptions,
+  RewriteEdit,
+  RewriteFileChange,
+  RewritePreview,
+  RewriteResult
+} from './types.js';
+
+const METAVARIABLE_REGEX = /\$\$\$([A-Z_][A-Z0-9_]*)?|\$([A-Z_][A-Z0-9_]*)/g;
+
+/**
+ * 結構化取代引擎
+ * 巢狀的匹配只取代最外層，內層可再次執行取代
+ */
+export class RewriteEngine {
+  private readonly patternEngine: PatternSearchEngine;
+
+  constructor(patternEngine?: PatternSearchEngine) {
+    this.patternEngine = patternEngine ?? new PatternSearchEngine();
+  }
+
+  /**
+   * 預覽取代結果（不寫入檔案）
+   */
+  async preview(options: RewriteOptions): Promise<RewritePreview> {
+    this.validateTemplates(options.match, options.replace);
+
+    const result = await this.patternEngine.search({
+      type: 'pattern',
+      query: options.match,
+      pattern: { type: 'template', pattern: options.match, language: options.language },
+      options: {
+        scope: options.scope,
+        includeFiles: options.includeFiles ? [...options.includeFiles] : undefined,
+        excludeFiles: options.excludeFiles ? [...options.excludeFiles] : undefined,
+        maxResults: Number.MAX_SAFE_INTEGER,
+        timeout: Number.MAX_SAFE_INTEGER,
+        showContext: false
+      }
+    });
+
+    const matchesByFile = new Map<string, PatternMatch[]>();
+    for (const match of result.nodes) {
+      const matches = matchesByFile.get(match.file) ?? [];
+      matches.push(match);
+      matchesByFile.set(match.file, matches);
+    }
+
+    const files: RewriteFileChange[] = [];
+    for (const [filePath, matches] of matchesByFile) {
+      const change = await this.buildFileChange(filePath, matches, options.replace);
+      if (change) {
+        files.push(change);
+      }
+    }
+
+    return {
+      edits: files.flatMap(file => file.edits),
+      files,
+      diff: files.map(file => file.diff).join('')
+    };
+  }
+
+  /**
+   * 執行取代
+   * 所有檔案的變更一次寫入，任一檔案失敗時不會留下部分修改
+   */
+  async apply(options: RewriteOptions): Promise<RewriteResult> {
+    const preview = await this.preview(options);
+
+    if (preview.edits.length === 0) {
+      return { success: true, edits: [], affectedFiles: [] };
+    }
+
+    const operations: RenameOperation[] = preview.edits.map(edit => ({
+      filePath: edit.filePath,
+      oldText: edit.oldText,
+      newText: edit.newText,
+      range: edit.range
+    }));
+
+    const updateResult = await new ReferenceUpdater().applyRenameOperations(operations);
+
+    return {
+      success: updateResult.success,
+      edits: updateResult.success ? preview.edits : [],
+      affectedFiles: updateResult.updatedFiles.map(file => file.filePath),
+      errors: updateResult.errors
+    };
+  }
+
+  /**
+   * 驗證取代模板只引用匹配模板中具名的 metavariable
+   */
+  private validateTemplates(match: string, replace: string): void {
+    if (!match.trim()) {
+      throw new Error('匹配模板不能為空');
+    }
+
+    const captured = new Set<string>();
+    for (const [, multiName, singleName] of match.matchAll(METAVARIABLE_REGEX)) {
+      const name = multiName ?? singleName;
+      if (name && name !== '_') {
+        captured.add(name);
+      }
+    }
+
+    for (const [token, multiName, singleName] of replace.matchAll(METAVARIABLE_REGEX)) {
+      const name = multiName ?? singleName;
+      if (!name || name === '_') {
+        throw new Error(`取代模板不能使用匿名 metavariable: ${token}`);
+      }
+      if (!captured.has(name)) {
+        throw new Error(`取代模板引用了匹配模板中不存在的 metavariable: ${token}`);
+      }
+    }
+  }
+
+  /**
+   * 計算單一檔案的取代結果
+   */
+  private async buildFileChange(
+    filePath: string,
+    matches: PatternMatch[],
+    replace: string
+  ): Promise<RewriteFileChange | null> {
+    const fs = await import('fs/promises');
+    const originalContent = await fs.readFile(filePath, 'utf-8');
+
+    // 依位置排序，重疊時保留最外層的匹配
+    const sorted = [...matches].sort((a, b) =>
+      (a.range.start.offset ?? 0) - (b.range.start.offset ?? 0) ||
+      (b.range.end.offset ?? 0) - (a.range.end.offset ?? 0)
+    );
+
+    const edits: RewriteEdit[] = [];
+    let lastEnd = -1;
+    for (const match of sorted) {
+      const start = match.range.start.offset ?? 0;
+      if (start < lastEnd) {
+        continue;
+      }
+      lastEnd = match.range.end.offset ?? 0;
+
+      const bindings = Object.fromEntries(
+        Object.entries(match.bindings).map(([name, binding]) => [name, binding.text])
+      );
+      let newText = this.substitute(replace, bindings, this.getIndentation(originalContent, start));
+      // 模板比對忽略結尾分號，取代時保留原本的分號
+      if (match.content.endsWith(';') && !newText.endsWith(';')) {
+        newText += ';';
+      }
+      if (newText === match.content) {
+        continue;
+      }
+
+      edits.push({
+        filePath,
+        range: match.range,
+        oldText: match.content,
+        newText,
+        bindings
+      });
+    }
+
+    if (edits.length === 0) {
+      return null;
+    }
+
+    let newContent = originalContent;
+    for (const edit of [...edits].reverse()) {
+      newContent =
+        newContent.slice(0, edit.range.start.offset) +
+        edit.newText +
+        newContent.slice(edit.range.end.offset);
+    }
+
+    const displayPath = path.relative(process.cwd(), filePath).split(path.sep).join('/');
+    return {
+      filePath,
+      originalContent,
+      newContent,
+      edits,
+      diff: createUnifiedDiff(`a/${displayPath}`, `b/${displayPath}`, originalContent, newContent)
+    };
+  }
+
+  /**
+   * 代入 metavariable，多行取代內容的後續行對齊匹配位置所在行的縮排
+   */
+  private substitute(replace: string, bindings: Record<string, string>, indentation: string): string {
+    return replace
+      .trim()
+      .split('\n')
+      .map((line, index) => index === 0 || line === '' ? line : indentation + line)
+      .join('\n')
+      .replace(METAVARIABLE_REGEX, (_token, multiName: string | undefined, singleName: string | undefined) =>
+        bindings[multiName ?? singleName ?? ''] ?? ''
+      );
+  }
+
+  private getIndentation(content: string, offset: number): string {
+    const lineStart = content.lastIndexOf('\n', offset - 1) + 1;
+    return /^[ \t]*/.exec(content.slice(lineStart, offset))?.[0] ?? '';
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Rewrite 模組型別定義
+ * 結構化搜尋取代（codemod）的選項、編輯與結果
+ */
+
+import { Range } from '../../shared/types/core.js';
+import type { SearchScope } from '../search/types.js';
+
+/**
+ * 結構化取代選項
+ */
+export interface RewriteOptions {
+  /** 匹配模板（如 `oldApi($$$ARGS)`） */
+  readonly match: string;
+  /** 取代模板，可引用匹配模板捕獲的 metavariable（如 `newApi($$$ARGS)`） */
+  readonly replace: string;
+  /** 搜尋範圍 */
+  readonly scope: SearchScope;
+  /** 目標語言 */
+  readonly language?: string;
+  /** 包含的檔案模式 */
+  readonly includeFiles?: readonly string[];
+  /** 排除的檔案模式 */
+  readonly excludeFiles?: readonly string[];
+}
+
+/**
+ * 單一取代編輯
+ */
+export interface RewriteEdit {
+  readonly filePath: string;
+  /** 被取代的範圍（行列從 1 開始） */
+  readonly range: Range;
+  readonly oldText: string;
+  readonly newText: string;
+  /** metavariable 捕獲的文字 */
+  readonly bindings: Readonly<Record<string, string>>;
+}
+
+/**
+ * 單一檔案的取代結果
+ */
+export interface RewriteFileChange {
+  readonly filePath: string;
+  readonly originalContent: string;
+  readonly newContent: string;
+  readonly edits: readonly RewriteEdit[];
+  /** unified diff */
+  readonly diff: string;
+}
+
+/**
+ * 取代預覽
+ */
+export interface RewritePreview {
+  readonly edits: readonly RewriteEdit[];
+  readonly files: readonly RewriteFileChange[];
+  /** 所有檔案合併的 unified diff */
+  readonly diff: string;
+}
+
+/**
+ * 取代執行結果
+ */
+export interface RewriteResult {
+  readonly success: boolean;
+  readonly edits: readonly RewriteEdit[];
+  readonly affectedFiles: readonly string[];
+  readonly errors?: readonly string[];
+}
@@ -0,0 +1,723 @@
+/**
+ * 結構化模式搜尋引擎實作
+ * 以 Parser 插件產生的 AST 比對程式碼模板，支援 metavariable 捕獲
+ *
+ * 模板語法：
+ * - `$NAME`：匹配單一節點並捕獲為 NAME，同名 metavariable 必須匹配相同程式碼
+ * - `$$$NAME`：匹配零或多個相鄰節點（例如參數列表、陳述式區塊）
+ * - `$_`、`$$$`：匹配但不捕獲
+ */
+
+import { readFile } from 'fs/promises';
+import { glob } from 'glob';
+import path from 'path';
+import { minimatch } from 'minimatch';
+
+import type { ASTNode, Position, Range } from '../../../shared/types/index.js';
+import type { ParserPlugin } from '../../../infrastructure/parser/index.js';
+import { ParserRegistry } from '../../../infrastructure/parser/index.js';
+import { TypeScriptParser } from '../../../plugins/typescript/parser.js';
+import { JavaScriptParser } from '../../../plugins/javascript/parser.js';
+import { SwiftParser } from '../../../plugins/swift/parser.js';
+import type {
+  PatternQuery,
+  PatternSearchOptions,
+  PatternSearchResult,
+  PatternMatch,
+  CodePattern,
+  ASTPattern,
+  MetavariableBinding,
+  MatchContext,
+  SearchScope
+} from '../types.js';
+import { SearchError, SearchErrorCode } from '../types.js';
+
+const SINGLE_PLACEHOLDER = '__AGENTIDE_MV_';
+const MULTI_PLACEHOLDER = '__AGENTIDE_MVS_';
+const PLACEHOLDER_REGEX = /^__AGENTIDE_MV(S?)_(\w*)$/;
+const WRAPPER_NAME = '__agentide_pattern__';
+
+/**
+ * metavariable 資訊
+ */
+interface Metavariable {
+  name: string;
+  multi: boolean;
+}
+
+/**
+ * 編譯後的模板（每個 Parser 各自解析一次）
+ */
+interface CompiledTemplate {
+  root: ASTNode;
+  source: SourceText;
+}
+
+/**
+ * 比對過程中的捕獲結果
+ */
+type CaptureMap = Map<string, ASTNode[]>;
+
+/**
+ * 原始碼存取輔助
+ * TypeScript/JavaScript AST 的 offset 為 UTF-16 索引，Swift bridge 為 UTF-8 位元組
+ */
+class SourceText {
+  private readonly buffer: Buffer | undefined;
+  private readonly lineStarts: number[] = [0];
+
+  constructor(readonly content: string, unit: 'utf16' | 'utf8') {
+    this.buffer = unit === 'utf8' ? Buffer.from(content, 'utf8') : undefined;
+    for (let i = 0; i < content.length; i++) {
+      if (content[i] === '\n') {
+        this.lineStarts.push(i + 1);
+      }
+    }
+  }
+
+  /**
+   * 取得節點在內容中的起訖索引（UTF-16，已去除前後空白與註解）
+   */
+  span(node: ASTNode): [number, number] {
+    let start = this.toIndex(node.range.start.offset ?? 0);
+    let end = this.toIndex(node.range.end.offset ?? 0);
+
+    // Swift bridge 的範圍包含前後 trivia
+    for (;;) {
+      const rest = this.content.slice(start, end);
+      const trivia = /^(\s+|\/\/[^\n]*|\/\*[\s\S]*?\*\/)/.exec(rest);
+      if (!trivia) {
+        break;
+      }
+      start += trivia[0].length;
+    }
+    while (end > start && /\s/.test(this.content[end - 1])) {
+      end--;
+    }
+
+    return [start, end];
+  }
+
+  text(node: ASTNode): string {
+    const [start, end] = this.span(node);
+    return this.content.slice(start, end);
+  }
+
+  /**
+   * 索引轉為位置（行列從 1 開始，與文字搜尋一致）
+   */
+  positionAt(index: number): Position {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.lineStarts[mid] <= index) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { line: low + 1, column: index - this.lineStarts[low] + 1, offset: index };
+  }
+
+  rangeOf(start: number, end: number): Range {
+    return { start: this.positionAt(start), end: this.positionAt(end) };
+  }
+
+  lines(): string[] {
+    return this.content.split('\n');
+  }
+
+  private toIndex(offset: number): number {
+    if (!this.buffer) {
+      return offset;
+    }
+    return this.buffer.subarray(0, offset).toString('utf8').length;
+  }
+}
+
+/**
+ * 正規化程式碼以進行比較（移除註解與空白）
+ */
+function normalizeCode(text: string): string {
+  return text.replace(/\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, '').replace(/\s+/g, '');
+}
+
+/**
+ * 將模板中的 metavariable 替換為各語言皆合法的識別符
+ */
+function substitutePlaceholders(template: string): string {
+  return template
+    .replace(/\$\$\$([A-Z_][A-Z0-9_]*)?/g, (_, name: string | undefined) => `${MULTI_PLACEHOLDER}${name ?? ''}`)
+    .replace(/\$([A-Z_][A-Z0-9_]*)/g, (_, name: string) => `${SINGLE_PLACEHOLDER}${name}`);
+}
+
+/**
+ * 結構化模式搜尋引擎
+ */
+export class PatternSearchEngine {
+  private readonly defaultOptions: Required<PatternSearchOptions> = {
+    language: '',
+    deepMatch: true,
+    scope: { type: 'project' },
+    includeFiles: [],
+    excludeFiles: [],
+    maxResults: 1000,
+    timeout: 30000,
+    useIndex: false,
+    showContext: true,
+    contextLines: 2
+  };
+
+  private readonly registry: ParserRegistry;
+  private readonly templateCache = new Map<string, CompiledTemplate>();
+
+  constructor() {
+    const registry = ParserRegistry.getInstance();
+    if (registry.isDisposed) {
+      ParserRegistry.resetInstance();
+    }
+    this.registry = ParserRegistry.getInstance();
+
+    // 確保所有內建 Parser 已註冊
+    if (!this.registry.getParser('.ts')) {
+      this.registry.register(new TypeScriptParser());
+    }
+    if (!this.registry.getParser('.js')) {
+      this.registry.register(new JavaScriptParser());
+    }
+    if (!this.registry.getParser('.swift')) {
+      this.registry.register(new SwiftParser());
+    }
+  }
+
+  /**
+   * 執行模式搜尋
+   */
+  async search(query: PatternQuery): Promise<PatternSearchResult> {
+    const startTime = performance.now();
+    const options: Required<PatternSearchOptions> = { ...this.defaultOptions };
+    for (const [key, value] of Object.entries(query.options ?? {})) {
+      if (value !== undefined) {
+        (options as Record<string, unknown>)[key] = value;
+      }
+    }
+    const language = query.pattern.language ?? options.language;
+
+    this.validatePattern(query.pattern);
+
+    const files = await this.getSearchFiles(options.scope, options, language);
+    const nodes: PatternMatch[] = [];
+    let totalCount = 0;
+
+    for (const filePath of files) {
+      if (performance.now() - startTime > options.timeout) {
+        break;
+      }
+
+      let content: string;
+      try {
+        content = await readFile(filePath, 'utf-8');
+      } catch {
+        continue;
+      }
+
+      const fileMatches = await this.matchFile(filePath, content, query.pattern, options);
+      totalCount += fileMatches.length;
+      nodes.push(...fileMatches.slice(0, Math.max(0, options.maxResults - nodes.length)));
+    }
+
+    return {
+      matches: nodes,
+      nodes,
+      totalCount,
+      searchTime: Math.round(performance.now() - startTime),
+      truncated: totalCount > nodes.length
+    };
+  }
+
+  /**
+   * 在單一檔案內容中比對模式
+   * 無法解析的檔案回傳空陣列
+   */
+  async matchFile(
+    filePath: string,
+    content: string,
+    pattern: CodePattern,
+    options: Partial<PatternSearchOptions> = {}
+  ): Promise<PatternMatch[]> {
+    const parser = this.registry.getParser(path.extname(filePath));
+    if (!parser) {
+      return [];
+    }
+
+    let root: ASTNode;
+    try {
+      root = (await parser.parse(content, filePath)).root;
+    } catch {
+      return [];
+    }
+
+    const source = new SourceText(content, this.getOffsetUnit(parser));
+    const contextLines = options.showContext === false ? 0 : (options.contextLines ?? this.defaultOptions.contextLines);
+    const lines = source.lines();
+    const matches: PatternMatch[] = [];
+    const seen = new Set<string>();
+
+    const addMatch = (node: ASTNode, nodePath: string[], bindings: Record<string, MetavariableBinding>): void => {
+      const [start, end] = source.span(node);
+      // TypeScript AST 的部分子節點會重複出現（如 VariableStatement 的宣告）
+      const key = `${node.type}:${start}:${end}`;
+      if (pattern.type !== 'regex' && seen.has(key)) {
+        return;
+      }
+      seen.add(key);
+      const range = source.rangeOf(start, end);
+      const text = content.slice(start, end);
+      matches.push({
+        file: filePath,
+        line: range.start.line,
+        column: range.start.column,
+        content: text,
+        context: this.buildContext(lines, range.start.line - 1, contextLines),
+        score: 1,
+        length: text.length,
+        range,
+        node,
+        nodePath,
+        bindings
+      });
+    };
+
+    if (pattern.type === 'template') {
+      const template = await this.compileTemplate(pattern.pattern as string, parser);
+      this.walk(root, [], (node, nodePath) => {
+        const captures: CaptureMap = new Map();
+        if (this.matchNode(template.root, template.source, node, source, captures)) {
+          addMatch(node, nodePath, this.toBindings(captures, source));
+        }
+      });
+    } else if (pattern.type === 'ast') {
+      const astPattern = pattern.pattern as ASTPattern;
+      this.walk(root, [], (node, nodePath) => {
+        if (this.matchASTPattern(node, astPattern)) {
+          addMatch(node, nodePath, {});
+        }
+      });
+    } else {
+      const regex = new RegExp(pattern.pattern as string, 'gmd');
+      let match: RegExpExecArray | null;
+      while ((match = regex.exec(content)) !== null) {
+        if (match[0].length === 0) {
+          regex.lastIndex++;
+          continue;
+        }
+        const found = this.findEnclosingNode(root, source, match.index, match.index + match[0].length);
+        const bindings: Record<string, MetavariableBinding> = {};
+        for (const [name, indices] of Object.entries(match.indices?.groups ?? {})) {
+          if (indices) {
+            bindings[name] = { text: content.slice(indices[0], indices[1]), range: source.rangeOf(indices[0], indices[1]) };
+          }
+        }
+        addMatch(found.node, found.nodePath, bindings);
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * 驗證模式內容
+   */
+  private validatePattern(pattern: CodePattern): void {
+    if (pattern.type === 'ast') {
+      if (typeof pattern.pattern !== 'object' || !pattern.pattern.nodeType) {
+        throw new SearchError('AST 模式必須指定 nodeType', SearchErrorCode.PATTERN_INVALID);
+      }
+      return;
+    }
+
+    if (typeof pattern.pattern !== 'string' || pattern.pattern.trim() === '') {
+      throw new SearchError('模式不能為空', SearchErrorCode.PATTERN_INVALID);
+    }
+
+    if (pattern.type === 'regex') {
+      try {
+        new RegExp(pattern.pattern);
+      } catch (error) {
+        throw new SearchError(
+          `無效的正則表達式: ${error instanceof Error ? error.message : String(error)}`,
+          SearchErrorCode.REGEX_INVALID,
+          pattern.pattern
+        );
+      }
+    }
+  }
+
+  /**
+   * 以指定 Parser 解析模板，找出代表模板的 AST 節點
+   * 無法直接解析時（例如函式外的 await/return）包進函式後再試一次
+   */
+  private async compileTemplate(template: string, parser: ParserPlugin): Promise<CompiledTemplate> {
+    const cacheKey = `${parser.name}:${template}`;
+    const cached = this.templateCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const code = substitutePlaceholders(template.trim());
+    const target = normalizeCode(code).replace(/;$/, '');
+    const unit = this.getOffsetUnit(parser);
+    const extension = parser.supportedExtensions[0];
+    const wrapped = unit === 'utf8'
+      ? `func ${WRAPPER_NAME}() async throws {\n${code}\n}\n`
+      : `async function ${WRAPPER_NAME}() {\n${code}\n}\n`;
+
+    for (const candidate of [code, wrapped]) {
+      let root: ASTNode;
+      try {
+        root = (await parser.parse(candidate, `${WRAPPER_NAME}${extension}`)).root;
+      } catch {
+        continue;
+      }
+
+      const source = new SourceText(candidate, unit);
+      const templateRoot = this.findTemplateRoot(root, source, target);
+      if (templateRoot && templateRoot !== root) {
+        if (this.getMetavariable(templateRoot, source)) {
+          throw new SearchError('模板不能只包含 metavariable', SearchErrorCode.PATTERN_INVALID, template);
+        }
+        const compiled = { root: templateRoot, source };
+        this.templateCache.set(cacheKey, compiled);
+        return compiled;
+      }
+    }
+
+    throw new SearchError(
+      `無法解析模板（需為單一運算式、陳述式或宣告）: ${template}`,
+      SearchErrorCode.PATTERN_INVALID,
+      template
+    );
+  }
+
+  /**
+   * 找出文字與模板相同的最外層節點，並往下展開只有單一子節點的包裝節點
+   */
+  private findTemplateRoot(root: ASTNode, source: SourceText, target: string): ASTNode | null {
+    const matchesTarget = (node: ASTNode): boolean =>
+      normalizeCode(source.text(node)).replace(/;$/, '') === target;
+
+    const queue: ASTNode[] = [root];
+    let found: ASTNode | null = null;
+    let node: ASTNode | undefined;
+    while (!found && (node = queue.shift())) {
+      if (matchesTarget(node)) {
+        found = node;
+      } else {
+        queue.push(...node.children);
+      }
+    }
+
+    if (!found) {
+      return null;
+    }
+
+    for (;;) {
+      const children = this.meaningfulChildren(found, source);
+      if (children.length !== 1 || !matchesTarget(children[0])) {
+        return found;
+      }
+      found = children[0];
+    }
+  }
+
+  /**
+   * 比對模板節點與目標節點
+   */
+  private matchNode(
+    pattern: ASTNode,
+    patternSource: SourceText,
+    target: ASTNode,
+    targetSource: SourceText,
+    captures: CaptureMap
+  ): boolean {
+    const metavariable = this.getMetavariable(pattern, patternSource);
+    if (metavariable) {
+      return this.capture(metavariable, [target], targetSource, captures);
+    }
+
+    if (pattern.type !== target.type) {
+      return false;
+    }
+
+    const patternChildren = this.meaningfulChildren(pattern, patternSource);
+    const targetChildren = this.meaningfulChildren(target, targetSource);
+
+    if (patternChildren.length === 0) {
+      return normalizeCode(patternSource.text(pattern)) === normalizeCode(targetSource.text(target));
+    }
+
+    // 子節點以外的部分（運算子、關鍵字、括號）必須相同
+    if (this.skeleton(pattern, patternChildren, patternSource) !== this.skeleton(target, targetChildren, targetSource)) {
+      return false;
+    }
+
+    return this.matchSequence(patternChildren, 0, patternSource, targetChildren, 0, targetSource, captures);
+  }
+
+  /**
+   * 比對子節點序列，`$$$` metavariable 可匹配任意數量的節點
+   */
+  private matchSequence(
+    patterns: ASTNode[],
+    patternIndex: number,
+    patternSource: SourceText,
+    targets: ASTNode[],
+    targetIndex: number,
+    targetSource: SourceText,
+    captures: CaptureMap
+  ): boolean {
+    if (patternIndex === patterns.length) {
+      return targetIndex === targets.length;
+    }
+
+    const pattern = patterns[patternIndex];
+    const metavariable = this.getMetavariable(pattern, patternSource);
+
+    if (metavariable?.multi) {
+      for (let end = targetIndex; end <= targets.length; end++) {
+        const attempt = new Map(captures);
+        if (
+          this.capture(metavariable, targets.slice(targetIndex, end), targetSource, attempt) &&
+          this.matchSequence(patterns, patternIndex + 1, patternSource, targets, end, targetSource, attempt)
+        ) {
+          this.commit(attempt, captures);
+          return true;
+        }
+      }
+      return false;
+    }
+
+    if (targetIndex >= targets.length) {
+      return false;
+    }
+
+    const attempt = new Map(captures);
+    if (
+      this.matchNode(pattern, patternSource, targets[targetIndex], targetSource, attempt) &&
+      this.matchSequence(patterns, patternIndex + 1, patternSource, targets, targetIndex + 1, targetSource, attempt)
+    ) {
+      this.commit(attempt, captures);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * 記錄 metavariable 捕獲，同名 metavariable 必須對應相同程式碼
+   */
+  private capture(metavariable: Metavariable, nodes: ASTNode[], source: SourceText, captures: CaptureMap): boolean {
+    if (metavariable.name === '' || metavariable.name === '_') {
+      return true;
+    }
+
+    const existing = captures.get(metavariable.name);
+    if (existing) {
+      return normalizeCode(this.joinText(existing, source)) === normalizeCode(this.joinText(nodes, source));
+    }
+
+    captures.set(metavariable.name, nodes);
+    return true;
+  }
+
+  private commit(from: CaptureMap, to: CaptureMap): void {
+    for (const [name, nodes] of from) {
+      to.set(name, nodes);
+    }
+  }
+
+  /**
+   * 判斷節點是否為 metavariable 佔位符
+   */
+  private getMetavariable(node: ASTNode, source: SourceText): Metavariable | null {
+    const match = PLACEHOLDER_REGEX.exec(normalizeCode(source.text(node)).replace(/;$/, ''));
+    if (!match) {
+      return null;
+    }
+    return { multi: match[1] === 'S', name: match[2] };
+  }
+
+  /**
+   * 取得有實際內容的子節點（排除 EOF token、空清單等）
+   */
+  private meaningfulChildren(node: ASTNode, source: SourceText): ASTNode[] {
+    return node.children.filter(child => {
+      const [start, end] = source.span(child);
+      return end > start;
+    });
+  }
+
+  /**
+   * 節點去除子節點後剩下的語法骨架
+   * 忽略空白、註解、逗號與分號，使 `$$$ARGS` 與多個參數的分隔符號不影響比對
+   */
+  private skeleton(node: ASTNode, children: ASTNode[], source: SourceText): string {
+    const [start, end] = source.span(node);
+    const spans = children.map(child => source.span(child)).sort((a, b) => a[0] - b[0]);
+
+    let cursor = start;
+    let result = '';
+    for (const [childStart, childEnd] of spans) {
+      if (childStart > cursor) {
+        result += source.content.slice(cursor, childStart);
+      }
+      cursor = Math.max(cursor, childEnd);
+    }
+    if (end > cursor) {
+      result += source.content.slice(cursor, end);
+    }
+
+    return normalizeCode(result).replace(/[,;]/g, '');
+  }
+
+  private joinText(nodes: ASTNode[], source: SourceText): string {
+    if (nodes.length === 0) {
+      return '';
+    }
+    const start = source.span(nodes[0])[0];
+    const end = source.span(nodes[nodes.length - 1])[1];
+    return source.content.slice(start, end);
+  }
+
+  /**
+   * 轉換捕獲結果為 MetavariableBinding
+   */
+  private toBindings(captures: CaptureMap, source: SourceText): Record<string, MetavariableBinding> {
+    const bindings: Record<string, MetavariableBinding> = {};
+
+    for (const [name, nodes] of captures) {
+      if (nodes.length === 0) {
+        bindings[name] = { text: '', range: undefined };
+        continue;
+      }
+      const start = source.span(nodes[0])[0];
+      const end = source.span(nodes[nodes.length - 1])[1];
+      bindings[name] = { text: source.content.slice(start, end), range: source.rangeOf(start, end) };
+    }
+
+    return bindings;
+  }
+
+  /**
+   * 比對 AST 模式（節點類型、屬性子集合與子節點模式）
+   */
+  private matchASTPattern(node: ASTNode, pattern: ASTPattern): boolean {
+    if (node.type !== pattern.nodeType) {
+      return false;
+    }
+
+    for (const [key, value] of Object.entries(pattern.properties ?? {})) {
+      if (JSON.stringify(node.properties[key]) !== JSON.stringify(value)) {
+        return false;
+      }
+    }
+
+    return (pattern.children ?? []).every(childPattern =>
+      node.children.some(child => this.matchASTPattern(child, childPattern))
+    );
+  }
+
+  /**
+   * 找出包含指定範圍的最內層節點
+   */
+  private findEnclosingNode(
+    root: ASTNode,
+    source: SourceText,
+    start: number,
+    end: number
+  ): { node: ASTNode; nodePath: string[] } {
+    let node = root;
+    const nodePath = [root.type];
+
+    for (;;) {
+      const child = node.children.find(candidate => {
+        const [childStart, childEnd] = source.span(candidate);
+        return childStart <= start && end <= childEnd;
+      });
+      if (!child) {
+        return { node, nodePath };
+      }
+      node = child;
+      nodePath.push(child.type);
+    }
+  }
+
+  /**
+   * 深度優先走訪 AST
+   */
+  private walk(node: ASTNode, parentPath: string[], visit: (node: ASTNode, nodePath: string[]) => void): void {
+    const nodePath = [...parentPath, node.type];
+    visit(node, nodePath);
+    for (const child of node.children) {
+      this.walk(child, nodePath, visit);
+    }
+  }
+
+  /**
+   * Swift bridge 以 UTF-8 位元組表示 offset，其餘插件為 UTF-16 索引
+   */
+  private getOffsetUnit(parser: ParserPlugin): 'utf16' | 'utf8' {
+    return parser.name === 'swift' ? 'utf8' : 'utf16';
+  }
+
+  private buildContext(lines: string[], lineIndex: number, contextLines: number): MatchContext {
+    return {
+      before: lines.slice(Math.max(0, lineIndex - contextLines), lineIndex),
+      after: lines.slice(lineIndex + 1, lineIndex + 1 + contextLines)
+    };
+  }
+
+  /**
+   * 取得要搜尋的檔案（只包含有 Parser 支援的檔案）
+   */
+  private async getSearchFiles(
+    scope: SearchScope,
+    options: Required<PatternSearchOptions>,
+    language: string
+  ): Promise<string[]> {
+    const searchPath = path.resolve(scope.path || process.cwd());
+
+    let files: string[];
+    if (scope.type === 'file') {
+      files = [searchPath];
+    } else {
+      const pattern = scope.type === 'directory' && scope.recursive === false ? '*' : '**/*';
+      files = await glob(pattern, {
+        cwd: searchPath,
+        ignore: ['**/node_modules/**', '**/dist/**', '**/build/**', '**/.git/**', '**/coverage/**', '**/*.min.js'],
+        nodir: true,
+        absolute: true
+      });
+    }
+
+    return files
+      .filter(file => {
+        const parser = this.registry.getParser(path.extname(file));
+        if (!parser) {
+          return false;
+        }
+        if (language && parser.name !== language && !parser.supportedLanguages.includes(language)) {
+          return false;
+        }
+
+        const relativePath = path.relative(searchPath, file).split(path.sep).join('/');
+        if (options.includeFiles.length > 0 &&
+          !options.includeFiles.some(pattern => minimatch(relativePath, pattern, { matchBase: true }))) {
+          return false;
+        }
+        return !options.excludeFiles.some(pattern => minimatch(relativePath, pattern, { matchBase: true }));
+      })
+      .sort();
+  }
+}
@@ -0,0 +1,586 @@
+/**
+ * 語義搜尋引擎實作
+ * 以 BM25 對符號名稱、文件註解、字串字面值與識別符建立離線詞彙索引，
+ * 回答如「where do we retry http requests」的自然語言查詢
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+
+import type { IndexEngine } from '../../indexing/index-engine.js';
+import type { Range, Symbol } from '../../../shared/types/index.js';
+import { SymbolType } from '../../../shared/types/index.js';
+import type {
+  Match,
+  SearchContext,
+  SearchScope,
+  SemanticSearchOptions,
+  SemanticSearchResult
+} from '../types.js';
+
+/**
+ * 語義索引檔案格式版本
+ * 分詞或欄位權重變更時需遞增，舊版本的索引檔會被忽略並重建
+ */
+export const SEMANTIC_INDEX_VERSION = '1';
+
+/**
+ * 語義索引檔名（與符號索引放在同一目錄）
+ */
+export const SEMANTIC_INDEX_FILE_NAME = 'semantic-index.json';
+
+/** BM25 參數 */
+const K1 = 1.2;
+const B = 0.75;
+
+/** 各欄位的詞頻權重 */
+const FIELD_WEIGHTS = {
+  name: 3,
+  doc: 2,
+  literal: 1,
+  identifier: 1
+} as const;
+
+const STOP_WORDS = new Set([
+  // 英文
+  'a', 'an', 'the', 'do', 'does', 'did', 'we', 'our', 'you', 'i', 'is', 'are', 'was', 'were', 'be', 'been',
+  'to', 'of', 'in', 'on', 'at', 'by', 'for', 'from', 'with', 'and', 'or', 'not', 'no', 'it', 'its',
+  'this', 'that', 'these', 'those', 'there', 'here', 'where', 'what', 'which', 'who', 'when', 'how', 'why',
+  'can', 'should', 'would', 'will', 'all', 'any', 'some', 'into', 'about', 'code', 'find', 'show',
+  // 程式語言關鍵字
+  'const', 'let', 'var', 'function', 'func', 'return', 'if', 'else', 'while', 'new', 'async', 'await',
+  'export', 'import', 'class', 'interface', 'type', 'extends', 'implements', 'public', 'private',
+  'protected', 'static', 'readonly', 'void', 'null', 'undefined', 'nil', 'true', 'false', 'string',
+  'number', 'boolean', 'unknown', 'typeof', 'instanceof', 'try', 'catch', 'throw', 'throws', 'finally',
+  'switch', 'case', 'break', 'continue', 'default', 'super', 'self', 'guard', 'struct', 'protocol',
+  'extension', 'enum', 'as', 'get', 'set', 'param', 'returns'
+]);
+
+/**
+ * 索引中的符號文件
+ */
+interface SemanticDocument {
+  name: string;
+  type: SymbolType;
+  range: Range;
+  /** 加權詞頻 */
+  terms: Record<string, number>;
+  /** 文件長度（加權詞頻總和） */
+  length: number;
+}
+
+interface SemanticFileEntry {
+  checksum: string;
+  documents: SemanticDocument[];
+}
+
+interface SerializedSemanticIndex {
+  version: string;
+  workspacePath: string;
+  files: Record<string, SemanticFileEntry>;
+}
+
+interface ScoredDocument {
+  filePath: string;
+  document: SemanticDocument;
+  score: number;
+  matchedTerms: number;
+}
+
+/**
+ * 將文字切分為詞彙
+ * 識別符依 camelCase、snake_case、kebab-case 切分，英文詞彙做簡易詞幹化，中文以雙字詞切分
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const cjk of text.match(/[\u4e00-\u9fff]+/g) ?? []) {
+    if (cjk.length === 1) {
+      tokens.push(cjk);
+    }
+    for (let i = 0; i < cjk.length - 1; i++) {
+      tokens.push(cjk.slice(i, i + 2));
+    }
+  }
+
+  for (const word of text.match(/[A-Za-z][A-Za-z0-9]*/g) ?? []) {
+    for (const part of word.match(/[A-Z]+(?![a-z])|[A-Z]?[a-z]+|\d+/g) ?? []) {
+      const lower = part.toLowerCase();
+      if (lower.length < 2 || /^\d+$/.test(lower) || STOP_WORDS.has(lower)) {
+        continue;
+      }
+      tokens.push(stem(lower));
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * 簡易英文詞幹化（retries/retrying/retried → retry、requests → request）
+ */
+function stem(word: string): string {
+  if (word.length <= 3) {
+    return word;
+  }
+
+  let result = word;
+  if (/(ies|ied)$/.test(result)) {
+    result = result.slice(0, -3) + 'y';
+  } else if (result.endsWith('ing') && result.length > 5) {
+    result = undouble(result.slice(0, -3));
+  } else if (result.endsWith('ed') && result.length > 4) {
+    result = undouble(result.slice(0, -2));
+  } else if (/(s|x|z|ch|sh)es$/.test(result)) {
+    result = result.slice(0, -2);
+  } else if (result.endsWith('s') && !/(ss|us|is)$/.test(result)) {
+    result = result.slice(0, -1);
+  }
+
+  if (result.endsWith('e') && result.length > 3) {
+    result = result.slice(0, -1);
+  }
+
+  return result;
+}
+
+function undouble(word: string): string {
+  return /([^aeiouls])\1$/.test(word) ? word.slice(0, -1) : word;
+}
+
+/**
+ * 取得詞頻（terms 為一般物件，需避免讀到 constructor 等原型屬性）
+ */
+function termFrequency(document: SemanticDocument, term: string): number {
+  return Object.hasOwn(document.terms, term) ? document.terms[term] : 0;
+}
+
+/**
+ * 語義搜尋引擎
+ * 以 IndexEngine 的符號為文件單位，依檔案 checksum 增量更新並持久化於符號索引旁
+ */
+export class SemanticSearchEngine {
+  private readonly files = new Map<string, SemanticFileEntry>();
+  private loaded = false;
+
+  constructor(private readonly indexEngine: IndexEngine) {}
+
+  /**
+   * 取得語義索引檔案路徑，未啟用持久化時回傳 null
+   */
+  getStoragePath(): string | null {
+    const symbolIndexPath = this.indexEngine.getStoragePath();
+    return symbolIndexPath ? path.join(path.dirname(symbolIndexPath), SEMANTIC_INDEX_FILE_NAME) : null;
+  }
+
+  /**
+   * 執行語義搜尋
+   */
+  async search(
+    query: string,
+    options: SemanticSearchOptions = { scope: { type: 'project' } },
+    context?: SearchContext
+  ): Promise<SemanticSearchResult> {
+    const startTime = Date.now();
+    await this.refresh();
+
+    const queryTerms = [...new Set(tokenize(query))];
+    const maxResults = options.maxResults ?? 20;
+
+    const candidates: Array<{ filePath: string; document: SemanticDocument }> = [];
+    for (const [filePath, entry] of this.files) {
+      if (!this.isInSearchScope(filePath, options.scope, options)) {
+        continue;
+      }
+      for (const document of entry.documents) {
+        if (!options.symbolTypes || options.symbolTypes.includes(document.type)) {
+          candidates.push({ filePath, document });
+        }
+      }
+    }
+
+    const scored = this.score(queryTerms, candidates, context);
+
+    // relatedSymbols 與 matches 一一對應
+    const resolved = await this.resolveSymbols(scored.slice(0, maxResults));
+    const top = resolved.map(({ item }) => item);
+    const relatedSymbols = resolved.map(({ symbol }) => symbol);
+    const topScore = top[0]?.score ?? 0;
+    const matches = await this.buildMatches(top, topScore, options);
+
+    return {
+      matches,
+      totalCount: scored.length,
+      searchTime: Date.now() - startTime,
+      truncated: scored.length > top.length,
+      suggestions: this.buildSuggestions(queryTerms, top, candidates),
+      relatedSymbols,
+      confidence: top.length > 0 && queryTerms.length > 0 ? top[0].matchedTerms / queryTerms.length : 0
+    };
+  }
+
+  /**
+   * 與 IndexEngine 同步：只重新分析 checksum 變更的檔案，並移除已不在索引中的檔案
+   */
+  async refresh(): Promise<void> {
+    if (!this.loaded) {
+      await this.load();
+      this.loaded = true;
+    }
+
+    let dirty = false;
+    const indexedFiles = this.indexEngine.getAllIndexedFiles();
+    const indexedPaths = new Set(indexedFiles.map(file => file.filePath));
+
+    for (const filePath of [...this.files.keys()]) {
+      if (!indexedPaths.has(filePath)) {
+        this.files.delete(filePath);
+        dirty = true;
+      }
+    }
+
+    for (const fileInfo of indexedFiles) {
+      if (this.files.get(fileInfo.filePath)?.checksum === fileInfo.checksum) {
+        continue;
+      }
+
+      let content: string;
+      try {
+        content = await fs.readFile(fileInfo.filePath, 'utf-8');
+      } catch {
+        continue;
+      }
+
+      const symbols = await this.indexEngine.getFileSymbols(fileInfo.filePath);
+      this.files.set(fileInfo.filePath, {
+        checksum: fileInfo.checksum,
+        documents: this.buildDocuments(content, symbols)
+      });
+      dirty = true;
+    }
+
+    if (dirty) {
+      await this.save();
+    }
+  }
+
+  /**
+   * 為檔案中的符號建立文件
+   * 函式內的區域變數不建立文件，其識別符已包含在所屬函式中
+   */
+  private buildDocuments(content: string, symbols: readonly Symbol[]): SemanticDocument[] {
+    const lines = content.split('\n');
+    const documents: SemanticDocument[] = [];
+    const seen = new Set<string>();
+
+    for (const symbol of symbols) {
+      const { start, end } = symbol.location.range;
+      // 同一宣告可能被解析器回報多次
+      const key = `${symbol.name}:${start.line}:${start.column}`;
+      if (this.isLocalSymbol(symbol) || seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      const body = lines.slice(start.line, end.line + 1).join('\n');
+      const literals = body.match(/(['"`])(?:\\.|(?!\1)[^\\\n])*\1/g) ?? [];
+      const comments = body.match(/\/\*[\s\S]*?\*\/|\/\/[^\n]*/g) ?? [];
+      const code = body
+        .replace(/\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, ' ')
+        .replace(/(['"`])(?:\\.|(?!\1)[^\\\n])*\1/g, ' ');
+
+      const terms = new Map<string, number>();
+      const add = (text: string, weight: number): void => {
+        for (const token of tokenize(text)) {
+          terms.set(token, (terms.get(token) ?? 0) + weight);
+        }
+      };
+
+      add(symbol.name, FIELD_WEIGHTS.name);
+      add(this.extractDocComment(lines, start.line), FIELD_WEIGHTS.doc);
+      add(comments.join('\n'), FIELD_WEIGHTS.doc);
+      add(literals.join(' '), FIELD_WEIGHTS.literal);
+      add(code, FIELD_WEIGHTS.identifier);
+
+      const length = [...terms.values()].reduce((sum, count) => sum + count, 0);
+      if (length === 0) {
+        continue;
+      }
+
+      documents.push({
+        name: symbol.name,
+        type: symbol.type,
+        range: symbol.location.range,
+        terms: Object.fromEntries(terms),
+        length
+      });
+    }
+
+    return documents;
+  }
+
+  /**
+   * 取得宣告前緊鄰的註解區塊（JSDoc、`//`、Swift `///`）
+   */
+  private extractDocComment(lines: string[], declarationLine: number): string {
+    const comment: string[] = [];
+
+    for (let i = declarationLine - 1; i >= 0; i--) {
+      const line = lines[i].trim();
+      if (line.startsWith('@') && comment.length === 0) {
+        // 略過裝飾器與 Swift attribute
+        continue;
+      }
+      if (!/^(\/\/|\/\*|\*)/.test(line)) {
+        break;
+      }
+      comment.unshift(line);
+    }
+
+    return comment.join('\n');
+  }
+
+  private isLocalSymbol(symbol: Symbol): boolean {
+    const local = symbol.scope?.type === 'function' || symbol.scope?.type === 'block';
+    return local && symbol.type !== SymbolType.Function && symbol.type !== SymbolType.Class;
+  }
+
+  /**
+   * 以 BM25 計算文件分數
+   */
+  private score(
+    queryTerms: string[],
+    candidates: Array<{ filePath: string; document: SemanticDocument }>,
+    context?: SearchContext
+  ): ScoredDocument[] {
+    if (queryTerms.length === 0 || candidates.length === 0) {
+      return [];
+    }
+
+    const total = candidates.length;
+    const averageLength = candidates.reduce((sum, { document }) => sum + document.length, 0) / total;
+    const idf = new Map<string, number>();
+    for (const term of queryTerms) {
+      const df = candidates.filter(({ document }) => termFrequency(document, term) > 0).length;
+      idf.set(term, Math.log(1 + (total - df + 0.5) / (df + 0.5)));
+    }
+
+    const currentFile = context?.currentFile ? path.resolve(context.currentFile) : undefined;
+    const scored: ScoredDocument[] = [];
+
+    for (const { filePath, document } of candidates) {
+      let score = 0;
+      let matchedTerms = 0;
+
+      for (const term of queryTerms) {
+        const tf = termFrequency(document, term);
+        if (tf === 0) {
+          continue;
+        }
+        matchedTerms++;
+        score += (idf.get(term) ?? 0) * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * document.length / averageLength));
+      }
+
+      if (score > 0) {
+        // 目前編輯中的檔案略為加分
+        if (currentFile && path.resolve(filePath) === currentFile) {
+          score *= 1.1;
+        }
+        scored.push({ filePath, document, score, matchedTerms });
+      }
+    }
+
+    return scored.sort((a, b) => b.score - a.score || a.document.name.localeCompare(b.document.name));
+  }
+
+  /**
+   * 產生搜尋建議：索引中不存在的查詢詞以相近詞彙取代，並補充前幾名結果的代表詞彙
+   */
+  private buildSuggestions(
+    queryTerms: string[],
+    top: ScoredDocument[],
+    candidates: Array<{ filePath: string; document: SemanticDocument }>
+  ): string[] {
+    const vocabulary = new Set<string>();
+    for (const { document } of candidates) {
+      Object.keys(document.terms).forEach(term => vocabulary.add(term));
+    }
+
+    const suggestions: string[] = [];
+    for (const term of queryTerms) {
+      if (vocabulary.has(term)) {
+        continue;
+      }
+      const closest = [...vocabulary]
+        .filter(candidate => Math.abs(candidate.length - term.length) <= 2)
+        .map(candidate => ({ candidate, distance: this.editDistance(term, candidate) }))
+        .filter(({ distance }) => distance <= Math.max(1, Math.floor(term.length / 4)))
+        .sort((a, b) => a.distance - b.distance)[0];
+      if (closest) {
+        suggestions.push(closest.candidate);
+      }
+    }
+
+    const related = new Map<string, number>();
+    for (const { document } of top.slice(0, 5)) {
+      for (const [term, count] of Object.entries(document.terms)) {
+        if (!queryTerms.includes(term)) {
+          related.set(term, (related.get(term) ?? 0) + count);
+        }
+      }
+    }
+    const relatedTerms = [...related.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([term]) => term);
+
+    return [...new Set([...suggestions, ...relatedTerms])].slice(0, 5);
+  }
+
+  private editDistance(a: string, b: string): number {
+    const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+      let diagonal = previous[0];
+      previous[0] = i;
+      for (let j = 1; j <= b.length; j++) {
+        const temp = previous[j];
+        previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+        diagonal = temp;
+      }
+    }
+    return previous[b.length];
+  }
+
+  /**
+   * 將文件對應回 IndexEngine 中的符號（找不到對應符號的文件會被略過）
+   */
+  private async resolveSymbols(items: ScoredDocument[]): Promise<Array<{ item: ScoredDocument; symbol: Symbol }>> {
+    const resolved: Array<{ item: ScoredDocument; symbol: Symbol }> = [];
+
+    for (const item of items) {
+      const { filePath, document } = item;
+      const fileSymbols = await this.indexEngine.getFileSymbols(filePath);
+      const symbol = fileSymbols.find(candidate =>
+        candidate.name === document.name &&
+        candidate.location.range.start.line === document.range.start.line &&
+        candidate.location.range.start.column === document.range.start.column
+      );
+      if (symbol) {
+        resolved.push({ item, symbol });
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * 轉換為通用的 Match 格式（行列從 1 開始，分數以最高分正規化）
+   */
+  private async buildMatches(
+    items: ScoredDocument[],
+    topScore: number,
+    options: SemanticSearchOptions
+  ): Promise<Match[]> {
+    const fileLines = new Map<string, string[]>();
+    const matches: Match[] = [];
+    const contextLines = options.showContext ? options.contextLines ?? 2 : 0;
+
+    for (const { filePath, document, score } of items) {
+      let lines = fileLines.get(filePath);
+      if (!lines) {
+        try {
+          lines = (await fs.readFile(filePath, 'utf-8')).split('\n');
+        } catch {
+          lines = [];
+        }
+        fileLines.set(filePath, lines);
+      }
+
+      const { start, end } = document.range;
+      const content = lines[start.line] ?? document.name;
+      matches.push({
+        file: filePath,
+        line: start.line + 1,
+        column: start.column + 1,
+        content,
+        context: {
+          before: contextLines > 0 ? lines.slice(Math.max(0, start.line - contextLines), start.line) : [],
+          after: contextLines > 0 ? lines.slice(start.line + 1, start.line + 1 + contextLines) : []
+        },
+        score: topScore > 0 ? score / topScore : 0,
+        length: document.name.length,
+        range: {
+          start: { line: start.line + 1, column: start.column + 1, offset: undefined },
+          end: { line: end.line + 1, column: end.column + 1, offset: undefined }
+        }
+      });
+    }
+
+    return matches;
+  }
+
+  private isInSearchScope(filePath: string, scope: SearchScope, options: SemanticSearchOptions): boolean {
+    if (scope.path && (scope.type === 'file' || scope.type === 'directory')) {
+      const relative = path.relative(path.resolve(scope.path), path.resolve(filePath));
+      if (scope.type === 'file' ? relative !== '' : relative.startsWith('..') || path.isAbsolute(relative)) {
+        return false;
+      }
+    }
+
+    const relativePath = path.relative(this.indexEngine.getConfig().workspacePath, filePath).split(path.sep).join('/');
+    if (options.includeFiles?.length &&
+      !options.includeFiles.some(pattern => minimatch(relativePath, pattern, { matchBase: true }))) {
+      return false;
+    }
+    return !options.excludeFiles?.some(pattern => minimatch(relativePath, pattern, { matchBase: true }));
+  }
+
+  /**
+   * 載入持久化的語義索引，版本或工作區不符時忽略
+   */
+  private async load(): Promise<void> {
+    const storagePath = this.getStoragePath();
+    if (!storagePath) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(await fs.readFile(storagePath, 'utf-8')) as SerializedSemanticIndex;
+      if (data.version !== SEMANTIC_INDEX_VERSION ||
+        path.resolve(data.workspacePath) !== path.resolve(this.indexEngine.getConfig().workspacePath)) {
+        return;
+      }
+      for (const [filePath, entry] of Object.entries(data.files)) {
+        this.files.set(filePath, entry);
+      }
+    } catch {
+      // 檔案不存在或格式錯誤時重建
+    }
+  }
+
+  /**
+   * 寫入語義索引（先寫暫存檔再改名，避免留下不完整的檔案），與符號索引相同只在 persistChanges 時寫入
+   */
+  private async save(): Promise<void> {
+    const storagePath = this.getStoragePath();
+    if (!storagePath || !this.indexEngine.getConfig().persistChanges) {
+      return;
+    }
+
+    const data: SerializedSemanticIndex = {
+      version: SEMANTIC_INDEX_VERSION,
+      workspacePath: this.indexEngine.getConfig().workspacePath,
+      files: Object.fromEntries(this.files)
+    };
+
+    try {
+      await fs.mkdir(path.dirname(storagePath), { recursive: true });
+      const tempPath = `${storagePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(data), 'utf-8');
+      await fs.rename(tempPath, storagePath);
+    } catch (error) {
+      // 持久化失敗不影響記憶體中的索引
+      console.warn(`語義索引持久化失敗: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
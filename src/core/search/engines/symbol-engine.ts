@@ -0,0 +1,394 @@
+/**
+ * 符號搜尋引擎實作
+ * 基於 IndexEngine 的符號索引，提供模糊、camelCase 縮寫匹配與作用域感知排序
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { minimatch } from 'minimatch';
+
+import type { Symbol, SymbolType } from '../../../shared/types/index.js';
+import type { IndexEngine } from '../../indexing/index-engine.js';
+import type {
+  SymbolQuery,
+  SymbolSearchOptions,
+  SymbolSearchResult,
+  Match,
+  SearchScope
+} from '../types.js';
+
+/**
+ * 評分後的候選符號
+ */
+interface ScoredSymbol {
+  symbol: Symbol;
+  score: number;
+}
+
+/**
+ * 符號搜尋引擎
+ */
+export class SymbolSearchEngine {
+  private readonly defaultOptions: Required<SymbolSearchOptions> = {
+    symbolTypes: [],
+    modifiers: [],
+    includePrivate: true,
+    includeTests: false,
+    scope: { type: 'project' },
+    includeFiles: [],
+    excludeFiles: [],
+    maxResults: 100,
+    timeout: 30000,
+    useIndex: true,
+    showContext: false,
+    contextLines: 2
+  };
+
+  constructor(private readonly indexEngine: IndexEngine) {}
+
+  /**
+   * 執行符號搜尋
+   */
+  async search(query: SymbolQuery): Promise<SymbolSearchResult> {
+    const startTime = performance.now();
+    const options = { ...this.defaultOptions, ...query.options };
+    const pattern = (query.name ?? query.query ?? '').trim();
+    const scope = query.scope ?? options.scope;
+
+    const symbolTypes = new Set<SymbolType>(options.symbolTypes);
+    if (query.symbolType) {
+      symbolTypes.add(query.symbolType);
+    }
+    const modifiers = [...new Set([...(query.modifiers ?? []), ...options.modifiers])];
+
+    const candidates = await this.indexEngine.getAllSymbols();
+    const scored: ScoredSymbol[] = [];
+
+    for (const { symbol } of candidates) {
+      if (symbolTypes.size > 0 && !symbolTypes.has(symbol.type)) {
+        continue;
+      }
+      if (!modifiers.every(modifier => symbol.modifiers.includes(modifier))) {
+        continue;
+      }
+      if (!options.includePrivate && this.isPrivate(symbol)) {
+        continue;
+      }
+      if (!this.isInSearchScope(symbol.location.filePath, scope, options)) {
+        continue;
+      }
+
+      const nameScore = pattern ? this.matchName(pattern, symbol.name) : 0.5;
+      if (nameScore === null) {
+        continue;
+      }
+
+      scored.push({ symbol, score: this.rankSymbol(symbol, nameScore) });
+    }
+
+    // 分數相同時依檔案與位置排序，讓結果穩定
+    scored.sort((a, b) =>
+      b.score - a.score ||
+      a.symbol.location.filePath.localeCompare(b.symbol.location.filePath) ||
+      a.symbol.location.range.start.line - b.symbol.location.range.start.line
+    );
+
+    const limited = scored.slice(0, options.maxResults);
+    const symbols = limited.map(item => item.symbol);
+    const matches = await this.buildMatches(limited, options);
+
+    const symbolsByType = new Map<SymbolType, Symbol[]>();
+    for (const symbol of symbols) {
+      const group = symbolsByType.get(symbol.type) ?? [];
+      group.push(symbol);
+      symbolsByType.set(symbol.type, group);
+    }
+
+    return {
+      matches,
+      totalCount: scored.length,
+      searchTime: Math.round(performance.now() - startTime),
+      truncated: scored.length > limited.length,
+      symbols,
+      symbolsByType
+    };
+  }
+
+  /**
+   * 計算名稱匹配分數，不匹配時回傳 null
+   * 順序：完全匹配 > 前綴 > camelCase 縮寫 > 子字串 > 模糊子序列
+   */
+  private matchName(pattern: string, name: string): number | null {
+    if (name === pattern) {
+      return 1.0;
+    }
+
+    const lowerPattern = pattern.toLowerCase();
+    const lowerName = name.toLowerCase();
+
+    if (lowerName === lowerPattern) {
+      return 0.95;
+    }
+
+    if (lowerName.startsWith(lowerPattern)) {
+      return 0.8 + 0.1 * (pattern.length / name.length);
+    }
+
+    if (this.matchCamelHumps(pattern, name)) {
+      return 0.75;
+    }
+
+    const index = lowerName.indexOf(lowerPattern);
+    if (index !== -1) {
+      // 從單字邊界開始的子字串較相關
+      const atBoundary = this.splitWords(name).some(word => word.start === index);
+      return (atBoundary ? 0.65 : 0.55) + 0.1 * (pattern.length / name.length);
+    }
+
+    const fuzzyScore = this.fuzzyScore(lowerPattern, lowerName);
+    if (fuzzyScore > 0) {
+      return 0.2 + 0.3 * fuzzyScore;
+    }
+
+    return null;
+  }
+
+  /**
+   * camelCase / snake_case 縮寫匹配
+   * 查詢依序由各單字的前綴組成，例如 `gUBI`、`getUBI`、`gubi` 皆匹配 `getUserById`
+   */
+  private matchCamelHumps(pattern: string, name: string): boolean {
+    const words = this.splitWords(name).map(word => word.text.toLowerCase());
+    const query = pattern.replace(/[_\-\s]/g, '').toLowerCase();
+
+    if (words.length < 2 || query.length === 0) {
+      return false;
+    }
+
+    // 查詢的每一段都必須是某個單字的前綴，中間的單字可被跳過
+    const match = (queryIndex: number, wordIndex: number): boolean => {
+      if (queryIndex === query.length) {
+        return true;
+      }
+
+      for (let next = wordIndex; next < words.length; next++) {
+        const word = words[next];
+        let length = 0;
+        while (
+          length < word.length &&
+          queryIndex + length < query.length &&
+          word[length] === query[queryIndex + length]
+        ) {
+          length++;
+          if (match(queryIndex + length, next + 1)) {
+            return true;
+          }
+        }
+      }
+
+      return false;
+    };
+
+    return match(0, 0);
+  }
+
+  /**
+   * 模糊子序列匹配分數（0 表示不匹配）
+   */
+  private fuzzyScore(pattern: string, target: string): number {
+    let patternIndex = 0;
+    let consecutive = 0;
+    let bonus = 0;
+
+    for (let i = 0; i < target.length && patternIndex < pattern.length; i++) {
+      if (target[i] === pattern[patternIndex]) {
+        patternIndex++;
+        consecutive++;
+        bonus += consecutive;
+      } else {
+        consecutive = 0;
+      }
+    }
+
+    if (patternIndex < pattern.length) {
+      return 0;
+    }
+
+    const maxBonus = (pattern.length * (pattern.length + 1)) / 2;
+    return (bonus / maxBonus) * (pattern.length / target.length);
+  }
+
+  /**
+   * 拆分識別符為單字（camelCase、PascalCase、snake_case、數字）
+   */
+  private splitWords(name: string): Array<{ text: string; start: number }> {
+    const words: Array<{ text: string; start: number }> = [];
+    const regex = /[A-Z]+(?![a-z])|[A-Z]?[a-z]+|\d+/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = regex.exec(name)) !== null) {
+      words.push({ text: match[0], start: match.index });
+    }
+
+    return words;
+  }
+
+  /**
+   * 作用域感知排序
+   * 頂層與匯出的符號優先，巢狀越深（類別成員、區域變數）分數越低
+   */
+  private rankSymbol(symbol: Symbol, nameScore: number): number {
+    let depth = 0;
+    let current = symbol.scope;
+    while (current) {
+      if (current.type !== 'global' && current.type !== 'module') {
+        depth++;
+      }
+      current = current.parent;
+    }
+
+    let score = nameScore * (1 - Math.min(depth, 4) * 0.05);
+
+    if (symbol.modifiers.includes('export')) {
+      score += 0.03;
+    }
+    if (this.isPrivate(symbol)) {
+      score -= 0.03;
+    }
+
+    return Math.max(0, Math.min(1, score));
+  }
+
+  /**
+   * 判斷是否為私有符號
+   */
+  private isPrivate(symbol: Symbol): boolean {
+    return symbol.modifiers.includes('private') ||
+      symbol.modifiers.includes('fileprivate') ||
+      symbol.name.startsWith('#');
+  }
+
+  /**
+   * 判斷是否為測試檔案（使用相對於工作區的路徑）
+   */
+  private isTestFile(relativePath: string): boolean {
+    return /\.(test|spec)\.[cm]?[jt]sx?$/.test(relativePath) ||
+      /Tests?\.swift$/.test(relativePath) ||
+      /(^|\/)(__tests__|tests?)\//.test(relativePath);
+  }
+
+  /**
+   * 檢查檔案是否在搜尋範圍內
+   */
+  private isInSearchScope(
+    filePath: string,
+    scope: SearchScope,
+    options: Required<SymbolSearchOptions>
+  ): boolean {
+    const relativePath = path.relative(this.indexEngine.getConfig().workspacePath, filePath).split(path.sep).join('/');
+
+    if (!options.includeTests && this.isTestFile(relativePath)) {
+      return false;
+    }
+
+    if (scope.path && scope.type !== 'project' && scope.type !== 'workspace') {
+      const scopePath = path.resolve(scope.path);
+      const resolved = path.resolve(filePath);
+
+      if (scope.type === 'file' && resolved !== scopePath) {
+        return false;
+      }
+
+      if (scope.type === 'directory') {
+        const relative = path.relative(scopePath, resolved);
+        if (relative.startsWith('..') || path.isAbsolute(relative)) {
+          return false;
+        }
+        const depth = relative.split(path.sep).length - 1;
+        if (scope.recursive === false && depth > 0) {
+          return false;
+        }
+        if (scope.maxDepth !== undefined && depth > scope.maxDepth) {
+          return false;
+        }
+      }
+    }
+
+    if (options.includeFiles.length > 0 &&
+      !options.includeFiles.some(pattern => minimatch(relativePath, pattern, { matchBase: true }))) {
+      return false;
+    }
+
+    if (options.excludeFiles.some(pattern => minimatch(relativePath, pattern, { matchBase: true }))) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * 轉換為通用的 Match 格式（行列從 1 開始，與文字搜尋一致）
+   */
+  private async buildMatches(
+    items: ScoredSymbol[],
+    options: Required<SymbolSearchOptions>
+  ): Promise<Match[]> {
+    const fileLines = new Map<string, string[]>();
+    const matches: Match[] = [];
+
+    for (const { symbol, score } of items) {
+      const { filePath, range } = symbol.location;
+
+      let lines = fileLines.get(filePath);
+      if (!lines) {
+        try {
+          lines = (await readFile(filePath, 'utf-8')).split('\n');
+        } catch {
+          lines = [];
+        }
+        fileLines.set(filePath, lines);
+      }
+
+      const lineIndex = range.start.line;
+      const contextLines = options.showContext ? options.contextLines : 0;
+      const classScope = this.findEnclosingScope(symbol, 'class');
+      const functionScope = this.findEnclosingScope(symbol, 'function');
+
+      matches.push({
+        file: filePath,
+        line: lineIndex + 1,
+        column: range.start.column + 1,
+        content: lines[lineIndex] ?? symbol.name,
+        context: {
+          before: contextLines > 0 ? lines.slice(Math.max(0, lineIndex - contextLines), lineIndex) : [],
+          after: contextLines > 0 ? lines.slice(lineIndex + 1, lineIndex + 1 + contextLines) : [],
+          ...(classScope && { class: classScope }),
+          ...(functionScope && { function: functionScope }),
+          ...(symbol.scope?.name && { scope: symbol.scope.name })
+        },
+        score,
+        length: symbol.name.length,
+        range: {
+          start: { line: lineIndex + 1, column: range.start.column + 1, offset: undefined },
+          end: { line: range.end.line + 1, column: range.end.column + 1, offset: undefined }
+        }
+      });
+    }
+
+    return matches;
+  }
+
+  /**
+   * 找出符號所在的指定類型作用域名稱
+   */
+  private findEnclosingScope(symbol: Symbol, type: 'class' | 'function'): string | undefined {
+    let current = symbol.scope;
+    while (current) {
+      if (current.type === type && current.name) {
+        return current.name;
+      }
+      current = current.parent;
+    }
+    return undefined;
+  }
+}
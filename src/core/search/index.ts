@@ -6,7 +6,12 @@
 export * from './types.js';
 export * from './service.js';
 export * from './engines/text-engine.js';
+export * from './engines/symbol-engine.js';
+export * from './engines/pattern-engine.js';
+export * from './engines/semantic-engine.js';
 
 // 便捷導出
 export { SearchService } from './service.js';
-export { TextSearchEngine } from './engines/text-engine.js';
\ No newline at end of file
+export { TextSearchEngine } from './engines/text-engine.js';
+export { SymbolSearchEngine } from './engines/symbol-engine.js';export { PatternSearchEngine } from './engines/pattern-engine.js';
+export { SemanticSearchEngine } from './engines/semantic-engine.js';
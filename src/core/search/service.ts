@@ -3,6 +3,8 @@
  * 統一管理各種搜尋引擎和搜尋邏輯
  */
 
+import * as path from 'path';
+
 import type {
   SearchQuery,
   TextQuery,
@@ -16,10 +18,17 @@ import type {
   SearchSuggestion,
   SearchContext,
   SearchStats,
-  SearchOptions
+  SearchOptions,
+  SearchScope,
+  SemanticSearchOptions
 } from './types.js';
 
 import { TextSearchEngine } from './engines/text-engine.js';
+import { SymbolSearchEngine } from './engines/symbol-engine.js';
+import { PatternSearchEngine } from './engines/pattern-engine.js';
+import { SemanticSearchEngine } from './engines/semantic-engine.js';
+import { IndexEngine } from '../indexing/index-engine.js';
+import { createIndexConfig } from '../indexing/types.js';
 
 /**
  * 搜尋服務
@@ -27,6 +36,9 @@ import { TextSearchEngine } from './engines/text-engine.js';
  */
 export class SearchService {
   private textEngine: TextSearchEngine;
+  private indexEngine: IndexEngine | undefined;
+  private scopedIndexEngine: IndexEngine | undefined;
+  private semanticEngine: { indexEngine: IndexEngine; engine: SemanticSearchEngine } | undefined;
   private searchHistory: string[] = [];
   private queryFrequency = new Map<string, number>();
   private searchStats: Partial<SearchStats> = {
@@ -35,8 +47,19 @@ export class SearchService {
     recentSearches: []
   };
 
-  constructor() {
+  /**
+   * @param indexEngine 符號搜尋使用的索引引擎，未提供時依查詢範圍自動建立
+   */
+  constructor(indexEngine?: IndexEngine) {
     this.textEngine = new TextSearchEngine();
+    this.indexEngine = indexEngine;
+  }
+
+  /**
+   * 設定符號搜尋使用的索引引擎
+   */
+  setIndexEngine(indexEngine: IndexEngine): void {
+    this.indexEngine = indexEngine;
   }
 
   // ===== 核心搜尋方法 =====
@@ -80,26 +103,74 @@ export class SearchService {
 
   /**
    * 執行符號搜尋
-   * TODO: 整合 SymbolIndex
+   * 支援模糊與 camelCase 縮寫匹配、類型與修飾符過濾，並依作用域排序
    */
   async searchSymbols(query: SymbolQuery): Promise<SymbolSearchResult> {
-    throw new Error('符號搜尋尚未實作');
+    const startTime = Date.now();
+    this.incrementSearchCount();
+
+    try {
+      const indexEngine = await this.ensureIndexEngine(query.scope ?? query.options?.scope);
+      const result = await new SymbolSearchEngine(indexEngine).search(query);
+
+      this.updateSearchHistory(query.name ?? query.query);
+      this.updateStats(result.searchTime || (Date.now() - startTime));
+
+      return result;
+    } catch (error) {
+      throw new Error(`符號搜尋失敗: ${error instanceof Error ? error.message : String(error)}`);
+    }
   }
 
   /**
    * 執行結構化模式搜尋
-   * TODO: 實作 AST 模式匹配
+   * 支援程式碼模板（如 `await $CALL($$$ARGS)`）、AST 模式與正則表達式
    */
   async searchByPattern(query: PatternQuery): Promise<PatternSearchResult> {
-    throw new Error('模式搜尋尚未實作');
+    const startTime = Date.now();
+    this.incrementSearchCount();
+
+    try {
+      const result = await new PatternSearchEngine().search(query);
+
+      this.updateSearchHistory(typeof query.pattern.pattern === 'string' ? query.pattern.pattern : query.query);
+      this.updateStats(result.searchTime || (Date.now() - startTime));
+
+      return result;
+    } catch (error) {
+      throw new Error(`模式搜尋失敗: ${error instanceof Error ? error.message : String(error)}`);
+    }
   }
 
   /**
    * 執行語義搜尋
-   * TODO: 實作語義分析
+   * 以 BM25 比對符號名稱、文件註解、字串與識別符，不需網路或模型
    */
-  async searchSemantic(query: string, context?: SearchContext): Promise<SemanticSearchResult> {
-    throw new Error('語義搜尋尚未實作');
+  async searchSemantic(
+    query: string,
+    context?: SearchContext,
+    options?: SemanticSearchOptions
+  ): Promise<SemanticSearchResult> {
+    const startTime = Date.now();
+    this.incrementSearchCount();
+
+    try {
+      const scope = options?.scope ??
+        (context?.workingDirectory ? { type: 'directory' as const, path: context.workingDirectory } : undefined);
+      const indexEngine = await this.ensureIndexEngine(scope);
+
+      if (this.semanticEngine?.indexEngine !== indexEngine) {
+        this.semanticEngine = { indexEngine, engine: new SemanticSearchEngine(indexEngine) };
+      }
+      const result = await this.semanticEngine.engine.search(query, options ?? { scope: { type: 'project' } }, context);
+
+      this.updateSearchHistory(query);
+      this.updateStats(result.searchTime || (Date.now() - startTime));
+
+      return result;
+    } catch (error) {
+      throw new Error(`語義搜尋失敗: ${error instanceof Error ? error.message : String(error)}`);
+    }
   }
 
   /**
@@ -124,6 +195,9 @@ export class SearchService {
         case 'pattern':
           result = await this.searchByPattern(query as PatternQuery);
           break;
+        case 'semantic':
+          result = await this.searchSemantic(query.query, undefined, query.options);
+          break;
         default:
           throw new Error(`不支援的搜尋類型: ${query.type}`);
         }
@@ -215,6 +289,35 @@ export class SearchService {
 
   // ===== 私有輔助方法 =====
 
+  /**
+   * 取得索引引擎，未設定時以查詢範圍（或當前目錄）建立並索引
+   * 自動建立的引擎以工作區路徑區分，查詢範圍換到其他目錄時重新建立
+   */
+  private async ensureIndexEngine(scope?: SearchScope): Promise<IndexEngine> {
+    if (this.indexEngine) {
+      return this.indexEngine;
+    }
+
+    let workspacePath = process.cwd();
+    if (scope?.path) {
+      workspacePath = scope.type === 'file' ? path.dirname(path.resolve(scope.path)) : path.resolve(scope.path);
+    }
+
+    if (this.scopedIndexEngine?.getConfig().workspacePath === workspacePath) {
+      return this.scopedIndexEngine;
+    }
+    this.scopedIndexEngine?.dispose();
+
+    const indexEngine = new IndexEngine(createIndexConfig(workspacePath, {
+      includeExtensions: ['.ts', '.tsx', '.js', '.jsx', '.swift'],
+      excludePatterns: ['node_modules/**', 'dist/**']
+    }));
+    await indexEngine.indexProject();
+
+    this.scopedIndexEngine = indexEngine;
+    return indexEngine;
+  }
+
   /**
    * 更新搜尋歷史
    */
@@ -126,6 +126,14 @@ export interface PatternSearchOptions extends SearchOptions {
   deepMatch?: boolean;
 }
 
+/**
+ * 語義搜尋選項
+ */
+export interface SemanticSearchOptions extends SearchOptions {
+  /** 符號類型過濾 */
+  symbolTypes?: SymbolType[];
+}
+
 // ===== 搜尋範圍 =====
 
 /**
@@ -248,7 +256,7 @@ export interface SymbolSearchResult extends SearchResult {
 export interface SemanticSearchResult extends SearchResult {
   /** 搜尋建議 */
   suggestions: string[];
-  /** 相關符號 */
+  /** 相關符號（與 matches 依序對應） */
   relatedSymbols: Symbol[];
   /** 信心度 */
   confidence: number;
@@ -270,6 +278,18 @@ export interface PatternMatch extends Match {
   node: any;
   /** 節點路徑 */
   nodePath: string[];
+  /** metavariable 捕獲結果（名稱不含 `$` 前綴） */
+  bindings: Record<string, MetavariableBinding>;
+}
+
+/**
+ * metavariable 捕獲的程式碼
+ */
+export interface MetavariableBinding {
+  /** 捕獲的原始碼文字 */
+  text: string;
+  /** 捕獲範圍（`$$$` 未捕獲任何節點時為 undefined） */
+  range: Range | undefined;
 }
 
 // ===== 批次搜尋 =====
@@ -9,6 +9,7 @@ import type {
   Recommendation,
   SeverityLevel,
   DimensionScore,
+  TooManyParamsFunction,
 } from './types.js';
 import { GradeLevel as GradeLevelEnum, SeverityLevel as SeverityLevelEnum } from './types.js';
 
@@ -53,6 +54,13 @@ export const gradeTable: readonly GradeInfo[] = [
   },
 ];
 
+/**
+ * 命令列參數含空白或特殊字元時以單引號包住
+ */
+function shellQuote(arg: string): string {
+  return /^[\w./@+-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, '\'\\\'\'')}'`;
+}
+
 /**
  * 評級系統
  */
@@ -71,12 +79,18 @@ export class Grading {
   }
 
   /**
-   * 生成改進建議（四個維度）
+   * 生成改進建議（四個維度），tooManyParams 為參數過多的具名函式，用來附上修復命令
    */
-  generateRecommendations(complexity: DimensionScore, maintainability: DimensionScore, architecture: DimensionScore, qualityAssurance: DimensionScore): readonly Recommendation[] {
+  generateRecommendations(
+    complexity: DimensionScore,
+    maintainability: DimensionScore,
+    architecture: DimensionScore,
+    qualityAssurance: DimensionScore,
+    tooManyParams: readonly TooManyParamsFunction[] = []
+  ): readonly Recommendation[] {
     const recommendations: Recommendation[] = [];
 
-    recommendations.push(...this.generateComplexityRecommendations(complexity));
+    recommendations.push(...this.generateComplexityRecommendations(complexity, tooManyParams));
     recommendations.push(...this.generateMaintainabilityRecommendations(maintainability));
     recommendations.push(...this.generateArchitectureRecommendations(architecture));
     recommendations.push(...this.generateQualityAssuranceRecommendations(qualityAssurance));
@@ -95,7 +109,7 @@ export class Grading {
   /**
    * 生成複雜度建議
    */
-  generateComplexityRecommendations(dimension: DimensionScore): readonly Recommendation[] {
+  generateComplexityRecommendations(dimension: DimensionScore, tooManyParams: readonly TooManyParamsFunction[] = []): readonly Recommendation[] {
     const recommendations: Recommendation[] = [];
 
     if (dimension.breakdown.highComplexity > 30) {
@@ -128,13 +142,22 @@ export class Grading {
       });
     }
 
-    if (dimension.breakdown.tooManyParams > 30) {
+    // 有具名的參數過多函式時，附上參數最多的函式的修復命令
+    const worst = tooManyParams.reduce<TooManyParamsFunction | undefined>(
+      (max, fn) => (!max || fn.parameterCount > max.parameterCount ? fn : max),
+      undefined
+    );
+    if (dimension.breakdown.tooManyParams > 30 || worst) {
+      const detail = worst ? `，最多的是 ${worst.name}（${worst.parameterCount} 個）` : '';
       recommendations.push({
-        priority: SeverityLevelEnum.Low,
+        priority: worst && worst.parameterCount > 8 ? SeverityLevelEnum.Medium : SeverityLevelEnum.Low,
         category: '複雜度',
-        suggestion: `有 ${dimension.breakdown.tooManyParams.toFixed(0)}% 的函式參數過多（>5 個）。建議使用物件參數或重構函式。`,
-        affectedFiles: [],
+        suggestion: `有 ${dimension.breakdown.tooManyParams.toFixed(0)}% 的函式參數過多（>5 個）${detail}。建議以 agent-ide refactor introduce-parameter-object 將參數合併為參數物件。`,
+        affectedFiles: [...new Set(tooManyParams.map(fn => fn.filePath))],
         estimatedImpact: Math.round(dimension.breakdown.tooManyParams * 0.15 * 0.35),
+        ...(worst && {
+          command: `agent-ide refactor introduce-parameter-object --file ${shellQuote(worst.filePath)} --function ${worst.name}`,
+        }),
       });
     }
 
@@ -210,7 +233,7 @@ export class Grading {
       recommendations.push({
         priority: SeverityLevelEnum.Low,
         category: '架構',
-        suggestion: `有 ${dimension.breakdown.orphanFile.toFixed(0)}% 的檔案是孤立檔案（無依賴也無被依賴）。檢查是否為遺留代碼。`,
+        suggestion: `有 ${dimension.breakdown.orphanFile.toFixed(0)}% 的檔案無法從進入點到達（package.json、測試或 .agent-ide.json entryPoints）。檢查是否為遺留代碼。`,
         affectedFiles: [],
         estimatedImpact: Math.round(dimension.breakdown.orphanFile * 0.25 * 0.3),
       });
@@ -220,7 +243,7 @@ export class Grading {
       recommendations.push({
         priority: SeverityLevelEnum.Medium,
         category: '架構',
-        suggestion: `有 ${dimension.breakdown.highCoupling.toFixed(0)}% 的檔案耦合度過高（>10 個依賴）。建議降低模組間的耦合度。`,
+        suggestion: `有 ${dimension.breakdown.highCoupling.toFixed(0)}% 的檔案位於偏離主序列的模組（D ≥ 0.7）。穩定的模組應該抽象、具體的模組應該少被依賴，可用 deps metrics 檢視各模組指標。`,
         affectedFiles: [],
         estimatedImpact: Math.round(dimension.breakdown.highCoupling * 0.15 * 0.3),
       });
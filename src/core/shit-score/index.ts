@@ -18,6 +18,7 @@ export type {
   ShitStats,
   Recommendation,
   ComplexityData,
+  TooManyParamsFunction,
   MaintainabilityData,
   ArchitectureData,
 } from './types.js';
@@ -7,10 +7,20 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { ScoreCalculator } from './score-calculator.js';
 import { Grading } from './grading.js';
+import { DependencyAnalyzer } from '../dependency/dependency-analyzer.js';
+import { ReachabilityAnalyzer } from '../dependency/reachability-analyzer.js';
+import { CouplingMetricsCalculator } from '../dependency/coupling-metrics.js';
+import type { ModuleMetrics, ReachabilityResult } from '../dependency/types.js';
+import { ConfigManager } from '../snapshot/config.js';
 import type { ParserRegistry } from '../../infrastructure/parser/registry.js';
 import type { ParserPlugin } from '../../infrastructure/parser/interface.js';
 import type { AST, Symbol } from '../../shared/types/index.js';
-import type { CodeFragment } from '../../infrastructure/parser/analysis-types.js';
+import type { CodeFragment, ComplexityMetrics } from '../../infrastructure/parser/analysis-types.js';
+import { GitClient } from '../../infrastructure/git/git-client.js';
+import { HotspotAnalyzer } from '../analysis/hotspot-analyzer.js';
+import { CoverageAnalyzer, CoverageReportParser, CRAP_THRESHOLD } from '../testing/index.js';
+import type { CoverageAnalysisResult } from '../testing/index.js';
+import type { FileHotspot } from '../analysis/hotspot-analyzer.js';
 import type {
   ShitScoreResult,
   ShitScoreOptions,
@@ -21,10 +31,14 @@ import type {
   ShitItem,
   DetailedFiles,
   FileDetail,
+  TooManyParamsFunction,
 } from './types.js';
 import { createDefaultShitScoreOptions } from './types.js';
 import { ShitType, SeverityLevel } from './types.js';
 
+/** 參數超過此數量視為參數過多 */
+const MAX_PARAMETERS = 5;
+
 /**
  * ShitScore 錯誤
  */
@@ -43,6 +57,8 @@ interface FileAnalysisCache {
   parser: ParserPlugin;
   symbols: Symbol[];
   content: string;
+  /** parser.analyzeComplexity 的結果，無法分析時為 null */
+  complexity: ComplexityMetrics | null;
 }
 
 /**
@@ -72,8 +88,10 @@ export class ShitScoreAnalyzer {
 
     const complexityData = await this.collectComplexityData(fileCache);
     const maintainabilityData = await this.collectMaintainabilityData(fileCache);
-    const architectureData = await this.collectArchitectureData(files);
-    const qualityAssuranceData = await this.collectQualityAssuranceData(fileCache, projectPath);
+    const { reachability, couplingOffenders } = await this.analyzeDependencies(projectPath, fileCache);
+    const architectureData = await this.collectArchitectureData(files, reachability, couplingOffenders);
+    const coverage = await this.analyzeCoverage(projectPath, fileCache, fullOptions);
+    const qualityAssuranceData = await this.collectQualityAssuranceData(fileCache, projectPath, coverage);
 
     const { complexityScore, maintainabilityScore, architectureScore, qualityAssuranceScore, totalScore } =
       this.calculator.calculate(complexityData, maintainabilityData, architectureData, qualityAssuranceData);
@@ -107,7 +125,7 @@ export class ShitScoreAnalyzer {
     };
 
     if (fullOptions.detailed || fullOptions.showFiles) {
-      return await this.buildDetailedResult(result, fullOptions, fileCache, complexityData, maintainabilityData, architectureData, qualityAssuranceData);
+      return await this.buildDetailedResult(result, fullOptions, projectPath, fileCache, complexityData, maintainabilityData, architectureData, qualityAssuranceData, reachability, couplingOffenders, coverage);
     }
 
     return result;
@@ -162,8 +180,14 @@ export class ShitScoreAnalyzer {
         const content = await fs.readFile(file, 'utf-8');
         const ast = await parser.parse(content, file);
         const symbols = await parser.extractSymbols(ast);
+        let complexity: ComplexityMetrics | null = null;
+        try {
+          complexity = await parser.analyzeComplexity(content, ast);
+        } catch {
+          // 無法分析複雜度時仍保留檔案供其他檢查使用
+        }
 
-        cache.set(file, { ast, parser, symbols, content });
+        cache.set(file, { ast, parser, symbols, content, complexity });
       } catch {
         // 忽略無法解析的檔案
       }
@@ -173,42 +197,74 @@ export class ShitScoreAnalyzer {
   }
 
   /**
-   * 收集複雜度資料（使用 parser.analyzeComplexity）
+   * 讀取覆蓋率報告（--coverage 或 .agent-ide.json 的 coverage）並對應到非測試檔案，沒有設定時回傳 null
+   */
+  private async analyzeCoverage(
+    projectPath: string,
+    fileCache: Map<string, FileAnalysisCache>,
+    options: ShitScoreOptions
+  ): Promise<CoverageAnalysisResult | null> {
+    const config = options.coverageFile ? null : await new ConfigManager().loadConfig(projectPath);
+    const reportPath = options.coverageFile
+      ? path.resolve(projectPath, options.coverageFile)
+      : config?.coverage ? path.resolve(projectPath, config.coverage) : undefined;
+    if (!reportPath) {
+      return null;
+    }
+
+    const report = await new CoverageReportParser().load(reportPath, projectPath);
+    const complexities = new Map<string, ComplexityMetrics>();
+    const contents = new Map<string, string>();
+    for (const [file, { parser, content, complexity }] of fileCache.entries()) {
+      if (complexity && !parser.isTestFile(file)) {
+        complexities.set(path.resolve(file), complexity);
+        contents.set(path.resolve(file), content);
+      }
+    }
+
+    return new CoverageAnalyzer().analyze(report, complexities, contents);
+  }
+
+  /**
+   * 收集複雜度資料（使用快取的 parser.analyzeComplexity 結果）
    */
   private async collectComplexityData(fileCache: Map<string, FileAnalysisCache>): Promise<ComplexityData> {
     let totalFunctions = 0;
     let highComplexityCount = 0;
     let longFunctionCount = 0;
     let deepNestingCount = 0;
-    const tooManyParamsCount = 0;
+    let tooManyParamsCount = 0;
+    const tooManyParamsFunctions: TooManyParamsFunction[] = [];
 
-    for (const { ast, parser, content } of fileCache.values()) {
-      try {
-        const metrics = await parser.analyzeComplexity(content, ast);
+    for (const [file, { complexity: metrics }] of fileCache.entries()) {
+      if (!metrics) {
+        continue;
+      }
 
-        totalFunctions += metrics.functionCount;
+      totalFunctions += metrics.functionCount;
 
-        if (metrics.maxComplexity > 10) {
-          highComplexityCount++;
-        }
+      if (metrics.maxComplexity > 10) {
+        highComplexityCount++;
+      }
 
-        // 簡化實作：根據平均複雜度估計長函式和深層巢狀
-        if (metrics.averageComplexity > 5) {
-          longFunctionCount++;
-        }
+      // 簡化實作：根據平均複雜度估計長函式和深層巢狀
+      if (metrics.averageComplexity > 5) {
+        longFunctionCount++;
+      }
 
-        if (metrics.cognitiveComplexity > 15) {
-          deepNestingCount++;
-        }
+      if (metrics.cognitiveComplexity > 15) {
+        deepNestingCount++;
+      }
 
-        // 參數計數需要從 symbols 中推算（簡化實作）
-        const functions = (await parser.extractSymbols(ast)).filter(s => s.type === 'function');
-        for (const func of functions) {
-          // 簡化實作：假設沒有參數資訊
-          // 實際應從 AST 中提取參數數量
+      for (const fn of metrics.functions ?? []) {
+        const parameterCount = fn.parameterCount ?? 0;
+        if (parameterCount > MAX_PARAMETERS) {
+          tooManyParamsCount++;
+          // 匿名函式（<anonymous>、箭頭函式等）無法以 --function 指定
+          if (/^[A-Za-z_$][\w$]*$/.test(fn.name)) {
+            tooManyParamsFunctions.push({ filePath: file, name: fn.name, parameterCount });
+          }
         }
-      } catch {
-        // 忽略無法分析的檔案
       }
     }
 
@@ -218,6 +274,7 @@ export class ShitScoreAnalyzer {
       longFunctionCount,
       deepNestingCount,
       tooManyParamsCount,
+      tooManyParamsFunctions,
     };
   }
 
@@ -312,10 +369,56 @@ export class ShitScoreAnalyzer {
     return duplicateCount;
   }
 
+  /**
+   * 從依賴圖分析檔案可達性（進入點取自 package.json、tsconfig.json、測試、.agent-ide.json entryPoints）
+   * 與偏離主序列的模組
+   */
+  private async analyzeDependencies(
+    projectPath: string,
+    fileCache: Map<string, FileAnalysisCache>
+  ): Promise<{ reachability: ReachabilityResult; couplingOffenders: ModuleMetrics[] }> {
+    const dependencyAnalyzer = new DependencyAnalyzer();
+    await dependencyAnalyzer.analyzeProject(projectPath);
+    const graph = dependencyAnalyzer.getGraph();
+    const config = await new ConfigManager().loadConfig(projectPath);
+    const reachability = await new ReachabilityAnalyzer().analyze(graph, projectPath, config?.entryPoints ?? []);
+
+    const calculator = new CouplingMetricsCalculator();
+    const typeCounts = new Map([...fileCache.entries()].map(([file, { symbols, parser }]) =>
+      [path.resolve(file), calculator.countTypeDeclarations(symbols, parser)] as const
+    ));
+    const metrics = calculator.calculate(graph, { rootPath: projectPath, typeCounts });
+
+    return { reachability, couplingOffenders: calculator.findOffenders(metrics) };
+  }
+
+  /**
+   * 篩選出位於偏離主序列模組中的檔案（檔案路徑可能是相對路徑）
+   */
+  private filterCouplingOffenders(files: readonly string[], couplingOffenders: readonly ModuleMetrics[]): string[] {
+    const offenderFiles = new Set(couplingOffenders.flatMap(metric => metric.files));
+    return files.filter(file => offenderFiles.has(path.resolve(file)));
+  }
+
+  /**
+   * 篩選出無法到達的檔案（檔案路徑可能是相對路徑）；找不到進入點時無從判斷，不列出任何檔案
+   */
+  private filterUnreachable(files: readonly string[], reachability: ReachabilityResult): string[] {
+    if (reachability.entryPoints.length === 0) {
+      return [];
+    }
+    const unreachable = new Set(reachability.unreachableFiles);
+    return files.filter(file => unreachable.has(path.resolve(file)));
+  }
+
   /**
    * 收集架構資料
    */
-  private async collectArchitectureData(files: string[]): Promise<ArchitectureData> {
+  private async collectArchitectureData(
+    files: string[],
+    reachability: ReachabilityResult,
+    couplingOffenders: readonly ModuleMetrics[]
+  ): Promise<ArchitectureData> {
     const dependencies = new Map<string, Set<string>>();
 
     for (const file of files) {
@@ -338,8 +441,8 @@ export class ShitScoreAnalyzer {
     }
 
     const cycles = this.detectCycles(dependencies);
-    const orphanCount = this.countOrphans(dependencies);
-    const highCouplingCount = this.countHighCoupling(dependencies);
+    const orphanCount = this.filterUnreachable(files, reachability).length;
+    const highCouplingCount = this.filterCouplingOffenders(files, couplingOffenders).length;
 
     return {
       totalFiles: files.length,
@@ -352,7 +455,11 @@ export class ShitScoreAnalyzer {
   /**
    * 收集品質保證資料（使用 parser checker 方法）
    */
-  private async collectQualityAssuranceData(fileCache: Map<string, FileAnalysisCache>, projectPath: string): Promise<QualityAssuranceData> {
+  private async collectQualityAssuranceData(
+    fileCache: Map<string, FileAnalysisCache>,
+    projectPath: string,
+    coverage: CoverageAnalysisResult | null
+  ): Promise<QualityAssuranceData> {
     let typeSafetyIssues = 0;
     let errorHandlingIssues = 0;
     let namingIssues = 0;
@@ -390,7 +497,10 @@ export class ShitScoreAnalyzer {
       }
     }
 
-    const testCoverageRatio = sourceFiles.size > 0 ? testFiles.size / sourceFiles.size : 0;
+    // 有覆蓋率報告時使用實際行覆蓋率，否則以測試檔案數 / 原始碼檔案數估計
+    const testCoverageRatio = coverage
+      ? coverage.total.lineCoverage
+      : sourceFiles.size > 0 ? Math.min(1, testFiles.size / sourceFiles.size) : 0;
 
     // 檢查 tsconfig.json 的 strict 模式
     const { strictModeEnabled, strictNullChecksEnabled } = await this.checkTsConfigStrict(projectPath);
@@ -431,19 +541,24 @@ export class ShitScoreAnalyzer {
   private async buildDetailedResult(
     baseResult: ShitScoreResult,
     options: ShitScoreOptions,
+    projectPath: string,
     fileCache: Map<string, FileAnalysisCache>,
     complexity: ComplexityData,
     maintainability: MaintainabilityData,
     architecture: ArchitectureData,
-    qualityAssurance: QualityAssuranceData
+    qualityAssurance: QualityAssuranceData,
+    reachability: ReachabilityResult,
+    couplingOffenders: readonly ModuleMetrics[],
+    coverage: CoverageAnalysisResult | null
   ): Promise<ShitScoreResult> {
     const files = Array.from(fileCache.keys());
-    const topShit = await this.extractTopShit(fileCache, complexity, maintainability, architecture, qualityAssurance, options.topCount);
+    const topShit = await this.extractTopShit(projectPath, fileCache, complexity, maintainability, architecture, qualityAssurance, options.topCount, reachability, couplingOffenders, coverage);
     const recommendations = this.grading.generateRecommendations(
       baseResult.dimensions.complexity,
       baseResult.dimensions.maintainability,
       baseResult.dimensions.architecture,
-      baseResult.dimensions.qualityAssurance
+      baseResult.dimensions.qualityAssurance,
+      complexity.tooManyParamsFunctions
     );
 
     const result: ShitScoreResult = {
@@ -457,7 +572,7 @@ export class ShitScoreAnalyzer {
     };
 
     if (options.showFiles) {
-      const detailedFiles = await this.collectDetailedFiles(fileCache);
+      const detailedFiles = await this.collectDetailedFiles(fileCache, reachability, couplingOffenders, coverage);
       return {
         ...result,
         detailedFiles,
@@ -471,28 +586,50 @@ export class ShitScoreAnalyzer {
    * 提取最嚴重的垃圾項目
    */
   private async extractTopShit(
+    projectPath: string,
     fileCache: Map<string, FileAnalysisCache>,
     complexity: ComplexityData,
     maintainability: MaintainabilityData,
     architecture: ArchitectureData,
     qualityAssurance: QualityAssuranceData,
-    topCount: number
+    topCount: number,
+    reachability: ReachabilityResult,
+    couplingOffenders: readonly ModuleMetrics[],
+    coverage: CoverageAnalysisResult | null
   ): Promise<readonly ShitItem[]> {
     const items: ShitItem[] = [];
+    const complexities = new Map<string, ComplexityMetrics>();
 
     // 從實際分析結果中提取垃圾項目
-    for (const [file, { ast, parser, content, symbols }] of fileCache.entries()) {
+    for (const [file, { ast, parser, content, symbols, complexity: complexityMetrics }] of fileCache.entries()) {
       try {
         // 複雜度問題
-        const complexityMetrics = await parser.analyzeComplexity(content, ast);
-        if (complexityMetrics.maxComplexity > 10) {
-          items.push({
-            filePath: file,
-            type: ShitType.HighComplexity,
-            severity: SeverityLevel.High,
-            score: Math.min(100, complexityMetrics.maxComplexity * 5),
-            description: `函式複雜度過高 (${complexityMetrics.maxComplexity})`,
-          });
+        if (complexityMetrics) {
+          complexities.set(path.resolve(file), complexityMetrics);
+          if (complexityMetrics.maxComplexity > 10) {
+            items.push({
+              filePath: file,
+              type: ShitType.HighComplexity,
+              severity: SeverityLevel.High,
+              score: Math.min(100, complexityMetrics.maxComplexity * 5),
+              description: `函式複雜度過高 (${complexityMetrics.maxComplexity})`,
+            });
+          }
+
+          // 參數過多的函式
+          for (const fn of complexityMetrics.functions ?? []) {
+            const parameterCount = fn.parameterCount ?? 0;
+            if (parameterCount > MAX_PARAMETERS) {
+              items.push({
+                filePath: file,
+                type: ShitType.TooManyParams,
+                severity: parameterCount > 8 ? SeverityLevel.Medium : SeverityLevel.Low,
+                score: Math.min(100, parameterCount * 8),
+                description: `函式 ${fn.name} 有 ${parameterCount} 個參數`,
+                location: { line: fn.startLine, column: 1 },
+              });
+            }
+          }
         }
 
         // 型別安全問題
@@ -556,14 +693,91 @@ export class ShitScoreAnalyzer {
       }
     }
 
+    // 孤立檔案
+    for (const file of this.filterUnreachable([...fileCache.keys()], reachability)) {
+      items.push({
+        filePath: file,
+        type: ShitType.OrphanFile,
+        severity: SeverityLevel.Low,
+        score: 40,
+        description: '無法從任何進入點到達的檔案',
+      });
+    }
+
+    // 偏離主序列的模組（以模組目錄表示）
+    for (const metric of couplingOffenders) {
+      items.push({
+        filePath: path.dirname(metric.files[0]),
+        type: ShitType.HighCoupling,
+        severity: SeverityLevel.Medium,
+        score: Math.round(metric.distance * 60),
+        description: `模組 ${metric.module} 偏離主序列 D=${metric.distance.toFixed(2)}（Ca=${metric.afferentCoupling}、Ce=${metric.efferentCoupling}、I=${metric.instability.toFixed(2)}、A=${metric.abstractness.toFixed(2)}）`,
+      });
+    }
+
+    items.push(...await this.extractHotspots(projectPath, fileCache, complexities));
+
+    // 複雜卻沒有被測試覆蓋的函式（需要覆蓋率報告）
+    const cacheKeys = new Map([...fileCache.keys()].map(file => [path.resolve(file), file] as const));
+    for (const fn of coverage?.functions.filter(fn => fn.crap > CRAP_THRESHOLD) ?? []) {
+      items.push({
+        filePath: cacheKeys.get(fn.filePath) ?? fn.filePath,
+        type: ShitType.LowTestCoverage,
+        severity: fn.crap >= 100 ? SeverityLevel.High : SeverityLevel.Medium,
+        score: Math.min(100, Math.round(fn.crap)),
+        description: `函式 ${fn.name} 循環複雜度 ${fn.cyclomaticComplexity}、行覆蓋率 ${Math.round(fn.lineCoverage * 100)}%（CRAP ${fn.crap}）`,
+        location: { line: fn.startLine, column: 1 },
+      });
+    }
+
     // 按分數排序並取前 N 個
     return items.sort((a, b) => b.score - a.score).slice(0, topCount);
   }
 
+  /**
+   * 經常修改又難以理解的檔案（git 變更次數 × 認知複雜度），不是 git repository 時略過
+   */
+  private async extractHotspots(
+    projectPath: string,
+    fileCache: Map<string, FileAnalysisCache>,
+    complexities: ReadonlyMap<string, ComplexityMetrics>
+  ): Promise<ShitItem[]> {
+    let hotspots: FileHotspot[];
+    try {
+      const analyzer = new HotspotAnalyzer(new GitClient(path.resolve(projectPath)));
+      hotspots = (await analyzer.analyze(complexities, { maxCount: 1000, functionTop: 5 })).hotspots;
+    } catch {
+      return [];
+    }
+
+    // 分析快取的鍵可能是相對路徑
+    const cacheKeys = new Map([...fileCache.keys()].map(file => [path.resolve(file), file] as const));
+    return hotspots
+      .filter(hotspot => hotspot.revisions >= 5 && hotspot.cognitiveComplexity >= 15)
+      .map(hotspot => {
+        const score = Math.min(100, Math.round(Math.sqrt(hotspot.score) * 4));
+        const hottest = hotspot.functions[0];
+        return {
+          filePath: cacheKeys.get(hotspot.filePath) ?? hotspot.filePath,
+          type: ShitType.Hotspot,
+          severity: score >= 80 ? SeverityLevel.High : SeverityLevel.Medium,
+          score,
+          description: `熱點：${hotspot.revisions} 次變更 × 認知複雜度 ${hotspot.cognitiveComplexity}（${hotspot.authors} 位作者）` +
+            (hottest ? `，最常修改的函式 ${hottest.name}（${hottest.revisions} 次）` : ''),
+          ...(hottest ? { location: { line: hottest.startLine, column: 1 } } : {}),
+        };
+      });
+  }
+
   /**
    * 收集詳細檔案列表
    */
-  private async collectDetailedFiles(fileCache: Map<string, FileAnalysisCache>): Promise<DetailedFiles> {
+  private async collectDetailedFiles(
+    fileCache: Map<string, FileAnalysisCache>,
+    reachability: ReachabilityResult,
+    couplingOffenders: readonly ModuleMetrics[],
+    coverage: CoverageAnalysisResult | null
+  ): Promise<DetailedFiles> {
     const typeSafetyFiles: FileDetail[] = [];
     const testCoverageFiles: FileDetail[] = [];
     const errorHandlingFiles: FileDetail[] = [];
@@ -619,12 +833,16 @@ export class ShitScoreAnalyzer {
           });
         }
 
-        // 測試覆蓋率
+        // 測試覆蓋率（沒有覆蓋率報告時無法得知，標記為無測試）
         if (!parser.isTestFile(file)) {
-          testCoverageFiles.push({
-            path: file,
-            testCoverageRatio: 0, // 簡化實作：標記為無測試
-          });
+          const fileCoverage = coverage?.files.find(summary => summary.filePath === path.resolve(file));
+          if (!fileCoverage || fileCoverage.lineCoverage < 1) {
+            testCoverageFiles.push({
+              path: file,
+              lines,
+              testCoverageRatio: fileCoverage ? Math.round(fileCoverage.lineCoverage * 100) / 100 : 0,
+            });
+          }
         }
       } catch {
         // 忽略無法讀取的檔案
@@ -644,8 +862,10 @@ export class ShitScoreAnalyzer {
         duplicateCode: duplicateCodeFiles,
       },
       architecture: {
-        orphanFile: [],
-        highCoupling: [],
+        orphanFile: this.filterUnreachable([...fileCache.keys()], reachability)
+          .map(file => ({ path: file, lines: fileCache.get(file)!.content.split('\n').length })),
+        highCoupling: this.filterCouplingOffenders([...fileCache.keys()], couplingOffenders)
+          .map(file => ({ path: file, lines: fileCache.get(file)!.content.split('\n').length })),
         circularDependency: [],
       },
       qualityAssurance: {
@@ -674,39 +894,4 @@ export class ShitScoreAnalyzer {
     }
     return Math.floor(cycles / 2); // 除以 2 因為每個循環被計算了兩次
   }
-
-  /**
-   * 計算孤立檔案數量
-   */
-  private countOrphans(dependencies: Map<string, Set<string>>): number {
-    let orphans = 0;
-    for (const [file, deps] of dependencies.entries()) {
-      if (deps.size === 0) {
-        let isDependent = false;
-        for (const [, otherDeps] of dependencies.entries()) {
-          if (otherDeps.has(file)) {
-            isDependent = true;
-            break;
-          }
-        }
-        if (!isDependent) {
-          orphans++;
-        }
-      }
-    }
-    return orphans;
-  }
-
-  /**
-   * 計算高耦合檔案數量
-   */
-  private countHighCoupling(dependencies: Map<string, Set<string>>): number {
-    let highCoupling = 0;
-    for (const [, deps] of dependencies.entries()) {
-      if (deps.size > 10) {
-        highCoupling++;
-      }
-    }
-    return highCoupling;
-  }
 }
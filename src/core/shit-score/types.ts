@@ -37,6 +37,7 @@ export enum ShitType {
   CircularDependency = 'circular_dependency',
   OrphanFile = 'orphan_file',
   HighCoupling = 'high_coupling',
+  Hotspot = 'hotspot',
   // 品質保證相關類型
   TypeSafety = 'type_safety',
   LowTestCoverage = 'low_test_coverage',
@@ -101,6 +102,8 @@ export interface Recommendation {
   readonly suggestion: string;
   readonly affectedFiles: readonly string[];
   readonly estimatedImpact: number;
+  /** 可直接執行的修復命令 */
+  readonly command?: string;
 }
 
 /**
@@ -137,6 +140,8 @@ export interface ShitScoreOptions {
   readonly maxAllowed?: number;
   readonly excludePatterns?: readonly string[];
   readonly includePatterns?: readonly string[];
+  /** 覆蓋率報告路徑（lcov、coverage-final.json 或 Cobertura XML），未指定時使用 .agent-ide.json 的 coverage */
+  readonly coverageFile?: string;
 }
 
 /**
@@ -148,6 +153,17 @@ export interface ComplexityData {
   readonly longFunctionCount: number;
   readonly deepNestingCount: number;
   readonly tooManyParamsCount: number;
+  /** 參數過多且具名的函式，供建議附上 introduce-parameter-object 命令 */
+  readonly tooManyParamsFunctions: readonly TooManyParamsFunction[];
+}
+
+/**
+ * 參數過多的函式
+ */
+export interface TooManyParamsFunction {
+  readonly filePath: string;
+  readonly name: string;
+  readonly parameterCount: number;
 }
 
 /**
@@ -168,6 +184,7 @@ export interface ArchitectureData {
   readonly totalFiles: number;
   readonly circularDependencyCount: number;
   readonly orphanFileCount: number;
+  /** 位於偏離主序列模組（D ≥ 0.7）的檔案數 */
   readonly highCouplingCount: number;
 }
 
@@ -177,6 +194,7 @@ export interface ArchitectureData {
 export interface QualityAssuranceData {
   readonly totalFiles: number;
   readonly typeSafetyIssues: number;
+  /** 行覆蓋率（有覆蓋率報告時）或測試檔案數 / 原始碼檔案數（0-1） */
   readonly testCoverageRatio: number;
   readonly errorHandlingIssues: number;
   readonly namingIssues: number;
@@ -7,6 +7,7 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import type { SnapshotOptions, CompressionLevel } from './types.js';
 import { createDefaultSnapshotOptions } from './types.js';
+import type { ArchitectureConfig } from '../dependency/types.js';
 
 /**
  * 專案配置檔格式
@@ -43,6 +44,15 @@ export interface ProjectConfig {
       precommit?: boolean;
     };
   };
+
+  /** 額外的進入點 glob（相對於專案根目錄），供可達性分析使用 */
+  entryPoints?: string[];
+
+  /** 架構層級規則，供 deps check 使用 */
+  architecture?: ArchitectureConfig;
+
+  /** 覆蓋率報告路徑（相對於專案根目錄），供 shit 與 analyze coverage 使用 */
+  coverage?: string;
 }
 
 /**
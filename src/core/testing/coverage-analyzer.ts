@@ -0,0 +1,136 @@
+/**
+ * 覆蓋率分析器
+ * 將覆蓋率報告對應到檔案與函式行號範圍，以 CRAP 指標找出複雜卻沒有被測試覆蓋的函式
+ */
+
+import type { ComplexityMetrics } from '../../infrastructure/parser/analysis-types.js';
+import type {
+  CoverageAnalysisResult,
+  CoverageReport,
+  CoverageSummary,
+  FileCoverage,
+  FileCoverageSummary,
+  FunctionCoverageRisk
+} from './types.js';
+
+/**
+ * CRAP 超過此值視為複雜且測試不足（Savoia & Evans 建議值）
+ */
+export const CRAP_THRESHOLD = 30;
+
+/**
+ * 覆蓋率分析器類別
+ */
+export class CoverageAnalyzer {
+  /**
+   * 分析覆蓋率
+   * @param report 覆蓋率報告
+   * @param complexities 被分析檔案（絕對路徑）的複雜度，未出現在報告中的檔案視為完全沒有覆蓋
+   * @param contents 被分析檔案的內容，用來估計未出現在報告中的檔案有多少可執行行
+   */
+  analyze(
+    report: CoverageReport,
+    complexities: ReadonlyMap<string, ComplexityMetrics>,
+    contents: ReadonlyMap<string, string>
+  ): CoverageAnalysisResult {
+    const files: FileCoverageSummary[] = [];
+    const functions: FunctionCoverageRisk[] = [];
+
+    for (const [filePath, metrics] of complexities) {
+      const coverage = report.files.get(filePath);
+      const summary = coverage ? this.summarize(coverage) : this.uncovered(contents.get(filePath));
+      files.push({ filePath, reported: coverage !== undefined, ...summary });
+
+      for (const fn of metrics.functions ?? []) {
+        const summary = this.summarize(coverage, fn.startLine, fn.endLine);
+        functions.push({
+          filePath,
+          name: fn.name,
+          startLine: fn.startLine,
+          endLine: fn.endLine,
+          cyclomaticComplexity: fn.cyclomaticComplexity,
+          cognitiveComplexity: fn.cognitiveComplexity,
+          ...summary,
+          crap: this.crap(fn.cyclomaticComplexity, summary.lineCoverage)
+        });
+      }
+    }
+
+    return {
+      format: report.format,
+      total: this.combine(files),
+      files: files.sort((a, b) => a.lineCoverage - b.lineCoverage || a.filePath.localeCompare(b.filePath)),
+      functions: functions.sort((a, b) => b.crap - a.crap || a.filePath.localeCompare(b.filePath) || a.startLine - b.startLine)
+    };
+  }
+
+  /**
+   * 統計檔案（或其中一段行號範圍）的行與分支覆蓋；沒有覆蓋資料時行覆蓋視為 0%，分支覆蓋為 null
+   */
+  summarize(coverage: FileCoverage | undefined, startLine = 1, endLine = Number.MAX_SAFE_INTEGER): CoverageSummary {
+    if (!coverage) {
+      return { coveredLines: 0, totalLines: 0, lineCoverage: 0, coveredBranches: 0, totalBranches: 0, branchCoverage: null };
+    }
+
+    let coveredLines = 0;
+    let totalLines = 0;
+    for (const [line, hits] of coverage.lines) {
+      if (line >= startLine && line <= endLine) {
+        totalLines++;
+        if (hits > 0) {
+          coveredLines++;
+        }
+      }
+    }
+
+    let coveredBranches = 0;
+    let totalBranches = 0;
+    for (const [line, branch] of coverage.branches) {
+      if (line >= startLine && line <= endLine) {
+        coveredBranches += branch.covered;
+        totalBranches += branch.total;
+      }
+    }
+
+    return {
+      coveredLines,
+      totalLines,
+      lineCoverage: totalLines > 0 ? coveredLines / totalLines : 1,
+      coveredBranches,
+      totalBranches,
+      branchCoverage: totalBranches > 0 ? coveredBranches / totalBranches : null
+    };
+  }
+
+  /**
+   * 未出現在報告中的檔案：非空白、非註解、不只有括號的行都視為未執行的可執行行
+   */
+  private uncovered(content: string | undefined): CoverageSummary {
+    const code = (content ?? '').replace(/\/\*[\s\S]*?\*\//g, match => match.replace(/[^\n]/g, ''));
+    const totalLines = code.split('\n')
+      .map(line => line.replace(/\/\/.*$/, '').trim())
+      .filter(line => /[^\s{}()[\];,]/.test(line))
+      .length;
+
+    return { coveredLines: 0, totalLines, lineCoverage: 0, coveredBranches: 0, totalBranches: 0, branchCoverage: null };
+  }
+
+  private combine(summaries: readonly CoverageSummary[]): CoverageSummary {
+    const coveredLines = summaries.reduce((sum, summary) => sum + summary.coveredLines, 0);
+    const totalLines = summaries.reduce((sum, summary) => sum + summary.totalLines, 0);
+    const coveredBranches = summaries.reduce((sum, summary) => sum + summary.coveredBranches, 0);
+    const totalBranches = summaries.reduce((sum, summary) => sum + summary.totalBranches, 0);
+    return {
+      coveredLines,
+      totalLines,
+      lineCoverage: totalLines > 0 ? coveredLines / totalLines : 1,
+      coveredBranches,
+      totalBranches,
+      branchCoverage: totalBranches > 0 ? coveredBranches / totalBranches : null
+    };
+  }
+
+  private crap(complexity: number, coverage: number): number {
+    return Math.round((complexity ** 2 * (1 - coverage) ** 3 + complexity) * 100) / 100;
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * 覆蓋率報告解析器
+ * 解析 lcov、Istanbul coverage-final.json 與 Cobertura XML，統一為行與分支的執行次數
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { BranchCoverage, CoverageFormat, CoverageReport, FileCoverage, FunctionCoverage } from './types.js';
+
+/**
+ * 解析過程中可修改的檔案覆蓋資料
+ */
+interface MutableFileCoverage {
+  filePath: string;
+  lines: Map<number, number>;
+  branches: Map<number, BranchCoverage>;
+  functions: FunctionCoverage[];
+}
+
+interface IstanbulLocation {
+  start: { line: number };
+  end: { line: number };
+}
+
+interface IstanbulFileCoverage {
+  path?: string;
+  statementMap?: Record<string, IstanbulLocation>;
+  fnMap?: Record<string, { name: string; line?: number; decl?: IstanbulLocation; loc?: IstanbulLocation }>;
+  branchMap?: Record<string, { line?: number; loc?: IstanbulLocation; locations?: IstanbulLocation[] }>;
+  s?: Record<string, number>;
+  f?: Record<string, number>;
+  b?: Record<string, number[]>;
+}
+
+const XML_TAG = /<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|<!\[CDATA\[([\s\S]*?)\]\]>|([^<]+)/g;
+const XML_ATTRIBUTE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const CONDITION_COVERAGE = /\((\d+)\/(\d+)\)/;
+
+/**
+ * 覆蓋率報告解析器類別
+ */
+export class CoverageReportParser {
+  /**
+   * 讀取並解析覆蓋率報告檔案
+   * @param reportPath 報告檔案路徑
+   * @param rootPath 報告中相對路徑的基準目錄（通常是專案根目錄）
+   */
+  async load(reportPath: string, rootPath: string): Promise<CoverageReport> {
+    let content: string;
+    try {
+      content = await fs.readFile(reportPath, 'utf-8');
+    } catch {
+      throw new Error(`無法讀取覆蓋率報告: ${reportPath}`);
+    }
+    return this.parse(content, rootPath);
+  }
+
+  /**
+   * 解析覆蓋率報告內容（依內容判斷格式）
+   * @param content 報告內容
+   * @param rootPath 報告中相對路徑的基準目錄
+   */
+  parse(content: string, rootPath: string): CoverageReport {
+    const format = this.detectFormat(content);
+    const files = format === 'istanbul'
+      ? this.parseIstanbul(content, rootPath)
+      : format === 'cobertura'
+        ? this.parseCobertura(content, rootPath)
+        : this.parseLcov(content, rootPath);
+
+    return { format, files: new Map(files.map(file => [file.filePath, file as FileCoverage])) };
+  }
+
+  private detectFormat(content: string): CoverageFormat {
+    const trimmed = content.trimStart();
+    if (trimmed.startsWith('{')) {
+      return 'istanbul';
+    }
+    if (trimmed.startsWith('<')) {
+      return 'cobertura';
+    }
+    if (/^(TN|SF):/m.test(trimmed)) {
+      return 'lcov';
+    }
+    throw new Error('無法辨識的覆蓋率報告格式（支援 lcov、coverage-final.json 與 Cobertura XML）');
+  }
+
+  /**
+   * lcov：SF 開始一個檔案，DA 為行、BRDA 為分支、FN/FNDA 為函式，end_of_record 結束
+   */
+  private parseLcov(content: string, rootPath: string): MutableFileCoverage[] {
+    const files: MutableFileCoverage[] = [];
+    let current: MutableFileCoverage | null = null;
+    let functionLines = new Map<string, number>();
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      const separator = line.indexOf(':');
+      const key = separator >= 0 ? line.slice(0, separator) : line;
+      const value = separator >= 0 ? line.slice(separator + 1) : '';
+
+      if (key === 'SF') {
+        current = this.createFile(path.resolve(rootPath, value));
+        functionLines = new Map();
+        files.push(current);
+        continue;
+      }
+      if (!current) {
+        continue;
+      }
+
+      if (key === 'DA') {
+        const [lineNumber, hits] = value.split(',');
+        this.addLineHits(current, Number(lineNumber), Number(hits));
+      } else if (key === 'BRDA') {
+        const [lineNumber, , , taken] = value.split(',');
+        this.addBranches(current, Number(lineNumber), taken !== '-' && Number(taken) > 0 ? 1 : 0, 1);
+      } else if (key === 'FN') {
+        const [lineNumber, ...name] = value.split(',');
+        functionLines.set(name.join(','), Number(lineNumber));
+      } else if (key === 'FNDA') {
+        const [hits, ...name] = value.split(',');
+        const functionName = name.join(',');
+        current.functions.push({ name: functionName, line: functionLines.get(functionName) ?? 0, hits: Number(hits) });
+      } else if (key === 'end_of_record') {
+        current = null;
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Istanbul coverage-final.json：以 statement 起始行作為可執行行，分支以 branchMap 的行號彙總
+   */
+  private parseIstanbul(content: string, rootPath: string): MutableFileCoverage[] {
+    let data: Record<string, IstanbulFileCoverage>;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`無法解析 coverage-final.json: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return Object.entries(data).map(([key, coverage]) => {
+      const file = this.createFile(path.resolve(rootPath, coverage.path ?? key));
+
+      for (const [id, location] of Object.entries(coverage.statementMap ?? {})) {
+        const line = location.start.line;
+        // 同一行有多個 statement 時取最大執行次數（與 istanbul 的行覆蓋一致）
+        file.lines.set(line, Math.max(file.lines.get(line) ?? 0, coverage.s?.[id] ?? 0));
+      }
+
+      for (const [id, branch] of Object.entries(coverage.branchMap ?? {})) {
+        const counts = coverage.b?.[id] ?? [];
+        const line = branch.loc?.start.line ?? branch.line ?? branch.locations?.[0]?.start.line ?? 0;
+        this.addBranches(file, line, counts.filter(count => count > 0).length, counts.length);
+      }
+
+      for (const [id, fn] of Object.entries(coverage.fnMap ?? {})) {
+        const line = fn.decl?.start.line ?? fn.loc?.start.line ?? fn.line ?? 0;
+        file.functions.push({ name: fn.name, line, hits: coverage.f?.[id] ?? 0 });
+      }
+
+      return file;
+    });
+  }
+
+  /**
+   * Cobertura XML：class 的 filename 相對於 sources 中的第一個 source，
+   * line 的 condition-coverage 記錄分支（如 "50% (1/2)"）
+   */
+  private parseCobertura(content: string, rootPath: string): MutableFileCoverage[] {
+    const files = new Map<string, MutableFileCoverage>();
+    const sources: string[] = [];
+    let current: MutableFileCoverage | null = null;
+    let currentMethod: { name: string; line: number; hits: number } | null = null;
+    let inSource = false;
+
+    for (const match of content.matchAll(XML_TAG)) {
+      const [, closing, tag, attributeText, selfClosing, cdata, text] = match;
+
+      if (tag === undefined) {
+        if (inSource && (text ?? cdata).trim()) {
+          sources.push(this.decodeXml((text ?? cdata).trim()));
+        }
+        continue;
+      }
+
+      if (closing) {
+        if (tag === 'source') {
+          inSource = false;
+        } else if (tag === 'class') {
+          current = null;
+        } else if (tag === 'method' && current && currentMethod) {
+          current.functions.push(currentMethod);
+          currentMethod = null;
+        }
+        continue;
+      }
+
+      const attributes = this.parseAttributes(attributeText);
+      if (tag === 'source') {
+        inSource = !selfClosing;
+      } else if (tag === 'class' && attributes.filename) {
+        const base = sources.length > 0 ? path.resolve(rootPath, sources[0]) : rootPath;
+        const filePath = path.resolve(base, attributes.filename);
+        current = files.get(filePath) ?? this.createFile(filePath);
+        files.set(filePath, current);
+        if (selfClosing) {
+          current = null;
+        }
+      } else if (tag === 'method' && current) {
+        currentMethod = { name: attributes.name ?? '<unknown>', line: 0, hits: 0 };
+        if (selfClosing) {
+          current.functions.push(currentMethod);
+          currentMethod = null;
+        }
+      } else if (tag === 'line' && current) {
+        const lineNumber = Number(attributes.number);
+        const hits = Number(attributes.hits ?? 0);
+        if (currentMethod) {
+          // 方法內的行也會出現在 class 的 lines 中，只用來取得方法的位置與執行次數
+          if (currentMethod.line === 0) {
+            currentMethod.line = lineNumber;
+            currentMethod.hits = hits;
+          }
+          continue;
+        }
+        this.addLineHits(current, lineNumber, hits);
+        const condition = CONDITION_COVERAGE.exec(attributes['condition-coverage'] ?? '');
+        if (attributes.branch === 'true' && condition) {
+          this.addBranches(current, lineNumber, Number(condition[1]), Number(condition[2]));
+        }
+      }
+    }
+
+    return [...files.values()];
+  }
+
+  private createFile(filePath: string): MutableFileCoverage {
+    return { filePath, lines: new Map(), branches: new Map(), functions: [] };
+  }
+
+  private addLineHits(file: MutableFileCoverage, line: number, hits: number): void {
+    if (Number.isFinite(line) && line > 0) {
+      file.lines.set(line, (file.lines.get(line) ?? 0) + (Number.isFinite(hits) ? hits : 0));
+    }
+  }
+
+  private addBranches(file: MutableFileCoverage, line: number, covered: number, total: number): void {
+    if (!Number.isFinite(line) || line <= 0 || total <= 0) {
+      return;
+    }
+    const existing = file.branches.get(line) ?? { covered: 0, total: 0 };
+    file.branches.set(line, { covered: existing.covered + covered, total: existing.total + total });
+  }
+
+  private parseAttributes(text: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of text.matchAll(XML_ATTRIBUTE)) {
+      attributes[match[1]] = this.decodeXml(match[2] ?? match[3]);
+    }
+    return attributes;
+  }
+
+  private decodeXml(text: string): string {
+    return text
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, '\'')
+      .replace(/&amp;/g, '&');
+  }
+}
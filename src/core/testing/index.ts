@@ -0,0 +1,18 @@
+/**
+ * 測試覆蓋率模組統一匯出
+ */
+
+export { CoverageReportParser } from './coverage-report-parser.js';
+export { CoverageAnalyzer, CRAP_THRESHOLD } from './coverage-analyzer.js';
+
+export type {
+  CoverageFormat,
+  BranchCoverage,
+  FunctionCoverage,
+  FileCoverage,
+  CoverageReport,
+  CoverageSummary,
+  FileCoverageSummary,
+  FunctionCoverageRisk,
+  CoverageAnalysisResult
+} from './types.js';
@@ -0,0 +1,96 @@
+/**
+ * 測試覆蓋率模組型別定義
+ */
+
+/**
+ * 支援的覆蓋率報告格式
+ */
+export type CoverageFormat = 'lcov' | 'istanbul' | 'cobertura';
+
+/**
+ * 單行的分支覆蓋
+ */
+export interface BranchCoverage {
+  readonly covered: number;
+  readonly total: number;
+}
+
+/**
+ * 報告中記錄的函式
+ */
+export interface FunctionCoverage {
+  readonly name: string;
+  readonly line: number;
+  readonly hits: number;
+}
+
+/**
+ * 單一檔案的覆蓋資料
+ */
+export interface FileCoverage {
+  /** 檔案絕對路徑 */
+  readonly filePath: string;
+  /** 可執行行號 → 執行次數 */
+  readonly lines: ReadonlyMap<number, number>;
+  /** 有分支的行號 → 分支覆蓋 */
+  readonly branches: ReadonlyMap<number, BranchCoverage>;
+  readonly functions: readonly FunctionCoverage[];
+}
+
+/**
+ * 解析後的覆蓋率報告
+ */
+export interface CoverageReport {
+  readonly format: CoverageFormat;
+  /** 檔案絕對路徑 → 覆蓋資料 */
+  readonly files: ReadonlyMap<string, FileCoverage>;
+}
+
+/**
+ * 行與分支的覆蓋統計
+ */
+export interface CoverageSummary {
+  readonly coveredLines: number;
+  readonly totalLines: number;
+  /** 行覆蓋率（0-1，沒有可執行行時為 1） */
+  readonly lineCoverage: number;
+  readonly coveredBranches: number;
+  readonly totalBranches: number;
+  /** 分支覆蓋率（0-1）；報告沒有分支資料時為 null，不列入評分 */
+  readonly branchCoverage: number | null;
+}
+
+/**
+ * 檔案覆蓋統計
+ */
+export interface FileCoverageSummary extends CoverageSummary {
+  readonly filePath: string;
+  /** 檔案是否出現在覆蓋率報告中 */
+  readonly reported: boolean;
+}
+
+/**
+ * 函式的覆蓋與複雜度
+ */
+export interface FunctionCoverageRisk extends CoverageSummary {
+  readonly filePath: string;
+  readonly name: string;
+  readonly startLine: number;
+  readonly endLine: number;
+  readonly cyclomaticComplexity: number;
+  readonly cognitiveComplexity: number;
+  /** CRAP 指標：complexity² × (1 - coverage)³ + complexity */
+  readonly crap: number;
+}
+
+/**
+ * 覆蓋率分析結果
+ */
+export interface CoverageAnalysisResult {
+  readonly format: CoverageFormat;
+  /** 所有被分析檔案的整體統計（未出現在報告中的檔案，其可執行行全部計為未覆蓋） */
+  readonly total: CoverageSummary;
+  readonly files: readonly FileCoverageSummary[];
+  /** 依 CRAP 由高到低排序 */
+  readonly functions: readonly FunctionCoverageRisk[];
+}
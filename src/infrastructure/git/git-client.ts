@@ -0,0 +1,137 @@
+/**
+ * Git 指令封裝
+ * 透過 git CLI 讀取 repository 的變更檔案與提交紀錄
+ */
+
+import { execFile } from 'child_process';
+import * as path from 'path';
+import { promisify } from 'util';
+import type { GitCommit, GitFileRevision, GitHunk, GitLogOptions } from './types.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * 提交之間的分隔字元（ASCII record separator）與欄位分隔字元（unit separator）
+ */
+const RECORD_SEPARATOR = '\x1e';
+const FIELD_SEPARATOR = '\x1f';
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Git 用戶端類別
+ */
+export class GitClient {
+  /**
+   * @param cwd 執行 git 的目錄（repository 內任一目錄）
+   */
+  constructor(private readonly cwd: string) {}
+
+  /**
+   * 取得 repository 根目錄
+   */
+  async getRoot(): Promise<string> {
+    return (await this.run(['rev-parse', '--show-toplevel'])).trim();
+  }
+
+  /**
+   * 列出工作區相對於 base 有變更的檔案（git diff --name-only，含未 commit 的修改與未追蹤、未被忽略的新檔案）
+   * @param base 比較基準（commit、branch 或 tag）
+   * @returns 檔案絕對路徑
+   */
+  async getChangedFiles(base: string): Promise<string[]> {
+    const root = await this.getRoot();
+    const changed = await this.run(['diff', '--name-only', '-z', base, '--']);
+    // ls-files 預設只列出 cwd 底下、相對於 cwd 的路徑，以 :/ 與 --full-name 涵蓋整個 repository
+    const untracked = await this.run(['ls-files', '--others', '--exclude-standard', '--full-name', '-z', '--', ':/']);
+    const files = new Set([...changed.split('\0'), ...untracked.split('\0')].filter(Boolean));
+    return [...files].map(file => path.join(root, file));
+  }
+
+  /**
+   * 讀取目前目錄底下檔案的提交紀錄（不含 merge commit，不追蹤改名）
+   * @param options 時間範圍與數量限制
+   * @returns 由新到舊的提交
+   */
+  async getCommits(options: GitLogOptions = {}): Promise<GitCommit[]> {
+    const root = await this.getRoot();
+    const output = await this.run([
+      'log',
+      '--numstat',
+      '--no-renames',
+      `--format=${RECORD_SEPARATOR}%H${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%ae${FIELD_SEPARATOR}%aI`,
+      ...this.logRangeArgs(options),
+      '--',
+      '.'
+    ]);
+
+    return output.split(RECORD_SEPARATOR).filter(record => record.trim()).map(record => {
+      const [header, ...lines] = record.split('\n');
+      const [hash, author, email, date] = header.split(FIELD_SEPARATOR);
+      const files = lines.filter(line => line.includes('\t')).map(line => {
+        const [added, deleted, file] = line.split('\t');
+        return {
+          filePath: path.join(root, file),
+          added: added === '-' ? 0 : Number(added),
+          deleted: deleted === '-' ? 0 : Number(deleted)
+        };
+      });
+      return { hash, author, email, date: new Date(date), files };
+    });
+  }
+
+  /**
+   * 讀取單一檔案每次提交的 diff 區塊（不含上下文行），用於將變更對應到函式
+   * @param filePath 檔案路徑
+   * @param options 時間範圍與數量限制
+   * @returns 由新到舊的修訂
+   */
+  async getFileRevisions(filePath: string, options: GitLogOptions = {}): Promise<GitFileRevision[]> {
+    const output = await this.run([
+      'log',
+      '-p',
+      '-U0',
+      '--no-renames',
+      '--no-color',
+      '--no-ext-diff',
+      `--format=${RECORD_SEPARATOR}%H`,
+      ...this.logRangeArgs(options),
+      '--',
+      path.resolve(this.cwd, filePath)
+    ]);
+
+    return output.split(RECORD_SEPARATOR).filter(record => record.trim()).map(record => {
+      const [hash, ...lines] = record.split('\n');
+      const hunks: GitHunk[] = [];
+      for (const line of lines) {
+        const match = HUNK_HEADER.exec(line);
+        if (match) {
+          hunks.push({
+            oldStart: Number(match[1]),
+            oldLines: match[2] === undefined ? 1 : Number(match[2]),
+            newStart: Number(match[3]),
+            newLines: match[4] === undefined ? 1 : Number(match[4])
+          });
+        }
+      }
+      return { hash: hash.trim(), hunks };
+    });
+  }
+
+  private logRangeArgs(options: GitLogOptions): string[] {
+    return [
+      ...(options.since ? [`--since=${options.since}`] : []),
+      ...(options.maxCount !== undefined ? [`--max-count=${options.maxCount}`] : [])
+    ];
+  }
+
+  private async run(args: string[]): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync('git', args, { cwd: this.cwd, maxBuffer: 64 * 1024 * 1024 });
+      return stdout;
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      throw new Error(`git ${args[0]} 失敗: ${stderr || (error instanceof Error ? error.message : String(error))}`);
+    }
+  }
+}
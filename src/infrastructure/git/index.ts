@@ -0,0 +1,12 @@
+/**
+ * Git 整合統一匯出
+ */
+
+export { GitClient } from './git-client.js';
+export type {
+  GitCommit,
+  GitFileChange,
+  GitFileRevision,
+  GitHunk,
+  GitLogOptions
+} from './types.js';
@@ -0,0 +1,54 @@
+/**
+ * Git 整合型別定義
+ */
+
+/**
+ * 單一檔案在提交中的行數變更（git log --numstat）
+ */
+export interface GitFileChange {
+  /** 檔案絕對路徑 */
+  readonly filePath: string;
+  /** 新增行數（二進位檔案為 0） */
+  readonly added: number;
+  /** 刪除行數（二進位檔案為 0） */
+  readonly deleted: number;
+}
+
+/**
+ * 提交紀錄
+ */
+export interface GitCommit {
+  readonly hash: string;
+  readonly author: string;
+  readonly email: string;
+  readonly date: Date;
+  readonly files: readonly GitFileChange[];
+}
+
+/**
+ * diff 區塊的行號範圍（@@ -oldStart,oldLines +newStart,newLines @@）
+ */
+export interface GitHunk {
+  readonly oldStart: number;
+  readonly oldLines: number;
+  readonly newStart: number;
+  readonly newLines: number;
+}
+
+/**
+ * 單一提交對某個檔案的 diff 區塊
+ */
+export interface GitFileRevision {
+  readonly hash: string;
+  readonly hunks: readonly GitHunk[];
+}
+
+/**
+ * 讀取提交紀錄的選項
+ */
+export interface GitLogOptions {
+  /** 只讀取此時間之後的提交（git 的 --since 格式，如 2024-01-01 或 "6 months ago"） */
+  readonly since?: string;
+  /** 最多讀取的提交數 */
+  readonly maxCount?: number;
+}
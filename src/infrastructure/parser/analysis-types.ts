@@ -43,6 +43,26 @@ export interface ComplexityMetrics {
   maxComplexity: number;
   /** 最大複雜度函式名稱 */
   maxComplexityFunction?: string;
+  /** 各函式的複雜度與行號範圍（分析器支援時提供） */
+  functions?: FunctionComplexityMetrics[];
+}
+
+/**
+ * 單一函式的複雜度指標
+ */
+export interface FunctionComplexityMetrics {
+  /** 函式名稱 */
+  name: string;
+  /** 起始行（1-based） */
+  startLine: number;
+  /** 結束行（1-based） */
+  endLine: number;
+  /** 循環複雜度 */
+  cyclomaticComplexity: number;
+  /** 認知複雜度 */
+  cognitiveComplexity: number;
+  /** 參數數量（分析器支援時提供） */
+  parameterCount?: number;
 }
 
 /**
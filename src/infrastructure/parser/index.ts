@@ -11,6 +11,7 @@ export { createCodeEdit, createDefinition, createUsage, createValidationResult,
 export type {
   UnusedCode,
   ComplexityMetrics,
+  FunctionComplexityMetrics,
   CodeFragment,
   DuplicationResult,
   DuplicationGroup,
@@ -3,14 +3,21 @@
  * 提供命令列介面來操作 Agent IDE 功能
  */
 
-import { Command } from 'commander';
+import { Command, CommanderError } from 'commander';
 import { IndexEngine } from '../../core/indexing/index-engine.js';
 import { DependencyAnalyzer } from '../../core/dependency/dependency-analyzer.js';
 import { RenameEngine } from '../../core/rename/rename-engine.js';
-import { ImportResolver, MoveService } from '../../core/move/index.js';
+import { ImportResolver, MoveService, SymbolMoveService } from '../../core/move/index.js';
 import { SearchService } from '../../core/search/service.js';
+import { RewriteEngine } from '../../core/rewrite/index.js';
+import type { RewriteOptions, RewriteEdit } from '../../core/rewrite/index.js';
+import { OperationJournal, HistoryError, HistoryErrorCode } from '../../core/history/index.js';
+import type { JournalEntry, RecordOperationInput } from '../../core/history/index.js';
+import type { CodeEdit } from '../../core/refactor/index.js';
 import { createIndexConfig } from '../../core/indexing/types.js';
+import type { IndexConfig } from '../../core/indexing/types.js';
 import { ParserRegistry } from '../../infrastructure/parser/registry.js';
+import type { ComplexityMetrics } from '../../infrastructure/parser/analysis-types.js';
 import { TypeScriptParser } from '../../plugins/typescript/parser.js';
 import { JavaScriptParser } from '../../plugins/javascript/parser.js';
 import { SwiftParser } from '../../plugins/swift/parser.js';
@@ -18,6 +25,7 @@ import { ShitScoreAnalyzer } from '../../core/shit-score/shit-score-analyzer.js'
 import { SnapshotEngine, SnapshotDiffer, ConfigManager, CompressionLevel } from '../../core/snapshot/index.js';
 import type { SnapshotOptions } from '../../core/snapshot/index.js';
 import { OutputFormatter, OutputFormat } from './output-formatter.js';
+import { createUnifiedDiff } from '../../shared/utils/diff.js';
 import * as fs from 'fs/promises';
 import { readFileSync } from 'fs';
 import * as path from 'path';
@@ -39,11 +47,14 @@ try {
 export class AgentIdeCLI {
   private program: Command;
   private indexEngine?: IndexEngine;
+  /** 所有命令都會載入既有的 .agent-ide/index.json；常駐的 MCP 工作階段才寫回，一次性的查詢不寫入使用者的工作區 */
+  private persistIndex = false;
   private dependencyAnalyzer?: DependencyAnalyzer;
   private renameEngine?: RenameEngine;
   private importResolver?: ImportResolver;
   private moveService?: MoveService;
   private searchService?: SearchService;
+  private embedded = false;
 
   constructor() {
     this.program = new Command();
@@ -58,6 +69,44 @@ export class AgentIdeCLI {
     await this.program.parseAsync(argv);
   }
 
+  /**
+   * 以內嵌模式執行單一命令（供 MCP server 使用）
+   * 每次呼叫重建命令樹，索引引擎等狀態保留在實例上以重複使用
+   * @param args 命令參數（不含 node 與腳本路徑）
+   * @returns 結束代碼
+   */
+  async execute(args: string[]): Promise<number> {
+    this.embedded = true;
+    this.program = new Command();
+    this.program
+      .exitOverride()
+      .configureOutput({
+        writeOut: (str) => console.log(str.trimEnd()),
+        writeErr: (str) => console.error(str.trimEnd())
+      });
+    this.setupCommands();
+
+    process.exitCode = undefined;
+    try {
+      await this.program.parseAsync(args, { from: 'user' });
+      return typeof process.exitCode === 'number' ? process.exitCode : 0;
+    } catch (error) {
+      if (error instanceof CommanderError) {
+        return error.exitCode;
+      }
+      throw error;
+    } finally {
+      process.exitCode = undefined;
+    }
+  }
+
+  /**
+   * 取得頂層命令定義
+   */
+  getCommand(name: string): Command | undefined {
+    return this.program.commands.find(command => command.name() === name);
+  }
+
   private initializeParsers(): void {
     try {
       const registry = ParserRegistry.getInstance();
@@ -130,13 +179,19 @@ export class AgentIdeCLI {
     this.setupIndexCommand();
     this.setupRenameCommand();
     this.setupRefactorCommand();
+    this.setupRewriteCommand();
     this.setupMoveCommand();
+    this.setupMoveSymbolCommand();
+    this.setupHistoryCommands();
     this.setupSearchCommand();
     this.setupAnalyzeCommand();
     this.setupDepsCommand();
+    this.setupAffectedTestsCommand();
     this.setupShitCommand();
     this.setupSnapshotCommand();
     this.setupPluginsCommand();
+    this.setupMcpCommand();
+    this.setupLspCommand();
   }
 
   private setupIndexCommand(): void {
@@ -146,7 +201,7 @@ export class AgentIdeCLI {
       .option('-p, --path <path>', '專案路徑', process.cwd())
       .option('-u, --update', '增量更新索引')
       .option('-e, --extensions <exts>', '包含的檔案副檔名', '.ts,.js,.tsx,.jsx,.swift')
-      .option('-x, --exclude <patterns>', '排除模式', 'node_modules/**,*.test.*')
+      .option('-x, --exclude <patterns>', '排除模式', 'node_modules/**,*.test.*,dist/**')
       .option('--format <format>', '輸出格式 (markdown|plain|json|minimal)', 'plain')
       .action(async (options) => {
         await this.handleIndexCommand(options);
@@ -173,14 +228,24 @@ export class AgentIdeCLI {
   private setupRefactorCommand(): void {
     this.program
       .command('refactor <action>')
-      .description('重構程式碼 (extract-function | extract-closure | inline-function)')
+      .description('重構程式碼 (extract-function | extract-closure | extract-variable | extract-constant | inline-variable | inline-function | change-signature | introduce-parameter-object | extract-interface)')
       .option('-f, --file <file>', '檔案路徑')
       .option('--path <path>', '檔案路徑（--file 的別名）')
       .option('-s, --start-line <line>', '起始行號')
       .option('-e, --end-line <line>', '結束行號')
+      .option('--start-column <column>', '起始欄位（1-based，extract-variable/extract-constant 使用）')
+      .option('--end-column <column>', '結束欄位（1-based，包含該欄，extract-variable/extract-constant 使用）')
+      .option('--line <line>', '變數所在行號（inline-variable）')
+      .option('--column <column>', '變數所在欄位（1-based，inline-variable）')
+      .option('--function <name>', '目標函式，方法可用 Class.method（change-signature/introduce-parameter-object）')
+      .option('--params <spec>', '新的參數列表，如 "b, a, c: number = 0"（change-signature）；要合併的參數，如 "a,b"（introduce-parameter-object）')
+      .option('--class <name>', '目標類別（extract-interface）')
+      .option('--replace-usages', '將參數與變數型別註記中的類別改為提取的介面（extract-interface）')
       .option('-n, --function-name <name>', '函式名稱')
       .option('--new-name <name>', '新名稱（--function-name 的別名）')
       .option('-t, --target-file <file>', '目標檔案路徑（跨檔案提取）')
+      .option('--all', '一併取代作用域內相同的運算式（extract-variable/extract-constant）')
+      .option('--let', '以 let 宣告提取的變數（extract-variable）')
       .option('--preview', '預覽變更而不執行')
       .option('--format <format>', '輸出格式 (markdown|plain|json|minimal)', 'plain')
       .action(async (action, options) => {
@@ -188,6 +253,53 @@ export class AgentIdeCLI {
       });
   }
 
+  private setupRewriteCommand(): void {
+    this.program
+      .command('rewrite')
+      .description('結構化搜尋取代（以程式碼模板比對 AST 並代入 metavariable）')
+      .option('-m, --match <template>', '匹配模板，如 "oldApi($$$ARGS)"')
+      .option('-r, --replace <template>', '取代模板，如 "newApi($$$ARGS)"')
+      .option('-p, --path <path>', '檔案或目錄路徑', '.')
+      .option('--include <patterns>', '包含模式')
+      .option('--exclude <patterns>', '排除模式')
+      .option('--language <language>', '目標語言 (typescript|javascript|swift)')
+      .option('--preview', '以 unified diff 預覽變更而不執行')
+      .option('--format <format>', '輸出格式 (plain|json)', 'plain')
+      .action(async (options) => {
+        await this.handleRewriteCommand(options);
+      });
+  }
+
+  private setupHistoryCommands(): void {
+    this.program
+      .command('undo [id]')
+      .description('復原重新命名、移動、重構或取代操作（預設為最近一次）')
+      .option('-p, --path <path>', '專案路徑', '.')
+      .option('--format <format>', '輸出格式 (plain|json)', 'plain')
+      .action(async (id, options) => {
+        await this.handleUndoCommand(id, options);
+      });
+
+    this.program
+      .command('redo')
+      .description('重做最近一次復原的操作')
+      .option('-p, --path <path>', '專案路徑', '.')
+      .option('--format <format>', '輸出格式 (plain|json)', 'plain')
+      .action(async (options) => {
+        await this.handleRedoCommand(options);
+      });
+
+    this.program
+      .command('history')
+      .description('列出可復原的操作歷史')
+      .option('-p, --path <path>', '專案路徑', '.')
+      .option('-l, --limit <num>', '顯示數量', '20')
+      .option('--format <format>', '輸出格式 (plain|json)', 'plain')
+      .action(async (options) => {
+        await this.handleHistoryCommand(options);
+      });
+  }
+
   private setupMoveCommand(): void {
     this.program
       .command('move [source] [target]')
@@ -208,7 +320,7 @@ export class AgentIdeCLI {
           console.error('❌ 必須指定來源和目標路徑');
           console.error('   使用方式: agent-ide move <source> <target>');
           console.error('   或: agent-ide move --source <source> --target <target>');
-          if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+          this.exit(1);
           return;
         }
 
@@ -216,12 +328,28 @@ export class AgentIdeCLI {
       });
   }
 
+  private setupMoveSymbolCommand(): void {
+    this.program
+      .command('move-symbol')
+      .description('將函式、類別或常數移到另一個檔案並更新所有 import')
+      .requiredOption('-s, --symbol <name>', '要移動的頂層符號名稱')
+      .requiredOption('--from <file>', '來源檔案')
+      .requiredOption('--to <file>', '目標檔案（不存在時建立）')
+      .option('-p, --path <path>', '專案路徑，--from 與 --to 的相對路徑以此為基準（預設為來源檔案所在的專案根目錄）')
+      .option('--preview', '預覽變更而不執行')
+      .option('--format <format>', '輸出格式 (plain|json)', 'plain')
+      .action(async (options) => {
+        await this.handleMoveSymbolCommand(options);
+      });
+  }
+
   private setupSearchCommand(): void {
     this.program
       .command('search')
       .description('搜尋程式碼')
       .argument('[query]', '搜尋查詢字串（簡化語法，等同於 text 搜尋）')
-      .option('-t, --type <type>', '搜尋類型 (text|regex|fuzzy|symbol|function|class|protocol|variable|enum)', 'text')
+      .argument('[template]', '程式碼模板（用於 pattern 搜尋，如 "await $CALL($$$ARGS)"）')
+      .option('-t, --type <type>', '搜尋類型 (text|regex|fuzzy|semantic|symbol|function|class|protocol|variable|enum)', 'text')
       .option('-p, --path <path>', '搜尋路徑', '.')
       .option('-e, --extensions <exts>', '檔案副檔名', '.ts,.js,.tsx,.jsx,.swift')
       .option('-l, --limit <num>', '結果數量限制', '50')
@@ -241,12 +369,13 @@ export class AgentIdeCLI {
       .option('--with-modifier <mod>', '過濾帶有特定修飾符的符號')
       .option('--implements <protocol>', '過濾實作特定協定的類別')
       .option('--extends <class>', '過濾繼承特定類別的子類別')
-      .action(async (queryOrSubcommand, options) => {
-        // 支援三種語法：
+      .action(async (queryOrSubcommand, template, options) => {
+        // 支援以下語法：
         // 1. search <query> --path <path>  (簡化語法，預設為 text 搜尋)
         // 2. search text --query <query> --path <path>
         // 3. search symbol --query <query> --path <path>
         // 4. search structural --type <type> --path <path>
+        // 5. search pattern '<template>' --path <path>
 
         // 檢查空字串或未提供
         if (!queryOrSubcommand || queryOrSubcommand.trim() === '') {
@@ -254,13 +383,14 @@ export class AgentIdeCLI {
           console.error('   使用方式: agent-ide search <query>');
           console.error('   或: agent-ide search text --query <query>');
           console.error('   或: agent-ide search symbol --query <query>');
+          console.error('   或: agent-ide search pattern \'<template>\'');
           process.exitCode = 1;
-          if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+          this.exit(1);
           return;
         }
 
         // 判斷是子命令還是查詢字串
-        const knownSubcommands = ['text', 'symbol', 'structural'];
+        const knownSubcommands = ['text', 'symbol', 'structural', 'pattern'];
         const isSubcommand = knownSubcommands.includes(queryOrSubcommand);
 
         if (isSubcommand) {
@@ -271,7 +401,11 @@ export class AgentIdeCLI {
             await this.handleTextSearchCommand(options);
           } else if (queryOrSubcommand === 'structural') {
             await this.handleStructuralSearchCommand(options);
+          } else if (queryOrSubcommand === 'pattern') {
+            await this.handlePatternSearchCommand(template ?? options.query, options);
           }
+        } else if (options.type === 'semantic') {
+          await this.handleSemanticSearchCommand(queryOrSubcommand, options);
         } else {
           // 簡化語法：直接使用查詢字串
           await this.handleSearchCommand(queryOrSubcommand, options);
@@ -282,11 +416,14 @@ export class AgentIdeCLI {
   private setupAnalyzeCommand(): void {
     this.program
       .command('analyze [type]')
-      .description('分析程式碼品質')
+      .description('分析程式碼品質 (type: complexity|dead-code|best-practices|patterns|quality|hotspots|coverage)')
       .option('-p, --path <path>', '分析路徑', '.')
       .option('--pattern <pattern>', '分析模式')
       .option('--format <format>', '輸出格式 (json|table|summary)', 'summary')
       .option('--all', '顯示所有掃描結果（預設只顯示有問題的項目）', false)
+      .option('--since <date>', 'hotspots：只統計此時間之後的提交（如 2024-01-01 或 "6 months ago"）')
+      .option('--max-commits <count>', 'hotspots：最多讀取的提交數', '1000')
+      .option('--coverage <file>', 'coverage：覆蓋率報告（lcov、coverage-final.json 或 Cobertura XML）')
       .action(async (type, options) => {
         await this.handleAnalyzeCommand(type, options);
       });
@@ -295,16 +432,32 @@ export class AgentIdeCLI {
   private setupDepsCommand(): void {
     this.program
       .command('deps [subcommand]')
-      .description('分析依賴關係 (subcommand: graph|cycles|impact|orphans)')
+      .description('分析依賴關係 (subcommand: graph|cycles|impact|orphans|check|packages|metrics|simulate)')
       .option('-p, --path <path>', '分析路徑', '.')
-      .option('-f, --file <file>', '特定檔案分析')
-      .option('--format <format>', '輸出格式 (json|dot|summary)', 'summary')
+      .option('-f, --file <file>', '特定檔案分析（匯出圖時只包含此檔案的傳遞依賴與被依賴）')
+      .option('--format <format>', '輸出格式 (json|dot|mermaid|graphml|jgf|summary)', 'summary')
+      .option('--collapse <depth>', '依目錄深度合併節點（匯出圖、metrics 模組）')
+      .option('--add-edge <from:to>', 'simulate：模擬新增 from 對 to 的 import')
+      .option('--move <source:target>', 'simulate：模擬移動檔案或目錄')
       .option('--all', '顯示完整依賴圖（預設只顯示循環依賴和孤立檔案）', false)
       .action(async (subcommand, options) => {
         await this.handleDepsCommand(subcommand, options);
       });
   }
 
+  private setupAffectedTestsCommand(): void {
+    this.program
+      .command('affected-tests')
+      .description('依 git 變更找出需要執行的測試檔案')
+      .option('-p, --path <path>', '專案路徑', '.')
+      .option('-b, --base <ref>', '比較基準（git diff --name-only <ref>）', 'HEAD')
+      .option('--stdin', '從 stdin 讀取變更檔案列表（每行一個，相對於目前目錄）', false)
+      .option('--format <format>', '輸出格式 (list|json|vitest|jest)', 'list')
+      .action(async (options) => {
+        await this.handleAffectedTestsCommand(options);
+      });
+  }
+
   private setupShitCommand(): void {
     this.program
       .command('shit')
@@ -315,6 +468,7 @@ export class AgentIdeCLI {
       .option('-m, --max-allowed <score>', '最大允許分數（超過則 exit 1）')
       .option('--format <format>', '輸出格式 (json|summary)', 'summary')
       .option('--show-files', '顯示問題檔案列表（detailedFiles）', false)
+      .option('--coverage <file>', '覆蓋率報告（lcov、coverage-final.json 或 Cobertura XML），未指定時使用 .agent-ide.json 的 coverage')
       .option('-o, --output <file>', '輸出到檔案')
       .action(async (options) => {
         await this.handleShitCommand(options);
@@ -343,6 +497,26 @@ export class AgentIdeCLI {
       });
   }
 
+  private setupMcpCommand(): void {
+    this.program
+      .command('mcp')
+      .description('啟動 MCP (Model Context Protocol) server（stdio）')
+      .action(async () => {
+        await this.handleMcpCommand();
+      });
+  }
+
+  private setupLspCommand(): void {
+    this.program
+      .command('lsp')
+      .description('啟動 LSP (Language Server Protocol) server（stdio）')
+      .option('-p, --path <path>', '工作區路徑（用戶端未提供 rootUri 時使用）', process.cwd())
+      .option('--stdio', '使用 stdio 通訊（預設）')
+      .action(async (options) => {
+        await this.handleLspCommand(options);
+      });
+  }
+
   private setupSnapshotCommand(): void {
     this.program
       .command('snapshot [action]')
@@ -373,18 +547,21 @@ export class AgentIdeCLI {
     try {
       const config = createIndexConfig(options.path, {
         includeExtensions: options.extensions.split(','),
-        excludePatterns: options.exclude.split(',')
+        excludePatterns: options.exclude.split(','),
+        persistChanges: true
       });
 
       this.indexEngine = new IndexEngine(config);
 
       if (options.update) {
+        // 增量更新：載入持久化索引，只重新解析變更的檔案
         if (options.format !== 'json' && options.format !== 'minimal') {
           console.log('📝 執行增量索引更新...');
         }
       } else {
-        await this.indexEngine.indexProject(options.path);
+        await this.indexEngine.clearPersistedIndex();
       }
+      await this.indexEngine.indexProject(options.path);
 
       const stats = await this.indexEngine.getStats();
       const duration = Date.now() - startTime;
@@ -416,7 +593,7 @@ export class AgentIdeCLI {
         console.error('\n' + formatter.formatError(`索引失敗: ${errorMessage}`));
       }
 
-      if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+      this.exit(1);
     }
   }
 
@@ -433,7 +610,7 @@ export class AgentIdeCLI {
         console.error('❌ 必須指定符號名稱和新名稱');
         console.error('   使用方式: agent-ide rename --symbol <name> --new-name <name>');
       }
-      if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+      this.exit(1);
       return;
     }
 
@@ -447,28 +624,14 @@ export class AgentIdeCLI {
       // 如果路徑指向檔案，取其所在目錄
       const stats = await fs.stat(workspacePath);
       if (stats.isFile()) {
-        workspacePath = path.dirname(workspacePath);
-        // 往上查找專案根目錄（包含 package.json、.git 等）
-        let currentDir = workspacePath;
-        while (currentDir !== path.dirname(currentDir)) {
-          const hasPackageJson = await this.fileExists(path.join(currentDir, 'package.json'));
-          const hasGit = await this.fileExists(path.join(currentDir, '.git'));
-          const hasSwiftPackage = await this.fileExists(path.join(currentDir, 'Package.swift'));
-          if (hasPackageJson || hasGit || hasSwiftPackage) {
-            workspacePath = currentDir;
-            break;
-          }
-          currentDir = path.dirname(currentDir);
-        }
+        workspacePath = await this.findProjectRoot(workspacePath);
       }
 
-      // 初始化索引引擎（每次都重新索引以確保資料是最新的）
-      const config = createIndexConfig(workspacePath, {
+      // 初始化索引引擎（重新索引變更的檔案以確保資料是最新的）
+      const indexEngine = await this.getIndexEngine(workspacePath, {
         includeExtensions: ['.ts', '.tsx', '.js', '.jsx', '.swift'],
-        excludePatterns: ['node_modules/**', '*.test.*']
+        excludePatterns: ['node_modules/**', '*.test.*', 'dist/**']
       });
-      this.indexEngine = new IndexEngine(config);
-      await this.indexEngine.indexProject(workspacePath);
 
       // 初始化重新命名引擎
       if (!this.renameEngine) {
@@ -479,7 +642,7 @@ export class AgentIdeCLI {
       if (!isJsonFormat) {
         console.log(`🔍 查找符號 "${from}"...`);
       }
-      const searchResults = await this.indexEngine.findSymbol(from);
+      const searchResults = await indexEngine.findSymbol(from);
 
       if (searchResults.length === 0) {
         if (isJsonFormat) {
@@ -487,7 +650,8 @@ export class AgentIdeCLI {
         } else {
           console.log(`❌ 找不到符號 "${from}"`);
         }
-        process.exit(1);
+        this.exit(1, true);
+        return;
       }
 
       if (searchResults.length > 1 && !isJsonFormat) {
@@ -530,7 +694,11 @@ export class AgentIdeCLI {
             if (preview.conflicts.length > 0) {
               console.log('⚠️  發現衝突:');
               preview.conflicts.forEach(conflict => {
-                console.log(`   - ${conflict.message}`);
+                const { filePath, range } = conflict.location;
+                const location = filePath
+                  ? ` (${path.relative(workspacePath, filePath)}:${range.start.line + 1}:${range.start.column + 1})`
+                  : '';
+                console.log(`   - [${conflict.type}] ${conflict.message}${location}`);
               });
             }
 
@@ -547,7 +715,7 @@ export class AgentIdeCLI {
           } else {
             console.error('❌ 預覽失敗:', previewError instanceof Error ? previewError.message : previewError);
           }
-          if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+          this.exit(1);
         }
       }
 
@@ -559,6 +727,8 @@ export class AgentIdeCLI {
       // 取得所有專案檔案（使用與 preview 相同的邏輯）
       // 使用 workspacePath（已解析為目錄）而不是 options.path（可能是檔案）
       const allProjectFiles = await this.getAllProjectFiles(workspacePath);
+      const journal = new OperationJournal(await this.findProjectRoot(workspacePath));
+      const before = await journal.capture(allProjectFiles);
 
       // 使用 renameEngine 執行重新命名（與 preview 使用相同的引擎）
       const renameResult = await this.renameEngine.rename({
@@ -568,12 +738,19 @@ export class AgentIdeCLI {
       });
 
       if (renameResult.success) {
+        const entry = await this.recordOperation(journal, {
+          type: 'rename',
+          description: `rename ${from} → ${to}`,
+          before
+        });
+
         if (isJsonFormat) {
           console.log(JSON.stringify({
             success: true,
             affectedFiles: renameResult.affectedFiles.length,
             operations: renameResult.operations.length,
-            files: renameResult.affectedFiles
+            files: renameResult.affectedFiles,
+            operationId: entry?.id ?? null
           }, null, 2));
         } else {
           console.log('✅ 重新命名成功!');
@@ -582,6 +759,7 @@ export class AgentIdeCLI {
           renameResult.operations.forEach(operation => {
             console.log(`   ✓ ${operation.filePath}: "${operation.oldText}" → "${operation.newText}"`);
           });
+          this.printUndoHint(entry);
         }
       } else {
         if (isJsonFormat) {
@@ -595,7 +773,8 @@ export class AgentIdeCLI {
             console.error(`   - ${error}`);
           });
         }
-        if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+        process.exitCode = 1;
+        this.exit(1);
       }
 
     } catch (error) {
@@ -604,7 +783,110 @@ export class AgentIdeCLI {
       } else {
         console.error('❌ 重新命名失敗:', error instanceof Error ? error.message : error);
       }
-      if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+      this.exit(1);
+    }
+  }
+
+  private async handleRewriteCommand(options: any): Promise<void> {
+    const isJsonFormat = options.format === 'json';
+
+    if (!options.match || options.replace === undefined) {
+      console.error('❌ 必須指定 --match 與 --replace 參數');
+      console.error('   使用方式: agent-ide rewrite --match \'oldApi($$$ARGS)\' --replace \'newApi($$$ARGS)\'');
+      process.exitCode = 1;
+      this.exit(1);
+      return;
+    }
+
+    try {
+      const targetPath = path.resolve(options.path);
+      const stat = await fs.stat(targetPath);
+      const rewriteOptions: RewriteOptions = {
+        match: options.match,
+        replace: options.replace,
+        scope: stat.isFile()
+          ? { type: 'file', path: targetPath }
+          : { type: 'directory', path: targetPath, recursive: true },
+        language: options.language,
+        includeFiles: options.include ? options.include.split(',') : undefined,
+        excludeFiles: options.exclude ? options.exclude.split(',') : undefined
+      };
+
+      const rewriteEngine = new RewriteEngine();
+      const formatEdit = (edit: RewriteEdit) => ({
+        file: this.formatFilePath(edit.filePath),
+        line: edit.range.start.line,
+        column: edit.range.start.column,
+        oldText: edit.oldText,
+        newText: edit.newText,
+        bindings: edit.bindings
+      });
+
+      if (options.preview) {
+        const preview = await rewriteEngine.preview(rewriteOptions);
+
+        if (isJsonFormat) {
+          console.log(JSON.stringify({
+            preview: true,
+            affectedFiles: preview.files.length,
+            edits: preview.edits.map(formatEdit),
+            diff: preview.diff
+          }, null, 2));
+        } else if (preview.edits.length === 0) {
+          console.log('📝 沒有找到匹配結果');
+        } else {
+          process.stdout.write(preview.diff);
+          console.log(`\n📊 預計變更: ${preview.files.length} 檔案, ${preview.edits.length} 處`);
+        }
+        return;
+      }
+
+      const journal = new OperationJournal(await this.findProjectRoot(targetPath));
+      const before = await journal.capture(await this.getAllProjectFiles(targetPath));
+      const result = await rewriteEngine.apply(rewriteOptions);
+
+      if (!result.success) {
+        if (isJsonFormat) {
+          console.log(JSON.stringify({ success: false, errors: result.errors ?? ['取代失敗'] }, null, 2));
+        } else {
+          console.error('❌ 取代失敗:');
+          result.errors?.forEach(error => console.error(`   - ${error}`));
+        }
+        process.exitCode = 1;
+        this.exit(1);
+        return;
+      }
+
+      const entry = await this.recordOperation(journal, {
+        type: 'rewrite',
+        description: `rewrite ${options.match} → ${options.replace}`,
+        before
+      });
+
+      if (isJsonFormat) {
+        console.log(JSON.stringify({
+          success: true,
+          affectedFiles: result.affectedFiles.map(file => this.formatFilePath(file)),
+          edits: result.edits.map(formatEdit),
+          operationId: entry?.id ?? null
+        }, null, 2));
+      } else if (result.edits.length === 0) {
+        console.log('📝 沒有找到匹配結果');
+      } else {
+        console.log(`✅ 取代完成: ${result.affectedFiles.length} 檔案, ${result.edits.length} 處`);
+        result.edits.forEach(edit => {
+          console.log(`   ✓ ${this.formatFilePath(edit.filePath)}:${edit.range.start.line}:${edit.range.start.column}`);
+        });
+        this.printUndoHint(entry);
+      }
+    } catch (error) {
+      if (isJsonFormat) {
+        console.log(JSON.stringify({ success: false, error: error instanceof Error ? error.message : String(error) }));
+      } else {
+        console.error('❌ 取代失敗:', error instanceof Error ? error.message : error);
+      }
+      process.exitCode = 1;
+      this.exit(1);
     }
   }
 
@@ -615,7 +897,7 @@ export class AgentIdeCLI {
     if (!fileOption) {
       console.error('❌ 必須指定 --file 或 --path 參數');
       process.exitCode = 1;
-      if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+      this.exit(1);
       return;
     }
 
@@ -635,7 +917,7 @@ export class AgentIdeCLI {
         if (!options.startLine || !options.endLine || !functionNameOption) {
           console.error(`❌ ${action} 缺少必要參數: --start-line, --end-line 和 --function-name (或 --new-name)`);
           process.exitCode = 1;
-          if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+          this.exit(1);
           return;
         }
 
@@ -645,7 +927,7 @@ export class AgentIdeCLI {
         if (startLine > endLine) {
           console.error(`❌ 無效的行號範圍: 起始行號 (${startLine}) 大於結束行號 (${endLine})`);
           process.exitCode = 1;
-          if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+          this.exit(1);
           return;
         }
 
@@ -658,7 +940,7 @@ export class AgentIdeCLI {
         } catch {
           console.error(`❌ 找不到檔案: ${filePath}`);
           process.exitCode = 1;
-          if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+          this.exit(1);
           return;
         }
 
@@ -700,9 +982,17 @@ export class AgentIdeCLI {
             }
 
             if (!options.preview) {
+              const journal = new OperationJournal(await this.findProjectRoot(filePath));
+              const before = await journal.capture([filePath]);
               await fs.writeFile(filePath, result.modifiedCode, 'utf-8');
+              const entry = await this.recordOperation(journal, {
+                type: 'refactor',
+                description: `${action} ${functionNameOption} (${path.basename(filePath)}:${startLine}-${endLine})`,
+                before
+              });
               if (!isJsonFormat) {
                 console.log(`✓ 已更新 ${filePath}`);
+                this.printUndoHint(entry);
               }
             } else {
               if (!isJsonFormat) {
@@ -715,7 +1005,7 @@ export class AgentIdeCLI {
             } else {
               console.error('❌ 重構失敗:', result.errors.join(', '));
             }
-            if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+            this.exit(1);
           }
           return;
         }
@@ -765,6 +1055,11 @@ export class AgentIdeCLI {
           console.log(functionSignature);
 
           if (!options.preview) {
+            const journal = new OperationJournal(await this.findProjectRoot(filePath));
+            const before = await journal.capture(
+              options.targetFile ? [filePath, path.resolve(options.targetFile)] : [filePath]
+            );
+
             // 寫入原始檔案
             await fs.writeFile(filePath, modifiedCode, 'utf-8');
             console.log(`✓ 已更新 ${filePath}`);
@@ -782,6 +1077,13 @@ export class AgentIdeCLI {
                 console.log(`✓ 已加入 import: ${result.importStatement}`);
               }
             }
+
+            const entry = await this.recordOperation(journal, {
+              type: 'refactor',
+              description: `${action} ${result.functionName} (${path.basename(filePath)}:${startLine}-${endLine})`,
+              before
+            });
+            this.printUndoHint(entry);
           } else {
             console.log('\n🔍 預覽模式 - 未寫入檔案');
             console.log(`📊 參數: ${result.parameters.map(p => p.name).join(', ')}`);
@@ -793,24 +1095,595 @@ export class AgentIdeCLI {
         } else {
           console.error('❌ 重構失敗:', result.errors.join(', '));
           process.exitCode = 1;
-          if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+          this.exit(1);
         }
 
+      } else if (action === 'extract-variable' || action === 'extract-constant') {
+        await this.handleExtractVariable(action, filePath, options, functionNameOption);
+      } else if (action === 'inline-variable') {
+        await this.handleInlineVariable(filePath, options);
+      } else if (action === 'change-signature') {
+        await this.handleChangeSignature(filePath, options);
+      } else if (action === 'introduce-parameter-object') {
+        await this.handleIntroduceParameterObject(filePath, options, functionNameOption);
+      } else if (action === 'extract-interface') {
+        await this.handleExtractInterface(filePath, options, functionNameOption);
       } else if (action === 'inline-function') {
         console.error('❌ inline-function 尚未實作');
         process.exitCode = 1;
-        if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+        this.exit(1);
       } else {
         console.error(`❌ 未知的重構操作: ${action}`);
         process.exitCode = 1;
-        if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+        this.exit(1);
       }
 
     } catch (error) {
       console.error('❌ 重構失敗:', error instanceof Error ? error.message : error);
       process.exitCode = 1;
-      if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+      this.exit(1);
+    }
+  }
+
+  /**
+   * 提取變數／常數：未指定欄位時選取起始行第一個非空白字元到結束行行尾（不含結尾的分號與逗號）
+   */
+  private async handleExtractVariable(
+    action: 'extract-variable' | 'extract-constant',
+    filePath: string,
+    options: any,
+    variableName: string | undefined
+  ): Promise<void> {
+    const isJsonFormat = options.format === 'json';
+    const reportError = (message: string): void => {
+      if (isJsonFormat) {
+        console.error(JSON.stringify({ success: false, errors: [message] }));
+      } else {
+        console.error(`❌ ${message}`);
+      }
+      process.exitCode = 1;
+      this.exit(1);
+    };
+
+    if (!options.startLine) {
+      reportError(`${action} 缺少必要參數: --start-line`);
+      return;
+    }
+    if (filePath.endsWith('.swift')) {
+      reportError(`${action} 目前只支援 TypeScript/JavaScript`);
+      return;
+    }
+
+    let code: string;
+    try {
+      code = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      reportError(`找不到檔案: ${filePath}`);
+      return;
+    }
+
+    const lines = code.split('\n');
+    const startLine = parseInt(options.startLine);
+    const endLine = options.endLine ? parseInt(options.endLine) : startLine;
+    if (!(startLine >= 1 && endLine >= startLine && endLine <= lines.length)) {
+      reportError(`無效的行號範圍: ${startLine}-${endLine}`);
+      return;
+    }
+    const startColumn = options.startColumn
+      ? parseInt(options.startColumn) - 1
+      : lines[startLine - 1].search(/\S|$/);
+    const endColumn = options.endColumn
+      ? parseInt(options.endColumn)
+      : lines[endLine - 1].replace(/[\s;,]+$/, '').length;
+
+    const { VariableExtractor } = await import('../../core/refactor/extract-variable.js');
+    const result = new VariableExtractor().extract(
+      code,
+      { start: { line: startLine, column: startColumn }, end: { line: endLine, column: endColumn } },
+      {
+        kind: action === 'extract-constant' ? 'constant' : 'variable',
+        variableName,
+        replaceAll: Boolean(options.all),
+        useLet: Boolean(options.let),
+        fileName: filePath
+      }
+    );
+
+    if (!result.success) {
+      if (isJsonFormat) {
+        console.error(JSON.stringify({ success: false, errors: result.errors }));
+      } else {
+        console.error('❌ 重構失敗:', result.errors.join(', '));
+      }
+      process.exitCode = 1;
+      this.exit(1);
+      return;
+    }
+
+    // edits 已由後往前排序
+    const modifiedCode = result.edits.reduce((current, edit) => this.applyEditCorrectly(current, edit), code);
+    const displayPath = path.relative(process.cwd(), filePath) || path.basename(filePath);
+    const diff = createUnifiedDiff(`a/${displayPath}`, `b/${displayPath}`, code, modifiedCode);
+
+    let entry: JournalEntry | null = null;
+    if (!options.preview) {
+      const journal = new OperationJournal(await this.findProjectRoot(filePath));
+      const before = await journal.capture([filePath]);
+      await fs.writeFile(filePath, modifiedCode, 'utf-8');
+      entry = await this.recordOperation(journal, {
+        type: 'refactor',
+        description: `${action} ${result.variableName} (${path.basename(filePath)}:${startLine})`,
+        before
+      });
+    }
+
+    if (isJsonFormat) {
+      console.log(JSON.stringify({
+        success: true,
+        preview: Boolean(options.preview),
+        variableName: result.variableName,
+        declaration: result.declaration,
+        occurrences: result.occurrences,
+        edits: result.edits,
+        warnings: result.warnings,
+        diff
+      }, null, 2));
+      return;
+    }
+
+    console.log('✅ 重構完成');
+    console.log(`📝 提取的${action === 'extract-constant' ? '常數' : '變數'}: ${result.declaration}`);
+    if (result.occurrences.length > 1) {
+      console.log(`🔁 已取代 ${result.occurrences.length} 處相同的運算式`);
+    }
+    result.warnings.forEach(warning => console.log(`⚠️  ${warning}`));
+
+    if (options.preview) {
+      console.log('\n🔍 預覽模式 - 未寫入檔案');
+      process.stdout.write(diff);
+    } else {
+      console.log(`✓ 已更新 ${filePath}`);
+      this.printUndoHint(entry);
+    }
+  }
+
+  /**
+   * 內聯變數：以初始值取代所有讀取並移除宣告
+   */
+  private async handleInlineVariable(filePath: string, options: any): Promise<void> {
+    const isJsonFormat = options.format === 'json';
+    const reportError = (message: string): void => {
+      if (isJsonFormat) {
+        console.error(JSON.stringify({ success: false, errors: [message] }));
+      } else {
+        console.error(`❌ ${message}`);
+      }
+      process.exitCode = 1;
+      this.exit(1);
+    };
+
+    if (!options.line || !options.column) {
+      reportError('inline-variable 缺少必要參數: --line 和 --column');
+      return;
+    }
+    if (filePath.endsWith('.swift')) {
+      reportError('inline-variable 目前只支援 TypeScript/JavaScript');
+      return;
+    }
+
+    let code: string;
+    try {
+      code = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      reportError(`找不到檔案: ${filePath}`);
+      return;
+    }
+
+    const line = parseInt(options.line);
+    const { VariableInliner } = await import('../../core/refactor/inline-variable.js');
+    const result = new VariableInliner().inline(
+      code,
+      { line, column: parseInt(options.column) - 1 },
+      { fileName: filePath }
+    );
+
+    if (!result.success) {
+      if (isJsonFormat) {
+        console.error(JSON.stringify({ success: false, variableName: result.variableName, errors: result.errors }));
+      } else {
+        console.error(`❌ 無法內聯 ${result.variableName || '變數'}:`, result.errors.join(', '));
+      }
+      process.exitCode = 1;
+      this.exit(1);
+      return;
+    }
+
+    // edits 已由後往前排序
+    const modifiedCode = result.edits.reduce((current, edit) => this.applyEditCorrectly(current, edit), code);
+    const displayPath = path.relative(process.cwd(), filePath) || path.basename(filePath);
+    const diff = createUnifiedDiff(`a/${displayPath}`, `b/${displayPath}`, code, modifiedCode);
+
+    let entry: JournalEntry | null = null;
+    if (!options.preview) {
+      const journal = new OperationJournal(await this.findProjectRoot(filePath));
+      const before = await journal.capture([filePath]);
+      await fs.writeFile(filePath, modifiedCode, 'utf-8');
+      entry = await this.recordOperation(journal, {
+        type: 'refactor',
+        description: `inline-variable ${result.variableName} (${path.basename(filePath)}:${line})`,
+        before
+      });
+    }
+
+    if (isJsonFormat) {
+      console.log(JSON.stringify({
+        success: true,
+        preview: Boolean(options.preview),
+        variableName: result.variableName,
+        initializer: result.initializer,
+        inlinedReferences: result.inlinedReferencesCount,
+        edits: result.edits,
+        warnings: result.warnings,
+        diff
+      }, null, 2));
+      return;
+    }
+
+    console.log('✅ 重構完成');
+    console.log(`📝 內聯的變數: ${result.variableName} = ${result.initializer}`);
+    console.log(`🔁 已取代 ${result.inlinedReferencesCount} 處引用並移除宣告`);
+    result.warnings.forEach(warning => console.log(`⚠️  ${warning}`));
+
+    if (options.preview) {
+      console.log('\n🔍 預覽模式 - 未寫入檔案');
+      process.stdout.write(diff);
+    } else {
+      console.log(`✓ 已更新 ${filePath}`);
+      this.printUndoHint(entry);
+    }
+  }
+
+  /**
+   * 變更函式簽名：重寫宣告（含介面與覆寫方法）並更新專案內所有呼叫處
+   */
+  private async handleChangeSignature(filePath: string, options: any): Promise<void> {
+    const isJsonFormat = options.format === 'json';
+    const reportError = (message: string): void => {
+      if (isJsonFormat) {
+        console.error(JSON.stringify({ success: false, errors: [message] }));
+      } else {
+        console.error(`❌ ${message}`);
+      }
+      process.exitCode = 1;
+      this.exit(1);
+    };
+
+    if (!options.function || options.params === undefined) {
+      reportError('change-signature 缺少必要參數: --function 和 --params');
+      return;
+    }
+    if (!/\.[cm]?[jt]sx?$/.test(filePath)) {
+      reportError('change-signature 目前只支援 TypeScript/JavaScript');
+      return;
+    }
+    if (!await this.fileExists(filePath)) {
+      reportError(`找不到檔案: ${filePath}`);
+      return;
+    }
+
+    const projectRoot = await this.findProjectRoot(filePath);
+    const files = await this.readProjectSources(projectRoot, filePath);
+
+    const { SignatureChanger } = await import('../../core/refactor/change-signature.js');
+    const parser = new TypeScriptParser();
+    let result;
+    try {
+      result = await new SignatureChanger(parser).change({
+        filePath,
+        functionName: options.function,
+        params: options.params,
+        files
+      });
+    } finally {
+      await parser.dispose();
+    }
+
+    if (!result.success) {
+      if (isJsonFormat) {
+        console.error(JSON.stringify({ success: false, errors: result.errors }));
+      } else {
+        console.error(`❌ 無法變更 ${options.function} 的簽名:`, result.errors.join(', '));
+      }
+      process.exitCode = 1;
+      this.exit(1);
+      return;
+    }
+
+    const { changes, diff, entry } = await this.applyFileEdits(
+      projectRoot,
+      files,
+      result.files,
+      options.preview ? undefined : `change-signature ${result.signature} (${path.basename(filePath)})`
+    );
+
+    if (isJsonFormat) {
+      console.log(JSON.stringify({
+        success: true,
+        preview: Boolean(options.preview),
+        signature: result.signature,
+        updatedDeclarations: result.updatedDeclarations,
+        updatedCalls: result.updatedCalls,
+        files: result.files,
+        warnings: result.warnings,
+        diff
+      }, null, 2));
+      return;
+    }
+
+    console.log('✅ 重構完成');
+    console.log(`📝 新簽名: ${result.signature}`);
+    console.log(`🔁 已更新 ${result.updatedDeclarations} 個宣告、${result.updatedCalls} 處呼叫（${changes.length} 個檔案）`);
+    result.warnings.forEach(warning => console.log(`⚠️  ${warning}`));
+
+    if (options.preview) {
+      console.log('\n🔍 預覽模式 - 未寫入檔案');
+      process.stdout.write(diff);
+    } else {
+      changes.forEach(change => console.log(`✓ 已更新 ${this.formatFilePath(change.filePath)}`));
+      this.printUndoHint(entry);
+    }
+  }
+
+  /**
+   * 引入參數物件：以介面型別的物件取代多個參數，並更新專案內所有宣告與呼叫處
+   */
+  private async handleIntroduceParameterObject(filePath: string, options: any, interfaceName: string | undefined): Promise<void> {
+    const isJsonFormat = options.format === 'json';
+    const reportError = (message: string): void => {
+      if (isJsonFormat) {
+        console.error(JSON.stringify({ success: false, errors: [message] }));
+      } else {
+        console.error(`❌ ${message}`);
+      }
+      process.exitCode = 1;
+      this.exit(1);
+    };
+
+    if (!options.function) {
+      reportError('introduce-parameter-object 缺少必要參數: --function');
+      return;
+    }
+    if (!/\.[cm]?tsx?$/.test(filePath)) {
+      reportError('introduce-parameter-object 目前只支援 TypeScript');
+      return;
+    }
+    if (!await this.fileExists(filePath)) {
+      reportError(`找不到檔案: ${filePath}`);
+      return;
+    }
+
+    const projectRoot = await this.findProjectRoot(filePath);
+    const files = await this.readProjectSources(projectRoot, filePath);
+
+    const { ParameterObjectIntroducer } = await import('../../core/refactor/introduce-parameter-object.js');
+    const parser = new TypeScriptParser();
+    let result;
+    try {
+      result = await new ParameterObjectIntroducer(parser).introduce({
+        filePath,
+        functionName: options.function,
+        parameters: options.params?.split(',').map((name: string) => name.trim()).filter(Boolean),
+        interfaceName,
+        files
+      });
+    } finally {
+      await parser.dispose();
+    }
+
+    if (!result.success) {
+      if (isJsonFormat) {
+        console.error(JSON.stringify({ success: false, errors: result.errors }));
+      } else {
+        console.error(`❌ 無法為 ${options.function} 引入參數物件:`, result.errors.join(', '));
+      }
+      process.exitCode = 1;
+      this.exit(1);
+      return;
+    }
+
+    const { changes, diff, entry } = await this.applyFileEdits(
+      projectRoot,
+      files,
+      result.files,
+      options.preview ? undefined : `introduce-parameter-object ${options.function} → ${result.interfaceName} (${path.basename(filePath)})`
+    );
+
+    if (isJsonFormat) {
+      console.log(JSON.stringify({
+        success: true,
+        preview: Boolean(options.preview),
+        interfaceName: result.interfaceName,
+        interfaceDeclaration: result.interfaceDeclaration,
+        parameters: result.parameters,
+        updatedDeclarations: result.updatedDeclarations,
+        updatedCalls: result.updatedCalls,
+        files: result.files,
+        warnings: result.warnings,
+        diff
+      }, null, 2));
+      return;
+    }
+
+    console.log('✅ 重構完成');
+    console.log(`📝 參數物件: ${result.interfaceName} { ${result.parameters.join(', ')} }`);
+    console.log(`🔁 已更新 ${result.updatedDeclarations} 個宣告、${result.updatedCalls} 處呼叫（${changes.length} 個檔案）`);
+    result.warnings.forEach(warning => console.log(`⚠️  ${warning}`));
+
+    if (options.preview) {
+      console.log('\n🔍 預覽模式 - 未寫入檔案');
+      process.stdout.write(diff);
+    } else {
+      changes.forEach(change => console.log(`✓ 已更新 ${this.formatFilePath(change.filePath)}`));
+      this.printUndoHint(entry);
+    }
+  }
+
+  /**
+   * 提取介面：由類別的公開成員產生介面並讓類別實作它；Swift 檔案產生 protocol 與遵循宣告
+   */
+  private async handleExtractInterface(filePath: string, options: any, interfaceName: string | undefined): Promise<void> {
+    const isJsonFormat = options.format === 'json';
+    const reportError = (message: string): void => {
+      if (isJsonFormat) {
+        console.error(JSON.stringify({ success: false, errors: [message] }));
+      } else {
+        console.error(`❌ ${message}`);
+      }
+      process.exitCode = 1;
+      this.exit(1);
+    };
+
+    if (!options.class) {
+      reportError('extract-interface 缺少必要參數: --class');
+      return;
+    }
+    const isSwift = filePath.endsWith('.swift');
+    if (!isSwift && !/\.[cm]?tsx?$/.test(filePath)) {
+      reportError('extract-interface 目前只支援 TypeScript 與 Swift');
+      return;
+    }
+    if (!await this.fileExists(filePath)) {
+      reportError(`找不到檔案: ${filePath}`);
+      return;
+    }
+
+    const projectRoot = await this.findProjectRoot(filePath);
+    const files = await this.readProjectSources(projectRoot, filePath, isSwift ? /\.swift$/ : undefined);
+
+    let result;
+    if (isSwift) {
+      const { SwiftProtocolExtractor } = await import('../../plugins/swift/protocol-extractor.js');
+      const parser = new SwiftParser(path.resolve(__dirname, '../../plugins/swift/swift-bridge/swift-parser'));
+      try {
+        const swiftResult = await new SwiftProtocolExtractor(parser).extract({
+          filePath,
+          typeName: options.class,
+          protocolName: interfaceName,
+          replaceUsages: Boolean(options.replaceUsages),
+          files
+        });
+        result = { ...swiftResult, interfaceName: swiftResult.protocolName, interfaceDeclaration: swiftResult.protocolDeclaration };
+      } finally {
+        await parser.dispose();
+      }
+    } else {
+      const { InterfaceExtractor } = await import('../../core/refactor/extract-interface.js');
+      const parser = new TypeScriptParser();
+      try {
+        result = await new InterfaceExtractor(parser).extract({
+          filePath,
+          className: options.class,
+          interfaceName,
+          replaceUsages: Boolean(options.replaceUsages),
+          files
+        });
+      } finally {
+        await parser.dispose();
+      }
+    }
+
+    if (!result.success) {
+      if (isJsonFormat) {
+        console.error(JSON.stringify({ success: false, errors: result.errors }));
+      } else {
+        console.error(`❌ 無法從 ${options.class} 提取介面:`, result.errors.join(', '));
+      }
+      process.exitCode = 1;
+      this.exit(1);
+      return;
+    }
+
+    const { changes, diff, entry } = await this.applyFileEdits(
+      projectRoot,
+      files,
+      result.files,
+      options.preview ? undefined : `extract-interface ${options.class} → ${result.interfaceName} (${path.basename(filePath)})`
+    );
+
+    if (isJsonFormat) {
+      console.log(JSON.stringify({
+        success: true,
+        preview: Boolean(options.preview),
+        interfaceName: result.interfaceName,
+        interfaceDeclaration: result.interfaceDeclaration,
+        members: result.members,
+        replacedUsages: result.replacedUsages,
+        files: result.files,
+        warnings: result.warnings,
+        diff
+      }, null, 2));
+      return;
+    }
+
+    console.log('✅ 重構完成');
+    console.log(`📝 ${isSwift ? '協定' : '介面'}: ${result.interfaceName}（${result.members.length} 個成員: ${result.members.join(', ')}）`);
+    if (options.replaceUsages) {
+      console.log(`🔁 已替換 ${result.replacedUsages} 處型別註記（${changes.length} 個檔案）`);
+    }
+    result.warnings.forEach(warning => console.log(`⚠️  ${warning}`));
+
+    if (options.preview) {
+      console.log('\n🔍 預覽模式 - 未寫入檔案');
+      process.stdout.write(diff);
+    } else {
+      changes.forEach(change => console.log(`✓ 已更新 ${this.formatFilePath(change.filePath)}`));
+      this.printUndoHint(entry);
+    }
+  }
+
+  /**
+   * 讀取專案內的原始檔，預設為 TypeScript/JavaScript（不含 .d.ts），確保包含指定的檔案
+   */
+  private async readProjectSources(
+    projectRoot: string,
+    filePath: string,
+    pattern: RegExp = /\.[cm]?[jt]sx?$/
+  ): Promise<Array<{ filePath: string; content: string }>> {
+    const sourcePaths = (await this.getAllProjectFiles(projectRoot)).filter(file => pattern.test(file) && !file.endsWith('.d.ts'));
+    if (!sourcePaths.includes(filePath)) {
+      sourcePaths.push(filePath);
+    }
+    return Promise.all(sourcePaths.map(async file => ({ filePath: file, content: await fs.readFile(file, 'utf-8') })));
+  }
+
+  /**
+   * 套用多個檔案的編輯（edits 已由後往前排序）並產生 diff；有 description 時寫入檔案並記錄操作歷史
+   */
+  private async applyFileEdits(
+    projectRoot: string,
+    files: ReadonlyArray<{ filePath: string; content: string }>,
+    fileEdits: ReadonlyArray<{ filePath: string; edits: CodeEdit[] }>,
+    description: string | undefined
+  ): Promise<{ changes: Array<{ filePath: string; modified: string }>; diff: string; entry: JournalEntry | null }> {
+    const contents = new Map(files.map(file => [file.filePath, file.content]));
+    const changes = fileEdits.map(file => {
+      const original = contents.get(file.filePath)!;
+      const modified = file.edits.reduce((current, edit) => this.applyEditCorrectly(current, edit), original);
+      const displayPath = path.relative(process.cwd(), file.filePath) || path.basename(file.filePath);
+      return { filePath: file.filePath, modified, diff: createUnifiedDiff(`a/${displayPath}`, `b/${displayPath}`, original, modified) };
+    });
+    const diff = changes.map(change => change.diff).join('');
+
+    let entry: JournalEntry | null = null;
+    if (description && changes.length > 0) {
+      const journal = new OperationJournal(projectRoot);
+      const before = await journal.capture(changes.map(change => change.filePath));
+      for (const change of changes) {
+        await fs.writeFile(change.filePath, change.modified, 'utf-8');
+      }
+      entry = await this.recordOperation(journal, { type: 'refactor', description, before });
     }
+    return { changes, diff, entry };
   }
 
   private async handleMoveCommand(source: string, target: string, options: any): Promise<void> {
@@ -834,7 +1707,7 @@ export class AgentIdeCLI {
           console.log(`❌ 移動失敗: ${errorMsg}`);
         }
         process.exitCode = 1;
-        if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+        this.exit(1);
         return;
       }
 
@@ -874,20 +1747,45 @@ export class AgentIdeCLI {
         updateImports: options.updateImports
       };
 
+      // 記錄移動前的狀態：專案內可能被更新 import 的檔案，以及被移動的所有檔案
+      const journalRoot = await this.findProjectRoot(normalizedSource);
+
       const moveOptions = {
         preview: options.preview,
-        projectRoot: process.cwd()
+        projectRoot: process.cwd(),
+        dependencyRoot: journalRoot
       };
+      const journal = new OperationJournal(journalRoot);
+      let before = new Map<string, string | null>();
+      let createdFiles: string[] = [];
+      if (!options.preview) {
+        const movedFiles = await this.listFilesRecursively(normalizedSource);
+        before = await journal.capture([...await this.getAllProjectFiles(journalRoot), ...movedFiles]);
+        createdFiles = movedFiles.map(file =>
+          path.join(normalizedTarget, path.relative(normalizedSource, file))
+        );
+      }
 
       // 執行移動操作
       const result = await this.moveService.moveFile(moveOperation, moveOptions);
 
       if (result.success) {
+        const entry = result.moved
+          ? await this.recordOperation(journal, {
+            type: 'move',
+            description: `move ${path.relative(journalRoot, normalizedSource)} → ${path.relative(journalRoot, normalizedTarget)}`,
+            before,
+            createdFiles
+          })
+          : null;
+
         if (isJsonFormat) {
           console.log(JSON.stringify({
             moved: result.moved,
             affectedFiles: result.pathUpdates.length,
-            pathUpdates: result.pathUpdates
+            pathUpdates: result.pathUpdates,
+            ...(result.warnings && { warnings: result.warnings }),
+            ...(result.moved && { operationId: entry?.id ?? null })
           }, null, 2));
         } else {
           if (options.preview) {
@@ -916,6 +1814,10 @@ export class AgentIdeCLI {
               });
             }
           }
+          for (const warning of result.warnings ?? []) {
+            console.log(`⚠️  ${warning}`);
+          }
+          this.printUndoHint(entry);
         }
       } else {
         if (isJsonFormat) {
@@ -927,7 +1829,7 @@ export class AgentIdeCLI {
           console.error('❌ 移動失敗:', result.error);
         }
         process.exitCode = 1;
-        if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+        this.exit(1);
       }
 
     } catch (error) {
@@ -941,7 +1843,220 @@ export class AgentIdeCLI {
         console.error('❌ 移動失敗:', errorMsg);
       }
       process.exitCode = 1;
-      if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+      this.exit(1);
+    }
+  }
+
+  private async handleMoveSymbolCommand(options: any): Promise<void> {
+    const isJsonFormat = options.format === 'json';
+    const basePath = path.resolve(options.path || process.cwd());
+    const source = path.resolve(basePath, options.from);
+    const target = path.resolve(basePath, options.to);
+
+    try {
+      const projectRoot = options.path ? basePath : await this.findProjectRoot(source);
+      const symbolMoveService = new SymbolMoveService({
+        pathAliases: await this.loadPathAliases(projectRoot),
+        supportedExtensions: ['.ts', '.tsx', '.js', '.jsx']
+      });
+      const operation = { symbol: options.symbol, source, target };
+
+      if (options.preview) {
+        const preview = await symbolMoveService.preview(operation, { projectRoot });
+
+        if (isJsonFormat) {
+          console.log(JSON.stringify(preview, null, 2));
+          return;
+        }
+
+        console.log(`🔍 預覽移動 ${options.symbol}: ${path.relative(process.cwd(), source)} → ${path.relative(process.cwd(), target)}`);
+        console.log(`   移動的宣告: ${preview.movedDeclarations.join(', ')}`);
+        console.log(`📊 統計: ${preview.impact.filesAffected} 個檔案，${preview.impact.importsToUpdate} 個 import 需要更新`);
+        this.printImportUpdates(preview.importUpdates);
+        preview.conflicts.forEach(conflict => console.log(`❌ 衝突: ${conflict.description}`));
+        preview.warnings.forEach(warning => console.log(`⚠️  ${warning}`));
+        return;
+      }
+
+      const journal = new OperationJournal(projectRoot);
+      const before = await journal.capture([...await this.getAllProjectFiles(projectRoot), source, target]);
+      const result = await symbolMoveService.moveSymbol(operation, { projectRoot });
+
+      if (!result.success) {
+        if (isJsonFormat) {
+          console.log(JSON.stringify({ success: false, error: result.error }, null, 2));
+        } else {
+          console.error('❌ 移動失敗:', result.error);
+        }
+        process.exitCode = 1;
+        this.exit(1);
+        return;
+      }
+
+      const entry = await this.recordOperation(journal, {
+        type: 'move',
+        description: `move-symbol ${options.symbol} ${path.relative(projectRoot, source)} → ${path.relative(projectRoot, target)}`,
+        before,
+        createdFiles: [target]
+      });
+
+      if (isJsonFormat) {
+        console.log(JSON.stringify({
+          success: true,
+          symbol: result.symbol,
+          movedDeclarations: result.movedDeclarations,
+          changedFiles: result.changedFiles,
+          importUpdates: result.importUpdates,
+          warnings: result.warnings,
+          operationId: entry?.id ?? null
+        }, null, 2));
+      } else {
+        console.log(`✅ 已移動 ${result.movedDeclarations.join(', ')} → ${path.relative(process.cwd(), target)}`);
+        console.log(`📊 統計: ${result.changedFiles.length} 個檔案，${result.importUpdates.length} 個 import 已更新`);
+        this.printImportUpdates(result.importUpdates);
+        result.warnings.forEach(warning => console.log(`⚠️  ${warning}`));
+        this.printUndoHint(entry);
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      if (isJsonFormat) {
+        console.log(JSON.stringify({ success: false, error: errorMsg }, null, 2));
+      } else {
+        console.error('❌ 移動失敗:', errorMsg);
+      }
+      process.exitCode = 1;
+      this.exit(1);
+    }
+  }
+
+  private printImportUpdates(updates: ReadonlyArray<{ filePath: string; line: number; oldImport: string; newImport: string }>): void {
+    if (updates.length === 0) {
+      return;
+    }
+
+    console.log('📝 影響的檔案:');
+    for (const update of updates) {
+      console.log(`   📄 ${path.relative(process.cwd(), update.filePath)}:${update.line}`);
+      if (update.oldImport) {
+        console.log(`      - ${update.oldImport.split('\n').join('\n        ')}`);
+      }
+      if (update.newImport) {
+        console.log(`      + ${update.newImport.split('\n').join('\n        ')}`);
+      }
+    }
+  }
+
+  private async handleUndoCommand(id: string | undefined, options: any): Promise<void> {
+    const isJsonFormat = options.format === 'json';
+
+    try {
+      const journal = new OperationJournal(await this.findProjectRoot(path.resolve(options.path)));
+      const entry = await journal.undo(id);
+
+      if (isJsonFormat) {
+        console.log(JSON.stringify({ success: true, operation: this.formatJournalEntry(entry) }, null, 2));
+      } else {
+        console.log(`↩️  已復原操作 #${entry.id}: ${entry.description}`);
+        entry.files.forEach(file => console.log(`   ✓ ${file.path}`));
+      }
+    } catch (error) {
+      this.reportHistoryError('復原失敗', error, isJsonFormat);
+    }
+  }
+
+  private async handleRedoCommand(options: any): Promise<void> {
+    const isJsonFormat = options.format === 'json';
+
+    try {
+      const journal = new OperationJournal(await this.findProjectRoot(path.resolve(options.path)));
+      const entry = await journal.redo();
+
+      if (isJsonFormat) {
+        console.log(JSON.stringify({ success: true, operation: this.formatJournalEntry(entry) }, null, 2));
+      } else {
+        console.log(`↪️  已重做操作 #${entry.id}: ${entry.description}`);
+        entry.files.forEach(file => console.log(`   ✓ ${file.path}`));
+      }
+    } catch (error) {
+      this.reportHistoryError('重做失敗', error, isJsonFormat);
+    }
+  }
+
+  private async handleHistoryCommand(options: any): Promise<void> {
+    const isJsonFormat = options.format === 'json';
+
+    try {
+      const journal = new OperationJournal(await this.findProjectRoot(path.resolve(options.path)));
+      const entries = (await journal.list()).slice(0, parseInt(options.limit) || 20);
+
+      if (isJsonFormat) {
+        console.log(JSON.stringify({ operations: entries.map(entry => this.formatJournalEntry(entry)) }, null, 2));
+        return;
+      }
+
+      if (entries.length === 0) {
+        console.log('📜 沒有操作歷史');
+        return;
+      }
+
+      console.log(`📜 操作歷史 (${entries.length})`);
+      for (const entry of entries) {
+        const time = new Date(entry.timestamp).toLocaleString();
+        const status = entry.status === 'undone' ? ' [已復原]' : '';
+        console.log(`   #${entry.id}  ${time}  ${entry.type.padEnd(8)} ${entry.description} (${entry.files.length} 檔案)${status}`);
+      }
+    } catch (error) {
+      this.reportHistoryError('讀取操作歷史失敗', error, isJsonFormat);
+    }
+  }
+
+  private formatJournalEntry(entry: JournalEntry): Record<string, unknown> {
+    return {
+      id: entry.id,
+      type: entry.type,
+      description: entry.description,
+      timestamp: entry.timestamp,
+      status: entry.status,
+      files: entry.files.map(file => file.path)
+    };
+  }
+
+  private reportHistoryError(label: string, error: unknown, isJsonFormat: boolean): void {
+    const message = error instanceof Error ? error.message : String(error);
+    const code = error instanceof HistoryError ? error.code : undefined;
+
+    if (isJsonFormat) {
+      console.log(JSON.stringify({
+        success: false,
+        error: message,
+        ...(code && { code }),
+        ...(error instanceof HistoryError && error.changedFiles.length > 0 && { changedFiles: error.changedFiles })
+      }, null, 2));
+    } else {
+      console.error(`❌ ${label}: ${message}`);
+      if (code === HistoryErrorCode.FILES_CHANGED) {
+        console.error('   請先還原這些檔案的修改，或使用 agent-ide history 確認操作順序');
+      }
+    }
+    process.exitCode = 1;
+    this.exit(1);
+  }
+
+  /**
+   * 將操作寫入歷史記錄，寫入失敗時只顯示警告，不影響已完成的操作
+   */
+  private async recordOperation(journal: OperationJournal, input: RecordOperationInput): Promise<JournalEntry | null> {
+    try {
+      return await journal.record(input);
+    } catch (error) {
+      console.warn(`⚠️  無法寫入操作歷史: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+
+  private printUndoHint(entry: JournalEntry | null): void {
+    if (entry) {
+      console.log(`↩️  可使用 agent-ide undo ${entry.id} 復原此操作`);
     }
   }
 
@@ -1007,9 +2122,7 @@ export class AgentIdeCLI {
         console.error('❌ 搜尋失敗:', error instanceof Error ? error.message : error);
       }
       // 測試環境不 exit
-      if (process.env.NODE_ENV !== 'test') {
-        if (process.env.NODE_ENV !== 'test') { process.exit(1); }
-      }
+      this.exit(1);
     }
   }
 
@@ -1142,7 +2255,7 @@ export class AgentIdeCLI {
     if (!query) {
       console.error('❌ 文字搜尋需要指定 --query 參數');
       console.error('   使用方式: agent-ide search text --query <text>');
-      if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+      this.exit(1);
       return;
     }
 
@@ -1160,7 +2273,7 @@ export class AgentIdeCLI {
     if (!type) {
       console.error('❌ 結構化搜尋需要指定 --type 參數');
       console.error('   使用方式: agent-ide search structural --type <class|protocol|function|...> [--pattern <pattern>]');
-      if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+      this.exit(1);
       return;
     }
 
@@ -1174,20 +2287,16 @@ export class AgentIdeCLI {
       const searchPath = path.resolve(options.path || process.cwd());
 
       // 初始化索引引擎
-      const config = createIndexConfig(searchPath, {
-        includeExtensions: ['.ts', '.tsx', '.js', '.jsx', '.swift'],
-        excludePatterns: ['node_modules/**', '*.test.*', 'dist/**']
-      });
-      this.indexEngine = new IndexEngine(config);
-
-      // 建立索引
       if (!isMinimalOrJson) {
         console.log('📝 正在建立索引...');
       }
-      await this.indexEngine.indexProject(searchPath);
+      const indexEngine = await this.getIndexEngine(searchPath, {
+        includeExtensions: ['.ts', '.tsx', '.js', '.jsx', '.swift'],
+        excludePatterns: ['node_modules/**', '*.test.*', 'dist/**']
+      });
 
       // 獲取所有符號
-      const allSymbols = await this.indexEngine.getAllSymbols();
+      const allSymbols = await indexEngine.getAllSymbols();
 
       // 過濾符號
       let filteredSymbols = allSymbols.filter(symbolResult => {
@@ -1282,7 +2391,194 @@ export class AgentIdeCLI {
       } else {
         console.error('❌ 結構化搜尋失敗:', error instanceof Error ? error.message : error);
       }
-      if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+      this.exit(1);
+    }
+  }
+
+  /**
+   * 處理語義搜尋命令
+   */
+  private async handleSemanticSearchCommand(query: string, options: any): Promise<void> {
+    const isMinimalOrJson = options.format === 'minimal' || options.format === 'json';
+
+    if (!isMinimalOrJson) {
+      console.log(`🔍 語義搜尋: "${query}"`);
+    }
+
+    try {
+      const searchOptions = this.buildSearchOptions(options);
+      const stat = await fs.stat(searchOptions.scope.path);
+      const workspacePath = stat.isFile() ? path.dirname(searchOptions.scope.path) : searchOptions.scope.path;
+
+      // 語義索引建立成本高，與符號索引一起寫回供下次查詢載入
+      const indexEngine = await this.getIndexEngine(workspacePath, {
+        includeExtensions: ['.ts', '.tsx', '.js', '.jsx', '.swift'],
+        excludePatterns: ['node_modules/**', '*.test.*', 'dist/**'],
+        persistChanges: true
+      });
+
+      if (!this.searchService) {
+        this.searchService = new SearchService();
+      }
+      this.searchService.setIndexEngine(indexEngine);
+
+      const result = await this.searchService.searchSemantic(query, { workingDirectory: workspacePath }, {
+        ...searchOptions,
+        scope: stat.isFile() ? { type: 'file', path: searchOptions.scope.path } : searchOptions.scope
+      });
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify({
+          results: result.matches.map((match, index) => ({
+            name: result.relatedSymbols[index]?.name,
+            type: result.relatedSymbols[index]?.type,
+            file: this.formatFilePath(match.file),
+            line: match.line,
+            column: match.column,
+            content: match.content.trim(),
+            score: Number(match.score.toFixed(3))
+          })),
+          suggestions: result.suggestions,
+          confidence: Number(result.confidence.toFixed(3)),
+          totalCount: result.totalCount
+        }, null, 2));
+        return;
+      }
+
+      if (result.matches.length === 0) {
+        if (!isMinimalOrJson) {
+          console.log('📝 沒有找到匹配結果');
+        }
+        return;
+      }
+
+      if (options.format === 'minimal') {
+        result.matches.forEach(match => {
+          console.log(`${this.formatFilePath(match.file)}:${match.line}:${match.column}:${match.content.trim()}`);
+        });
+        return;
+      }
+
+      console.log(`✅ 找到 ${result.totalCount} 個相關符號 (信心度 ${Math.round(result.confidence * 100)}%)`);
+      result.matches.forEach((match, index) => {
+        const symbol = result.relatedSymbols[index];
+        console.log(`\n${index + 1}. ${symbol ? `${symbol.name} (${symbol.type})` : match.content.trim()}  [${match.score.toFixed(2)}]`);
+        console.log(`   ${this.formatFilePath(match.file)}:${match.line}:${match.column}`);
+      });
+      if (result.suggestions.length > 0) {
+        console.log(`\n💡 相關詞彙: ${result.suggestions.join(', ')}`);
+      }
+    } catch (error) {
+      if (options.format === 'json') {
+        console.log(JSON.stringify({ results: [], error: error instanceof Error ? error.message : String(error) }));
+      } else {
+        console.error('❌ 搜尋失敗:', error instanceof Error ? error.message : error);
+      }
+      process.exitCode = 1;
+      this.exit(1);
+    }
+  }
+
+  /**
+   * 處理程式碼模板搜尋命令
+   */
+  private async handlePatternSearchCommand(template: string | undefined, options: any): Promise<void> {
+    if (!template || template.trim() === '') {
+      console.error('❌ 模式搜尋需要提供程式碼模板');
+      console.error('   使用方式: agent-ide search pattern \'await $CALL($$$ARGS)\'');
+      process.exitCode = 1;
+      this.exit(1);
+      return;
+    }
+
+    const isMinimalOrJson = options.format === 'minimal' || options.format === 'json';
+
+    if (!isMinimalOrJson) {
+      console.log(`🔍 模式搜尋: "${template}"`);
+    }
+
+    try {
+      if (!this.searchService) {
+        this.searchService = new SearchService();
+      }
+
+      const searchOptions = this.buildSearchOptions(options);
+      const stat = await fs.stat(searchOptions.scope.path);
+      const scope = stat.isFile()
+        ? { type: 'file' as const, path: searchOptions.scope.path }
+        : searchOptions.scope;
+
+      const result = await this.searchService.searchByPattern({
+        type: 'pattern',
+        query: template,
+        pattern: { type: 'template', pattern: template },
+        options: { ...searchOptions, scope }
+      });
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify({
+          results: result.nodes.map(match => ({
+            file: this.formatFilePath(match.file),
+            line: match.line,
+            column: match.column,
+            content: match.content,
+            bindings: Object.fromEntries(
+              Object.entries(match.bindings).map(([name, binding]) => [name, binding.text])
+            ),
+            nodePath: match.nodePath
+          })),
+          totalCount: result.totalCount,
+          truncated: result.truncated
+        }, null, 2));
+        return;
+      }
+
+      if (result.nodes.length === 0) {
+        if (!isMinimalOrJson) {
+          console.log('📝 沒有找到匹配結果');
+        }
+        return;
+      }
+
+      if (options.format === 'minimal') {
+        result.nodes.forEach(match => {
+          const firstLine = match.content.split('\n')[0];
+          console.log(`${this.formatFilePath(match.file)}:${match.line}:${match.column}:${firstLine}`);
+        });
+        return;
+      }
+
+      console.log(`✅ 找到 ${result.nodes.length} 個結果 (${result.searchTime}ms)`);
+      if (result.truncated) {
+        console.log(`⚠️  結果已截斷，顯示前 ${options.limit} 個結果`);
+      }
+
+      if (options.format === 'summary') {
+        const byFile = new Map<string, number>();
+        result.nodes.forEach(match => byFile.set(match.file, (byFile.get(match.file) ?? 0) + 1));
+        for (const [file, count] of byFile) {
+          console.log(`   ${this.formatFilePath(file)}: ${count} 個匹配`);
+        }
+        return;
+      }
+
+      result.nodes.forEach((match, index) => {
+        console.log(`\n${index + 1}. ${this.formatFilePath(match.file)}:${match.line}:${match.column}`);
+        match.content.split('\n').forEach(line => console.log(`   ${line}`));
+        for (const [name, binding] of Object.entries(match.bindings)) {
+          console.log(`   $${name} = ${binding.text}`);
+        }
+      });
+    } catch (error) {
+      if (options.format === 'json') {
+        console.log(JSON.stringify({ results: [], error: error instanceof Error ? error.message : String(error) }));
+      } else if (options.format === 'minimal') {
+        console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      } else {
+        console.error('❌ 搜尋失敗:', error instanceof Error ? error.message : error);
+      }
+      process.exitCode = 1;
+      this.exit(1);
     }
   }
 
@@ -1295,7 +2591,7 @@ export class AgentIdeCLI {
     if (!symbolName) {
       console.error('❌ 符號搜尋需要指定 --query 參數');
       console.error('   使用方式: agent-ide search symbol --query <name>');
-      if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+      this.exit(1);
       return;
     }
 
@@ -1308,24 +2604,20 @@ export class AgentIdeCLI {
     try {
       const searchPath = path.resolve(options.path || process.cwd());
 
-      // 初始化索引引擎（每次都重新建立以確保索引是最新的）
-      const config = createIndexConfig(searchPath, {
-        includeExtensions: ['.ts', '.tsx', '.js', '.jsx', '.swift'],
-        excludePatterns: ['node_modules/**', '*.test.*', 'dist/**']
-      });
-      this.indexEngine = new IndexEngine(config);
-
-      // 建立索引
+      // 初始化索引引擎（重新索引變更的檔案以確保索引是最新的）
       if (!isMinimalOrJson) {
         console.log('📝 正在建立索引...');
       }
-      await this.indexEngine.indexProject(searchPath);
+      const indexEngine = await this.getIndexEngine(searchPath, {
+        includeExtensions: ['.ts', '.tsx', '.js', '.jsx', '.swift'],
+        excludePatterns: ['node_modules/**', '*.test.*', 'dist/**']
+      });
 
       // 搜尋符號：如果包含 wildcard，使用模式搜尋
       let results: any[];
       if (symbolName.includes('*') || symbolName.includes('?')) {
         // Wildcard 模式搜尋
-        const allSymbols = await this.indexEngine.getAllSymbols();
+        const allSymbols = await indexEngine.getAllSymbols();
         const pattern = symbolName
           .replace(/\*/g, '.*')
           .replace(/\?/g, '.');
@@ -1340,7 +2632,7 @@ export class AgentIdeCLI {
         }
       } else {
         // 精確名稱搜尋
-        results = await this.indexEngine.findSymbol(symbolName);
+        results = await indexEngine.findSymbol(symbolName);
       }
 
       if (results.length === 0) {
@@ -1372,7 +2664,7 @@ export class AgentIdeCLI {
       } else {
         console.error('❌ 符號搜尋失敗:', error instanceof Error ? error.message : error);
       }
-      if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+      this.exit(1);
     }
   }
 
@@ -1873,28 +3165,294 @@ export class AgentIdeCLI {
           console.log(`   命名規範:     ${namingScore.toFixed(1)}/100`);
           console.log(`   測試覆蓋率:   ${testCoverageScore.toFixed(1)}/100 (${(testFileRatio * 100).toFixed(1)}%)`);
 
-          if (recommendations.length > 0) {
-            console.log('\n改善建議:');
-            recommendations.forEach((rec, index) => {
-              console.log(`   ${index + 1}. ${rec}`);
-            });
-          }
+          if (recommendations.length > 0) {
+            console.log('\n改善建議:');
+            recommendations.forEach((rec, index) => {
+              console.log(`   ${index + 1}. ${rec}`);
+            });
+          }
+        }
+      } else if (analyzeType === 'hotspots') {
+        await this.handleAnalyzeHotspots(analyzePath, options);
+      } else if (analyzeType === 'coverage') {
+        await this.handleAnalyzeCoverage(analyzePath, options);
+      } else {
+        throw new Error(`不支援的分析類型: ${analyzeType}`);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (options.format === 'json') {
+        console.error(JSON.stringify({ error: errorMessage }));
+      } else {
+        console.error('❌ 分析失敗:', errorMessage);
+      }
+      process.exitCode = 1;
+      this.exit(1);
+    }
+  }
+
+  /**
+   * analyze hotspots：依 git 變更次數 × 認知複雜度排序，並列出沒有 import 關係卻經常一起修改的檔案
+   */
+  private async handleAnalyzeHotspots(analyzePath: string, options: any): Promise<void> {
+    const projectPath = path.resolve(analyzePath);
+    const maxCount = Number(options.maxCommits);
+    if (!Number.isInteger(maxCount) || maxCount <= 0) {
+      throw new Error(`--max-commits 必須是正整數: ${options.maxCommits}`);
+    }
+
+    const registry = ParserRegistry.getInstance();
+    const complexities = new Map<string, ComplexityMetrics>();
+    for (const file of await this.getAllProjectFiles(projectPath)) {
+      try {
+        const parser = registry.getParser(path.extname(file));
+        if (!parser) {continue;}
+
+        const content = await fs.readFile(file, 'utf-8');
+        const ast = await parser.parse(content, file);
+        complexities.set(file, await parser.analyzeComplexity(content, ast));
+      } catch {
+        // 忽略無法分析的檔案
+      }
+    }
+
+    if (!this.dependencyAnalyzer) {
+      this.dependencyAnalyzer = new DependencyAnalyzer();
+    }
+    const projectDeps = await this.dependencyAnalyzer.analyzeProject(projectPath);
+    const graph = await this.buildGraphFromProjectDeps(projectDeps);
+
+    const { GitClient } = await import('../../infrastructure/git/index.js');
+    const { HotspotAnalyzer } = await import('../../core/analysis/hotspot-analyzer.js');
+    const result = await new HotspotAnalyzer(new GitClient(projectPath)).analyze(complexities, {
+      since: options.since,
+      maxCount,
+      graph
+    });
+
+    const toRelative = (filePath: string) => path.relative(projectPath, filePath).split(path.sep).join('/');
+    const hotspots = options.all ? result.hotspots : result.hotspots.filter(hotspot => hotspot.score > 0);
+
+    if (options.format === 'json') {
+      console.log(JSON.stringify({
+        summary: {
+          totalCommits: result.totalCommits,
+          changedFiles: result.hotspots.length,
+          hotspots: hotspots.length,
+          couplings: result.couplings.length
+        },
+        hotspots: hotspots.map(({ filePath, ...hotspot }) => ({ path: toRelative(filePath), ...hotspot })),
+        couplings: result.couplings.map(coupling => ({
+          fileA: toRelative(coupling.fileA),
+          fileB: toRelative(coupling.fileB),
+          sharedCommits: coupling.sharedCommits,
+          degree: coupling.degree
+        }))
+      }, null, 2));
+      return;
+    }
+
+    console.log('✅ 熱點分析完成!');
+    console.log(`📊 統計: ${result.totalCommits} 個提交，${result.hotspots.length} 個檔案有變更，${hotspots.length} 個熱點`);
+    if (hotspots.length > 0) {
+      console.log('\n🔥 熱點（變更次數 × 認知複雜度）:');
+      for (const hotspot of hotspots.slice(0, options.all ? hotspots.length : 20)) {
+        console.log(`   - ${toRelative(hotspot.filePath)}: ${hotspot.score}（${hotspot.revisions} 次變更 × 認知複雜度 ${hotspot.cognitiveComplexity}，${hotspot.authors} 位作者，${hotspot.ageDays} 天前建立，${hotspot.lastChangeDays} 天前修改）`);
+        for (const fn of hotspot.functions.slice(0, 3)) {
+          console.log(`       ${fn.name} (L${fn.startLine}-${fn.endLine}): ${fn.revisions} 次變更，認知複雜度 ${fn.cognitiveComplexity}`);
         }
+      }
+    }
+    if (result.couplings.length > 0) {
+      console.log('\n🔗 沒有 import 關係但經常一起修改的檔案:');
+      for (const coupling of result.couplings) {
+        console.log(`   - ${toRelative(coupling.fileA)} ↔ ${toRelative(coupling.fileB)}: ${coupling.sharedCommits} 次共同變更（耦合度 ${Math.round(coupling.degree * 100)}%）`);
+      }
+    }
+  }
+
+  /**
+   * analyze coverage：將覆蓋率報告對應到函式，列出複雜卻沒有被測試覆蓋的函式（CRAP 指標）
+   */
+  private async handleAnalyzeCoverage(analyzePath: string, options: any): Promise<void> {
+    const projectPath = path.resolve(analyzePath);
+    const config = options.coverage ? null : await new ConfigManager().loadConfig(projectPath);
+    const reportPath = options.coverage
+      ? path.resolve(projectPath, options.coverage)
+      : config?.coverage ? path.resolve(projectPath, config.coverage) : undefined;
+    if (!reportPath) {
+      throw new Error('analyze coverage 需要 --coverage <file> 或在 .agent-ide.json 設定 coverage');
+    }
+
+    const { CoverageReportParser, CoverageAnalyzer, CRAP_THRESHOLD } = await import('../../core/testing/index.js');
+    const report = await new CoverageReportParser().load(reportPath, projectPath);
+
+    const registry = ParserRegistry.getInstance();
+    const complexities = new Map<string, ComplexityMetrics>();
+    const contents = new Map<string, string>();
+    for (const file of await this.getAllProjectFiles(projectPath)) {
+      try {
+        const parser = registry.getParser(path.extname(file));
+        if (!parser || parser.isTestFile(file)) {continue;}
+
+        const content = await fs.readFile(file, 'utf-8');
+        const ast = await parser.parse(content, file);
+        complexities.set(file, await parser.analyzeComplexity(content, ast));
+        contents.set(file, content);
+      } catch {
+        // 忽略無法分析的檔案
+      }
+    }
+
+    const result = new CoverageAnalyzer().analyze(report, complexities, contents);
+    const issues = result.functions.filter(fn => fn.crap > CRAP_THRESHOLD);
+    const toRelative = (filePath: string) => path.relative(projectPath, filePath).split(path.sep).join('/');
+    const ratio = (value: number | null) => (value === null ? null : Math.round(value * 10000) / 10000);
+    const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+    const unreported = result.files.filter(file => !file.reported);
+
+    if (options.format === 'json') {
+      const outputData: any = {
+        summary: {
+          format: result.format,
+          totalScanned: result.files.length,
+          unreportedFiles: unreported.length,
+          lineCoverage: ratio(result.total.lineCoverage),
+          branchCoverage: ratio(result.total.branchCoverage),
+          coveredLines: result.total.coveredLines,
+          totalLines: result.total.totalLines,
+          coveredBranches: result.total.coveredBranches,
+          totalBranches: result.total.totalBranches,
+          issuesFound: issues.length
+        },
+        issues: issues.map(fn => ({
+          path: toRelative(fn.filePath),
+          name: fn.name,
+          startLine: fn.startLine,
+          endLine: fn.endLine,
+          cyclomaticComplexity: fn.cyclomaticComplexity,
+          cognitiveComplexity: fn.cognitiveComplexity,
+          lineCoverage: ratio(fn.lineCoverage),
+          branchCoverage: ratio(fn.branchCoverage),
+          crap: fn.crap
+        }))
+      };
+
+      if (options.all) {
+        outputData.all = result.files.map(file => ({
+          path: toRelative(file.filePath),
+          reported: file.reported,
+          lineCoverage: ratio(file.lineCoverage),
+          branchCoverage: ratio(file.branchCoverage),
+          coveredLines: file.coveredLines,
+          totalLines: file.totalLines
+        }));
+      }
+
+      console.log(JSON.stringify(outputData, null, 2));
+      return;
+    }
+
+    console.log(`✅ 覆蓋率分析完成!（${result.format}）`);
+    console.log(`📊 行覆蓋率: ${percent(result.total.lineCoverage)} (${result.total.coveredLines}/${result.total.totalLines})，分支覆蓋率: ${result.total.branchCoverage === null ? '報告沒有分支資料' : `${percent(result.total.branchCoverage)} (${result.total.coveredBranches}/${result.total.totalBranches})`}`);
+    console.log(`   ${result.files.length} 個檔案，${unreported.length} 個不在覆蓋率報告中`);
+    if (issues.length > 0) {
+      console.log(`\n⚠️  複雜卻沒有被測試覆蓋的函式（CRAP > ${CRAP_THRESHOLD}）:`);
+      for (const fn of issues) {
+        console.log(`   - ${toRelative(fn.filePath)}:${fn.startLine} ${fn.name}: CRAP ${fn.crap}（循環複雜度 ${fn.cyclomaticComplexity}，行覆蓋率 ${percent(fn.lineCoverage)}）`);
+      }
+    }
+    if (options.all) {
+      console.log('\n檔案覆蓋率:');
+      for (const file of result.files) {
+        console.log(`   - ${toRelative(file.filePath)}: ${file.reported ? percent(file.lineCoverage) : '不在報告中'}`);
+      }
+    }
+  }
+
+  /**
+   * affected-tests：變更檔案本身為測試，或測試傳遞依賴變更檔案時列入
+   */
+  private async handleAffectedTestsCommand(options: any): Promise<void> {
+    try {
+      const formats = ['list', 'json', 'vitest', 'jest'];
+      if (!formats.includes(options.format)) {
+        throw new Error(`不支援的輸出格式: ${options.format}（可用: ${formats.join(', ')}）`);
+      }
+
+      const projectPath = path.resolve(options.path || process.cwd());
+      let changedFiles: string[];
+      if (options.stdin) {
+        changedFiles = (await this.readStdin())
+          .split(/\r?\n/)
+          .map(line => line.trim())
+          .filter(Boolean)
+          .map(file => path.resolve(file));
       } else {
-        throw new Error(`不支援的分析類型: ${analyzeType}`);
+        const { GitClient } = await import('../../infrastructure/git/index.js');
+        changedFiles = await new GitClient(projectPath).getChangedFiles(options.base);
+      }
+
+      if (!this.dependencyAnalyzer) {
+        this.dependencyAnalyzer = new DependencyAnalyzer();
+      }
+      const projectDeps = await this.dependencyAnalyzer.analyzeProject(projectPath);
+      const graph = await this.buildGraphFromProjectDeps(projectDeps);
+
+      const { AffectedTestsAnalyzer } = await import('../../core/dependency/affected-tests-analyzer.js');
+      const selection = new AffectedTestsAnalyzer().select(graph, changedFiles, projectPath);
+      const toRelative = (filePath: string) => path.relative(projectPath, filePath).split(path.sep).join('/');
+      const tests = selection.affectedTests.map(test => toRelative(test.filePath));
+      const quote = (arg: string) => /^[\w./@+-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, '\'\\\'\'')}'`;
+
+      switch (options.format) {
+      case 'json':
+        console.log(JSON.stringify({
+          base: options.stdin ? null : options.base,
+          changedFiles: selection.changedFiles.map(toRelative),
+          ignoredFiles: selection.ignoredFiles.map(toRelative),
+          affectedTests: selection.affectedTests.map(test => ({
+            file: toRelative(test.filePath),
+            triggeredBy: test.triggeredBy.map(toRelative)
+          })),
+          summary: {
+            changedFiles: selection.changedFiles.length,
+            affectedTests: tests.length,
+            totalTests: selection.totalTests
+          }
+        }, null, 2));
+        break;
+      case 'vitest':
+        // 沒有受影響的測試時輸出空字串，由呼叫端決定是否略過測試
+        console.log(tests.map(quote).join(' '));
+        break;
+      case 'jest':
+        console.log(tests.length > 0 ? ['--runTestsByPath', ...tests.map(quote)].join(' ') : '');
+        break;
+      default:
+        tests.forEach(test => console.log(test));
       }
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
+      const message = error instanceof Error ? error.message : String(error);
       if (options.format === 'json') {
-        console.error(JSON.stringify({ error: errorMessage }));
+        console.log(JSON.stringify({ error: message }));
       } else {
-        console.error('❌ 分析失敗:', errorMessage);
+        console.error('❌ 測試影響分析失敗:', message);
       }
       process.exitCode = 1;
-      if (process.env.NODE_ENV !== 'test') {
-        process.exit(1);
-      }
+      this.exit(1);
+    }
+  }
+
+  /**
+   * 讀取 stdin 的全部內容
+   */
+  private async readStdin(): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
     }
+    return Buffer.concat(chunks).toString('utf-8');
   }
 
   private async handleShitCommand(options: any): Promise<void> {
@@ -1913,7 +3471,8 @@ export class AgentIdeCLI {
         detailed: options.detailed,
         topCount,
         maxAllowed,
-        showFiles: options.showFiles
+        showFiles: options.showFiles,
+        coverageFile: options.coverage
       });
 
       if (options.format === 'json') {
@@ -1970,6 +3529,9 @@ export class AgentIdeCLI {
               console.log(`   建議: ${rec.suggestion}`);
               console.log(`   預期改善: ${rec.estimatedImpact.toFixed(1)} 分`);
               console.log(`   影響檔案: ${rec.affectedFiles.length} 個`);
+              if (rec.command) {
+                console.log(`   修復命令: ${rec.command}`);
+              }
             });
           }
         }
@@ -1986,7 +3548,7 @@ export class AgentIdeCLI {
       }
 
       process.exitCode = 1;
-      if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+      this.exit(1);
     }
   }
 
@@ -2053,7 +3615,7 @@ export class AgentIdeCLI {
       }
 
       process.exitCode = 1;
-      if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+      this.exit(1);
     }
   }
 
@@ -2233,12 +3795,19 @@ export class AgentIdeCLI {
   }
 
   private async handleDepsCommand(subcommand: string, options: any): Promise<void> {
-    if (options.format !== 'json') {
+    const { GRAPH_EXPORT_FORMATS } = await import('../../core/dependency/graph-exporter.js');
+    const isGraphExport = (GRAPH_EXPORT_FORMATS as readonly string[]).includes(options.format);
+
+    if (options.format !== 'json' && !isGraphExport) {
       const titles: Record<string, string> = {
         'graph': '🕸️ 依賴圖分析...',
         'cycles': '🔄 循環依賴分析...',
         'impact': '💥 影響分析...',
-        'orphans': '🏝️ 孤立檔案分析...'
+        'orphans': '🏝️ 孤立檔案分析...',
+        'check': '🏛️ 架構規則檢查...',
+        'packages': '📦 套件依賴稽核...',
+        'metrics': '📐 模組耦合度指標...',
+        'simulate': '🧪 模擬依賴變更...'
       };
       console.log(titles[subcommand] || '🕸️ 分析依賴關係...');
     }
@@ -2260,6 +3829,36 @@ export class AgentIdeCLI {
       // 使用 CycleDetector 檢測循環依賴
       const cycleDetector = new (await import('../../core/dependency/cycle-detector.js')).CycleDetector();
       const graph = await this.buildGraphFromProjectDeps(projectDeps);
+
+      if (subcommand === 'check') {
+        await this.handleDepsCheck(graph, analyzePath, options);
+        return;
+      }
+
+      if (subcommand === 'packages') {
+        await this.handleDepsPackages(projectDeps, analyzePath, options);
+        return;
+      }
+
+      if (isGraphExport) {
+        await this.exportDependencyGraph(graph, cycleDetector, analyzePath, options);
+        return;
+      }
+
+      if (subcommand === 'metrics') {
+        await this.handleDepsMetrics(graph, analyzePath, options);
+        return;
+      }
+
+      if (subcommand === 'simulate') {
+        await this.handleDepsSimulate(graph, analyzePath, options);
+        return;
+      }
+
+      if (subcommand === 'orphans') {
+        await this.handleDepsOrphans(graph, analyzePath, stats.totalFiles, options);
+        return;
+      }
       const cycles = cycleDetector.detectCycles(graph);
 
       // 輸出結果
@@ -2302,7 +3901,7 @@ export class AgentIdeCLI {
             return systemFrameworks.includes(name);
           };
 
-          const edges: Array<{source: string; target: string; type: string}> = [];
+          const edges: Array<{source: string; target: string; type: string; dependencyType: string}> = [];
           for (const nodeId of allNodes) {
             for (const depId of graph.getDependencies(nodeId)) {
               // 系統框架一律標記為 external
@@ -2310,7 +3909,8 @@ export class AgentIdeCLI {
               edges.push({
                 source: nodeId,
                 target: depId,
-                type: isExternal ? 'external' : 'internal'
+                type: isExternal ? 'external' : 'internal',
+                dependencyType: graph.getDependencyType(nodeId, depId)
               });
             }
           }
@@ -2348,7 +3948,8 @@ export class AgentIdeCLI {
             } else {
               // 檔案不在專案中或未被索引
               console.error(`❌ 錯誤：檔案不存在或未被索引: ${options.file}`);
-              process.exit(1);
+              this.exit(1, true);
+              return;
             }
           }
 
@@ -2393,29 +3994,6 @@ export class AgentIdeCLI {
               transitiveCount: transitiveDependents.size
             }
           }, null, 2));
-        } else if (subcommand === 'orphans') {
-          // orphans 子命令：檢測孤立檔案
-          const allNodes = graph.getAllNodes();
-          const orphans: Array<{filePath: string; reason: string}> = [];
-
-          for (const node of allNodes) {
-            const dependents = graph.getDependents(node);
-            if (dependents.length === 0) {
-              orphans.push({
-                filePath: node,
-                reason: 'No files depend on this file'
-              });
-            }
-          }
-
-          console.log(JSON.stringify({
-            orphans,
-            summary: {
-              totalOrphans: orphans.length,
-              totalFiles: stats.totalFiles,
-              orphanPercentage: Math.round((orphans.length / stats.totalFiles) * 100)
-            }
-          }, null, 2));
         } else if (options.file) {
           // 單檔案依賴查詢模式
           const targetFile = path.resolve(options.file);
@@ -2502,10 +4080,371 @@ export class AgentIdeCLI {
       } else {
         console.error('❌ 依賴分析失敗:', error instanceof Error ? error.message : error);
       }
-      if (process.env.NODE_ENV !== 'test') {
-        if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+      process.exitCode = 1;
+      this.exit(1);
+    }
+  }
+
+  /**
+   * 以 DOT、Mermaid、GraphML 或 JSON Graph Format 匯出依賴圖
+   */
+  private async exportDependencyGraph(graph: any, cycleDetector: any, analyzePath: string, options: any): Promise<void> {
+    const { GraphExporter } = await import('../../core/dependency/graph-exporter.js');
+    const rootPath = path.resolve(analyzePath);
+
+    let collapseDepth: number | undefined;
+    if (options.collapse !== undefined) {
+      collapseDepth = Number(options.collapse);
+      if (!Number.isInteger(collapseDepth) || collapseDepth < 1) {
+        throw new Error(`--collapse 必須是正整數: ${options.collapse}`);
+      }
+    }
+
+    let focusFile: string | undefined;
+    if (options.file) {
+      const allNodes: string[] = graph.getAllNodes();
+      const candidates = [path.resolve(options.file), path.resolve(rootPath, options.file)];
+      focusFile = candidates.find(candidate => allNodes.includes(candidate)) ??
+        allNodes.find(node => node.endsWith(options.file));
+      if (!focusFile) {
+        throw new Error(`檔案不存在或未被索引: ${options.file}`);
+      }
+    }
+
+    // 同一強連通分量內的邊都位於某個循環上
+    const cycles = cycleDetector.findStronglyConnectedComponents(graph)
+      .filter((scc: any) => scc.size > 1)
+      .map((scc: any) => scc.nodes);
+
+    console.log(new GraphExporter().export(graph.serialize(), {
+      format: options.format,
+      rootPath,
+      collapseDepth,
+      cycles,
+      focusFile
+    }));
+  }
+
+  /**
+   * deps orphans：從進入點走訪依賴圖，回報無法到達的檔案與未被使用的匯出
+   */
+  private async handleDepsOrphans(graph: any, analyzePath: string, totalFiles: number, options: any): Promise<void> {
+    const { ReachabilityAnalyzer } = await import('../../core/dependency/reachability-analyzer.js');
+    const projectPath = path.resolve(analyzePath);
+    const config = await new ConfigManager().loadConfig(projectPath);
+    const result = await new ReachabilityAnalyzer().analyze(graph, projectPath, config?.entryPoints ?? []);
+
+    const reason = result.entryPoints.length > 0
+      ? 'Not reachable from any entry point'
+      : 'No files depend on this file';
+
+    if (options.format === 'json') {
+      console.log(JSON.stringify({
+        entryPoints: result.entryPoints,
+        orphans: result.unreachableFiles.map(filePath => ({ filePath, reason })),
+        unreachableExports: result.unreachableExports,
+        summary: {
+          totalOrphans: result.unreachableFiles.length,
+          totalFiles,
+          orphanPercentage: totalFiles > 0 ? Math.round((result.unreachableFiles.length / totalFiles) * 100) : 0,
+          entryPoints: result.entryPoints.length,
+          unreachableExports: result.unreachableExports.length
+        }
+      }, null, 2));
+      return;
+    }
+
+    const toRelative = (filePath: string) => path.relative(projectPath, filePath).split(path.sep).join('/');
+
+    console.log('✅ 孤立檔案分析');
+    if (result.entryPoints.length > 0) {
+      const sources = new Map<string, number>();
+      result.entryPoints.forEach(entry => sources.set(entry.source, (sources.get(entry.source) ?? 0) + 1));
+      console.log(`📍 進入點: ${result.entryPoints.length} 個（${[...sources].map(([source, count]) => `${source} ${count}`).join(', ')}）`);
+    } else {
+      console.log('⚠️  找不到進入點（package.json、tsconfig.json files、測試檔或 .agent-ide.json entryPoints），改以沒有被依賴的檔案判斷');
+    }
+
+    const orphanLabel = result.entryPoints.length > 0 ? '無法從進入點到達' : '沒有被任何檔案依賴';
+    if (result.unreachableFiles.length > 0) {
+      console.log(`⚠️  發現 ${result.unreachableFiles.length} 個${orphanLabel}的檔案:`);
+      result.unreachableFiles.forEach(filePath => console.log(`   ${toRelative(filePath)}`));
+    } else {
+      console.log(result.entryPoints.length > 0 ? '✓ 所有檔案都可從進入點到達' : '✓ 所有檔案都有被其他檔案依賴');
+    }
+
+    if (result.unreachableExports.length > 0) {
+      console.log(`📤 ${result.unreachableExports.length} 個匯出沒有被任何可達檔案使用:`);
+      result.unreachableExports.forEach(item => console.log(`   ${toRelative(item.filePath)}:${item.line} ${item.symbol}`));
+    }
+  }
+
+  /**
+   * deps metrics：以目錄為模組計算 Ca、Ce、不穩定度、抽象度與主序列距離
+   */
+  private async handleDepsMetrics(graph: any, analyzePath: string, options: any): Promise<void> {
+    const { CouplingMetricsCalculator, MAIN_SEQUENCE_DISTANCE_THRESHOLD } = await import('../../core/dependency/coupling-metrics.js');
+    const projectPath = path.resolve(analyzePath);
+
+    let depth: number | undefined;
+    if (options.collapse !== undefined) {
+      depth = Number(options.collapse);
+      if (!Number.isInteger(depth) || depth < 1) {
+        throw new Error(`--collapse 必須是正整數: ${options.collapse}`);
+      }
+    }
+
+    const calculator = new CouplingMetricsCalculator();
+    const registry = ParserRegistry.getInstance();
+    const typeCounts = new Map<string, { abstract: number; total: number }>();
+    for (const file of graph.getAllNodes() as string[]) {
+      const parser = path.isAbsolute(file) ? registry.getParser(path.extname(file)) : null;
+      if (!parser) {
+        continue;
+      }
+      try {
+        const content = await fs.readFile(file, 'utf-8');
+        const symbols = await parser.extractSymbols(await parser.parse(content, file));
+        typeCounts.set(file, calculator.countTypeDeclarations(symbols, parser));
+      } catch {
+        // 忽略無法解析的檔案
+      }
+    }
+
+    const metrics = calculator.calculate(graph, { rootPath: projectPath, depth, typeCounts });
+    const offenders = calculator.findOffenders(metrics);
+    const offenderModules = new Set(offenders.map(metric => metric.module));
+    const zoneOf = (metric: { abstractness: number; instability: number }) =>
+      metric.abstractness + metric.instability < 1 ? 'pain' : 'uselessness';
+
+    if (options.format === 'json') {
+      console.log(JSON.stringify({
+        modules: metrics.map(({ files, ...metric }) => ({
+          ...metric,
+          files: files.length,
+          zone: offenderModules.has(metric.module) ? zoneOf(metric) : null
+        })),
+        summary: {
+          totalModules: metrics.length,
+          averageDistance: metrics.length > 0
+            ? Math.round(metrics.reduce((sum, metric) => sum + metric.distance, 0) / metrics.length * 100) / 100
+            : 0,
+          distanceThreshold: MAIN_SEQUENCE_DISTANCE_THRESHOLD,
+          offenders: offenders.length
+        }
+      }, null, 2));
+      return;
+    }
+
+    const width = Math.max(6, ...metrics.map(metric => metric.module.length));
+    const format = (value: number) => value.toFixed(2).padStart(5);
+    console.log(`✅ 模組耦合度指標（${metrics.length} 個模組）`);
+    console.log(`   ${'模組'.padEnd(width - 2)}   Ca   Ce      I      A      D`);
+    for (const metric of metrics) {
+      console.log(
+        `   ${metric.module.padEnd(width)} ${String(metric.afferentCoupling).padStart(4)} ${String(metric.efferentCoupling).padStart(4)}  ` +
+        `${format(metric.instability)}  ${format(metric.abstractness)}  ${format(metric.distance)}`
+      );
+    }
+
+    if (offenders.length === 0) {
+      console.log(`✓ 沒有模組偏離主序列（D ≥ ${MAIN_SEQUENCE_DISTANCE_THRESHOLD}）`);
+      return;
+    }
+    console.log(`⚠️  ${offenders.length} 個模組偏離主序列（D ≥ ${MAIN_SEQUENCE_DISTANCE_THRESHOLD}）:`);
+    for (const metric of offenders) {
+      const hint = zoneOf(metric) === 'pain'
+        ? '痛苦區：穩定且具體，修改會波及許多依賴者'
+        : '無用區：抽象但沒有被依賴';
+      console.log(`   ${metric.module} D=${metric.distance.toFixed(2)}（${hint}）`);
+    }
+  }
+
+  /**
+   * deps simulate：在複製的依賴圖上模擬新增 import 或移動檔案，比較循環依賴與影響範圍
+   */
+  private async handleDepsSimulate(graph: any, analyzePath: string, options: any): Promise<void> {
+    const { DependencySimulator } = await import('../../core/dependency/dependency-simulator.js');
+    const projectPath = path.resolve(analyzePath);
+    const toRelative = (filePath: string) => path.relative(projectPath, filePath).split(path.sep).join('/') || '.';
+
+    if (Boolean(options.addEdge) === Boolean(options.move)) {
+      throw new Error('simulate 需要 --add-edge <from:to> 或 --move <source:target> 其中之一');
+    }
+    const [option, value] = options.addEdge ? ['--add-edge', options.addEdge] : ['--move', options.move];
+    const separator = value.indexOf(':');
+    if (separator <= 0 || separator === value.length - 1) {
+      throw new Error(`${option} 格式應為 <from:to>: ${value}`);
+    }
+    const from = path.resolve(projectPath, value.slice(0, separator));
+    const to = path.resolve(projectPath, value.slice(separator + 1));
+    const change = options.addEdge
+      ? { type: 'add-edge' as const, from, to }
+      : { type: 'move' as const, source: from, target: to };
+
+    const simulator = new DependencySimulator(this.dependencyAnalyzer!);
+    const result = simulator.simulate(graph, change);
+    const warnings = simulator.describe(result, projectPath);
+    const createsCycle = result.introducedCycles.length > 0 || result.introducedComponents.length > 0;
+    const widensImpact = result.impact.some(impact => impact.addedDependents.length > 0);
+
+    if (options.format === 'json') {
+      const relativeCycle = (cycle: any) => ({ ...cycle, cycle: cycle.cycle.map(toRelative) });
+      const impactSummary = (impact: any) => ({
+        directlyAffected: impact.directlyAffected.length,
+        transitivelyAffected: impact.transitivelyAffected.length,
+        affectedTests: impact.affectedTests.length,
+        impactScore: impact.impactScore
+      });
+      console.log(JSON.stringify({
+        change: change.type === 'add-edge'
+          ? { type: change.type, from: toRelative(from), to: toRelative(to) }
+          : { type: change.type, source: toRelative(from), target: toRelative(to) },
+        introducedCycles: result.introducedCycles.map(relativeCycle),
+        resolvedCycles: result.resolvedCycles.map(relativeCycle),
+        introducedComponents: result.introducedComponents.map(component => ({
+          nodes: component.nodes.map(toRelative),
+          size: component.size
+        })),
+        introducedModuleCycles: result.introducedModuleCycles.map(relativeCycle),
+        impact: result.impact.map(impact => ({
+          file: toRelative(impact.after.targetFile),
+          before: impactSummary(impact.before),
+          after: impactSummary(impact.after),
+          addedDependents: impact.addedDependents.map(toRelative),
+          removedDependents: impact.removedDependents.map(toRelative)
+        })),
+        summary: { createsCycle, widensImpact, warnings }
+      }, null, 2));
+      return;
+    }
+
+    const description = change.type === 'add-edge' ? '新增 import' : '移動';
+    console.log(`✅ 依賴變更模擬（${description} ${toRelative(from)} → ${toRelative(to)}）`);
+    for (const warning of warnings) {
+      console.log(`⚠️  ${warning}`);
+    }
+    for (const cycle of result.resolvedCycles) {
+      console.log(`✓ 解除循環依賴: ${[...cycle.cycle, cycle.cycle[0]].map(toRelative).join(' → ')}`);
+    }
+    if (warnings.length === 0) {
+      console.log('✓ 不會產生新的循環依賴，也不會擴大影響範圍');
+    }
+  }
+
+  /**
+   * deps packages：比對外部套件 import 與 package.json（含 workspaces）
+   */
+  private async handleDepsPackages(projectDeps: any, analyzePath: string, options: any): Promise<void> {
+    const { PackageAuditor } = await import('../../core/dependency/package-auditor.js');
+    const projectPath = path.resolve(analyzePath);
+    const files = projectDeps.fileDependencies.map((fileDep: any) => fileDep.filePath);
+    const result = await new PackageAuditor().audit(projectPath, files);
+    const toRelative = (filePath: string) => path.relative(projectPath, filePath).split(path.sep).join('/') || '.';
+
+    const total = (key: 'unused' | 'undeclared' | 'devDependenciesAtRuntime' | 'typeOnlyDependencies') =>
+      result.workspaces.reduce((sum, workspace) => sum + workspace[key].length, 0);
+
+    if (options.format === 'json') {
+      const relativeImport = (item: any) => ({ ...item, filePath: toRelative(item.filePath) });
+      console.log(JSON.stringify({
+        workspaces: result.workspaces.map(workspace => ({
+          ...workspace,
+          directory: toRelative(workspace.directory),
+          undeclared: workspace.undeclared.map(relativeImport),
+          devDependenciesAtRuntime: workspace.devDependenciesAtRuntime.map(relativeImport)
+        })),
+        lockfiles: result.lockfiles,
+        summary: {
+          workspaces: result.workspaces.length,
+          unused: total('unused'),
+          undeclared: total('undeclared'),
+          devDependenciesAtRuntime: total('devDependenciesAtRuntime'),
+          typeOnlyDependencies: total('typeOnlyDependencies')
+        }
+      }, null, 2));
+      return;
+    }
+
+    console.log(`✅ 套件依賴稽核（${result.workspaces.length} 個 workspace，lockfile: ${result.lockfiles.join(', ') || '無'}）`);
+    for (const workspace of result.workspaces) {
+      const issues = workspace.unused.length + workspace.undeclared.length +
+        workspace.devDependenciesAtRuntime.length + workspace.typeOnlyDependencies.length;
+      console.log(`\n📁 ${workspace.name} (${toRelative(workspace.directory)})`);
+      if (issues === 0) {
+        console.log('   ✓ 未發現套件依賴問題');
+        continue;
+      }
+
+      if (workspace.unused.length > 0) {
+        console.log(`   🗑️  ${workspace.unused.length} 個宣告但未使用的套件:`);
+        workspace.unused.forEach(item => console.log(`      ${item.packageName} (${item.field})`));
+      }
+      if (workspace.undeclared.length > 0) {
+        console.log(`   ❓ ${workspace.undeclared.length} 個 import 使用未宣告的套件:`);
+        workspace.undeclared.forEach(item => console.log(
+          `      ${toRelative(item.filePath)}:${item.line} ${item.specifier}${item.inLockfile ? '（lockfile 中為間接依賴）' : ''}`
+        ));
+      }
+      if (workspace.devDependenciesAtRuntime.length > 0) {
+        console.log(`   ⚠️  ${workspace.devDependenciesAtRuntime.length} 個執行期 import 使用 devDependencies:`);
+        workspace.devDependenciesAtRuntime.forEach(item => console.log(
+          `      ${toRelative(item.filePath)}:${item.line} ${item.specifier}`
+        ));
+      }
+      if (workspace.typeOnlyDependencies.length > 0) {
+        console.log(`   💡 只被型別 import 使用，可移到 devDependencies: ${workspace.typeOnlyDependencies.join(', ')}`);
+      }
+    }
+  }
+
+  /**
+   * deps check：依 .agent-ide.json 的 architecture 規則檢查每條依賴邊
+   */
+  private async handleDepsCheck(graph: any, analyzePath: string, options: any): Promise<void> {
+    const { LayerRuleChecker } = await import('../../core/dependency/layer-rule-checker.js');
+    const projectPath = path.resolve(analyzePath);
+    const config = await new ConfigManager().loadConfig(projectPath);
+
+    if (!config?.architecture) {
+      throw new Error(`${path.join(projectPath, '.agent-ide.json')} 未設定 architecture 規則`);
+    }
+
+    const checker = new LayerRuleChecker(config.architecture, projectPath);
+    const violations = await checker.check(graph);
+    const toRelative = (filePath: string) => path.isAbsolute(filePath)
+      ? path.relative(projectPath, filePath).split(path.sep).join('/')
+      : filePath;
+
+    if (options.format === 'json') {
+      console.log(JSON.stringify({
+        violations: violations.map(violation => ({
+          ...violation,
+          file: toRelative(violation.file),
+          target: toRelative(violation.target)
+        })),
+        summary: {
+          totalViolations: violations.length,
+          rulesChecked: config.architecture.rules.length,
+          filesWithViolations: new Set(violations.map(v => v.file)).size
+        }
+      }, null, 2));
+    } else if (violations.length === 0) {
+      console.log(`✅ 未發現違反架構規則的依賴（${config.architecture.rules.length} 條規則）`);
+    } else {
+      console.log(`❌ 發現 ${violations.length} 個違反架構規則的依賴:`);
+      for (const violation of violations) {
+        console.log(`   ${toRelative(violation.file)}:${violation.line} [${violation.rule}] ${violation.fromLayer} → ${violation.toLayer} (${violation.importPath})`);
+        if (violation.message) {
+          console.log(`      ${violation.message}`);
+        }
       }
     }
+
+    if (violations.length > 0) {
+      process.exitCode = 1;
+      this.exit(1);
+    }
   }
 
   /**
@@ -2520,13 +4459,38 @@ export class AgentIdeCLI {
       graph.addNode(fileDep.filePath);
 
       for (const dep of fileDep.dependencies) {
-        graph.addDependency(fileDep.filePath, dep.path);
+        graph.addDependency(fileDep.filePath, dep.path, dep.type);
       }
     }
 
     return graph;
   }
 
+  private async handleMcpCommand(): Promise<void> {
+    this.persistIndex = true;
+    const { McpServer } = await import('../mcp/index.js');
+    const server = new McpServer(this, {
+      name: 'agent-ide',
+      version: packageVersion
+    });
+
+    // 所有工具呼叫共用同一個 CLI 實例：索引引擎在第一次使用時建立，之後的呼叫只重新索引變更的檔案
+    await server.start();
+  }
+
+  private async handleLspCommand(options: any): Promise<void> {
+    const { LspServer } = await import('../lsp/index.js');
+    const server = new LspServer({
+      name: 'agent-ide',
+      version: packageVersion,
+      workspacePath: path.resolve(options.path)
+    });
+
+    // 收到 exit 後結束程序；未先收到 shutdown 時以非零結束碼離開（LSP 規範）
+    const exitCode = await server.start();
+    this.exit(exitCode, true);
+  }
+
   private async handlePluginsListCommand(options: any): Promise<void> {
     console.log('🔌 插件列表:');
 
@@ -2560,14 +4524,14 @@ export class AgentIdeCLI {
     // 確保 registry 存在且有 getParserByName 方法
     if (!registry || typeof registry.getParserByName !== 'function') {
       console.error('❌ 插件系統尚未初始化');
-      if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+      this.exit(1);
     }
 
     const plugin = registry.getParserByName(pluginName);
 
     if (!plugin) {
       console.error(`❌ 找不到插件: ${pluginName}`);
-      if (process.env.NODE_ENV !== 'test') { process.exit(1); }
+      this.exit(1);
     }
 
     console.log(`🔌 插件資訊: ${pluginName}`);
@@ -2575,6 +4539,42 @@ export class AgentIdeCLI {
   }
 
 
+  /**
+   * 以錯誤碼結束程式
+   * 測試環境下不結束行程（force 除外）；內嵌模式只記錄 exitCode，交由呼叫端處理
+   */
+  private exit(code: number, force = false): void {
+    if (this.embedded) {
+      process.exitCode = code;
+      return;
+    }
+
+    if (force || process.env.NODE_ENV !== 'test') {
+      process.exit(code);
+    }
+  }
+
+  /**
+   * 取得索引引擎
+   * 相同工作區與配置時重用既有引擎，只重新索引變更的檔案
+   */
+  private async getIndexEngine(workspacePath: string, options: Partial<IndexConfig>): Promise<IndexEngine> {
+    const config = createIndexConfig(workspacePath, { ...options, persistChanges: this.persistIndex || options.persistChanges });
+    const current = this.indexEngine?.getConfig();
+    const isSameConfig = current !== undefined &&
+      current.workspacePath === config.workspacePath &&
+      current.includeExtensions.join(',') === config.includeExtensions.join(',') &&
+      current.excludePatterns.join(',') === config.excludePatterns.join(',');
+
+    if (!this.indexEngine || !isSameConfig) {
+      this.indexEngine?.dispose();
+      this.indexEngine = new IndexEngine(config);
+    }
+
+    await this.indexEngine.indexProject(workspacePath);
+    return this.indexEngine;
+  }
+
   /**
    * 檢查檔案是否存在
    */
@@ -2651,6 +4651,48 @@ export class AgentIdeCLI {
   /**
    * 獲取專案中的所有檔案
    */
+  /**
+   * 往上查找專案根目錄（包含 package.json、.git 或 Package.swift），找不到時回傳起始目錄
+   */
+  private async findProjectRoot(startPath: string): Promise<string> {
+    let startDir = path.resolve(startPath);
+    try {
+      if ((await fs.stat(startDir)).isFile()) {
+        startDir = path.dirname(startDir);
+      }
+    } catch {
+      startDir = path.dirname(startDir);
+    }
+
+    let currentDir = startDir;
+    while (currentDir !== path.dirname(currentDir)) {
+      const hasPackageJson = await this.fileExists(path.join(currentDir, 'package.json'));
+      const hasGit = await this.fileExists(path.join(currentDir, '.git'));
+      const hasSwiftPackage = await this.fileExists(path.join(currentDir, 'Package.swift'));
+      if (hasPackageJson || hasGit || hasSwiftPackage) {
+        return currentDir;
+      }
+      currentDir = path.dirname(currentDir);
+    }
+    return startDir;
+  }
+
+  /**
+   * 列出路徑下的所有檔案（路徑為檔案時回傳自身）
+   */
+  private async listFilesRecursively(targetPath: string): Promise<string[]> {
+    const stats = await fs.stat(targetPath);
+    if (!stats.isDirectory()) {
+      return [targetPath];
+    }
+
+    const files: string[] = [];
+    for (const entry of await fs.readdir(targetPath, { withFileTypes: true })) {
+      files.push(...await this.listFilesRecursively(path.join(targetPath, entry.name)));
+    }
+    return files;
+  }
+
   private async getAllProjectFiles(projectPath: string): Promise<string[]> {
     const files: string[] = [];
     // 從 ParserRegistry 獲取所有支援的副檔名
@@ -2729,8 +4771,9 @@ export class AgentIdeCLI {
         }
       }
     } catch (error) {
-      // tsconfig.json 不存在或解析失敗，使用空的路徑別名
-      if (process.env.NODE_ENV !== 'test') {
+      // tsconfig.json 不存在是正常情況，只有解析失敗時才警告
+      const missing = (error as NodeJS.ErrnoException).code === 'ENOENT';
+      if (!missing && process.env.NODE_ENV !== 'test') {
         console.warn('⚠️  無法讀取 tsconfig.json 路徑別名設定');
       }
     }
@@ -0,0 +1,7 @@
+/**
+ * LSP 模組統一匯出
+ */
+
+export { LspServer } from './lsp-server.js';
+export type { LspServerOptions } from './lsp-server.js';
+export * from './protocol.js';
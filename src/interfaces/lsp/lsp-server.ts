@@ -0,0 +1,737 @@
+/**
+ * LSP (Language Server Protocol) 伺服器
+ * 透過 stdio 將 ParserPlugin 的查詢、重構與分析能力提供給編輯器
+ */
+
+import type { Readable, Writable } from 'stream';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { format } from 'util';
+import * as ts from 'typescript';
+import { JsonRpcConnection, JsonRpcError, JsonRpcErrorCode } from '../rpc/index.js';
+import { IndexEngine } from '../../core/indexing/index-engine.js';
+import { createIndexConfig, createSearchOptions } from '../../core/indexing/types.js';
+import { ParserRegistry } from '../../infrastructure/parser/index.js';
+import type { ParserPlugin } from '../../infrastructure/parser/index.js';
+import { TypeScriptParser } from '../../plugins/typescript/parser.js';
+import { tsNodeToRange } from '../../plugins/typescript/types.js';
+import type { TypeScriptAST, TypeScriptSymbol } from '../../plugins/typescript/types.js';
+import { findIdentifierAt } from '../../core/refactor/signature-references.js';
+import { SymbolType } from '../../shared/types/index.js';
+import type { AST, Reference, Symbol } from '../../shared/types/index.js';
+import {
+  DiagnosticSeverity,
+  FileChangeType,
+  LspErrorCode,
+  TextDocumentSyncKind,
+  pathToUri,
+  toLspRange,
+  toSymbolKind,
+  uriToPath
+} from './protocol.js';
+import type {
+  Diagnostic,
+  LspLocation,
+  LspPosition,
+  LspRange,
+  SymbolInformation,
+  TextDocumentPositionParams,
+  TextEdit,
+  WorkspaceEdit
+} from './protocol.js';
+
+/**
+ * LSP 伺服器選項
+ */
+export interface LspServerOptions {
+  readonly name: string;
+  readonly version: string;
+  /** 用戶端未提供 rootUri 時使用的工作區路徑 */
+  readonly workspacePath: string;
+}
+
+/**
+ * 開啟中的文件
+ */
+interface OpenDocument {
+  text: string;
+  version: number;
+}
+
+/**
+ * 游標所在的識別字
+ */
+interface WordAtPosition {
+  name: string;
+  range: LspRange;
+}
+
+/**
+ * 符號的引用位置
+ */
+interface ReferenceLocation extends LspLocation {
+  isDefinition: boolean;
+}
+
+/**
+ * 游標所在的符號與其所有引用
+ */
+interface ResolvedTarget {
+  name: string;
+  range: LspRange;
+  locations: ReferenceLocation[];
+}
+
+/**
+ * 已解析的文件
+ */
+interface ParsedDocument {
+  filePath: string;
+  text: string;
+  parser: ParserPlugin;
+  ast: AST;
+}
+
+const IDENTIFIER_CHAR = /[\w$]/;
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+const DIAGNOSTIC_SOURCE = 'agent-ide';
+/** 由 TypeScript Language Service 依符號解析定義與引用的副檔名 */
+const LANGUAGE_SERVICE_EXTENSIONS = new Set(['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs']);
+
+/**
+ * LSP 伺服器
+ */
+export class LspServer {
+  private connection?: JsonRpcConnection;
+  private readonly documents = new Map<string, OpenDocument>();
+  /** 未開啟檔案的磁碟內容，儲存或監看到檔案變更時失效 */
+  private readonly diskContents = new Map<string, string | null>();
+  /** 已將目前內容加入 Language Service 的檔案，內容變更後移除，下次查詢時重新加入 */
+  private readonly registeredFiles = new Set<string>();
+  private readonly registry = ParserRegistry.getInstance();
+  private workspacePath: string;
+  private indexEngine?: IndexEngine;
+  private typeScriptParser?: TypeScriptParser;
+  private indexReady: Promise<void> = Promise.resolve();
+  private shutdownRequested = false;
+  private originalConsole?: { log: typeof console.log; info: typeof console.info };
+
+  constructor(private readonly options: LspServerOptions) {
+    this.workspacePath = options.workspacePath;
+  }
+
+  /**
+   * 啟動伺服器並監聽輸入，直到收到 exit 或輸入串流結束
+   * @returns 建議的程序結束碼（收到 shutdown 後結束為 0）
+   */
+  async start(input: Readable = process.stdin, output: Writable = process.stdout): Promise<number> {
+    this.redirectConsole();
+
+    const connection = new JsonRpcConnection(input, output, { framing: 'content-length' });
+    this.connection = connection;
+
+    connection.onRequest('initialize', (params) => this.handleInitialize(params));
+    connection.onRequest('shutdown', () => this.handleShutdown());
+    connection.onRequest('textDocument/definition', (params) => this.handleDefinition(params));
+    connection.onRequest('textDocument/references', (params) => this.handleReferences(params));
+    connection.onRequest('textDocument/prepareRename', (params) => this.handlePrepareRename(params));
+    connection.onRequest('textDocument/rename', (params) => this.handleRename(params));
+    connection.onRequest('textDocument/documentSymbol', (params) => this.handleDocumentSymbol(params));
+    connection.onRequest('workspace/symbol', (params) => this.handleWorkspaceSymbol(params));
+
+    connection.onNotification('initialized', () => this.buildIndex());
+    connection.onNotification('exit', () => connection.close());
+    connection.onNotification('textDocument/didOpen', (params) => this.handleDidOpen(params));
+    connection.onNotification('textDocument/didChange', (params) => this.handleDidChange(params));
+    connection.onNotification('textDocument/didSave', (params) => this.handleDidSave(params));
+    connection.onNotification('textDocument/didClose', (params) => this.handleDidClose(params));
+    connection.onNotification('workspace/didChangeWatchedFiles', (params) => this.handleDidChangeWatchedFiles(params));
+
+    await new Promise<void>((resolve) => {
+      connection.onClose(() => resolve());
+      connection.listen();
+    });
+
+    this.indexEngine?.dispose();
+    await this.typeScriptParser?.dispose();
+    this.restoreConsole();
+
+    return this.shutdownRequested ? 0 : 1;
+  }
+
+  // ===== 生命週期 =====
+
+  private handleInitialize(params: any): Record<string, unknown> {
+    const rootUri = params?.rootUri ?? params?.workspaceFolders?.[0]?.uri;
+    if (typeof rootUri === 'string') {
+      this.workspacePath = uriToPath(rootUri);
+    } else if (typeof params?.rootPath === 'string') {
+      this.workspacePath = params.rootPath;
+    }
+
+    return {
+      capabilities: {
+        textDocumentSync: {
+          openClose: true,
+          change: TextDocumentSyncKind.Full,
+          save: { includeText: false }
+        },
+        definitionProvider: true,
+        referencesProvider: true,
+        renameProvider: { prepareProvider: true },
+        documentSymbolProvider: true,
+        workspaceSymbolProvider: true
+      },
+      serverInfo: {
+        name: this.options.name,
+        version: this.options.version
+      }
+    };
+  }
+
+  private handleShutdown(): null {
+    this.shutdownRequested = true;
+    return null;
+  }
+
+  /**
+   * 建立工作區索引，供跨檔案查詢使用
+   */
+  private buildIndex(): void {
+    const config = createIndexConfig(this.workspacePath, {
+      includeExtensions: this.registry.getSupportedExtensions(),
+      excludePatterns: ['node_modules/**', 'dist/**', '.git/**'],
+      persistChanges: true
+    });
+    const indexEngine = new IndexEngine(config);
+    this.indexEngine = indexEngine;
+
+    this.indexReady = indexEngine.indexProject(this.workspacePath).catch((error) => {
+      console.error(`建立索引失敗: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  }
+
+  private async getIndexEngine(): Promise<IndexEngine> {
+    if (!this.indexEngine) {
+      this.buildIndex();
+    }
+    await this.indexReady;
+    return this.indexEngine!;
+  }
+
+  // ===== 文件同步 =====
+
+  private async handleDidOpen(params: any): Promise<void> {
+    const { uri, text, version } = params.textDocument;
+    this.documents.set(uriToPath(uri), { text, version });
+    this.invalidateFile(uriToPath(uri));
+    await this.publishDiagnostics(uri);
+  }
+
+  private async handleDidChange(params: any): Promise<void> {
+    const { uri, version } = params.textDocument;
+    const changes: Array<{ text: string; range?: LspRange }> = params.contentChanges ?? [];
+
+    // 使用完整同步：最後一筆變更即為完整內容
+    const fullChange = [...changes].reverse().find(change => !change.range);
+    if (!fullChange) {
+      return;
+    }
+
+    this.documents.set(uriToPath(uri), { text: fullChange.text, version });
+    this.invalidateFile(uriToPath(uri));
+    await this.publishDiagnostics(uri);
+  }
+
+  private async handleDidSave(params: any): Promise<void> {
+    const uri = params.textDocument.uri;
+    const filePath = uriToPath(uri);
+    this.invalidateFile(filePath);
+
+    if (this.indexEngine) {
+      await this.indexReady;
+      await this.indexEngine.updateFile(filePath);
+    }
+    await this.publishDiagnostics(uri);
+  }
+
+  private handleDidClose(params: any): void {
+    const uri = params.textDocument.uri;
+    this.documents.delete(uriToPath(uri));
+    // 關閉時可能未儲存，改回磁碟內容
+    this.invalidateFile(uriToPath(uri));
+    this.connection?.notify('textDocument/publishDiagnostics', { uri, diagnostics: [] });
+  }
+
+  /**
+   * 編輯器以外的檔案變更（如 git checkout、程式產生的檔案）
+   */
+  private async handleDidChangeWatchedFiles(params: any): Promise<void> {
+    const changes: Array<{ uri: string; type: FileChangeType }> = params?.changes ?? [];
+
+    for (const change of changes) {
+      const filePath = uriToPath(change.uri);
+      this.invalidateFile(filePath);
+      if (change.type === FileChangeType.Deleted) {
+        this.typeScriptParser?.unregisterFiles([filePath]);
+      }
+
+      if (this.indexEngine && this.registry.getParser(path.extname(filePath))) {
+        await this.indexReady;
+        try {
+          await (change.type === FileChangeType.Deleted ? this.indexEngine.removeFile(filePath) : this.indexEngine.updateFile(filePath));
+        } catch (error) {
+          console.error(`更新索引失敗 ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    }
+  }
+
+  private invalidateFile(filePath: string): void {
+    this.diskContents.delete(filePath);
+    this.registeredFiles.delete(filePath);
+  }
+
+  // ===== 查詢 =====
+
+  private async handleDefinition(params: TextDocumentPositionParams): Promise<LspLocation[] | null> {
+    const document = await this.parseDocument(params.textDocument.uri);
+    if (!document) {
+      return null;
+    }
+
+    const word = this.getWordAtPosition(document.text, params.position);
+    if (!word) {
+      return null;
+    }
+
+    if (this.usesLanguageService(document.filePath)) {
+      const definitions = await this.findLanguageServiceDefinitions(document, word.range.start);
+      return definitions.length > 0 ? definitions : null;
+    }
+
+    // 其他語言只由 Parser 在當前檔案中解析
+    const definition = await document.parser.findDefinition(document.ast, {
+      line: word.range.start.line,
+      column: word.range.start.character,
+      offset: undefined
+    });
+    return definition ? [this.toLocation(definition.location.filePath, definition.location.range)] : null;
+  }
+
+  private async handleReferences(params: TextDocumentPositionParams & { context?: { includeDeclaration?: boolean } }): Promise<LspLocation[]> {
+    const target = await this.resolveTarget(params);
+    if (!target) {
+      return [];
+    }
+
+    const includeDeclaration = params.context?.includeDeclaration ?? true;
+
+    return target.locations
+      .filter(location => includeDeclaration || !location.isDefinition)
+      .map(location => ({ uri: location.uri, range: location.range }));
+  }
+
+  private async handlePrepareRename(params: TextDocumentPositionParams): Promise<{ range: LspRange; placeholder: string } | null> {
+    const target = await this.resolveTarget(params);
+    if (!target || !this.isRenameable(target)) {
+      return null;
+    }
+
+    return { range: target.range, placeholder: target.name };
+  }
+
+  private async handleRename(params: TextDocumentPositionParams & { newName: string }): Promise<WorkspaceEdit> {
+    if (!IDENTIFIER_PATTERN.test(params.newName)) {
+      throw new JsonRpcError(JsonRpcErrorCode.InvalidParams, `無效的識別字: ${params.newName}`);
+    }
+
+    const target = await this.resolveTarget(params);
+    if (!target) {
+      throw new JsonRpcError(LspErrorCode.RequestFailed, '該位置沒有可重新命名的符號');
+    }
+    if (!this.isRenameable(target)) {
+      throw new JsonRpcError(LspErrorCode.RequestFailed, `${target.name} 宣告在工作區外，無法重新命名`);
+    }
+
+    const changes: Record<string, TextEdit[]> = {};
+
+    for (const location of target.locations) {
+      (changes[location.uri] ??= []).push({ range: location.range, newText: params.newName });
+    }
+
+    return { changes };
+  }
+
+  private async handleDocumentSymbol(params: { textDocument: { uri: string } }): Promise<SymbolInformation[]> {
+    const document = await this.parseDocument(params.textDocument.uri);
+    if (!document) {
+      return [];
+    }
+
+    const symbols = await document.parser.extractSymbols(document.ast);
+    return symbols.map(symbol => this.toSymbolInformation(symbol, document.filePath));
+  }
+
+  private async handleWorkspaceSymbol(params: { query?: string }): Promise<SymbolInformation[]> {
+    const indexEngine = await this.getIndexEngine();
+    const query = params?.query?.trim() ?? '';
+
+    const results = query
+      ? await indexEngine.searchSymbols(query, createSearchOptions({ maxResults: 200 }))
+      : (await indexEngine.getAllSymbols()).slice(0, 200);
+
+    const seen = new Set<string>();
+    return results
+      .map(result => this.toSymbolInformation(result.symbol, result.symbol.location.filePath))
+      .filter(info => {
+        const { start } = info.location.range;
+        const key = `${info.name}@${info.location.uri}:${start.line}:${start.character}`;
+        if (seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+  }
+
+  // ===== 診斷 =====
+
+  /**
+   * 執行 Parser 分析器並發布診斷
+   */
+  private async publishDiagnostics(uri: string): Promise<void> {
+    const document = await this.parseDocument(uri);
+    if (!document) {
+      return;
+    }
+
+    const { parser, ast, text, filePath } = document;
+    const diagnostics: Diagnostic[] = [];
+
+    try {
+      const [typeSafety, security, errorHandling, naming] = await Promise.all([
+        parser.checkTypeSafety(text, ast),
+        parser.checkSecurity(text, ast),
+        parser.checkErrorHandling(text, ast),
+        parser.extractSymbols(ast).then(symbols => parser.checkNamingConventions(symbols, filePath))
+      ]);
+
+      // 分析器回報的行號：security、errorHandling 為 1-based；naming 沿用符號位置（0-based）；typeSafety 無位置
+      for (const issue of typeSafety) {
+        diagnostics.push(this.createDiagnostic(text, issue.location.line, issue.type, issue.message,
+          issue.severity === 'error' ? DiagnosticSeverity.Error : DiagnosticSeverity.Warning));
+      }
+      for (const issue of security) {
+        const severity = issue.severity === 'critical' || issue.severity === 'high'
+          ? DiagnosticSeverity.Error
+          : DiagnosticSeverity.Warning;
+        const message = issue.recommendation ? `${issue.message}（${issue.recommendation}）` : issue.message;
+        diagnostics.push(this.createDiagnostic(text, issue.location.line - 1, issue.type, message, severity));
+      }
+      for (const issue of errorHandling) {
+        diagnostics.push(this.createDiagnostic(text, issue.location.line - 1, issue.type, issue.message,
+          issue.severity === 'error' ? DiagnosticSeverity.Error : DiagnosticSeverity.Warning));
+      }
+      for (const issue of naming) {
+        const message = issue.suggestedName ? `${issue.message}，建議: ${issue.suggestedName}` : issue.message;
+        diagnostics.push(this.createDiagnostic(text, issue.location.line, issue.type, message, DiagnosticSeverity.Information));
+      }
+    } catch (error) {
+      console.error(`分析失敗 ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    this.connection?.notify('textDocument/publishDiagnostics', { uri, diagnostics });
+  }
+
+  /**
+   * 建立整行範圍的診斷
+   */
+  private createDiagnostic(
+    text: string,
+    line: number,
+    code: string,
+    message: string,
+    severity: DiagnosticSeverity
+  ): Diagnostic {
+    const lines = text.split('\n');
+    const lineIndex = Math.min(Math.max(0, line), Math.max(0, lines.length - 1));
+    const lineText = lines[lineIndex] ?? '';
+    const indent = lineText.length - lineText.trimStart().length;
+
+    return {
+      range: {
+        start: { line: lineIndex, character: indent },
+        end: { line: lineIndex, character: lineText.length }
+      },
+      severity,
+      code,
+      source: DIAGNOSTIC_SOURCE,
+      message
+    };
+  }
+
+  // ===== 參考查找 =====
+
+  /**
+   * 解析游標位置的符號並找出所有引用
+   * TypeScript/JavaScript 由 Language Service 依符號跨檔案查找；其他語言由 Parser 在當前檔案中查找
+   */
+  private async resolveTarget(params: TextDocumentPositionParams): Promise<ResolvedTarget | null> {
+    const document = await this.parseDocument(params.textDocument.uri);
+    if (!document) {
+      return null;
+    }
+
+    const word = this.getWordAtPosition(document.text, params.position);
+    if (!word) {
+      return null;
+    }
+
+    const locations = this.usesLanguageService(document.filePath)
+      ? await this.findLanguageServiceReferences(document, word.range.start)
+      : await this.findParserReferences(document, word.range.start);
+    if (locations.length === 0) {
+      return null;
+    }
+
+    return { name: word.name, range: word.range, locations };
+  }
+
+  private async findLanguageServiceReferences(document: ParsedDocument, position: LspPosition): Promise<ReferenceLocation[]> {
+    const { parser, ast } = await this.prepareLanguageService(document);
+    const sourceFile = ast.tsSourceFile;
+    const identifier = findIdentifierAt(sourceFile, sourceFile.getPositionOfLineAndCharacter(position.line, position.character));
+    if (!identifier) {
+      return [];
+    }
+
+    const symbol: TypeScriptSymbol = {
+      name: identifier.text,
+      type: SymbolType.Variable,
+      location: { filePath: document.filePath, range: tsNodeToRange(identifier, sourceFile) },
+      scope: undefined,
+      modifiers: [],
+      tsNode: identifier
+    };
+    return this.toReferenceLocations(await parser.findReferences(ast, symbol));
+  }
+
+  /**
+   * 以型別檢查器解析游標位置的符號，匯入的別名追到原始宣告
+   */
+  private async findLanguageServiceDefinitions(document: ParsedDocument, position: LspPosition): Promise<LspLocation[]> {
+    const { parser, ast } = await this.prepareLanguageService(document);
+    const program = parser.getProgram(ast);
+    const sourceFile = program?.getSourceFile(document.filePath);
+    if (!program || !sourceFile) {
+      return [];
+    }
+
+    const identifier = findIdentifierAt(sourceFile, sourceFile.getPositionOfLineAndCharacter(position.line, position.character));
+    if (!identifier) {
+      return [];
+    }
+
+    const checker = program.getTypeChecker();
+    let symbol = checker.getSymbolAtLocation(identifier);
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+      symbol = checker.getAliasedSymbol(symbol);
+    }
+
+    return (symbol?.declarations ?? []).map(declaration => {
+      const declarationFile = declaration.getSourceFile();
+      const name = ts.getNameOfDeclaration(declaration) ?? declaration;
+      return this.toLocation(declarationFile.fileName, tsNodeToRange(name, declarationFile));
+    });
+  }
+
+  /**
+   * 將工作區的 TypeScript/JavaScript 檔案（含編輯器中未儲存的內容）加入 Language Service
+   * 只加入尚未加入或內容已變更的檔案，游標所在的文件由 parse 以目前內容加入
+   */
+  private async prepareLanguageService(document: ParsedDocument): Promise<{ parser: TypeScriptParser; ast: TypeScriptAST }> {
+    const parser = this.typeScriptParser ??= new TypeScriptParser();
+    const indexEngine = await this.getIndexEngine();
+
+    const filePaths = new Set(indexEngine.getAllIndexedFiles().map(file => file.filePath));
+    for (const filePath of this.documents.keys()) {
+      filePaths.add(filePath);
+    }
+    filePaths.delete(document.filePath);
+
+    const files: Array<{ filePath: string; content: string }> = [];
+    for (const filePath of filePaths) {
+      if (this.registeredFiles.has(filePath) || !this.usesLanguageService(filePath)) {
+        continue;
+      }
+      const content = await this.getDocumentText(filePath);
+      if (content !== null) {
+        files.push({ filePath, content });
+        this.registeredFiles.add(filePath);
+      }
+    }
+    parser.registerFiles(files);
+    this.registeredFiles.add(document.filePath);
+
+    const ast = await parser.parse(document.text, document.filePath) as TypeScriptAST;
+    return { parser, ast };
+  }
+
+  /**
+   * 由 Parser 解析游標位置的宣告，再查找當前檔案中的引用
+   */
+  private async findParserReferences(document: ParsedDocument, position: LspPosition): Promise<ReferenceLocation[]> {
+    const { parser, ast, filePath } = document;
+    const definition = await parser.findDefinition(ast, { line: position.line, column: position.character, offset: undefined });
+    if (!definition) {
+      return [];
+    }
+
+    const { start } = definition.location.range;
+    const symbol = (await parser.extractSymbols(ast)).find(candidate =>
+      candidate.location.range.start.line === start.line && candidate.location.range.start.column === start.column);
+    if (!symbol) {
+      return [];
+    }
+
+    const references = await parser.findReferences(ast, symbol);
+    return this.toReferenceLocations(references.filter(reference => path.resolve(reference.location.filePath) === path.resolve(filePath)));
+  }
+
+  /**
+   * 轉為 LSP 位置並合併重複的引用（匯入處同時是原始符號的引用與別名的宣告）
+   */
+  private toReferenceLocations(references: Reference[]): ReferenceLocation[] {
+    const locations = new Map<string, ReferenceLocation>();
+
+    for (const reference of references) {
+      const location = this.toLocation(reference.location.filePath, reference.location.range);
+      const key = `${location.uri}:${location.range.start.line}:${location.range.start.character}`;
+      const isDefinition = reference.type === 'definition' || locations.get(key)?.isDefinition === true;
+      locations.set(key, { ...location, isDefinition });
+    }
+
+    return Array.from(locations.values());
+  }
+
+  /**
+   * 所有引用都在工作區內（不含 node_modules、標準函式庫宣告）才能重新命名
+   */
+  private isRenameable(target: ResolvedTarget): boolean {
+    return target.locations.every(location => {
+      const relativePath = path.relative(this.workspacePath, uriToPath(location.uri));
+      return !relativePath.startsWith('..') && !path.isAbsolute(relativePath) && !relativePath.split(path.sep).includes('node_modules');
+    });
+  }
+
+  private usesLanguageService(filePath: string): boolean {
+    return LANGUAGE_SERVICE_EXTENSIONS.has(path.extname(filePath));
+  }
+
+  // ===== 工具函式 =====
+
+  /**
+   * 解析文件（優先使用編輯器中開啟的內容）
+   */
+  private async parseDocument(uri: string): Promise<ParsedDocument | null> {
+    const filePath = uriToPath(uri);
+    const parser = this.registry.getParser(path.extname(filePath));
+    if (!parser) {
+      return null;
+    }
+
+    const text = await this.getDocumentText(filePath);
+    if (text === null) {
+      return null;
+    }
+
+    try {
+      const ast = await parser.parse(text, filePath);
+      return { filePath, text, parser, ast };
+    } catch (error) {
+      console.error(`解析失敗 ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+
+  private async getDocumentText(filePath: string): Promise<string | null> {
+    const document = this.documents.get(filePath);
+    if (document) {
+      return document.text;
+    }
+
+    const cached = this.diskContents.get(filePath);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    let content: string | null;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      content = null;
+    }
+    this.diskContents.set(filePath, content);
+    return content;
+  }
+
+  private getWordAtPosition(text: string, position: LspPosition): WordAtPosition | null {
+    const line = text.split('\n')[position.line];
+    if (line === undefined) {
+      return null;
+    }
+
+    let start = Math.min(position.character, line.length);
+    let end = start;
+    while (start > 0 && IDENTIFIER_CHAR.test(line[start - 1])) {
+      start--;
+    }
+    while (end < line.length && IDENTIFIER_CHAR.test(line[end])) {
+      end++;
+    }
+
+    const name = line.substring(start, end);
+    if (!IDENTIFIER_PATTERN.test(name)) {
+      return null;
+    }
+
+    return {
+      name,
+      range: {
+        start: { line: position.line, character: start },
+        end: { line: position.line, character: end }
+      }
+    };
+  }
+
+  private toLocation(filePath: string, range: Parameters<typeof toLspRange>[0]): LspLocation {
+    return { uri: pathToUri(filePath), range: toLspRange(range) };
+  }
+
+  private toSymbolInformation(symbol: Symbol, filePath: string): SymbolInformation {
+    return {
+      name: symbol.name,
+      kind: toSymbolKind(symbol.type),
+      location: this.toLocation(filePath, symbol.location.range),
+      ...(symbol.scope?.name && { containerName: symbol.scope.name })
+    };
+  }
+
+  /**
+   * stdout 保留給協定訊息，將一般輸出導向 stderr
+   */
+  private redirectConsole(): void {
+    this.originalConsole = { log: console.log, info: console.info };
+    console.log = (...args: any[]) => process.stderr.write(format(...args) + '\n');
+    console.info = console.log;
+  }
+
+  private restoreConsole(): void {
+    if (this.originalConsole) {
+      console.log = this.originalConsole.log;
+      console.info = this.originalConsole.info;
+      this.originalConsole = undefined;
+    }
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * LSP 協定型別與轉換工具
+ * 只定義 agent-ide 使用到的 Language Server Protocol 子集
+ */
+
+import { fileURLToPath, pathToFileURL } from 'url';
+import type { Range } from '../../shared/types/index.js';
+import { SymbolType } from '../../shared/types/index.js';
+
+/**
+ * LSP 位置（0-based 行與 UTF-16 字元）
+ */
+export interface LspPosition {
+  line: number;
+  character: number;
+}
+
+/**
+ * LSP 範圍
+ */
+export interface LspRange {
+  start: LspPosition;
+  end: LspPosition;
+}
+
+/**
+ * LSP 檔案位置
+ */
+export interface LspLocation {
+  uri: string;
+  range: LspRange;
+}
+
+/**
+ * 文字編輯
+ */
+export interface TextEdit {
+  range: LspRange;
+  newText: string;
+}
+
+/**
+ * 工作區編輯
+ */
+export interface WorkspaceEdit {
+  changes: Record<string, TextEdit[]>;
+}
+
+/**
+ * 文件識別與位置參數
+ */
+export interface TextDocumentPositionParams {
+  textDocument: { uri: string };
+  position: LspPosition;
+}
+
+/**
+ * 診斷嚴重程度
+ */
+export enum DiagnosticSeverity {
+  Error = 1,
+  Warning = 2,
+  Information = 3,
+  Hint = 4
+}
+
+/**
+ * 診斷訊息
+ */
+export interface Diagnostic {
+  range: LspRange;
+  severity: DiagnosticSeverity;
+  code: string;
+  source: string;
+  message: string;
+}
+
+/**
+ * 符號種類（LSP SymbolKind）
+ */
+export enum SymbolKind {
+  File = 1,
+  Module = 2,
+  Namespace = 3,
+  Class = 5,
+  Method = 6,
+  Property = 7,
+  Enum = 10,
+  Interface = 11,
+  Function = 12,
+  Variable = 13,
+  Constant = 14,
+  Struct = 23,
+  TypeParameter = 26
+}
+
+/**
+ * 符號資訊
+ */
+export interface SymbolInformation {
+  name: string;
+  kind: SymbolKind;
+  location: LspLocation;
+  containerName?: string;
+}
+
+/**
+ * 文件同步方式
+ */
+export enum TextDocumentSyncKind {
+  None = 0,
+  Full = 1,
+  Incremental = 2
+}
+
+/**
+ * 監看檔案的變更種類（workspace/didChangeWatchedFiles）
+ */
+export enum FileChangeType {
+  Created = 1,
+  Changed = 2,
+  Deleted = 3
+}
+
+/**
+ * LSP 專用錯誤碼
+ */
+export enum LspErrorCode {
+  ServerNotInitialized = -32002,
+  RequestFailed = -32803
+}
+
+const SYMBOL_KIND_MAP: Record<SymbolType, SymbolKind> = {
+  [SymbolType.Class]: SymbolKind.Class,
+  [SymbolType.Interface]: SymbolKind.Interface,
+  [SymbolType.Protocol]: SymbolKind.Interface,
+  [SymbolType.Struct]: SymbolKind.Struct,
+  [SymbolType.Function]: SymbolKind.Function,
+  [SymbolType.Variable]: SymbolKind.Variable,
+  [SymbolType.Constant]: SymbolKind.Constant,
+  [SymbolType.Property]: SymbolKind.Property,
+  [SymbolType.Type]: SymbolKind.TypeParameter,
+  [SymbolType.Enum]: SymbolKind.Enum,
+  [SymbolType.Module]: SymbolKind.Module,
+  [SymbolType.Namespace]: SymbolKind.Namespace
+};
+
+/**
+ * 轉換符號類型為 LSP SymbolKind
+ */
+export function toSymbolKind(type: SymbolType): SymbolKind {
+  return SYMBOL_KIND_MAP[type] ?? SymbolKind.Variable;
+}
+
+/**
+ * 轉換 Parser 範圍為 LSP 範圍
+ * Parser 插件回傳的 Symbol/Reference 範圍為 0-based，與 LSP 相同
+ */
+export function toLspRange(range: Range): LspRange {
+  return {
+    start: { line: Math.max(0, range.start.line), character: Math.max(0, range.start.column) },
+    end: { line: Math.max(0, range.end.line), character: Math.max(0, range.end.column) }
+  };
+}
+
+/**
+ * 檔案 URI 轉為絕對路徑
+ */
+export function uriToPath(uri: string): string {
+  return uri.startsWith('file:') ? fileURLToPath(uri) : uri;
+}
+
+/**
+ * 絕對路徑轉為檔案 URI
+ */
+export function pathToUri(filePath: string): string {
+  return pathToFileURL(filePath).href;
+}
@@ -0,0 +1,8 @@
+/**
+ * MCP 模組統一匯出
+ */
+
+export { McpServer, MCP_TOOLS } from './mcp-server.js';
+export type { McpServerOptions, ToolCallResult } from './mcp-server.js';
+export { buildToolDefinition, buildCommandArgs } from './tool-schema.js';
+export type { ToolDefinition, ToolInputSchema, JsonSchemaProperty } from './tool-schema.js';
@@ -0,0 +1,270 @@
+/**
+ * MCP (Model Context Protocol) 伺服器
+ * 透過 stdio 將 CLI 命令以工具形式提供給 AI Agent，並在呼叫之間保留索引與分析器狀態
+ */
+
+import type { Readable, Writable } from 'stream';
+import { format } from 'util';
+import { JsonRpcConnection, JsonRpcError, JsonRpcErrorCode } from '../rpc/index.js';
+import type { AgentIdeCLI } from '../cli/cli.js';
+import { buildToolDefinition, buildCommandArgs } from './tool-schema.js';
+import type { ToolDefinition } from './tool-schema.js';
+
+/**
+ * 支援的 MCP 協定版本（由新到舊）
+ */
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+/**
+ * 工具與 CLI 命令的對應
+ */
+interface McpToolMapping {
+  readonly tool: string;
+  readonly command: string;
+  readonly description: string;
+}
+
+/**
+ * 開放的工具列表
+ */
+export const MCP_TOOLS: readonly McpToolMapping[] = [
+  { tool: 'code_search', command: 'search', description: '搜尋程式碼（文字、正則、符號、結構化搜尋）' },
+  { tool: 'code_rename', command: 'rename', description: '重新命名符號並更新所有引用（使用 preview 預覽變更）' },
+  { tool: 'code_rewrite', command: 'rewrite', description: '結構化搜尋取代（以程式碼模板比對並代入 metavariable，使用 preview 預覽 diff）' },
+  { tool: 'code_move', command: 'move', description: '移動檔案或目錄並自動更新 import 路徑' },
+  { tool: 'code_move_symbol', command: 'move-symbol', description: '將函式、類別或常數移到另一個檔案並更新所有引用者的 import（使用 preview 預覽）' },
+  { tool: 'code_refactor', command: 'refactor', description: '重構程式碼（extract-function | extract-closure | extract-variable | extract-constant | inline-variable | inline-function | change-signature | introduce-parameter-object | extract-interface）' },
+  { tool: 'code_undo', command: 'undo', description: '復原 rename / move / refactor / rewrite 操作（檔案在操作後被修改時拒絕）' },
+  { tool: 'code_redo', command: 'redo', description: '重做最近一次復原的操作' },
+  { tool: 'code_history', command: 'history', description: '列出可復原的操作歷史' },
+  { tool: 'code_analyze', command: 'analyze', description: '分析程式碼品質（complexity | dead-code | best-practices | patterns | quality | hotspots | coverage）' },
+  { tool: 'code_deps', command: 'deps', description: '分析依賴關係（graph | cycles | impact | orphans | check | packages | metrics | simulate）' },
+  { tool: 'code_shit', command: 'shit', description: '分析程式碼垃圾度（分數越高越糟糕）' },
+  { tool: 'code_snapshot', command: 'snapshot', description: '生成或管理程式碼快照（generate | info | diff | init）' }
+];
+
+/**
+ * 工具呼叫結果
+ */
+export interface ToolCallResult {
+  content: Array<{ type: 'text'; text: string }>;
+  isError: boolean;
+}
+
+/**
+ * MCP 伺服器選項
+ */
+export interface McpServerOptions {
+  readonly name: string;
+  readonly version: string;
+}
+
+type ConsoleMethod = 'log' | 'info' | 'debug' | 'warn' | 'error';
+
+/**
+ * MCP 伺服器
+ */
+export class McpServer {
+  private connection?: JsonRpcConnection;
+  private queue: Promise<unknown> = Promise.resolve();
+  private capture: { stdout: string[]; stderr: string[] } | null = null;
+  private originalConsole?: Record<ConsoleMethod, (...args: any[]) => void>;
+
+  constructor(
+    private readonly cli: AgentIdeCLI,
+    private readonly options: McpServerOptions
+  ) {}
+
+  /**
+   * 啟動伺服器並監聽輸入，直到輸入串流結束
+   */
+  async start(input: Readable = process.stdin, output: Writable = process.stdout): Promise<void> {
+    this.redirectConsole();
+
+    const connection = new JsonRpcConnection(input, output);
+    this.connection = connection;
+
+    connection.onRequest('initialize', (params) => this.handleInitialize(params));
+    connection.onRequest('ping', () => ({}));
+    connection.onRequest('tools/list', () => ({ tools: this.listTools() }));
+    connection.onRequest('tools/call', (params, token) => this.enqueue(async () => {
+      // 排隊期間已被取消的呼叫不再執行
+      if (token.isCancelled) {
+        throw new JsonRpcError(JsonRpcErrorCode.RequestCancelled, '請求已取消');
+      }
+      return this.handleToolCall(params);
+    }));
+    connection.onNotification('notifications/initialized', () => undefined);
+
+    await new Promise<void>((resolve) => {
+      connection.onClose(() => {
+        // 等待進行中的工具呼叫完成後再還原 console
+        void this.queue.then(() => {
+          this.restoreConsole();
+          resolve();
+        });
+      });
+      connection.listen();
+    });
+  }
+
+  /**
+   * 列出所有工具定義
+   */
+  listTools(): ToolDefinition[] {
+    return MCP_TOOLS.map(mapping => {
+      const command = this.cli.getCommand(mapping.command);
+      if (!command) {
+        throw new Error(`找不到命令: ${mapping.command}`);
+      }
+
+      const definition = buildToolDefinition(mapping.tool, command, mapping.description);
+
+      // Agent 預設使用 JSON 輸出
+      const formatProperty = definition.inputSchema.properties.format;
+      if (formatProperty && formatProperty.description.includes('json')) {
+        formatProperty.default = 'json';
+      }
+
+      return definition;
+    });
+  }
+
+  /**
+   * 執行工具
+   */
+  async callTool(name: string, args: Record<string, unknown> = {}): Promise<ToolCallResult> {
+    const mapping = MCP_TOOLS.find(tool => tool.tool === name);
+    if (!mapping) {
+      throw new JsonRpcError(JsonRpcErrorCode.InvalidParams, `未知的工具: ${name}`);
+    }
+
+    const command = this.cli.getCommand(mapping.command);
+    if (!command) {
+      throw new JsonRpcError(JsonRpcErrorCode.InternalError, `找不到命令: ${mapping.command}`);
+    }
+
+    let argv: string[];
+    try {
+      const hasFormat = command.options.some(option => option.attributeName() === 'format');
+      argv = buildCommandArgs(command, hasFormat && args.format === undefined ? { ...args, format: 'json' } : args);
+    } catch (error) {
+      return this.toResult(error instanceof Error ? error.message : String(error), true);
+    }
+
+    const output = { stdout: [] as string[], stderr: [] as string[] };
+    this.capture = output;
+    let exitCode: number;
+
+    try {
+      exitCode = await this.cli.execute(argv);
+    } catch (error) {
+      output.stderr.push(error instanceof Error ? error.message : String(error));
+      exitCode = 1;
+    } finally {
+      this.capture = null;
+    }
+
+    const text = [...output.stdout, ...output.stderr].join('\n').trim();
+    return this.toResult(text || (exitCode === 0 ? '完成' : '執行失敗'), exitCode !== 0);
+  }
+
+  /**
+   * 處理 initialize 請求
+   */
+  private handleInitialize(params: any): Record<string, unknown> {
+    const requested = params?.protocolVersion;
+    const protocolVersion = SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+      ? requested
+      : SUPPORTED_PROTOCOL_VERSIONS[0];
+
+    return {
+      protocolVersion,
+      capabilities: {
+        tools: { listChanged: false }
+      },
+      serverInfo: {
+        name: this.options.name,
+        version: this.options.version
+      }
+    };
+  }
+
+  /**
+   * 處理 tools/call 請求
+   */
+  private async handleToolCall(params: any): Promise<ToolCallResult> {
+    if (!params || typeof params.name !== 'string') {
+      throw new JsonRpcError(JsonRpcErrorCode.InvalidParams, '缺少工具名稱');
+    }
+
+    const args = params.arguments ?? {};
+    if (typeof args !== 'object' || Array.isArray(args)) {
+      throw new JsonRpcError(JsonRpcErrorCode.InvalidParams, '工具參數必須是物件');
+    }
+
+    return this.callTool(params.name, args);
+  }
+
+  /**
+   * 依序執行工具呼叫
+   * CLI 輸出透過全域 console 擷取，同一時間只能執行一個工具；
+   * ping、tools/list 等其他請求不排隊，工具執行期間仍可回應
+   */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * 建立工具結果
+   */
+  private toResult(text: string, isError: boolean): ToolCallResult {
+    return {
+      content: [{ type: 'text', text }],
+      isError
+    };
+  }
+
+  /**
+   * 重新導向 console
+   * stdout 保留給協定訊息：工具執行期間擷取輸出，其餘時間寫入 stderr
+   */
+  private redirectConsole(): void {
+    if (this.originalConsole) {
+      return;
+    }
+
+    const methods: ConsoleMethod[] = ['log', 'info', 'debug', 'warn', 'error'];
+    this.originalConsole = {} as Record<ConsoleMethod, (...args: any[]) => void>;
+
+    for (const method of methods) {
+      this.originalConsole[method] = console[method];
+      const isErrorStream = method === 'warn' || method === 'error';
+
+      console[method] = (...args: any[]) => {
+        const message = format(...args);
+        if (this.capture) {
+          (isErrorStream ? this.capture.stderr : this.capture.stdout).push(message);
+        } else if (method !== 'debug') {
+          process.stderr.write(message + '\n');
+        }
+      };
+    }
+  }
+
+  /**
+   * 還原 console
+   */
+  private restoreConsole(): void {
+    if (!this.originalConsole) {
+      return;
+    }
+
+    for (const [method, fn] of Object.entries(this.originalConsole)) {
+      console[method as ConsoleMethod] = fn;
+    }
+    this.originalConsole = undefined;
+  }
+}
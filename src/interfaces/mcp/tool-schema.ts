@@ -0,0 +1,154 @@
+/**
+ * MCP 工具 schema 產生
+ * 從 commander 命令定義推導工具的 JSON Schema，並將工具參數轉回命令列參數
+ */
+
+import type { Command, Option } from 'commander';
+
+/**
+ * JSON Schema 屬性
+ */
+export interface JsonSchemaProperty {
+  type: 'string' | 'boolean';
+  description: string;
+  default?: string | boolean;
+  enum?: string[];
+}
+
+/**
+ * 工具輸入 schema
+ */
+export interface ToolInputSchema {
+  type: 'object';
+  properties: Record<string, JsonSchemaProperty>;
+  required?: string[];
+  additionalProperties: false;
+}
+
+/**
+ * MCP 工具定義
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: ToolInputSchema;
+}
+
+/**
+ * 不開放給工具使用的選項
+ */
+const HIDDEN_OPTIONS = new Set(['help', 'version']);
+
+/**
+ * 從 commander 命令建立工具定義
+ */
+export function buildToolDefinition(name: string, command: Command, description?: string): ToolDefinition {
+  const properties: Record<string, JsonSchemaProperty> = {};
+  const required: string[] = [];
+
+  for (const argument of command.registeredArguments) {
+    const argName = getArgumentKey(command, argument.name());
+    properties[argName] = {
+      type: 'string',
+      description: argument.description || argName,
+      ...(argument.argChoices && { enum: [...argument.argChoices] })
+    };
+    if (argument.required) {
+      required.push(argName);
+    }
+  }
+
+  for (const option of command.options) {
+    const key = option.attributeName();
+    if (HIDDEN_OPTIONS.has(key) || option.hidden) {
+      continue;
+    }
+
+    properties[key] = buildOptionProperty(option);
+  }
+
+  return {
+    name,
+    description: description || command.description(),
+    inputSchema: {
+      type: 'object',
+      properties,
+      ...(required.length > 0 && { required }),
+      additionalProperties: false
+    }
+  };
+}
+
+/**
+ * 將工具參數轉換為命令列參數
+ * 位置參數依定義順序排列，選項使用長名稱
+ */
+export function buildCommandArgs(command: Command, args: Record<string, unknown> = {}): string[] {
+  const argv: string[] = [command.name()];
+  const known = new Set<string>();
+
+  for (const argument of command.registeredArguments) {
+    const argName = getArgumentKey(command, argument.name());
+    known.add(argName);
+    const value = args[argName];
+    if (value !== undefined && value !== null && value !== '') {
+      argv.push(String(value));
+    }
+  }
+
+  for (const option of command.options) {
+    const key = option.attributeName();
+    known.add(key);
+    const value = args[key];
+    if (value === undefined || value === null || !option.long) {
+      continue;
+    }
+
+    if (option.isBoolean()) {
+      if (value === true || value === 'true') {
+        argv.push(option.long);
+      }
+      continue;
+    }
+
+    argv.push(option.long, Array.isArray(value) ? value.join(',') : String(value));
+  }
+
+  const unknown = Object.keys(args).filter(key => !known.has(key));
+  if (unknown.length > 0) {
+    throw new Error(`未知的參數: ${unknown.join(', ')}`);
+  }
+
+  return argv;
+}
+
+/**
+ * 取得位置參數的屬性名稱
+ * 與選項同名時（如 search 的 [query] 與 --query）加上 Argument 後綴以區分
+ */
+function getArgumentKey(command: Command, argName: string): string {
+  const collides = command.options.some(option => option.attributeName() === argName);
+  return collides ? `${argName}Argument` : argName;
+}
+
+/**
+ * 建立選項的 schema 屬性
+ */
+function buildOptionProperty(option: Option): JsonSchemaProperty {
+  const isBoolean = option.isBoolean();
+  const property: JsonSchemaProperty = {
+    type: isBoolean ? 'boolean' : 'string',
+    description: option.description || option.flags
+  };
+
+  if (option.argChoices) {
+    property.enum = [...option.argChoices];
+  }
+
+  const defaultValue = option.defaultValue;
+  if (typeof defaultValue === 'string' || typeof defaultValue === 'boolean') {
+    property.default = defaultValue;
+  }
+
+  return property;
+}
@@ -0,0 +1,15 @@
+/**
+ * RPC 模組統一匯出
+ */
+
+export { JsonRpcConnection, JsonRpcError, JsonRpcErrorCode } from './json-rpc.js';
+export type {
+  JsonRpcId,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  JsonRpcFraming,
+  JsonRpcConnectionOptions,
+  JsonRpcCancellationToken,
+  JsonRpcRequestHandler,
+  JsonRpcNotificationHandler
+} from './json-rpc.js';
@@ -0,0 +1,393 @@
+/**
+ * JSON-RPC 2.0 連線實作
+ * 提供 stdio 上的請求分派與回應，供 MCP、LSP 等協定伺服器使用
+ */
+
+import type { Readable, Writable } from 'stream';
+import { createInterface } from 'readline';
+import type { Interface } from 'readline';
+
+/**
+ * JSON-RPC 識別碼
+ */
+export type JsonRpcId = string | number | null;
+
+/**
+ * JSON-RPC 請求（含 id）或通知（不含 id）
+ */
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: JsonRpcId;
+  method: string;
+  params?: any;
+}
+
+/**
+ * JSON-RPC 回應
+ */
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result?: any;
+  error?: {
+    code: number;
+    message: string;
+    data?: any;
+  };
+}
+
+/**
+ * JSON-RPC 標準錯誤碼
+ */
+export enum JsonRpcErrorCode {
+  ParseError = -32700,
+  InvalidRequest = -32600,
+  MethodNotFound = -32601,
+  InvalidParams = -32602,
+  InternalError = -32603,
+  RequestCancelled = -32800
+}
+
+/**
+ * JSON-RPC 錯誤
+ * 由處理器拋出時會轉換為對應的錯誤回應
+ */
+export class JsonRpcError extends Error {
+  readonly code: number;
+  readonly data: any;
+
+  constructor(code: number, message: string, data?: any) {
+    super(message);
+    this.name = 'JsonRpcError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+/**
+ * 訊息分隔方式
+ * - newline: 每行一則 JSON 訊息（MCP stdio）
+ * - content-length: 以 Content-Length 標頭分隔（LSP base protocol）
+ */
+export type JsonRpcFraming = 'newline' | 'content-length';
+
+/**
+ * 連線選項
+ */
+export interface JsonRpcConnectionOptions {
+  readonly framing?: JsonRpcFraming;
+}
+
+/**
+ * 請求的取消狀態
+ * 收到取消通知後 isCancelled 變為 true，處理器可據此提早結束
+ */
+export interface JsonRpcCancellationToken {
+  readonly isCancelled: boolean;
+}
+
+/**
+ * 請求處理器
+ */
+export type JsonRpcRequestHandler = (params: any, token: JsonRpcCancellationToken) => Promise<any> | any;
+
+/**
+ * 通知處理器
+ */
+export type JsonRpcNotificationHandler = (params: any) => Promise<void> | void;
+
+/**
+ * 取消通知：LSP 以 params.id、MCP 以 params.requestId 指定請求
+ */
+const CANCEL_METHODS = new Map<string, 'id' | 'requestId'>([
+  ['$/cancelRequest', 'id'],
+  ['notifications/cancelled', 'requestId']
+]);
+
+/**
+ * JSON-RPC 連線
+ * 預設以換行分隔的 JSON 訊息進行通訊
+ */
+export class JsonRpcConnection {
+  private readonly requestHandlers = new Map<string, JsonRpcRequestHandler>();
+  private readonly notificationHandlers = new Map<string, JsonRpcNotificationHandler>();
+  private closeListeners: Array<() => void> = [];
+  private readonly framing: JsonRpcFraming;
+  private reader?: Interface;
+  private buffer: Buffer = Buffer.alloc(0);
+  private closed = false;
+  private processing: Promise<void> = Promise.resolve();
+  private readonly inflight = new Set<Promise<void>>();
+  private readonly pending = new Map<string | number, { isCancelled: boolean }>();
+
+  constructor(
+    private readonly input: Readable,
+    private readonly output: Writable,
+    options: JsonRpcConnectionOptions = {}
+  ) {
+    this.framing = options.framing ?? 'newline';
+  }
+
+  /**
+   * 註冊請求處理器
+   */
+  onRequest(method: string, handler: JsonRpcRequestHandler): void {
+    this.requestHandlers.set(method, handler);
+  }
+
+  /**
+   * 註冊通知處理器
+   */
+  onNotification(method: string, handler: JsonRpcNotificationHandler): void {
+    this.notificationHandlers.set(method, handler);
+  }
+
+  /**
+   * 註冊連線關閉監聽器
+   */
+  onClose(listener: () => void): void {
+    this.closeListeners.push(listener);
+  }
+
+  /**
+   * 發送通知
+   */
+  notify(method: string, params?: any): void {
+    this.send({ jsonrpc: '2.0', method, ...(params !== undefined && { params }) });
+  }
+
+  /**
+   * 開始監聽輸入
+   */
+  listen(): void {
+    if (this.framing === 'content-length') {
+      this.input.on('data', this.handleData);
+      this.input.on('end', this.handleEnd);
+      return;
+    }
+
+    const reader = createInterface({ input: this.input, crlfDelay: Infinity });
+    this.reader = reader;
+
+    reader.on('line', (line) => {
+      const trimmed = line.trim();
+      if (trimmed) {
+        this.enqueue(trimmed);
+      }
+    });
+
+    reader.on('close', this.handleEnd);
+  }
+
+  /**
+   * 停止監聽輸入並通知關閉監聽器
+   */
+  close(): void {
+    if (this.framing === 'content-length') {
+      this.input.off('data', this.handleData);
+      this.input.off('end', this.handleEnd);
+      this.input.pause();
+      this.handleEnd();
+      return;
+    }
+
+    // readline 關閉時會觸發 handleEnd
+    this.reader?.close();
+  }
+
+  /**
+   * 處理 Content-Length 分隔的輸入
+   */
+  private readonly handleData = (chunk: Buffer | string): void => {
+    this.buffer = Buffer.concat([this.buffer, typeof chunk === 'string' ? Buffer.from(chunk) : chunk]);
+
+    for (;;) {
+      const headerEnd = this.buffer.indexOf('\r\n\r\n');
+      if (headerEnd === -1) {
+        return;
+      }
+
+      const header = this.buffer.subarray(0, headerEnd).toString('ascii');
+      const match = /content-length:\s*(\d+)/i.exec(header);
+      if (!match) {
+        // 標頭無效，丟棄後繼續
+        this.buffer = this.buffer.subarray(headerEnd + 4);
+        this.sendError(null, JsonRpcErrorCode.ParseError, '缺少 Content-Length 標頭');
+        continue;
+      }
+
+      const length = parseInt(match[1], 10);
+      const bodyStart = headerEnd + 4;
+      if (this.buffer.length < bodyStart + length) {
+        return;
+      }
+
+      const body = this.buffer.subarray(bodyStart, bodyStart + length).toString('utf8');
+      this.buffer = this.buffer.subarray(bodyStart + length);
+      this.enqueue(body);
+    }
+  };
+
+  /**
+   * 解析並排程訊息
+   * 通知依收到的順序處理；請求在先前的通知處理完後並行執行，
+   * 長時間執行的請求不會阻塞 ping 或取消通知
+   */
+  private enqueue(raw: string): void {
+    let message: any;
+
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      this.sendError(null, JsonRpcErrorCode.ParseError, '無法解析 JSON 訊息');
+      return;
+    }
+
+    for (const item of Array.isArray(message) ? message : [message]) {
+      const cancelKey = item && typeof item === 'object' ? CANCEL_METHODS.get(item.method) : undefined;
+      if (cancelKey) {
+        this.cancel(item.params?.[cancelKey], item.method === '$/cancelRequest');
+        continue;
+      }
+
+      if (item && typeof item === 'object' && typeof item.method === 'string' && item.id !== undefined) {
+        const token = { isCancelled: false };
+        if (typeof item.id === 'string' || typeof item.id === 'number') {
+          this.pending.set(item.id, token);
+        }
+
+        const task = this.processing.then(() => this.dispatch(item, token));
+        this.inflight.add(task);
+        void task.then(() => this.inflight.delete(task));
+        continue;
+      }
+
+      this.processing = this.processing.then(() => this.dispatch(item));
+    }
+  }
+
+  /**
+   * 取消進行中的請求
+   * 之後不再送出該請求的結果；LSP 的 $/cancelRequest 立即回應 RequestCancelled 錯誤
+   */
+  private cancel(id: JsonRpcId, respond: boolean): void {
+    const token = id !== null ? this.pending.get(id) : undefined;
+    if (id === null || !token) {
+      return;
+    }
+
+    token.isCancelled = true;
+    this.pending.delete(id);
+    if (respond) {
+      this.sendError(id, JsonRpcErrorCode.RequestCancelled, '請求已取消');
+    }
+  }
+
+  /**
+   * 處理輸入結束，待已收到的訊息處理完畢後通知關閉監聽器
+   */
+  private readonly handleEnd = (): void => {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    void this.processing
+      .then(() => Promise.all(this.inflight))
+      .then(() => {
+        this.closeListeners.forEach(listener => listener());
+      });
+  };
+
+  /**
+   * 分派請求或通知
+   */
+  private async dispatch(message: any, token: { isCancelled: boolean } = { isCancelled: false }): Promise<void> {
+    if (!message || typeof message !== 'object' || typeof message.method !== 'string') {
+      // 回應訊息或格式錯誤的訊息：伺服器不發出請求，直接忽略回應
+      if (message && typeof message === 'object' && ('result' in message || 'error' in message)) {
+        return;
+      }
+      this.sendError(message?.id ?? null, JsonRpcErrorCode.InvalidRequest, '無效的 JSON-RPC 請求');
+      return;
+    }
+
+    const request = message as JsonRpcRequest;
+    const isNotification = request.id === undefined;
+
+    if (isNotification) {
+      const handler = this.notificationHandlers.get(request.method);
+      if (handler) {
+        try {
+          await handler(request.params);
+        } catch {
+          // 通知沒有回應通道，忽略處理錯誤
+        }
+      }
+      return;
+    }
+
+    const handler = this.requestHandlers.get(request.method);
+    if (!handler) {
+      this.finish(request.id ?? null, token);
+      this.sendError(request.id ?? null, JsonRpcErrorCode.MethodNotFound, `未知的方法: ${request.method}`);
+      return;
+    }
+
+    if (token.isCancelled) {
+      return;
+    }
+
+    try {
+      const result = await handler(request.params, token);
+      if (this.finish(request.id ?? null, token)) {
+        this.send({ jsonrpc: '2.0', id: request.id ?? null, result: result ?? null });
+      }
+    } catch (error) {
+      if (!this.finish(request.id ?? null, token)) {
+        return;
+      }
+      if (error instanceof JsonRpcError) {
+        this.sendError(request.id ?? null, error.code, error.message, error.data);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.sendError(request.id ?? null, JsonRpcErrorCode.InternalError, errorMessage);
+      }
+    }
+  }
+
+  /**
+   * 結束請求的追蹤，回傳是否仍需送出回應（已取消的請求不回應）
+   */
+  private finish(id: JsonRpcId, token?: { isCancelled: boolean }): boolean {
+    if (id !== null && this.pending.get(id) === token) {
+      this.pending.delete(id);
+    }
+    return !token?.isCancelled;
+  }
+
+  /**
+   * 發送錯誤回應
+   */
+  private sendError(id: JsonRpcId, code: number, message: string, data?: any): void {
+    const response: JsonRpcResponse = {
+      jsonrpc: '2.0',
+      id,
+      error: { code, message, ...(data !== undefined && { data }) }
+    };
+    this.send(response);
+  }
+
+  /**
+   * 寫出訊息
+   */
+  private send(message: JsonRpcResponse | JsonRpcRequest): void {
+    const json = JSON.stringify(message);
+
+    if (this.framing === 'content-length') {
+      this.output.write(`Content-Length: ${Buffer.byteLength(json, 'utf8')}\r\n\r\n${json}`);
+      return;
+    }
+
+    this.output.write(json + '\n');
+  }
+}
@@ -37,6 +37,14 @@ export { SwiftSymbolExtractor, createSymbolExtractor } from './symbol-extractor.
 // 依賴分析器
 export { SwiftDependencyAnalyzer, createDependencyAnalyzer } from './dependency-analyzer.js';
 
+// 協定提取器
+export {
+  SwiftProtocolExtractor,
+  type SwiftTextEdit,
+  type SwiftProtocolExtractOptions,
+  type SwiftProtocolExtractResult
+} from './protocol-extractor.js';
+
 /**
  * 註冊 Swift Parser 到 Parser Registry
  */
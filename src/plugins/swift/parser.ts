@@ -3,7 +3,7 @@
  * 實作 ParserPlugin 介面
  */
 
-import { exec } from 'child_process';
+import { exec, spawn } from 'child_process';
 import { promisify } from 'util';
 import * as path from 'path';
 import * as fs from 'fs';
@@ -90,11 +90,7 @@ export class SwiftParser implements ParserPlugin {
 
     try {
       // 呼叫 Swift CLI Bridge
-      const cliPath = this.resolveCliPath();
-      const escapedCode = code.replace(/'/g, '\'\\\'\''); // 逸出單引號
-      const { stdout } = await execAsync(`echo '${escapedCode}' | ${cliPath}`, {
-        maxBuffer: 10 * 1024 * 1024 // 10MB buffer
-      });
+      const stdout = await this.runCli(this.resolveCliPath(), code);
 
       // 解析 JSON 輸出
       const cliOutput = JSON.parse(stdout);
@@ -133,6 +129,32 @@ export class SwiftParser implements ParserPlugin {
     }
   }
 
+  /**
+   * 經由 stdin 將原始碼交給 CLI Bridge；不經過 shell 的 echo，避免字串中的 \n 等跳脫字元被展開而讓 AST 的行列位置偏移
+   */
+  private runCli(cliPath: string, code: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(cliPath, [], { stdio: ['pipe', 'pipe', 'pipe'] });
+      const stdout: Buffer[] = [];
+      const stderr: Buffer[] = [];
+      child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+      child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+      child.stdin.on('error', () => {
+        // CLI 提早結束時由 close 事件回報錯誤
+      });
+      child.on('error', reject);
+      child.on('close', exitCode => {
+        const output = Buffer.concat(stdout).toString('utf-8');
+        if (exitCode === 0) {
+          resolve(output);
+        } else {
+          reject(new Error(Buffer.concat(stderr).toString('utf-8').trim() || output.trim() || `Swift CLI Bridge 結束代碼 ${exitCode}`));
+        }
+      });
+      child.stdin.end(code);
+    });
+  }
+
   /**
    * 解析 Swift CLI Bridge 路徑
    */
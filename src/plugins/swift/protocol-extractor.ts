@@ -0,0 +1,675 @@
+/**
+ * Swift 協定提取器
+ * 由 class/struct/actor 的非 private 成員（public/open 型別只取 public/open 成員）產生 protocol，讓型別宣告遵循該協定，
+ * 並可將參數與變數型別註記中的型別改為協定
+ * 以 Swift 外掛的 parser（SwiftSyntax AST）取得宣告、屬性、修飾符、巢狀型別與 #if 區塊
+ */
+
+import type { SwiftParser } from './parser.js';
+import type { SwiftAST, SwiftASTNode } from './types.js';
+
+// 以行（1-based）與欄（0-based）表示的文字編輯
+export interface SwiftTextEdit {
+  range: {
+    start: { line: number; column: number };
+    end: { line: number; column: number };
+  };
+  newText: string;
+  type: 'replace' | 'insert' | 'delete';
+}
+
+// 提取協定選項
+export interface SwiftProtocolExtractOptions {
+  filePath: string;
+  /** 型別名稱，巢狀型別可用 Outer.Inner 指定 */
+  typeName: string;
+  /** 協定名稱，省略時為「型別名稱 + Protocol」 */
+  protocolName?: string;
+  /** 是否將參數與變數型別註記中的型別改為協定 */
+  replaceUsages?: boolean;
+  /** 專案內的 Swift 原始檔案，用於名稱衝突檢查與跨檔案替換 */
+  files: ReadonlyArray<{ filePath: string; content: string }>;
+}
+
+// 提取協定結果
+export interface SwiftProtocolExtractResult {
+  success: boolean;
+  protocolName: string;
+  protocolDeclaration: string;
+  members: string[];
+  /** 每個檔案的編輯由檔案尾端往前排序，依序套用即可 */
+  files: Array<{ filePath: string; edits: SwiftTextEdit[] }>;
+  replacedUsages: number;
+  errors: string[];
+  warnings: string[];
+}
+
+// 型別宣告與其外層型別
+interface TypeDeclaration {
+  node: SwiftASTNode;
+  /** 由外而內的型別名稱，如 Outer.Inner */
+  qualifiedName: string;
+  /** 最外層的宣告（協定插入在它之前） */
+  outermost: SwiftASTNode;
+}
+
+// 協定需求：單一成員，或 #if 區塊中各分支的需求
+type Requirement =
+  | { kind: 'member'; name: string; text: string }
+  | { kind: 'ifConfig'; clauses: Array<{ directive: string; requirements: Requirement[] }> };
+
+interface OffsetEdit {
+  start: number;
+  end: number;
+  newText: string;
+}
+
+/** 可以擁有成員並遵循協定的型別宣告 */
+const TYPE_DECLARATIONS = ['ClassDecl', 'StructDecl', 'ActorDecl'];
+
+/** 名稱佔用型別命名空間的宣告 */
+const NAMED_TYPE_DECLARATIONS = ['ClassDecl', 'StructDecl', 'ActorDecl', 'EnumDecl', 'ProtocolDecl', 'TypeAliasDecl'];
+
+/** 協定需求可以保留的屬性（其餘如 @objc、@inlinable、屬性包裝器不適用於協定） */
+const REQUIREMENT_ATTRIBUTES = ['available', 'discardableResult', 'MainActor'];
+
+/** 協定本身從型別沿用的屬性 */
+const PROTOCOL_ATTRIBUTES = ['available', 'MainActor'];
+
+/**
+ * 原始碼與 AST 位置的對應：bridge 回傳的位置為含前置註解的 1-based 行與 UTF-8 欄，
+ * source 則是去除前後註解與空白的節點原始碼
+ */
+class SwiftSourceText {
+  private readonly lineStarts: number[] = [0];
+
+  constructor(readonly code: string) {
+    for (let index = code.indexOf('\n'); index >= 0; index = code.indexOf('\n', index + 1)) {
+      this.lineStarts.push(index + 1);
+    }
+  }
+
+  /**
+   * 節點（含前置註解）的起點
+   */
+  rawStart(node: SwiftASTNode): number {
+    const { line, column } = node.range.start;
+    const lineStart = this.lineStarts[line - 1] ?? this.code.length;
+    let index = lineStart;
+    for (let bytes = 0; bytes < column - 1 && index < this.code.length;) {
+      const codePoint = this.code.codePointAt(index)!;
+      bytes += codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+      index += codePoint > 0xffff ? 2 : 1;
+    }
+    return index;
+  }
+
+  /**
+   * 節點原始碼（不含前後註解與空白）的起點
+   */
+  start(node: SwiftASTNode): number {
+    const from = this.skipTrivia(this.rawStart(node));
+    const source = node.source ?? '';
+    if (this.code.startsWith(source, from)) {
+      return from;
+    }
+    const found = this.code.indexOf(source, this.rawStart(node));
+    return found < 0 ? from : found;
+  }
+
+  end(node: SwiftASTNode): number {
+    return this.start(node) + (node.source ?? '').length;
+  }
+
+  /**
+   * 緊接在節點前的 /// 文件註解起點，沒有時為節點起點
+   */
+  docStart(node: SwiftASTNode): number {
+    const start = this.start(node);
+    const rawStart = this.rawStart(node);
+    let docStart = start;
+    for (let lineStart = this.lineStartAt(start); lineStart > 0;) {
+      const previousStart = this.lineStartAt(lineStart - 1);
+      const line = this.code.slice(previousStart, lineStart - 1);
+      const commentAt = previousStart + line.indexOf('///');
+      if (!line.trim().startsWith('///') || commentAt < rawStart) {
+        break;
+      }
+      docStart = commentAt;
+      lineStart = previousStart;
+    }
+    return docStart;
+  }
+
+  /**
+   * 緊接在節點前的 /// 文件註解（每行以換行結尾）
+   */
+  docComment(node: SwiftASTNode): string {
+    const start = this.start(node);
+    const docStart = this.docStart(node);
+    return this.code.slice(docStart, this.lineStartAt(start))
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean)
+      .map(line => `${line}\n`)
+      .join('');
+  }
+
+  /**
+   * 所在行的縮排
+   */
+  indentAt(offset: number): string {
+    const lineStart = this.code.lastIndexOf('\n', offset - 1) + 1;
+    return /^[ \t]*/.exec(this.code.slice(lineStart))![0];
+  }
+
+  lineStartAt(offset: number): number {
+    return this.code.lastIndexOf('\n', offset - 1) + 1;
+  }
+
+  toPosition(offset: number): { line: number; column: number } {
+    const before = this.code.slice(0, offset);
+    const lineStart = before.lastIndexOf('\n') + 1;
+    return { line: before.split('\n').length, column: offset - lineStart };
+  }
+
+  /**
+   * 跳過空白與註解（Swift 的區塊註解可以巢狀）
+   */
+  private skipTrivia(index: number): number {
+    const code = this.code;
+    while (index < code.length) {
+      if (/\s/.test(code[index])) {
+        index++;
+      } else if (code.startsWith('//', index)) {
+        const end = code.indexOf('\n', index);
+        index = end < 0 ? code.length : end;
+      } else if (code.startsWith('/*', index)) {
+        let depth = 0;
+        do {
+          if (code.startsWith('/*', index)) {
+            depth++;
+            index += 2;
+          } else if (code.startsWith('*/', index)) {
+            depth--;
+            index += 2;
+          } else {
+            index++;
+          }
+        } while (depth > 0 && index < code.length);
+      } else {
+        break;
+      }
+    }
+    return index;
+  }
+}
+
+/**
+ * Swift 協定提取器
+ */
+export class SwiftProtocolExtractor {
+  constructor(private readonly parser: SwiftParser) {}
+
+  /**
+   * 由型別產生協定並讓型別遵循它
+   */
+  async extract(options: SwiftProtocolExtractOptions): Promise<SwiftProtocolExtractResult> {
+    const result: SwiftProtocolExtractResult = {
+      success: false,
+      protocolName: '',
+      protocolDeclaration: '',
+      members: [],
+      files: [],
+      replacedUsages: 0,
+      errors: [],
+      warnings: []
+    };
+    const fail = (message: string): SwiftProtocolExtractResult => {
+      result.errors.push(message);
+      return result;
+    };
+
+    const code = options.files.find(file => file.filePath === options.filePath)?.content;
+    if (code === undefined) {
+      return fail(`找不到檔案: ${options.filePath}`);
+    }
+    const parsed = new Map<string, { source: SwiftSourceText; root: SwiftASTNode }>();
+    const parse = async (filePath: string, content: string) => {
+      if (!parsed.has(filePath)) {
+        const ast = await this.parser.parse(content, filePath) as SwiftAST;
+        parsed.set(filePath, { source: new SwiftSourceText(content), root: ast.root });
+      }
+      return parsed.get(filePath)!;
+    };
+
+    let target: { source: SwiftSourceText; root: SwiftASTNode };
+    try {
+      target = await parse(options.filePath, code);
+    } catch (error) {
+      return fail(`無法解析 ${options.filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const { source } = target;
+    const candidates = this.findTypeDeclarations(source, target.root, options.typeName);
+    if (candidates.length === 0) {
+      return fail(`找不到 class、struct 或 actor ${options.typeName}`);
+    }
+    if (candidates.length > 1) {
+      return fail(`有多個名為 ${options.typeName} 的型別（${candidates.map(candidate => candidate.qualifiedName).join('、')}），請以完整名稱指定`);
+    }
+    const declaration = candidates[0];
+    const typeName = declaration.qualifiedName.split('.').pop()!;
+
+    const protocolName = options.protocolName ?? `${typeName}Protocol`;
+    if (!/^[A-Za-z_]\w*$/.test(protocolName)) {
+      return fail(`無效的協定名稱: ${protocolName}`);
+    }
+    const mentionsProtocol = new RegExp(`\\b${protocolName}\\b`);
+    for (const file of options.files.filter(file => mentionsProtocol.test(file.content))) {
+      try {
+        const { source: fileSource, root } = await parse(file.filePath, file.content);
+        if (this.walk(root).some(node => NAMED_TYPE_DECLARATIONS.includes(node.type) && this.getDeclarationName(fileSource, node) === protocolName)) {
+          return fail(`名稱 ${protocolName} 已存在於 ${file.filePath}`);
+        }
+      } catch {
+        result.warnings.push(`無法解析 ${file.filePath}，未檢查名稱衝突`);
+      }
+    }
+
+    const modifiers = this.getModifiers(declaration.node);
+    const isPublic = modifiers.includes('public') || modifiers.includes('open');
+    const memberList = this.child(this.child(declaration.node, 'MemberBlock'), 'MemberBlockItemList');
+    const requirements = memberList ? this.collectRequirements(source, memberList, isPublic, result.warnings) : [];
+    const names = this.getRequirementNames(requirements);
+    if (names.length === 0) {
+      return fail(`${options.typeName} 沒有可提取的${isPublic ? ' public' : '非 private '}成員`);
+    }
+
+    // 泛型參數改為同名的 associatedtype，型別本身的泛型參數即可滿足
+    const genericClause = this.child(declaration.node, 'GenericParameterClause');
+    const genericParameters = this.children(this.child(genericClause, 'GenericParameterList'), 'GenericParameter')
+      .map(parameter => this.normalize((parameter.source ?? '').replace(/,$/, '')));
+    requirements.unshift(...genericParameters.map((parameter): Requirement => ({
+      kind: 'member',
+      name: parameter.split(':')[0].trim(),
+      text: `associatedtype ${parameter}`
+    })));
+
+    const outerStart = source.docStart(declaration.outermost);
+    const indent = source.indentAt(source.start(declaration.outermost));
+    const attributes = this.getAttributes(declaration.node)
+      .filter(attribute => PROTOCOL_ATTRIBUTES.includes(this.getAttributeName(attribute)))
+      .map(attribute => `${indent}${this.normalize(attribute)}\n`)
+      .join('');
+    const body = this.renderRequirements(requirements, `${indent}    `);
+    result.protocolDeclaration = `${attributes}${indent}${isPublic ? 'public ' : ''}protocol ${protocolName} {\n${body}\n${indent}}`;
+
+    const inheritance = this.child(declaration.node, 'InheritanceClause');
+    const conformanceAt = inheritance
+      ? source.end(inheritance)
+      : genericClause ? source.end(genericClause) : this.getNameEnd(source, declaration.node);
+    const insertAt = source.lineStartAt(outerStart);
+    const editsByFile = new Map<string, OffsetEdit[]>();
+    editsByFile.set(options.filePath, [
+      { start: insertAt, end: insertAt, newText: `${result.protocolDeclaration}\n\n` },
+      { start: conformanceAt, end: conformanceAt, newText: inheritance ? `, ${protocolName}` : `: ${protocolName}` }
+    ]);
+
+    if (options.replaceUsages) {
+      const mentionsType = new RegExp(`\\b${typeName}\\b`);
+      for (const file of options.files.filter(file => mentionsType.test(file.content))) {
+        try {
+          const { source: fileSource, root } = await parse(file.filePath, file.content);
+          const edits = this.replaceUsages(fileSource, root, declaration, protocolName, file.filePath === options.filePath);
+          if (edits.length > 0) {
+            editsByFile.set(file.filePath, [...editsByFile.get(file.filePath) ?? [], ...edits]);
+            result.replacedUsages += edits.length;
+          }
+        } catch {
+          result.warnings.push(`無法解析 ${file.filePath}，未替換其中的型別註記`);
+        }
+      }
+    }
+
+    for (const [filePath, edits] of editsByFile) {
+      const fileSource = parsed.get(filePath)!.source;
+      edits.sort((a, b) => b.start - a.start);
+      result.files.push({
+        filePath,
+        edits: edits.map(edit => ({
+          range: { start: fileSource.toPosition(edit.start), end: fileSource.toPosition(edit.end) },
+          newText: edit.newText,
+          type: edit.start === edit.end ? 'insert' : 'replace'
+        }))
+      });
+    }
+
+    result.success = true;
+    result.protocolName = protocolName;
+    result.members = [...new Set(names)];
+    return result;
+  }
+
+  /**
+   * 找出名稱相符的 class/struct/actor，typeName 可以是 Outer.Inner 形式的完整名稱
+   */
+  private findTypeDeclarations(source: SwiftSourceText, root: SwiftASTNode, typeName: string): TypeDeclaration[] {
+    const found: TypeDeclaration[] = [];
+    const visit = (node: SwiftASTNode, outer: string[], outermost: SwiftASTNode | undefined): void => {
+      const name = node.type === 'ExtensionDecl'
+        ? this.children(node).find(child => child.type.endsWith('Type'))?.source
+        : NAMED_TYPE_DECLARATIONS.includes(node.type) ? this.getDeclarationName(source, node) : undefined;
+      const path = name ? [...outer, name] : outer;
+      const top = outermost ?? (name ? node : undefined);
+      if (name && TYPE_DECLARATIONS.includes(node.type)) {
+        const qualifiedName = path.join('.');
+        if (qualifiedName === typeName || (!typeName.includes('.') && name === typeName)) {
+          found.push({ node, qualifiedName, outermost: top! });
+        }
+      }
+      this.children(node).forEach(child => visit(child, path, top));
+    };
+    visit(root, [], undefined);
+    return found;
+  }
+
+  /**
+   * 由成員清單產生協定需求；#if 區塊保留條件與各分支的需求
+   */
+  private collectRequirements(source: SwiftSourceText, list: SwiftASTNode, publicOnly: boolean, warnings: string[]): Requirement[] {
+    const requirements: Requirement[] = [];
+    for (const item of this.children(list, 'MemberBlockItem')) {
+      const decl = this.children(item)[0];
+      if (!decl) {
+        continue;
+      }
+      if (decl.type === 'IfConfigDecl') {
+        const clauses = this.children(this.child(decl, 'IfConfigClauseList'), 'IfConfigClause').map(clause => {
+          const members = this.child(clause, 'MemberBlockItemList');
+          const condition = this.children(clause).find(child => child !== members);
+          const keyword = /^#\w+/.exec(source.code.slice(source.start(clause)))?.[0] ?? '#if';
+          return {
+            directive: condition ? `${keyword} ${this.normalize(condition.source ?? '')}` : keyword,
+            requirements: members ? this.collectRequirements(source, members, publicOnly, warnings) : []
+          };
+        });
+        // 結尾沒有需求的分支可以省略，中間的分支仍要保留以維持條件的判斷順序
+        while (clauses.length > 0 && clauses[clauses.length - 1].requirements.length === 0) {
+          clauses.pop();
+        }
+        if (clauses.length > 0) {
+          requirements.push({ kind: 'ifConfig', clauses });
+        }
+        continue;
+      }
+      const requirement = this.createRequirement(source, decl, publicOnly, warnings);
+      if (requirement) {
+        requirements.push(requirement);
+      }
+    }
+    return requirements;
+  }
+
+  /**
+   * 由成員宣告產生協定需求；private 成員、初始化器與巢狀型別不產生需求
+   * public 協定的需求必須與協定同樣公開，只取 public/open 成員
+   */
+  private createRequirement(
+    source: SwiftSourceText,
+    decl: SwiftASTNode,
+    publicOnly: boolean,
+    warnings: string[]
+  ): Requirement | undefined {
+    if (!['FunctionDecl', 'SubscriptDecl', 'VariableDecl'].includes(decl.type)) {
+      return undefined;
+    }
+    const modifiers = this.getModifiers(decl);
+    if (modifiers.includes('private') || modifiers.includes('fileprivate')) {
+      return undefined;
+    }
+    if (publicOnly && !modifiers.includes('public') && !modifiers.includes('open')) {
+      return undefined;
+    }
+
+    const attributes = this.getAttributes(decl)
+      .filter(attribute => REQUIREMENT_ATTRIBUTES.includes(this.getAttributeName(attribute)))
+      .map(attribute => `${this.normalize(attribute)}\n`)
+      .join('');
+    const prefix = [
+      modifiers.includes('static') || modifiers.includes('class') ? 'static ' : '',
+      modifiers.includes('mutating') ? 'mutating ' : '',
+      modifiers.includes('nonisolated') ? 'nonisolated ' : ''
+    ].join('');
+    const leading = `${source.docComment(decl)}${attributes}${prefix}`;
+    const headStart = this.getHeadStart(source, decl);
+
+    if (decl.type === 'FunctionDecl' || decl.type === 'SubscriptDecl') {
+      const parameterClause = decl.type === 'FunctionDecl'
+        ? this.child(this.child(decl, 'FunctionSignature'), 'FunctionParameterClause')
+        : this.child(decl, 'FunctionParameterClause');
+      if (!parameterClause) {
+        return undefined;
+      }
+      // 參數去除預設值，本體（或存取子區塊）之前的效果、回傳型別與 where 子句照抄
+      const parameters = this.children(this.child(parameterClause, 'FunctionParameterList'), 'FunctionParameter').map(parameter => {
+        const defaultValue = this.child(parameter, 'InitializerClause');
+        const text = source.code.slice(source.start(parameter), defaultValue ? source.start(defaultValue) : source.end(parameter));
+        return this.normalize(text.trim().replace(/,$/, ''));
+      });
+      const bodyNode = this.child(decl, decl.type === 'FunctionDecl' ? 'CodeBlock' : 'AccessorBlock');
+      const head = this.normalize(source.code.slice(headStart, source.start(parameterClause)));
+      const tail = this.normalize(source.code.slice(source.end(parameterClause), bodyNode ? source.start(bodyNode) : source.end(decl)));
+      const signature = `${head}(${parameters.join(', ')})${tail ? ` ${tail}` : ''}`;
+      if (decl.type === 'FunctionDecl') {
+        return { kind: 'member', name: decl.properties.name ?? head.replace(/^func\s+/, ''), text: `${leading}${signature}` };
+      }
+      return { kind: 'member', name: 'subscript', text: `${leading}${signature} ${this.getAccessors(source, bodyNode, false, modifiers, publicOnly)}` };
+    }
+
+    const keyword = /^(var|let)\b/.exec(source.code.slice(headStart))?.[1];
+    const bindings = this.children(this.child(decl, 'PatternBindingList'), 'PatternBinding');
+    const pattern = bindings.length === 1 ? this.children(bindings[0])[0] : undefined;
+    if (!keyword || pattern?.type !== 'IdentifierPattern') {
+      warnings.push(`屬性宣告 ${this.normalize(decl.source ?? '').split(' =')[0]} 不是單一名稱，未提取`);
+      return undefined;
+    }
+    const binding = bindings[0];
+    const name = pattern.source ?? '';
+    const annotation = this.child(binding, 'TypeAnnotation');
+    const initializer = this.child(binding, 'InitializerClause');
+    const type = annotation
+      ? this.normalize((this.children(annotation)[0]?.source) ?? '')
+      : initializer ? this.inferLiteralType(this.children(initializer)[0]?.source ?? '') : undefined;
+    if (!type) {
+      warnings.push(`屬性 ${name} 沒有型別註記，無法推斷型別，未提取`);
+      return undefined;
+    }
+    const accessorBlock = this.child(binding, 'AccessorBlock');
+    const accessors = keyword === 'let'
+      ? '{ get }'
+      : this.getAccessors(source, accessorBlock, accessorBlock === undefined || initializer !== undefined, modifiers, publicOnly);
+    return { kind: 'member', name, text: `${leading}var ${name}: ${type} ${accessors}` };
+  }
+
+  /**
+   * 屬性與下標的存取需求：setter 存取層級低於協定（如 private(set)）與只有 getter 的計算屬性為 { get }，
+   * willSet/didSet 觀察的儲存屬性可讀寫，getter 的 async/throws 一併保留
+   */
+  private getAccessors(
+    source: SwiftSourceText,
+    accessorBlock: SwiftASTNode | undefined,
+    stored: boolean,
+    modifiers: readonly string[],
+    publicOnly: boolean
+  ): string {
+    const accessors = this.children(this.child(accessorBlock, 'AccessorDeclList'), 'AccessorDecl').map(accessor => ({
+      node: accessor,
+      kind: /^\w+/.exec(source.code.slice(this.getHeadStart(source, accessor)))?.[0] ?? ''
+    }));
+    const observed = accessors.some(accessor => accessor.kind === 'willSet' || accessor.kind === 'didSet');
+    const getter = accessors.find(accessor => accessor.kind === 'get');
+    const effects = this.child(getter?.node, 'AccessorEffectSpecifiers')?.source;
+    const get = effects ? `get ${this.normalize(effects)}` : 'get';
+
+    const restricted = publicOnly ? ['private(set)', 'fileprivate(set)', 'internal(set)'] : ['private(set)', 'fileprivate(set)'];
+    if (modifiers.some(modifier => restricted.includes(modifier.replace(/\s+/g, '')))) {
+      return `{ ${get} }`;
+    }
+    const settable = stored || observed || accessors.some(accessor => accessor.kind === 'set' || accessor.kind === '_modify');
+    return settable ? '{ get set }' : `{ ${get} }`;
+  }
+
+  /**
+   * 由字面值或建構呼叫推斷屬性型別
+   */
+  private inferLiteralType(initializer: string): string | undefined {
+    if (/^"/.test(initializer)) {
+      return 'String';
+    }
+    if (/^-?\d+$/.test(initializer)) {
+      return 'Int';
+    }
+    if (/^-?\d+\.\d+$/.test(initializer)) {
+      return 'Double';
+    }
+    if (/^(?:true|false)$/.test(initializer)) {
+      return 'Bool';
+    }
+    return /^([A-Z][\w.]*(?:<[^()]*>)?|\[[^()]+\])\(/.exec(initializer)?.[1];
+  }
+
+  /**
+   * 將參數與變數型別註記（含 Optional、inout 與 @escaping 等包裝）中的型別改為協定，不含型別本身的宣告範圍；
+   * 巢狀型別以完整名稱比對，在外層型別內也比對簡短名稱
+   */
+  private replaceUsages(
+    source: SwiftSourceText,
+    root: SwiftASTNode,
+    declaration: TypeDeclaration,
+    protocolName: string,
+    isDeclaringFile: boolean
+  ): OffsetEdit[] {
+    const names = declaration.qualifiedName.split('.');
+    const ownStart = isDeclaringFile ? source.rawStart(declaration.node) : -1;
+    const ownEnd = isDeclaringFile ? source.end(declaration.node) : -1;
+    const outerStart = isDeclaringFile ? source.start(declaration.outermost) : -1;
+    const outerEnd = isDeclaringFile ? source.end(declaration.outermost) : -1;
+
+    const edits: OffsetEdit[] = [];
+    for (const node of this.walk(root)) {
+      let type: SwiftASTNode | undefined;
+      if (node.type === 'TypeAnnotation') {
+        type = this.children(node)[0];
+      } else if (node.type === 'FunctionParameter') {
+        type = this.children(node).find(child => child.type.endsWith('Type'));
+      }
+      while (type && ['OptionalType', 'ImplicitlyUnwrappedOptionalType', 'AttributedType'].includes(type.type)) {
+        type = this.children(type).filter(child => child.type.endsWith('Type')).pop();
+      }
+      if (!type || (type.type !== 'IdentifierType' && type.type !== 'MemberType')) {
+        continue;
+      }
+      const start = source.start(type);
+      if (start >= ownStart && start < ownEnd) {
+        continue;
+      }
+      const matches = type.source === declaration.qualifiedName
+        || (names.length > 1 && type.source === names[names.length - 1] && start >= outerStart && start < outerEnd);
+      if (matches) {
+        edits.push({ start, end: source.end(type), newText: protocolName });
+      }
+    }
+    return edits;
+  }
+
+  /**
+   * 逐行輸出需求，#if 指令與成員同樣縮排
+   */
+  private renderRequirements(requirements: readonly Requirement[], indent: string): string {
+    return requirements.map(requirement => {
+      if (requirement.kind === 'member') {
+        return requirement.text.split('\n').map(line => `${indent}${line}`).join('\n');
+      }
+      const lines = requirement.clauses.map(clause => [
+        `${indent}${clause.directive}`,
+        ...clause.requirements.length > 0 ? [this.renderRequirements(clause.requirements, indent)] : []
+      ].join('\n'));
+      return [...lines, `${indent}#endif`].join('\n');
+    }).join('\n');
+  }
+
+  private getRequirementNames(requirements: readonly Requirement[]): string[] {
+    return requirements.flatMap(requirement => requirement.kind === 'member'
+      ? [requirement.name]
+      : requirement.clauses.flatMap(clause => this.getRequirementNames(clause.requirements)));
+  }
+
+  /**
+   * 宣告名稱：parser 只為部分宣告提供 name，其餘由屬性與修飾符之後的「關鍵字 名稱」取得
+   */
+  private getDeclarationName(source: SwiftSourceText, node: SwiftASTNode): string | undefined {
+    return node.properties?.name ?? /^[a-z]+\s+`?([A-Za-z_]\w*)/.exec(source.code.slice(this.getHeadStart(source, node)))?.[1];
+  }
+
+  /**
+   * 型別名稱結尾（沒有泛型參數與繼承子句時加入遵循宣告的位置）
+   */
+  private getNameEnd(source: SwiftSourceText, node: SwiftASTNode): number {
+    const headStart = this.getHeadStart(source, node);
+    return headStart + (/^[a-z]+\s+`?[A-Za-z_]\w*`?/.exec(source.code.slice(headStart))?.[0].length ?? 0);
+  }
+
+  /**
+   * 屬性與修飾符之後（宣告關鍵字）的位置
+   */
+  private getHeadStart(source: SwiftSourceText, node: SwiftASTNode): number {
+    const prefixes = this.children(node).filter(child =>
+      (child.type === 'AttributeList' || child.type === 'DeclModifierList' || child.type === 'DeclModifier') && child.source);
+    const start = prefixes.length > 0 ? source.end(prefixes[prefixes.length - 1]) : source.start(node);
+    return start + (/^\s*/.exec(source.code.slice(start))?.[0].length ?? 0);
+  }
+
+  private getAttributes(node: SwiftASTNode): string[] {
+    return this.children(this.child(node, 'AttributeList'), 'Attribute').map(attribute => attribute.source ?? '');
+  }
+
+  private getAttributeName(attribute: string): string {
+    return /^@(\w+)/.exec(attribute)?.[1] ?? '';
+  }
+
+  private getModifiers(node: SwiftASTNode): string[] {
+    return this.children(this.child(node, 'DeclModifierList'), 'DeclModifier').map(modifier => modifier.source ?? '');
+  }
+
+  /**
+   * 去除註解並將空白（含換行）合併為單一空格，讓多行簽名成為單行需求
+   */
+  private normalize(text: string): string {
+    return text
+      .replace(/\/\*[\s\S]*?\*\//g, ' ')
+      .replace(/\/\/[^\n]*/g, ' ')
+      .replace(/\s+/g, ' ')
+      .replace(/([(<[]) /g, '$1')
+      .replace(/ ([)\]>,])/g, '$1')
+      .trim();
+  }
+
+  private children(node: SwiftASTNode | undefined, type?: string): SwiftASTNode[] {
+    const children = (node?.children ?? []) as SwiftASTNode[];
+    return type ? children.filter(child => child.type === type) : children;
+  }
+
+  private child(node: SwiftASTNode | undefined, type: string): SwiftASTNode | undefined {
+    return this.children(node, type)[0];
+  }
+
+  private walk(root: SwiftASTNode): SwiftASTNode[] {
+    const nodes: SwiftASTNode[] = [];
+    const visit = (node: SwiftASTNode): void => {
+      nodes.push(node);
+      this.children(node).forEach(visit);
+    };
+    visit(root);
+    return nodes;
+  }
+}
@@ -4,18 +4,9 @@
  */
 
 import * as ts from 'typescript';
-import type { ComplexityMetrics } from '../../../infrastructure/parser/analysis-types.js';
+import type { ComplexityMetrics, FunctionComplexityMetrics } from '../../../infrastructure/parser/analysis-types.js';
 import type { TypeScriptAST } from '../types.js';
 
-/**
- * 函式複雜度資訊
- */
-interface FunctionComplexity {
-  name: string;
-  cyclomaticComplexity: number;
-  cognitiveComplexity: number;
-}
-
 /**
  * TypeScript 複雜度分析器
  */
@@ -52,10 +43,14 @@ export class ComplexityAnalyzer {
     }
 
     // 計算每個函式的複雜度
-    const functionComplexities = functions.map(fn => ({
+    const sourceFile = ast.tsSourceFile;
+    const functionComplexities: FunctionComplexityMetrics[] = functions.map(fn => ({
       name: this.getFunctionName(fn),
+      startLine: sourceFile.getLineAndCharacterOfPosition(fn.getStart(sourceFile)).line + 1,
+      endLine: sourceFile.getLineAndCharacterOfPosition(fn.getEnd()).line + 1,
       cyclomaticComplexity: this.calculateCyclomaticComplexity(fn),
-      cognitiveComplexity: this.calculateCognitiveComplexity(fn)
+      cognitiveComplexity: this.calculateCognitiveComplexity(fn),
+      parameterCount: fn.parameters.filter(parameter => !(ts.isIdentifier(parameter.name) && parameter.name.text === 'this')).length
     }));
 
     // 聚合統計
@@ -81,7 +76,8 @@ export class ComplexityAnalyzer {
       functionCount: functions.length,
       averageComplexity: totalCyclomatic / functions.length,
       maxComplexity,
-      maxComplexityFunction: maxComplexityFunction?.name
+      maxComplexityFunction: maxComplexityFunction?.name,
+      functions: functionComplexities
     };
   }
 
@@ -118,6 +114,12 @@ export class ComplexityAnalyzer {
       return node.name.text;
     }
     if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+      // 以賦值目標命名：const foo = () => {} 或 { foo: () => {} }
+      const parent = node.parent;
+      if ((ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent)) &&
+        ts.isIdentifier(parent.name)) {
+        return parent.name.text;
+      }
       return '<anonymous>';
     }
     return '<unknown>';
@@ -219,6 +219,32 @@ export class TypeScriptParser implements ParserPlugin, Disposable {
     return references;
   }
 
+  /**
+   * 將專案檔案加入 Language Service，讓 findReferences 能找到尚未解析過的檔案中的引用
+   */
+  registerFiles(files: ReadonlyArray<{ filePath: string; content: string }>): void {
+    for (const file of files) {
+      this.updateFile(file.filePath, file.content);
+    }
+  }
+
+  /**
+   * 將已刪除的檔案移出 Language Service
+   */
+  unregisterFiles(filePaths: ReadonlyArray<string>): void {
+    for (const filePath of filePaths) {
+      this.files.delete(filePath);
+    }
+  }
+
+  /**
+   * 取得包含已註冊檔案的 Program，供需要型別檢查器的重構使用
+   */
+  getProgram(ast: TypeScriptAST): ts.Program | undefined {
+    this.ensureLanguageServiceInitialized(ast.tsSourceFile);
+    return this.languageService?.getProgram();
+  }
+
   /**
    * 基本的符號引用查找（回退方法）
    * 使用 AST 遍歷，過濾字串和註解中的符號
@@ -75,7 +75,11 @@ export interface Reference {
 export enum DependencyType {
   Import = 'import',
   Require = 'require',
-  Include = 'include'
+  Include = 'include',
+  /** export ... from / export * from */
+  ReExport = 're-export',
+  /** import('...') */
+  DynamicImport = 'dynamic-import'
 }
 
 /**
@@ -0,0 +1,152 @@
+/**
+ * 差異比對工具函式
+ */
+
+/** 標記檔案結尾沒有換行的最後一行 */
+const NO_NEWLINE = '\u0000no-newline';
+
+/**
+ * 單行差異
+ */
+export interface DiffLine {
+  type: ' ' | '-' | '+';
+  text: string;
+}
+
+/**
+ * 以 Myers 演算法比對兩組行，回傳逐行差異
+ * @param oldLines 原始行
+ * @param newLines 新行
+ * @returns 依序排列的差異行
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  const n = oldLines.length;
+  const m = newLines.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 3).fill(0);
+  const trace: number[][] = [];
+
+  outer:
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && oldLines[x] === newLines[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        break outer;
+      }
+    }
+  }
+
+  // 由終點回溯出編輯路徑
+  const result: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const previous = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && previous[offset + k - 1] < previous[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = previous[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      result.push({ type: ' ', text: oldLines[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        result.push({ type: '+', text: newLines[--y] });
+      } else {
+        result.push({ type: '-', text: oldLines[--x] });
+      }
+    }
+  }
+
+  return result.reverse();
+}
+
+/**
+ * 產生 unified diff 格式的差異
+ * @param oldPath 原始檔案路徑（顯示於 `---`）
+ * @param newPath 新檔案路徑（顯示於 `+++`）
+ * @param oldText 原始內容
+ * @param newText 新內容
+ * @param contextLines 每個區塊前後保留的上下文行數
+ * @returns unified diff 字串，內容相同時回傳空字串
+ */
+export function createUnifiedDiff(
+  oldPath: string,
+  newPath: string,
+  oldText: string,
+  newText: string,
+  contextLines = 3
+): string {
+  if (oldText === newText) {return '';}
+
+  const lines = diffLines(splitLines(oldText), splitLines(newText));
+  const output = [`--- ${oldPath}`, `+++ ${newPath}`];
+
+  let index = 0;
+  while (index < lines.length) {
+    // 找到下一個變更
+    while (index < lines.length && lines[index].type === ' ') {index++;}
+    if (index >= lines.length) {break;}
+
+    // 區塊包含變更前後的上下文，間距在兩倍上下文內的變更合併為同一區塊
+    const start = Math.max(0, index - contextLines);
+    let end = index;
+    let unchanged = 0;
+    while (end < lines.length && unchanged <= contextLines * 2) {
+      unchanged = lines[end].type === ' ' ? unchanged + 1 : 0;
+      end++;
+    }
+    end = Math.min(lines.length, end - Math.max(0, unchanged - contextLines));
+
+    let oldStart = 1;
+    let newStart = 1;
+    for (let i = 0; i < start; i++) {
+      if (lines[i].type !== '+') {oldStart++;}
+      if (lines[i].type !== '-') {newStart++;}
+    }
+
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter(line => line.type !== '+').length;
+    const newCount = hunk.filter(line => line.type !== '-').length;
+
+    output.push(`@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`);
+    for (const line of hunk) {
+      if (line.text.endsWith(NO_NEWLINE)) {
+        output.push(`${line.type}${line.text.slice(0, -NO_NEWLINE.length)}`, '\\ No newline at end of file');
+      } else {
+        output.push(`${line.type}${line.text}`);
+      }
+    }
+
+    index = end;
+  }
+
+  return output.join('\n') + '\n';
+}
+
+/**
+ * 分割行，結尾換行不產生空行；缺少結尾換行的最後一行加上標記
+ */
+function splitLines(text: string): string[] {
+  if (text === '') {return [];}
+
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] += NO_NEWLINE;
+  }
+  return lines;
+}
@@ -75,6 +75,13 @@ export {
   batch
 } from './async.js';
 
+// 差異比對工具函式
+export {
+  diffLines,
+  createUnifiedDiff
+} from './diff.js';
+export type { DiffLine } from './diff.js';
+
 /**
  * 工具函式分類命名空間
  *
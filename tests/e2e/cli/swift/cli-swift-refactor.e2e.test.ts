@@ -597,4 +597,169 @@ describe('CLI swift refactor - 基於 swift-sample-project fixture', () => {
       expect(output.results.some((r: any) => r.name === 'getStockInfo')).toBe(true);
     });
   });
+
+  describe('提取協定', () => {
+    it('應該由非 private 成員產生 protocol 並讓類別遵循，--replace-usages 替換型別註記', async () => {
+      const result = await executeCLI([
+        'refactor',
+        'extract-interface',
+        '--path',
+        fixture.getFilePath('Sources/SwiftSampleApp/Services/UserService.swift'),
+        '--class',
+        'UserService',
+        '--replace-usages',
+        '--format',
+        'json'
+      ]);
+
+      expect(result.exitCode).toBe(0);
+      const output = JSON.parse(result.stdout);
+      expect(output.interfaceName).toBe('UserServiceProtocol');
+      expect(output.members).toEqual(['fetchUsers', 'createUser', 'validateUser']);
+
+      const content = await fixture.readFile('Sources/SwiftSampleApp/Services/UserService.swift');
+      expect(content).toContain([
+        'protocol UserServiceProtocol {',
+        '    func fetchUsers() async throws -> [User]',
+        '    func createUser(name: String, email: String, role: UserRole) async throws -> User',
+        '    func validateUser(name: String, email: String) throws',
+        '}'
+      ].join('\n'));
+      expect(content).toContain('class UserService: UserServiceProtocol {');
+      expect(content).not.toContain('func buildRequest(for endpoint: APIEndpoint, method: HTTPMethod, body: [String: Any]?)');
+
+      const viewModel = await fixture.readFile('Sources/SwiftSampleApp/ViewModels/UserViewModel.swift');
+      expect(viewModel).toContain('private let userService: UserServiceProtocol');
+      expect(viewModel).toContain('init(userService: UserServiceProtocol) {');
+    });
+
+    it('public 類別應該產生 public protocol 並只提取 public/open 成員', async () => {
+      await fixture.writeFile('Sources/SwiftSampleApp/Services/CacheStore.swift', [
+        'public class CacheStore {',
+        '    public private(set) var hits: Int = 0',
+        '    public internal(set) var misses: Int = 0',
+        '    public var capacity: Int = 100',
+        '    var storage: [String: String] = [:]',
+        '',
+        '    public init() {}',
+        '',
+        '    public func value(for key: String) -> String? {',
+        '        return storage[key]',
+        '    }',
+        '',
+        '    open func evict() {}',
+        '',
+        '    func compact() {}',
+        '}',
+        ''
+      ].join('\n'));
+
+      const result = await executeCLI([
+        'refactor',
+        'extract-interface',
+        '--path',
+        fixture.getFilePath('Sources/SwiftSampleApp/Services/CacheStore.swift'),
+        '--class',
+        'CacheStore',
+        '--format',
+        'json'
+      ]);
+
+      expect(result.exitCode).toBe(0);
+      const output = JSON.parse(result.stdout);
+      expect(output.members).toEqual(['hits', 'misses', 'capacity', 'value', 'evict']);
+
+      const content = await fixture.readFile('Sources/SwiftSampleApp/Services/CacheStore.swift');
+      expect(content).toContain([
+        'public protocol CacheStoreProtocol {',
+        '    var hits: Int { get }',
+        '    var misses: Int { get }',
+        '    var capacity: Int { get set }',
+        '    func value(for key: String) -> String?',
+        '    func evict()',
+        '}'
+      ].join('\n'));
+      expect(content).toContain('public class CacheStore: CacheStoreProtocol {');
+    });
+
+    it('應該保留屬性與 #if 條件、合併多行簽名，並以 Outer.Inner 指定巢狀型別', async () => {
+      await fixture.writeFile('Sources/SwiftSampleApp/Services/SyncCenter.swift', [
+        '/// 同步中心',
+        'enum SyncCenter {',
+        '    @MainActor',
+        '    final class Worker<Payload: Codable> {',
+        '        @Published var progress: Double = 0',
+        '',
+        '        /// 開始同步',
+        '        @discardableResult',
+        '        @objc func start(',
+        '            payload: Payload,',
+        '            retries: Int = 3 // 重試次數',
+        '        ) async throws -> Bool {',
+        '            return true',
+        '        }',
+        '',
+        '        #if DEBUG',
+        '        func dump() -> String { "" }',
+        '        #else',
+        '        private func trace() {}',
+        '        #endif',
+        '',
+        '        struct Options {}',
+        '    }',
+        '}',
+        '',
+        'func schedule(worker: SyncCenter.Worker<String>) {}',
+        ''
+      ].join('\n'));
+
+      const result = await executeCLI([
+        'refactor',
+        'extract-interface',
+        '--path',
+        fixture.getFilePath('Sources/SwiftSampleApp/Services/SyncCenter.swift'),
+        '--class',
+        'SyncCenter.Worker',
+        '--format',
+        'json'
+      ]);
+
+      expect(result.exitCode).toBe(0);
+      const output = JSON.parse(result.stdout);
+      expect(output.members).toEqual(['progress', 'start', 'dump']);
+
+      const content = await fixture.readFile('Sources/SwiftSampleApp/Services/SyncCenter.swift');
+      expect(content.startsWith([
+        '@MainActor',
+        'protocol WorkerProtocol {',
+        '    associatedtype Payload: Codable',
+        '    var progress: Double { get set }',
+        '    /// 開始同步',
+        '    @discardableResult',
+        '    func start(payload: Payload, retries: Int) async throws -> Bool',
+        '    #if DEBUG',
+        '    func dump() -> String',
+        '    #endif',
+        '}',
+        '',
+        '/// 同步中心',
+        'enum SyncCenter {'
+      ].join('\n'))).toBe(true);
+      expect(content).toContain('    final class Worker<Payload: Codable>: WorkerProtocol {');
+    });
+
+    it('協定名稱已存在時應該拒絕', async () => {
+      const result = await executeCLI([
+        'refactor',
+        'extract-interface',
+        '--path',
+        fixture.getFilePath('Sources/SwiftSampleApp/Services/ProductService.swift'),
+        '--class',
+        'ProductService'
+      ]);
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.stderr).toContain('名稱 ProductServiceProtocol 已存在');
+    });
+  });
 });
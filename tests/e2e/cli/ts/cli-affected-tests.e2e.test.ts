@@ -0,0 +1,99 @@
+/**
+ * CLI affected-tests 命令 E2E 測試
+ * 在 sample-project fixture 中建立 git repository，依變更檔案挑選測試
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import { loadFixture, FixtureProject } from '../../helpers/fixture-manager';
+import { executeCLI } from '../../helpers/cli-executor';
+
+describe('CLI affected-tests 命令 E2E 測試', () => {
+  let fixture: FixtureProject;
+
+  const git = (...args: string[]) => execFileSync(
+    'git',
+    ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args],
+    { cwd: fixture.tempPath, stdio: 'pipe' }
+  );
+
+  beforeEach(async () => {
+    fixture = await loadFixture('sample-project');
+    await fixture.writeFile('tests/user-service.test.ts', 'import { UserService } from \'../src/services/user-service\';\nconsole.log(UserService);\n');
+    await fixture.writeFile('tests/formatter.test.ts', 'import { formatDate } from \'../src/utils/formatter\';\nconsole.log(formatDate);\n');
+    git('init', '-q');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'init');
+  });
+
+  afterEach(async () => {
+    await fixture.cleanup();
+  });
+
+  it('應該列出傳遞依賴 git 變更檔案的測試', async () => {
+    await fixture.writeFile('src/models/user-model.ts', `${await fixture.readFile('src/models/user-model.ts')}\n// changed\n`);
+
+    const result = await executeCLI(['affected-tests', '--path', fixture.tempPath]);
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout.trim().split('\n')).toEqual(['tests/user-service.test.ts']);
+  });
+
+  it('--base 應該與指定的 commit 比較，JSON 列出觸發的變更檔案', async () => {
+    await fixture.writeFile('src/utils/formatter.ts', `${await fixture.readFile('src/utils/formatter.ts')}\n// changed\n`);
+    await fixture.writeFile('README.md', '# sample\n');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'change formatter');
+
+    const result = await executeCLI(['affected-tests', '--path', fixture.tempPath, '--base', 'HEAD~1', '--format', 'json']);
+
+    expect(result.exitCode).toBe(0);
+    const data = JSON.parse(result.stdout);
+    expect(data.base).toBe('HEAD~1');
+    expect(data.changedFiles).toEqual(['src/utils/formatter.ts']);
+    expect(data.ignoredFiles).toEqual(['README.md']);
+    expect(data.affectedTests).toEqual([{ file: 'tests/formatter.test.ts', triggeredBy: ['src/utils/formatter.ts'] }]);
+    expect(data.summary).toEqual({ changedFiles: 1, affectedTests: 1, totalTests: 2 });
+  });
+
+  it('應該包含未追蹤的新檔案，但略過被 .gitignore 忽略的檔案', async () => {
+    await fixture.writeFile('.gitignore', 'tmp/\n');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'ignore tmp');
+    await fixture.writeFile('src/utils/slug.ts', 'export const slug = (value: string) => value.toLowerCase();\n');
+    await fixture.writeFile('tests/slug.test.ts', 'import { slug } from \'../src/utils/slug\';\nconsole.log(slug);\n');
+    await fixture.writeFile('tmp/scratch.ts', 'export const scratch = 1;\n');
+
+    const result = await executeCLI(['affected-tests', '--path', fixture.tempPath, '--format', 'json']);
+
+    expect(result.exitCode).toBe(0);
+    const data = JSON.parse(result.stdout);
+    expect(data.changedFiles).toEqual(['src/utils/slug.ts', 'tests/slug.test.ts']);
+    expect(data.affectedTests).toEqual([{ file: 'tests/slug.test.ts', triggeredBy: ['src/utils/slug.ts', 'tests/slug.test.ts'] }]);
+  });
+
+  it('--stdin 應該讀取變更檔案列表並輸出 vitest / jest 參數', async () => {
+    const input = 'src/types/user.ts\ntests/formatter.test.ts\n';
+
+    const vitest = await executeCLI(['affected-tests', '--path', fixture.tempPath, '--stdin', '--format', 'vitest'], { cwd: fixture.tempPath, input });
+    const jest = await executeCLI(['affected-tests', '--path', fixture.tempPath, '--stdin', '--format', 'jest'], { cwd: fixture.tempPath, input });
+
+    expect(vitest.exitCode).toBe(0);
+    expect(vitest.stdout.trim()).toBe('tests/formatter.test.ts tests/user-service.test.ts');
+    expect(jest.stdout.trim()).toBe('--runTestsByPath tests/formatter.test.ts tests/user-service.test.ts');
+  });
+
+  it('沒有受影響的測試時應該輸出空結果', async () => {
+    const result = await executeCLI(['affected-tests', '--path', fixture.tempPath, '--format', 'vitest']);
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout.trim()).toBe('');
+  });
+
+  it('無效的 base 應該回報錯誤', async () => {
+    const result = await executeCLI(['affected-tests', '--path', fixture.tempPath, '--base', 'no-such-ref']);
+
+    expect(result.exitCode).not.toBe(0);
+    expect(result.stderr).toContain('git diff 失敗');
+  });
+});
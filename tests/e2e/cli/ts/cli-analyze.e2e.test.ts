@@ -4,6 +4,10 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
 import { loadFixture, FixtureProject } from '../../helpers/fixture-manager';
 import { executeCLI } from '../../helpers/cli-executor';
 
@@ -663,4 +667,271 @@ export function anotherUsed() {
       );
     });
   });
+
+  describe('熱點分析', () => {
+    const git = (email: string, ...args: string[]) => execFileSync(
+      'git',
+      ['-c', 'user.name=test', '-c', `user.email=${email}`, ...args],
+      { cwd: fixture.tempPath, stdio: 'pipe' }
+    );
+
+    const commitEdits = async (email: string, message: string, edits: Array<[string, (content: string) => string]>) => {
+      for (const [file, edit] of edits) {
+        await fixture.writeFile(file, edit(await fixture.readFile(file)));
+      }
+      git(email, 'commit', '-q', '-a', '-m', message);
+    };
+
+    const touchFindByRole = (marker: string) => (content: string) =>
+      content.replace('findByRole(role: UserRole): User[] {', `findByRole(role: UserRole): User[] {\n    // ${marker}`);
+    const appendLine = (marker: string) => (content: string) => `${content}\n// ${marker}\n`;
+
+    beforeEach(async () => {
+      git('a@example.com', 'init', '-q');
+      git('a@example.com', 'add', '-A');
+      git('a@example.com', 'commit', '-q', '-m', 'init');
+
+      for (let i = 1; i <= 3; i++) {
+        await commitEdits('b@example.com', `change ${i}`, [
+          ['src/services/user-service.ts', touchFindByRole(`change ${i}`)],
+          ['src/models/user-model.ts', appendLine(`change ${i}`)],
+          ['src/utils/formatter.ts', appendLine(`change ${i}`)]
+        ]);
+      }
+    });
+
+    it('應該依變更次數 × 認知複雜度排序並統計函式變更與作者數', async () => {
+      const result = await executeCLI(['analyze', 'hotspots', '--path', fixture.tempPath, '--format', 'json']);
+
+      expect(result.exitCode).toBe(0);
+      const output = JSON.parse(result.stdout);
+      expect(output.summary.totalCommits).toBe(4);
+
+      const top = output.hotspots[0];
+      expect(top.path).toBe('src/services/user-service.ts');
+      expect(top.revisions).toBe(4);
+      expect(top.authors).toBe(2);
+      expect(top.score).toBe(top.revisions * top.cognitiveComplexity);
+      expect(top.functions[0]).toMatchObject({ name: 'findByRole', revisions: 4 });
+      expect(top.functions.find((fn: any) => fn.name === 'createUser').revisions).toBe(1);
+
+      const scores = output.hotspots.map((hotspot: any) => hotspot.score);
+      expect(scores).toEqual([...scores].sort((a: number, b: number) => b - a));
+    });
+
+    it('應該列出經常一起修改卻沒有 import 關係的檔案', async () => {
+      const result = await executeCLI(['analyze', 'hotspots', '--path', fixture.tempPath, '--format', 'json']);
+
+      expect(result.exitCode).toBe(0);
+      const pairs = JSON.parse(result.stdout).couplings.map((coupling: any) => [coupling.fileA, coupling.fileB]);
+      expect(pairs).toContainEqual(['src/services/user-service.ts', 'src/utils/formatter.ts']);
+      expect(pairs).toContainEqual(['src/models/user-model.ts', 'src/utils/formatter.ts']);
+      // user-service 直接 import user-model
+      expect(pairs).not.toContainEqual(['src/models/user-model.ts', 'src/services/user-service.ts']);
+    });
+
+    it('--max-commits 應該限制讀取的提交數', async () => {
+      const result = await executeCLI(['analyze', 'hotspots', '--path', fixture.tempPath, '--format', 'json', '--max-commits', '2']);
+
+      expect(result.exitCode).toBe(0);
+      const output = JSON.parse(result.stdout);
+      expect(output.summary.totalCommits).toBe(2);
+      expect(output.hotspots[0]).toMatchObject({ path: 'src/services/user-service.ts', revisions: 2, authors: 1 });
+      expect(output.couplings).toEqual([]);
+    });
+
+    it('文字輸出應該列出熱點函式與共同變更', async () => {
+      const result = await executeCLI(['analyze', 'hotspots', '--path', fixture.tempPath]);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('✅ 熱點分析完成!');
+      expect(result.stdout).toMatch(/src\/services\/user-service\.ts: \d+（4 次變更 × 認知複雜度 \d+，2 位作者/);
+      expect(result.stdout).toMatch(/findByRole \(L\d+-\d+\): 4 次變更/);
+      expect(result.stdout).toContain('src/services/user-service.ts ↔ src/utils/formatter.ts: 4 次共同變更（耦合度 100%）');
+    });
+
+    it('不是 git repository 時應該回報錯誤', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-ide-no-git-'));
+      await fs.writeFile(path.join(dir, 'index.ts'), 'export const a = 1;\n');
+
+      try {
+        const result = await executeCLI(['analyze', 'hotspots', '--path', dir]);
+
+        expect(result.exitCode).not.toBe(0);
+        expect(result.stderr).toContain('git rev-parse 失敗');
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('覆蓋率分析', () => {
+    // order-service.ts：createOrder（第 22 行起）完全沒有執行，其餘行都有執行
+    const lcov = [
+      'TN:',
+      'SF:src/services/order-service.ts',
+      'FN:22,createOrder',
+      'FNDA:0,createOrder',
+      'DA:1,1',
+      'DA:23,0',
+      'DA:24,0',
+      'BRDA:30,0,0,1',
+      'BRDA:30,0,1,-',
+      'DA:75,3',
+      'end_of_record',
+      ''
+    ].join('\n');
+
+    const analyzeCoverage = async (reportPath: string, ...args: string[]) => {
+      const result = await executeCLI(['analyze', 'coverage', '--path', fixture.tempPath, '--coverage', reportPath, '--format', 'json', ...args]);
+      expect(result.exitCode).toBe(0);
+      return JSON.parse(result.stdout);
+    };
+
+    it('應該解析 lcov 並列出複雜卻沒有被測試覆蓋的函式', async () => {
+      await fixture.writeFile('coverage/lcov.info', lcov);
+
+      const output = await analyzeCoverage(fixture.getFilePath('coverage/lcov.info'), '--all');
+
+      expect(output.summary).toMatchObject({
+        format: 'lcov',
+        coveredLines: 2,
+        coveredBranches: 1,
+        totalBranches: 2,
+        branchCoverage: 0.5
+      });
+      expect(output.all.find((file: any) => file.path === 'src/services/order-service.ts')).toMatchObject({
+        reported: true,
+        coveredLines: 2,
+        totalLines: 4,
+        lineCoverage: 0.5
+      });
+      expect(output.issues[0]).toMatchObject({
+        path: 'src/services/order-service.ts',
+        name: 'createOrder',
+        startLine: 22,
+        lineCoverage: 0,
+        branchCoverage: 0.5
+      });
+      expect(output.issues[0].crap).toBe(output.issues[0].cyclomaticComplexity ** 2 + output.issues[0].cyclomaticComplexity);
+      for (const issue of output.issues) {
+        expect(issue.crap).toBeGreaterThan(30);
+      }
+    });
+
+    it('應該解析 Istanbul coverage-final.json', async () => {
+      const filePath = fixture.getFilePath('src/services/order-service.ts');
+      await fixture.writeFile('coverage/coverage-final.json', JSON.stringify({
+        [filePath]: {
+          path: filePath,
+          statementMap: {
+            0: { start: { line: 23, column: 4 }, end: { line: 23, column: 20 } },
+            1: { start: { line: 23, column: 22 }, end: { line: 23, column: 40 } },
+            2: { start: { line: 75, column: 4 }, end: { line: 75, column: 20 } }
+          },
+          fnMap: { 0: { name: 'createOrder', decl: { start: { line: 22, column: 2 }, end: { line: 22, column: 13 } } } },
+          branchMap: { 0: { loc: { start: { line: 30, column: 4 }, end: { line: 32, column: 5 } }, type: 'if', locations: [] } },
+          s: { 0: 0, 1: 2, 2: 0 },
+          f: { 0: 2 },
+          b: { 0: [2, 2] }
+        }
+      }));
+
+      const output = await analyzeCoverage(fixture.getFilePath('coverage/coverage-final.json'), '--all');
+
+      expect(output.summary).toMatchObject({ format: 'istanbul', coveredLines: 1, coveredBranches: 2, totalBranches: 2 });
+      expect(output.issues.find((issue: any) => issue.name === 'createOrder')).toBeUndefined();
+      expect(output.all.find((file: any) => file.path === 'src/services/order-service.ts')).toMatchObject({ reported: true, totalLines: 2, lineCoverage: 0.5 });
+      expect(output.all.find((file: any) => file.path === 'src/utils/formatter.ts')).toMatchObject({ reported: false, lineCoverage: 0 });
+    });
+
+    it('應該解析 Cobertura XML（檔名相對於 source）', async () => {
+      await fixture.writeFile('coverage/cobertura-coverage.xml', [
+        '<?xml version="1.0" ?>',
+        '<coverage line-rate="0.5" branch-rate="0.5" version="0.1">',
+        '  <sources><source>' + fixture.getFilePath('src') + '</source></sources>',
+        '  <packages><package name="services"><classes>',
+        '    <class name="order-service.ts" filename="services/order-service.ts">',
+        '      <methods><method name="createOrder" hits="0"><lines><line number="22" hits="0"/></lines></method></methods>',
+        '      <lines>',
+        '        <line number="23" hits="0" branch="true" condition-coverage="0% (0/2)"/>',
+        '        <line number="75" hits="4"/>',
+        '      </lines>',
+        '    </class>',
+        '  </classes></package></packages>',
+        '</coverage>'
+      ].join('\n'));
+
+      const output = await analyzeCoverage(fixture.getFilePath('coverage/cobertura-coverage.xml'), '--all');
+
+      expect(output.summary).toMatchObject({ format: 'cobertura', coveredLines: 1, coveredBranches: 0, totalBranches: 2 });
+      expect(output.all.find((file: any) => file.path === 'src/services/order-service.ts')).toMatchObject({ reported: true, coveredLines: 1, totalLines: 2 });
+      expect(output.issues[0]).toMatchObject({ path: 'src/services/order-service.ts', name: 'createOrder', lineCoverage: 0 });
+    });
+
+    it('未出現在報告中的檔案應該以未覆蓋的可執行行計入整體覆蓋率', async () => {
+      // 報告只包含 order-service.ts，且其中的行全部有執行
+      await fixture.writeFile('coverage/lcov.info', [
+        'TN:',
+        'SF:src/services/order-service.ts',
+        'DA:1,1',
+        'DA:75,3',
+        'end_of_record',
+        ''
+      ].join('\n'));
+
+      const output = await analyzeCoverage(fixture.getFilePath('coverage/lcov.info'), '--all');
+
+      const unreported = output.all.filter((file: any) => !file.reported);
+      expect(unreported.length).toBeGreaterThan(0);
+      for (const file of unreported) {
+        expect(file).toMatchObject({ coveredLines: 0, lineCoverage: 0 });
+      }
+      expect(unreported.some((file: any) => file.totalLines > 0)).toBe(true);
+
+      const totalLines = output.all.reduce((sum: number, file: any) => sum + file.totalLines, 0);
+      expect(output.summary.coveredLines).toBe(2);
+      expect(output.summary.totalLines).toBe(totalLines);
+      expect(output.summary.lineCoverage).toBeLessThan(0.5);
+      expect(output.summary.branchCoverage).toBeNull();
+    });
+
+    it('相對路徑的 --coverage 應該以 --path 為基準，且沒有分支資料時不回報分支覆蓋率', async () => {
+      await fixture.writeFile('coverage/lcov.info', [
+        'TN:',
+        'SF:src/services/order-service.ts',
+        'DA:1,1',
+        'DA:75,3',
+        'end_of_record',
+        ''
+      ].join('\n'));
+
+      const result = await executeCLI(
+        ['analyze', 'coverage', '--path', fixture.tempPath, '--coverage', 'coverage/lcov.info'],
+        { cwd: os.tmpdir() }
+      );
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toMatch(/📊 行覆蓋率: \d+\.\d% \(2\/\d+\)，分支覆蓋率: 報告沒有分支資料/);
+    });
+
+    it('文字輸出應該顯示覆蓋率摘要與高 CRAP 函式', async () => {
+      await fixture.writeFile('coverage/lcov.info', lcov);
+      await fixture.writeFile('.agent-ide.json', JSON.stringify({ coverage: 'coverage/lcov.info' }));
+
+      const result = await executeCLI(['analyze', 'coverage', '--path', fixture.tempPath]);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('✅ 覆蓋率分析完成!（lcov）');
+      expect(result.stdout).toMatch(/📊 行覆蓋率: \d+\.\d% \(2\/\d+\)，分支覆蓋率: 50\.0% \(1\/2\)/);
+      expect(result.stdout).toMatch(/src\/services\/order-service\.ts:22 createOrder: CRAP \d+（循環複雜度 \d+，行覆蓋率 0\.0%）/);
+    });
+
+    it('沒有指定覆蓋率報告時應該回報錯誤', async () => {
+      const result = await executeCLI(['analyze', 'coverage', '--path', fixture.tempPath]);
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.stderr).toContain('analyze coverage 需要 --coverage <file>');
+    });
+  });
 });
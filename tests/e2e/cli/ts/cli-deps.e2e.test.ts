@@ -394,4 +394,500 @@ export class CycleY {
       expect(data.all).toBeUndefined();
     });
   });
+
+  describe('模組解析', () => {
+    const graphEdges = async () => {
+      const result = await executeCLI(['deps', 'graph', '--path', fixture.tempPath, '--format', 'json']);
+      expect(result.exitCode).toBe(0);
+      return JSON.parse(result.stdout).edges as Array<{ source: string; target: string; dependencyType: string }>;
+    };
+    const findEdge = (edges: Array<{ source: string; target: string; dependencyType: string }>, from: string, to: string) =>
+      edges.find(edge => edge.source === fixture.getFilePath(from) && edge.target === fixture.getFilePath(to));
+
+    beforeEach(async () => {
+      await fixture.writeFile('src/lib/a.ts', 'export const a = 1;\n');
+      await fixture.writeFile('src/lib/index.ts', 'export * from \'./a.js\';\n');
+      await fixture.writeFile('src/lazy.ts', 'export const lazy = true;\n');
+    });
+
+    it('index 檔案、.js 寫法與 export * 都應該建立依賴', async () => {
+      await fixture.writeFile('src/consumer.ts', 'import { a } from \'./lib\';\nexport const value = a;\n');
+
+      const edges = await graphEdges();
+
+      expect(findEdge(edges, 'src/consumer.ts', 'src/lib/index.ts')?.dependencyType).toBe('import');
+      expect(findEdge(edges, 'src/lib/index.ts', 'src/lib/a.ts')?.dependencyType).toBe('re-export');
+      expect(findEdge(edges, 'src/types/index.ts', 'src/types/user.ts')?.dependencyType).toBe('re-export');
+    });
+
+    it('tsconfig paths 別名與動態 import 應該解析為專案檔案', async () => {
+      await fixture.writeFile('tsconfig.json', JSON.stringify({
+        compilerOptions: { module: 'ESNext', moduleResolution: 'bundler', baseUrl: '.', paths: { '@lib/*': ['src/lib/*'] } }
+      }));
+      await fixture.writeFile('src/consumer.ts', 'import { a } from \'@lib/a\';\nexport const load = () => import(\'./lazy\');\n');
+
+      const edges = await graphEdges();
+
+      expect(findEdge(edges, 'src/consumer.ts', 'src/lib/a.ts')?.dependencyType).toBe('import');
+      expect(findEdge(edges, 'src/consumer.ts', 'src/lazy.ts')?.dependencyType).toBe('dynamic-import');
+    });
+
+    it('impact 應該穿過 barrel 檔案找到間接使用者', async () => {
+      await fixture.writeFile('src/consumer.ts', 'import { a } from \'./lib/index.js\';\nexport const value = a;\n');
+
+      const result = await executeCLI(['deps', 'impact', '--path', fixture.tempPath, '--file', fixture.getFilePath('src/lib/a.ts'), '--format', 'json']);
+
+      expect(result.exitCode).toBe(0);
+      const data = JSON.parse(result.stdout);
+      expect(data.directDependents).toEqual([fixture.getFilePath('src/lib/index.ts')]);
+      expect(data.transitiveDependents).toContain(fixture.getFilePath('src/consumer.ts'));
+    });
+  });
+
+  describe('孤立檔案（進入點可達性）', () => {
+    const orphans = async () => {
+      const result = await executeCLI(['deps', 'orphans', '--path', fixture.tempPath, '--format', 'json']);
+      expect(result.exitCode).toBe(0);
+      return JSON.parse(result.stdout);
+    };
+    const relativeOrphans = (data: any) => data.orphans
+      .map((o: any) => o.filePath.slice(fixture.tempPath.length + 1))
+      .sort();
+
+    it('應該從 package.json main 走訪，只回報無法到達的檔案', async () => {
+      const data = await orphans();
+
+      expect(data.entryPoints).toEqual([{ filePath: fixture.getFilePath('src/index.ts'), source: 'package-main' }]);
+      expect(relativeOrphans(data)).toContain('src/utils/formatter.ts');
+      expect(relativeOrphans(data)).not.toContain('src/index.ts');
+      expect(relativeOrphans(data)).not.toContain('src/models/user-model.ts');
+      expect(data.orphans[0].reason).toBe('Not reachable from any entry point');
+      expect(data.summary.totalOrphans).toBe(data.orphans.length);
+    });
+
+    it('bin 腳本、測試檔、設定檔與 entryPoints 設定都應該視為進入點', async () => {
+      await fixture.writeFile('package.json', JSON.stringify({
+        name: 'sample-project',
+        main: 'dist/index.js',
+        bin: { sample: './dist/cli.js' }
+      }));
+      await fixture.writeFile('src/cli.ts', 'import { formatDate } from \'./utils/formatter\';\nconsole.log(formatDate(new Date()));\n');
+      await fixture.writeFile('tests/validator.test.ts', 'import { validateEmail } from \'../src/utils/validator\';\nvalidateEmail(\'a@b.c\');\n');
+      await fixture.writeFile('vitest.config.ts', 'export default {};\n');
+      await fixture.writeFile('.agent-ide.json', JSON.stringify({ entryPoints: ['src/quality-test/**'] }));
+
+      const data = await orphans();
+      const sources = Object.fromEntries(data.entryPoints.map((e: any) => [e.filePath.slice(fixture.tempPath.length + 1), e.source]));
+
+      expect(sources['src/cli.ts']).toBe('package-bin');
+      expect(sources['tests/validator.test.ts']).toBe('test');
+      expect(sources['vitest.config.ts']).toBe('config-file');
+      expect(sources['src/quality-test/security-risks.ts']).toBe('configured');
+
+      const orphanFiles = relativeOrphans(data);
+      expect(orphanFiles).not.toContain('src/cli.ts');
+      expect(orphanFiles).not.toContain('src/utils/formatter.ts');
+      expect(orphanFiles).not.toContain('src/utils/validator.ts');
+      expect(orphanFiles).not.toContain('src/quality-test/security-risks.ts');
+      expect(orphanFiles).toContain('src/utils/date-utils.ts');
+    });
+
+    it('bin 腳本匯入編譯輸出時應該走訪 rootDir 下對應的原始檔', async () => {
+      await fixture.writeFile('package.json', JSON.stringify({
+        name: 'sample-project',
+        main: 'dist/index.js',
+        bin: { sample: './bin/sample.js' }
+      }));
+      // 未建置，dist/ 不存在
+      await fixture.writeFile('bin/sample.js', 'import { run } from \'../dist/cli.js\';\nrun();\n');
+      await fixture.writeFile('src/cli.ts', 'import { formatDate } from \'./utils/formatter\';\nexport function run() { console.log(formatDate(new Date())); }\n');
+
+      const data = await orphans();
+      const orphanFiles = relativeOrphans(data);
+
+      expect(data.entryPoints).toContainEqual({ filePath: fixture.getFilePath('bin/sample.js'), source: 'package-bin' });
+      expect(orphanFiles).not.toContain('src/cli.ts');
+      expect(orphanFiles).not.toContain('src/utils/formatter.ts');
+    });
+
+    it('測試目錄中的 fixture 專案與無法解析的匯入不應該成為進入點', async () => {
+      await fixture.writeFile('tests/fixtures/demo/src/app.ts', 'export const app = 1;\n');
+      await fixture.writeFile('tests/helpers/index.ts', 'export * from \'./test-project\';\n');
+
+      const data = await orphans();
+      const entryFiles = data.entryPoints.map((e: any) => e.filePath.slice(fixture.tempPath.length + 1));
+
+      expect(entryFiles).toContain('tests/helpers/index.ts');
+      expect(entryFiles).not.toContain('tests/helpers/test-project');
+      expect(entryFiles).not.toContain('tests/fixtures/demo/src/app.ts');
+      // fixture 是獨立的範例專案，也不回報為孤立檔案
+      expect(relativeOrphans(data)).not.toContain('tests/fixtures/demo/src/app.ts');
+    });
+
+    it('應該回報可達檔案中沒有被匯入的匯出符號', async () => {
+      const data = await orphans();
+
+      expect(data.unreachableExports).toContainEqual({
+        filePath: fixture.getFilePath('src/core/constants.ts'),
+        symbol: 'API_BASE_URL',
+        line: 7
+      });
+      // index.ts 有匯入 APP_NAME，進入點本身的匯出視為公開 API
+      expect(data.unreachableExports.some((e: any) => e.symbol === 'APP_NAME')).toBe(false);
+      expect(data.unreachableExports.some((e: any) => e.filePath.endsWith('src/index.ts'))).toBe(false);
+    });
+
+    it('summary 格式應該列出進入點與無法到達的檔案', async () => {
+      const result = await executeCLI(['deps', 'orphans', '--path', fixture.tempPath]);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('📍 進入點: 1 個（package-main 1）');
+      expect(result.stdout).toContain('個無法從進入點到達的檔案');
+      expect(result.stdout).toContain('   src/utils/formatter.ts');
+      expect(result.stdout).toContain('src/core/constants.ts:7 API_BASE_URL');
+    });
+
+    it('找不到進入點時應該改稱沒有被依賴的檔案，而不是無法從進入點到達', async () => {
+      await fixture.writeFile('package.json', JSON.stringify({ name: 'sample-project' }));
+
+      const result = await executeCLI(['deps', 'orphans', '--path', fixture.tempPath]);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('⚠️  找不到進入點');
+      expect(result.stdout).toContain('個沒有被任何檔案依賴的檔案');
+      expect(result.stdout).not.toContain('無法從進入點到達');
+    });
+  });
+
+  describe('套件依賴稽核', () => {
+    const audit = async () => {
+      const result = await executeCLI(['deps', 'packages', '--path', fixture.tempPath, '--format', 'json']);
+      expect(result.exitCode).toBe(0);
+      return JSON.parse(result.stdout);
+    };
+
+    beforeEach(async () => {
+      await fixture.writeFile('package.json', JSON.stringify({
+        name: 'sample-project',
+        scripts: { build: 'tsc' },
+        dependencies: { lodash: '^4.0.0', zod: '^3.0.0', 'unused-pkg': '^1.0.0' },
+        devDependencies: { chalk: '^5.0.0', typescript: '^5.0.0', vitest: '^1.0.0', '@types/node': '^20.0.0' }
+      }));
+      await fixture.writeFile('package-lock.json', JSON.stringify({
+        lockfileVersion: 3,
+        packages: {
+          'node_modules/typescript': { version: '5.0.0', bin: { tsc: 'bin/tsc' } },
+          'node_modules/left-pad': { version: '1.3.0' }
+        }
+      }));
+    });
+
+    it('應該回報未使用、未宣告、執行期 devDependencies 與只用於型別的套件', async () => {
+      await fixture.writeFile('src/app.ts', [
+        'import { map } from \'lodash/fp\';',
+        'import type { ZodType } from \'zod\';',
+        'import chalk from \'chalk\';',
+        'import leftPad from \'left-pad\';',
+        'import { readFileSync } from \'node:fs\';',
+        'export const run = (schema: ZodType) => chalk.green(leftPad(map(String, [schema, readFileSync]).join(), 10));'
+      ].join('\n'));
+      await fixture.writeFile('tests/app.test.ts', 'import { it } from \'vitest\';\nit(\'runs\', () => {});\n');
+
+      const data = await audit();
+      const root = data.workspaces[0];
+
+      expect(data.lockfiles).toEqual(['package-lock.json']);
+      expect(root.unused).toEqual([{ packageName: 'unused-pkg', field: 'dependencies' }]);
+      expect(root.undeclared).toMatchObject([{ packageName: 'left-pad', filePath: 'src/app.ts', line: 4, inLockfile: true }]);
+      expect(root.devDependenciesAtRuntime).toMatchObject([{ packageName: 'chalk', filePath: 'src/app.ts', line: 3 }]);
+      expect(root.typeOnlyDependencies).toEqual(['zod']);
+      expect(data.summary).toMatchObject({ workspaces: 1, unused: 1, undeclared: 1, devDependenciesAtRuntime: 1, typeOnlyDependencies: 1 });
+    });
+
+    it('應該依 workspaces 分別比對各套件的 package.json', async () => {
+      await fixture.writeFile('package.json', JSON.stringify({ name: 'monorepo', private: true, workspaces: ['packages/*'] }));
+      await fixture.writeFile('packages/app/package.json', JSON.stringify({ name: '@demo/app', dependencies: { '@demo/lib': '*' } }));
+      await fixture.writeFile('packages/app/src/index.ts', 'import { pad } from \'@demo/lib\';\nimport React from \'react\';\nexport default pad(String(React));\n');
+      await fixture.writeFile('packages/lib/package.json', JSON.stringify({ name: '@demo/lib', dependencies: { 'left-pad': '^1.0.0' } }));
+      await fixture.writeFile('packages/lib/src/index.ts', 'export const pad = (value: string) => value;\n');
+
+      const data = await audit();
+      const byName = Object.fromEntries(data.workspaces.map((workspace: any) => [workspace.name, workspace]));
+
+      expect(Object.keys(byName).sort()).toEqual(['@demo/app', '@demo/lib', 'monorepo']);
+      expect(byName['@demo/app'].directory).toBe('packages/app');
+      expect(byName['@demo/app'].unused).toEqual([]);
+      expect(byName['@demo/app'].undeclared).toMatchObject([{ packageName: 'react', filePath: 'packages/app/src/index.ts', line: 2, inLockfile: false }]);
+      expect(byName['@demo/lib'].unused).toEqual([{ packageName: 'left-pad', field: 'dependencies' }]);
+    });
+
+    it('summary 格式應該依 workspace 列出問題', async () => {
+      await fixture.writeFile('src/app.ts', 'import chalk from \'chalk\';\nexport const log = chalk.red;\n');
+
+      const result = await executeCLI(['deps', 'packages', '--path', fixture.tempPath]);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('✅ 套件依賴稽核（1 個 workspace，lockfile: package-lock.json）');
+      expect(result.stdout).toContain('📁 sample-project (.)');
+      expect(result.stdout).toContain('lodash (dependencies)');
+      expect(result.stdout).toContain('src/app.ts:1 chalk');
+    });
+  });
+
+  describe('依賴變更模擬', () => {
+    const simulate = async (...args: string[]) => {
+      const result = await executeCLI(['deps', 'simulate', '--path', fixture.tempPath, '--format', 'json', ...args]);
+      expect(result.exitCode).toBe(0);
+      return JSON.parse(result.stdout);
+    };
+
+    it('--add-edge 應該回報新的循環依賴與擴大的影響範圍', async () => {
+      const data = await simulate('--add-edge', 'src/models/user-model.ts:src/services/user-service.ts');
+
+      expect(data.change).toEqual({ type: 'add-edge', from: 'src/models/user-model.ts', to: 'src/services/user-service.ts' });
+      expect(data.introducedCycles).toMatchObject([{ cycle: ['src/models/user-model.ts', 'src/services/user-service.ts'], length: 2 }]);
+      expect(data.introducedComponents).toEqual([{ nodes: ['src/models/user-model.ts', 'src/services/user-service.ts'], size: 2 }]);
+      expect(data.introducedModuleCycles).toMatchObject([{ cycle: ['src/models', 'src/services'] }]);
+
+      const target = data.impact.find((impact: { file: string }) => impact.file === 'src/services/user-service.ts');
+      expect(target.addedDependents).toContain('src/models/user-model.ts');
+      expect(target.after.transitivelyAffected).toBeGreaterThan(target.before.transitivelyAffected);
+      expect(data.summary).toMatchObject({ createsCycle: true, widensImpact: true });
+    });
+
+    it('--move 應該以移動後的路徑比較，只回報目錄層級的新循環', async () => {
+      const data = await simulate('--move', 'src/models/base-model.ts:src/services/base-model.ts');
+
+      expect(data.introducedCycles).toEqual([]);
+      expect(data.resolvedCycles).toEqual([]);
+      expect(data.impact).toEqual([]);
+      expect(data.introducedModuleCycles).toMatchObject([{ cycle: ['src/models', 'src/services'] }]);
+      expect(data.summary.warnings).toEqual(['產生新的目錄循環依賴: src/models → src/services → src/models']);
+    });
+
+    it('已有傳遞依賴的 import 不會擴大影響範圍', async () => {
+      const result = await executeCLI(['deps', 'simulate', '--path', fixture.tempPath, '--add-edge', 'src/index.ts:src/models/user-model.ts']);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('依賴變更模擬（新增 import src/index.ts → src/models/user-model.ts）');
+      expect(result.stdout).toContain('不會產生新的循環依賴');
+    });
+
+    it('缺少 --add-edge 或 --move 應該回報錯誤', async () => {
+      const result = await executeCLI(['deps', 'simulate', '--path', fixture.tempPath]);
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.stderr + result.stdout).toContain('simulate 需要 --add-edge <from:to> 或 --move <source:target>');
+    });
+  });
+
+  describe('模組耦合度指標', () => {
+    const metrics = async (...args: string[]) => {
+      const result = await executeCLI(['deps', 'metrics', '--path', fixture.tempPath, '--format', 'json', ...args]);
+      expect(result.exitCode).toBe(0);
+      return JSON.parse(result.stdout);
+    };
+
+    it('應該以目錄為模組計算 Ca、Ce、I、A 與主序列距離', async () => {
+      const data = await metrics();
+      const byModule = new Map(data.modules.map((metric: { module: string }) => [metric.module, metric]));
+
+      expect(byModule.get('src/types/')).toMatchObject({ efferentCoupling: 0, instability: 0, zone: null });
+      expect(byModule.get('src/types/').afferentCoupling).toBeGreaterThan(10);
+      expect(byModule.get('src/types/').abstractness).toBeGreaterThan(0.5);
+      expect(byModule.get('src/core/')).toMatchObject({ afferentCoupling: 1, efferentCoupling: 0, distance: 1, zone: 'pain' });
+      expect(byModule.get('src/utils/')).toMatchObject({ instability: 1, abstractness: 1, zone: 'uselessness' });
+      expect(data.summary).toMatchObject({ totalModules: data.modules.length, distanceThreshold: 0.7, offenders: 2 });
+    });
+
+    it('--collapse 應該依目錄深度合併模組', async () => {
+      const data = await metrics('--collapse', '1');
+
+      expect(data.modules.map((metric: { module: string }) => metric.module)).toEqual(['src/']);
+      expect(data.modules[0]).toMatchObject({ afferentCoupling: 0, efferentCoupling: 0 });
+    });
+
+    it('文字輸出應該列出偏離主序列的模組', async () => {
+      const result = await executeCLI(['deps', 'metrics', '--path', fixture.tempPath]);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('模組耦合度指標（11 個模組）');
+      expect(result.stdout).toContain('2 個模組偏離主序列（D ≥ 0.7）');
+      expect(result.stdout).toContain('src/core/ D=1.00（痛苦區');
+    });
+
+    it('無效的 --collapse 應該回報錯誤', async () => {
+      const result = await executeCLI(['deps', 'metrics', '--path', fixture.tempPath, '--collapse', '0']);
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.stderr + result.stdout).toContain('--collapse 必須是正整數');
+    });
+  });
+
+  describe('依賴圖匯出', () => {
+    const writeCycle = async () => {
+      await fixture.writeFile('src/utils/cycle-a.ts', 'import { b } from \'./cycle-b\';\nexport const a = 1;\n');
+      await fixture.writeFile('src/utils/cycle-b.ts', 'import { a } from \'./cycle-a\';\nexport const b = a;\n');
+    };
+
+    it('DOT 格式應該以紅色標示循環依賴', async () => {
+      await writeCycle();
+
+      const result = await executeCLI(['deps', 'graph', '--path', fixture.tempPath, '--format', 'dot']);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout.startsWith('digraph dependencies {')).toBe(true);
+      expect(result.stdout).toContain('"src/utils/cycle-a.ts" -> "src/utils/cycle-b.ts" [color=red];');
+      expect(result.stdout).toContain('"src/utils/cycle-b.ts" [color=red, fontcolor=red];');
+      expect(result.stdout).toContain('"src/services/auth-service.ts" -> "src/services/user-service.ts";');
+    });
+
+    it('Mermaid 格式應該只包含 --file 的傳遞依賴與被依賴', async () => {
+      const result = await executeCLI([
+        'deps', 'graph',
+        '--path', fixture.tempPath,
+        '--format', 'mermaid',
+        '--file', 'src/models/user-model.ts'
+      ]);
+
+      expect(result.exitCode).toBe(0);
+      const lines = result.stdout.split('\n');
+      expect(lines[0]).toBe('flowchart LR');
+      expect(result.stdout).toContain('["src/types/user.ts"]');
+      expect(result.stdout).toContain('["src/services/user-service.ts"]');
+      expect(result.stdout).toContain('["src/index.ts"]');
+      expect(result.stdout).not.toContain('product-model.ts');
+      expect(result.stdout).not.toContain('classDef cycle');
+    });
+
+    it('應該依目錄深度合併節點並累計 import 數', async () => {
+      const result = await executeCLI([
+        'deps', 'graph',
+        '--path', fixture.tempPath,
+        '--format', 'jgf',
+        '--collapse', '2'
+      ]);
+
+      expect(result.exitCode).toBe(0);
+      const { graph } = JSON.parse(result.stdout);
+      expect(graph.directed).toBe(true);
+      expect(graph.nodes['src/services/'].metadata).toEqual({ files: 6, cycle: false });
+      expect(Object.keys(graph.nodes).some((id: string) => id.endsWith('.ts') && id !== 'src/index.ts')).toBe(false);
+
+      const edge = graph.edges.find((e: any) => e.source === 'src/services/' && e.target === 'src/models/');
+      expect(edge.metadata.weight).toBeGreaterThan(1);
+      expect(graph.edges.some((e: any) => e.source === e.target)).toBe(false);
+    });
+
+    it('GraphML 格式應該輸出合法的節點與邊', async () => {
+      await writeCycle();
+
+      const result = await executeCLI([
+        'deps', 'graph',
+        '--path', fixture.tempPath,
+        '--format', 'graphml',
+        '--file', 'src/utils/cycle-a.ts'
+      ]);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('<graph id="dependencies" edgedefault="directed">');
+      expect(result.stdout).toContain('<node id="src/utils/cycle-a.ts">');
+      expect(result.stdout).toContain('<edge id="e0" source="src/utils/cycle-a.ts" target="src/utils/cycle-b.ts">');
+      expect(result.stdout.match(/<node /g)).toHaveLength(2);
+      expect(result.stdout.trim().endsWith('</graphml>')).toBe(true);
+    });
+  });
+
+  describe('架構規則檢查', () => {
+    const writeArchitectureConfig = () => fixture.writeFile('.agent-ide.json', JSON.stringify({
+      architecture: {
+        layers: {
+          controllers: ['src/controllers/**', 'src/api/**'],
+          services: ['src/services/**'],
+          models: ['src/models/**'],
+          types: ['src/types/**']
+        },
+        rules: [
+          { name: 'controllers-no-models', from: 'controllers', forbidden: ['models'] },
+          { name: 'services-downward', from: 'services', allowed: ['models', 'types'] },
+          { name: 'types-are-leaf', from: 'types', allowed: [], message: 'types 只能放純型別' }
+        ]
+      }
+    }, null, 2));
+
+    it('沒有違規時應該正常結束', async () => {
+      await writeArchitectureConfig();
+
+      const result = await executeCLI(['deps', 'check', '--path', fixture.tempPath]);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('未發現違反架構規則的依賴（3 條規則）');
+    });
+
+    it('應該回報違反 forbidden 規則的 import 檔案、行號與規則名稱', async () => {
+      await writeArchitectureConfig();
+      const controller = (await fixture.readFile('src/controllers/user-controller.ts')).split('\n');
+      controller.splice(8, 0, 'import { UserModel } from \'../models/user-model\';');
+      await fixture.writeFile('src/controllers/user-controller.ts', controller.join('\n'));
+
+      const result = await executeCLI(['deps', 'check', '--path', fixture.tempPath, '--format', 'json']);
+
+      expect(result.exitCode).not.toBe(0);
+      const data = JSON.parse(result.stdout);
+      expect(data.violations).toEqual([{
+        file: 'src/controllers/user-controller.ts',
+        line: 9,
+        target: 'src/models/user-model.ts',
+        importPath: '../models/user-model',
+        fromLayer: 'controllers',
+        toLayer: 'models',
+        rule: 'controllers-no-models'
+      }]);
+      expect(data.summary).toEqual({ totalViolations: 1, rulesChecked: 3, filesWithViolations: 1 });
+    });
+
+    it('應該回報依賴 allowed 以外層級的 import 與規則說明', async () => {
+      await writeArchitectureConfig();
+      await fixture.writeFile('src/types/session.ts', [
+        'import { User } from \'./user\';',
+        'import type {',
+        '  AuthService',
+        '} from \'../services/auth-service\';',
+        '',
+        'export interface Session {',
+        '  user: User;',
+        '  auth: AuthService;',
+        '}',
+        ''
+      ].join('\n'));
+
+      const result = await executeCLI(['deps', 'check', '--path', fixture.tempPath]);
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.stdout).toContain('發現 1 個違反架構規則的依賴');
+      expect(result.stdout).toContain('src/types/session.ts:4 [types-are-leaf] types → services (../services/auth-service)');
+      expect(result.stdout).toContain('types 只能放純型別');
+    });
+
+    it('未設定 architecture 規則時應該回報錯誤', async () => {
+      const result = await executeCLI(['deps', 'check', '--path', fixture.tempPath]);
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.stderr).toContain('未設定 architecture 規則');
+    });
+
+    it('規則引用未宣告的層級時應該回報錯誤', async () => {
+      await fixture.writeFile('.agent-ide.json', JSON.stringify({
+        architecture: {
+          layers: { core: ['src/core/**'] },
+          rules: [{ name: 'core-no-ui', from: 'core', forbidden: ['ui'] }]
+        }
+      }));
+
+      const result = await executeCLI(['deps', 'check', '--path', fixture.tempPath]);
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.stderr).toContain('規則 \'core-no-ui\' 引用了未宣告的層級 \'ui\'');
+    });
+  });
 });
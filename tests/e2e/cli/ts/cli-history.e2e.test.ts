@@ -0,0 +1,96 @@
+/**
+ * CLI undo / redo / history 命令 E2E 測試
+ * 驗證操作歷史可跨 CLI 行程復原與重做
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { loadFixture, FixtureProject } from '../../helpers/fixture-manager';
+import { executeCLI } from '../../helpers/cli-executor';
+
+describe('CLI 操作歷史 E2E 測試', () => {
+  let fixture: FixtureProject;
+
+  beforeEach(async () => {
+    fixture = await loadFixture('sample-project');
+  });
+
+  afterEach(async () => {
+    await fixture.cleanup();
+  });
+
+  const renameUser = () => executeCLI([
+    'rename',
+    '--symbol', 'User',
+    '--new-name', 'Person',
+    '--type', 'interface',
+    '--path', fixture.tempPath
+  ]);
+
+  it('應該能列出、復原並重做重新命名', async () => {
+    const original = await fixture.readFile('src/types/user.ts');
+
+    const renameResult = await renameUser();
+    expect(renameResult.exitCode).toBe(0);
+    expect(renameResult.stdout).toContain('agent-ide undo 1');
+
+    const historyResult = await executeCLI(['history', '--path', fixture.tempPath, '--format', 'json']);
+    expect(historyResult.exitCode).toBe(0);
+    const { operations } = JSON.parse(historyResult.stdout);
+    expect(operations).toHaveLength(1);
+    expect(operations[0]).toMatchObject({ id: '1', type: 'rename', status: 'applied' });
+    expect(operations[0].files).toContain('src/types/user.ts');
+
+    const undoResult = await executeCLI(['undo', '--path', fixture.tempPath]);
+    expect(undoResult.exitCode).toBe(0);
+    expect(await fixture.readFile('src/types/user.ts')).toBe(original);
+    expect(await fixture.assertFileContains('src/models/user-model.ts', 'import { User')).toBe(true);
+
+    const redoResult = await executeCLI(['redo', '--path', fixture.tempPath]);
+    expect(redoResult.exitCode).toBe(0);
+    expect(await fixture.assertFileContains('src/types/user.ts', 'export interface Person {')).toBe(true);
+    expect(await fixture.assertFileContains('src/models/user-model.ts', 'import { Person')).toBe(true);
+  });
+
+  it('檔案在操作後被修改時應該拒絕復原', async () => {
+    expect((await renameUser()).exitCode).toBe(0);
+
+    const modified = `${await fixture.readFile('src/types/user.ts')}\n// 手動修改\n`;
+    await fixture.writeFile('src/types/user.ts', modified);
+
+    const result = await executeCLI(['undo', '1', '--path', fixture.tempPath, '--format', 'json']);
+
+    expect(result.exitCode).not.toBe(0);
+    const output = JSON.parse(result.stdout);
+    expect(output.success).toBe(false);
+    expect(output.code).toBe('FILES_CHANGED');
+    expect(output.changedFiles).toEqual(['src/types/user.ts']);
+
+    // 不應該部分復原
+    expect(await fixture.readFile('src/types/user.ts')).toBe(modified);
+    expect(await fixture.assertFileContains('src/models/user-model.ts', 'import { Person')).toBe(true);
+  });
+
+  it('應該能復原檔案移動', async () => {
+    const result = await executeCLI([
+      'move',
+      fixture.getFilePath('src/utils/formatter.ts'),
+      fixture.getFilePath('src/shared/formatter.ts')
+    ]);
+    expect(result.exitCode).toBe(0);
+    expect(await fixture.fileExists('src/shared/formatter.ts')).toBe(true);
+
+    const undoResult = await executeCLI(['undo', '--path', fixture.tempPath]);
+
+    expect(undoResult.exitCode).toBe(0);
+    expect(await fixture.fileExists('src/utils/formatter.ts')).toBe(true);
+    expect(await fixture.fileExists('src/shared/formatter.ts')).toBe(false);
+    expect(await fixture.fileExists('src/shared')).toBe(false);
+  });
+
+  it('沒有可復原的操作時應該回報錯誤', async () => {
+    const result = await executeCLI(['undo', '--path', fixture.tempPath]);
+
+    expect(result.exitCode).not.toBe(0);
+    expect(result.stderr).toContain('沒有可復原的操作');
+  });
+});
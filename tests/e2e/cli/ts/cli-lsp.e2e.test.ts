@@ -0,0 +1,290 @@
+/**
+ * CLI lsp 命令 E2E 測試
+ * 透過 stdio 送出 Content-Length 分隔的 LSP 訊息，驗證查詢、重新命名與診斷
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PassThrough } from 'stream';
+import { pathToFileURL } from 'url';
+import { loadFixture, FixtureProject } from '../../helpers/fixture-manager';
+import { executeCLI } from '../../helpers/cli-executor';
+import { LspServer } from '../../../../src/interfaces/lsp/lsp-server';
+import { TypeScriptParser } from '../../../../src/plugins/typescript/parser';
+
+/**
+ * 將訊息包裝為 LSP base protocol 格式
+ */
+function frame(message: object): string {
+  const json = JSON.stringify(message);
+  return `Content-Length: ${Buffer.byteLength(json, 'utf8')}\r\n\r\n${json}`;
+}
+
+/**
+ * 解析 LSP 輸出中的所有訊息
+ */
+function parseMessages(output: string): any[] {
+  const messages: any[] = [];
+  let buffer = Buffer.from(output, 'utf8');
+
+  for (;;) {
+    const headerEnd = buffer.indexOf('\r\n\r\n');
+    if (headerEnd === -1) {
+      break;
+    }
+    const length = parseInt(/Content-Length:\s*(\d+)/i.exec(buffer.subarray(0, headerEnd).toString())![1], 10);
+    const body = buffer.subarray(headerEnd + 4, headerEnd + 4 + length).toString('utf8');
+    messages.push(JSON.parse(body));
+    buffer = buffer.subarray(headerEnd + 4 + length);
+  }
+
+  return messages;
+}
+
+/**
+ * 執行完整的 LSP session（initialize → 請求 → shutdown → exit）
+ */
+async function runLspSession(fixture: FixtureProject, messages: object[]): Promise<{ exitCode: number; messages: any[] }> {
+  const input = [
+    { jsonrpc: '2.0', id: 0, method: 'initialize', params: { rootUri: pathToFileURL(fixture.tempPath).href, capabilities: {} } },
+    { jsonrpc: '2.0', method: 'initialized', params: {} },
+    ...messages,
+    { jsonrpc: '2.0', id: 999, method: 'shutdown' },
+    { jsonrpc: '2.0', method: 'exit' }
+  ].map(frame).join('');
+
+  const result = await executeCLI(['lsp', '--stdio'], { cwd: fixture.tempPath, input, timeout: 60000 });
+  return { exitCode: result.exitCode, messages: parseMessages(result.stdout) };
+}
+
+/**
+ * 找出指定文字在檔案中的位置（0-based）
+ */
+function findPosition(content: string, text: string): { line: number; character: number } {
+  const lines = content.split('\n');
+  const line = lines.findIndex(l => l.includes(text));
+  return { line, character: lines[line].indexOf(text) };
+}
+
+describe('CLI lsp 命令 E2E 測試', () => {
+  let fixture: FixtureProject;
+
+  beforeEach(async () => {
+    fixture = await loadFixture('sample-project');
+  });
+
+  afterEach(async () => {
+    await fixture.cleanup();
+  });
+
+  it('應該回應 initialize 並在 shutdown/exit 後正常結束', async () => {
+    const { exitCode, messages } = await runLspSession(fixture, []);
+
+    expect(exitCode).toBe(0);
+
+    const init = messages.find(message => message.id === 0);
+    expect(init.result.serverInfo.name).toBe('agent-ide');
+    expect(init.result.capabilities.definitionProvider).toBe(true);
+    expect(init.result.capabilities.renameProvider).toEqual({ prepareProvider: true });
+    expect(messages.find(message => message.id === 999).result).toBeNull();
+  });
+
+  it('應該提供 documentSymbol 與 workspace/symbol', async () => {
+    const uri = pathToFileURL(fixture.getFilePath('src/types/user.ts')).href;
+
+    const { messages } = await runLspSession(fixture, [
+      { jsonrpc: '2.0', id: 1, method: 'textDocument/documentSymbol', params: { textDocument: { uri } } },
+      { jsonrpc: '2.0', id: 2, method: 'workspace/symbol', params: { query: 'UserService' } }
+    ]);
+
+    const documentSymbols = messages.find(message => message.id === 1).result;
+    const user = documentSymbols.find((symbol: any) => symbol.name === 'User');
+    expect(user).toBeDefined();
+    expect(user.kind).toBe(11); // Interface
+    expect(user.location.uri).toBe(uri);
+
+    const workspaceSymbols = messages.find(message => message.id === 2).result;
+    const service = workspaceSymbols.find((symbol: any) => symbol.name === 'UserService');
+    expect(service).toBeDefined();
+    expect(service.location.uri).toContain('src/services/user-service.ts');
+  });
+
+  it('應該跨檔案查找定義與引用，並產生重新命名編輯', async () => {
+    const userPath = fixture.getFilePath('src/types/user.ts');
+    const servicePath = fixture.getFilePath('src/services/user-service.ts');
+    const userUri = pathToFileURL(userPath).href;
+    const serviceUri = pathToFileURL(servicePath).href;
+
+    const userContent = await fixture.readFile('src/types/user.ts');
+    const serviceContent = await fixture.readFile('src/services/user-service.ts');
+    const declaration = findPosition(userContent, 'export interface User ');
+    const position = { line: declaration.line, character: declaration.character + 'export interface '.length };
+    const importLine = findPosition(serviceContent, 'import { User,');
+    const usage = { line: importLine.line, character: importLine.character + 'import { '.length };
+
+    const { messages } = await runLspSession(fixture, [
+      { jsonrpc: '2.0', id: 1, method: 'textDocument/definition', params: { textDocument: { uri: serviceUri }, position: usage } },
+      {
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'textDocument/references',
+        params: { textDocument: { uri: userUri }, position, context: { includeDeclaration: true } }
+      },
+      { jsonrpc: '2.0', id: 3, method: 'textDocument/prepareRename', params: { textDocument: { uri: userUri }, position } },
+      { jsonrpc: '2.0', id: 4, method: 'textDocument/rename', params: { textDocument: { uri: userUri }, position, newName: 'Person' } }
+    ]);
+
+    const definitions = messages.find(message => message.id === 1).result;
+    expect(definitions.some((location: any) => location.uri === userUri)).toBe(true);
+
+    const references = messages.find(message => message.id === 2).result;
+    const referencedUris = new Set(references.map((location: any) => location.uri));
+    expect(referencedUris.has(userUri)).toBe(true);
+    expect(referencedUris.has(serviceUri)).toBe(true);
+
+    const prepare = messages.find(message => message.id === 3).result;
+    expect(prepare.placeholder).toBe('User');
+    expect(prepare.range.start).toEqual(position);
+
+    const edit = messages.find(message => message.id === 4).result;
+    expect(edit.changes[userUri].every((change: any) => change.newText === 'Person')).toBe(true);
+    expect(edit.changes[serviceUri].length).toBeGreaterThan(0);
+
+    // rename 只回傳編輯，不修改檔案
+    expect(await fixture.readFile('src/types/user.ts')).toBe(userContent);
+  });
+
+  it('不相關的檔案有同名符號時只回傳同一符號的定義、引用與重新命名', async () => {
+    await fixture.writeFile('src/billing/invoice.ts', 'export function format(amount: number): string {\n  return amount.toFixed(2);\n}\n');
+    await fixture.writeFile('src/billing/report.ts', "import { format } from './invoice';\n\nexport const total = format(42);\n");
+    await fixture.writeFile('src/logging/message.ts', 'export function format(message: string): string {\n  return `[log] ${message}`;\n}\n');
+    await fixture.writeFile('src/logging/logger.ts', "import { format } from './message';\n\nexport const line = format('ready');\n");
+    // 同名的區域變數與字串內容也不應該被視為引用
+    await fixture.writeFile('src/billing/summary.ts', "const format = 'csv';\nexport const label = `format: ${format}`;\n");
+
+    const invoiceUri = pathToFileURL(fixture.getFilePath('src/billing/invoice.ts')).href;
+    const reportUri = pathToFileURL(fixture.getFilePath('src/billing/report.ts')).href;
+    const reportContent = await fixture.readFile('src/billing/report.ts');
+    const call = findPosition(reportContent, 'format(42)');
+
+    const { messages } = await runLspSession(fixture, [
+      { jsonrpc: '2.0', id: 1, method: 'textDocument/definition', params: { textDocument: { uri: reportUri }, position: call } },
+      {
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'textDocument/references',
+        params: { textDocument: { uri: reportUri }, position: call, context: { includeDeclaration: true } }
+      },
+      { jsonrpc: '2.0', id: 3, method: 'textDocument/rename', params: { textDocument: { uri: reportUri }, position: call, newName: 'formatAmount' } }
+    ]);
+
+    const definitions = messages.find(message => message.id === 1).result;
+    expect(definitions).toEqual([{ uri: invoiceUri, range: { start: { line: 0, character: 16 }, end: { line: 0, character: 22 } } }]);
+
+    const references = messages.find(message => message.id === 2).result;
+    expect(new Set(references.map((location: any) => location.uri))).toEqual(new Set([invoiceUri, reportUri]));
+    expect(references).toHaveLength(3);
+
+    const edit = messages.find(message => message.id === 3).result;
+    expect(Object.keys(edit.changes).sort()).toEqual([invoiceUri, reportUri].sort());
+    expect(edit.changes[reportUri]).toHaveLength(2);
+    expect(edit.changes[invoiceUri]).toHaveLength(1);
+  });
+
+  it('後續查詢應該沿用記憶體中的檔案內容，只重新載入監看到變更的檔案', async () => {
+    await fixture.writeFile('src/audit.ts', 'export const audit = 1;\n');
+    const registerFiles = vi.spyOn(TypeScriptParser.prototype, 'registerFiles');
+    const userContent = await fixture.readFile('src/types/user.ts');
+    const declaration = findPosition(userContent, 'export interface User ');
+    const references = (id: number) => ({
+      jsonrpc: '2.0',
+      id,
+      method: 'textDocument/references',
+      params: {
+        textDocument: { uri: pathToFileURL(fixture.getFilePath('src/types/user.ts')).href },
+        position: { line: declaration.line, character: declaration.character + 'export interface '.length },
+        context: { includeDeclaration: true }
+      }
+    });
+
+    const input = new PassThrough();
+    const output = new PassThrough();
+    let received = '';
+    output.on('data', (chunk) => { received += chunk.toString(); });
+    const responseTo = async (id: number) => {
+      await vi.waitFor(() => expect(parseMessages(received).some(message => message.id === id)).toBe(true), { timeout: 30000 });
+      return parseMessages(received).find(message => message.id === id);
+    };
+    const registeredPaths = (call: number) => registerFiles.mock.calls[call][0].map(file => file.filePath);
+
+    const server = new LspServer({ name: 'agent-ide', version: 'test', workspacePath: fixture.tempPath });
+    const session = server.start(input, output);
+
+    try {
+      input.write(frame({ jsonrpc: '2.0', id: 0, method: 'initialize', params: { rootUri: pathToFileURL(fixture.tempPath).href, capabilities: {} } }));
+      input.write(frame({ jsonrpc: '2.0', method: 'initialized', params: {} }));
+      input.write(frame(references(1)));
+      await responseTo(1);
+      expect(registeredPaths(0)).toContain(fixture.getFilePath('src/audit.ts'));
+
+      // 沒有檔案變更：不重新讀取任何檔案
+      input.write(frame(references(2)));
+      await responseTo(2);
+      expect(registeredPaths(1)).toEqual([]);
+
+      await fixture.writeFile('src/audit.ts', "import type { User } from './types/user';\nexport const audit = (user: User) => user;\n");
+      input.write(frame({
+        jsonrpc: '2.0',
+        method: 'workspace/didChangeWatchedFiles',
+        params: { changes: [{ uri: pathToFileURL(fixture.getFilePath('src/audit.ts')).href, type: 2 }] }
+      }));
+      input.write(frame(references(3)));
+      const updated = await responseTo(3);
+
+      expect(registeredPaths(2)).toEqual([fixture.getFilePath('src/audit.ts')]);
+      const auditUri = pathToFileURL(fixture.getFilePath('src/audit.ts')).href;
+      expect(updated.result.filter((location: any) => location.uri === auditUri)).toHaveLength(2);
+
+      input.write(frame({ jsonrpc: '2.0', id: 999, method: 'shutdown' }));
+      input.end(frame({ jsonrpc: '2.0', method: 'exit' }));
+      expect(await session).toBe(0);
+    } finally {
+      registerFiles.mockRestore();
+    }
+  });
+
+  it('應該在開啟文件時發布診斷', async () => {
+    const filePath = fixture.getFilePath('src/utils/secrets.ts');
+    const uri = pathToFileURL(filePath).href;
+    const text = [
+      'export const apiKey = "sk-1234567890";',
+      'export function run(code: string) {',
+      '  return eval(code);',
+      '}',
+      ''
+    ].join('\n');
+
+    const { messages } = await runLspSession(fixture, [
+      { jsonrpc: '2.0', method: 'textDocument/didOpen', params: { textDocument: { uri, languageId: 'typescript', version: 1, text } } }
+    ]);
+
+    const published = messages.find(message => message.method === 'textDocument/publishDiagnostics');
+    expect(published.params.uri).toBe(uri);
+
+    const codes = published.params.diagnostics.map((diagnostic: any) => diagnostic.code);
+    expect(codes).toContain('hardcoded-secret');
+    expect(codes).toContain('unsafe-eval');
+
+    const evalDiagnostic = published.params.diagnostics.find((diagnostic: any) => diagnostic.code === 'unsafe-eval');
+    expect(evalDiagnostic.range.start.line).toBe(2);
+    expect(evalDiagnostic.source).toBe('agent-ide');
+  });
+
+  it('未收到 shutdown 就結束時應該回傳非零結束碼', async () => {
+    const input = frame({ jsonrpc: '2.0', id: 0, method: 'initialize', params: { capabilities: {} } }) +
+      frame({ jsonrpc: '2.0', method: 'exit' });
+
+    const result = await executeCLI(['lsp'], { cwd: fixture.tempPath, input, timeout: 60000 });
+
+    expect(result.exitCode).toBe(1);
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * CLI mcp 命令 E2E 測試
+ * 透過 stdio 送出 JSON-RPC 訊息，驗證 MCP server 的工具列表與工具呼叫
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PassThrough } from 'stream';
+import { loadFixture, FixtureProject } from '../../helpers/fixture-manager';
+import { executeCLI } from '../../helpers/cli-executor';
+import { AgentIdeCLI } from '../../../../src/interfaces/cli/cli';
+import { McpServer } from '../../../../src/interfaces/mcp/mcp-server';
+import { IndexEngine } from '../../../../src/core/indexing/index-engine';
+
+/**
+ * 送出一組 MCP 訊息並依輸出順序解析所有回應
+ */
+async function runMcpSessionInOrder(cwd: string, messages: object[]): Promise<any[]> {
+  const input = messages.map(message => JSON.stringify(message)).join('\n') + '\n';
+  const result = await executeCLI(['mcp'], { cwd, input, timeout: 60000 });
+
+  expect(result.exitCode).toBe(0);
+
+  return result.stdout.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+}
+
+/**
+ * 送出一組 MCP 訊息並解析所有回應
+ */
+async function runMcpSession(cwd: string, messages: object[]): Promise<Map<number, any>> {
+  const responses = new Map<number, any>();
+  for (const response of await runMcpSessionInOrder(cwd, messages)) {
+    responses.set(response.id, response);
+  }
+  return responses;
+}
+
+const initialize = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'e2e', version: '1.0.0' } }
+};
+
+describe('CLI mcp 命令 E2E 測試', () => {
+  let fixture: FixtureProject;
+
+  beforeEach(async () => {
+    fixture = await loadFixture('sample-project');
+  });
+
+  afterEach(async () => {
+    await fixture.cleanup();
+  });
+
+  it('應該回應 initialize 並列出所有工具', async () => {
+    const responses = await runMcpSession(fixture.tempPath, [
+      initialize,
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' }
+    ]);
+
+    const init = responses.get(1);
+    expect(init.result.protocolVersion).toBe('2025-06-18');
+    expect(init.result.serverInfo.name).toBe('agent-ide');
+    expect(init.result.capabilities).toHaveProperty('tools');
+
+    const tools = responses.get(2).result.tools;
+    const names = tools.map((tool: any) => tool.name);
+    expect(names).toEqual(expect.arrayContaining([
+      'code_search', 'code_rename', 'code_move', 'code_refactor',
+      'code_analyze', 'code_deps', 'code_shit', 'code_snapshot'
+    ]));
+
+    // schema 由命令選項推導
+    const rename = tools.find((tool: any) => tool.name === 'code_rename');
+    expect(rename.inputSchema.type).toBe('object');
+    expect(rename.inputSchema.properties.preview.type).toBe('boolean');
+    expect(rename.inputSchema.properties.newName.type).toBe('string');
+  });
+
+  it('應該在同一個 session 中執行多個工具呼叫', async () => {
+    const responses = await runMcpSession(fixture.tempPath, [
+      initialize,
+      {
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'tools/call',
+        params: { name: 'code_search', arguments: { queryArgument: 'symbol', query: 'User', path: fixture.tempPath } }
+      },
+      {
+        jsonrpc: '2.0',
+        id: 3,
+        method: 'tools/call',
+        params: { name: 'code_deps', arguments: { path: fixture.tempPath } }
+      }
+    ]);
+
+    const search = responses.get(2).result;
+    expect(search.isError).toBe(false);
+    const searchData = JSON.parse(search.content[0].text);
+    expect(searchData.results.some((item: any) => item.name === 'User')).toBe(true);
+
+    const deps = responses.get(3).result;
+    expect(deps.isError).toBe(false);
+    expect(JSON.parse(deps.content[0].text)).toHaveProperty('summary');
+  });
+
+  it('同一個 session 的依賴分析應該只包含目前存在且屬於分析路徑的檔案', async () => {
+    await fixture.writeFile('graph/src/app.ts', "import { helper } from './helper';\nexport const app = helper;\n");
+    await fixture.writeFile('graph/src/helper.ts', 'export const helper = 1;\n');
+    await fixture.writeFile('other/src/only.ts', 'export const only = 1;\n');
+    const deps = (id: number, dir: string, extra: Record<string, unknown> = {}) => ({
+      jsonrpc: '2.0',
+      id,
+      method: 'tools/call',
+      params: { name: 'code_deps', arguments: { subcommand: 'graph', path: fixture.getFilePath(dir), format: 'json', ...extra } }
+    });
+
+    const responses = await runMcpSessionInOrder(fixture.tempPath, [
+      initialize,
+      deps(2, 'graph'),
+      {
+        jsonrpc: '2.0',
+        id: 3,
+        method: 'tools/call',
+        params: {
+          name: 'code_move',
+          arguments: { source: fixture.getFilePath('graph/src/helper.ts'), target: fixture.getFilePath('graph/src/lib/helper.ts') }
+        }
+      },
+      deps(4, 'graph'),
+      deps(5, 'other'),
+      deps(6, 'graph', { subcommand: 'simulate', addEdge: 'src/lib/helper.ts:src/app.ts' })
+    ]);
+    const result = (id: number) => {
+      const response = responses.find(message => message.id === id).result;
+      expect(response.isError).toBe(false);
+      return JSON.parse(response.content[0].text);
+    };
+
+    result(3);
+    const moved = result(4);
+    expect(moved.nodes.map((node: any) => node.id).sort()).toEqual([
+      fixture.getFilePath('graph/src/app.ts'),
+      fixture.getFilePath('graph/src/lib/helper.ts')
+    ]);
+    expect(moved.summary.totalFiles).toBe(2);
+
+    const other = result(5);
+    expect(other.nodes.map((node: any) => node.id)).toEqual([fixture.getFilePath('other/src/only.ts')]);
+    expect(other.summary.totalFiles).toBe(1);
+
+    // 模擬在重新分析後的圖上進行，新增的邊形成 app ↔ helper 循環
+    const simulated = result(6);
+    expect(simulated.introducedCycles.map((cycle: any) => [...cycle.cycle].sort())).toEqual([['src/app.ts', 'src/lib/helper.ts']]);
+    expect(JSON.stringify(simulated)).not.toContain('only.ts');
+  });
+
+  it('應該支援 rename 預覽而不修改檔案', async () => {
+    const originalContent = await fixture.readFile('src/types/user.ts');
+
+    const responses = await runMcpSession(fixture.tempPath, [
+      initialize,
+      {
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'tools/call',
+        params: {
+          name: 'code_rename',
+          arguments: { symbol: 'UserID', newName: 'PersonID', preview: true, path: fixture.tempPath }
+        }
+      }
+    ]);
+
+    const result = responses.get(2).result;
+    expect(result.isError).toBe(false);
+    const data = JSON.parse(result.content[0].text);
+    expect(data.preview).toBe(true);
+    expect(data.affectedFiles).toBeGreaterThan(0);
+
+    const currentContent = await fixture.readFile('src/types/user.ts');
+    expect(currentContent).toBe(originalContent);
+  });
+
+  it('應該將命令失敗與未知參數回報為工具錯誤', async () => {
+    const responses = await runMcpSession(fixture.tempPath, [
+      initialize,
+      {
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'tools/call',
+        params: { name: 'code_search', arguments: { unknownOption: 'x' } }
+      },
+      { jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'no_such_tool', arguments: {} } },
+      { jsonrpc: '2.0', id: 4, method: 'unknown/method' }
+    ]);
+
+    const unknownArgument = responses.get(2).result;
+    expect(unknownArgument.isError).toBe(true);
+    expect(unknownArgument.content[0].text).toContain('unknownOption');
+
+    expect(responses.get(3).error.code).toBe(-32602);
+    expect(responses.get(4).error.code).toBe(-32601);
+  });
+
+  it('工具執行期間應該立即回應 ping', async () => {
+    const responses = await runMcpSessionInOrder(fixture.tempPath, [
+      initialize,
+      {
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'tools/call',
+        params: { name: 'code_deps', arguments: { path: fixture.tempPath } }
+      },
+      { jsonrpc: '2.0', id: 3, method: 'ping' }
+    ]);
+
+    const order = responses.map(response => response.id);
+    expect(order).toEqual([1, 3, 2]);
+    expect(responses[2].result.isError).toBe(false);
+  });
+
+  it('應該略過排隊中已取消的工具呼叫', async () => {
+    const responses = await runMcpSession(fixture.tempPath, [
+      initialize,
+      {
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'tools/call',
+        params: { name: 'code_deps', arguments: { path: fixture.tempPath } }
+      },
+      {
+        jsonrpc: '2.0',
+        id: 3,
+        method: 'tools/call',
+        params: { name: 'code_search', arguments: { queryArgument: 'symbol', query: 'User', path: fixture.tempPath } }
+      },
+      { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 3, reason: 'e2e' } }
+    ]);
+
+    expect(responses.get(2).result.isError).toBe(false);
+    // MCP 規範：已取消的請求不送出回應
+    expect(responses.has(3)).toBe(false);
+  });
+
+  it('同一個 session 的後續搜尋應該沿用已建立的索引', async () => {
+    const indexFile = vi.spyOn(IndexEngine.prototype, 'indexFile');
+    const search = (id: number) => ({
+      jsonrpc: '2.0',
+      id,
+      method: 'tools/call',
+      params: { name: 'code_search', arguments: { queryArgument: 'symbol', query: 'User', path: fixture.tempPath } }
+    });
+
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const lines: string[] = [];
+    output.on('data', (chunk) => lines.push(...chunk.toString().split('\n').filter((line: string) => line.trim())));
+
+    const server = new McpServer(new AgentIdeCLI(), { name: 'agent-ide', version: 'test' });
+    const session = server.start(input, output);
+
+    try {
+      input.write(JSON.stringify(initialize) + '\n');
+      input.write(JSON.stringify(search(2)) + '\n');
+      await vi.waitFor(() => expect(lines).toHaveLength(2), { timeout: 30000 });
+      const indexedOnFirstCall = indexFile.mock.calls.length;
+
+      input.end(JSON.stringify(search(3)) + '\n');
+      await session;
+
+      expect(indexedOnFirstCall).toBeGreaterThan(0);
+      // 第二次呼叫沒有檔案變更，不應重新解析任何檔案
+      expect(indexFile.mock.calls.length).toBe(indexedOnFirstCall);
+
+      const responses = lines.map(line => JSON.parse(line));
+      expect(responses).toHaveLength(3);
+      for (const response of responses.slice(1)) {
+        expect(response.result.isError).toBe(false);
+        expect(JSON.parse(response.result.content[0].text).results.some((item: any) => item.name === 'User')).toBe(true);
+      }
+    } finally {
+      indexFile.mockRestore();
+    }
+  });
+});
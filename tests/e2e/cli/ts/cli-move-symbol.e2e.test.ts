@@ -0,0 +1,195 @@
+/**
+ * CLI move-symbol 命令 E2E 測試
+ * 驗證符號移動會一併搬移私有 helper、補上 import 並重寫引用者
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { loadFixture, FixtureProject } from '../../helpers/fixture-manager';
+import { executeCLI } from '../../helpers/cli-executor';
+import * as fs from 'fs/promises';
+
+const MONEY_UTILS = `/**
+ * Money utils
+ */
+
+import { Product } from '../types/product';
+import { Order } from '../types/order';
+
+const CENTS = 100;
+
+// 四捨五入到分
+function roundCents(value: number): number {
+  return Math.round(value * CENTS) / CENTS;
+}
+
+function discountRate(quantity: number): number {
+  return quantity > 10 ? 0.9 : 1;
+}
+
+/**
+ * 批量價格
+ */
+export function bulkTotal(product: Product, quantity: number): number {
+  return roundCents(product.price * quantity * discountRate(quantity));
+}
+
+export function orderTotal(order: Order): number {
+  return roundCents(order.totalAmount);
+}
+`;
+
+describe('CLI move-symbol 命令 E2E 測試', () => {
+  let fixture: FixtureProject;
+
+  beforeEach(async () => {
+    fixture = await loadFixture('sample-project');
+    await fixture.writeFile('src/utils/money.ts', MONEY_UTILS);
+    await fixture.writeFile('src/services/cart.ts', [
+      'import { bulkTotal, orderTotal } from \'../utils/money\';',
+      'import { Product } from \'../types/product\';',
+      '',
+      'export function cartTotal(product: Product, quantity: number): number {',
+      '  return bulkTotal(product, quantity);',
+      '}',
+      '',
+      'export { orderTotal };',
+      ''
+    ].join('\n'));
+    await fixture.writeFile('src/services/checkout.ts', [
+      'import { bulkTotal } from \'../utils/money\';',
+      '',
+      'export const checkout = bulkTotal;',
+      ''
+    ].join('\n'));
+  });
+
+  afterEach(async () => {
+    await fixture.cleanup();
+  });
+
+  it('應該移動符號與只被它使用的 helper，並重寫所有引用者', async () => {
+    const result = await executeCLI([
+      'move-symbol',
+      '--symbol', 'bulkTotal',
+      '--from', fixture.getFilePath('src/utils/money.ts'),
+      '--to', fixture.getFilePath('src/utils/pricing.ts')
+    ]);
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain('bulkTotal, discountRate');
+
+    // 目標檔案：補上 import，私有 helper 一起移動，仍被來源使用的 helper 改為匯入
+    const pricing = await fixture.readFile('src/utils/pricing.ts');
+    expect(pricing).toContain('import { Product } from \'../types/product\';');
+    expect(pricing).toContain('import { roundCents } from \'./money\';');
+    expect(pricing).toContain('function discountRate(quantity: number)');
+    expect(pricing).toContain(' * 批量價格\n */\nexport function bulkTotal(');
+
+    // 來源檔案：移除宣告與不再使用的 import，共用的 helper 加上 export
+    const money = await fixture.readFile('src/utils/money.ts');
+    expect(money).not.toContain('bulkTotal');
+    expect(money).not.toContain('discountRate');
+    expect(money).not.toContain('import { Product }');
+    expect(money).toContain('export function roundCents(');
+
+    // 引用者
+    expect(await fixture.readFile('src/services/checkout.ts')).toContain('import { bulkTotal } from \'../utils/pricing\';');
+    const cart = await fixture.readFile('src/services/cart.ts');
+    expect(cart).toContain('import { orderTotal } from \'../utils/money\';\nimport { bulkTotal } from \'../utils/pricing\';');
+  });
+
+  it('--path 指定專案路徑時應該以它解析相對路徑，且沒有 tsconfig.json 也不警告', async () => {
+    await fs.rm(fixture.getFilePath('tsconfig.json'));
+
+    const result = await executeCLI([
+      'move-symbol',
+      '--symbol', 'bulkTotal',
+      '--from', 'src/utils/money.ts',
+      '--to', 'src/utils/pricing.ts',
+      '--path', fixture.tempPath
+    ]);
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stderr).not.toContain('tsconfig.json');
+    expect(await fixture.readFile('src/utils/pricing.ts')).toContain('export function bulkTotal(');
+    expect(await fixture.readFile('src/services/checkout.ts')).toContain('import { bulkTotal } from \'../utils/pricing\';');
+  });
+
+  it('預覽應該輸出 MovePreview 結構且不修改檔案', async () => {
+    const result = await executeCLI([
+      'move-symbol',
+      '--symbol', 'bulkTotal',
+      '--from', fixture.getFilePath('src/utils/money.ts'),
+      '--to', fixture.getFilePath('src/utils/pricing.ts'),
+      '--preview',
+      '--format', 'json'
+    ]);
+
+    expect(result.exitCode).toBe(0);
+    const preview = JSON.parse(result.stdout);
+    expect(preview.operation).toMatchObject({ type: 'symbol', destination: fixture.getFilePath('src/utils/pricing.ts') });
+    expect(preview.impact.filesAffected).toBe(4);
+    expect(preview.conflicts).toEqual([]);
+    expect(preview.movedDeclarations).toEqual(['bulkTotal', 'discountRate']);
+    expect(preview.importUpdates).toContainEqual(expect.objectContaining({
+      filePath: fixture.getFilePath('src/services/checkout.ts'),
+      line: 1,
+      oldImport: 'import { bulkTotal } from \'../utils/money\';',
+      newImport: 'import { bulkTotal } from \'../utils/pricing\';'
+    }));
+
+    expect(await fixture.readFile('src/utils/money.ts')).toBe(MONEY_UTILS);
+    expect(await fixture.fileExists('src/utils/pricing.ts')).toBe(false);
+  });
+
+  it('來源檔案仍使用符號時應該改為從目標檔案匯入', async () => {
+    await fixture.writeFile('src/utils/money.ts', `${MONEY_UTILS}
+export function bulkLabel(product: Product, quantity: number): string {
+  return \`$\${bulkTotal(product, quantity)}\`;
+}
+`);
+
+    const result = await executeCLI([
+      'move-symbol',
+      '--symbol', 'bulkTotal',
+      '--from', fixture.getFilePath('src/utils/money.ts'),
+      '--to', fixture.getFilePath('src/utils/pricing.ts'),
+      '--format', 'json'
+    ]);
+
+    expect(result.exitCode).toBe(0);
+    const output = JSON.parse(result.stdout);
+    expect(output.warnings.some((warning: string) => warning.includes('循環依賴'))).toBe(true);
+
+    const money = await fixture.readFile('src/utils/money.ts');
+    expect(money).toContain('import { Product } from \'../types/product\';');
+    expect(money).toContain('import { bulkTotal } from \'./pricing\';');
+  });
+
+  it('目標檔案已宣告同名符號時應該拒絕移動', async () => {
+    await fixture.writeFile('src/utils/pricing.ts', 'export function bulkTotal(): number {\n  return 0;\n}\n');
+
+    const result = await executeCLI([
+      'move-symbol',
+      '--symbol', 'bulkTotal',
+      '--from', fixture.getFilePath('src/utils/money.ts'),
+      '--to', fixture.getFilePath('src/utils/pricing.ts')
+    ]);
+
+    expect(result.exitCode).not.toBe(0);
+    expect(result.stderr).toContain('pricing.ts 已宣告 \'bulkTotal\'');
+    expect(await fixture.readFile('src/utils/money.ts')).toBe(MONEY_UTILS);
+  });
+
+  it('找不到符號時應該回報錯誤', async () => {
+    const result = await executeCLI([
+      'move-symbol',
+      '--symbol', 'missingSymbol',
+      '--from', fixture.getFilePath('src/utils/money.ts'),
+      '--to', fixture.getFilePath('src/utils/pricing.ts')
+    ]);
+
+    expect(result.exitCode).not.toBe(0);
+    expect(result.stderr).toContain('找不到頂層宣告 \'missingSymbol\'');
+  });
+});
@@ -91,6 +91,18 @@ describe('CLI move 命令 E2E 測試', () => {
       const sourceExists = await fixture.fileExists('src/utils/date-utils.ts');
       expect(sourceExists).toBe(true);
     });
+
+    it('預覽模式應該警告移動後產生的目錄循環依賴', async () => {
+      const sourcePath = fixture.getFilePath('src/models/base-model.ts');
+      const targetPath = fixture.getFilePath('src/services/base-model.ts');
+
+      const result = await executeCLI(['move', sourcePath, targetPath, '--preview', '--format', 'json']);
+
+      expect(result.exitCode).toBe(0);
+      const output = JSON.parse(result.stdout);
+      expect(output.moved).toBe(false);
+      expect(output.warnings).toContain('產生新的目錄循環依賴: src/models → src/services → src/models');
+    });
   });
 
   describe('複雜跨檔案引用測試', () => {
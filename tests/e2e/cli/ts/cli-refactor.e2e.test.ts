@@ -648,4 +648,521 @@ export function testFunction(value: number): string {
       // 可能包含 "行號" 或 "line" 或 "invalid" 等錯誤提示
     });
   });
+
+  // ============================================================
+  // 10. 提取變數與常數
+  // ============================================================
+
+  describe('提取變數與常數', () => {
+    const pricing = `
+export function total(items: { price: number }[], discount: number): number {
+  let sum = 0;
+  for (const item of items) {
+    sum += item.price * 1.08;
+  }
+  if (discount > 0) {
+    return sum - discount * 1.08;
+  }
+  return sum;
+}
+
+export const withTax = (value: number) => value * 1.08;
+`.trimStart();
+
+    beforeEach(async () => {
+      await fixture.writeFile('src/pricing.ts', pricing);
+    });
+
+    it('extract-variable 應該在最近的區塊插入 const 並取代選取的運算式', async () => {
+      const result = await executeCLI([
+        'refactor', 'extract-variable',
+        '--file', fixture.getFilePath('src/pricing.ts'),
+        '--start-line', '7', '--start-column', '18', '--end-column', '32',
+        '--new-name', 'taxedDiscount'
+      ]);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('📝 提取的變數: const taxedDiscount = discount * 1.08;');
+      const content = await fixture.readFile('src/pricing.ts');
+      expect(content).toContain('  if (discount > 0) {\n    const taxedDiscount = discount * 1.08;\n    return sum - taxedDiscount;\n  }');
+    });
+
+    it('--preview 應該輸出 diff 而不寫入檔案，--let 改用 let 宣告', async () => {
+      const result = await executeCLI([
+        'refactor', 'extract-variable',
+        '--file', fixture.getFilePath('src/pricing.ts'),
+        '--start-line', '4', '--start-column', '12', '--end-column', '28',
+        '--let', '--preview'
+      ]);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('🔍 預覽模式 - 未寫入檔案');
+      expect(result.stdout).toContain('+    let value = item.price * 1.08;');
+      expect(result.stdout).toContain('+    sum += value;');
+      expect(await fixture.readFile('src/pricing.ts')).toBe(pricing);
+    });
+
+    it('extract-constant --all 應該在模組層級宣告常數並取代所有相同的運算式', async () => {
+      const result = await executeCLI([
+        'refactor', 'extract-constant',
+        '--file', fixture.getFilePath('src/pricing.ts'),
+        '--start-line', '4', '--start-column', '25', '--end-column', '28',
+        '--new-name', 'TAX_RATE', '--all', '--format', 'json'
+      ]);
+
+      expect(result.exitCode).toBe(0);
+      const data = JSON.parse(result.stdout);
+      expect(data.declaration).toBe('const TAX_RATE = 1.08;');
+      expect(data.occurrences).toHaveLength(3);
+      const content = await fixture.readFile('src/pricing.ts');
+      expect(content.startsWith('const TAX_RATE = 1.08;\n\nexport function total(')).toBe(true);
+      expect(content).not.toContain('1.08;\n  }');
+      expect(content).toContain('export const withTax = (value: number) => value * TAX_RATE;');
+    });
+
+    it('extract-constant 引用區域變數時應該拒絕', async () => {
+      const result = await executeCLI([
+        'refactor', 'extract-constant',
+        '--file', fixture.getFilePath('src/pricing.ts'),
+        '--start-line', '4', '--start-column', '12', '--end-column', '28'
+      ]);
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.stderr).toContain('常數不能引用區域變數或參數 item');
+      expect(await fixture.readFile('src/pricing.ts')).toBe(pricing);
+    });
+
+    it('選取範圍不是完整的運算式時應該拒絕', async () => {
+      const partial = await executeCLI([
+        'refactor', 'extract-variable',
+        '--file', fixture.getFilePath('src/pricing.ts'),
+        '--start-line', '4', '--start-column', '17', '--end-column', '26'
+      ]);
+      const arrowBody = await executeCLI([
+        'refactor', 'extract-variable',
+        '--file', fixture.getFilePath('src/pricing.ts'),
+        '--start-line', '12', '--start-column', '43', '--end-column', '54'
+      ]);
+
+      expect(partial.exitCode).not.toBe(0);
+      expect(partial.stderr).toContain('選取範圍不是完整的運算式: price * 1');
+      expect(arrowBody.exitCode).not.toBe(0);
+      expect(arrowBody.stderr).toContain('箭頭函式的運算式本體');
+    });
+  });
+
+  // ============================================================
+  // 11. 內聯變數
+  // ============================================================
+
+  describe('內聯變數', () => {
+    const sample = `
+export async function summarize(items: { price: number }[], rate: number): Promise<string> {
+  const subtotal = rate * 2;
+  const label = 'total';
+  const fetched = Date.now();
+  let count = 0;
+  count++;
+  const scaled = items[0].price;
+  await Promise.resolve();
+  return \`\${label}: \${subtotal.toFixed(2)} \${JSON.stringify({ label })} \${fetched} \${count} \${scaled}\`;
+}
+`.trimStart();
+
+    beforeEach(async () => {
+      await fixture.writeFile('src/summary.ts', sample);
+    });
+
+    const inlineAt = (line: number, column: number, ...extra: string[]) => executeCLI([
+      'refactor', 'inline-variable',
+      '--file', fixture.getFilePath('src/summary.ts'),
+      '--line', String(line), '--column', String(column),
+      ...extra
+    ]);
+
+    it('應該以初始值取代所有讀取並移除宣告', async () => {
+      const result = await inlineAt(3, 9);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('📝 內聯的變數: label = \'total\'');
+      expect(result.stdout).toContain('🔁 已取代 2 處引用並移除宣告');
+      const content = await fixture.readFile('src/summary.ts');
+      expect(content).not.toContain('const label');
+      expect(content).toContain('return `${\'total\'}: ${subtotal.toFixed(2)} ${JSON.stringify({ label: \'total\' })}');
+    });
+
+    it('從引用位置內聯並在需要時加上括號，--preview 不寫入檔案', async () => {
+      const result = await inlineAt(9, 25, '--preview', '--format', 'json');
+
+      expect(result.exitCode).toBe(0);
+      const data = JSON.parse(result.stdout);
+      expect(data.variableName).toBe('subtotal');
+      expect(data.inlinedReferences).toBe(1);
+      expect(data.diff).toContain('-  const subtotal = rate * 2;');
+      expect(data.diff).toContain('${(rate * 2).toFixed(2)}');
+      expect(await fixture.readFile('src/summary.ts')).toBe(sample);
+    });
+
+    it('初始值有副作用或變數被重新賦值時應該拒絕', async () => {
+      const sideEffect = await inlineAt(4, 9);
+      const reassigned = await inlineAt(5, 7);
+
+      expect(sideEffect.exitCode).not.toBe(0);
+      expect(sideEffect.stderr).toContain('初始值有副作用（函式呼叫）');
+      expect(reassigned.exitCode).not.toBe(0);
+      expect(reassigned.stderr).toContain('變數 count 被重新賦值（第 6 行）');
+      expect(await fixture.readFile('src/summary.ts')).toBe(sample);
+    });
+
+    it('內聯會讓初始值跨過 await 時應該拒絕', async () => {
+      const result = await inlineAt(7, 9);
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.stderr).toContain('內聯會讓初始值在 await 之後才計算');
+    });
+
+    it('初始值讀取的狀態在引用前可能被呼叫、賦值、++/-- 或 delete 改變時應該拒絕', async () => {
+      await fixture.writeFile('src/queue.ts', [
+        'export function drain(queue: number[], stats: { total: number }, cache: Record<string, number>): number[] {',
+        '  const size = queue.length;',
+        '  queue.push(1);',
+        '  const total = stats.total;',
+        '  stats.total += 1;',
+        '  const hits = cache.hits;',
+        '  delete cache.hits;',
+        '  const first = queue[0];',
+        '  return [size, total, hits, first];',
+        '}',
+        ''
+      ].join('\n'));
+      const inlineQueue = (line: number) => executeCLI([
+        'refactor', 'inline-variable',
+        '--file', fixture.getFilePath('src/queue.ts'),
+        '--line', String(line), '--column', '9'
+      ]);
+
+      const pushed = await inlineQueue(2);
+      expect(pushed.exitCode).not.toBe(0);
+      expect(pushed.stderr).toContain('內聯會讓初始值在第 3 行的 queue.push(1) 之後才計算');
+
+      const assigned = await inlineQueue(4);
+      expect(assigned.stderr).toContain('內聯會讓初始值在第 5 行的 stats.total += 1 之後才計算');
+
+      const deleted = await inlineQueue(6);
+      expect(deleted.stderr).toContain('內聯會讓初始值在第 7 行的 delete cache.hits 之後才計算');
+
+      // 宣告與引用之間沒有改變狀態的運算
+      const untouched = await inlineQueue(8);
+      expect(untouched.exitCode).toBe(0);
+      expect(await fixture.readFile('src/queue.ts')).toContain('return [size, total, hits, queue[0]];');
+    });
+  });
+
+  describe('變更函式簽名', () => {
+    const repository = `
+export interface Repository {
+  find(id: string, limit: number): string[];
+}
+
+export class MemoryRepository implements Repository {
+  find(id: string, limit: number): string[] {
+    return [id.repeat(limit)];
+  }
+}
+
+export class CachedRepository extends MemoryRepository {
+  override find(id: string, limit: number): string[] {
+    return super.find(id, limit);
+  }
+}
+
+export function scale(value: number, factor: number, legacy?: boolean): number {
+  return value * factor;
+}
+`.trimStart();
+    const consumer = `
+import { CachedRepository, Repository, scale } from './repository';
+
+const repository: Repository = new CachedRepository();
+repository.find('a', 2);
+scale(nextValue(), 2, nextValue() > 1);
+
+function nextValue(): number {
+  return 1;
+}
+`.trimStart();
+
+    beforeEach(async () => {
+      await fixture.writeFile('src/repository.ts', repository);
+      await fixture.writeFile('src/consumer.ts', consumer);
+    });
+
+    const changeSignature = (functionName: string, params: string, ...extra: string[]) => executeCLI([
+      'refactor', 'change-signature',
+      '--file', fixture.getFilePath('src/repository.ts'),
+      '--function', functionName,
+      '--params', params,
+      ...extra
+    ]);
+
+    it('應該重寫介面、覆寫方法與跨檔案的呼叫處，並為新參數帶入預設值', async () => {
+      const result = await changeSignature('MemoryRepository.find', 'limit, id, fresh: boolean = false');
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('📝 新簽名: MemoryRepository.find(limit: number, id: string, fresh: boolean = false)');
+      expect(result.stdout).toContain('🔁 已更新 3 個宣告、2 處呼叫（2 個檔案）');
+      const updated = await fixture.readFile('src/repository.ts');
+      expect(updated).toContain('find(limit: number, id: string, fresh?: boolean): string[];');
+      expect(updated).toContain('override find(limit: number, id: string, fresh: boolean = false): string[] {');
+      expect(updated).toContain('return super.find(limit, id, false);');
+      expect(await fixture.readFile('src/consumer.ts')).toContain('repository.find(2, \'a\', false);');
+    });
+
+    it('移除參數時應該刪除引數並警告有副作用的引數，--preview 不寫入檔案', async () => {
+      const result = await changeSignature('scale', 'value, factor', '--preview', '--format', 'json');
+
+      expect(result.exitCode).toBe(0);
+      const data = JSON.parse(result.stdout);
+      expect(data.signature).toBe('scale(value: number, factor: number)');
+      expect(data.diff).toContain('+scale(nextValue(), 2);');
+      expect(data.warnings.some((warning: string) => warning.includes('移除的引數 nextValue() > 1 有副作用（函式呼叫）'))).toBe(true);
+      expect(await fixture.readFile('src/consumer.ts')).toBe(consumer);
+    });
+
+    it('調換有副作用的引數順序時應該警告求值順序改變', async () => {
+      const result = await changeSignature('scale', 'factor, value, legacy', '--preview', '--format', 'json');
+
+      expect(result.exitCode).toBe(0);
+      const data = JSON.parse(result.stdout);
+      expect(data.diff).toContain('+scale(2, nextValue(), nextValue() > 1);');
+      const reordered = data.warnings.filter((warning: string) => warning.includes('調換順序的引數'));
+      expect(reordered).toHaveLength(1);
+      expect(reordered[0]).toContain('調換順序的引數 nextValue() 有副作用（函式呼叫），求值順序會改變');
+    });
+
+    it('新參數沒有預設值、名稱不明確或移除仍在使用的參數時應該拒絕', async () => {
+      const missingDefault = await changeSignature('scale', 'value, factor, offset: number');
+      const ambiguous = await changeSignature('find', 'id');
+      const usedInBody = await changeSignature('scale', 'factor');
+      const usedInOverride = await changeSignature('MemoryRepository.find', 'id');
+
+      expect(missingDefault.exitCode).not.toBe(0);
+      expect(missingDefault.stderr).toContain('新參數 offset 需要指定預設值');
+      expect(ambiguous.exitCode).not.toBe(0);
+      expect(ambiguous.stderr).toContain('請以 Class.method 指定');
+      expect(usedInBody.exitCode).not.toBe(0);
+      expect(usedInBody.stderr).toMatch(/無法移除參數 value：.*repository\.ts:\d+ 的函式本體仍在使用/);
+      expect(usedInOverride.exitCode).not.toBe(0);
+      expect(usedInOverride.stderr).toContain('無法移除參數 limit');
+      expect(await fixture.readFile('src/repository.ts')).toBe(repository);
+      expect(await fixture.readFile('src/consumer.ts')).toBe(consumer);
+    });
+  });
+
+  describe('引入參數物件', () => {
+    const mailer = `
+export interface Mailer {
+  send(to: string, subject: string, body: string, retries?: number): boolean;
+}
+
+/**
+ * 寄送郵件
+ */
+export function sendMail(sender: string, to: string, subject: string, body: string, retries = 3): boolean {
+  return [sender, to, subject, body].join('').length > retries;
+}
+
+export class SmtpMailer implements Mailer {
+  send(to: string, subject: string, body: string, retries?: number): boolean {
+    return sendMail('smtp', to, subject, body, retries);
+  }
+}
+`.trimStart();
+    const caller = `
+import { sendMail } from './mailer';
+
+const subject = 'hi';
+sendMail('me', 'you@example.com', subject, 'hello');
+`.trimStart();
+
+    beforeEach(async () => {
+      await fixture.writeFile('src/mailer.ts', mailer);
+      await fixture.writeFile('src/caller.ts', caller);
+    });
+
+    const introduce = (functionName: string, ...extra: string[]) => executeCLI([
+      'refactor', 'introduce-parameter-object',
+      '--file', fixture.getFilePath('src/mailer.ts'),
+      '--function', functionName,
+      ...extra
+    ]);
+
+    it('應該產生介面、以解構取得參數，並把呼叫處改為物件字面值', async () => {
+      const result = await introduce('sendMail', '--params', 'to,subject,body,retries', '--new-name', 'MailOptions');
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('📝 參數物件: MailOptions { to, subject, body, retries }');
+      const updated = await fixture.readFile('src/mailer.ts');
+      expect(updated).toContain('export interface MailOptions {\n  to: string;\n  subject: string;\n  body: string;\n  retries?: number;\n}\n\n/**\n * 寄送郵件');
+      expect(updated).toContain('export function sendMail(sender: string, { to, subject, body, retries = 3 }: MailOptions): boolean {');
+      expect(updated).toContain('return sendMail(\'smtp\', { to, subject, body, retries });');
+      expect(await fixture.readFile('src/caller.ts')).toContain('sendMail(\'me\', { to: \'you@example.com\', subject, body: \'hello\' });');
+    });
+
+    it('應該更新介面方法與實作，預設介面名稱為方法名稱加上 Params，--preview 不寫入檔案', async () => {
+      const result = await introduce('SmtpMailer.send', '--preview', '--format', 'json');
+
+      expect(result.exitCode).toBe(0);
+      const data = JSON.parse(result.stdout);
+      expect(data.interfaceName).toBe('SendParams');
+      expect(data.updatedDeclarations).toBe(2);
+      expect(data.diff).toContain('+  send(params: SendParams): boolean;');
+      expect(data.diff).toContain('+  send({ to, subject, body, retries }: SendParams): boolean {');
+      expect(await fixture.readFile('src/mailer.ts')).toBe(mailer);
+    });
+
+    it('要合併的參數不相鄰或名稱已存在時應該拒絕', async () => {
+      const gap = await introduce('sendMail', '--params', 'sender,subject');
+      const duplicate = await introduce('sendMail', '--new-name', 'Mailer');
+
+      expect(gap.exitCode).not.toBe(0);
+      expect(gap.stderr).toContain('要合併的參數必須相鄰');
+      expect(duplicate.exitCode).not.toBe(0);
+      expect(duplicate.stderr).toContain('名稱 Mailer 已存在');
+      expect(await fixture.readFile('src/mailer.ts')).toBe(mailer);
+    });
+  });
+
+  describe('提取介面', () => {
+    const repository = `
+export interface User {
+  id: number;
+  name: string;
+}
+
+/**
+ * 使用者儲存庫
+ */
+export class UserRepository {
+  readonly table = 'users';
+  private cache = new Map<number, User>();
+
+  constructor(public readonly region: string) {}
+
+  /** 依 id 查找使用者 */
+  async find(id: number) {
+    return this.cache.get(id);
+  }
+
+  save(user: User, overwrite = false): boolean {
+    return overwrite || !this.cache.has(user.id);
+  }
+
+  get size() {
+    return this.cache.size;
+  }
+
+  protected reset(): void {
+    this.cache.clear();
+  }
+}
+`.trimStart();
+    const consumer = `
+import { UserRepository } from './repository';
+
+export function rename(repository: UserRepository, id: number): void {
+  const target: UserRepository | undefined = repository;
+  console.log(target, id, new UserRepository('tw'));
+}
+`.trimStart();
+
+    beforeEach(async () => {
+      await fixture.writeFile('src/repository.ts', repository);
+      await fixture.writeFile('src/consumer.ts', consumer);
+    });
+
+    const extract = (...extra: string[]) => executeCLI([
+      'refactor', 'extract-interface',
+      '--file', fixture.getFilePath('src/repository.ts'),
+      ...extra
+    ]);
+
+    it('應該由公開成員產生介面（推斷型別取自型別檢查器）並讓類別 implements', async () => {
+      const result = await extract('--class', 'UserRepository');
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('📝 介面: IUserRepository（5 個成員: table, region, find, save, size）');
+      const updated = await fixture.readFile('src/repository.ts');
+      expect(updated).toContain([
+        'export interface IUserRepository {',
+        '  readonly table: \'users\';',
+        '  readonly region: string;',
+        '  /** 依 id 查找使用者 */',
+        '  find(id: number): Promise<User | undefined>;',
+        '  save(user: User, overwrite?: boolean): boolean;',
+        '  readonly size: number;',
+        '}',
+        '',
+        '/**',
+        ' * 使用者儲存庫'
+      ].join('\n'));
+      expect(updated).toContain('export class UserRepository implements IUserRepository {');
+      expect(updated).not.toContain('cache: Map');
+      expect(updated).not.toContain('reset(): void;');
+      expect(await fixture.readFile('src/consumer.ts')).toBe(consumer);
+    });
+
+    it('--replace-usages 應該替換參數與變數的型別註記並加入 type import', async () => {
+      const result = await extract('--class', 'UserRepository', '--new-name', 'Repository', '--replace-usages', '--format', 'json');
+
+      expect(result.exitCode).toBe(0);
+      const data = JSON.parse(result.stdout);
+      expect(data.interfaceName).toBe('Repository');
+      expect(data.replacedUsages).toBe(2);
+      const updated = await fixture.readFile('src/consumer.ts');
+      expect(updated).toContain('import { UserRepository } from \'./repository\';\nimport type { Repository } from \'./repository\';');
+      expect(updated).toContain('export function rename(repository: Repository, id: number): void {');
+      expect(updated).toContain('const target: Repository | undefined = repository;');
+      expect(updated).toContain('new UserRepository(\'tw\')');
+    });
+
+    it('--replace-usages 不應替換值會回傳或指派到類別型別位置的註記', async () => {
+      await fixture.writeFile('src/keeper.ts', [
+        'import { UserRepository } from \'./repository\';',
+        '',
+        'export function keep(repository: UserRepository): UserRepository {',
+        '  const current: UserRepository = repository;',
+        '  return current;',
+        '}',
+        '',
+        'export function store(repository: UserRepository): void {',
+        '  const copy: UserRepository = repository;',
+        '  console.log(copy);',
+        '}',
+        ''
+      ].join('\n'));
+
+      const result = await extract('--class', 'UserRepository', '--replace-usages', '--format', 'json');
+
+      expect(result.exitCode).toBe(0);
+      const data = JSON.parse(result.stdout);
+      expect(data.replacedUsages).toBe(4);
+      expect(data.warnings.filter((warning: string) => warning.includes('會傳到需要 UserRepository 的位置'))).toHaveLength(2);
+      expect(data.warnings.some((warning: string) => warning.includes('keeper.ts:5'))).toBe(true);
+      const updated = await fixture.readFile('src/keeper.ts');
+      expect(updated).toContain('export function keep(repository: UserRepository): UserRepository {\n  const current: UserRepository = repository;');
+      expect(updated).toContain('export function store(repository: IUserRepository): void {\n  const copy: IUserRepository = repository;');
+    });
+
+    it('找不到類別或介面名稱已存在時應該拒絕', async () => {
+      const missing = await extract('--class', 'Missing');
+      const duplicate = await extract('--class', 'UserRepository', '--new-name', 'User');
+
+      expect(missing.exitCode).not.toBe(0);
+      expect(missing.stderr).toContain('找不到頂層類別 Missing');
+      expect(duplicate.exitCode).not.toBe(0);
+      expect(duplicate.stderr).toContain('名稱 User 已存在');
+      expect(await fixture.readFile('src/repository.ts')).toBe(repository);
+    });
+  });
 });
@@ -97,7 +97,7 @@ describe('CLI rename E2E 測試', () => {
       const result = await executeCLI([
         'rename',
         '--symbol', 'ApiResponse',
-        '--new-name', 'ApiResult',
+        '--new-name', 'ApiEnvelope',
         '--type', 'interface',
         '--path', fixture.tempPath
       ]);
@@ -105,13 +105,13 @@ describe('CLI rename E2E 測試', () => {
       expect(result.exitCode).toBe(0);
 
       // 驗證定義
-      expect(await fixture.assertFileContains('src/types/api.ts', 'export interface ApiResult')).toBe(true);
+      expect(await fixture.assertFileContains('src/types/api.ts', 'export interface ApiEnvelope')).toBe(true);
 
       // 驗證 services 層引用
-      expect(await fixture.assertFileContains('src/services/user-service.ts', 'ApiResult')).toBe(true);
+      expect(await fixture.assertFileContains('src/services/user-service.ts', 'ApiEnvelope')).toBe(true);
 
       // 驗證泛型使用
-      expect(await fixture.assertFileContains('src/services/user-service.ts', 'ApiResult<User>')).toBe(true);
+      expect(await fixture.assertFileContains('src/services/user-service.ts', 'ApiEnvelope<User>')).toBe(true);
     });
 
     it('應該能重命名 BaseModel class（影響所有子類別）', async () => {
@@ -245,4 +245,88 @@ describe('CLI rename E2E 測試', () => {
       expect(currentContent).toBe(originalContent);
     });
   });
+
+  describe('作用域衝突偵測', () => {
+    beforeEach(async () => {
+      await fixture.writeFile('src/utils/totals.ts', [
+        'import { formatStamp } from \'./date\';',
+        '',
+        'const taxRate = 0.1;',
+        'let grandTotal = 0;',
+        '',
+        'export function sumPrices(prices: number[]): number {',
+        '  let subtotal = 0;',
+        '  for (const price of prices) {',
+        '    subtotal += price * (1 + taxRate);',
+        '  }',
+        '  return subtotal;',
+        '}',
+        '',
+        'export function stamp(value: number): string {',
+        '  return formatStamp(new Date()) + value + grandTotal;',
+        '}',
+        ''
+      ].join('\n'));
+      await fixture.writeFile('src/utils/date.ts', [
+        'export function formatStamp(date: Date): string {',
+        '  return date.toISOString();',
+        '}',
+        ''
+      ].join('\n'));
+    });
+
+    const previewConflicts = async (symbol: string, newName: string) => {
+      const result = await executeCLI([
+        'rename',
+        '--symbol', symbol,
+        '--new-name', newName,
+        '--path', fixture.tempPath,
+        '--preview',
+        '--format', 'json'
+      ]);
+      expect(result.exitCode).toBe(0);
+      return JSON.parse(result.stdout).conflicts as Array<{
+        type: string;
+        message: string;
+        location: { filePath: string; range: { start: { line: number; column: number } } };
+      }>;
+    };
+
+    it('新名稱與同一作用域的宣告相同時應該回報名稱衝突', async () => {
+      const conflicts = await previewConflicts('taxRate', 'grandTotal');
+
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0].type).toBe('name_collision');
+      expect(conflicts[0].location.filePath).toMatch(/utils\/totals\.ts$/);
+      expect(conflicts[0].location.range.start.line).toBe(3);
+    });
+
+    it('重新命名後遮蔽外層綁定時應該回報作用域衝突', async () => {
+      const conflicts = await previewConflicts('subtotal', 'taxRate');
+
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0].type).toBe('scope_conflict');
+      // 指向函式內使用外層 taxRate 的位置
+      expect(conflicts[0].location.range.start).toMatchObject({ line: 8, column: 29 });
+    });
+
+    it('新名稱與匯入名稱相同時應該回報衝突並拒絕執行', async () => {
+      const conflicts = await previewConflicts('stamp', 'formatStamp');
+      expect(conflicts.some(conflict =>
+        conflict.type === 'name_collision' && conflict.location.range.start.line === 0
+      )).toBe(true);
+
+      const original = await fixture.readFile('src/utils/totals.ts');
+      const result = await executeCLI([
+        'rename',
+        '--symbol', 'stamp',
+        '--new-name', 'formatStamp',
+        '--path', fixture.tempPath
+      ]);
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.stderr).toContain('匯入的名稱衝突');
+      expect(await fixture.readFile('src/utils/totals.ts')).toBe(original);
+    });
+  });
 });
@@ -0,0 +1,109 @@
+/**
+ * CLI rewrite E2E 測試
+ * 使用 sample-project fixture 驗證結構化搜尋取代
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { loadFixture, FixtureProject } from '../../helpers/fixture-manager';
+import { executeCLI } from '../../helpers/cli-executor';
+
+describe('CLI rewrite E2E 測試', () => {
+  let fixture: FixtureProject;
+
+  beforeEach(async () => {
+    fixture = await loadFixture('sample-project');
+  });
+
+  afterEach(async () => {
+    await fixture.cleanup();
+  });
+
+  it('應該以 unified diff 預覽變更而不修改檔案', async () => {
+    const original = await fixture.readFile('src/api/handlers/product-handler.ts');
+
+    const result = await executeCLI([
+      'rewrite',
+      '--match', 'await this.productService.$METHOD($$$ARGS)',
+      '--replace', 'await this.catalog.$METHOD($$$ARGS)',
+      '--path', fixture.getFilePath('src/api'),
+      '--preview'
+    ], { cwd: fixture.tempPath });
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain('--- a/src/api/handlers/product-handler.ts');
+    expect(result.stdout).toContain('+++ b/src/api/handlers/product-handler.ts');
+    expect(result.stdout).toMatch(/^@@ -\d+,\d+ \+\d+,\d+ @@$/m);
+    expect(result.stdout).toContain('-    return await this.productService.createProduct(data);');
+    expect(result.stdout).toContain('+    return await this.catalog.createProduct(data);');
+
+    expect(await fixture.readFile('src/api/handlers/product-handler.ts')).toBe(original);
+  });
+
+  it('應該代入 metavariable 並跨檔案套用變更', async () => {
+    const result = await executeCLI([
+      'rewrite',
+      '--match', 'await this.productService.$METHOD($$$ARGS)',
+      '--replace', 'await this.catalog.$METHOD($$$ARGS)',
+      '--path', fixture.tempPath,
+      '--format', 'json'
+    ]);
+
+    expect(result.exitCode).toBe(0);
+    const output = JSON.parse(result.stdout);
+    expect(output.success).toBe(true);
+    expect(output.affectedFiles.length).toBeGreaterThanOrEqual(2);
+
+    const updateEdit = output.edits.find((edit: any) => edit.bindings.METHOD === 'updateProduct');
+    expect(updateEdit.bindings.ARGS).toBe('productId, updates');
+
+    expect(await fixture.assertFileContains(
+      'src/api/handlers/product-handler.ts',
+      'return await this.catalog.updateProduct(productId, updates);'
+    )).toBe(true);
+    expect(await fixture.assertFileNotContains('src/api/handlers/product-handler.ts', 'await this.productService.')).toBe(true);
+    expect(await fixture.assertFileNotContains('src/controllers/product-controller.ts', 'await this.productService.')).toBe(true);
+  });
+
+  it('應該支援參數重新排序並保留陳述式結尾的分號', async () => {
+    await fixture.writeFile('src/utils/range.ts', [
+      'export function clamp(value: number, max: number, min: number): number {',
+      '  return Math.min(Math.max(value, min), max);',
+      '}',
+      '',
+      'clamp(10, 100, 0);',
+      'const limited = clamp(compute(1, 2), 5, 1);',
+      '',
+      'declare function compute(a: number, b: number): number;',
+      ''
+    ].join('\n'));
+
+    const result = await executeCLI([
+      'rewrite',
+      '--match', 'clamp($VALUE, $MAX, $MIN)',
+      '--replace', 'clamp($VALUE, $MIN, $MAX)',
+      '--path', fixture.getFilePath('src/utils/range.ts')
+    ]);
+
+    expect(result.exitCode).toBe(0);
+    const content = await fixture.readFile('src/utils/range.ts');
+    expect(content).toContain('\nclamp(10, 0, 100);\n');
+    expect(content).toContain('const limited = clamp(compute(1, 2), 1, 5);');
+    // 函式宣告不是呼叫運算式，不應被改寫
+    expect(content).toContain('export function clamp(value: number, max: number, min: number): number {');
+  });
+
+  it('取代模板引用未捕獲的 metavariable 時應該失敗且不修改檔案', async () => {
+    const original = await fixture.readFile('src/api/handlers/product-handler.ts');
+
+    const result = await executeCLI([
+      'rewrite',
+      '--match', 'await this.productService.$METHOD($$$ARGS)',
+      '--replace', 'await this.catalog.$OTHER($$$ARGS)',
+      '--path', fixture.tempPath
+    ]);
+
+    expect(result.exitCode).not.toBe(0);
+    expect(result.stderr).toContain('$OTHER');
+    expect(await fixture.readFile('src/api/handlers/product-handler.ts')).toBe(original);
+  });
+});
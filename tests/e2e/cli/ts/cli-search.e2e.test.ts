@@ -6,6 +6,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { loadFixture, FixtureProject } from '../../helpers/fixture-manager';
 import { searchCode, executeCLI } from '../../helpers/cli-executor';
+import * as fs from 'fs/promises';
 
 describe('CLI search - 基於 sample-project fixture', () => {
   let fixture: FixtureProject;
@@ -299,7 +300,177 @@ describe('CLI search - 基於 sample-project fixture', () => {
   });
 
   // ============================================================
-  // 5. 邊界與錯誤測試（3 個測試）
+  // 5. 程式碼模板搜尋（4 個測試）
+  // ============================================================
+
+  describe('程式碼模板搜尋', () => {
+    beforeEach(async () => {
+      await fixture.writeFile('src/utils/loader.ts', [
+        'export async function loadUser(id: string, retries: number) {',
+        '  const user = await fetchUser(id, retries);',
+        '  if (user == null) {',
+        '    return undefined;',
+        '  }',
+        '  await flush();',
+        '  return user.total + user.total + user.count;',
+        '}',
+        '',
+        'declare function fetchUser(id: string, retries: number): Promise<any>;',
+        'declare function flush(): Promise<void>;',
+        ''
+      ].join('\n'));
+      await fixture.writeFile('src/utils/legacy.js', [
+        'export function pick(options) {',
+        '  if (options == null) { return {}; }',
+        '  return options;',
+        '}',
+        ''
+      ].join('\n'));
+    });
+
+    const searchPattern = async (template: string, ...args: string[]) => {
+      const result = await executeCLI([
+        'search', 'pattern', template,
+        '--path', fixture.getFilePath('src/utils'),
+        '--format', 'json',
+        ...args
+      ]);
+      expect(result.exitCode).toBe(0);
+      return JSON.parse(result.stdout).results as Array<{
+        file: string;
+        line: number;
+        column: number;
+        content: string;
+        bindings: Record<string, string>;
+        nodePath: string[];
+      }>;
+    };
+
+    it('應該匹配 await 呼叫並捕獲 metavariable', async () => {
+      const results = await searchPattern('await $CALL($$$ARGS)');
+
+      const fetchCall = results.find(r => r.bindings.CALL === 'fetchUser');
+      expect(fetchCall).toBeDefined();
+      expect(fetchCall!.file).toMatch(/utils\/loader\.ts$/);
+      expect(fetchCall!.line).toBe(2);
+      expect(fetchCall!.column).toBe(16);
+      expect(fetchCall!.content).toBe('await fetchUser(id, retries)');
+      expect(fetchCall!.bindings.ARGS).toBe('id, retries');
+      expect(fetchCall!.nodePath[fetchCall!.nodePath.length - 1]).toBe('AwaitExpression');
+
+      // `$$$` 可以匹配零個參數
+      const flushCall = results.find(r => r.bindings.CALL === 'flush');
+      expect(flushCall!.bindings.ARGS).toBe('');
+      expect(results.filter(r => r.bindings.CALL === 'fetchUser')).toHaveLength(1);
+    });
+
+    it('應該跨 TypeScript 與 JavaScript 匹配陳述式模板', async () => {
+      const results = await searchPattern('if ($X == null) { return $Y }');
+
+      expect(results).toHaveLength(2);
+      const tsMatch = results.find(r => r.file.endsWith('loader.ts'));
+      const jsMatch = results.find(r => r.file.endsWith('legacy.js'));
+      expect(tsMatch!.bindings).toEqual({ X: 'user', Y: 'undefined' });
+      expect(tsMatch!.line).toBe(3);
+      expect(jsMatch!.bindings).toEqual({ X: 'options', Y: '{}' });
+    });
+
+    it('同名 metavariable 應該匹配相同程式碼', async () => {
+      const results = await searchPattern('$A + $A');
+
+      expect(results).toHaveLength(1);
+      expect(results[0].content).toBe('user.total + user.total');
+      expect(results[0].bindings.A).toBe('user.total');
+    });
+
+    it('應該拒絕只有 metavariable 的模板', async () => {
+      const result = await executeCLI([
+        'search', 'pattern', '$X',
+        '--path', fixture.getFilePath('src/utils'),
+        '--format', 'json'
+      ]);
+
+      expect(result.exitCode).not.toBe(0);
+      expect(JSON.parse(result.stdout).error).toContain('metavariable');
+    });
+  });
+
+  // ============================================================
+  // 6. 語義搜尋（3 個測試）
+  // ============================================================
+
+  describe('語義搜尋', () => {
+    beforeEach(async () => {
+      await fixture.writeFile('src/http/client.ts', [
+        '/**',
+        ' * Retries failed HTTP requests with exponential backoff',
+        ' */',
+        'export async function fetchWithBackoff(url: string, attempts = 3): Promise<Response> {',
+        '  let delay = 100;',
+        '  for (let attempt = 1; attempt < attempts; attempt++) {',
+        '    try {',
+        '      return await fetch(url);',
+        '    } catch {',
+        '      await new Promise(resolve => setTimeout(resolve, delay));',
+        '      delay *= 2;',
+        '    }',
+        '  }',
+        '  return fetch(url);',
+        '}',
+        ''
+      ].join('\n'));
+    });
+
+    const searchSemantic = async (query: string) => {
+      const result = await executeCLI([
+        'search', query,
+        '--type', 'semantic',
+        '--path', fixture.tempPath,
+        '--format', 'json'
+      ]);
+      expect(result.exitCode).toBe(0);
+      return JSON.parse(result.stdout) as {
+        results: Array<{ name: string; type: string; file: string; line: number; score: number }>;
+        suggestions: string[];
+        confidence: number;
+      };
+    };
+
+    it('應該以自然語言查詢找到相關符號', async () => {
+      const output = await searchSemantic('where do we retry http requests');
+
+      expect(output.results[0]).toMatchObject({ name: 'fetchWithBackoff', type: 'function', line: 4, score: 1 });
+      expect(output.results[0].file).toMatch(/http\/client\.ts$/);
+      expect(output.confidence).toBe(1);
+    });
+
+    it('應該將語義索引持久化並只重新分析變更的檔案', async () => {
+      await searchSemantic('retry');
+      expect(await fixture.fileExists('.agent-ide/semantic-index.json')).toBe(true);
+
+      await fixture.writeFile('src/http/cache.ts', [
+        '// Evicts stale entries from the response cache',
+        'export function purgeCache(): void {}',
+        ''
+      ].join('\n'));
+
+      const output = await searchSemantic('evict stale cache entries');
+      expect(output.results[0].name).toBe('purgeCache');
+
+      const index = JSON.parse(await fixture.readFile('.agent-ide/semantic-index.json'));
+      expect(Object.keys(index.files).some(file => file.endsWith('cache.ts'))).toBe(true);
+    });
+
+    it('查詢詞不在索引中時應該提供相近詞彙建議', async () => {
+      const output = await searchSemantic('backof');
+
+      expect(output.results).toHaveLength(0);
+      expect(output.suggestions).toContain('backoff');
+    });
+  });
+
+  // ============================================================
+  // 7. 邊界與錯誤測試（3 個測試）
   // ============================================================
 
   describe('邊界與錯誤處理', () => {
@@ -321,6 +492,25 @@ describe('CLI search - 基於 sample-project fixture', () => {
       ).toBeTruthy();
     });
 
+    it('一般搜尋不應在工作區寫入索引檔，index 命令才寫入', async () => {
+      await fs.rm(fixture.getFilePath('.agent-ide'), { recursive: true, force: true });
+
+      const result = await executeCLI(['search', 'symbol', '--query', 'UserService', '--path', fixture.tempPath]);
+      expect(result.exitCode).toBe(0);
+      expect(await fixture.fileExists('.agent-ide/index.json')).toBe(false);
+
+      await executeCLI(['index', '--path', fixture.tempPath]);
+      expect(await fixture.fileExists('.agent-ide/index.json')).toBe(true);
+
+      // 之後的搜尋載入索引檔，新檔案只更新記憶體中的索引
+      const stored = await fixture.readFile('.agent-ide/index.json');
+      await fixture.writeFile('src/services/audit-service.ts', 'export class AuditService {}\n');
+      const next = await executeCLI(['search', 'symbol', '--query', 'AuditService', '--path', fixture.tempPath, '--format', 'json']);
+      expect(next.exitCode).toBe(0);
+      expect(next.stdout).toContain('audit-service.ts');
+      expect(await fixture.readFile('.agent-ide/index.json')).toBe(stored);
+    });
+
     it('應該處理空查詢字串', async () => {
       const result = await executeCLI([
         'search',
@@ -4,6 +4,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as os from 'os';
 import { loadFixture, type FixtureProject } from '../../helpers/fixture-manager.js';
 import { executeCLI } from '../../helpers/cli-executor.js';
 
@@ -206,6 +207,69 @@ describe('CLI shit - 品質保證維度測試', () => {
         expect(['high', 'critical']).toContain(testRecommendation.priority);
       }
     });
+
+    // order-service.ts 前 3 行被執行，createOrder（第 22 行起）內的第 23 行沒有
+    const lcov = [
+      'TN:',
+      'SF:src/services/order-service.ts',
+      'DA:1,1',
+      'DA:2,1',
+      'DA:3,1',
+      'DA:23,0',
+      'end_of_record',
+      ''
+    ].join('\n');
+
+    it('--coverage 應該以 --path 為基準讀取覆蓋率報告，以行覆蓋率計算並列出未覆蓋的複雜函式', async () => {
+      await fixture.writeFile('coverage/lcov.info', lcov);
+
+      const result = await executeCLI([
+        'shit',
+        '--path',
+        fixture.tempPath,
+        '--format',
+        'json',
+        '--detailed',
+        '--top',
+        '100',
+        '--coverage',
+        'coverage/lcov.info',
+      ], { cwd: os.tmpdir() });
+
+      expect(result.exitCode).toBe(0);
+      const output = JSON.parse(result.stdout);
+      // 其他檔案不在報告中，可執行行全部計為未覆蓋，整體覆蓋率遠低於 order-service.ts 的 75%
+      expect(output.dimensions.qualityAssurance.breakdown.testCoverage).toBeGreaterThan(90);
+
+      const coverageItems = output.topShit.filter((item: any) => item.type === 'low_test_coverage');
+      const createOrder = coverageItems.find((item: any) => item.description.startsWith('函式 createOrder '));
+      expect(createOrder.filePath.endsWith('src/services/order-service.ts')).toBe(true);
+      expect(createOrder.location.line).toBe(22);
+      expect(createOrder.description).toContain('行覆蓋率 0%');
+    });
+
+    it('應該讀取 .agent-ide.json 的 coverage 設定', async () => {
+      await fixture.writeFile('coverage/lcov.info', lcov);
+      await fixture.writeFile('.agent-ide.json', JSON.stringify({ coverage: 'coverage/lcov.info' }));
+
+      const result = await executeCLI([
+        'shit',
+        '--path',
+        fixture.tempPath,
+        '--format',
+        'json',
+        '--show-files',
+      ]);
+
+      expect(result.exitCode).toBe(0);
+      const output = JSON.parse(result.stdout);
+      // 其他檔案不在報告中，可執行行全部計為未覆蓋，整體覆蓋率遠低於 order-service.ts 的 75%
+      expect(output.dimensions.qualityAssurance.breakdown.testCoverage).toBeGreaterThan(90);
+
+      const orderService = output.detailedFiles.qualityAssurance.testCoverage
+        .find((file: any) => file.path.endsWith('src/services/order-service.ts'));
+      expect(orderService.testCoverageRatio).toBe(0.75);
+    });
   });
 
   describe('錯誤處理檢測', () => {
@@ -4,6 +4,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
 import { loadFixture, FixtureProject } from '../../helpers/fixture-manager';
 import { executeCLI } from '../../helpers/cli-executor';
 
@@ -317,6 +318,106 @@ describe('CLI shit - 基於 sample-project fixture', () => {
       expect(output.dimensions.architecture.breakdown.circularDependency).toBeGreaterThanOrEqual(0);
       expect(output.dimensions.architecture.breakdown.orphanFile).toBeGreaterThanOrEqual(0);
     });
+
+    it('孤立檔案應該依進入點可達性判斷', async () => {
+      const analyze = async () => JSON.parse((await executeCLI([
+        'shit',
+        '--path',
+        fixture.tempPath,
+        '--format',
+        'json',
+        '--show-files'
+      ])).stdout);
+
+      const before = await analyze();
+      const orphanPaths = before.detailedFiles.architecture.orphanFile.map((f: any) => f.path);
+      expect(orphanPaths.some((p: string) => p.endsWith('src/utils/formatter.ts'))).toBe(true);
+      expect(orphanPaths.some((p: string) => p.endsWith('src/index.ts'))).toBe(false);
+
+      // 宣告為進入點（如 CLI 腳本）後不再視為孤立檔案
+      await fixture.writeFile('.agent-ide.json', JSON.stringify({ entryPoints: ['src/utils/**', 'src/quality-test/**', 'src/types/index.ts'] }));
+      const after = await analyze();
+      expect(after.detailedFiles.architecture.orphanFile).toEqual([]);
+      expect(after.dimensions.architecture.breakdown.orphanFile).toBe(0);
+      expect(before.dimensions.architecture.breakdown.orphanFile).toBeGreaterThan(0);
+    }, 60000);
+
+    it('找不到進入點時不應該把檔案判定為孤立檔案', async () => {
+      await fixture.writeFile('package.json', JSON.stringify({ name: 'sample-project' }));
+
+      const result = await executeCLI([
+        'shit',
+        '--path',
+        fixture.tempPath,
+        '--format',
+        'json',
+        '--detailed',
+        '--show-files'
+      ]);
+
+      expect(result.exitCode).toBe(0);
+      const output = JSON.parse(result.stdout);
+      expect(output.dimensions.architecture.breakdown.orphanFile).toBe(0);
+      expect(output.detailedFiles.architecture.orphanFile).toEqual([]);
+      expect(output.topShit.some((item: any) => item.type === 'orphan_file')).toBe(false);
+    }, 60000);
+
+    it('高耦合應該以偏離主序列的模組判斷', async () => {
+      const result = await executeCLI([
+        'shit',
+        '--path',
+        fixture.tempPath,
+        '--format',
+        'json',
+        '--detailed',
+        '--show-files'
+      ]);
+
+      expect(result.exitCode).toBe(0);
+
+      const output = JSON.parse(result.stdout);
+      const couplingPaths = output.detailedFiles.architecture.highCoupling.map((f: any) => f.path);
+      expect(couplingPaths.some((p: string) => p.endsWith('src/core/constants.ts'))).toBe(true);
+      expect(couplingPaths.some((p: string) => p.includes('src/types/'))).toBe(false);
+      expect(output.dimensions.architecture.breakdown.highCoupling).toBeGreaterThan(0);
+
+      const couplingItems = output.topShit.filter((item: any) => item.type === 'high_coupling');
+      expect(couplingItems.some((item: any) => item.description.includes('模組 src/core/ 偏離主序列 D=1.00'))).toBe(true);
+    }, 60000);
+
+    it('經常修改的高認知複雜度檔案應該列為熱點', async () => {
+      const git = (...args: string[]) => execFileSync(
+        'git',
+        ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args],
+        { cwd: fixture.tempPath, stdio: 'pipe' }
+      );
+      git('init', '-q');
+      git('add', '-A');
+      git('commit', '-q', '-m', 'init');
+      for (let i = 1; i <= 5; i++) {
+        const content = await fixture.readFile('src/services/order-service.ts');
+        await fixture.writeFile('src/services/order-service.ts', `${content}\n// change ${i}\n`);
+        git('commit', '-q', '-a', '-m', `change ${i}`);
+      }
+
+      const result = await executeCLI([
+        'shit',
+        '--path',
+        fixture.tempPath,
+        '--format',
+        'json',
+        '--detailed',
+        '--top',
+        '100'
+      ]);
+
+      expect(result.exitCode).toBe(0);
+
+      const hotspots = JSON.parse(result.stdout).topShit.filter((item: any) => item.type === 'hotspot');
+      expect(hotspots).toHaveLength(1);
+      expect(hotspots[0].filePath.endsWith('src/services/order-service.ts')).toBe(true);
+      expect(hotspots[0].description).toMatch(/^熱點：6 次變更 × 認知複雜度 \d+（1 位作者）/);
+    }, 60000);
   });
 
   // ============================================================
@@ -347,6 +448,60 @@ describe('CLI shit - 基於 sample-project fixture', () => {
       }
     });
 
+    it('參數過多的函式應該列入 topShit 並在建議中附上引入參數物件的命令', async () => {
+      await fixture.writeFile('src/report.ts', `
+export function buildReport(title: string, author: string, year: number, pages: number, draft: boolean, tags: string[], locale: string): string {
+  return [title, author, year, pages, draft, tags.join(), locale].join(' ');
+}
+`.trimStart());
+
+      const result = await executeCLI([
+        'shit',
+        '--path',
+        fixture.tempPath,
+        '--detailed',
+        '--top',
+        '100',
+        '--format',
+        'json'
+      ]);
+
+      expect(result.exitCode).toBe(0);
+      const output = JSON.parse(result.stdout);
+      const item = output.topShit.find((shit: any) => shit.type === 'too_many_params');
+      expect(item.description).toBe('函式 buildReport 有 7 個參數');
+      expect(item.location.line).toBe(1);
+      const recommendation = output.recommendations.find((rec: any) => rec.command?.includes('introduce-parameter-object'));
+      expect(recommendation.suggestion).toContain('最多的是 buildReport（7 個）');
+      expect(recommendation.command).toMatch(/^agent-ide refactor introduce-parameter-object --file \S*report\.ts --function buildReport$/);
+    });
+
+    it('參數過多的建議應該只有一則，且命令中的檔案路徑含空白時要加上引號', async () => {
+      await fixture.writeFile('src/report tools/report.ts', `
+export function buildReport(title: string, author: string, year: number, pages: number, draft: boolean, tags: string[], locale: string): string {
+  return [title, author, year, pages, draft, tags.join(), locale].join(' ');
+}
+`.trimStart());
+
+      const result = await executeCLI([
+        'shit',
+        '--path',
+        fixture.tempPath,
+        '--detailed',
+        '--format',
+        'json'
+      ]);
+
+      expect(result.exitCode).toBe(0);
+      const output = JSON.parse(result.stdout);
+      const recommendations = output.recommendations.filter((rec: any) => rec.suggestion.includes('introduce-parameter-object'));
+      expect(recommendations).toHaveLength(1);
+      expect(recommendations[0].affectedFiles).toEqual([fixture.getFilePath('src/report tools/report.ts')]);
+      expect(recommendations[0].command).toBe(
+        `agent-ide refactor introduce-parameter-object --file '${fixture.getFilePath('src/report tools/report.ts')}' --function buildReport`
+      );
+    });
+
     it('建議應該按優先級排序', async () => {
       const result = await executeCLI([
         'shit',
@@ -15,6 +15,8 @@ export interface CLIResult {
 export interface CLIExecutorOptions {
   cwd?: string;
   timeout?: number;
+  /** 寫入 stdin 的內容（寫入後關閉 stdin） */
+  input?: string;
 }
 
 /**
@@ -24,7 +26,7 @@ export async function executeCLI(
   args: string[],
   options: CLIExecutorOptions = {}
 ): Promise<CLIResult> {
-  const { cwd = process.cwd(), timeout = 30000 } = options;
+  const { cwd = process.cwd(), timeout = 30000, input } = options;
 
   // 使用編譯後的 CLI 入口點
   const cliPath = path.join(process.cwd(), 'bin', 'agent-ide.js');
@@ -49,6 +51,10 @@ export async function executeCLI(
       stdout += data.toString();
     });
 
+    if (input !== undefined) {
+      proc.stdin?.end(input);
+    }
+
     proc.stderr?.on('data', (data) => {
       stderr += data.toString();
     });
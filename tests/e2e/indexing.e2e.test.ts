@@ -3,7 +3,8 @@
  * 使用 sample-project fixture 進行完整的索引功能測試
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
 import { loadFixture, FixtureProject } from './helpers/fixture-manager';
 import { IndexEngine } from '../../src/core/indexing/index-engine';
 import { createIndexConfig } from '../../src/core/indexing/types';
@@ -326,6 +327,106 @@ describe('Indexing E2E 測試', () => {
     });
   });
 
+  describe('索引持久化', () => {
+    it('應該將索引寫入 .agent-ide/index.json 並由新引擎載入', async () => {
+      const config = createIndexConfig(fixture.tempPath, { persistChanges: true });
+      indexEngine = new IndexEngine(config);
+      await indexEngine.indexProject();
+      const statsBefore = await indexEngine.getStats();
+      indexEngine.dispose();
+
+      expect(await fixture.fileExists('.agent-ide/index.json')).toBe(true);
+
+      indexEngine = new IndexEngine(config);
+      const indexFileSpy = vi.spyOn(indexEngine, 'indexFile');
+      await indexEngine.indexProject();
+
+      // 未變更的檔案不應重新解析
+      expect(indexFileSpy).not.toHaveBeenCalled();
+
+      const statsAfter = await indexEngine.getStats();
+      expect(statsAfter.indexedFiles).toBe(statsBefore.indexedFiles);
+      expect(statsAfter.totalSymbols).toBe(statsBefore.totalSymbols);
+
+      const results = await indexEngine.findSymbol('UserService');
+      expect(results.length).toBeGreaterThan(0);
+      expect(results[0].symbol.location.filePath).toContain('user-service.ts');
+    });
+
+    it('應該只重新解析內容變更的檔案', async () => {
+      const config = createIndexConfig(fixture.tempPath, { persistChanges: true });
+      indexEngine = new IndexEngine(config);
+      await indexEngine.indexProject();
+      indexEngine.dispose();
+
+      const userServicePath = fixture.getFilePath('src/services/user-service.ts');
+      const userTypesPath = fixture.getFilePath('src/types/user.ts');
+      const originalContent = await fixture.readFile('src/services/user-service.ts');
+      await fixture.writeFile('src/services/user-service.ts', originalContent + '\nexport function persistedHelper() {}\n');
+
+      // 只變更修改時間、內容不變的檔案應以 checksum 判定為未變更
+      const future = new Date(Date.now() + 60000);
+      await fs.utimes(userTypesPath, future, future);
+
+      indexEngine = new IndexEngine(config);
+      const indexFileSpy = vi.spyOn(indexEngine, 'indexFile');
+      await indexEngine.indexProject();
+
+      expect(indexFileSpy).toHaveBeenCalledTimes(1);
+      expect(indexFileSpy).toHaveBeenCalledWith(userServicePath);
+
+      const results = await indexEngine.findSymbol('persistedHelper');
+      expect(results.length).toBeGreaterThan(0);
+    });
+
+    it('應該忽略 checksum 不符的索引檔並完整重建', async () => {
+      const config = createIndexConfig(fixture.tempPath, { persistChanges: true });
+      indexEngine = new IndexEngine(config);
+      await indexEngine.indexProject();
+      const statsBefore = await indexEngine.getStats();
+      indexEngine.dispose();
+
+      const storagePath = fixture.getFilePath('.agent-ide/index.json');
+      const stored = JSON.parse(await fs.readFile(storagePath, 'utf-8'));
+      stored.payload.files = stored.payload.files.slice(1);
+      await fs.writeFile(storagePath, JSON.stringify(stored), 'utf-8');
+
+      indexEngine = new IndexEngine(config);
+      const indexFileSpy = vi.spyOn(indexEngine, 'indexFile');
+      await indexEngine.indexProject();
+
+      expect(indexFileSpy.mock.calls.length).toBe(statsBefore.indexedFiles);
+      const statsAfter = await indexEngine.getStats();
+      expect(statsAfter.totalSymbols).toBe(statsBefore.totalSymbols);
+    });
+
+    it('預設不應寫入索引檔', async () => {
+      const config = createIndexConfig(fixture.tempPath);
+      indexEngine = new IndexEngine(config);
+      await indexEngine.indexProject();
+
+      expect(await fixture.fileExists('.agent-ide/index.json')).toBe(false);
+    });
+
+    it('未設定 persistChanges 時仍應載入既有的索引檔', async () => {
+      // 副檔名順序不同仍視為相同配置
+      indexEngine = new IndexEngine(createIndexConfig(fixture.tempPath, { includeExtensions: ['.tsx', '.ts', '.jsx', '.js'], persistChanges: true }));
+      await indexEngine.indexProject();
+      indexEngine.dispose();
+      const storedBefore = await fixture.readFile('.agent-ide/index.json');
+
+      indexEngine = new IndexEngine(createIndexConfig(fixture.tempPath));
+      const indexFileSpy = vi.spyOn(indexEngine, 'indexFile');
+      await fixture.writeFile('src/services/user-service.ts', (await fixture.readFile('src/services/user-service.ts')) + '\nexport function loadedHelper() {}\n');
+      await indexEngine.indexProject();
+
+      expect(indexFileSpy).toHaveBeenCalledTimes(1);
+      expect((await indexEngine.findSymbol('loadedHelper')).length).toBeGreaterThan(0);
+      // 變更只保留在記憶體中
+      expect(await fixture.readFile('.agent-ide/index.json')).toBe(storedBefore);
+    });
+  });
+
   describe('錯誤處理', () => {
     it('應該處理語法錯誤的檔案', async () => {
       // 建立一個語法錯誤的檔案
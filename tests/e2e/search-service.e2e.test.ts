@@ -0,0 +1,169 @@
+/**
+ * SearchService 符號搜尋 E2E 測試
+ * 使用 sample-project fixture 驗證符號搜尋的匹配、過濾與排序
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { loadFixture, FixtureProject } from './helpers/fixture-manager';
+import { IndexEngine } from '../../src/core/indexing/index-engine';
+import { createIndexConfig } from '../../src/core/indexing/types';
+import { SearchService } from '../../src/core/search/service';
+import type { SymbolSearchResult } from '../../src/core/search/types';
+import { SymbolType } from '../../src/shared/types';
+
+describe('SearchService 符號搜尋 E2E 測試', () => {
+  let fixture: FixtureProject;
+  let indexEngine: IndexEngine;
+  let searchService: SearchService;
+
+  beforeEach(async () => {
+    fixture = await loadFixture('sample-project');
+
+    // 同名的頂層函式與類別方法，用於驗證作用域排序
+    await fixture.writeFile('src/utils/format-value.ts', [
+      'export class ValueFormatter {',
+      '  formatValue(value: number): string {',
+      '    return String(value);',
+      '  }',
+      '}',
+      '',
+      'export function formatValue(value: number): string {',
+      '  return new ValueFormatter().formatValue(value);',
+      '}',
+      ''
+    ].join('\n'));
+    await fixture.writeFile('tests/helpers/user-fixture.ts', 'export function createUserServiceFixture() {}\n');
+
+    indexEngine = new IndexEngine(createIndexConfig(fixture.tempPath, { enablePersistence: false }));
+    await indexEngine.indexProject();
+    searchService = new SearchService(indexEngine);
+  });
+
+  afterEach(async () => {
+    indexEngine.dispose();
+    await fixture.cleanup();
+  });
+
+  const names = (result: SymbolSearchResult): string[] => result.symbols.map(symbol => symbol.name);
+
+  it('應該以完全匹配的符號排在最前面', async () => {
+    const result = await searchService.searchSymbols({ type: 'symbol', query: 'UserService' });
+
+    expect(result.symbols[0].name).toBe('UserService');
+    expect(result.symbols[0].type).toBe(SymbolType.Class);
+    expect(result.symbolsByType.get(SymbolType.Class)?.some(symbol => symbol.name === 'UserService')).toBe(true);
+
+    // Match 的行列從 1 開始，與文字搜尋一致
+    const match = result.matches[0];
+    expect(match.file).toContain('user-service.ts');
+    expect(match.content).toContain('class UserService');
+    expect(match.line).toBe(result.symbols[0].location.range.start.line + 1);
+  });
+
+  it('應該支援 camelCase 縮寫與模糊匹配', async () => {
+    const humps = await searchService.searchSymbols({ type: 'symbol', query: 'UsSe' });
+    expect(names(humps)).toContain('UserService');
+
+    const lowerHumps = await searchService.searchSymbols({ type: 'symbol', query: 'fmtval' });
+    expect(names(lowerHumps)).toContain('formatValue');
+
+    const none = await searchService.searchSymbols({ type: 'symbol', query: 'zzzNotExisting' });
+    expect(none.symbols).toHaveLength(0);
+    expect(none.totalCount).toBe(0);
+  });
+
+  it('應該依符號類型與修飾符過濾', async () => {
+    const interfaces = await searchService.searchSymbols({
+      type: 'symbol',
+      query: 'User',
+      options: { scope: { type: 'project' }, symbolTypes: [SymbolType.Interface] }
+    });
+    expect(interfaces.symbols.length).toBeGreaterThan(0);
+    expect(interfaces.symbols.every(symbol => symbol.type === SymbolType.Interface)).toBe(true);
+    expect([...interfaces.symbolsByType.keys()]).toEqual([SymbolType.Interface]);
+
+    const privateMembers = await searchService.searchSymbols({
+      type: 'symbol',
+      query: 'generateId',
+      modifiers: ['private']
+    });
+    expect(privateMembers.symbols.length).toBeGreaterThan(0);
+    expect(privateMembers.symbols.every(symbol => symbol.modifiers.includes('private'))).toBe(true);
+
+    const withoutPrivate = await searchService.searchSymbols({
+      type: 'symbol',
+      query: 'generateId',
+      options: { scope: { type: 'project' }, includePrivate: false }
+    });
+    expect(names(withoutPrivate)).not.toContain('generateId');
+  });
+
+  it('應該讓頂層符號排在類別成員之前', async () => {
+    const result = await searchService.searchSymbols({ type: 'symbol', query: 'formatValue' });
+    const formatValues = result.symbols.filter(symbol => symbol.name === 'formatValue');
+
+    expect(formatValues).toHaveLength(2);
+    expect(formatValues[0].type).toBe(SymbolType.Function);
+    expect(formatValues[0].modifiers).toContain('export');
+  });
+
+  it('應該遵守搜尋範圍並預設排除測試檔案', async () => {
+    const inServices = await searchService.searchSymbols({
+      type: 'symbol',
+      query: 'Service',
+      scope: { type: 'directory', path: fixture.getFilePath('src/services') }
+    });
+    expect(inServices.symbols.length).toBeGreaterThan(0);
+    expect(inServices.symbols.every(symbol => symbol.location.filePath.includes('/src/services/'))).toBe(true);
+
+    const defaultResult = await searchService.searchSymbols({ type: 'symbol', query: 'createUserServiceFixture' });
+    expect(defaultResult.symbols).toHaveLength(0);
+
+    const withTests = await searchService.searchSymbols({
+      type: 'symbol',
+      query: 'createUserServiceFixture',
+      options: { scope: { type: 'project' }, includeTests: true }
+    });
+    expect(names(withTests)).toEqual(['createUserServiceFixture']);
+  });
+
+  it('應該在批次搜尋中處理符號查詢', async () => {
+    const batch = await searchService.batchSearch([
+      { type: 'text', query: 'UserService', options: { scope: { type: 'directory', path: fixture.getFilePath('src') } } },
+      { type: 'symbol', query: 'OrderService' }
+    ]);
+
+    expect(batch.allSucceeded).toBe(true);
+    expect(batch.results).toHaveLength(2);
+    expect(batch.results[0].matches.length).toBeGreaterThan(0);
+    expect((batch.results[1] as SymbolSearchResult).symbols[0].name).toBe('OrderService');
+  });
+
+  it('未提供索引引擎時應該依搜尋範圍自動建立索引', async () => {
+    const service = new SearchService();
+    const result = await service.searchSymbols({
+      type: 'symbol',
+      query: 'ProductService',
+      scope: { type: 'directory', path: fixture.tempPath }
+    });
+
+    expect(result.symbols[0].name).toBe('ProductService');
+  });
+
+  it('自動建立的索引應該跟著搜尋範圍切換目錄', async () => {
+    await fixture.writeFile('scopes/a/alpha.ts', 'export function alphaOnly() {}\n');
+    await fixture.writeFile('scopes/b/beta.ts', 'export function betaOnly() {}\n');
+
+    const service = new SearchService();
+    const search = (query: string, scopePath: string) => service.searchSymbols({
+      type: 'symbol',
+      query,
+      scope: { type: 'directory', path: fixture.getFilePath(scopePath) }
+    });
+
+    expect(names(await search('alphaOnly', 'scopes/a'))).toContain('alphaOnly');
+    expect(names(await search('betaOnly', 'scopes/b'))).toContain('betaOnly');
+    // 切回原本的範圍時不應看到其他目錄的符號
+    expect(names(await search('betaOnly', 'scopes/a'))).not.toContain('betaOnly');
+  });
+});